@@ -8,14 +8,21 @@
  * @module
  */
 
+import type * as agencyVendors from "../agencyVendors.js";
 import type * as amionSchedules from "../amionSchedules.js";
 import type * as auditLogs from "../auditLogs.js";
 import type * as census from "../census.js";
 import type * as censusAI from "../censusAI.js";
+import type * as censusAIJobs from "../censusAIJobs.js";
+import type * as censusArchive from "../censusArchive.js";
 import type * as censusCleanup from "../censusCleanup.js";
 import type * as claimTokens from "../claimTokens.js";
+import type * as credentials from "../credentials.js";
 import type * as crons from "../crons.js";
 import type * as departments from "../departments.js";
+import type * as dispositionRules from "../dispositionRules.js";
+import type * as dutyHours from "../dutyHours.js";
+import type * as electiveThrottling from "../electiveThrottling.js";
 import type * as email from "../email.js";
 import type * as emailInternal from "../emailInternal.js";
 import type * as exports from "../exports.js";
@@ -24,27 +31,62 @@ import type * as hospitals from "../hospitals.js";
 import type * as http from "../http.js";
 import type * as jobTypes from "../jobTypes.js";
 import type * as laborPool from "../laborPool.js";
+import type * as lib_agency from "../lib/agency.js";
 import type * as lib_auth from "../lib/auth.js";
+import type * as lib_availability from "../lib/availability.js";
 import type * as lib_cascade from "../lib/cascade.js";
+import type * as lib_censusArchive from "../lib/censusArchive.js";
+import type * as lib_censusForecast from "../lib/censusForecast.js";
+import type * as lib_censusPositions from "../lib/censusPositions.js";
+import type * as lib_censusPredictions from "../lib/censusPredictions.js";
+import type * as lib_claims from "../lib/claims.js";
 import type * as lib_clinicalSignals from "../lib/clinicalSignals.js";
+import type * as lib_coverageSupply from "../lib/coverageSupply.js";
+import type * as lib_credentials from "../lib/credentials.js";
 import type * as lib_deletion from "../lib/deletion.js";
+import type * as lib_dispositionRules from "../lib/dispositionRules.js";
+import type * as lib_dutyHours from "../lib/dutyHours.js";
+import type * as lib_electiveThrottling from "../lib/electiveThrottling.js";
+import type * as lib_llmProvider from "../lib/llmProvider.js";
+import type * as lib_patientFlow from "../lib/patientFlow.js";
+import type * as lib_portalAuth from "../lib/portalAuth.js";
 import type * as lib_procedureDisposition from "../lib/procedureDisposition.js";
+import type * as lib_procedureSources from "../lib/procedureSources.js";
+import type * as lib_scenarioEligibility from "../lib/scenarioEligibility.js";
+import type * as lib_scenarioPlanning from "../lib/scenarioPlanning.js";
+import type * as lib_sendgrid from "../lib/sendgrid.js";
+import type * as lib_shiftTime from "../lib/shiftTime.js";
+import type * as lib_shiftTrades from "../lib/shiftTrades.js";
+import type * as lib_smsCampaigns from "../lib/smsCampaigns.js";
+import type * as lib_staffingRatios from "../lib/staffingRatios.js";
+import type * as lib_standby from "../lib/standby.js";
+import type * as lib_twilio from "../lib/twilio.js";
 import type * as lib_unitMapping from "../lib/unitMapping.js";
 import type * as lib_validation from "../lib/validation.js";
 import type * as matching from "../matching.js";
+import type * as patientFlow from "../patientFlow.js";
+import type * as portal from "../portal.js";
+import type * as procedureSources from "../procedureSources.js";
 import type * as procedures from "../procedures.js";
 import type * as providerAvailability from "../providerAvailability.js";
 import type * as providers from "../providers.js";
 import type * as rotationTypes from "../rotationTypes.js";
+import type * as scenarioAutoFill from "../scenarioAutoFill.js";
 import type * as scenarioMatching from "../scenarioMatching.js";
 import type * as scenarios from "../scenarios.js";
 import type * as seed from "../seed.js";
 import type * as seedDemo from "../seedDemo.js";
 import type * as services from "../services.js";
+import type * as shiftReminders from "../shiftReminders.js";
+import type * as shiftRequests from "../shiftRequests.js";
 import type * as skills from "../skills.js";
 import type * as sms from "../sms.js";
+import type * as smsCampaigns from "../smsCampaigns.js";
+import type * as standby from "../standby.js";
+import type * as unitMappings from "../unitMappings.js";
 import type * as units from "../units.js";
 import type * as users from "../users.js";
+import type * as whatIfScenarios from "../whatIfScenarios.js";
 
 import type {
   ApiFromModules,
@@ -53,14 +95,21 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  agencyVendors: typeof agencyVendors;
   amionSchedules: typeof amionSchedules;
   auditLogs: typeof auditLogs;
   census: typeof census;
   censusAI: typeof censusAI;
+  censusAIJobs: typeof censusAIJobs;
+  censusArchive: typeof censusArchive;
   censusCleanup: typeof censusCleanup;
   claimTokens: typeof claimTokens;
+  credentials: typeof credentials;
   crons: typeof crons;
   departments: typeof departments;
+  dispositionRules: typeof dispositionRules;
+  dutyHours: typeof dutyHours;
+  electiveThrottling: typeof electiveThrottling;
   email: typeof email;
   emailInternal: typeof emailInternal;
   exports: typeof exports;
@@ -69,27 +118,62 @@ declare const fullApi: ApiFromModules<{
   http: typeof http;
   jobTypes: typeof jobTypes;
   laborPool: typeof laborPool;
+  "lib/agency": typeof lib_agency;
   "lib/auth": typeof lib_auth;
+  "lib/availability": typeof lib_availability;
   "lib/cascade": typeof lib_cascade;
+  "lib/censusArchive": typeof lib_censusArchive;
+  "lib/censusForecast": typeof lib_censusForecast;
+  "lib/censusPositions": typeof lib_censusPositions;
+  "lib/censusPredictions": typeof lib_censusPredictions;
+  "lib/claims": typeof lib_claims;
   "lib/clinicalSignals": typeof lib_clinicalSignals;
+  "lib/coverageSupply": typeof lib_coverageSupply;
+  "lib/credentials": typeof lib_credentials;
   "lib/deletion": typeof lib_deletion;
+  "lib/dispositionRules": typeof lib_dispositionRules;
+  "lib/dutyHours": typeof lib_dutyHours;
+  "lib/electiveThrottling": typeof lib_electiveThrottling;
+  "lib/llmProvider": typeof lib_llmProvider;
+  "lib/patientFlow": typeof lib_patientFlow;
+  "lib/portalAuth": typeof lib_portalAuth;
   "lib/procedureDisposition": typeof lib_procedureDisposition;
+  "lib/procedureSources": typeof lib_procedureSources;
+  "lib/scenarioEligibility": typeof lib_scenarioEligibility;
+  "lib/scenarioPlanning": typeof lib_scenarioPlanning;
+  "lib/sendgrid": typeof lib_sendgrid;
+  "lib/shiftTime": typeof lib_shiftTime;
+  "lib/shiftTrades": typeof lib_shiftTrades;
+  "lib/smsCampaigns": typeof lib_smsCampaigns;
+  "lib/staffingRatios": typeof lib_staffingRatios;
+  "lib/standby": typeof lib_standby;
+  "lib/twilio": typeof lib_twilio;
   "lib/unitMapping": typeof lib_unitMapping;
   "lib/validation": typeof lib_validation;
   matching: typeof matching;
+  patientFlow: typeof patientFlow;
+  portal: typeof portal;
+  procedureSources: typeof procedureSources;
   procedures: typeof procedures;
   providerAvailability: typeof providerAvailability;
   providers: typeof providers;
   rotationTypes: typeof rotationTypes;
+  scenarioAutoFill: typeof scenarioAutoFill;
   scenarioMatching: typeof scenarioMatching;
   scenarios: typeof scenarios;
   seed: typeof seed;
   seedDemo: typeof seedDemo;
   services: typeof services;
+  shiftReminders: typeof shiftReminders;
+  shiftRequests: typeof shiftRequests;
   skills: typeof skills;
   sms: typeof sms;
+  smsCampaigns: typeof smsCampaigns;
+  standby: typeof standby;
+  unitMappings: typeof unitMappings;
   units: typeof units;
   users: typeof users;
+  whatIfScenarios: typeof whatIfScenarios;
 }>;
 
 /**
@@ -0,0 +1,703 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireHealthSystemAccess, auditLog } from "./lib/auth";
+import {
+  safeTextSchema,
+  optionalSafeTextSchema,
+  optionalEmailSchema,
+  optionalPhoneSchema,
+  validateField,
+} from "./lib/validation";
+import {
+  ONBOARDING_STATUSES,
+  CREDENTIAL_DOCUMENT_TYPES,
+  MATCH_PRIORITY_OFFSETS,
+  DEFAULT_MATCH_PRIORITY,
+  agencyIneligibility,
+  refreshCredentialsValidUntil,
+  billableHours,
+} from "./lib/agency";
+import { getDateRange } from "./lib/scenarioPlanning";
+
+const vendorFields = {
+  name: v.string(),
+  contactName: v.optional(v.string()),
+  contactEmail: v.optional(v.string()),
+  contactPhone: v.optional(v.string()),
+  contractRate: v.optional(v.number()),
+  minimumShiftHours: v.optional(v.number()),
+  minimumShiftsPerWeek: v.optional(v.number()),
+  matchPriority: v.optional(v.string()),
+  defaultHospitalId: v.optional(v.id("hospitals")),
+  defaultDepartmentId: v.optional(v.id("departments")),
+};
+
+type VendorInput = {
+  name: string;
+  contactName?: string;
+  contactEmail?: string;
+  contactPhone?: string;
+  contractRate?: number;
+  minimumShiftHours?: number;
+  minimumShiftsPerWeek?: number;
+  matchPriority?: string;
+  defaultHospitalId?: Id<"hospitals">;
+  defaultDepartmentId?: Id<"departments">;
+};
+
+/**
+ * Validate and sanitize vendor fields (XSS prevention)
+ */
+function cleanVendorInput(args: VendorInput) {
+  const matchPriority = args.matchPriority ?? DEFAULT_MATCH_PRIORITY;
+  if (!(matchPriority in MATCH_PRIORITY_OFFSETS)) {
+    throw new Error(`Unknown match priority "${matchPriority}"`);
+  }
+  for (const [field, value] of [
+    ["Contract rate", args.contractRate],
+    ["Minimum shift hours", args.minimumShiftHours],
+    ["Minimum shifts per week", args.minimumShiftsPerWeek],
+  ] as const) {
+    if (value !== undefined && value < 0) throw new Error(`${field} can't be negative`);
+  }
+
+  return {
+    name: validateField(safeTextSchema, args.name, "name"),
+    contactName: args.contactName ? validateField(optionalSafeTextSchema, args.contactName, "contactName") : undefined,
+    contactEmail: args.contactEmail ? validateField(optionalEmailSchema, args.contactEmail, "contactEmail") : undefined,
+    contactPhone: args.contactPhone ? validateField(optionalPhoneSchema, args.contactPhone, "contactPhone") : undefined,
+    contractRate: args.contractRate,
+    minimumShiftHours: args.minimumShiftHours,
+    minimumShiftsPerWeek: args.minimumShiftsPerWeek,
+    matchPriority,
+    defaultHospitalId: args.defaultHospitalId,
+    defaultDepartmentId: args.defaultDepartmentId,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// QUERIES
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Vendors for a health system with worker counts
+ */
+export const list = query({
+  args: { healthSystemId: v.id("health_systems") },
+  handler: async (ctx, args) => {
+    await requireHealthSystemAccess(ctx, args.healthSystemId);
+
+    const vendors = await ctx.db
+      .query("agency_vendors")
+      .withIndex("by_health_system", (q) => q.eq("healthSystemId", args.healthSystemId))
+      .collect();
+
+    const today = new Date().toISOString().split("T")[0];
+
+    return await Promise.all(
+      vendors
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(async (vendor) => {
+          const workers = await ctx.db
+            .query("providers")
+            .withIndex("by_vendor", (q) => q.eq("vendorId", vendor._id))
+            .filter((q) => q.eq(q.field("isActive"), true))
+            .collect();
+          return {
+            ...vendor,
+            workerCount: workers.length,
+            clearedCount: workers.filter((w) => !agencyIneligibility(w, today)).length,
+          };
+        })
+    );
+  },
+});
+
+/**
+ * A vendor with its roster and each worker's credential documents
+ */
+export const get = query({
+  args: { vendorId: v.id("agency_vendors") },
+  handler: async (ctx, args) => {
+    const vendor = await ctx.db.get(args.vendorId);
+    if (!vendor) return null;
+
+    await requireHealthSystemAccess(ctx, vendor.healthSystemId);
+
+    const [workers, documents] = await Promise.all([
+      ctx.db
+        .query("providers")
+        .withIndex("by_vendor", (q) => q.eq("vendorId", args.vendorId))
+        .collect(),
+      ctx.db
+        .query("agency_credential_documents")
+        .withIndex("by_vendor", (q) => q.eq("vendorId", args.vendorId))
+        .collect(),
+    ]);
+
+    const today = new Date().toISOString().split("T")[0];
+    const documentUrls = await Promise.all(
+      documents.map((d) => (d.storageId ? ctx.storage.getUrl(d.storageId) : null))
+    );
+
+    const roster = await Promise.all(
+      workers
+        .sort((a, b) => a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName))
+        .map(async (worker) => {
+          const [jobType, hospital, department] = await Promise.all([
+            ctx.db.get(worker.jobTypeId),
+            ctx.db.get(worker.hospitalId),
+            ctx.db.get(worker.departmentId),
+          ]);
+          return {
+            ...worker,
+            jobTypeCode: jobType?.code ?? "",
+            hospitalShortCode: hospital?.shortCode ?? "",
+            departmentName: department?.name ?? "",
+            effectiveRate: worker.contractRate ?? vendor.contractRate ?? null,
+            ineligibleReason: worker.isActive ? agencyIneligibility(worker, today) : "Inactive",
+            documents: documents
+              .map((d, i) => ({ ...d, url: documentUrls[i] }))
+              .filter((d) => d.providerId === worker._id)
+              .sort((a, b) => a.documentType.localeCompare(b.documentType)),
+          };
+        })
+    );
+
+    const [defaultHospital, defaultDepartment] = await Promise.all([
+      vendor.defaultHospitalId ? ctx.db.get(vendor.defaultHospitalId) : null,
+      vendor.defaultDepartmentId ? ctx.db.get(vendor.defaultDepartmentId) : null,
+    ]);
+
+    return {
+      vendor,
+      defaultHospitalName: defaultHospital?.name ?? null,
+      defaultDepartmentName: defaultDepartment?.name ?? null,
+      roster,
+      onboardingStatuses: ONBOARDING_STATUSES,
+      documentTypes: CREDENTIAL_DOCUMENT_TYPES,
+    };
+  },
+});
+
+/**
+ * Vendor utilisation over a date range: shifts worked, billable hours and
+ * cost at contract rates, and guaranteed shifts that went unused
+ */
+export const utilization = query({
+  args: {
+    healthSystemId: v.id("health_systems"),
+    startDate: v.string(),
+    endDate: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requireHealthSystemAccess(ctx, args.healthSystemId);
+    if (args.endDate < args.startDate) throw new Error("End date must be on or after start date");
+
+    const vendors = await ctx.db
+      .query("agency_vendors")
+      .withIndex("by_health_system", (q) => q.eq("healthSystemId", args.healthSystemId))
+      .collect();
+
+    const weeks = Math.ceil(getDateRange(args.startDate, args.endDate).length / 7);
+
+    const rows = await Promise.all(
+      vendors.map(async (vendor) => {
+        const workers = await ctx.db
+          .query("providers")
+          .withIndex("by_vendor", (q) => q.eq("vendorId", vendor._id))
+          .collect();
+
+        let shifts = 0;
+        let hours = 0;
+        let cost = 0;
+        let unpricedShifts = 0;
+        let guaranteeShortfall = 0;
+        let workersUsed = 0;
+        const scenarioIds = new Set<string>();
+
+        for (const worker of workers) {
+          const assignments = await ctx.db
+            .query("scenario_assignments")
+            .withIndex("by_provider", (q) => q.eq("providerId", worker._id))
+            .filter((q) => q.neq(q.field("status"), "Cancelled"))
+            .collect();
+
+          const rate = worker.contractRate ?? vendor.contractRate;
+          let workerShifts = 0;
+          for (const assignment of assignments) {
+            const position = await ctx.db.get(assignment.scenarioPositionId);
+            if (!position || position.date < args.startDate || position.date > args.endDate) continue;
+
+            const shiftHours = billableHours(position, vendor);
+            workerShifts++;
+            hours += shiftHours;
+            if (rate !== undefined) cost += shiftHours * rate;
+            else unpricedShifts++;
+            scenarioIds.add(assignment.scenarioId.toString());
+          }
+
+          shifts += workerShifts;
+          if (workerShifts > 0) workersUsed++;
+          // Guarantees apply to workers on contract, not those who left
+          if (vendor.minimumShiftsPerWeek && worker.isActive && worker.onboardingStatus === "cleared") {
+            guaranteeShortfall += Math.max(0, vendor.minimumShiftsPerWeek * weeks - workerShifts);
+          }
+        }
+
+        const activeWorkers = workers.filter((w) => w.isActive);
+        return {
+          vendorId: vendor._id,
+          vendorName: vendor.name,
+          isActive: vendor.isActive,
+          workerCount: activeWorkers.length,
+          clearedCount: activeWorkers.filter((w) => w.onboardingStatus === "cleared").length,
+          workersUsed,
+          shifts,
+          hours: Math.round(hours * 10) / 10,
+          cost: Math.round(cost * 100) / 100,
+          unpricedShifts,
+          scenarioCount: scenarioIds.size,
+          guaranteedShifts: (vendor.minimumShiftsPerWeek ?? 0) * weeks,
+          guaranteeShortfall,
+        };
+      })
+    );
+
+    rows.sort((a, b) => b.hours - a.hours || a.vendorName.localeCompare(b.vendorName));
+
+    return {
+      weeks,
+      rows,
+      totals: {
+        shifts: rows.reduce((sum, r) => sum + r.shifts, 0),
+        hours: Math.round(rows.reduce((sum, r) => sum + r.hours, 0) * 10) / 10,
+        cost: Math.round(rows.reduce((sum, r) => sum + r.cost, 0) * 100) / 100,
+        guaranteeShortfall: rows.reduce((sum, r) => sum + r.guaranteeShortfall, 0),
+      },
+    };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// VENDOR MUTATIONS
+// ═══════════════════════════════════════════════════════════════════
+
+export const create = mutation({
+  args: { healthSystemId: v.id("health_systems"), ...vendorFields },
+  handler: async (ctx, args) => {
+    const user = await requireHealthSystemAccess(ctx, args.healthSystemId);
+    const { healthSystemId, ...input } = args;
+    const fields = cleanVendorInput(input);
+
+    const now = Date.now();
+    const vendorId = await ctx.db.insert("agency_vendors", {
+      healthSystemId,
+      ...fields,
+      isActive: true,
+      createdBy: user._id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await auditLog(ctx, user, "CREATE", "AGENCY_VENDOR", vendorId, { name: fields.name });
+    return vendorId;
+  },
+});
+
+export const update = mutation({
+  args: { vendorId: v.id("agency_vendors"), ...vendorFields },
+  handler: async (ctx, args) => {
+    const vendor = await ctx.db.get(args.vendorId);
+    if (!vendor) throw new Error("Vendor not found");
+
+    const user = await requireHealthSystemAccess(ctx, vendor.healthSystemId);
+    const { vendorId, ...input } = args;
+    const fields = cleanVendorInput(input);
+
+    await ctx.db.patch(vendorId, { ...fields, updatedAt: Date.now() });
+
+    await auditLog(ctx, user, "UPDATE", "AGENCY_VENDOR", vendorId, {
+      before: {
+        contractRate: vendor.contractRate,
+        minimumShiftHours: vendor.minimumShiftHours,
+        minimumShiftsPerWeek: vendor.minimumShiftsPerWeek,
+        matchPriority: vendor.matchPriority,
+      },
+      after: {
+        contractRate: fields.contractRate,
+        minimumShiftHours: fields.minimumShiftHours,
+        minimumShiftsPerWeek: fields.minimumShiftsPerWeek,
+        matchPriority: fields.matchPriority,
+      },
+    });
+    return vendorId;
+  },
+});
+
+/**
+ * Deactivating a vendor deactivates its workers so they drop out of matching
+ */
+export const toggleActive = mutation({
+  args: { vendorId: v.id("agency_vendors") },
+  handler: async (ctx, args) => {
+    const vendor = await ctx.db.get(args.vendorId);
+    if (!vendor) throw new Error("Vendor not found");
+
+    const user = await requireHealthSystemAccess(ctx, vendor.healthSystemId);
+    const isActive = !vendor.isActive;
+    const now = Date.now();
+
+    await ctx.db.patch(args.vendorId, { isActive, updatedAt: now });
+
+    if (!isActive) {
+      const workers = await ctx.db
+        .query("providers")
+        .withIndex("by_vendor", (q) => q.eq("vendorId", args.vendorId))
+        .filter((q) => q.eq(q.field("isActive"), true))
+        .collect();
+      for (const worker of workers) {
+        await ctx.db.patch(worker._id, { isActive: false, updatedAt: now });
+      }
+    }
+
+    await auditLog(ctx, user, "UPDATE", "AGENCY_VENDOR", args.vendorId, { isActive });
+    return { isActive };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// WORKERS
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Move a worker through onboarding; offboarding also deactivates them
+ */
+export const setOnboardingStatus = mutation({
+  args: {
+    providerId: v.id("providers"),
+    onboardingStatus: v.string(),
+    contractRate: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const provider = await ctx.db.get(args.providerId);
+    if (!provider || !provider.vendorId) throw new Error("Agency worker not found");
+
+    const user = await requireHealthSystemAccess(ctx, provider.healthSystemId);
+
+    if (!(ONBOARDING_STATUSES as readonly string[]).includes(args.onboardingStatus)) {
+      throw new Error(`Unknown onboarding status "${args.onboardingStatus}"`);
+    }
+    if (args.contractRate !== undefined && args.contractRate < 0) {
+      throw new Error("Contract rate can't be negative");
+    }
+
+    await ctx.db.patch(args.providerId, {
+      onboardingStatus: args.onboardingStatus,
+      contractRate: args.contractRate,
+      isActive: args.onboardingStatus === "offboarded" ? false : provider.isActive,
+      updatedAt: Date.now(),
+    });
+
+    await auditLog(ctx, user, "UPDATE", "PROVIDER", args.providerId, {
+      before: { onboardingStatus: provider.onboardingStatus, contractRate: provider.contractRate },
+      after: { onboardingStatus: args.onboardingStatus, contractRate: args.contractRate },
+    });
+  },
+});
+
+/**
+ * Upsert a vendor's roster from CSV/Excel
+ * Email is the unique key, as in providers.bulkUpsertProviders. Workers
+ * without a home site/department are placed at the vendor's default.
+ * New workers start onboarding as "pending".
+ */
+export const importRoster = mutation({
+  args: {
+    vendorId: v.id("agency_vendors"),
+    rows: v.array(
+      v.object({
+        role: v.string(), // Job type code
+        lastName: v.string(),
+        firstName: v.string(),
+        email: v.string(),
+        cellPhone: v.optional(v.string()),
+        homeSite: v.optional(v.string()), // Hospital short code
+        homeDepartment: v.optional(v.string()),
+        contractRate: v.optional(v.number()),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const vendor = await ctx.db.get(args.vendorId);
+    if (!vendor) throw new Error("Vendor not found");
+
+    const user = await requireHealthSystemAccess(ctx, vendor.healthSystemId);
+
+    const jobTypes = await ctx.db
+      .query("job_types")
+      .withIndex("by_health_system", (q) => q.eq("healthSystemId", vendor.healthSystemId))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+    const jobTypeByCode = new Map(jobTypes.map((jt) => [jt.code.toUpperCase(), jt]));
+
+    const hospitals = await ctx.db
+      .query("hospitals")
+      .withIndex("by_health_system", (q) => q.eq("healthSystemId", vendor.healthSystemId))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+    const hospitalByCode = new Map(hospitals.map((h) => [h.shortCode.toUpperCase(), h]));
+
+    const defaultDepartment = vendor.defaultDepartmentId ? await ctx.db.get(vendor.defaultDepartmentId) : null;
+
+    const results = {
+      created: 0,
+      updated: 0,
+      errors: [] as string[],
+    };
+
+    for (let i = 0; i < args.rows.length; i++) {
+      const row = args.rows[i];
+      const rowNum = i + 2; // Account for header row in original file
+
+      try {
+        const jobType = jobTypeByCode.get(row.role.trim().toUpperCase());
+        if (!jobType) {
+          results.errors.push(`Row ${rowNum}: Unknown role "${row.role}"`);
+          continue;
+        }
+
+        // Placement: the row's site/department, else the vendor default
+        let department: Doc<"departments"> | null = null;
+        if (row.homeSite?.trim()) {
+          const hospital = hospitalByCode.get(row.homeSite.trim().toUpperCase());
+          if (!hospital) {
+            results.errors.push(`Row ${rowNum}: Unknown home site "${row.homeSite}"`);
+            continue;
+          }
+          const hospitalDepartments = await ctx.db
+            .query("departments")
+            .withIndex("by_hospital", (q) => q.eq("hospitalId", hospital._id))
+            .filter((q) => q.eq(q.field("isActive"), true))
+            .collect();
+          department =
+            hospitalDepartments.find((d) => d.name.toLowerCase() === row.homeDepartment?.trim().toLowerCase()) ??
+            (defaultDepartment?.hospitalId === hospital._id ? defaultDepartment : null);
+          if (!department) {
+            results.errors.push(
+              `Row ${rowNum}: Unknown department "${row.homeDepartment ?? ""}" in ${row.homeSite}`
+            );
+            continue;
+          }
+        } else {
+          department = defaultDepartment;
+          if (!department) {
+            results.errors.push(`Row ${rowNum}: No home site and the vendor has no default placement`);
+            continue;
+          }
+        }
+
+        const firstName = validateField(safeTextSchema, row.firstName, "firstName");
+        const lastName = validateField(safeTextSchema, row.lastName, "lastName");
+        const email = validateField(optionalEmailSchema, row.email.toLowerCase().trim(), "email");
+        if (!email) {
+          results.errors.push(`Row ${rowNum}: Email is required`);
+          continue;
+        }
+        const cellPhone = row.cellPhone ? validateField(optionalPhoneSchema, row.cellPhone, "cellPhone") : undefined;
+
+        const existing = await ctx.db
+          .query("providers")
+          .withIndex("by_email", (q) => q.eq("email", email))
+          .filter((q) => q.eq(q.field("healthSystemId"), vendor.healthSystemId))
+          .first();
+
+        if (existing && existing.vendorId !== args.vendorId) {
+          results.errors.push(
+            `Row ${rowNum}: ${email} is already ${existing.vendorId ? "with another vendor" : "internal staff"}`
+          );
+          continue;
+        }
+
+        let providerId: Id<"providers">;
+        if (existing) {
+          providerId = existing._id;
+          await ctx.db.patch(providerId, {
+            jobTypeId: jobType._id,
+            firstName,
+            lastName,
+            cellPhone,
+            hospitalId: department.hospitalId,
+            departmentId: department._id,
+            contractRate: row.contractRate ?? existing.contractRate,
+            updatedAt: Date.now(),
+          });
+          results.updated++;
+        } else {
+          providerId = await ctx.db.insert("providers", {
+            healthSystemId: vendor.healthSystemId,
+            hospitalId: department.hospitalId,
+            departmentId: department._id,
+            jobTypeId: jobType._id,
+            firstName,
+            lastName,
+            email,
+            cellPhone,
+            vendorId: args.vendorId,
+            onboardingStatus: "pending",
+            contractRate: row.contractRate,
+            createdBy: user._id,
+            isActive: true,
+            createdAt: Date.now(),
+          });
+          results.created++;
+        }
+
+        // Ensure the placement hospital is in the access list
+        const access = await ctx.db
+          .query("provider_hospital_access")
+          .withIndex("by_provider", (q) => q.eq("providerId", providerId))
+          .filter((q) => q.eq(q.field("hospitalId"), department!.hospitalId))
+          .first();
+        if (!access) {
+          await ctx.db.insert("provider_hospital_access", {
+            providerId,
+            hospitalId: department.hospitalId,
+          });
+        }
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        results.errors.push(`Row ${rowNum}: ${message}`);
+      }
+    }
+
+    await auditLog(ctx, user, "BULK_IMPORT", "AGENCY_VENDOR", args.vendorId, {
+      created: results.created,
+      updated: results.updated,
+      errors: results.errors.length,
+    });
+
+    return results;
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// CREDENTIAL DOCUMENTS
+// Workers' credentialsValidUntil is recomputed from verified documents
+// whenever one changes
+// ═══════════════════════════════════════════════════════════════════
+
+export const generateUploadUrl = mutation({
+  args: { vendorId: v.id("agency_vendors") },
+  handler: async (ctx, args) => {
+    const vendor = await ctx.db.get(args.vendorId);
+    if (!vendor) throw new Error("Vendor not found");
+
+    await requireHealthSystemAccess(ctx, vendor.healthSystemId);
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+export const addDocument = mutation({
+  args: {
+    providerId: v.id("providers"),
+    documentType: v.string(),
+    documentNumber: v.optional(v.string()),
+    issuingState: v.optional(v.string()),
+    issuedDate: v.optional(v.string()),
+    expiresDate: v.optional(v.string()),
+    storageId: v.optional(v.id("_storage")),
+    fileName: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const provider = await ctx.db.get(args.providerId);
+    if (!provider || !provider.vendorId) throw new Error("Agency worker not found");
+
+    const user = await requireHealthSystemAccess(ctx, provider.healthSystemId);
+
+    if (!(CREDENTIAL_DOCUMENT_TYPES as readonly string[]).includes(args.documentType)) {
+      throw new Error(`Unknown document type "${args.documentType}"`);
+    }
+    if (args.issuedDate && args.expiresDate && args.expiresDate < args.issuedDate) {
+      throw new Error("Expiry date must be after the issue date");
+    }
+
+    const documentId = await ctx.db.insert("agency_credential_documents", {
+      providerId: args.providerId,
+      vendorId: provider.vendorId,
+      documentType: args.documentType,
+      documentNumber: args.documentNumber
+        ? validateField(optionalSafeTextSchema, args.documentNumber, "documentNumber")
+        : undefined,
+      issuingState: args.issuingState
+        ? validateField(optionalSafeTextSchema, args.issuingState.toUpperCase(), "issuingState")
+        : undefined,
+      issuedDate: args.issuedDate || undefined,
+      expiresDate: args.expiresDate || undefined,
+      storageId: args.storageId,
+      fileName: args.fileName ? validateField(optionalSafeTextSchema, args.fileName, "fileName") : undefined,
+      verificationStatus: "pending",
+      uploadedBy: user._id,
+      createdAt: Date.now(),
+    });
+
+    await auditLog(ctx, user, "CREATE", "AGENCY_DOCUMENT", documentId, {
+      providerId: args.providerId,
+      documentType: args.documentType,
+      expiresDate: args.expiresDate,
+    });
+    return documentId;
+  },
+});
+
+export const verifyDocument = mutation({
+  args: {
+    documentId: v.id("agency_credential_documents"),
+    verificationStatus: v.union(v.literal("verified"), v.literal("rejected")),
+  },
+  handler: async (ctx, args) => {
+    const document = await ctx.db.get(args.documentId);
+    if (!document) throw new Error("Document not found");
+
+    const vendor = await ctx.db.get(document.vendorId);
+    if (!vendor) throw new Error("Vendor not found");
+
+    const user = await requireHealthSystemAccess(ctx, vendor.healthSystemId);
+
+    await ctx.db.patch(args.documentId, {
+      verificationStatus: args.verificationStatus,
+      verifiedBy: user._id,
+      verifiedAt: Date.now(),
+    });
+    const credentialsValidUntil = await refreshCredentialsValidUntil(ctx, document.providerId);
+
+    await auditLog(ctx, user, "UPDATE", "AGENCY_DOCUMENT", args.documentId, {
+      before: { verificationStatus: document.verificationStatus },
+      after: { verificationStatus: args.verificationStatus },
+    });
+    return { credentialsValidUntil };
+  },
+});
+
+export const removeDocument = mutation({
+  args: { documentId: v.id("agency_credential_documents") },
+  handler: async (ctx, args) => {
+    const document = await ctx.db.get(args.documentId);
+    if (!document) throw new Error("Document not found");
+
+    const vendor = await ctx.db.get(document.vendorId);
+    if (!vendor) throw new Error("Vendor not found");
+
+    const user = await requireHealthSystemAccess(ctx, vendor.healthSystemId);
+
+    if (document.storageId) await ctx.storage.delete(document.storageId);
+    await ctx.db.delete(args.documentId);
+    await refreshCredentialsValidUntil(ctx, document.providerId);
+
+    await auditLog(ctx, user, "DELETE", "AGENCY_DOCUMENT", args.documentId, {
+      providerId: document.providerId,
+      documentType: document.documentType,
+    });
+  },
+});
@@ -3,6 +3,11 @@ import { v } from "convex/values";
 import { requireAuth, requireHospitalAccess, auditLog } from "./lib/auth";
 import { Id } from "./_generated/dataModel";
 import { internal } from "./_generated/api";
+import { loadRatioResolver, rnNeeded } from "./lib/staffingRatios";
+import { buildCombinedForecast, projectUnitCensus } from "./lib/censusForecast";
+import { archiveImport } from "./lib/censusArchive";
+import { loadUnitResolver, recordUnitNames } from "./lib/unitMapping";
+import { applyPatientPredictions, patientPredictionsValidator } from "./lib/censusPredictions";
 
 // ═══════════════════════════════════════════════════════════════════
 // CONSTANTS
@@ -11,21 +16,6 @@ import { internal } from "./_generated/api";
 // 3 days in milliseconds
 const THREE_DAYS_MS = 3 * 24 * 60 * 60 * 1000;
 
-// Unit type detection patterns
-const ICU_PATTERNS = ["CCU", "CSIU", "CVU", "ICU", "CICU", "MSM"];
-
-/**
- * Detect if a unit name is ICU or floor based on patterns
- */
-function detectUnitType(unitName: string): { unitType: "icu" | "floor"; isICU: boolean } {
-  const upperName = unitName.toUpperCase();
-  const isICU = ICU_PATTERNS.some((pattern) => upperName.includes(pattern));
-  return {
-    unitType: isICU ? "icu" : "floor",
-    isICU,
-  };
-}
-
 /**
  * Convert full name to initials
  * "Johnson, Bob" -> "JB"
@@ -244,26 +234,6 @@ export const getPatientHistory = query({
   },
 });
 
-/**
- * Get unit mappings for a hospital
- */
-export const getUnitMappings = query({
-  args: {
-    hospitalId: v.id("hospitals"),
-  },
-  handler: async (ctx, args) => {
-    await requireAuth(ctx);
-    await requireHospitalAccess(ctx, args.hospitalId);
-
-    const mappings = await ctx.db
-      .query("census_unit_mappings")
-      .withIndex("by_hospital", (q) => q.eq("hospitalId", args.hospitalId))
-      .collect();
-
-    return mappings;
-  },
-});
-
 // ═══════════════════════════════════════════════════════════════════
 // MUTATIONS
 // ═══════════════════════════════════════════════════════════════════
@@ -285,6 +255,16 @@ export const createImport = mutation({
     const hospital = await ctx.db.get(args.hospitalId);
     if (!hospital) throw new Error("Hospital not found");
 
+    // Snapshot the previous census before this import's patients replace it
+    const previousImport = await ctx.db
+      .query("census_imports")
+      .withIndex("by_hospital", (q) => q.eq("hospitalId", args.hospitalId))
+      .order("desc")
+      .first();
+    if (previousImport) {
+      await archiveImport(ctx, previousImport);
+    }
+
     const importId = await ctx.db.insert("census_imports", {
       hospitalId: args.hospitalId,
       healthSystemId: hospital.healthSystemId,
@@ -388,13 +368,17 @@ export const upsertPatients = mutation({
     let updated = 0;
     const errors: string[] = [];
 
+    // Unit type comes from the hospital's unit mappings
+    const resolveUnit = await loadUnitResolver(ctx, hospitalId);
+    const unitNames = new Map<string, "icu" | "floor">();
+
     for (const patient of args.patients) {
       try {
         // Convert name to initials
         const initials = nameToInitials(patient.patientName);
 
-        // Detect unit type
-        const { unitType, isICU } = detectUnitType(patient.unitName);
+        const { unitType } = resolveUnit(patient.unitName);
+        unitNames.set(patient.unitName, unitType);
 
         // Check if patient already exists (by MRN)
         const existingPatient = await ctx.db
@@ -432,6 +416,13 @@ export const upsertPatients = mutation({
             });
           }
 
+          // Unchanged comments keep the previous predictions, so AI jobs can
+          // re-run only the patients whose comments changed
+          const keepPredictions =
+            existingPatient.predictionInputHash !== undefined &&
+            existingPatient.rawGeneralComments === patient.rawGeneralComments;
+          const previous = <T>(value: T) => (keepPredictions ? value : undefined);
+
           // Update existing patient
           await ctx.db.patch(existingPatient._id, {
             importId: args.importId,
@@ -460,11 +451,12 @@ export const upsertPatients = mutation({
             dischargeToday: patient.dischargeToday,
             rawGeneralComments: patient.rawGeneralComments,
             // AI-generated fields
-            primaryDiagnosis: patient.primaryDiagnosis,
-            clinicalStatus: patient.clinicalStatus,
-            dispositionConsiderations: patient.dispositionConsiderations,
-            pendingProcedures: patient.pendingProcedures,
-            projectedDischargeDays: patient.projectedDischargeDays,
+            primaryDiagnosis: patient.primaryDiagnosis ?? previous(existingPatient.primaryDiagnosis),
+            clinicalStatus: patient.clinicalStatus ?? previous(existingPatient.clinicalStatus),
+            dispositionConsiderations:
+              patient.dispositionConsiderations ?? previous(existingPatient.dispositionConsiderations),
+            pendingProcedures: patient.pendingProcedures ?? previous(existingPatient.pendingProcedures),
+            projectedDischargeDays: patient.projectedDischargeDays ?? previous(existingPatient.projectedDischargeDays),
             // Status
             patientStatus: "active",
             isActive: true, // Ensure patient is marked active (may have been discharged previously)
@@ -533,30 +525,14 @@ export const upsertPatients = mutation({
 
           created++;
         }
-
-        // Ensure unit mapping exists
-        const existingMapping = await ctx.db
-          .query("census_unit_mappings")
-          .withIndex("by_raw_name", (q) =>
-            q.eq("hospitalId", hospitalId).eq("rawUnitName", patient.unitName)
-          )
-          .first();
-
-        if (!existingMapping) {
-          await ctx.db.insert("census_unit_mappings", {
-            hospitalId,
-            rawUnitName: patient.unitName,
-            unitType,
-            isICU,
-            createdBy: user._id,
-            createdAt: now,
-          });
-        }
       } catch (error) {
         errors.push(`MRN ${patient.mrn}: ${error instanceof Error ? error.message : "Unknown error"}`);
       }
     }
 
+    // Sheet names without a mapping rule are queued for review
+    const unmappedUnits = await recordUnitNames(ctx, hospitalId, user._id, unitNames);
+
     // Update import statistics
     await ctx.db.patch(args.importId, {
       patientsProcessed: created + updated,
@@ -564,7 +540,7 @@ export const upsertPatients = mutation({
       errors: errors.length > 0 ? errors : undefined,
     });
 
-    return { created, updated, errors };
+    return { created, updated, errors, unmappedUnits };
   },
 });
 
@@ -574,43 +550,10 @@ export const upsertPatients = mutation({
 export const updatePatientPredictions = internalMutation({
   args: {
     patientId: v.id("census_patients"),
-    predictions: v.object({
-      primaryDiagnosis: v.optional(v.string()),
-      clinicalStatus: v.optional(v.string()),
-      dispositionConsiderations: v.optional(v.string()),
-      pendingProcedures: v.optional(v.string()),
-      projectedDischargeDays: v.optional(v.number()),
-      losReasoning: v.optional(v.string()), // AI explanation of LOS prediction
-      // Clinical signal extraction results
-      trajectory: v.optional(v.string()), // "Improving", "Stable", "Critical", etc.
-      projectedDowngradeDays: v.optional(v.number()), // Days until ICU downgrade
-      trend: v.optional(v.string()), // "Progressing", "No Change", "Regressed", "New"
-      // 1:1 Nursing detection
-      requiresOneToOne: v.optional(v.boolean()),
-      oneToOneDevices: v.optional(v.array(v.string())),
-      oneToOneSource: v.optional(v.string()),
-      // Downgrade prediction (ICU only)
-      predictedDowngradeDate: v.optional(v.string()),
-      predictedDowngradeUnit: v.optional(v.string()),
-    }),
+    predictions: patientPredictionsValidator,
   },
   handler: async (ctx, args) => {
-    const patient = await ctx.db.get(args.patientId);
-    if (!patient) return;
-
-    // Determine 1:1 source - if AI found it and keyword already found it, mark as "both"
-    let oneToOneSource = args.predictions.oneToOneSource;
-    if (args.predictions.requiresOneToOne && patient.oneToOneSource === "keyword") {
-      oneToOneSource = "both";
-    } else if (args.predictions.requiresOneToOne) {
-      oneToOneSource = oneToOneSource || "ai";
-    }
-
-    await ctx.db.patch(args.patientId, {
-      ...args.predictions,
-      oneToOneSource,
-      updatedAt: Date.now(),
-    });
+    await applyPatientPredictions(ctx, args.patientId, args.predictions);
   },
 });
 
@@ -629,48 +572,6 @@ export const updateImportPredictions = internalMutation({
   },
 });
 
-/**
- * Update unit mapping
- */
-export const updateUnitMapping = mutation({
-  args: {
-    hospitalId: v.id("hospitals"),
-    rawUnitName: v.string(),
-    unitId: v.optional(v.id("units")),
-    unitType: v.string(),
-    isICU: v.boolean(),
-  },
-  handler: async (ctx, args) => {
-    const user = await requireAuth(ctx);
-    await requireHospitalAccess(ctx, args.hospitalId);
-
-    const existing = await ctx.db
-      .query("census_unit_mappings")
-      .withIndex("by_raw_name", (q) =>
-        q.eq("hospitalId", args.hospitalId).eq("rawUnitName", args.rawUnitName)
-      )
-      .first();
-
-    if (existing) {
-      await ctx.db.patch(existing._id, {
-        unitId: args.unitId,
-        unitType: args.unitType,
-        isICU: args.isICU,
-      });
-    } else {
-      await ctx.db.insert("census_unit_mappings", {
-        hospitalId: args.hospitalId,
-        rawUnitName: args.rawUnitName,
-        unitId: args.unitId,
-        unitType: args.unitType,
-        isICU: args.isICU,
-        createdBy: user._id,
-        createdAt: Date.now(),
-      });
-    }
-  },
-});
-
 /**
  * Deactivate a patient (soft delete)
  */
@@ -911,19 +812,13 @@ export const logCensusClearAction = internalMutation({
 // STAFFING PREDICTIONS
 // ═══════════════════════════════════════════════════════════════════
 
-// Staffing ratio constants
-const STAFFING_RATIOS = {
-  oneToOne: 1, // 1:1 for ECMO/CVVH/Impella/IABP
-  icu: 2, // 1:2 for ICU
-  floor: 5, // 1:5 for floor
-};
-
 /**
  * Calculate staffing predictions by unit
- * Returns AM/PM shift predictions with RN needs based on:
- * - Floor: 1:5 ratio
- * - ICU: 1:2 ratio
- * - 1:1 devices (ECMO, CVVH, Impella, IABP): dedicated 1:1 RN
+ * Returns AM/PM shift predictions with RN needs based on each unit's
+ * ratio table in effect on the census date (lib/staffingRatios.ts):
+ * - Regular patients at the unit's base acuity tier ratio
+ * - 1:1 devices (ECMO, CVVH, Impella, IABP) at the one_to_one ratio
+ * Units without a ratio table use Floor 1:5, ICU 1:2, 1:1 devices 1:1
  */
 export const getStaffingPredictions = query({
   args: {
@@ -977,10 +872,12 @@ export const getStaffingPredictions = query({
       }
     }
 
+    const resolveRatios = await loadRatioResolver(ctx, args.hospitalId);
+
     // Calculate predictions for each unit
     const predictions = Array.from(unitMap.values()).map((unit) => {
       const isICU = unit.unitType === "icu";
-      const baseRatio = isICU ? STAFFING_RATIOS.icu : STAFFING_RATIOS.floor;
+      const ratios = resolveRatios(unit.unitName, unit.unitType, latestImport.uploadDate);
 
       // Count predicted discharges based on projectedDischargeDays
       // AM discharges: patients leaving today (projectedDischargeDays = 0 or 1)
@@ -1009,13 +906,10 @@ export const getStaffingPredictions = query({
       const pmEndCensus = Math.max(0, currentCount - amDischarges - pmDischarges - amDowngrades);
 
       // Calculate RN needs
-      // Regular patients: divide by ratio
-      // 1:1 patients: each needs dedicated RN
-      const regularAMPatients = Math.max(0, amEndCensus - oneToOneCount);
-      const regularPMPatients = Math.max(0, pmEndCensus - oneToOneCount);
-
-      const amRnNeeded = Math.ceil(regularAMPatients / baseRatio);
-      const pmRnNeeded = Math.ceil(regularPMPatients / baseRatio);
+      // Regular patients: divide by the base tier ratio
+      // 1:1 patients: divide by the one_to_one ratio
+      const amRn = rnNeeded(ratios, "AM", amEndCensus - oneToOneCount, oneToOneCount);
+      const pmRn = rnNeeded(ratios, "PM", pmEndCensus - oneToOneCount, oneToOneCount);
 
       return {
         unitName: unit.unitName,
@@ -1023,21 +917,29 @@ export const getStaffingPredictions = query({
         currentPatients: currentCount,
         oneToOnePatients: oneToOneCount,
         oneToOneDevices: unit.oneToOnePatients.flatMap((p) => p.oneToOneDevices || []),
+        ratios: {
+          unitId: ratios.unitId,
+          effectiveDate: ratios.effectiveDate,
+          baseTier: ratios.baseTier,
+          am: ratios.ratioFor("AM", ratios.baseTier),
+          pm: ratios.ratioFor("PM", ratios.baseTier),
+          oneToOne: ratios.ratioFor("AM", "one_to_one"),
+        },
         amShift: {
           predictedDischarges: amDischarges,
           predictedDowngrades: amDowngrades,
           endOfShiftCensus: amEndCensus,
-          rnNeeded: amRnNeeded,
-          oneToOneRnNeeded: oneToOneCount,
-          totalRnNeeded: amRnNeeded + oneToOneCount,
+          rnNeeded: amRn.regularRn,
+          oneToOneRnNeeded: amRn.oneToOneRn,
+          totalRnNeeded: amRn.totalRn,
         },
         pmShift: {
           predictedDischarges: pmDischarges,
           predictedDowngrades: 0, // Usually no downgrades on PM shift
           endOfShiftCensus: pmEndCensus,
-          rnNeeded: pmRnNeeded,
-          oneToOneRnNeeded: oneToOneCount,
-          totalRnNeeded: pmRnNeeded + oneToOneCount,
+          rnNeeded: pmRn.regularRn,
+          oneToOneRnNeeded: pmRn.oneToOneRn,
+          totalRnNeeded: pmRn.totalRn,
         },
       };
     });
@@ -1126,47 +1028,11 @@ export const getCensusForecast = query({
     }
 
     // Calculate 5-day forecast for each unit
+    const dates = Array.from({ length: 6 }, (_, day) =>
+      new Date(Date.now() + day * 24 * 60 * 60 * 1000).toISOString().split("T")[0]
+    );
     const forecast = Array.from(unitMap.values()).map((unit) => {
-      const days = [];
-      let runningCensus = unit.patients.length;
-
-      for (let day = 0; day <= 5; day++) {
-        // Count discharges on this day (patients with projectedDischargeDays == day)
-        const dischargesOnDay = unit.patients.filter(
-          (p) => p.projectedDischargeDays === day
-        ).length;
-
-        // Count ICU downgrades (step-downs to floor) - only for ICU units
-        let downgradesOnDay = 0;
-        if (unit.unitType === "icu") {
-          const targetDate = new Date();
-          targetDate.setDate(targetDate.getDate() + day);
-          const targetDateStr = targetDate.toISOString().split("T")[0];
-
-          downgradesOnDay = unit.patients.filter(
-            (p) => p.predictedDowngradeDate === targetDateStr
-          ).length;
-        }
-
-        // Stub for future: predicted admits from scheduled procedures
-        const predictedAdmits = 0;
-
-        // Calculate net change and running census
-        if (day > 0) {
-          const netChange = predictedAdmits - dischargesOnDay - downgradesOnDay;
-          runningCensus = Math.max(0, runningCensus + netChange);
-        }
-
-        days.push({
-          day,
-          date: new Date(Date.now() + day * 24 * 60 * 60 * 1000).toISOString().split("T")[0],
-          projectedCensus: day === 0 ? unit.patients.length : runningCensus,
-          predictedDischarges: dischargesOnDay,
-          predictedDowngrades: downgradesOnDay,
-          predictedAdmits,
-          netChange: day === 0 ? 0 : predictedAdmits - dischargesOnDay - downgradesOnDay,
-        });
-      }
+      const days = projectUnitCensus(unit.patients, unit.unitType, dates);
 
       return {
         unitName: unit.unitName,
@@ -1194,30 +1060,6 @@ export const getCensusForecast = query({
 // COMBINED CENSUS + PROCEDURE FORECAST
 // ═══════════════════════════════════════════════════════════════════
 
-import { normalizeUnitName, getUnitType } from "./lib/unitMapping";
-
-/**
- * Parse a date string in various formats and return ISO format (YYYY-MM-DD)
- * Handles: "1/13/2026", "01/13/2026", "2026-01-13"
- */
-function parseToISODate(dateStr: string): string {
-  if (!dateStr) return "";
-
-  // Already ISO format
-  if (/^\d{4}-\d{2}-\d{2}/.test(dateStr)) {
-    return dateStr.split("T")[0];
-  }
-
-  // M/D/YYYY or MM/DD/YYYY format
-  const parts = dateStr.split("/");
-  if (parts.length === 3) {
-    const [month, day, year] = parts;
-    return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
-  }
-
-  return dateStr;
-}
-
 /**
  * Get combined 7-day census forecast including procedure admissions.
  * Merges current census patients with scheduled procedure admissions.
@@ -1231,224 +1073,6 @@ export const getCombinedForecast = query({
     await requireAuth(ctx);
     await requireHospitalAccess(ctx, args.hospitalId);
 
-    const numDays = args.forecastDays ?? 7;
-
-    // Get the latest census import
-    const latestImport = await ctx.db
-      .query("census_imports")
-      .withIndex("by_hospital", (q) => q.eq("hospitalId", args.hospitalId))
-      .order("desc")
-      .first();
-
-    // Generate date range for forecast
-    const today = new Date();
-    const dates: string[] = [];
-    for (let i = 0; i < numDays; i++) {
-      const d = new Date(today);
-      d.setDate(d.getDate() + i);
-      dates.push(d.toISOString().split("T")[0]);
-    }
-
-    // Get census patients from latest import
-    const censusPatients = latestImport
-      ? await ctx.db
-          .query("census_patients")
-          .withIndex("by_import", (q) => q.eq("importId", latestImport._id))
-          .filter((q) => q.eq(q.field("isActive"), true))
-          .collect()
-      : [];
-
-    // Get procedure patients for date range
-    const procedurePatients = await ctx.db
-      .query("procedure_patients")
-      .withIndex("by_hospital", (q) => q.eq("hospitalId", args.hospitalId))
-      .filter((q) => q.eq(q.field("isActive"), true))
-      .collect();
-
-    // Filter procedures to date range and those who will admit
-    // Note: visitDate in CSV can be "1/13/2026" format, convert to ISO
-    const relevantProcedures = procedurePatients.filter(
-      (p) => p.willAdmit && dates.includes(parseToISODate(p.visitDate))
-    );
-
-    // Build unit map from census patients
-    const unitMap = new Map<
-      string,
-      {
-        unitName: string;
-        unitType: "icu" | "floor";
-        censusPatients: typeof censusPatients;
-        days: Array<{
-          projectedCensus: number;
-          discharges: number;
-          downgrades: number;
-          procedureAdmits: number;
-        }>;
-      }
-    >();
-
-    // Initialize units from census patients
-    for (const patient of censusPatients) {
-      const normalized = normalizeUnitName(patient.currentUnitName);
-      if (!unitMap.has(normalized)) {
-        unitMap.set(normalized, {
-          unitName: normalized,
-          unitType: getUnitType(patient.currentUnitName),
-          censusPatients: [],
-          days: Array.from({ length: numDays }, () => ({
-            projectedCensus: 0,
-            discharges: 0,
-            downgrades: 0,
-            procedureAdmits: 0,
-          })),
-        });
-      }
-      unitMap.get(normalized)!.censusPatients.push(patient);
-    }
-
-    // Ensure CCU and N07E exist even if no census patients
-    if (!unitMap.has("CCU")) {
-      unitMap.set("CCU", {
-        unitName: "CCU",
-        unitType: "icu",
-        censusPatients: [],
-        days: Array.from({ length: numDays }, () => ({
-          projectedCensus: 0,
-          discharges: 0,
-          downgrades: 0,
-          procedureAdmits: 0,
-        })),
-      });
-    }
-    if (!unitMap.has("N07E")) {
-      unitMap.set("N07E", {
-        unitName: "N07E",
-        unitType: "floor",
-        censusPatients: [],
-        days: Array.from({ length: numDays }, () => ({
-          projectedCensus: 0,
-          discharges: 0,
-          downgrades: 0,
-          procedureAdmits: 0,
-        })),
-      });
-    }
-
-    // Calculate census discharges and downgrades by day
-    for (const [unitName, unit] of unitMap) {
-      for (let day = 0; day < numDays; day++) {
-        // Count discharges on this day
-        unit.days[day].discharges = unit.censusPatients.filter(
-          (p) => p.projectedDischargeDays === day
-        ).length;
-
-        // Count ICU downgrades (only for ICU units)
-        if (unit.unitType === "icu") {
-          unit.days[day].downgrades = unit.censusPatients.filter((p) => {
-            if (!p.predictedDowngradeDate) return false;
-            return p.predictedDowngradeDate === dates[day];
-          }).length;
-        }
-      }
-    }
-
-    // Add procedure admissions by day and unit
-    for (const proc of relevantProcedures) {
-      const procDateISO = parseToISODate(proc.visitDate);
-      const admitDayIndex = dates.indexOf(procDateISO);
-      if (admitDayIndex === -1) continue;
-
-      // ICU stay (if any)
-      if (proc.icuDays > 0) {
-        const icuUnit = normalizeUnitName(proc.icuUnit || "CCU");
-        const unit = unitMap.get(icuUnit);
-        if (unit) {
-          // Patient is in ICU from admit day for icuDays
-          for (let d = admitDayIndex; d < Math.min(admitDayIndex + proc.icuDays, numDays); d++) {
-            unit.days[d].procedureAdmits++;
-          }
-        }
-      }
-
-      // Floor stay (after ICU or direct)
-      if (proc.floorDays > 0) {
-        const floorUnit = normalizeUnitName(proc.floorUnit || "N07E");
-        const unit = unitMap.get(floorUnit);
-        if (unit) {
-          const floorStartDay = admitDayIndex + (proc.icuDays || 0);
-          for (let d = floorStartDay; d < Math.min(floorStartDay + proc.floorDays, numDays); d++) {
-            if (d >= 0 && d < numDays) {
-              unit.days[d].procedureAdmits++;
-            }
-          }
-        }
-      }
-    }
-
-    // Calculate projected census for each unit/day
-    const forecast = Array.from(unitMap.values()).map((unit) => {
-      let runningCensus = unit.censusPatients.length;
-
-      const days = unit.days.map((dayData, dayIndex) => {
-        if (dayIndex === 0) {
-          // Day 0: current census + procedure admits
-          return {
-            day: dayIndex,
-            date: dates[dayIndex],
-            projectedCensus: runningCensus + dayData.procedureAdmits,
-            predictedDischarges: dayData.discharges,
-            predictedDowngrades: dayData.downgrades,
-            procedureAdmits: dayData.procedureAdmits,
-            netChange: 0,
-          };
-        }
-
-        // Subsequent days: previous - discharges - downgrades + procedure admits
-        const prevDay = unit.days[dayIndex - 1];
-        runningCensus = Math.max(
-          0,
-          runningCensus - dayData.discharges - dayData.downgrades
-        );
-
-        const projectedCensus = runningCensus + dayData.procedureAdmits;
-        const netChange =
-          dayData.procedureAdmits - dayData.discharges - dayData.downgrades;
-
-        return {
-          day: dayIndex,
-          date: dates[dayIndex],
-          projectedCensus,
-          predictedDischarges: dayData.discharges,
-          predictedDowngrades: dayData.downgrades,
-          procedureAdmits: dayData.procedureAdmits,
-          netChange,
-        };
-      });
-
-      return {
-        unitName: unit.unitName,
-        unitType: unit.unitType,
-        currentCensus: unit.censusPatients.length,
-        procedureAdmitsTotal: relevantProcedures.filter((p) => {
-          const icuUnit = normalizeUnitName(p.icuUnit || "CCU");
-          const floorUnit = normalizeUnitName(p.floorUnit || "N07E");
-          return unit.unitName === icuUnit || unit.unitName === floorUnit;
-        }).length,
-        days,
-      };
-    });
-
-    // Sort: ICUs first, then by current census
-    forecast.sort((a, b) => {
-      if (a.unitType !== b.unitType) return a.unitType === "icu" ? -1 : 1;
-      return b.currentCensus - a.currentCensus;
-    });
-
-    return {
-      forecast,
-      censusDate: latestImport?.uploadDate || null,
-      importedAt: latestImport?.importedAt || null,
-      procedurePatientsTotal: relevantProcedures.length,
-    };
+    return await buildCombinedForecast(ctx, args.hospitalId, args.forecastDays ?? 7);
   },
 });
@@ -1,5 +1,5 @@
 import { v } from "convex/values";
-import { action, internalQuery } from "./_generated/server";
+import { action, internalAction, internalQuery } from "./_generated/server";
 import { internal } from "./_generated/api";
 import { Id } from "./_generated/dataModel";
 import {
@@ -12,6 +12,8 @@ import {
   formatSignalsForPrompt,
   ClinicalSignals,
 } from "./lib/clinicalSignals";
+import { LlmProvider, LlmRateLimitError, RULES_ENGINE, resolveLlmProvider } from "./lib/llmProvider";
+import { commentsHash, PatientPredictionFields } from "./lib/censusPredictions";
 
 // ═══════════════════════════════════════════════════════════════════
 // AI PROMPTS
@@ -156,7 +158,9 @@ interface PatientPrediction {
 
 /**
  * Generate AI predictions for census patients
- * Uses Anthropic Claude to analyze clinical data and predict discharge timelines
+ * Uses the configured LLM provider (lib/llmProvider.ts) to analyze clinical
+ * data, or the deterministic rules engine when no model is configured or a
+ * model call fails. Each patient records the engine that produced it.
  */
 export const generatePredictions = action({
   args: {
@@ -164,8 +168,9 @@ export const generatePredictions = action({
     unitType: v.optional(v.string()), // "icu" | "floor" | undefined (all)
     rawClinicalNotes: v.optional(v.string()), // Optional raw notes to analyze
   },
-  handler: async (ctx, args): Promise<{ processed: number; errors: string[] }> => {
+  handler: async (ctx, args): Promise<{ processed: number; errors: string[]; engines: string[] }> => {
     const errors: string[] = [];
+    const engines = new Set<string>();
     let processed = 0;
 
     try {
@@ -173,7 +178,7 @@ export const generatePredictions = action({
       console.log("Checking user authentication...");
       const user = await ctx.runQuery(internal.censusAI.getUserForAI, {});
       if (!user) {
-        return { processed: 0, errors: ["User not authenticated"] };
+        return { processed: 0, errors: ["User not authenticated"], engines: [] };
       }
       console.log("User authenticated:", user._id);
 
@@ -183,7 +188,7 @@ export const generatePredictions = action({
         importId: args.importId,
       });
       if (!importRecord) {
-        return { processed: 0, errors: ["Import not found"] };
+        return { processed: 0, errors: ["Import not found"], engines: [] };
       }
       console.log("Import found:", importRecord._id);
 
@@ -196,15 +201,10 @@ export const generatePredictions = action({
       console.log("Found patients:", patients.length);
 
       if (patients.length === 0) {
-        return { processed: 0, errors: ["No patients to process"] };
+        return { processed: 0, errors: ["No patients to process"], engines: [] };
       }
 
-      // Get Anthropic API key from environment
-      const apiKey = process.env.ANTHROPIC_API_KEY;
-      if (!apiKey) {
-        return { processed: 0, errors: ["ANTHROPIC_API_KEY not configured. Please set it in Convex environment variables."] };
-      }
-      console.log("API key found, length:", apiKey.length);
+      const provider = resolveLlmProvider();
 
     // Process patients in batches of 10
     const batchSize = 10;
@@ -218,44 +218,21 @@ export const generatePredictions = action({
       // Process ICU patients
       if (icuPatients.length > 0) {
         try {
-          const predictions = await callAnthropic(apiKey, ICU_PROMPT, icuPatients, args.rawClinicalNotes);
+          const { predictions, engine, error } = await predictBatch(
+            provider,
+            ICU_PROMPT,
+            icuPatients,
+            args.rawClinicalNotes
+          );
+          if (error) errors.push(`ICU batch error (used rules engine): ${error}`);
+          engines.add(engine);
+
           for (const pred of predictions) {
             const patient = icuPatients.find((p) => p.mrn === pred.mrn);
             if (patient) {
-              // Calculate clinical signals locally for override
-              const calculated = calculatePatientSignals(patient.rawGeneralComments, true);
-
-              // Calculate predicted downgrade date using calculated days
-              let predictedDowngradeDate: string | undefined;
-              let predictedDowngradeUnit: string | undefined;
-              const downgradeDays = calculated.downgradeDays;
-              if (downgradeDays < 30) {
-                const downgradeDate = new Date();
-                downgradeDate.setDate(downgradeDate.getDate() + downgradeDays);
-                predictedDowngradeDate = downgradeDate.toISOString().split("T")[0];
-                predictedDowngradeUnit = pred.predictedDowngrade?.targetUnit || undefined;
-              }
-
               await ctx.runMutation(internal.census.updatePatientPredictions, {
                 patientId: patient._id,
-                predictions: {
-                  primaryDiagnosis: pred.primaryDiagnosis,
-                  clinicalStatus: pred.clinicalStatus,
-                  dispositionConsiderations: pred.dispositionConsiderations,
-                  pendingProcedures: pred.pendingProcedures,
-                  // Override with calculated values
-                  projectedDischargeDays: calculated.dischargeDays,
-                  projectedDowngradeDays: calculated.downgradeDays,
-                  trajectory: calculated.trajectory,
-                  losReasoning: pred.losReasoning,
-                  // 1:1 Nursing detection - use calculated values
-                  requiresOneToOne: calculated.requiresOneToOne,
-                  oneToOneDevices: calculated.oneToOneDevices,
-                  oneToOneSource: calculated.requiresOneToOne ? "signals" : undefined,
-                  // Downgrade prediction
-                  predictedDowngradeDate,
-                  predictedDowngradeUnit,
-                },
+                predictions: toPredictionFields(patient, pred, engine),
               });
               processed++;
             }
@@ -268,28 +245,21 @@ export const generatePredictions = action({
       // Process Floor patients
       if (floorPatients.length > 0) {
         try {
-          const predictions = await callAnthropic(apiKey, FLOOR_PROMPT, floorPatients, args.rawClinicalNotes);
+          const { predictions, engine, error } = await predictBatch(
+            provider,
+            FLOOR_PROMPT,
+            floorPatients,
+            args.rawClinicalNotes
+          );
+          if (error) errors.push(`Floor batch error (used rules engine): ${error}`);
+          engines.add(engine);
+
           for (const pred of predictions) {
             const patient = floorPatients.find((p) => p.mrn === pred.mrn);
             if (patient) {
-              // Calculate clinical signals locally for override
-              const calculated = calculatePatientSignals(patient.rawGeneralComments, false);
-
               await ctx.runMutation(internal.census.updatePatientPredictions, {
                 patientId: patient._id,
-                predictions: {
-                  primaryDiagnosis: pred.primaryDiagnosis,
-                  clinicalStatus: pred.clinicalStatus,
-                  dispositionConsiderations: pred.dispositionConsiderations,
-                  pendingProcedures: pred.pendingProcedures,
-                  // Override with calculated values
-                  projectedDischargeDays: calculated.dischargeDays,
-                  trajectory: calculated.trajectory,
-                  losReasoning: pred.losReasoning,
-                  // Floor patients - use calculated values for edge cases
-                  requiresOneToOne: calculated.requiresOneToOne,
-                  oneToOneDevices: calculated.oneToOneDevices,
-                },
+                predictions: toPredictionFields(patient, pred, engine),
               });
               processed++;
             }
@@ -306,11 +276,11 @@ export const generatePredictions = action({
       predictionsGenerated: processed,
     });
 
-    return { processed, errors };
+    return { processed, errors, engines: Array.from(engines) };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       console.error("Fatal error in generatePredictions:", errorMsg);
-      return { processed, errors: [...errors, `Fatal error: ${errorMsg}`] };
+      return { processed, errors: [...errors, `Fatal error: ${errorMsg}`], engines: Array.from(engines) };
     }
   },
 });
@@ -325,7 +295,9 @@ function calculatePatientSignals(
   signals: ClinicalSignals;
   trajectory: string;
   downgradeDays: number;
+  downgradeReasoning: string;
   dischargeDays: number;
+  dischargeReasoning: string;
   oneToOneDevices: string[];
   requiresOneToOne: boolean;
   signalsPrompt: string;
@@ -342,7 +314,9 @@ function calculatePatientSignals(
     signals,
     trajectory,
     downgradeDays: downgradeEstimate.days,
+    downgradeReasoning: downgradeEstimate.reasoning,
     dischargeDays: dischargeEstimate.days,
+    dischargeReasoning: dischargeEstimate.reasoning,
     oneToOneDevices,
     requiresOneToOne,
     signalsPrompt,
@@ -350,23 +324,147 @@ function calculatePatientSignals(
 }
 
 /**
- * Call Anthropic Claude API to generate predictions
+ * Fields written to a patient for one prediction. Discharge/downgrade days,
+ * trajectory and 1:1 status always come from the locally calculated
+ * clinical signals; the engine supplies the narrative fields.
+ */
+function toPredictionFields(
+  patient: PromptPatient,
+  pred: PatientPrediction,
+  engine: string
+): PatientPredictionFields {
+  const isICU = patient.unitType === "icu";
+  const calculated = calculatePatientSignals(patient.rawGeneralComments, isICU);
+
+  const fields: PatientPredictionFields = {
+    primaryDiagnosis: pred.primaryDiagnosis,
+    clinicalStatus: pred.clinicalStatus,
+    dispositionConsiderations: pred.dispositionConsiderations,
+    pendingProcedures: pred.pendingProcedures,
+    // Override with calculated values
+    projectedDischargeDays: calculated.dischargeDays,
+    trajectory: calculated.trajectory,
+    losReasoning: pred.losReasoning,
+    // 1:1 Nursing detection - use calculated values
+    requiresOneToOne: calculated.requiresOneToOne,
+    oneToOneDevices: calculated.oneToOneDevices,
+    predictionEngine: engine,
+    predictionInputHash: commentsHash(patient.rawGeneralComments),
+  };
+
+  if (!isICU) return fields;
+
+  // Calculate predicted downgrade date using calculated days
+  let predictedDowngradeDate: string | undefined;
+  let predictedDowngradeUnit: string | undefined;
+  if (calculated.downgradeDays < 30) {
+    const downgradeDate = new Date();
+    downgradeDate.setDate(downgradeDate.getDate() + calculated.downgradeDays);
+    predictedDowngradeDate = downgradeDate.toISOString().split("T")[0];
+    predictedDowngradeUnit = pred.predictedDowngrade?.targetUnit || undefined;
+  }
+
+  return {
+    ...fields,
+    projectedDowngradeDays: calculated.downgradeDays,
+    oneToOneSource: calculated.requiresOneToOne ? "signals" : undefined,
+    predictedDowngradeDate,
+    predictedDowngradeUnit,
+  };
+}
+
+type PromptPatient = {
+  mrn: string;
+  initials: string;
+  currentUnitName: string;
+  admissionDate: string;
+  service?: string;
+  losDays?: number;
+  primaryDiagnosis?: string;
+  clinicalStatus?: string;
+  rawGeneralComments?: string;
+  unitType?: string;
+};
+
+const DESTINATION_LABELS: Record<string, string> = {
+  home: "Home",
+  home_hah: "Home with Hospital at Home",
+  home_opat: "Home with OPAT",
+  snf: "SNF/SAR placement",
+  ltach: "LTACH placement",
+  rehab: "Acute rehab placement",
+};
+
+/**
+ * Deterministic prediction from clinical signals alone (no model).
+ * Leaves the narrative diagnosis empty rather than guessing it.
+ */
+function rulesPrediction(patient: PromptPatient): PatientPrediction {
+  const isICU = patient.unitType === "icu";
+  const calculated = calculatePatientSignals(patient.rawGeneralComments, isICU);
+  const destination = calculated.signals.destination;
+
+  return {
+    mrn: patient.mrn,
+    clinicalStatus: calculated.trajectory,
+    dispositionConsiderations: destination
+      ? `Expected disposition: ${DESTINATION_LABELS[destination]}${calculated.signals.pendingPlacement ? " (placement pending)" : ""}`
+      : undefined,
+    projectedDischargeDays: calculated.dischargeDays,
+    losReasoning: isICU
+      ? `Rules: downgrade in ${calculated.downgradeDays}d (${calculated.downgradeReasoning}); discharge in ${calculated.dischargeDays}d (${calculated.dischargeReasoning})`
+      : `Rules: discharge in ${calculated.dischargeDays}d (${calculated.dischargeReasoning})`,
+    requiresOneToOne: calculated.requiresOneToOne,
+    oneToOneDevices: calculated.oneToOneDevices,
+    predictedDowngrade: isICU
+      ? {
+          likely: calculated.downgradeDays < 30,
+          daysUntilDowngrade: calculated.downgradeDays,
+          targetUnit: null,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Predictions for a batch from the provider, or from the rules engine when
+ * there is no provider or the model call fails (error is returned).
+ * With fallbackOnRateLimit false, rate-limit errors are thrown instead.
+ */
+async function predictBatch(
+  provider: LlmProvider | null,
+  systemPrompt: string,
+  patients: PromptPatient[],
+  rawClinicalNotes?: string,
+  fallbackOnRateLimit = true
+): Promise<{ predictions: PatientPrediction[]; engine: string; error?: string }> {
+  if (!provider) {
+    return { predictions: patients.map(rulesPrediction), engine: RULES_ENGINE };
+  }
+
+  try {
+    const predictions = await callModel(provider, systemPrompt, patients, rawClinicalNotes);
+    return { predictions, engine: provider.engine };
+  } catch (error) {
+    // Queued jobs back off and retry rate-limited chunks
+    if (error instanceof LlmRateLimitError && !fallbackOnRateLimit) throw error;
+
+    console.error(`${provider.engine} failed, using rules engine:`, error);
+    return {
+      predictions: patients.map(rulesPrediction),
+      engine: `${RULES_ENGINE}:fallback`,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Call the LLM provider to generate predictions
  */
-async function callAnthropic(
-  apiKey: string,
+async function callModel(
+  provider: LlmProvider,
   systemPrompt: string,
-  patients: Array<{
-    mrn: string;
-    initials: string;
-    currentUnitName: string;
-    admissionDate: string;
-    service?: string;
-    losDays?: number;
-    primaryDiagnosis?: string;
-    clinicalStatus?: string;
-    rawGeneralComments?: string;
-    unitType?: string;
-  }>,
+  patients: PromptPatient[],
   rawClinicalNotes?: string
 ): Promise<PatientPrediction[]> {
   // Build the user message with patient data and clinical signals
@@ -407,39 +505,11 @@ Patients:\n\n${JSON.stringify(patientData, null, 2)}`;
     userMessage += `\n\nAdditional clinical notes:\n${rawClinicalNotes}`;
   }
 
-  const response = await fetch("https://api.anthropic.com/v1/messages", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": apiKey,
-      "anthropic-version": "2023-06-01",
-    },
-    body: JSON.stringify({
-      model: "claude-3-haiku-20240307", // Fast and cost-effective for this use case
-      max_tokens: 4096,
-      system: systemPrompt,
-      messages: [
-        {
-          role: "user",
-          content: userMessage,
-        },
-      ],
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Anthropic API error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-
-  // Extract the JSON array from Claude's response
-  const content = data.content?.[0]?.text || "";
+  const content = await provider.complete(systemPrompt, userMessage);
 
   // Try to parse the JSON response
   try {
-    // Find JSON array in the response (Claude might include markdown code blocks)
+    // Find JSON array in the response (models might include markdown code blocks)
     const jsonMatch = content.match(/\[[\s\S]*\]/);
     if (jsonMatch) {
       return JSON.parse(jsonMatch[0]) as PatientPrediction[];
@@ -453,14 +523,15 @@ Patients:\n\n${JSON.stringify(patientData, null, 2)}`;
 
 /**
  * Process a single patient with raw clinical notes
- * Use this when you have copy-pasted clinical notes for specific patients
+ * Use this when you have copy-pasted clinical notes for specific patients.
+ * Falls back to the rules engine like generatePredictions.
  */
 export const processSinglePatient = action({
   args: {
     patientId: v.id("census_patients"),
     clinicalNotes: v.string(),
   },
-  handler: async (ctx, args): Promise<{ success: boolean; error?: string }> => {
+  handler: async (ctx, args): Promise<{ success: boolean; engine?: string; error?: string }> => {
     // Verify user is authenticated
     const user = await ctx.runQuery(internal.censusAI.getUserForAI, {});
     if (!user) {
@@ -476,16 +547,15 @@ export const processSinglePatient = action({
       throw new Error("Patient not found");
     }
 
-    // Get Anthropic API key
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      throw new Error("ANTHROPIC_API_KEY not configured");
-    }
-
     const prompt = patient.unitType === "icu" ? ICU_PROMPT : FLOOR_PROMPT;
 
     try {
-      const predictions = await callAnthropic(apiKey, prompt, [patient], args.clinicalNotes);
+      const { predictions, engine, error } = await predictBatch(
+        resolveLlmProvider(),
+        prompt,
+        [patient],
+        args.clinicalNotes
+      );
 
       if (predictions.length > 0) {
         await ctx.runMutation(internal.census.updatePatientPredictions, {
@@ -497,12 +567,14 @@ export const processSinglePatient = action({
             pendingProcedures: predictions[0].pendingProcedures,
             projectedDischargeDays: predictions[0].projectedDischargeDays,
             losReasoning: predictions[0].losReasoning,
+            predictionEngine: engine,
+            predictionInputHash: commentsHash(patient.rawGeneralComments),
           },
         });
-        return { success: true };
+        return { success: true, engine, error };
       }
 
-      return { success: false, error: "No predictions generated" };
+      return { success: false, engine, error: error ?? "No predictions generated" };
     } catch (error) {
       return {
         success: false,
@@ -512,6 +584,85 @@ export const processSinglePatient = action({
   },
 });
 
+// ═══════════════════════════════════════════════════════════════════
+// QUEUED PREDICTION JOBS (see censusAIJobs.ts)
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Predict one claimed chunk of a job and record it. Rate limits stop the
+ * chunk so the job can back off; other model failures use the rules engine,
+ * and anything else that throws counts as a failed attempt for the patients.
+ */
+export const processJobChunk = internalAction({
+  args: { jobId: v.id("census_ai_jobs") },
+  handler: async (ctx, args): Promise<void> => {
+    const chunk = await ctx.runMutation(internal.censusAIJobs.claimChunk, { jobId: args.jobId });
+    if (!chunk) return;
+
+    const provider = resolveLlmProvider();
+    const patients = chunk.items.map((item) => item.patient);
+    const results: Array<{
+      itemId: Id<"census_ai_job_items">;
+      predictions?: PatientPredictionFields;
+      error?: string;
+    }> = [];
+    const engines: string[] = [];
+    let batchError: string | undefined;
+    let rateLimit: { message: string; retryAfterMs?: number } | undefined;
+
+    const groups: Array<[string, typeof patients]> = [
+      [ICU_PROMPT, patients.filter((p) => p.unitType === "icu")],
+      [FLOOR_PROMPT, patients.filter((p) => p.unitType !== "icu")],
+    ];
+
+    for (const [prompt, group] of groups) {
+      if (group.length === 0) continue;
+
+      try {
+        const { predictions, engine, error } = await predictBatch(
+          provider,
+          prompt,
+          group,
+          chunk.rawClinicalNotes,
+          chunk.fallbackOnRateLimit
+        );
+        if (error) batchError = `${error} (used rules engine)`;
+        engines.push(engine);
+
+        for (const patient of group) {
+          const itemId = chunk.items.find((item) => item.patient._id === patient._id)!.itemId;
+          const pred = predictions.find((p) => p.mrn === patient.mrn);
+          results.push(
+            pred
+              ? { itemId, predictions: toPredictionFields(patient, pred, engine) }
+              : { itemId, error: "No prediction returned for patient" }
+          );
+        }
+      } catch (error) {
+        if (error instanceof LlmRateLimitError) {
+          rateLimit = { message: error.message, retryAfterMs: error.retryAfterMs ?? undefined };
+          break;
+        }
+        // Count an attempt against every patient in the group not already recorded
+        const message = error instanceof Error ? error.message : String(error);
+        batchError = message;
+        for (const patient of group) {
+          const itemId = chunk.items.find((item) => item.patient._id === patient._id)!.itemId;
+          if (!results.some((r) => r.itemId === itemId)) results.push({ itemId, error: message });
+        }
+      }
+    }
+
+    await ctx.runMutation(internal.censusAIJobs.recordChunk, {
+      jobId: args.jobId,
+      results,
+      engines,
+      batchError,
+      rateLimit,
+    });
+  },
+});
+
 export const getPatientById = internalQuery({
   args: { patientId: v.id("census_patients") },
   handler: async (ctx, args) => {
@@ -0,0 +1,466 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireAuth, requireHospitalAccess } from "./lib/auth";
+import { applyPatientPredictions, commentsHash, patientPredictionsValidator } from "./lib/censusPredictions";
+
+// ═══════════════════════════════════════════════════════════════════
+// CENSUS AI JOBS
+// Queued prediction runs: each chunk is claimed here, predicted by
+// censusAI.processJobChunk and recorded back, so progress survives
+// timeouts. Rate-limited chunks back off exponentially; a job whose
+// action died mid-chunk is resumed by the watchdog cron.
+// ═══════════════════════════════════════════════════════════════════
+
+const JOB_MODES = ["all", "changed"];
+const ACTIVE_STATUSES = ["queued", "running", "backoff"];
+
+const JOB_CHUNK_SIZE = 10;
+const MAX_ITEM_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 5 * 1000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+// Consecutive rate-limited chunks before falling back to the rules engine
+const MAX_RATE_LIMIT_RETRIES = 8;
+// Actions time out after 10 minutes; a running job this quiet has died
+const STALL_MS = 15 * 60 * 1000;
+
+/**
+ * Mark a job completed and its import predicted
+ */
+async function finishJob(ctx: MutationCtx, job: Doc<"census_ai_jobs">) {
+  const now = Date.now();
+  await ctx.db.patch(job._id, {
+    status: "completed",
+    nextRunAt: undefined,
+    updatedAt: now,
+    completedAt: now,
+  });
+
+  const importRecord = await ctx.db.get(job.importId);
+  if (importRecord) {
+    await ctx.db.patch(job.importId, {
+      status: "completed",
+      predictionsGenerated: job.done,
+    });
+  }
+}
+
+/**
+ * Count a failed attempt at predicting an item, failing it out after
+ * MAX_ITEM_ATTEMPTS. Returns whether the item is now failed.
+ */
+async function recordItemFailure(
+  ctx: MutationCtx,
+  item: Doc<"census_ai_job_items">,
+  error: string,
+  now: number
+): Promise<boolean> {
+  const attempts = item.attempts + 1;
+  const exhausted = attempts >= MAX_ITEM_ATTEMPTS;
+  await ctx.db.patch(item._id, {
+    status: exhausted ? "failed" : "pending",
+    attempts,
+    claimedAt: undefined,
+    error,
+    updatedAt: now,
+  });
+  return exhausted;
+}
+
+/**
+ * Pending items a chunk action claimed but never recorded
+ */
+async function getUnrecordedItems(ctx: MutationCtx, jobId: Id<"census_ai_jobs">) {
+  return await ctx.db
+    .query("census_ai_job_items")
+    .withIndex("by_job_status", (q) => q.eq("jobId", jobId).eq("status", "pending"))
+    .filter((q) => q.neq(q.field("claimedAt"), undefined))
+    .collect();
+}
+
+async function getJobWithAccess(ctx: MutationCtx, jobId: Id<"census_ai_jobs">) {
+  await requireAuth(ctx);
+  const job = await ctx.db.get(jobId);
+  if (!job) throw new Error("Prediction job not found");
+  await requireHospitalAccess(ctx, job.hospitalId);
+  return job;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// QUERIES
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Latest prediction job for an import, with live progress
+ */
+export const getLatestForImport = query({
+  args: { importId: v.id("census_imports") },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx);
+
+    const importRecord = await ctx.db.get(args.importId);
+    if (!importRecord) return null;
+    await requireHospitalAccess(ctx, importRecord.hospitalId);
+
+    const job = await ctx.db
+      .query("census_ai_jobs")
+      .withIndex("by_import", (q) => q.eq("importId", args.importId))
+      .order("desc")
+      .first();
+    if (!job) return null;
+
+    return {
+      jobId: job._id,
+      mode: job.mode,
+      status: job.status,
+      total: job.total,
+      done: job.done,
+      failed: job.failed,
+      skipped: job.skipped,
+      pending: job.total - job.done - job.failed,
+      engines: job.engines,
+      lastError: job.lastError,
+      nextRunAt: job.nextRunAt,
+      stalled: job.status === "running" && job.updatedAt < Date.now() - STALL_MS,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt,
+    };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// START / RESUME / CANCEL
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Queue predictions for an import's active patients
+ * mode "changed" only includes patients never predicted or whose
+ * rawGeneralComments changed since their last prediction
+ */
+export const start = mutation({
+  args: {
+    importId: v.id("census_imports"),
+    mode: v.string(), // "all" | "changed"
+    unitType: v.optional(v.string()),
+    rawClinicalNotes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireAuth(ctx);
+
+    const importRecord = await ctx.db.get(args.importId);
+    if (!importRecord) throw new Error("Import not found");
+    await requireHospitalAccess(ctx, importRecord.hospitalId);
+
+    if (!JOB_MODES.includes(args.mode)) {
+      throw new Error(`Invalid mode: ${args.mode}`);
+    }
+
+    const jobs = await ctx.db
+      .query("census_ai_jobs")
+      .withIndex("by_import", (q) => q.eq("importId", args.importId))
+      .collect();
+    if (jobs.some((job) => ACTIVE_STATUSES.includes(job.status))) {
+      throw new Error("A prediction job is already running for this import");
+    }
+
+    const patients = (
+      await ctx.db
+        .query("census_patients")
+        .withIndex("by_import", (q) => q.eq("importId", args.importId))
+        .filter((q) => q.eq(q.field("isActive"), true))
+        .collect()
+    ).filter((p) => !args.unitType || p.unitType === args.unitType);
+
+    const toPredict =
+      args.mode === "changed"
+        ? patients.filter(
+            (p) => !p.predictionEngine || p.predictionInputHash !== commentsHash(p.rawGeneralComments)
+          )
+        : patients;
+
+    const now = Date.now();
+    const jobId = await ctx.db.insert("census_ai_jobs", {
+      hospitalId: importRecord.hospitalId,
+      importId: args.importId,
+      mode: args.mode,
+      unitType: args.unitType,
+      rawClinicalNotes: args.rawClinicalNotes,
+      status: "queued",
+      total: toPredict.length,
+      done: 0,
+      failed: 0,
+      skipped: patients.length - toPredict.length,
+      engines: [],
+      rateLimitRetries: 0,
+      createdBy: user._id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    for (const patient of toPredict) {
+      await ctx.db.insert("census_ai_job_items", {
+        jobId,
+        patientId: patient._id,
+        status: "pending",
+        attempts: 0,
+        updatedAt: now,
+      });
+    }
+
+    if (toPredict.length === 0) {
+      await finishJob(ctx, (await ctx.db.get(jobId))!);
+    } else {
+      await ctx.db.patch(args.importId, { status: "processing" });
+      await ctx.scheduler.runAfter(0, internal.censusAI.processJobChunk, { jobId });
+    }
+
+    return { jobId, total: toPredict.length, skipped: patients.length - toPredict.length };
+  },
+});
+
+/**
+ * Resume a stalled, backed-off or finished job; retryFailed puts failed
+ * patients back in the queue
+ */
+export const resume = mutation({
+  args: {
+    jobId: v.id("census_ai_jobs"),
+    retryFailed: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const job = await getJobWithAccess(ctx, args.jobId);
+
+    if (job.status === "running" && job.updatedAt >= Date.now() - STALL_MS) {
+      throw new Error("Job is still running");
+    }
+
+    const now = Date.now();
+    let failed = 0;
+    for (const item of await getUnrecordedItems(ctx, args.jobId)) {
+      if (await recordItemFailure(ctx, item, "Prediction run stopped before finishing", now)) failed++;
+    }
+
+    let requeued = 0;
+    if (args.retryFailed) {
+      const failedItems = await ctx.db
+        .query("census_ai_job_items")
+        .withIndex("by_job_status", (q) => q.eq("jobId", args.jobId).eq("status", "failed"))
+        .collect();
+      for (const item of failedItems) {
+        await ctx.db.patch(item._id, { status: "pending", attempts: 0, error: undefined, updatedAt: now });
+        requeued++;
+      }
+    }
+
+    await ctx.db.patch(args.jobId, {
+      status: "queued",
+      failed: job.failed + failed - requeued,
+      rateLimitRetries: 0,
+      nextRunAt: undefined,
+      completedAt: undefined,
+      updatedAt: now,
+    });
+    await ctx.db.patch(job.importId, { status: "processing" });
+    await ctx.scheduler.runAfter(0, internal.censusAI.processJobChunk, { jobId: args.jobId });
+
+    return { requeued };
+  },
+});
+
+/**
+ * Stop a job; patients already predicted keep their predictions
+ */
+export const cancel = mutation({
+  args: { jobId: v.id("census_ai_jobs") },
+  handler: async (ctx, args) => {
+    const job = await getJobWithAccess(ctx, args.jobId);
+    if (!ACTIVE_STATUSES.includes(job.status)) return;
+
+    const now = Date.now();
+    await ctx.db.patch(args.jobId, {
+      status: "cancelled",
+      nextRunAt: undefined,
+      updatedAt: now,
+      completedAt: now,
+    });
+    await ctx.db.patch(job.importId, { status: "completed", predictionsGenerated: job.done });
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// CHUNK PROCESSING (called by censusAI.processJobChunk)
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Claim the next chunk of pending patients, or finish the job when none
+ * are left. Returns null when there is nothing to process.
+ */
+export const claimChunk = internalMutation({
+  args: { jobId: v.id("census_ai_jobs") },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || !ACTIVE_STATUSES.includes(job.status)) return null;
+
+    const items = await ctx.db
+      .query("census_ai_job_items")
+      .withIndex("by_job_status", (q) => q.eq("jobId", args.jobId).eq("status", "pending"))
+      .take(JOB_CHUNK_SIZE);
+
+    if (items.length === 0) {
+      await finishJob(ctx, job);
+      return null;
+    }
+
+    const now = Date.now();
+    const claimed = [];
+    let missing = 0;
+    for (const item of items) {
+      const patient = await ctx.db.get(item.patientId);
+      if (!patient) {
+        await ctx.db.patch(item._id, { status: "failed", error: "Patient no longer exists", updatedAt: now });
+        missing++;
+        continue;
+      }
+      await ctx.db.patch(item._id, { claimedAt: now });
+      claimed.push({ itemId: item._id, patient });
+    }
+
+    await ctx.db.patch(args.jobId, {
+      status: "running",
+      failed: job.failed + missing,
+      nextRunAt: undefined,
+      updatedAt: now,
+    });
+
+    return {
+      items: claimed,
+      rawClinicalNotes: job.rawClinicalNotes,
+      fallbackOnRateLimit: job.rateLimitRetries >= MAX_RATE_LIMIT_RETRIES,
+    };
+  },
+});
+
+/**
+ * Save a chunk's predictions and schedule the next chunk, backing off
+ * when the model server rate limited us
+ */
+export const recordChunk = internalMutation({
+  args: {
+    jobId: v.id("census_ai_jobs"),
+    results: v.array(
+      v.object({
+        itemId: v.id("census_ai_job_items"),
+        predictions: v.optional(patientPredictionsValidator),
+        error: v.optional(v.string()),
+      })
+    ),
+    engines: v.array(v.string()),
+    batchError: v.optional(v.string()),
+    rateLimit: v.optional(
+      v.object({
+        message: v.string(),
+        retryAfterMs: v.optional(v.number()),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job) return;
+
+    const now = Date.now();
+    let done = 0;
+    let failed = 0;
+
+    for (const result of args.results) {
+      const item = await ctx.db.get(result.itemId);
+      if (!item || item.status !== "pending") continue;
+
+      if (result.predictions && (await applyPatientPredictions(ctx, item.patientId, result.predictions))) {
+        await ctx.db.patch(item._id, {
+          status: "done",
+          engine: result.predictions.predictionEngine,
+          claimedAt: undefined,
+          error: undefined,
+          updatedAt: now,
+        });
+        done++;
+        continue;
+      }
+
+      if (await recordItemFailure(ctx, item, result.error ?? "Patient no longer exists", now)) failed++;
+    }
+
+    // Items a rate limit stopped before they were tried go back in the queue as they were
+    for (const item of await getUnrecordedItems(ctx, args.jobId)) {
+      await ctx.db.patch(item._id, { claimedAt: undefined });
+    }
+
+    const progress = {
+      done: job.done + done,
+      failed: job.failed + failed,
+      engines: Array.from(new Set([...job.engines, ...args.engines])),
+      updatedAt: now,
+    };
+
+    if (!ACTIVE_STATUSES.includes(job.status)) {
+      await ctx.db.patch(args.jobId, progress);
+      return;
+    }
+
+    if (args.rateLimit) {
+      const rateLimitRetries = job.rateLimitRetries + 1;
+      const delay =
+        args.rateLimit.retryAfterMs ?? Math.min(BASE_BACKOFF_MS * 2 ** (rateLimitRetries - 1), MAX_BACKOFF_MS);
+      await ctx.db.patch(args.jobId, {
+        ...progress,
+        status: "backoff",
+        rateLimitRetries,
+        nextRunAt: now + delay,
+        lastError: args.rateLimit.message,
+      });
+      await ctx.scheduler.runAfter(delay, internal.censusAI.processJobChunk, { jobId: args.jobId });
+      return;
+    }
+
+    await ctx.db.patch(args.jobId, {
+      ...progress,
+      status: "running",
+      rateLimitRetries: 0,
+      ...(args.batchError && { lastError: args.batchError }),
+    });
+    await ctx.scheduler.runAfter(0, internal.censusAI.processJobChunk, { jobId: args.jobId });
+  },
+});
+
+/**
+ * Restart jobs whose chunk action died without recording (cron). The
+ * items it held count a failed attempt, so a chunk that always kills
+ * its action fails out instead of being retried forever.
+ */
+export const resumeStalledJobs = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const running = await ctx.db
+      .query("census_ai_jobs")
+      .withIndex("by_status", (q) => q.eq("status", "running"))
+      .collect();
+
+    let resumed = 0;
+    for (const job of running) {
+      if (job.updatedAt >= now - STALL_MS) continue;
+
+      let failed = 0;
+      for (const item of await getUnrecordedItems(ctx, job._id)) {
+        if (await recordItemFailure(ctx, item, "Prediction run stopped before finishing", now)) failed++;
+      }
+
+      await ctx.db.patch(job._id, { status: "queued", failed: job.failed + failed, updatedAt: now });
+      await ctx.scheduler.runAfter(0, internal.censusAI.processJobChunk, { jobId: job._id });
+      resumed++;
+    }
+
+    return { resumed };
+  },
+});
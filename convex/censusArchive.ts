@@ -0,0 +1,152 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { requireAuth, requireHospitalAccess } from "./lib/auth";
+import { ARCHIVE_FORECAST_DAYS } from "./lib/censusArchive";
+
+/**
+ * Historical census archive and forecast accuracy
+ * Reads census_daily_archive (written by lib/censusArchive.ts). Forecast
+ * error compares the census projected on day D for day D+h with the census
+ * actually archived for D+h; a unit missing from a census date that has
+ * other archived units counts as an actual census of 0.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ErrorTotals {
+  samples: number;
+  absError: number;
+  error: number;
+}
+
+function summarize(totals: ErrorTotals) {
+  if (totals.samples === 0) return { samples: 0, mae: null, bias: null };
+  return {
+    samples: totals.samples,
+    mae: Math.round((totals.absError / totals.samples) * 100) / 100,
+    // Positive bias = forecast above actual
+    bias: Math.round((totals.error / totals.samples) * 100) / 100,
+  };
+}
+
+function addError(totals: ErrorTotals, projected: number, actual: number) {
+  totals.samples++;
+  totals.absError += Math.abs(projected - actual);
+  totals.error += projected - actual;
+}
+
+const emptyTotals = (): ErrorTotals => ({ samples: 0, absError: 0, error: 0 });
+
+/**
+ * Archived daily unit aggregates for the last N days
+ */
+export const getDailyArchive = query({
+  args: {
+    hospitalId: v.id("hospitals"),
+    days: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx);
+    await requireHospitalAccess(ctx, args.hospitalId);
+
+    const startDate = new Date(Date.now() - (args.days ?? 30) * DAY_MS).toISOString().split("T")[0];
+
+    const rows = await ctx.db
+      .query("census_daily_archive")
+      .withIndex("by_hospital_date", (q) => q.eq("hospitalId", args.hospitalId).gte("date", startDate))
+      .collect();
+
+    return rows
+      .map((row) => ({
+        date: row.date,
+        unitName: row.unitName,
+        unitType: row.unitType,
+        census: row.census,
+        admits: row.admits,
+        transfersIn: row.transfersIn,
+        discharges: row.discharges,
+        downgrades: row.downgrades,
+        oneToOne: row.oneToOne,
+      }))
+      .sort((a, b) => b.date.localeCompare(a.date) || a.unitName.localeCompare(b.unitName));
+  },
+});
+
+/**
+ * Forecast accuracy over the last N days: mean absolute error of the
+ * projected census by unit and by horizon day
+ */
+export const getForecastAccuracy = query({
+  args: {
+    hospitalId: v.id("hospitals"),
+    days: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx);
+    await requireHospitalAccess(ctx, args.hospitalId);
+
+    const days = args.days ?? 30;
+    const windowStart = new Date(Date.now() - days * DAY_MS).toISOString().split("T")[0];
+    // Include forecasts made before the window that target dates inside it
+    const loadStart = new Date(Date.now() - (days + ARCHIVE_FORECAST_DAYS) * DAY_MS)
+      .toISOString()
+      .split("T")[0];
+
+    const rows = await ctx.db
+      .query("census_daily_archive")
+      .withIndex("by_hospital_date", (q) => q.eq("hospitalId", args.hospitalId).gte("date", loadStart))
+      .collect();
+
+    const archivedDates = new Set(rows.map((row) => row.date));
+    const actuals = new Map(rows.map((row) => [`${row.unitName}|${row.date}`, row.census]));
+
+    const overall = emptyTotals();
+    const byHorizon = Array.from({ length: ARCHIVE_FORECAST_DAYS }, emptyTotals);
+    const byUnit = new Map<
+      string,
+      { unitName: string; unitType: string; totals: ErrorTotals; byHorizon: ErrorTotals[] }
+    >();
+
+    for (const row of rows) {
+      for (const point of row.forecast) {
+        if (point.date < windowStart || !archivedDates.has(point.date)) continue;
+        if (point.horizonDay < 1 || point.horizonDay > ARCHIVE_FORECAST_DAYS) continue;
+
+        const actual = actuals.get(`${row.unitName}|${point.date}`) ?? 0;
+
+        if (!byUnit.has(row.unitName)) {
+          byUnit.set(row.unitName, {
+            unitName: row.unitName,
+            unitType: row.unitType,
+            totals: emptyTotals(),
+            byHorizon: Array.from({ length: ARCHIVE_FORECAST_DAYS }, emptyTotals),
+          });
+        }
+        const unit = byUnit.get(row.unitName)!;
+
+        addError(overall, point.projectedCensus, actual);
+        addError(byHorizon[point.horizonDay - 1], point.projectedCensus, actual);
+        addError(unit.totals, point.projectedCensus, actual);
+        addError(unit.byHorizon[point.horizonDay - 1], point.projectedCensus, actual);
+      }
+    }
+
+    return {
+      windowStart,
+      archivedDays: Array.from(archivedDates).filter((date) => date >= windowStart).length,
+      overall: summarize(overall),
+      byHorizon: byHorizon.map((totals, index) => ({ horizonDay: index + 1, ...summarize(totals) })),
+      byUnit: Array.from(byUnit.values())
+        .map((unit) => ({
+          unitName: unit.unitName,
+          unitType: unit.unitType,
+          ...summarize(unit.totals),
+          byHorizon: unit.byHorizon.map((totals) => summarize(totals).mae),
+        }))
+        .sort((a, b) => {
+          if (a.unitType !== b.unitType) return a.unitType === "icu" ? -1 : 1;
+          return a.unitName.localeCompare(b.unitName);
+        }),
+    };
+  },
+});
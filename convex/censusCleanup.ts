@@ -1,8 +1,10 @@
 import { internalMutation } from "./_generated/server";
+import { archiveLatestImports } from "./lib/censusArchive";
 
 /**
  * Clean up census data older than 3 days
- * Called by scheduled cron job
+ * Called by scheduled cron job. Each hospital's latest census is archived
+ * as daily unit aggregates first (census_daily_archive).
  */
 export const cleanupExpiredData = internalMutation({
   args: {},
@@ -12,6 +14,8 @@ export const cleanupExpiredData = internalMutation({
     let historyDeleted = 0;
     let importsDeleted = 0;
 
+    const archiveRows = await archiveLatestImports(ctx);
+
     // Delete expired patients
     const expiredPatients = await ctx.db
       .query("census_patients")
@@ -64,10 +68,11 @@ export const cleanupExpiredData = internalMutation({
     }
 
     console.log(
-      `Census cleanup: ${patientsDeleted} patients, ${historyDeleted} history records, ${importsDeleted} imports marked inactive`
+      `Census cleanup: ${archiveRows} unit days archived, ${patientsDeleted} patients, ${historyDeleted} history records, ${importsDeleted} imports marked inactive`
     );
 
     return {
+      archiveRows,
       patientsDeleted,
       historyDeleted,
       importsDeleted,
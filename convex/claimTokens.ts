@@ -2,6 +2,9 @@ import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
 import { Id } from "./_generated/dataModel";
 import { requireAuth, auditLog } from "./lib/auth";
+import { claimPositionsForProvider, listClaimablePositions } from "./lib/claims";
+import { getCredentialNotices } from "./lib/credentials";
+import { reopenPosition } from "./lib/standby";
 
 // ═══════════════════════════════════════════════════════════════════
 // CLAIM TOKEN GENERATION (Admin-only)
@@ -125,142 +128,11 @@ export const getClaimData = query({
       return { error: "Provider not found", data: null };
     }
 
-    // Get provider's job type
-    const jobType = await ctx.db.get(provider.jobTypeId);
-
-    // Get provider's skills
-    const providerSkills = await ctx.db
-      .query("provider_skills")
-      .withIndex("by_provider", (q) => q.eq("providerId", provider._id))
-      .collect();
-    const providerSkillIds = new Set(providerSkills.map((ps) => ps.skillId.toString()));
-
-    // Get provider's hospital access
-    const hospitalAccess = await ctx.db
-      .query("provider_hospital_access")
-      .withIndex("by_provider", (q) => q.eq("providerId", provider._id))
-      .collect();
-    const accessibleHospitalIds = new Set([
-      provider.hospitalId.toString(),
-      ...hospitalAccess.map((ha) => ha.hospitalId.toString()),
-    ]);
-
-    // Get all open positions in this scenario matching provider's job type
-    const positions = await ctx.db
-      .query("scenario_positions")
-      .withIndex("by_scenario", (q) => q.eq("scenarioId", claimToken.scenarioId))
-      .filter((q) =>
-        q.and(
-          q.eq(q.field("status"), "Open"),
-          q.eq(q.field("isActive"), true),
-          q.eq(q.field("jobTypeId"), provider.jobTypeId)
-        )
-      )
-      .collect();
-
-    // Get existing assignments for this provider in this scenario
-    const existingAssignments = await ctx.db
-      .query("scenario_assignments")
-      .withIndex("by_provider_scenario", (q) =>
-        q.eq("providerId", provider._id).eq("scenarioId", claimToken.scenarioId)
-      )
-      .filter((q) => q.neq(q.field("status"), "Cancelled"))
-      .collect();
-
-    // Build a set of date+shift combos already assigned
-    const assignedShifts = new Set<string>();
-    for (const assignment of existingAssignments) {
-      const pos = await ctx.db.get(assignment.scenarioPositionId);
-      if (pos) {
-        assignedShifts.add(`${pos.date}-${pos.shiftType}`);
-      }
-    }
-
-    // Filter positions by hospital access and conflicts
-    const availablePositions: Array<{
-      positionId: Id<"scenario_positions">;
-      date: string;
-      shiftType: string;
-      shiftStart: string;
-      shiftEnd: string;
-      serviceName: string;
-      serviceCode: string;
-      hospitalName: string;
-      departmentName: string;
-      skillMatch: "Perfect" | "Good" | "Partial";
-      isHomeHospital: boolean;
-    }> = [];
-
-    for (const position of positions) {
-      // Check hospital access
-      if (!accessibleHospitalIds.has(position.hospitalId.toString())) {
-        continue;
-      }
-
-      // Check visa restriction for fellows
-      if (provider.hasVisa && jobType?.code === "FEL") {
-        if (provider.hospitalId !== position.hospitalId) {
-          continue;
-        }
-      }
-
-      // Check for conflicts
-      if (assignedShifts.has(`${position.date}-${position.shiftType}`)) {
-        continue;
-      }
-
-      // Get service and hospital info
-      const service = await ctx.db.get(position.serviceId);
-      const hospital = await ctx.db.get(position.hospitalId);
-      const department = await ctx.db.get(position.departmentId);
-
-      // Check skill match
-      const serviceJobType = await ctx.db.get(position.serviceJobTypeId);
-      let skillMatch: "Perfect" | "Good" | "Partial" = "Perfect";
-
-      if (serviceJobType) {
-        const requiredSkillLinks = await ctx.db
-          .query("service_job_type_skills")
-          .withIndex("by_service_job_type", (q) =>
-            q.eq("serviceJobTypeId", serviceJobType._id)
-          )
-          .filter((q) => q.eq(q.field("isRequired"), true))
-          .collect();
-
-        const requiredSkillIds = requiredSkillLinks.map((sl) => sl.skillId.toString());
-        const matched = requiredSkillIds.filter((id) => providerSkillIds.has(id));
-        const missing = requiredSkillIds.filter((id) => !providerSkillIds.has(id));
-
-        if (missing.length === 0) {
-          skillMatch = "Perfect";
-        } else if (matched.length > missing.length) {
-          skillMatch = "Good";
-        } else {
-          skillMatch = "Partial";
-        }
-      }
-
-      availablePositions.push({
-        positionId: position._id,
-        date: position.date,
-        shiftType: position.shiftType,
-        shiftStart: position.shiftStart,
-        shiftEnd: position.shiftEnd,
-        serviceName: service?.name || "Unknown Service",
-        serviceCode: service?.shortCode || "",
-        hospitalName: hospital?.name || "Unknown Hospital",
-        departmentName: department?.name || "Unknown Department",
-        skillMatch,
-        isHomeHospital: provider.hospitalId === position.hospitalId,
-      });
-    }
-
-    // Sort by date, then by shift type (AM first)
-    availablePositions.sort((a, b) => {
-      const dateCompare = a.date.localeCompare(b.date);
-      if (dateCompare !== 0) return dateCompare;
-      return a.shiftType === "AM" ? -1 : 1;
-    });
+    const { jobType, availablePositions, alreadyAssigned } = await listClaimablePositions(
+      ctx,
+      provider,
+      claimToken.scenarioId
+    );
 
     // Group by date for easier display
     const positionsByDate: Record<string, typeof availablePositions> = {};
@@ -282,7 +154,9 @@ export const getClaimData = query({
         availablePositions,
         positionsByDate,
         totalAvailable: availablePositions.length,
-        alreadyAssigned: existingAssignments.length,
+        alreadyAssigned,
+        // Shifts needing these are hidden or can't be claimed
+        credentialNotices: await getCredentialNotices(ctx, provider._id, scenario.endDate),
       },
     };
   },
@@ -376,73 +250,17 @@ export const claimPositions = mutation({
       throw new Error("Provider not found");
     }
 
-    // Get existing assignments to check for conflicts
-    const existingAssignments = await ctx.db
-      .query("scenario_assignments")
-      .withIndex("by_provider_scenario", (q) =>
-        q.eq("providerId", provider._id).eq("scenarioId", claimToken.scenarioId)
-      )
-      .filter((q) => q.neq(q.field("status"), "Cancelled"))
-      .collect();
-
-    const assignedShifts = new Set<string>();
-    for (const assignment of existingAssignments) {
-      const pos = await ctx.db.get(assignment.scenarioPositionId);
-      if (pos) {
-        assignedShifts.add(`${pos.date}-${pos.shiftType}`);
-      }
-    }
-
     // Get the user who created the token (for audit)
     const tokenCreator = await ctx.db.get(claimToken.createdBy);
 
-    const claimed: Array<{ positionId: Id<"scenario_positions">; assignmentId: Id<"scenario_assignments"> }> = [];
-    const errors: string[] = [];
-
-    for (const positionId of args.positionIds) {
-      const position = await ctx.db.get(positionId);
-
-      if (!position) {
-        errors.push(`Position not found`);
-        continue;
-      }
-
-      if (position.scenarioId !== claimToken.scenarioId) {
-        errors.push(`Position does not belong to this scenario`);
-        continue;
-      }
-
-      if (position.status !== "Open") {
-        errors.push(`Position for ${position.date} ${position.shiftType} is no longer available`);
-        continue;
-      }
-
-      // Check for conflicts
-      const shiftKey = `${position.date}-${position.shiftType}`;
-      if (assignedShifts.has(shiftKey)) {
-        errors.push(`Already assigned to ${position.shiftType} shift on ${position.date}`);
-        continue;
-      }
-
-      // Create assignment (auto-approved - status is "Assigned")
-      const assignmentId = await ctx.db.insert("scenario_assignments", {
-        scenarioPositionId: positionId,
-        providerId: provider._id,
-        scenarioId: claimToken.scenarioId,
-        status: "Active", // Auto-approved
-        assignedAt: Date.now(),
-        assignedBy: claimToken.createdBy, // Use token creator as the "assigner"
-        notes: "Self-claimed via email link",
-      });
-
-      // Update position status
-      await ctx.db.patch(positionId, { status: "Assigned" });
-
-      // Mark this shift as assigned for conflict checking
-      assignedShifts.add(shiftKey);
-
-      claimed.push({ positionId, assignmentId });
-    }
+    const { claimed, rejected, dutyHourWarnings } = await claimPositionsForProvider(ctx, {
+      provider,
+      scenario,
+      positionIds: args.positionIds,
+      assignedBy: claimToken.createdBy, // Use token creator as the "assigner"
+      notes: "Self-claimed via email link",
+    });
+    const errors = rejected.map((r) => r.reason);
 
     // Log the claim (using a simple insert since we don't have auth context)
     if (tokenCreator) {
@@ -456,6 +274,7 @@ export const claimPositions = mutation({
           providerName: `${provider.firstName} ${provider.lastName}`,
           claimedCount: claimed.length,
           positionIds: claimed.map((c) => c.positionId),
+          ...(dutyHourWarnings.length > 0 && { dutyHourWarnings }),
         },
         timestamp: Date.now(),
       });
@@ -465,6 +284,7 @@ export const claimPositions = mutation({
       success: true,
       claimed: claimed.length,
       errors,
+      dutyHourWarnings,
       message:
         claimed.length > 0
           ? `Successfully claimed ${claimed.length} shift${claimed.length > 1 ? "s" : ""}`
@@ -473,6 +293,64 @@ export const claimPositions = mutation({
   },
 });
 
+/**
+ * Confirm an assigned shift (PUBLIC - linked from reminder emails)
+ */
+export const confirmAssignment = mutation({
+  args: {
+    token: v.string(),
+    assignmentId: v.id("scenario_assignments"),
+  },
+  handler: async (ctx, args) => {
+    // Validate token
+    const claimToken = await ctx.db
+      .query("claim_tokens")
+      .withIndex("by_token", (q) => q.eq("token", args.token))
+      .first();
+
+    if (!claimToken) {
+      throw new Error("Invalid or expired link");
+    }
+
+    if (Date.now() > claimToken.expiresAt) {
+      throw new Error("This link has expired");
+    }
+
+    const assignment = await ctx.db.get(args.assignmentId);
+    if (!assignment) {
+      throw new Error("Assignment not found");
+    }
+
+    if (assignment.providerId !== claimToken.providerId) {
+      throw new Error("You can only confirm your own assignments");
+    }
+
+    if (assignment.status !== "Active") {
+      throw new Error(
+        assignment.status === "Confirmed" ? "Shift is already confirmed" : "This shift is no longer assigned to you"
+      );
+    }
+
+    await ctx.db.patch(args.assignmentId, { status: "Confirmed" });
+    await ctx.db.patch(assignment.scenarioPositionId, { status: "Confirmed" });
+
+    await ctx.db.insert("audit_logs", {
+      userId: claimToken.createdBy,
+      action: "UPDATE",
+      resourceType: "SCENARIO_ASSIGNMENT",
+      resourceId: args.assignmentId,
+      changes: {
+        action: "confirm",
+        providerId: assignment.providerId,
+        source: "claim_portal",
+      },
+      timestamp: Date.now(),
+    });
+
+    return { success: true, message: "Shift confirmed" };
+  },
+});
+
 /**
  * Unclaim/cancel a position (PUBLIC - provider can cancel their own claims)
  */
@@ -521,8 +399,8 @@ export const unclaimPosition = mutation({
       cancelReason: "Self-cancelled via claim portal",
     });
 
-    // Revert position status to Open
-    await ctx.db.patch(assignment.scenarioPositionId, { status: "Open" });
+    // Revert position status to Open, promoting the top eligible standby
+    await reopenPosition(ctx, assignment.scenarioPositionId, claimToken.createdBy);
 
     return { success: true, message: "Shift cancelled successfully" };
   },
@@ -0,0 +1,222 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { requireHealthSystemAccess } from "./lib/auth";
+import { getRequiredSkillIds } from "./lib/scenarioEligibility";
+import { isCoveragePosition } from "./lib/standby";
+
+// ═══════════════════════════════════════════════════════════════════
+// EXPIRING CREDENTIALS
+// Skill credentials and agency documents that lapse before a scenario
+// ends, or are still unverified or rejected, with the assignments they
+// put at risk
+// ═══════════════════════════════════════════════════════════════════
+
+type CredentialState = "expired" | "expiring" | "pending" | "rejected";
+
+interface AtRiskAssignment {
+  assignmentId: Id<"scenario_assignments">;
+  date: string;
+  shiftType: string;
+  jobCode: string;
+}
+
+/**
+ * Where a credential stands over a scenario window, or null if it's
+ * verified and good past the end
+ */
+function credentialState(
+  verificationStatus: string,
+  expiresDate: string | undefined,
+  startDate: string,
+  endDate: string
+): CredentialState | null {
+  if (verificationStatus === "rejected") return "rejected";
+  if (expiresDate && expiresDate < startDate) return "expired";
+  if (verificationStatus === "pending") return "pending";
+  return expiresDate && expiresDate <= endDate ? "expiring" : null;
+}
+
+/**
+ * Credentials needing attention for a scenario: required skills held by
+ * the health system's providers and agency workers' documents that are
+ * rejected, unverified, or expire on or before the scenario's end date
+ */
+export const getExpiringForScenario = query({
+  args: { scenarioId: v.id("strike_scenarios") },
+  handler: async (ctx, args) => {
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario) return null;
+    await requireHealthSystemAccess(ctx, scenario.healthSystemId);
+
+    const positions = (
+      await ctx.db
+        .query("scenario_positions")
+        .withIndex("by_scenario", (q) => q.eq("scenarioId", args.scenarioId))
+        .collect()
+    ).filter(isCoveragePosition);
+    const assignments = await ctx.db
+      .query("scenario_assignments")
+      .withIndex("by_scenario", (q) => q.eq("scenarioId", args.scenarioId))
+      .filter((q) => q.neq(q.field("status"), "Cancelled"))
+      .collect();
+
+    // Required skills per position, and how many open positions need each
+    const skillsByServiceJobType = new Map<string, Id<"skills">[]>();
+    const requiredSkillsOf = new Map<string, Set<string>>();
+    const openPositionsNeeding = new Map<string, number>();
+    for (const position of positions) {
+      const key = position.serviceJobTypeId.toString();
+      if (!skillsByServiceJobType.has(key)) {
+        skillsByServiceJobType.set(key, await getRequiredSkillIds(ctx, position.serviceJobTypeId));
+      }
+      const skillIds = skillsByServiceJobType.get(key)!;
+      requiredSkillsOf.set(position._id.toString(), new Set(skillIds.map((id) => id.toString())));
+      if (position.status === "Open") {
+        for (const skillId of skillIds) {
+          openPositionsNeeding.set(skillId.toString(), (openPositionsNeeding.get(skillId.toString()) ?? 0) + 1);
+        }
+      }
+    }
+    const requiredSkills = new Set(Array.from(requiredSkillsOf.values()).flatMap((skills) => Array.from(skills)));
+
+    const positionsById = new Map(positions.map((p) => [p._id.toString(), p]));
+    const assignmentsByProvider = new Map<string, AtRiskAssignment[]>();
+    const requiredSkillsByAssignment = new Map<string, Set<string>>();
+    for (const assignment of assignments) {
+      const position = positionsById.get(assignment.scenarioPositionId.toString());
+      if (!position) continue;
+      const providerKey = assignment.providerId.toString();
+      if (!assignmentsByProvider.has(providerKey)) assignmentsByProvider.set(providerKey, []);
+      assignmentsByProvider.get(providerKey)!.push({
+        assignmentId: assignment._id,
+        date: position.date,
+        shiftType: position.shiftType,
+        jobCode: position.jobCode,
+      });
+      requiredSkillsByAssignment.set(assignment._id.toString(), requiredSkillsOf.get(position._id.toString())!);
+    }
+
+    const providers = await ctx.db
+      .query("providers")
+      .withIndex("by_health_system", (q) => q.eq("healthSystemId", scenario.healthSystemId))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+
+    const skillNames = new Map<string, string>();
+    const vendorNames = new Map<string, string>();
+    const credentials = [];
+
+    for (const provider of providers) {
+      const providerKey = provider._id.toString();
+      const providerAssignments = assignmentsByProvider.get(providerKey) ?? [];
+      const providerName = `${provider.firstName} ${provider.lastName}`;
+      let vendorName: string | null = null;
+      if (provider.vendorId) {
+        const vendorKey = provider.vendorId.toString();
+        if (!vendorNames.has(vendorKey)) {
+          vendorNames.set(vendorKey, (await ctx.db.get(provider.vendorId))?.name ?? "Agency");
+        }
+        vendorName = vendorNames.get(vendorKey)!;
+      }
+
+      const links = await ctx.db
+        .query("provider_skills")
+        .withIndex("by_provider", (q) => q.eq("providerId", provider._id))
+        .collect();
+      for (const link of links) {
+        const skillKey = link.skillId.toString();
+        if (!requiredSkills.has(skillKey)) continue;
+        const state = credentialState(
+          link.verificationStatus ?? "verified",
+          link.expiresDate,
+          scenario.startDate,
+          scenario.endDate
+        );
+        if (!state) continue;
+
+        if (!skillNames.has(skillKey)) {
+          skillNames.set(skillKey, (await ctx.db.get(link.skillId))?.name ?? "Credential");
+        }
+        // Assignments needing this skill that it no longer covers
+        const atRisk = providerAssignments.filter(
+          (a) =>
+            requiredSkillsByAssignment.get(a.assignmentId.toString())?.has(skillKey) &&
+            (state === "rejected" || (!!link.expiresDate && link.expiresDate < a.date))
+        );
+
+        credentials.push({
+          providerId: provider._id,
+          providerName,
+          vendorName,
+          source: "skill" as const,
+          name: skillNames.get(skillKey)!,
+          issuingState: link.issuingState ?? null,
+          expiresDate: link.expiresDate ?? null,
+          state,
+          openPositionsNeeding: openPositionsNeeding.get(skillKey) ?? 0,
+          atRiskAssignments: atRisk,
+        });
+      }
+
+      if (!provider.vendorId) continue;
+      const documents = await ctx.db
+        .query("agency_credential_documents")
+        .withIndex("by_provider", (q) => q.eq("providerId", provider._id))
+        .collect();
+      for (const document of documents) {
+        const state = credentialState(
+          document.verificationStatus,
+          document.expiresDate,
+          scenario.startDate,
+          scenario.endDate
+        );
+        if (!state) continue;
+
+        // Verified documents gate every shift after they lapse (credentialsValidUntil)
+        const atRisk =
+          document.verificationStatus === "verified" && document.expiresDate
+            ? providerAssignments.filter((a) => document.expiresDate! < a.date)
+            : [];
+
+        credentials.push({
+          providerId: provider._id,
+          providerName,
+          vendorName,
+          source: "document" as const,
+          name: document.documentType,
+          issuingState: document.issuingState ?? null,
+          expiresDate: document.expiresDate ?? null,
+          state,
+          openPositionsNeeding: 0,
+          atRiskAssignments: atRisk,
+        });
+      }
+    }
+
+    // Most urgent first: assignments at risk, then soonest expiry
+    credentials.sort(
+      (a, b) =>
+        b.atRiskAssignments.length - a.atRiskAssignments.length ||
+        (a.expiresDate ?? "9999").localeCompare(b.expiresDate ?? "9999") ||
+        a.providerName.localeCompare(b.providerName)
+    );
+
+    return {
+      scenario: {
+        _id: scenario._id,
+        name: scenario.name,
+        startDate: scenario.startDate,
+        endDate: scenario.endDate,
+      },
+      credentials,
+      summary: {
+        expired: credentials.filter((c) => c.state === "expired").length,
+        expiring: credentials.filter((c) => c.state === "expiring").length,
+        pending: credentials.filter((c) => c.state === "pending").length,
+        rejected: credentials.filter((c) => c.state === "rejected").length,
+        atRiskAssignments: credentials.reduce((sum, c) => sum + c.atRiskAssignments.length, 0),
+      },
+    };
+  },
+});
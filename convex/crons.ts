@@ -10,4 +10,18 @@ crons.daily(
   internal.censusCleanup.cleanupExpiredData
 );
 
+// Shift reminders (48h / 12h) and T-12h confirmation risk checks
+crons.interval(
+  "shift reminders",
+  { minutes: 15 },
+  internal.shiftReminders.processDueReminders
+);
+
+// Resume census AI prediction jobs whose chunk action died
+crons.interval(
+  "census AI job watchdog",
+  { minutes: 5 },
+  internal.censusAIJobs.resumeStalledJobs
+);
+
 export default crons;
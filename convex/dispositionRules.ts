@@ -0,0 +1,142 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { requireHealthSystemAccess, auditLog } from "./lib/auth";
+import {
+  DEFAULT_RULE_SET,
+  dispositionRuleSetValidator,
+  normalizeRuleSet,
+  validateRuleSet,
+  predictDisposition,
+} from "./lib/procedureDisposition";
+import { loadDispositionRules } from "./lib/dispositionRules";
+
+// ═══════════════════════════════════════════════════════════════════
+// QUERIES
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Disposition rules in effect for a health system, with the built-in
+ * defaults for comparison
+ */
+export const getActive = query({
+  args: { healthSystemId: v.id("health_systems") },
+  handler: async (ctx, args) => {
+    await requireHealthSystemAccess(ctx, args.healthSystemId);
+
+    const active = await loadDispositionRules(ctx, args.healthSystemId);
+    return { ...active, defaults: DEFAULT_RULE_SET };
+  },
+});
+
+/**
+ * Saved rule versions, newest first
+ */
+export const listVersions = query({
+  args: { healthSystemId: v.id("health_systems") },
+  handler: async (ctx, args) => {
+    await requireHealthSystemAccess(ctx, args.healthSystemId);
+
+    const versions = await ctx.db
+      .query("disposition_rule_sets")
+      .withIndex("by_health_system", (q) => q.eq("healthSystemId", args.healthSystemId))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(
+      versions.map(async (version) => {
+        const creator = await ctx.db.get(version.createdBy);
+        return {
+          ...version,
+          createdByName: creator ? `${creator.firstName} ${creator.lastName}` : "Unknown",
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Try draft rules against one procedure before saving them
+ */
+export const preview = query({
+  args: {
+    healthSystemId: v.id("health_systems"),
+    rules: dispositionRuleSetValidator,
+    procedureText: v.string(),
+    serviceLine: v.optional(v.string()), // Classify as an import from this service line
+    age: v.optional(v.number()),
+    ef: v.optional(v.number()),
+    creatinine: v.optional(v.number()),
+    hemoglobin: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireHealthSystemAccess(ctx, args.healthSystemId);
+
+    const rules = normalizeRuleSet(args.rules);
+    try {
+      validateRuleSet(rules);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : "Invalid rules", prediction: null };
+    }
+
+    const prediction = predictDisposition(
+      {
+        procedureText: args.procedureText,
+        patientName: "",
+        age: args.age,
+        ef: args.ef,
+        creatinine: args.creatinine,
+        hemoglobin: args.hemoglobin,
+      },
+      rules,
+      args.serviceLine ? [args.serviceLine] : undefined
+    );
+    return { error: null, prediction };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// MUTATIONS
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Save rules as a new version; it applies to procedures processed from now on
+ * Restoring an older version saves its rules again as the next version
+ */
+export const saveVersion = mutation({
+  args: {
+    healthSystemId: v.id("health_systems"),
+    rules: dispositionRuleSetValidator,
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireHealthSystemAccess(ctx, args.healthSystemId);
+
+    if (user.role !== "super_admin" && user.role !== "health_system_admin") {
+      throw new Error("Unauthorized: Only health system admins can change disposition rules");
+    }
+
+    const rules = normalizeRuleSet(args.rules);
+    validateRuleSet(rules);
+
+    const { version: currentVersion } = await loadDispositionRules(ctx, args.healthSystemId);
+    const version = currentVersion + 1;
+
+    const ruleSetId = await ctx.db.insert("disposition_rule_sets", {
+      healthSystemId: args.healthSystemId,
+      version,
+      rules,
+      notes: args.notes?.trim() || undefined,
+      createdBy: user._id,
+      createdAt: Date.now(),
+    });
+
+    await auditLog(ctx, user, "CREATE", "DISPOSITION_RULES", ruleSetId, {
+      version,
+      notes: args.notes,
+      procedureRules: rules.procedures.length,
+      riskFactors: rules.riskFactors.length,
+    });
+
+    return { ruleSetId, version };
+  },
+});
@@ -0,0 +1,102 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { requireHealthSystemAccess, auditLog } from "./lib/auth";
+import { DEFAULT_TRAINEE_JOB_TYPE_CODES } from "./lib/dutyHours";
+
+// ═══════════════════════════════════════════════════════════════════
+// QUERIES
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Get duty-hour rules for a health system
+ * Returns null when none are configured
+ */
+export const getRules = query({
+  args: { healthSystemId: v.id("health_systems") },
+  handler: async (ctx, args) => {
+    await requireHealthSystemAccess(ctx, args.healthSystemId);
+
+    return await ctx.db
+      .query("duty_hour_rules")
+      .withIndex("by_health_system", (q) => q.eq("healthSystemId", args.healthSystemId))
+      .first();
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// MUTATIONS
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Create or update duty-hour rules for a health system
+ * Omitted limits are cleared (not enforced)
+ */
+export const updateRules = mutation({
+  args: {
+    healthSystemId: v.id("health_systems"),
+    maxConsecutiveShifts: v.optional(v.number()),
+    minRestHours: v.optional(v.number()),
+    maxShiftsPerWeek: v.optional(v.number()),
+    traineeMaxWeeklyHours: v.optional(v.number()),
+    traineeJobTypeCodes: v.optional(v.array(v.string())),
+    enforcement: v.string(), // "block" | "warn"
+  },
+  handler: async (ctx, args) => {
+    const user = await requireHealthSystemAccess(ctx, args.healthSystemId);
+
+    if (user.role !== "super_admin" && user.role !== "health_system_admin") {
+      throw new Error("Unauthorized: Only health system admins can change duty-hour rules");
+    }
+
+    if (args.enforcement !== "block" && args.enforcement !== "warn") {
+      throw new Error("Enforcement must be 'block' or 'warn'");
+    }
+
+    const limits = {
+      maxConsecutiveShifts: args.maxConsecutiveShifts,
+      minRestHours: args.minRestHours,
+      maxShiftsPerWeek: args.maxShiftsPerWeek,
+      traineeMaxWeeklyHours: args.traineeMaxWeeklyHours,
+    };
+    for (const [name, value] of Object.entries(limits)) {
+      if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+        throw new Error(`${name} must be a non-negative number`);
+      }
+    }
+
+    const fields = {
+      ...limits,
+      traineeJobTypeCodes: (args.traineeJobTypeCodes ?? DEFAULT_TRAINEE_JOB_TYPE_CODES).map(
+        (code) => code.trim().toUpperCase()
+      ),
+      enforcement: args.enforcement,
+      updatedBy: user._id,
+      updatedAt: Date.now(),
+    };
+
+    const existing = await ctx.db
+      .query("duty_hour_rules")
+      .withIndex("by_health_system", (q) => q.eq("healthSystemId", args.healthSystemId))
+      .first();
+
+    let rulesId;
+    if (existing) {
+      // replace so cleared limits are removed
+      await ctx.db.replace(existing._id, { healthSystemId: args.healthSystemId, ...fields });
+      rulesId = existing._id;
+    } else {
+      rulesId = await ctx.db.insert("duty_hour_rules", {
+        healthSystemId: args.healthSystemId,
+        ...fields,
+      });
+    }
+
+    await auditLog(ctx, user, existing ? "UPDATE" : "CREATE", "DUTY_HOUR_RULES", rulesId, {
+      ...limits,
+      traineeJobTypeCodes: fields.traineeJobTypeCodes,
+      enforcement: args.enforcement,
+    });
+
+    return { rulesId };
+  },
+});
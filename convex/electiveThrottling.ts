@@ -0,0 +1,95 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { requireHealthSystemAccess } from "./lib/auth";
+import { loadThrottlingInputs, planDeferrals } from "./lib/electiveThrottling";
+
+/**
+ * Elective throttling planner
+ * Recommends which scheduled cath/EP procedures to postpone so downstream
+ * units stay within bed and staffed capacity during a scenario
+ * (lib/electiveThrottling.ts).
+ */
+
+export const plan = query({
+  args: {
+    scenarioId: v.id("strike_scenarios"),
+    overrides: v.optional(
+      v.array(
+        v.object({
+          unitKey: v.string(),
+          beds: v.optional(v.number()),
+          staffedRn: v.optional(v.number()),
+        })
+      )
+    ),
+  },
+  handler: async (ctx, args) => {
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario) throw new Error("Scenario not found");
+
+    await requireHealthSystemAccess(ctx, scenario.healthSystemId);
+
+    for (const override of args.overrides ?? []) {
+      if ((override.beds ?? 0) < 0 || (override.staffedRn ?? 0) < 0) {
+        throw new Error("Capacity overrides cannot be negative");
+      }
+    }
+
+    const { dates, units, cases } = await loadThrottlingInputs(ctx, scenario, args.overrides ?? []);
+    const result = planDeferrals(units, cases);
+
+    const deferrals = result.deferred.map(({ caseIndex, overflowRelieved, unitsRelieved }, index) => {
+      const { procedure, hospitalName, loads } = cases[caseIndex];
+      return {
+        order: index + 1,
+        procedureId: procedure._id,
+        hospitalName,
+        visitDate: procedure.visitDate,
+        mrn: procedure.mrn,
+        patientName: procedure.patientName,
+        initials: procedure.initials,
+        procedureText: procedure.procedureText,
+        procedureCategory: procedure.procedureCategory,
+        provider: procedure.provider ?? null,
+        icuUnit: procedure.icuDays > 0 ? procedure.icuUnit || "CCU" : null,
+        icuDays: procedure.icuDays,
+        floorUnit: procedure.floorDays > 0 ? procedure.floorUnit || "N07E" : null,
+        floorDays: procedure.floorDays,
+        // Bed-day impact of deferring this case
+        bedDays: procedure.icuDays + procedure.floorDays,
+        bedDaysInScenario: loads.length,
+        overflowRelieved,
+        unitsRelieved,
+      };
+    });
+
+    const deferredIds = new Set(deferrals.map((d) => d.procedureId));
+    const proceeding = cases.filter((c) => !deferredIds.has(c.procedure._id));
+
+    return {
+      scenarioName: scenario.name,
+      dates,
+      units: units.map((unit, u) => ({
+        unitKey: unit.unitKey,
+        hospitalName: unit.hospitalName,
+        unitName: unit.unitName,
+        unitType: unit.unitType,
+        days: unit.days.map((day, d) => ({
+          ...day,
+          projected: result.occupancyBefore[u][d],
+          afterDeferrals: result.occupancyAfter[u][d],
+        })),
+      })),
+      deferrals,
+      summary: {
+        scheduled: cases.length,
+        sameDayDischarge: cases.filter((c) => !c.procedure.willAdmit).length,
+        proceedingAdmits: proceeding.filter((c) => c.procedure.willAdmit).length,
+        deferred: deferrals.length,
+        bedDaysFreed: deferrals.reduce((sum, d) => sum + d.bedDaysInScenario, 0),
+        overflowBedDaysBefore: result.overflowBefore,
+        overflowBedDaysAfter: result.overflowAfter,
+      },
+    };
+  },
+});
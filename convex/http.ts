@@ -1,9 +1,32 @@
 import { httpRouter } from "convex/server";
 import { httpAction } from "./_generated/server";
 import { internal } from "./_generated/api";
+import { twilioWebhookUrl, verifyTwilioSignature } from "./lib/twilio";
 
 const http = httpRouter();
 
+/**
+ * Parse a Twilio webhook and check its X-Twilio-Signature
+ * Returns null when the request didn't come from Twilio (or no auth token is set)
+ */
+async function readSignedTwilioForm(request: Request): Promise<URLSearchParams | null> {
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const params = new URLSearchParams(await request.text());
+
+  if (!authToken) {
+    console.error("TWILIO_AUTH_TOKEN not set - cannot verify Twilio webhooks");
+    return null;
+  }
+
+  const valid = await verifyTwilioSignature(
+    authToken,
+    twilioWebhookUrl(request),
+    params,
+    request.headers.get("X-Twilio-Signature")
+  );
+  return valid ? params : null;
+}
+
 /**
  * Twilio SMS Webhook
  * Receives inbound SMS messages from Twilio when providers reply
@@ -12,6 +35,9 @@ const http = httpRouter();
  * Phone Numbers → Your Number → Messaging → "A message comes in"
  * URL: https://amiable-frog-863.convex.site/twilio/sms
  * Method: POST
+ *
+ * Requests must carry a valid X-Twilio-Signature. Retries of a MessageSid
+ * that was already processed get the original reply back
  */
 http.route({
   path: "/twilio/sms",
@@ -19,7 +45,10 @@ http.route({
   handler: httpAction(async (ctx, request) => {
     try {
       // Parse the form data from Twilio
-      const formData = await request.formData();
+      const formData = await readSignedTwilioForm(request);
+      if (!formData) {
+        return new Response("Invalid Twilio signature", { status: 403 });
+      }
 
       const fromPhone = formData.get("From") as string;
       const toPhone = formData.get("To") as string;
@@ -41,6 +70,10 @@ http.route({
         twilioSid: messageSid,
       });
 
+      if (result.duplicate) {
+        console.log(`Duplicate webhook for ${messageSid} - replaying reply`);
+      }
+
       // Return TwiML response with auto-reply
       const twiml = `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
@@ -72,6 +105,37 @@ http.route({
   }),
 });
 
+/**
+ * Twilio delivery status callback
+ * Outbound messages ask Twilio to report back here (StatusCallback),
+ * moving sms_logs from "sent" to "delivered" or "failed"
+ */
+http.route({
+  path: "/twilio/status",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const formData = await readSignedTwilioForm(request);
+    if (!formData) {
+      return new Response("Invalid Twilio signature", { status: 403 });
+    }
+
+    const messageSid = formData.get("MessageSid");
+    const messageStatus = formData.get("MessageStatus");
+
+    if (!messageSid || !messageStatus) {
+      return new Response("Missing required fields", { status: 400 });
+    }
+
+    await ctx.runMutation(internal.sms.updateDeliveryStatus, {
+      twilioSid: messageSid,
+      messageStatus,
+      errorCode: formData.get("ErrorCode") || undefined,
+    });
+
+    return new Response(null, { status: 204 });
+  }),
+});
+
 /**
  * Health check endpoint
  */
@@ -0,0 +1,103 @@
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { toShiftInterval } from "./dutyHours";
+
+/**
+ * Agency Workers
+ * External contractors are providers with a vendorId. They take part in
+ * matching once onboarding clears them and while their verified credential
+ * documents are current, ranked against internal staff by their vendor's
+ * match priority.
+ */
+
+export const ONBOARDING_STATUSES = ["pending", "in_progress", "cleared", "offboarded"] as const;
+
+export const CREDENTIAL_DOCUMENT_TYPES = [
+  "State License",
+  "BLS",
+  "ACLS",
+  "PALS",
+  "TB Test",
+  "Background Check",
+  "Drug Screen",
+  "Immunizations",
+  "Other",
+] as const;
+
+/**
+ * Score offset for agency workers relative to internal staff
+ * e.g. "after_internal" drops them below an otherwise equal employee
+ */
+export const MATCH_PRIORITY_OFFSETS: Record<string, number> = {
+  before_internal: 15,
+  equal: 0,
+  after_internal: -25,
+};
+export const DEFAULT_MATCH_PRIORITY = "after_internal";
+
+export function isAgencyWorker(provider: Pick<Doc<"providers">, "vendorId">): boolean {
+  return !!provider.vendorId;
+}
+
+/**
+ * Why an agency worker can't work a shift on a date, or null if they can.
+ * Internal staff always pass.
+ */
+export function agencyIneligibility(
+  provider: Pick<Doc<"providers">, "vendorId" | "onboardingStatus" | "credentialsValidUntil">,
+  date: string
+): string | null {
+  if (!provider.vendorId) return null;
+  if (provider.onboardingStatus !== "cleared") {
+    return "Agency worker hasn't cleared onboarding";
+  }
+  if (provider.credentialsValidUntil && provider.credentialsValidUntil < date) {
+    return `Agency credentials expire ${provider.credentialsValidUntil}`;
+  }
+  return null;
+}
+
+/**
+ * Score offsets per provider from their vendor's match priority, with
+ * vendors looked up once
+ */
+export function createAgencyPriority(ctx: QueryCtx) {
+  const vendors = new Map<string, Doc<"agency_vendors"> | null>();
+
+  return async (provider: Pick<Doc<"providers">, "vendorId">): Promise<number> => {
+    if (!provider.vendorId) return 0;
+    const key = provider.vendorId.toString();
+    if (!vendors.has(key)) vendors.set(key, await ctx.db.get(provider.vendorId));
+    const priority = vendors.get(key)?.matchPriority ?? DEFAULT_MATCH_PRIORITY;
+    return MATCH_PRIORITY_OFFSETS[priority] ?? 0;
+  };
+}
+
+/**
+ * Recompute a worker's credentialsValidUntil from their verified documents
+ */
+export async function refreshCredentialsValidUntil(ctx: MutationCtx, providerId: Id<"providers">) {
+  const documents = await ctx.db
+    .query("agency_credential_documents")
+    .withIndex("by_provider", (q) => q.eq("providerId", providerId))
+    .collect();
+
+  const expiries = documents
+    .filter((d) => d.verificationStatus === "verified" && d.expiresDate)
+    .map((d) => d.expiresDate!)
+    .sort();
+
+  await ctx.db.patch(providerId, { credentialsValidUntil: expiries[0], updatedAt: Date.now() });
+  return expiries[0] ?? null;
+}
+
+/**
+ * Billable hours for a shift: its length, or the vendor's minimum if longer
+ */
+export function billableHours(
+  position: Pick<Doc<"scenario_positions">, "_id" | "date" | "shiftType" | "shiftStart" | "shiftEnd">,
+  vendor: Pick<Doc<"agency_vendors">, "minimumShiftHours">
+): number {
+  const { start, end } = toShiftInterval(position);
+  return Math.max((end - start) / (60 * 60 * 1000), vendor.minimumShiftHours ?? 0);
+}
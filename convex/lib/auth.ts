@@ -174,7 +174,13 @@ export type AuditAction =
   | "COMPLETE"
   | "CANCEL"
   | "REGENERATE"
-  | "CLEAR";
+  | "CLEAR"
+  | "RELEASE"
+  | "REQUEST"
+  | "APPROVE"
+  | "DENY"
+  | "ACCEPT"
+  | "TRANSFER";
 
 export type ResourceType =
   | "HEALTH_SYSTEM"
@@ -195,7 +201,18 @@ export type ResourceType =
   | "PROVIDER_AVAILABILITY"
   | "LABOR_POOL"
   | "CLAIM_TOKEN"
-  | "PROCEDURE_IMPORT";
+  | "PROCEDURE_IMPORT"
+  | "AUTO_FILL_RUN"
+  | "DUTY_HOUR_RULES"
+  | "SMS_CAMPAIGN"
+  | "SHIFT_CHANGE_REQUEST"
+  | "SCENARIO_STANDBY"
+  | "DISPOSITION_RULES"
+  | "PROCEDURE_SOURCE"
+  | "UNIT_MAPPING"
+  | "WHAT_IF_SCENARIO"
+  | "AGENCY_VENDOR"
+  | "AGENCY_DOCUMENT";
 
 export async function auditLog(
   ctx: MutationCtx,
@@ -0,0 +1,72 @@
+import { MutationCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+
+/**
+ * Availability writes shared by admin entry (providerAvailability.ts)
+ * and provider self-service (portal.ts)
+ */
+
+export const AVAILABILITY_TYPES = ["available", "unavailable"];
+
+export interface AvailabilityFields {
+  availabilityType: string;
+  amAvailable: boolean;
+  pmAvailable: boolean;
+  amPreferred?: boolean;
+  pmPreferred?: boolean;
+  notes?: string;
+  scenarioId?: Id<"strike_scenarios">;
+}
+
+/**
+ * Reject malformed availability before it is written
+ */
+export function validateAvailability(date: string, fields: AvailabilityFields) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+    throw new Error(`Invalid date: ${date}`);
+  }
+  if (!AVAILABILITY_TYPES.includes(fields.availabilityType)) {
+    throw new Error(`Availability type must be one of: ${AVAILABILITY_TYPES.join(", ")}`);
+  }
+  if ((fields.amPreferred && !fields.amAvailable) || (fields.pmPreferred && !fields.pmAvailable)) {
+    throw new Error("A preferred shift must also be marked available");
+  }
+}
+
+/**
+ * Create or update a provider's availability for one date
+ */
+export async function upsertAvailability(
+  ctx: MutationCtx,
+  providerId: Id<"providers">,
+  date: string,
+  fields: AvailabilityFields,
+  entry: { enteredBy: Id<"users">; source: "admin" | "provider" | "bulk_import" }
+): Promise<{ created: boolean; availabilityId: Id<"provider_availability"> }> {
+  validateAvailability(date, fields);
+
+  const existing = await ctx.db
+    .query("provider_availability")
+    .withIndex("by_provider_date", (q) => q.eq("providerId", providerId).eq("date", date))
+    .first();
+
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      ...fields,
+      enteredBy: entry.enteredBy,
+      enteredAt: Date.now(),
+      source: entry.source,
+    });
+    return { created: false, availabilityId: existing._id };
+  }
+
+  const availabilityId = await ctx.db.insert("provider_availability", {
+    providerId,
+    date,
+    ...fields,
+    enteredBy: entry.enteredBy,
+    enteredAt: Date.now(),
+    source: entry.source,
+  });
+  return { created: true, availabilityId };
+}
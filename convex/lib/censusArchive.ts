@@ -0,0 +1,152 @@
+import { MutationCtx } from "../_generated/server";
+import { Doc } from "../_generated/dataModel";
+import { loadUnitResolver } from "./unitMapping";
+import { projectUnitCensus } from "./censusForecast";
+
+/**
+ * Historical census archive
+ * census_patients and census_patient_history expire after 3 days, so each
+ * import is reduced to de-identified per-unit counts (census_daily_archive)
+ * while its patients are still the current census: when the next import
+ * for the hospital starts, and again by the daily cleanup cron. Re-archiving
+ * a census date replaces its rows. Each row keeps the forecast made that
+ * day (census.getCensusForecast logic, anchored on the census date) so it
+ * can be scored against the actual census archived on later days.
+ */
+
+// Forecast days stored per archive row (day 0 is the actual census)
+export const ARCHIVE_FORECAST_DAYS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(date: string, days: number) {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().split("T")[0];
+}
+
+interface UnitAggregate {
+  unitType: string;
+  patients: Doc<"census_patients">[];
+  admits: number;
+  transfersIn: number;
+  discharges: number;
+  downgrades: number;
+}
+
+/**
+ * Snapshot one import into census_daily_archive. Must run while the
+ * import's patients still point at it (before the next import upserts them).
+ * Returns the number of unit rows written.
+ */
+export async function archiveImport(ctx: MutationCtx, importRecord: Doc<"census_imports">) {
+  if (importRecord.status === "failed") return 0;
+
+  const patients = await ctx.db
+    .query("census_patients")
+    .withIndex("by_import", (q) => q.eq("importId", importRecord._id))
+    .filter((q) => q.eq(q.field("isActive"), true))
+    .collect();
+
+  // Movements recorded by this import (admissions, transfers, discharges)
+  const history = await ctx.db
+    .query("census_patient_history")
+    .withIndex("by_hospital", (q) => q.eq("hospitalId", importRecord.hospitalId))
+    .filter((q) => q.gte(q.field("createdAt"), importRecord.importedAt))
+    .collect();
+
+  if (patients.length === 0 && history.length === 0) return 0;
+
+  const resolveUnit = await loadUnitResolver(ctx, importRecord.hospitalId);
+  const unitTypeOf = (unitName: string) => resolveUnit(unitName).unitType;
+  const units = new Map<string, UnitAggregate>();
+  const unitFor = (unitName: string, unitType: string) => {
+    if (!units.has(unitName)) {
+      units.set(unitName, { unitType, patients: [], admits: 0, transfersIn: 0, discharges: 0, downgrades: 0 });
+    }
+    return units.get(unitName)!;
+  };
+
+  for (const patient of patients) {
+    unitFor(patient.currentUnitName, patient.unitType).patients.push(patient);
+  }
+
+  for (const entry of history) {
+    if (entry.toUnitName === "DISCHARGED") {
+      if (entry.fromUnitName) unitFor(entry.fromUnitName, unitTypeOf(entry.fromUnitName)).discharges++;
+      continue;
+    }
+
+    const toUnit = unitFor(entry.toUnitName, unitTypeOf(entry.toUnitName));
+    if (!entry.fromUnitName) {
+      toUnit.admits++;
+      continue;
+    }
+
+    toUnit.transfersIn++;
+    const fromType = unitTypeOf(entry.fromUnitName);
+    if (fromType === "icu" && toUnit.unitType !== "icu") {
+      unitFor(entry.fromUnitName, fromType).downgrades++;
+    }
+  }
+
+  // Replace anything already archived for this census date
+  const existing = await ctx.db
+    .query("census_daily_archive")
+    .withIndex("by_hospital_date", (q) =>
+      q.eq("hospitalId", importRecord.hospitalId).eq("date", importRecord.uploadDate)
+    )
+    .collect();
+  for (const row of existing) {
+    await ctx.db.delete(row._id);
+  }
+
+  const dates = Array.from({ length: ARCHIVE_FORECAST_DAYS + 1 }, (_, day) =>
+    addDays(importRecord.uploadDate, day)
+  );
+  const now = Date.now();
+
+  for (const [unitName, unit] of units) {
+    const forecast = projectUnitCensus(unit.patients, unit.unitType, dates)
+      .filter((day) => day.day > 0)
+      .map((day) => ({ horizonDay: day.day, date: day.date, projectedCensus: day.projectedCensus }));
+
+    await ctx.db.insert("census_daily_archive", {
+      hospitalId: importRecord.hospitalId,
+      importId: importRecord._id,
+      date: importRecord.uploadDate,
+      unitName,
+      unitType: unit.unitType,
+      census: unit.patients.length,
+      admits: unit.admits,
+      transfersIn: unit.transfersIn,
+      discharges: unit.discharges,
+      downgrades: unit.downgrades,
+      oneToOne: unit.patients.filter((p) => p.requiresOneToOne).length,
+      forecast,
+      archivedAt: now,
+    });
+  }
+
+  await ctx.db.patch(importRecord._id, { archivedAt: now });
+  return units.size;
+}
+
+/**
+ * Archive every hospital's latest import (daily cron, before cleanup)
+ */
+export async function archiveLatestImports(ctx: MutationCtx) {
+  const hospitals = await ctx.db.query("hospitals").collect();
+  let rowsArchived = 0;
+
+  for (const hospital of hospitals) {
+    const latestImport = await ctx.db
+      .query("census_imports")
+      .withIndex("by_hospital", (q) => q.eq("hospitalId", hospital._id))
+      .order("desc")
+      .first();
+    if (latestImport) {
+      rowsArchived += await archiveImport(ctx, latestImport);
+    }
+  }
+
+  return rowsArchived;
+}
@@ -0,0 +1,327 @@
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { loadUnitResolver } from "./unitMapping";
+import { loadRatioResolver, rnNeeded } from "./staffingRatios";
+
+/**
+ * Combined census + procedure forecast
+ * Projects each unit's census forward from the latest census import,
+ * subtracting predicted discharges/downgrades and adding scheduled
+ * procedure admissions, with RN need from the unit's ratio table.
+ * Procedure destination units resolve to census units through
+ * census_unit_mappings.
+ * Shared by census.getCombinedForecast and census-derived scenario
+ * positions (lib/censusPositions.ts).
+ */
+
+/**
+ * Parse a date string in various formats and return ISO format (YYYY-MM-DD)
+ * Handles: "1/13/2026", "01/13/2026", "2026-01-13"
+ */
+export function parseToISODate(dateStr: string): string {
+  if (!dateStr) return "";
+
+  // Already ISO format
+  if (/^\d{4}-\d{2}-\d{2}/.test(dateStr)) {
+    return dateStr.split("T")[0];
+  }
+
+  // M/D/YYYY or MM/DD/YYYY format
+  const parts = dateStr.split("/");
+  if (parts.length === 3) {
+    const [month, day, year] = parts;
+    return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  }
+
+  return dateStr;
+}
+
+/**
+ * Census-only projection for one unit: starts from the unit's current
+ * patients and subtracts predicted discharges (projectedDischargeDays)
+ * and, for ICUs, predicted downgrades on each date. dates[0] is the
+ * census day. Used by census.getCensusForecast and the daily archive.
+ */
+export function projectUnitCensus(
+  patients: Doc<"census_patients">[],
+  unitType: string,
+  dates: string[]
+) {
+  let runningCensus = patients.length;
+
+  return dates.map((date, day) => {
+    // Count discharges on this day (patients with projectedDischargeDays == day)
+    const dischargesOnDay = patients.filter((p) => p.projectedDischargeDays === day).length;
+
+    // Count ICU downgrades (step-downs to floor) - only for ICU units
+    const downgradesOnDay =
+      unitType === "icu" ? patients.filter((p) => p.predictedDowngradeDate === date).length : 0;
+
+    // Stub for future: predicted admits from scheduled procedures
+    const predictedAdmits = 0;
+
+    // Calculate net change and running census
+    if (day > 0) {
+      const netChange = predictedAdmits - dischargesOnDay - downgradesOnDay;
+      runningCensus = Math.max(0, runningCensus + netChange);
+    }
+
+    return {
+      day,
+      date,
+      projectedCensus: day === 0 ? patients.length : runningCensus,
+      predictedDischarges: dischargesOnDay,
+      predictedDowngrades: downgradesOnDay,
+      predictedAdmits,
+      netChange: day === 0 ? 0 : predictedAdmits - dischargesOnDay - downgradesOnDay,
+    };
+  });
+}
+
+/**
+ * Forecast for numDays days starting today
+ */
+export async function buildCombinedForecast(ctx: QueryCtx, hospitalId: Id<"hospitals">, numDays: number) {
+  // Get the latest census import
+  const latestImport = await ctx.db
+    .query("census_imports")
+    .withIndex("by_hospital", (q) => q.eq("hospitalId", hospitalId))
+    .order("desc")
+    .first();
+
+  // Generate date range for forecast
+  const today = new Date();
+  const dates: string[] = [];
+  for (let i = 0; i < numDays; i++) {
+    const d = new Date(today);
+    d.setDate(d.getDate() + i);
+    dates.push(d.toISOString().split("T")[0]);
+  }
+
+  // Get census patients from latest import
+  const censusPatients = latestImport
+    ? await ctx.db
+        .query("census_patients")
+        .withIndex("by_import", (q) => q.eq("importId", latestImport._id))
+        .filter((q) => q.eq(q.field("isActive"), true))
+        .collect()
+    : [];
+
+  // Get procedure patients for date range
+  const procedurePatients = await ctx.db
+    .query("procedure_patients")
+    .withIndex("by_hospital", (q) => q.eq("hospitalId", hospitalId))
+    .filter((q) => q.eq(q.field("isActive"), true))
+    .collect();
+
+  // Filter procedures to date range and those who will admit
+  // Note: visitDate in CSV can be "1/13/2026" format, convert to ISO
+  const relevantProcedures = procedurePatients.filter(
+    (p) => p.willAdmit && dates.includes(parseToISODate(p.visitDate))
+  );
+
+  // Build unit map from census patients
+  const unitMap = new Map<
+    string,
+    {
+      unitName: string;
+      unitType: "icu" | "floor";
+      censusPatients: typeof censusPatients;
+      days: Array<{
+        projectedCensus: number;
+        discharges: number;
+        downgrades: number;
+        procedureAdmits: number;
+      }>;
+    }
+  >();
+
+  // Initialize units from census patients, grouped by mapped unit
+  const resolveUnit = await loadUnitResolver(ctx, hospitalId);
+  for (const patient of censusPatients) {
+    const { unitName, unitType } = resolveUnit(patient.currentUnitName);
+    if (!unitMap.has(unitName)) {
+      unitMap.set(unitName, {
+        unitName,
+        unitType,
+        censusPatients: [],
+        days: Array.from({ length: numDays }, () => ({
+          projectedCensus: 0,
+          discharges: 0,
+          downgrades: 0,
+          procedureAdmits: 0,
+        })),
+      });
+    }
+    unitMap.get(unitName)!.censusPatients.push(patient);
+  }
+
+  // Calculate census discharges and downgrades by day
+  for (const [unitName, unit] of unitMap) {
+    for (let day = 0; day < numDays; day++) {
+      // Count discharges on this day
+      unit.days[day].discharges = unit.censusPatients.filter(
+        (p) => p.projectedDischargeDays === day
+      ).length;
+
+      // Count ICU downgrades (only for ICU units)
+      if (unit.unitType === "icu") {
+        unit.days[day].downgrades = unit.censusPatients.filter((p) => {
+          if (!p.predictedDowngradeDate) return false;
+          return p.predictedDowngradeDate === dates[day];
+        }).length;
+      }
+    }
+  }
+
+  // Procedure destinations resolve through the same mappings as census
+  // sheets. Destinations without census patients get their own row
+  const unitNameForDestination = (destination: string, unitType: "icu" | "floor") => {
+    const resolved = resolveUnit(destination);
+    const unitName = resolved.unitName;
+    if (resolved.mapped) unitType = resolved.unitType;
+    if (!unitMap.has(unitName)) {
+      unitMap.set(unitName, {
+        unitName,
+        unitType,
+        censusPatients: [],
+        days: Array.from({ length: numDays }, () => ({
+          projectedCensus: 0,
+          discharges: 0,
+          downgrades: 0,
+          procedureAdmits: 0,
+        })),
+      });
+    }
+    return unitName;
+  };
+  const procedureCountByUnit = new Map<string, number>();
+
+  // Add procedure admissions by day and unit
+  for (const proc of relevantProcedures) {
+    const procDateISO = parseToISODate(proc.visitDate);
+    const admitDayIndex = dates.indexOf(procDateISO);
+    if (admitDayIndex === -1) continue;
+    const procUnits = new Set<string>();
+
+    // ICU stay (if any)
+    if (proc.icuDays > 0) {
+      const icuUnit = unitNameForDestination(proc.icuUnit || "CCU", "icu");
+      const unit = unitMap.get(icuUnit)!;
+      procUnits.add(icuUnit);
+      // Patient is in ICU from admit day for icuDays
+      for (let d = admitDayIndex; d < Math.min(admitDayIndex + proc.icuDays, numDays); d++) {
+        unit.days[d].procedureAdmits++;
+      }
+    }
+
+    // Floor stay (after ICU or direct)
+    if (proc.floorDays > 0) {
+      const floorUnit = unitNameForDestination(proc.floorUnit || "N07E", "floor");
+      const unit = unitMap.get(floorUnit)!;
+      procUnits.add(floorUnit);
+      const floorStartDay = admitDayIndex + (proc.icuDays || 0);
+      for (let d = floorStartDay; d < Math.min(floorStartDay + proc.floorDays, numDays); d++) {
+        if (d >= 0 && d < numDays) {
+          unit.days[d].procedureAdmits++;
+        }
+      }
+    }
+
+    for (const unitName of procUnits) {
+      procedureCountByUnit.set(unitName, (procedureCountByUnit.get(unitName) ?? 0) + 1);
+    }
+  }
+
+  const resolveRatios = await loadRatioResolver(ctx, hospitalId);
+
+  // Calculate projected census for each unit/day
+  const forecast = Array.from(unitMap.values()).map((unit) => {
+    let runningCensus = unit.censusPatients.length;
+
+    // RN need for a day using the ratio table in effect on that date.
+    // 1:1 patients count until their projected discharge/downgrade day
+    const staffingFor = (dayIndex: number, projectedCensus: number) => {
+      const ratios = resolveRatios(unit.unitName, unit.unitType, dates[dayIndex]);
+      const oneToOne = Math.min(
+        projectedCensus,
+        unit.censusPatients.filter(
+          (p) =>
+            p.requiresOneToOne &&
+            (dayIndex === 0 ||
+              ((p.projectedDischargeDays === undefined || p.projectedDischargeDays > dayIndex) &&
+                (!p.predictedDowngradeDate || p.predictedDowngradeDate > dates[dayIndex])))
+        ).length
+      );
+      return {
+        oneToOnePatients: oneToOne,
+        amRnNeeded: rnNeeded(ratios, "AM", projectedCensus - oneToOne, oneToOne).totalRn,
+        pmRnNeeded: rnNeeded(ratios, "PM", projectedCensus - oneToOne, oneToOne).totalRn,
+        ratioEffectiveDate: ratios.effectiveDate,
+      };
+    };
+
+    const days = unit.days.map((dayData, dayIndex) => {
+      if (dayIndex === 0) {
+        // Day 0: current census + procedure admits
+        const projectedCensus = runningCensus + dayData.procedureAdmits;
+        return {
+          day: dayIndex,
+          date: dates[dayIndex],
+          projectedCensus,
+          predictedDischarges: dayData.discharges,
+          predictedDowngrades: dayData.downgrades,
+          procedureAdmits: dayData.procedureAdmits,
+          netChange: 0,
+          ...staffingFor(dayIndex, projectedCensus),
+        };
+      }
+
+      // Subsequent days: previous - discharges - downgrades + procedure admits
+      const prevDay = unit.days[dayIndex - 1];
+      runningCensus = Math.max(
+        0,
+        runningCensus - dayData.discharges - dayData.downgrades
+      );
+
+      const projectedCensus = runningCensus + dayData.procedureAdmits;
+      const netChange =
+        dayData.procedureAdmits - dayData.discharges - dayData.downgrades;
+
+      return {
+        day: dayIndex,
+        date: dates[dayIndex],
+        projectedCensus,
+        predictedDischarges: dayData.discharges,
+        predictedDowngrades: dayData.downgrades,
+        procedureAdmits: dayData.procedureAdmits,
+        netChange,
+        ...staffingFor(dayIndex, projectedCensus),
+      };
+    });
+
+    return {
+      unitName: unit.unitName,
+      unitType: unit.unitType,
+      // Hospital unit the census sheet maps to, for linking services
+      unitId: resolveRatios(unit.unitName, unit.unitType, dates[0]).unitId,
+      currentCensus: unit.censusPatients.length,
+      procedureAdmitsTotal: procedureCountByUnit.get(unit.unitName) ?? 0,
+      days,
+    };
+  });
+
+  // Sort: ICUs first, then by current census
+  forecast.sort((a, b) => {
+    if (a.unitType !== b.unitType) return a.unitType === "icu" ? -1 : 1;
+    return b.currentCensus - a.currentCensus;
+  });
+
+  return {
+    forecast,
+    importId: latestImport?._id ?? null,
+    censusDate: latestImport?.uploadDate || null,
+    importedAt: latestImport?.importedAt || null,
+    procedurePatientsTotal: relevantProcedures.length,
+  };
+}
@@ -0,0 +1,74 @@
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { buildCombinedForecast } from "./censusForecast";
+
+/**
+ * Census-derived scenario positions
+ * In census mode (strike_scenarios.positionSource = "census") the normal
+ * headcount for a service's date/shift comes from the predicted census of
+ * the service's unit instead of the static service_job_types headcounts:
+ * - RN: RN need from the unit's nurse ratio table (lib/staffingRatios.ts)
+ * - Other job types: census / service_job_types.censusPatientsPerProvider
+ * Dates outside the forecast window, services without a unit and job
+ * types without a census ratio keep their static headcount.
+ */
+
+// How far ahead the census forecast is trusted for position planning
+export const CENSUS_HORIZON_DAYS = 14;
+
+const NURSE_JOB_TYPE_CODE = "RN";
+
+export interface CensusHeadcount {
+  projectedCensus: number;
+  headcount: number;
+}
+
+/**
+ * Build a lookup of census-derived headcounts, loading each hospital's
+ * forecast once
+ */
+export async function loadCensusHeadcounts(ctx: QueryCtx) {
+  const forecasts = new Map<string, Awaited<ReturnType<typeof buildCombinedForecast>>>();
+
+  const forecastFor = async (hospitalId: Id<"hospitals">) => {
+    const key = hospitalId.toString();
+    if (!forecasts.has(key)) {
+      forecasts.set(key, await buildCombinedForecast(ctx, hospitalId, CENSUS_HORIZON_DAYS));
+    }
+    return forecasts.get(key)!;
+  };
+
+  const headcountFor = async (
+    service: Doc<"services">,
+    serviceJobType: Doc<"service_job_types">,
+    jobTypeCode: string,
+    date: string,
+    shiftType: "AM" | "PM"
+  ): Promise<CensusHeadcount | null> => {
+    if (!service.unitId) return null;
+
+    const patientsPerProvider = serviceJobType.censusPatientsPerProvider;
+    if (jobTypeCode !== NURSE_JOB_TYPE_CODE && !patientsPerProvider) return null;
+
+    const { forecast } = await forecastFor(service.hospitalId);
+    const unit = forecast.find((u) => u.unitId === service.unitId);
+    const day = unit?.days.find((d) => d.date === date);
+    if (!day) return null;
+
+    const headcount = patientsPerProvider
+      ? Math.ceil(day.projectedCensus / patientsPerProvider)
+      : shiftType === "AM"
+        ? day.amRnNeeded
+        : day.pmRnNeeded;
+
+    return { projectedCensus: day.projectedCensus, headcount };
+  };
+
+  // Census imports the loaded forecasts were built from
+  const importIds = () =>
+    Array.from(forecasts.values())
+      .map((f) => f.importId)
+      .filter((id): id is Id<"census_imports"> => id !== null);
+
+  return { headcountFor, importIds };
+}
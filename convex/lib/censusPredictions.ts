@@ -0,0 +1,72 @@
+import { v, Infer } from "convex/values";
+import { MutationCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+
+/**
+ * Writing census AI predictions onto patients
+ * Shared by census.updatePatientPredictions (direct AI actions) and the
+ * queued prediction jobs (censusAIJobs.ts).
+ */
+
+export const patientPredictionsValidator = v.object({
+  primaryDiagnosis: v.optional(v.string()),
+  clinicalStatus: v.optional(v.string()),
+  dispositionConsiderations: v.optional(v.string()),
+  pendingProcedures: v.optional(v.string()),
+  projectedDischargeDays: v.optional(v.number()),
+  losReasoning: v.optional(v.string()), // AI explanation of LOS prediction
+  // Clinical signal extraction results
+  trajectory: v.optional(v.string()), // "Improving", "Stable", "Critical", etc.
+  projectedDowngradeDays: v.optional(v.number()), // Days until ICU downgrade
+  trend: v.optional(v.string()), // "Progressing", "No Change", "Regressed", "New"
+  // 1:1 Nursing detection
+  requiresOneToOne: v.optional(v.boolean()),
+  oneToOneDevices: v.optional(v.array(v.string())),
+  oneToOneSource: v.optional(v.string()),
+  // Downgrade prediction (ICU only)
+  predictedDowngradeDate: v.optional(v.string()),
+  predictedDowngradeUnit: v.optional(v.string()),
+  // Engine that produced the prediction (lib/llmProvider.ts)
+  predictionEngine: v.optional(v.string()),
+  // commentsHash of the rawGeneralComments the prediction was made from
+  predictionInputHash: v.optional(v.string()),
+});
+
+export type PatientPredictionFields = Infer<typeof patientPredictionsValidator>;
+
+/**
+ * Short stable hash (FNV-1a) of a patient's general comments, so unchanged
+ * patients can be skipped without storing the comments twice
+ */
+export function commentsHash(comments: string | undefined): string {
+  let hash = 0x811c9dc5;
+  for (const char of (comments ?? "").trim()) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, "0");
+}
+
+export async function applyPatientPredictions(
+  ctx: MutationCtx,
+  patientId: Id<"census_patients">,
+  predictions: PatientPredictionFields
+) {
+  const patient = await ctx.db.get(patientId);
+  if (!patient) return false;
+
+  // Determine 1:1 source - if AI found it and keyword already found it, mark as "both"
+  let oneToOneSource = predictions.oneToOneSource;
+  if (predictions.requiresOneToOne && patient.oneToOneSource === "keyword") {
+    oneToOneSource = "both";
+  } else if (predictions.requiresOneToOne) {
+    oneToOneSource = oneToOneSource || "ai";
+  }
+
+  await ctx.db.patch(patientId, {
+    ...predictions,
+    oneToOneSource,
+    updatedAt: Date.now(),
+  });
+  return true;
+}
@@ -0,0 +1,359 @@
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import {
+  getDutyHourRules,
+  loadProviderShifts,
+  toShiftInterval,
+  evaluateShift,
+  isTraineeJobType,
+  formatViolations,
+} from "./dutyHours";
+import { checkHospitalAccess, getRequiredSkillIds, violatesVisaRestriction } from "./scenarioEligibility";
+import { agencyIneligibility } from "./agency";
+import {
+  createHospitalStateLookup,
+  describeBlockedCredentials,
+  getCredentialMatch,
+  loadProviderCredentials,
+} from "./credentials";
+
+/**
+ * Provider self-claiming, shared by email claim links (claimTokens.ts),
+ * numbered SMS replies (sms.ts) and the provider portal (portal.ts)
+ * Runs inside one mutation, so every pick is claimed atomically
+ */
+
+export type ClaimRejection =
+  | "not_found"
+  | "wrong_scenario"
+  | "taken"
+  | "not_eligible"
+  | "conflict"
+  | "credentials"
+  | "duty_hours";
+
+export interface ClaimResult {
+  claimed: Array<{
+    positionId: Id<"scenario_positions">;
+    assignmentId: Id<"scenario_assignments">;
+    position: Doc<"scenario_positions">;
+  }>;
+  rejected: Array<{
+    positionId: Id<"scenario_positions">;
+    position: Doc<"scenario_positions"> | null;
+    code: ClaimRejection;
+    reason: string;
+  }>;
+  dutyHourWarnings: string[];
+}
+
+/**
+ * Claim open positions in a scenario for a provider
+ * Checks: position belongs to the scenario and is Open, provider eligibility
+ * (as listClaimablePositions), required credentials current on the shift
+ * date, no same date/shift conflict (including picks earlier in this
+ * request), duty-hour rules
+ */
+export async function claimPositionsForProvider(
+  ctx: MutationCtx,
+  args: {
+    provider: Doc<"providers">;
+    scenario: Doc<"strike_scenarios">;
+    positionIds: Id<"scenario_positions">[];
+    assignedBy: Id<"users">;
+    notes: string;
+  }
+): Promise<ClaimResult> {
+  const { provider, scenario } = args;
+
+  // Get existing assignments to check for conflicts
+  const existingAssignments = await ctx.db
+    .query("scenario_assignments")
+    .withIndex("by_provider_scenario", (q) =>
+      q.eq("providerId", provider._id).eq("scenarioId", scenario._id)
+    )
+    .filter((q) => q.neq(q.field("status"), "Cancelled"))
+    .collect();
+
+  const assignedShifts = new Set<string>();
+  for (const assignment of existingAssignments) {
+    const pos = await ctx.db.get(assignment.scenarioPositionId);
+    if (pos) {
+      assignedShifts.add(`${pos.date}-${pos.shiftType}`);
+    }
+  }
+
+  // Duty-hour rules: shifts claimed in this request count toward the limits
+  const dutyHourRules = await getDutyHourRules(ctx, scenario.healthSystemId);
+  const providerShifts = dutyHourRules ? await loadProviderShifts(ctx, provider._id) : [];
+  const providerJobType = await ctx.db.get(provider.jobTypeId);
+  const isTrainee = dutyHourRules
+    ? isTraineeJobType(providerJobType?.code ?? "", dutyHourRules)
+    : false;
+
+  const credentials = await loadProviderCredentials(ctx, provider._id);
+  const hospitalStateOf = createHospitalStateLookup(ctx);
+
+  const result: ClaimResult = { claimed: [], rejected: [], dutyHourWarnings: [] };
+
+  for (const positionId of args.positionIds) {
+    const position = await ctx.db.get(positionId);
+
+    if (!position) {
+      result.rejected.push({ positionId, position: null, code: "not_found", reason: "Position not found" });
+      continue;
+    }
+
+    if (position.scenarioId !== scenario._id) {
+      result.rejected.push({
+        positionId,
+        position,
+        code: "wrong_scenario",
+        reason: "Position does not belong to this scenario",
+      });
+      continue;
+    }
+
+    if (position.status !== "Open") {
+      result.rejected.push({
+        positionId,
+        position,
+        code: "taken",
+        reason: `Position for ${position.date} ${position.shiftType} is no longer available`,
+      });
+      continue;
+    }
+
+    // Same eligibility as listClaimablePositions
+    if (
+      position.jobTypeId !== provider.jobTypeId ||
+      agencyIneligibility(provider, position.date) ||
+      violatesVisaRestriction(provider, providerJobType?.code ?? "", position.hospitalId) ||
+      !(await checkHospitalAccess(ctx, provider._id, provider.hospitalId, position.hospitalId))
+    ) {
+      result.rejected.push({
+        positionId,
+        position,
+        code: "not_eligible",
+        reason: `Not eligible for the ${position.shiftType} shift on ${position.date}`,
+      });
+      continue;
+    }
+
+    // Expired or rejected required credentials
+    const { blockedSkills } = getCredentialMatch(
+      await getRequiredSkillIds(ctx, position.serviceJobTypeId),
+      credentials,
+      position.date,
+      await hospitalStateOf(position.hospitalId)
+    );
+    if (blockedSkills.length > 0) {
+      result.rejected.push({
+        positionId,
+        position,
+        code: "credentials",
+        reason: `Can't take the ${position.shiftType} shift on ${position.date}: ${await describeBlockedCredentials(ctx, blockedSkills)}`,
+      });
+      continue;
+    }
+
+    // Check for conflicts
+    const shiftKey = `${position.date}-${position.shiftType}`;
+    if (assignedShifts.has(shiftKey)) {
+      result.rejected.push({
+        positionId,
+        position,
+        code: "conflict",
+        reason: `Already assigned to ${position.shiftType} shift on ${position.date}`,
+      });
+      continue;
+    }
+
+    // Check duty-hour rules
+    const shift = toShiftInterval(position);
+    if (dutyHourRules) {
+      const violations = evaluateShift(providerShifts, shift, dutyHourRules, isTrainee);
+      if (violations.length > 0) {
+        const detail = `${position.shiftType} shift on ${position.date}: ${formatViolations(violations)}`;
+        if (dutyHourRules.enforcement === "block") {
+          result.rejected.push({
+            positionId,
+            position,
+            code: "duty_hours",
+            reason: `Duty-hour limit for ${detail}`,
+          });
+          continue;
+        }
+        result.dutyHourWarnings.push(detail);
+      }
+    }
+
+    // Create assignment (auto-approved - status is "Assigned")
+    const assignmentId = await ctx.db.insert("scenario_assignments", {
+      scenarioPositionId: positionId,
+      providerId: provider._id,
+      scenarioId: scenario._id,
+      status: "Active", // Auto-approved
+      assignedAt: Date.now(),
+      assignedBy: args.assignedBy,
+      notes: args.notes,
+    });
+
+    // Update position status
+    await ctx.db.patch(positionId, { status: "Assigned" });
+
+    // Mark this shift as assigned for conflict checking
+    assignedShifts.add(shiftKey);
+    providerShifts.push(shift);
+
+    result.claimed.push({ positionId, assignmentId, position });
+  }
+
+  return result;
+}
+
+export interface ClaimablePosition {
+  positionId: Id<"scenario_positions">;
+  date: string;
+  shiftType: string;
+  shiftStart: string;
+  shiftEnd: string;
+  serviceId: Id<"services">;
+  serviceName: string;
+  serviceCode: string;
+  hospitalName: string;
+  departmentName: string;
+  skillMatch: "Perfect" | "Good" | "Partial";
+  isHomeHospital: boolean;
+}
+
+/**
+ * Open positions in a scenario a provider can claim themselves
+ * Same job type, accessible hospital, visa rule, agency clearance, required
+ * credentials current on the shift date, no same date/shift conflict
+ */
+export async function listClaimablePositions(
+  ctx: QueryCtx,
+  provider: Doc<"providers">,
+  scenarioId: Id<"strike_scenarios">
+): Promise<{
+  jobType: Doc<"job_types"> | null;
+  availablePositions: ClaimablePosition[];
+  alreadyAssigned: number;
+}> {
+  // Get provider's job type
+  const jobType = await ctx.db.get(provider.jobTypeId);
+
+  // Get provider's skills and credentials
+  const providerSkills = await loadProviderCredentials(ctx, provider._id);
+  const hospitalStateOf = createHospitalStateLookup(ctx);
+
+  // Get provider's hospital access
+  const hospitalAccess = await ctx.db
+    .query("provider_hospital_access")
+    .withIndex("by_provider", (q) => q.eq("providerId", provider._id))
+    .collect();
+  const accessibleHospitalIds = new Set([
+    provider.hospitalId.toString(),
+    ...hospitalAccess.map((ha) => ha.hospitalId.toString()),
+  ]);
+
+  // Get all open positions in this scenario matching provider's job type
+  const positions = await ctx.db
+    .query("scenario_positions")
+    .withIndex("by_scenario", (q) => q.eq("scenarioId", scenarioId))
+    .filter((q) =>
+      q.and(
+        q.eq(q.field("status"), "Open"),
+        q.eq(q.field("isActive"), true),
+        q.eq(q.field("jobTypeId"), provider.jobTypeId)
+      )
+    )
+    .collect();
+
+  // Get existing assignments for this provider in this scenario
+  const existingAssignments = await ctx.db
+    .query("scenario_assignments")
+    .withIndex("by_provider_scenario", (q) =>
+      q.eq("providerId", provider._id).eq("scenarioId", scenarioId)
+    )
+    .filter((q) => q.neq(q.field("status"), "Cancelled"))
+    .collect();
+
+  // Build a set of date+shift combos already assigned
+  const assignedShifts = new Set<string>();
+  for (const assignment of existingAssignments) {
+    const pos = await ctx.db.get(assignment.scenarioPositionId);
+    if (pos) {
+      assignedShifts.add(`${pos.date}-${pos.shiftType}`);
+    }
+  }
+
+  // Filter positions by hospital access and conflicts
+  const availablePositions: ClaimablePosition[] = [];
+
+  for (const position of positions) {
+    // Check hospital access
+    if (!accessibleHospitalIds.has(position.hospitalId.toString())) {
+      continue;
+    }
+
+    // Check visa restriction for fellows
+    if (provider.hasVisa && jobType?.code === "FEL") {
+      if (provider.hospitalId !== position.hospitalId) {
+        continue;
+      }
+    }
+
+    // Agency workers must be cleared with current credentials
+    if (agencyIneligibility(provider, position.date)) {
+      continue;
+    }
+
+    // Check for conflicts
+    if (assignedShifts.has(`${position.date}-${position.shiftType}`)) {
+      continue;
+    }
+
+    // Check skill match - expired or rejected required credentials hide
+    // the position, unverified ones cap the match at "Good"
+    const { matchQuality: skillMatch, blockedSkills } = getCredentialMatch(
+      await getRequiredSkillIds(ctx, position.serviceJobTypeId),
+      providerSkills,
+      position.date,
+      await hospitalStateOf(position.hospitalId)
+    );
+    if (blockedSkills.length > 0) {
+      continue;
+    }
+
+    // Get service and hospital info
+    const service = await ctx.db.get(position.serviceId);
+    const hospital = await ctx.db.get(position.hospitalId);
+    const department = await ctx.db.get(position.departmentId);
+
+    availablePositions.push({
+      positionId: position._id,
+      date: position.date,
+      shiftType: position.shiftType,
+      shiftStart: position.shiftStart,
+      shiftEnd: position.shiftEnd,
+      serviceId: position.serviceId,
+      serviceName: service?.name || "Unknown Service",
+      serviceCode: service?.shortCode || "",
+      hospitalName: hospital?.name || "Unknown Hospital",
+      departmentName: department?.name || "Unknown Department",
+      skillMatch,
+      isHomeHospital: provider.hospitalId === position.hospitalId,
+    });
+  }
+
+  // Sort by date, then by shift type (AM first)
+  availablePositions.sort((a, b) => {
+    const dateCompare = a.date.localeCompare(b.date);
+    if (dateCompare !== 0) return dateCompare;
+    return a.shiftType === "AM" ? -1 : 1;
+  });
+
+  return { jobType, availablePositions, alreadyAssigned: existingAssignments.length };
+}
@@ -0,0 +1,161 @@
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { agencyIneligibility } from "./agency";
+import { getCredentialMatch } from "./credentials";
+import {
+  AvailabilityStatus,
+  canCoverJobType,
+  getShiftAvailability,
+  violatesVisaRestriction,
+} from "./scenarioEligibility";
+
+/**
+ * Coverage Supply
+ * Counts the providers who could work a date/shift slot without running
+ * findMatchesForPosition per position: a health system's provider pool is
+ * loaded once and checked against the same striking, agency, job type
+ * hierarchy, hospital access and visa rules as checkCoverageEligibility.
+ * Same-shift conflicts beyond one slot per date/shift and duty hours are
+ * left to matching.
+ */
+
+export interface SupplyProvider {
+  provider: Doc<"providers">;
+  jobTypeCode: string;
+  hospitalIds: Set<string>; // Home hospital plus explicit access
+  credentials: Doc<"provider_skills">[];
+}
+
+export interface SupplySlot {
+  hospitalId: Id<"hospitals">;
+  jobTypeCode: string; // Job type of the position to cover
+  date: string;
+}
+
+/**
+ * Active providers in a health system with what the supply rules need
+ */
+export async function loadSupplyPool(
+  ctx: QueryCtx,
+  healthSystemId: Id<"health_systems">
+): Promise<SupplyProvider[]> {
+  const providers = await ctx.db
+    .query("providers")
+    .withIndex("by_health_system", (q) => q.eq("healthSystemId", healthSystemId))
+    .filter((q) => q.eq(q.field("isActive"), true))
+    .collect();
+
+  const jobTypeCodes = new Map<string, string>();
+  const pool: SupplyProvider[] = [];
+
+  for (const provider of providers) {
+    const jobTypeKey = provider.jobTypeId.toString();
+    if (!jobTypeCodes.has(jobTypeKey)) {
+      const jobType = await ctx.db.get(provider.jobTypeId);
+      jobTypeCodes.set(jobTypeKey, jobType?.code ?? "");
+    }
+
+    const [access, skills] = await Promise.all([
+      ctx.db
+        .query("provider_hospital_access")
+        .withIndex("by_provider", (q) => q.eq("providerId", provider._id))
+        .collect(),
+      ctx.db
+        .query("provider_skills")
+        .withIndex("by_provider", (q) => q.eq("providerId", provider._id))
+        .collect(),
+    ]);
+
+    pool.push({
+      provider,
+      jobTypeCode: jobTypeCodes.get(jobTypeKey)!,
+      hospitalIds: new Set([provider.hospitalId.toString(), ...access.map((a) => a.hospitalId.toString())]),
+      credentials: skills,
+    });
+  }
+
+  return pool;
+}
+
+/**
+ * Whether a pooled provider may cover a slot: not striking, cleared if
+ * agency, senior enough, has access to the hospital and no visa
+ * restriction keeps them home
+ */
+export function canSupply(entry: SupplyProvider, slot: SupplySlot, strikingJobTypeIds: Set<string>): boolean {
+  if (strikingJobTypeIds.has(entry.provider.jobTypeId.toString())) return false;
+  if (agencyIneligibility(entry.provider, slot.date)) return false;
+  if (!canCoverJobType(entry.jobTypeCode, slot.jobTypeCode)) return false;
+  if (!entry.hospitalIds.has(slot.hospitalId.toString())) return false;
+  return !violatesVisaRestriction(entry.provider, entry.jobTypeCode, slot.hospitalId);
+}
+
+/**
+ * How a pooled provider's credentials fit a slot's required skills:
+ * "blocked" (an expired or rejected one - matching excludes them),
+ * "skilled" (holds every one) or "partial"
+ */
+export function credentialFit(
+  entry: SupplyProvider,
+  requiredSkillIds: Id<"skills">[],
+  date: string,
+  hospitalState?: string
+): "blocked" | "skilled" | "partial" {
+  const { missingSkills, blockedSkills } = getCredentialMatch(requiredSkillIds, entry.credentials, date, hospitalState);
+  if (blockedSkills.length > 0) return "blocked";
+  return missingSkills.length === 0 ? "skilled" : "partial";
+}
+
+/**
+ * Availability records for a set of dates, keyed "providerId|date"
+ */
+export async function loadAvailabilityByDate(ctx: QueryCtx, dates: string[]) {
+  const byKey = new Map<string, Doc<"provider_availability">>();
+  for (const date of dates) {
+    const records = await ctx.db
+      .query("provider_availability")
+      .withIndex("by_date", (q) => q.eq("date", date))
+      .collect();
+    for (const record of records) {
+      const key = `${record.providerId}|${date}`;
+      if (!byKey.has(key)) byKey.set(key, record);
+    }
+  }
+
+  return (providerId: Id<"providers">, date: string, shiftType: string): AvailabilityStatus =>
+    getShiftAvailability(byKey.get(`${providerId}|${date}`), shiftType);
+}
+
+/**
+ * Project how many of each slot's positions the candidates could fill.
+ * Slots with the fewest candidates per position pick first; a provider
+ * works at most one slot per date/shift. Candidates are taken in the
+ * order given, so callers list the likeliest first.
+ */
+export function projectFill(
+  slots: { key: string; date: string; shiftType: string; needed: number; candidateIds: string[] }[]
+): Map<string, number> {
+  const filled = new Map<string, number>();
+  const taken = new Map<string, Set<string>>();
+
+  const ordered = [...slots].sort(
+    (a, b) => a.candidateIds.length / Math.max(a.needed, 1) - b.candidateIds.length / Math.max(b.needed, 1)
+  );
+
+  for (const slot of ordered) {
+    const shiftKey = `${slot.date}|${slot.shiftType}`;
+    if (!taken.has(shiftKey)) taken.set(shiftKey, new Set());
+    const busy = taken.get(shiftKey)!;
+
+    let count = 0;
+    for (const providerId of slot.candidateIds) {
+      if (count >= slot.needed) break;
+      if (busy.has(providerId)) continue;
+      busy.add(providerId);
+      count++;
+    }
+    filled.set(slot.key, count);
+  }
+
+  return filled;
+}
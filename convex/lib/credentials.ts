@@ -0,0 +1,154 @@
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { MatchQuality, getSkillMatch } from "./scenarioEligibility";
+
+/**
+ * Skill Credentials
+ * provider_skills links carry issue/expiry dates, issuing state and
+ * verification status. For a position's required skills:
+ * - expired or rejected credentials exclude the provider
+ * - pending (unverified) credentials count, but cap the match at "Good"
+ * - a credential issued in another state than the hospital's doesn't count
+ * Links without a verificationStatus predate credential tracking and are
+ * treated as verified.
+ */
+
+export const CREDENTIAL_VERIFICATION_STATUSES = ["pending", "verified", "rejected"] as const;
+
+export type CredentialProblem = "pending" | "expired" | "rejected" | "wrong_state";
+
+type CredentialLink = Pick<
+  Doc<"provider_skills">,
+  "skillId" | "expiresDate" | "issuingState" | "verificationStatus"
+>;
+
+/**
+ * What's wrong with a credential for a shift on a date at a hospital in a
+ * state, or null if it's good
+ */
+export function credentialProblem(
+  link: CredentialLink,
+  date: string,
+  hospitalState?: string
+): CredentialProblem | null {
+  if (link.verificationStatus === "rejected") return "rejected";
+  if (link.expiresDate && link.expiresDate < date) return "expired";
+  if (link.issuingState && hospitalState && link.issuingState.toUpperCase() !== hospitalState.toUpperCase()) {
+    return "wrong_state";
+  }
+  if (link.verificationStatus === "pending") return "pending";
+  return null;
+}
+
+export interface CredentialMatch {
+  matchedSkills: Id<"skills">[];
+  missingSkills: Id<"skills">[];
+  matchQuality: MatchQuality;
+  pendingSkills: Id<"skills">[]; // Counted, awaiting verification
+  blockedSkills: { skillId: Id<"skills">; problem: "expired" | "rejected"; expiresDate?: string }[];
+}
+
+/**
+ * getSkillMatch over a provider's credentials as of a shift date.
+ * A non-empty blockedSkills means the provider can't work the shift.
+ */
+export function getCredentialMatch(
+  requiredSkillIds: Id<"skills">[],
+  links: CredentialLink[],
+  date: string,
+  hospitalState?: string
+): CredentialMatch {
+  const linkBySkill = new Map(links.map((l) => [l.skillId.toString(), l]));
+  const usable = new Set<string>();
+  const pendingSkills: Id<"skills">[] = [];
+  const blockedSkills: CredentialMatch["blockedSkills"] = [];
+
+  for (const skillId of requiredSkillIds) {
+    const link = linkBySkill.get(skillId.toString());
+    if (!link) continue;
+    const problem = credentialProblem(link, date, hospitalState);
+    if (problem === "expired" || problem === "rejected") {
+      blockedSkills.push({ skillId, problem, expiresDate: link.expiresDate });
+    } else if (problem === "pending") {
+      pendingSkills.push(skillId);
+      usable.add(skillId.toString());
+    } else if (problem === null) {
+      usable.add(skillId.toString());
+    }
+  }
+
+  const match = getSkillMatch(requiredSkillIds, usable);
+  return {
+    ...match,
+    matchQuality: match.matchQuality === "Perfect" && pendingSkills.length > 0 ? "Good" : match.matchQuality,
+    pendingSkills,
+    blockedSkills,
+  };
+}
+
+/**
+ * Why blocked credentials stop a provider working a shift, e.g.
+ * "ACLS expired 2026-03-01"
+ */
+export async function describeBlockedCredentials(
+  ctx: QueryCtx,
+  blocked: CredentialMatch["blockedSkills"]
+): Promise<string> {
+  const parts = await Promise.all(
+    blocked.map(async ({ skillId, problem, expiresDate }) => {
+      const skill = await ctx.db.get(skillId);
+      const name = skill?.name ?? "Credential";
+      return problem === "expired" ? `${name} expired ${expiresDate}` : `${name} was rejected`;
+    })
+  );
+  return parts.join(", ");
+}
+
+/**
+ * Credential links for a provider
+ */
+export async function loadProviderCredentials(ctx: QueryCtx, providerId: Id<"providers">) {
+  return await ctx.db
+    .query("provider_skills")
+    .withIndex("by_provider", (q) => q.eq("providerId", providerId))
+    .collect();
+}
+
+/**
+ * A provider's credentials that are rejected, unverified or lapse on or
+ * before the end of a date range, soonest first
+ */
+export async function getCredentialNotices(
+  ctx: QueryCtx,
+  providerId: Id<"providers">,
+  endDate: string
+) {
+  const links = await loadProviderCredentials(ctx, providerId);
+  const notices = await Promise.all(
+    links
+      .filter(
+        (l) =>
+          l.verificationStatus === "rejected" ||
+          l.verificationStatus === "pending" ||
+          (l.expiresDate !== undefined && l.expiresDate <= endDate)
+      )
+      .map(async (l) => ({
+        skillName: (await ctx.db.get(l.skillId))?.name ?? "Credential",
+        expiresDate: l.expiresDate ?? null,
+        verificationStatus: l.verificationStatus ?? "verified",
+      }))
+  );
+  return notices.sort((a, b) => (a.expiresDate ?? "9999").localeCompare(b.expiresDate ?? "9999"));
+}
+
+/**
+ * The state a hospital is in, for credentials issued per state
+ */
+export function createHospitalStateLookup(ctx: QueryCtx) {
+  const states = new Map<string, string | undefined>();
+  return async (hospitalId: Id<"hospitals">): Promise<string | undefined> => {
+    const key = hospitalId.toString();
+    if (!states.has(key)) states.set(key, (await ctx.db.get(hospitalId))?.state);
+    return states.get(key);
+  };
+}
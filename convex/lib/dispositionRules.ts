@@ -0,0 +1,28 @@
+import { QueryCtx } from "../_generated/server";
+import { Id } from "../_generated/dataModel";
+import { DEFAULT_RULE_SET, DispositionRuleSet } from "./procedureDisposition";
+
+export interface ActiveDispositionRules {
+  rules: DispositionRuleSet;
+  ruleSetId: Id<"disposition_rule_sets"> | null;
+  version: number; // 0 = built-in defaults
+}
+
+/**
+ * The disposition rules in effect for a health system: its highest saved
+ * version, or the built-in defaults
+ */
+export async function loadDispositionRules(
+  ctx: QueryCtx,
+  healthSystemId: Id<"health_systems">
+): Promise<ActiveDispositionRules> {
+  const latest = await ctx.db
+    .query("disposition_rule_sets")
+    .withIndex("by_health_system", (q) => q.eq("healthSystemId", healthSystemId))
+    .order("desc")
+    .first();
+
+  return latest
+    ? { rules: latest.rules, ruleSetId: latest._id, version: latest.version }
+    : { rules: DEFAULT_RULE_SET, ruleSetId: null, version: 0 };
+}
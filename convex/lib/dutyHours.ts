@@ -0,0 +1,313 @@
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+
+/**
+ * Fatigue and duty-hour rules for scenario assignments
+ * Used by manual matching, self-claiming and the auto-fill solver.
+ * Shifts from every scenario count, so a provider covering two overlapping
+ * strikes is still capped.
+ */
+
+// ═══════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════
+
+export type DutyHourEnforcement = "block" | "warn";
+
+export interface DutyHourRules {
+  maxConsecutiveShifts?: number;
+  minRestHours?: number;
+  maxShiftsPerWeek?: number;
+  traineeMaxWeeklyHours?: number;
+  traineeJobTypeCodes: string[];
+  enforcement: DutyHourEnforcement;
+}
+
+export type DutyHourRule =
+  | "consecutive_shifts"
+  | "min_rest"
+  | "shifts_per_week"
+  | "trainee_weekly_hours";
+
+export interface DutyHourViolation {
+  rule: DutyHourRule;
+  message: string;
+}
+
+export interface ShiftInterval {
+  positionId: Id<"scenario_positions">;
+  date: string;
+  shiftType: string;
+  start: number; // ms since epoch
+  end: number;
+}
+
+export const DEFAULT_TRAINEE_JOB_TYPE_CODES = ["RES", "FEL"];
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+
+// The trainee hours cap is an average over 4 weeks, as in the ACGME 80-hour rule
+const AVERAGING_WEEKS = 4;
+
+// Shifts with less than a full day off between them form one consecutive run
+const CONSECUTIVE_GAP_MS = 24 * HOUR_MS;
+
+// ═══════════════════════════════════════════════════════════════════
+// LOADING
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Get the duty-hour rules for a health system
+ * Returns null when none are configured (nothing is enforced)
+ */
+export async function getDutyHourRules(
+  ctx: QueryCtx,
+  healthSystemId: Id<"health_systems">
+): Promise<DutyHourRules | null> {
+  const rules = await ctx.db
+    .query("duty_hour_rules")
+    .withIndex("by_health_system", (q) => q.eq("healthSystemId", healthSystemId))
+    .first();
+
+  if (!rules) return null;
+
+  return {
+    maxConsecutiveShifts: rules.maxConsecutiveShifts,
+    minRestHours: rules.minRestHours,
+    maxShiftsPerWeek: rules.maxShiftsPerWeek,
+    traineeMaxWeeklyHours: rules.traineeMaxWeeklyHours,
+    traineeJobTypeCodes: rules.traineeJobTypeCodes,
+    enforcement: rules.enforcement === "warn" ? "warn" : "block",
+  };
+}
+
+/**
+ * Convert a scenario position to a concrete time interval
+ * Shifts ending at or before their start time (e.g. 19:00-07:00) end the next day
+ */
+export function toShiftInterval(
+  position: Pick<Doc<"scenario_positions">, "_id" | "date" | "shiftType" | "shiftStart" | "shiftEnd">
+): ShiftInterval {
+  const start = Date.parse(`${position.date}T${position.shiftStart}:00Z`);
+  let end = Date.parse(`${position.date}T${position.shiftEnd}:00Z`);
+  if (end <= start) end += 24 * HOUR_MS;
+
+  return {
+    positionId: position._id,
+    date: position.date,
+    shiftType: position.shiftType,
+    start,
+    end,
+  };
+}
+
+/**
+ * Load every active shift a provider holds, across all scenarios
+ */
+export async function loadProviderShifts(
+  ctx: QueryCtx,
+  providerId: Id<"providers">
+): Promise<ShiftInterval[]> {
+  const assignments = await ctx.db
+    .query("scenario_assignments")
+    .withIndex("by_provider", (q) => q.eq("providerId", providerId))
+    .filter((q) => q.neq(q.field("status"), "Cancelled"))
+    .collect();
+
+  const shifts: ShiftInterval[] = [];
+  for (const assignment of assignments) {
+    const position = await ctx.db.get(assignment.scenarioPositionId);
+    if (position && position.isActive) {
+      shifts.push(toShiftInterval(position));
+    }
+  }
+
+  return shifts.sort((a, b) => a.start - b.start);
+}
+
+export function isTraineeJobType(jobTypeCode: string, rules: DutyHourRules): boolean {
+  return rules.traineeJobTypeCodes.includes(jobTypeCode);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// EVALUATION
+// ═══════════════════════════════════════════════════════════════════
+
+const shiftHours = (shift: ShiftInterval) => (shift.end - shift.start) / HOUR_MS;
+const roundHours = (hours: number) => Math.round(hours * 10) / 10;
+
+/**
+ * Length of the consecutive run containing the shift at `index` (sorted by start)
+ */
+function consecutiveRunLength(sorted: ShiftInterval[], index: number): number {
+  let first = index;
+  while (first > 0 && sorted[first].start - sorted[first - 1].end < CONSECUTIVE_GAP_MS) {
+    first--;
+  }
+  let last = index;
+  while (
+    last < sorted.length - 1 &&
+    sorted[last + 1].start - sorted[last].end < CONSECUTIVE_GAP_MS
+  ) {
+    last++;
+  }
+  return last - first + 1;
+}
+
+/**
+ * Busiest rolling window of `windowMs` that includes `target`
+ * Windows start at each shift's start; a shift counts toward the window it starts in
+ */
+function peakWindow(sorted: ShiftInterval[], windowMs: number, target?: ShiftInterval) {
+  let peakShifts = 0;
+  let peakHours = 0;
+
+  for (const anchor of sorted) {
+    const windowEnd = anchor.start + windowMs;
+    if (target && (target.start < anchor.start || target.start >= windowEnd)) continue;
+
+    let shifts = 0;
+    let hours = 0;
+    for (const shift of sorted) {
+      if (shift.start >= anchor.start && shift.start < windowEnd) {
+        shifts++;
+        hours += shiftHours(shift);
+      }
+    }
+    peakShifts = Math.max(peakShifts, shifts);
+    peakHours = Math.max(peakHours, hours);
+  }
+
+  return { peakShifts, peakHours };
+}
+
+/**
+ * Check whether adding `candidate` to a provider's existing shifts breaks any rule
+ */
+export function evaluateShift(
+  existing: ShiftInterval[],
+  candidate: ShiftInterval,
+  rules: DutyHourRules,
+  isTrainee: boolean
+): DutyHourViolation[] {
+  const violations: DutyHourViolation[] = [];
+  const sorted = [...existing, candidate].sort((a, b) => a.start - b.start);
+  const index = sorted.indexOf(candidate);
+
+  if (rules.maxConsecutiveShifts !== undefined) {
+    const run = consecutiveRunLength(sorted, index);
+    if (run > rules.maxConsecutiveShifts) {
+      violations.push({
+        rule: "consecutive_shifts",
+        message: `${run} consecutive shifts (max ${rules.maxConsecutiveShifts})`,
+      });
+    }
+  }
+
+  if (rules.minRestHours !== undefined) {
+    const minRestMs = rules.minRestHours * HOUR_MS;
+    const neighbours = [sorted[index - 1], sorted[index + 1]].filter(Boolean);
+    for (const other of neighbours) {
+      const gap =
+        other.start < candidate.start
+          ? candidate.start - other.end
+          : other.start - candidate.end;
+      if (gap < minRestMs) {
+        violations.push({
+          rule: "min_rest",
+          message:
+            gap < 0
+              ? `Overlaps ${other.shiftType} shift on ${other.date}`
+              : `Only ${roundHours(gap / HOUR_MS)}h rest around ${other.shiftType} shift on ${other.date} (min ${rules.minRestHours}h)`,
+        });
+        break;
+      }
+    }
+  }
+
+  if (rules.maxShiftsPerWeek !== undefined) {
+    const { peakShifts } = peakWindow(sorted, WEEK_MS, candidate);
+    if (peakShifts > rules.maxShiftsPerWeek) {
+      violations.push({
+        rule: "shifts_per_week",
+        message: `${peakShifts} shifts in 7 days (max ${rules.maxShiftsPerWeek})`,
+      });
+    }
+  }
+
+  if (isTrainee && rules.traineeMaxWeeklyHours !== undefined) {
+    const { peakHours } = peakWindow(sorted, AVERAGING_WEEKS * WEEK_MS, candidate);
+    const averageHours = peakHours / AVERAGING_WEEKS;
+    if (averageHours > rules.traineeMaxWeeklyHours) {
+      violations.push({
+        rule: "trainee_weekly_hours",
+        message: `${roundHours(averageHours)}h/week averaged over ${AVERAGING_WEEKS} weeks (trainee max ${rules.traineeMaxWeeklyHours}h)`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Remaining headroom for a provider under the rules
+ * `remaining` is null when a limit is not configured
+ */
+export function getDutyHourHeadroom(
+  shifts: ShiftInterval[],
+  rules: DutyHourRules,
+  isTrainee: boolean
+) {
+  const sorted = [...shifts].sort((a, b) => a.start - b.start);
+
+  let longestRun = 0;
+  let restViolations = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    longestRun = Math.max(longestRun, consecutiveRunLength(sorted, i));
+    if (
+      i > 0 &&
+      rules.minRestHours !== undefined &&
+      sorted[i].start - sorted[i - 1].end < rules.minRestHours * HOUR_MS
+    ) {
+      restViolations++;
+    }
+  }
+
+  const { peakShifts } = peakWindow(sorted, WEEK_MS);
+  const averageHours = peakWindow(sorted, AVERAGING_WEEKS * WEEK_MS).peakHours / AVERAGING_WEEKS;
+
+  const remaining = (limit: number | undefined, used: number) =>
+    limit === undefined ? null : Math.max(0, limit - used);
+
+  return {
+    enforcement: rules.enforcement,
+    isTrainee,
+    consecutiveShifts: {
+      longest: longestRun,
+      limit: rules.maxConsecutiveShifts ?? null,
+      remaining: remaining(rules.maxConsecutiveShifts, longestRun),
+    },
+    shiftsPerWeek: {
+      peak: peakShifts,
+      limit: rules.maxShiftsPerWeek ?? null,
+      remaining: remaining(rules.maxShiftsPerWeek, peakShifts),
+    },
+    weeklyHours: isTrainee
+      ? {
+          peakAverage: roundHours(averageHours),
+          limit: rules.traineeMaxWeeklyHours ?? null,
+          remaining: remaining(rules.traineeMaxWeeklyHours, averageHours),
+        }
+      : null,
+    minRestHours: rules.minRestHours ?? null,
+    restViolations,
+  };
+}
+
+/**
+ * Human-readable summary of violations for errors and notes
+ */
+export function formatViolations(violations: DutyHourViolation[]): string {
+  return violations.map((v) => v.message).join("; ");
+}
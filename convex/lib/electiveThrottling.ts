@@ -0,0 +1,306 @@
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { loadUnitResolver } from "./unitMapping";
+import { buildCombinedForecast, parseToISODate } from "./censusForecast";
+import { CENSUS_HORIZON_DAYS } from "./censusPositions";
+import { loadRatioResolver, STAFFING_SHIFTS } from "./staffingRatios";
+import { bedCapacityOf, capacityOn } from "./patientFlow";
+import { isCoveragePosition } from "./standby";
+
+/**
+ * Elective procedure throttling during a strike
+ * Over the scenario's dates, each downstream unit (the ICU/floor units
+ * procedure admits go to) can hold the lower of:
+ * - its bed capacity (admit services' dayCapacity/nightCapacity/weekendCapacity)
+ * - the beds its staffed RNs cover: per shift, normal headcount minus the
+ *   positions the strike vacates plus the ones already filled, times the
+ *   unit's patients-per-RN ratio
+ * Either can be overridden per unit. Load is the census-only forecast plus
+ * the bed-days of scheduled procedure admits. Same-day-discharge cases use
+ * no downstream bed and always go ahead; admitting cases are deferred
+ * greedily, the case relieving the most overflowing bed-days first, until
+ * no unit is over capacity.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NURSE_JOB_TYPE_CODE = "RN";
+const FILLED_STATUSES = ["Assigned", "Confirmed"];
+
+export interface CapacityOverride {
+  unitKey: string;
+  beds?: number;
+  staffedRn?: number;
+}
+
+export interface ThrottleUnitDay {
+  date: string;
+  baselineCensus: number; // Census-only forecast (no procedure admits)
+  bedCapacity: number | null;
+  staffedRn: number | null; // Fewest RNs staffed across the day's shifts
+  staffedBeds: number | null;
+  capacity: number | null; // null = unconstrained
+}
+
+export interface ThrottleUnit {
+  unitKey: string; // hospitalId:unitName
+  hospitalId: Id<"hospitals">;
+  hospitalName: string;
+  unitName: string;
+  unitType: "icu" | "floor";
+  days: ThrottleUnitDay[];
+}
+
+export interface ThrottleCase {
+  procedure: Doc<"procedure_patients">;
+  hospitalName: string;
+  icuUnitKey: string | null;
+  floorUnitKey: string | null;
+  // One entry per occupied bed-day inside the scenario window
+  loads: { unit: number; day: number }[];
+}
+
+function dateRange(startDate: string, endDate: string) {
+  const dates: string[] = [];
+  for (let t = Date.parse(startDate); t <= Date.parse(endDate); t += DAY_MS) {
+    dates.push(new Date(t).toISOString().split("T")[0]);
+  }
+  return dates;
+}
+
+const unitKeyFor = (hospitalId: Id<"hospitals">, unitName: string) => `${hospitalId}:${unitName}`;
+
+/**
+ * Units, capacities and procedure cases for a scenario's hospitals
+ */
+export async function loadThrottlingInputs(
+  ctx: QueryCtx,
+  scenario: Doc<"strike_scenarios">,
+  overrides: CapacityOverride[]
+) {
+  const dates = dateRange(scenario.startDate, scenario.endDate);
+  const today = new Date().toISOString().split("T")[0];
+
+  const hospitals = scenario.hospitalId
+    ? [await ctx.db.get(scenario.hospitalId)].filter((h): h is Doc<"hospitals"> => h !== null)
+    : await ctx.db
+        .query("hospitals")
+        .withIndex("by_health_system", (q) => q.eq("healthSystemId", scenario.healthSystemId))
+        .filter((q) => q.eq(q.field("isActive"), true))
+        .collect();
+
+  const nurseJobType = await ctx.db
+    .query("job_types")
+    .withIndex("by_health_system_code", (q) =>
+      q.eq("healthSystemId", scenario.healthSystemId).eq("code", NURSE_JOB_TYPE_CODE)
+    )
+    .first();
+  const nursePositions = nurseJobType
+    ? (
+        await ctx.db
+          .query("scenario_positions")
+          .withIndex("by_scenario", (q) => q.eq("scenarioId", scenario._id))
+          .collect()
+      ).filter((p) => p.jobTypeId === nurseJobType._id && isCoveragePosition(p))
+    : [];
+
+  // Staffed RNs per service/date/shift: normal headcount - vacated + filled
+  const staffedByShift = new Map<string, number>();
+  const positionGroups = new Map<string, Doc<"scenario_positions">[]>();
+  for (const position of nursePositions) {
+    const key = `${position.serviceId}|${position.serviceJobTypeId}|${position.date}|${position.shiftType}`;
+    positionGroups.set(key, [...(positionGroups.get(key) ?? []), position]);
+  }
+  for (const group of positionGroups.values()) {
+    const { serviceId, date, shiftType, originalHeadcount, scenarioHeadcount } = group[0];
+    const filled = group.filter((p) => FILLED_STATUSES.includes(p.status)).length;
+    const key = `${serviceId}|${date}|${shiftType}`;
+    staffedByShift.set(key, (staffedByShift.get(key) ?? 0) + originalHeadcount - scenarioHeadcount + filled);
+  }
+
+  const overrideByUnit = new Map(overrides.map((o) => [o.unitKey, o]));
+  const units: ThrottleUnit[] = [];
+  const cases: ThrottleCase[] = [];
+
+  for (const hospital of hospitals) {
+    const procedures = (
+      await ctx.db
+        .query("procedure_patients")
+        .withIndex("by_hospital", (q) => q.eq("hospitalId", hospital._id))
+        .filter((q) => q.eq(q.field("isActive"), true))
+        .collect()
+    ).filter((p) => dates.includes(parseToISODate(p.visitDate)));
+    if (procedures.length === 0) continue;
+
+    const [services, resolveUnit, resolveRatios] = await Promise.all([
+      ctx.db
+        .query("services")
+        .withIndex("by_hospital", (q) => q.eq("hospitalId", hospital._id))
+        .filter((q) => q.eq(q.field("isActive"), true))
+        .collect(),
+      loadUnitResolver(ctx, hospital._id),
+      loadRatioResolver(ctx, hospital._id),
+    ]);
+
+    // Census-only forecast; dates outside the horizon use the nearest day
+    const horizon = Math.min(
+      CENSUS_HORIZON_DAYS,
+      Math.max(1, Math.round((Date.parse(scenario.endDate) - Date.parse(today)) / DAY_MS) + 1)
+    );
+    const { forecast } = await buildCombinedForecast(ctx, hospital._id, horizon);
+    const baselineFor = (unitName: string, unitId: Id<"units"> | null, date: string) => {
+      const days =
+        (forecast.find((u) => u.unitName === unitName) ?? (unitId ? forecast.find((u) => u.unitId === unitId) : undefined))
+          ?.days ?? [];
+      if (days.length === 0) return 0;
+      const day =
+        days.find((d) => d.date === date) ?? (date < days[0].date ? days[0] : days[days.length - 1]);
+      return day.projectedCensus - day.procedureAdmits;
+    };
+
+    // Floor stays whose unit is not a hospital unit go to the procedure
+    // service's linked downstream service
+    const procedureServices = services.filter((s) => s.serviceType === "procedure" && s.linkedDownstreamServiceId);
+    const downstreamUnitName = async (procedure: Doc<"procedure_patients">) => {
+      const text = `${procedure.procedureCategory} ${procedure.procedureText}`.toUpperCase();
+      const service =
+        procedureServices.find(
+          (s) => text.includes(s.name.toUpperCase()) || text.includes(s.shortCode.toUpperCase())
+        ) ?? procedureServices[0];
+      const downstream = service ? await ctx.db.get(service.linkedDownstreamServiceId!) : null;
+      const unit = downstream?.unitId ? await ctx.db.get(downstream.unitId) : null;
+      return unit?.name ?? null;
+    };
+
+    const unitIndex = new Map<string, number>();
+    const unitFor = (rawName: string) => {
+      const { unitName, unitType, unitId } = resolveUnit(rawName);
+      const unitKey = unitKeyFor(hospital._id, unitName);
+      if (unitIndex.has(unitKey)) return unitIndex.get(unitKey)!;
+
+      const override = overrideByUnit.get(unitKey);
+      const capacity = bedCapacityOf(
+        services.filter((s) => s.serviceType === "admit" && unitId && s.unitId === unitId)
+      );
+      const unitServiceIds = services.filter((s) => unitId && s.unitId === unitId).map((s) => s._id.toString());
+
+      const days = dates.map((date): ThrottleUnitDay => {
+        const ratios = resolveRatios(unitName, unitType, date);
+        const shifts = STAFFING_SHIFTS.map((shiftType) => {
+          const counts = unitServiceIds
+            .map((id) => staffedByShift.get(`${id}|${date}|${shiftType}`))
+            .filter((c): c is number => c !== undefined);
+          const rn = override?.staffedRn ?? (counts.length > 0 ? counts.reduce((a, b) => a + b, 0) : null);
+          return rn === null ? null : { rn, beds: rn * ratios.ratioFor(shiftType, ratios.baseTier) };
+        }).filter((s): s is { rn: number; beds: number } => s !== null);
+
+        const bedCapacity = override?.beds ?? capacityOn(capacity, date);
+        const staffedBeds = shifts.length > 0 ? Math.min(...shifts.map((s) => s.beds)) : null;
+        const limits = [bedCapacity, staffedBeds].filter((c): c is number => c !== null);
+
+        return {
+          date,
+          baselineCensus: baselineFor(unitName, unitId, date),
+          bedCapacity,
+          staffedRn: shifts.length > 0 ? Math.min(...shifts.map((s) => s.rn)) : null,
+          staffedBeds,
+          capacity: limits.length > 0 ? Math.min(...limits) : null,
+        };
+      });
+
+      units.push({ unitKey, hospitalId: hospital._id, hospitalName: hospital.name, unitName, unitType, days });
+      unitIndex.set(unitKey, units.length - 1);
+      return units.length - 1;
+    };
+
+    for (const procedure of procedures) {
+      const startDay = dates.indexOf(parseToISODate(procedure.visitDate));
+      const loads: ThrottleCase["loads"] = [];
+      const addStay = (unit: number, from: number, length: number) => {
+        for (let day = from; day < Math.min(from + length, dates.length); day++) loads.push({ unit, day });
+      };
+
+      let icuUnitKey: string | null = null;
+      let floorUnitKey: string | null = null;
+      if (procedure.willAdmit && procedure.icuDays > 0) {
+        const unit = unitFor(procedure.icuUnit || "CCU");
+        icuUnitKey = units[unit].unitKey;
+        addStay(unit, startDay, procedure.icuDays);
+      }
+      if (procedure.willAdmit && procedure.floorDays > 0) {
+        let floorName = procedure.floorUnit || "N07E";
+        if (!resolveUnit(floorName).unitId) floorName = (await downstreamUnitName(procedure)) ?? floorName;
+        const unit = unitFor(floorName);
+        floorUnitKey = units[unit].unitKey;
+        addStay(unit, startDay + procedure.icuDays, procedure.floorDays);
+      }
+
+      cases.push({ procedure, hospitalName: hospital.name, icuUnitKey, floorUnitKey, loads });
+    }
+  }
+
+  return { dates, units, cases };
+}
+
+/**
+ * Greedy deferral: repeatedly defer the admitting case covering the most
+ * over-capacity bed-days (ties: most bed-days, then latest visit) until
+ * nothing overflows or no case can help
+ */
+export function planDeferrals(units: ThrottleUnit[], cases: ThrottleCase[]) {
+  const occupancy = units.map((unit) => unit.days.map((day) => day.baselineCensus));
+  for (const c of cases) for (const { unit, day } of c.loads) occupancy[unit][day]++;
+  const before = occupancy.map((row) => [...row]);
+
+  const isOver = (unit: number, day: number) => {
+    const capacity = units[unit].days[day].capacity;
+    return capacity !== null && occupancy[unit][day] > capacity;
+  };
+
+  const deferred: { caseIndex: number; overflowRelieved: number; unitsRelieved: string[] }[] = [];
+  const remaining = new Set(cases.map((c, i) => (c.loads.length > 0 ? i : -1)).filter((i) => i >= 0));
+
+  while (true) {
+    let best: { caseIndex: number; relief: number } | null = null;
+    for (const caseIndex of remaining) {
+      const c = cases[caseIndex];
+      const relief = c.loads.filter(({ unit, day }) => isOver(unit, day)).length;
+      if (relief === 0) continue;
+      const current = best && cases[best.caseIndex];
+      if (
+        !best ||
+        relief > best.relief ||
+        (relief === best.relief &&
+          (c.loads.length > current!.loads.length ||
+            (c.loads.length === current!.loads.length &&
+              parseToISODate(c.procedure.visitDate) > parseToISODate(current!.procedure.visitDate))))
+      ) {
+        best = { caseIndex, relief };
+      }
+    }
+    if (!best) break;
+
+    const c = cases[best.caseIndex];
+    const unitsRelieved = new Set<string>();
+    for (const { unit, day } of c.loads) {
+      if (isOver(unit, day)) unitsRelieved.add(units[unit].unitName);
+      occupancy[unit][day]--;
+    }
+    remaining.delete(best.caseIndex);
+    deferred.push({ caseIndex: best.caseIndex, overflowRelieved: best.relief, unitsRelieved: [...unitsRelieved] });
+  }
+
+  const overflowBedDays = (rows: number[][]) =>
+    rows.reduce(
+      (total, row, unit) =>
+        total + row.reduce((sum, count, day) => sum + Math.max(0, count - (units[unit].days[day].capacity ?? count)), 0),
+      0
+    );
+
+  return {
+    deferred,
+    occupancyBefore: before,
+    occupancyAfter: occupancy,
+    overflowBefore: overflowBedDays(before),
+    overflowAfter: overflowBedDays(occupancy),
+  };
+}
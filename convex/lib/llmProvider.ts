@@ -0,0 +1,148 @@
+/**
+ * LLM providers for census AI
+ * Selected from Convex environment variables so census predictions can run
+ * against Anthropic, a locally hosted model, or recorded responses:
+ * - CENSUS_AI_PROVIDER: "anthropic" (default) | "openai_compatible" |
+ *   "recorded" | "rules"
+ * - CENSUS_AI_MODEL: model name (default claude-3-haiku-20240307 for
+ *   anthropic; required for openai_compatible)
+ * - CENSUS_AI_BASE_URL: base URL of an OpenAI-compatible server, e.g.
+ *   http://localhost:11434/v1
+ * - CENSUS_AI_API_KEY: API key for the OpenAI-compatible server (optional)
+ * - CENSUS_AI_RECORDED_RESPONSE: response text returned by the recorded
+ *   provider (test and air-gapped environments)
+ * - ANTHROPIC_API_KEY: key for the anthropic provider
+ * With "rules", or when the chosen provider is not configured, no provider
+ * is returned and census AI uses its deterministic rules engine.
+ */
+
+export interface LlmProvider {
+  // Engine label recorded on each prediction, e.g. "anthropic:claude-3-haiku-20240307"
+  engine: string;
+  complete: (systemPrompt: string, userMessage: string) => Promise<string>;
+}
+
+export const RULES_ENGINE = "rules";
+
+/**
+ * Thrown when the model server is rate limiting or overloaded
+ * (429/503/529); queued jobs back off and retry instead of falling back
+ */
+export class LlmRateLimitError extends Error {
+  retryAfterMs: number | null;
+
+  constructor(message: string, retryAfterMs: number | null) {
+    super(message);
+    this.name = "LlmRateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const RATE_LIMIT_STATUSES = [429, 503, 529];
+
+async function throwResponseError(response: Response, label: string): Promise<never> {
+  const errorText = await response.text();
+  const message = `${label}: ${response.status} - ${errorText}`;
+  if (RATE_LIMIT_STATUSES.includes(response.status)) {
+    const retryAfter = Number(response.headers.get("retry-after"));
+    throw new LlmRateLimitError(message, retryAfter > 0 ? retryAfter * 1000 : null);
+  }
+  throw new Error(message);
+}
+
+const DEFAULT_ANTHROPIC_MODEL = "claude-3-haiku-20240307"; // Fast and cost-effective for census analysis
+const MAX_TOKENS = 4096;
+
+function anthropicProvider(apiKey: string, model: string): LlmProvider {
+  return {
+    engine: `anthropic:${model}`,
+    complete: async (systemPrompt, userMessage) => {
+      const response = await fetch("https://api.anthropic.com/v1/messages", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": "2023-06-01",
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: MAX_TOKENS,
+          system: systemPrompt,
+          messages: [{ role: "user", content: userMessage }],
+        }),
+      });
+
+      if (!response.ok) {
+        await throwResponseError(response, "Anthropic API error");
+      }
+
+      const data = await response.json();
+      return data.content?.[0]?.text || "";
+    },
+  };
+}
+
+function openAICompatibleProvider(baseUrl: string, model: string, apiKey?: string): LlmProvider {
+  return {
+    engine: `openai_compatible:${model}`,
+    complete: async (systemPrompt, userMessage) => {
+      const response = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: MAX_TOKENS,
+          messages: [
+            { role: "system", content: systemPrompt },
+            { role: "user", content: userMessage },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        await throwResponseError(response, "LLM server error");
+      }
+
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content || "";
+    },
+  };
+}
+
+function recordedProvider(recordedResponse: string): LlmProvider {
+  return {
+    engine: "recorded",
+    complete: async () => recordedResponse,
+  };
+}
+
+/**
+ * Provider configured for this deployment, or null for rules-only mode
+ */
+export function resolveLlmProvider(): LlmProvider | null {
+  const providerName = process.env.CENSUS_AI_PROVIDER || "anthropic";
+  const model = process.env.CENSUS_AI_MODEL;
+
+  switch (providerName) {
+    case "anthropic": {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      return apiKey ? anthropicProvider(apiKey, model || DEFAULT_ANTHROPIC_MODEL) : null;
+    }
+    case "openai_compatible": {
+      const baseUrl = process.env.CENSUS_AI_BASE_URL;
+      if (!baseUrl || !model) return null;
+      return openAICompatibleProvider(baseUrl, model, process.env.CENSUS_AI_API_KEY);
+    }
+    case "recorded": {
+      const recordedResponse = process.env.CENSUS_AI_RECORDED_RESPONSE;
+      return recordedResponse !== undefined ? recordedProvider(recordedResponse) : null;
+    }
+    case RULES_ENGINE:
+      return null;
+    default:
+      throw new Error(`Unknown CENSUS_AI_PROVIDER "${providerName}"`);
+  }
+}
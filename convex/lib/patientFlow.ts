@@ -0,0 +1,502 @@
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { loadUnitResolver } from "./unitMapping";
+import { parseToISODate } from "./censusForecast";
+
+/**
+ * Patient flow simulation
+ * Nodes are hospital units with an admit service; bed capacity is the sum
+ * of the unit's admit services (dayCapacity/nightCapacity, weekendCapacity
+ * on weekends). Each day patients leave at the end of their stay and then
+ * ask for a bed in their next unit:
+ * - Census patients start in their current unit; ICU patients downgrade to
+ *   predictedDowngradeUnit (or a floor unit in the same department)
+ * - Procedure admits enter their ICU/floor unit on the visit date; a floor
+ *   stay with no matching unit goes to the procedure service's
+ *   linkedDownstreamServiceId
+ * - Units fed by the ER (feederSource "er") receive the average daily
+ *   admits from the census archive, staying the archived average LOS
+ * A full unit blocks ICU downgrades (they keep their ICU bed) and ER
+ * admits (they board in the ER); procedure admits are placed regardless
+ * and show up as overflow. Monte Carlo runs jitter every stay length by
+ * its prediction uncertainty and draw ER arrivals from a Poisson process.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ER_HISTORY_DAYS = 14;
+const MAX_ER_LOS_DAYS = 30;
+// Stay-length standard deviation: base + share of predicted days
+const BASE_UNCERTAINTY_DAYS = 0.5;
+const UNCERTAINTY_PER_DAY = 0.25;
+const CRITICAL_UNCERTAINTY_FACTOR = 1.5;
+
+export interface BedCapacity {
+  dayCapacity: number | null;
+  nightCapacity: number | null;
+  weekendCapacity: number | null;
+}
+
+export interface FlowNode extends BedCapacity {
+  unitId: Id<"units">;
+  unitName: string;
+  departmentId: Id<"departments">;
+  serviceNames: string[];
+  isICU: boolean;
+  erFed: boolean;
+  erAdmitsPerDay: number;
+  erMeanLosDays: number;
+}
+
+// A stay in a node that ends (the patient leaves) at the start of endDay
+interface Stay {
+  node: number;
+  endDay: number;
+}
+
+interface FlowPatient {
+  source: "census" | "procedure";
+  arrivalDay: number; // Census patients are already in their first node
+  stays: Stay[];
+  uncertainty: number; // Multiplier on stay-length noise
+}
+
+export interface FlowModel {
+  dates: string[];
+  nodes: FlowNode[];
+  patients: FlowPatient[];
+  censusDate: string | null;
+  unmodeled: { censusPatients: number; procedureAdmits: number };
+}
+
+function daysBetween(from: string, to: string) {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+function isWeekend(date: string) {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6;
+}
+
+function sumCapacity(services: Doc<"services">[], field: keyof BedCapacity) {
+  const values = services.map((s) => s[field]).filter((c): c is number => c !== undefined);
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) : null;
+}
+
+/**
+ * Bed capacity of a unit: the summed capacities of its admit services
+ */
+export function bedCapacityOf(services: Doc<"services">[]): BedCapacity {
+  return {
+    dayCapacity: sumCapacity(services, "dayCapacity"),
+    nightCapacity: sumCapacity(services, "nightCapacity"),
+    weekendCapacity: sumCapacity(services, "weekendCapacity"),
+  };
+}
+
+/**
+ * Beds available on a date (null = unlimited)
+ */
+export function capacityOn(node: BedCapacity, date: string) {
+  if (isWeekend(date) && node.weekendCapacity !== null) return node.weekendCapacity;
+  const shifts = [node.dayCapacity, node.nightCapacity].filter((c): c is number => c !== null);
+  return shifts.length > 0 ? Math.min(...shifts) : null;
+}
+
+/**
+ * Build the unit graph and patient list for a hospital, starting today
+ */
+export async function loadFlowModel(ctx: QueryCtx, hospitalId: Id<"hospitals">, numDays: number): Promise<FlowModel> {
+  const today = new Date().toISOString().split("T")[0];
+  const dates = Array.from({ length: numDays }, (_, i) =>
+    new Date(Date.parse(today) + i * DAY_MS).toISOString().split("T")[0]
+  );
+
+  const [services, resolveUnit, mappings] = await Promise.all([
+    ctx.db
+      .query("services")
+      .withIndex("by_hospital", (q) => q.eq("hospitalId", hospitalId))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect(),
+    loadUnitResolver(ctx, hospitalId),
+    ctx.db
+      .query("census_unit_mappings")
+      .withIndex("by_hospital", (q) => q.eq("hospitalId", hospitalId))
+      .collect(),
+  ]);
+
+  // One node per unit with admit services
+  const admitServicesByUnit = new Map<string, Doc<"services">[]>();
+  for (const service of services) {
+    if (service.serviceType !== "admit" || !service.unitId) continue;
+    const key = service.unitId.toString();
+    admitServicesByUnit.set(key, [...(admitServicesByUnit.get(key) ?? []), service]);
+  }
+
+  const nodes: FlowNode[] = [];
+  for (const unitServices of admitServicesByUnit.values()) {
+    const unit = await ctx.db.get(unitServices[0].unitId!);
+    if (!unit || !unit.isActive) continue;
+    const mappedICU = mappings.some((m) => m.unitId === unit._id && m.isICU);
+    nodes.push({
+      unitId: unit._id,
+      unitName: unit.name,
+      departmentId: unitServices[0].departmentId,
+      serviceNames: unitServices.map((s) => s.name),
+      isICU: mappedICU || resolveUnit(unit.name).unitType === "icu",
+      ...bedCapacityOf(unitServices),
+      erFed: unitServices.some((s) => s.feederSource === "er"),
+      erAdmitsPerDay: 0,
+      erMeanLosDays: 0,
+    });
+  }
+
+  const nodeIndexByUnit = new Map(nodes.map((node, index) => [node.unitId.toString(), index]));
+  const nodeForUnitId = (unitId: Id<"units"> | null | undefined) =>
+    unitId ? (nodeIndexByUnit.get(unitId.toString()) ?? null) : null;
+  const nodeForCensusUnit = (unitName: string | undefined) => (unitName ? nodeForUnitId(resolveUnit(unitName).unitId) : null);
+
+  const defaultFloorFor = (icuNode: number) => {
+    const floors = nodes.map((node, index) => ({ node, index })).filter(({ node }) => !node.isICU);
+    return (
+      floors.find(({ node }) => node.departmentId === nodes[icuNode].departmentId)?.index ?? floors[0]?.index ?? null
+    );
+  };
+
+  const unmodeled = { censusPatients: 0, procedureAdmits: 0 };
+  const patients: FlowPatient[] = [];
+
+  // Current census
+  const latestImport = await ctx.db
+    .query("census_imports")
+    .withIndex("by_hospital", (q) => q.eq("hospitalId", hospitalId))
+    .order("desc")
+    .first();
+
+  if (latestImport) {
+    const censusPatients = await ctx.db
+      .query("census_patients")
+      .withIndex("by_import", (q) => q.eq("importId", latestImport._id))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+
+    // Predictions count days from the census date
+    const elapsed = Math.max(0, daysBetween(latestImport.uploadDate, today));
+
+    for (const patient of censusPatients) {
+      const node = nodeForCensusUnit(patient.currentUnitName);
+      if (node === null) {
+        unmodeled.censusPatients++;
+        continue;
+      }
+
+      const dischargeDay =
+        patient.projectedDischargeDays !== undefined
+          ? Math.max(0, patient.projectedDischargeDays - elapsed)
+          : numDays; // No prediction: stays through the horizon
+
+      const stays: Stay[] = [{ node, endDay: dischargeDay }];
+
+      if (nodes[node].isICU) {
+        const downgradeDay = patient.predictedDowngradeDate
+          ? Math.max(0, daysBetween(today, patient.predictedDowngradeDate))
+          : patient.projectedDowngradeDays !== undefined
+            ? Math.max(0, patient.projectedDowngradeDays - elapsed)
+            : null;
+        const target = nodeForCensusUnit(patient.predictedDowngradeUnit) ?? defaultFloorFor(node);
+
+        if (downgradeDay !== null && downgradeDay < dischargeDay && target !== null && target !== node) {
+          stays.splice(0, 1, { node, endDay: downgradeDay }, { node: target, endDay: dischargeDay });
+        }
+      }
+
+      patients.push({
+        source: "census",
+        arrivalDay: 0,
+        stays,
+        uncertainty: patient.trajectory === "Critical" ? CRITICAL_UNCERTAINTY_FACTOR : 1,
+      });
+    }
+  }
+
+  // Scheduled procedure admissions
+  const procedureServices = services.filter((s) => s.serviceType === "procedure" && s.linkedDownstreamServiceId);
+  const downstreamNodeFor = async (procedure: Doc<"procedure_patients">) => {
+    const text = `${procedure.procedureCategory} ${procedure.procedureText}`.toUpperCase();
+    const service =
+      procedureServices.find(
+        (s) => text.includes(s.name.toUpperCase()) || text.includes(s.shortCode.toUpperCase())
+      ) ?? procedureServices[0];
+    if (!service) return null;
+    const downstream = await ctx.db.get(service.linkedDownstreamServiceId!);
+    return nodeForUnitId(downstream?.unitId);
+  };
+
+  const procedures = await ctx.db
+    .query("procedure_patients")
+    .withIndex("by_hospital", (q) => q.eq("hospitalId", hospitalId))
+    .filter((q) => q.eq(q.field("isActive"), true))
+    .collect();
+
+  for (const procedure of procedures) {
+    if (!procedure.willAdmit) continue;
+    const day = dates.indexOf(parseToISODate(procedure.visitDate));
+    if (day === -1) continue;
+
+    const stays: Stay[] = [];
+    let arrivalDay: number | null = null;
+
+    if (procedure.icuDays > 0) {
+      const icuNode = nodeForCensusUnit(procedure.icuUnit || "CCU");
+      if (icuNode !== null) {
+        stays.push({ node: icuNode, endDay: day + procedure.icuDays });
+        arrivalDay = day;
+      }
+    }
+    if (procedure.floorDays > 0) {
+      const floorStart = day + procedure.icuDays;
+      const floorNode =
+        nodeForCensusUnit(procedure.floorUnit || "N07E") ?? (await downstreamNodeFor(procedure));
+      if (floorNode !== null) {
+        stays.push({ node: floorNode, endDay: floorStart + procedure.floorDays });
+        arrivalDay = arrivalDay ?? floorStart;
+      }
+    }
+
+    if (arrivalDay === null || arrivalDay >= numDays) {
+      unmodeled.procedureAdmits++;
+      continue;
+    }
+    patients.push({ source: "procedure", arrivalDay, stays, uncertainty: 1 });
+  }
+
+  // ER feeders: average daily admits and LOS from the census archive
+  if (nodes.some((node) => node.erFed)) {
+    const historyStart = new Date(Date.parse(today) - ER_HISTORY_DAYS * DAY_MS).toISOString().split("T")[0];
+    const archive = await ctx.db
+      .query("census_daily_archive")
+      .withIndex("by_hospital_date", (q) => q.eq("hospitalId", hospitalId).gte("date", historyStart))
+      .collect();
+    const archivedDays = new Set(archive.map((row) => row.date)).size;
+
+    nodes.forEach((node, index) => {
+      if (!node.erFed) return;
+      const rows = archive.filter((row) => nodeForCensusUnit(row.unitName) === index);
+      const admits = rows.reduce((sum, row) => sum + row.admits, 0);
+      const census = rows.reduce((sum, row) => sum + row.census, 0);
+      node.erAdmitsPerDay = archivedDays > 0 ? admits / archivedDays : 0;
+      node.erMeanLosDays =
+        admits > 0 ? Math.min(MAX_ER_LOS_DAYS, Math.max(1, Math.round(census / admits))) : 0;
+    });
+  }
+
+  return { dates, nodes, patients, censusDate: latestImport?.uploadDate ?? null, unmodeled };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// SIMULATION
+// ═══════════════════════════════════════════════════════════════════
+
+type Random = () => number;
+
+/**
+ * Seeded PRNG (mulberry32) so a simulation is reproducible
+ */
+export function seededRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function normal(random: Random) {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+function poisson(random: Random, lambda: number) {
+  const limit = Math.exp(-lambda);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+}
+
+/**
+ * Jitter each stay's length by its uncertainty. Stays after the first last
+ * at least one day; a census patient's current stay may end today.
+ */
+function sampleStays(patient: FlowPatient, random: Random): Stay[] {
+  let plannedStart = patient.arrivalDay;
+  let sampledStart = patient.arrivalDay;
+  return patient.stays.map((stay, index) => {
+    const length = stay.endDay - plannedStart;
+    const sd = (BASE_UNCERTAINTY_DAYS + UNCERTAINTY_PER_DAY * Math.max(0, length)) * patient.uncertainty;
+    const minLength = index === 0 && patient.source === "census" ? 0 : 1;
+    const endDay = Math.max(sampledStart + minLength, Math.round(stay.endDay + normal(random) * sd));
+    plannedStart = stay.endDay;
+    sampledStart = endDay;
+    return { node: stay.node, endDay };
+  });
+}
+
+interface Mover {
+  stays: Stay[];
+  index: number; // Current stay (-1 before arrival)
+  source: "census" | "procedure" | "er";
+  arrivalDay: number;
+}
+
+export interface FlowRun {
+  occupancy: number[][]; // [node][day]
+  boarding: number[][]; // Patients waiting for a bed in the node
+  overflow: number[][]; // Occupancy above capacity
+}
+
+/**
+ * One pass over the horizon; random null runs the expected (noise-free) case
+ */
+export function simulateFlow(model: FlowModel, random: Random | null): FlowRun {
+  const { nodes, dates } = model;
+  const grid = () => nodes.map(() => new Array<number>(dates.length).fill(0));
+  const run: FlowRun = { occupancy: grid(), boarding: grid(), overflow: grid() };
+
+  const occupancy = new Array<number>(nodes.length).fill(0);
+  let residents: Mover[] = [];
+  const arrivals: Mover[] = [];
+
+  for (const patient of model.patients) {
+    const mover: Mover = {
+      stays: random ? sampleStays(patient, random) : patient.stays.map((stay) => ({ ...stay })),
+      index: -1,
+      source: patient.source,
+      arrivalDay: patient.arrivalDay,
+    };
+    if (patient.source === "census") {
+      mover.index = 0;
+      occupancy[mover.stays[0].node]++;
+      residents.push(mover);
+    } else {
+      arrivals.push(mover);
+    }
+  }
+
+  const erCarry = new Array<number>(nodes.length).fill(0);
+  let waiting: Mover[] = [];
+
+  for (let day = 0; day < dates.length; day++) {
+    const requests: Mover[] = [...waiting];
+
+    // Departures: discharge, or ask for a bed in the next unit
+    const staying: Mover[] = [];
+    for (const mover of residents) {
+      if (mover.stays[mover.index].endDay > day || requests.includes(mover)) {
+        staying.push(mover);
+      } else if (mover.index + 1 < mover.stays.length) {
+        staying.push(mover);
+        requests.push(mover);
+      } else {
+        occupancy[mover.stays[mover.index].node]--;
+      }
+    }
+    residents = staying;
+
+    // Procedure arrivals, then ER arrivals
+    requests.push(...arrivals.filter((mover) => mover.arrivalDay === day));
+    nodes.forEach((node, index) => {
+      if (node.erAdmitsPerDay <= 0) return;
+      let count: number;
+      if (random) {
+        count = poisson(random, node.erAdmitsPerDay);
+      } else {
+        erCarry[index] += node.erAdmitsPerDay;
+        count = Math.floor(erCarry[index]);
+        erCarry[index] -= count;
+      }
+      for (let i = 0; i < count; i++) {
+        const los = random
+          ? Math.max(1, Math.round(node.erMeanLosDays * (1 + normal(random) * UNCERTAINTY_PER_DAY * 2)))
+          : node.erMeanLosDays;
+        requests.push({ stays: [{ node: index, endDay: day + los }], index: -1, source: "er", arrivalDay: day });
+      }
+    });
+
+    // Placement: blocked transfers first, then procedures, then ER
+    const priority = { census: 0, procedure: 1, er: 2 };
+    requests.sort((a, b) => priority[a.source] - priority[b.source]);
+
+    waiting = [];
+    for (const mover of requests) {
+      const next = mover.stays[mover.index + 1];
+      const capacity = capacityOn(nodes[next.node], dates[day]);
+      const hasBed = capacity === null || occupancy[next.node] < capacity;
+
+      if (hasBed || mover.source === "procedure") {
+        if (mover.index >= 0) {
+          occupancy[mover.stays[mover.index].node]--;
+        } else {
+          residents.push(mover);
+        }
+        mover.index++;
+        occupancy[next.node]++;
+        next.endDay = Math.max(next.endDay, day + 1);
+      } else {
+        run.boarding[next.node][day]++;
+        waiting.push(mover);
+      }
+    }
+
+    nodes.forEach((node, index) => {
+      const capacity = capacityOn(node, dates[day]);
+      run.occupancy[index][day] = occupancy[index];
+      run.overflow[index][day] = capacity === null ? 0 : Math.max(0, occupancy[index] - capacity);
+    });
+  }
+
+  return run;
+}
+
+function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+/**
+ * Expected run plus Monte Carlo occupancy bands (p10/p50/p90), overflow
+ * probability and mean boarding per node and day
+ */
+export function runFlowSimulation(model: FlowModel, runs: number, seed: number) {
+  const expected = simulateFlow(model, null);
+  const random = seededRandom(seed);
+  const samples = Array.from({ length: runs }, () => simulateFlow(model, random));
+
+  return model.nodes.map((node, n) => ({
+    unitId: node.unitId,
+    unitName: node.unitName,
+    serviceNames: node.serviceNames,
+    isICU: node.isICU,
+    erAdmitsPerDay: Math.round(node.erAdmitsPerDay * 10) / 10,
+    days: model.dates.map((date, d) => {
+      const occupancy = samples.map((s) => s.occupancy[n][d]).sort((a, b) => a - b);
+      const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / Math.max(1, values.length);
+      return {
+        date,
+        capacity: capacityOn(node, date),
+        expectedOccupancy: expected.occupancy[n][d],
+        expectedBoarding: expected.boarding[n][d],
+        expectedOverflow: expected.overflow[n][d],
+        p10: percentile(occupancy, 0.1),
+        p50: percentile(occupancy, 0.5),
+        p90: percentile(occupancy, 0.9),
+        overflowProbability: Math.round((samples.filter((s) => s.overflow[n][d] > 0).length / Math.max(1, runs)) * 100) / 100,
+        meanBoarding: Math.round(mean(samples.map((s) => s.boarding[n][d])) * 10) / 10,
+      };
+    }),
+  }));
+}
@@ -0,0 +1,113 @@
+import { QueryCtx } from "../_generated/server";
+import { Doc } from "../_generated/dataModel";
+
+/**
+ * Provider portal authentication
+ * Providers sign in with a one-time code or magic link sent to their email
+ * or cell phone; portal functions take the resulting session token instead
+ * of a Clerk identity
+ */
+
+export const LOGIN_CODE_TTL_MS = 15 * 60 * 1000;
+export const MAX_CODE_ATTEMPTS = 5;
+export const MAX_CODES_PER_WINDOW = 3; // Per provider per LOGIN_CODE_TTL_MS
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * SHA-256 hex digest - codes and tokens are never stored in plain text
+ */
+export async function hashSecret(secret: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(secret));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Random 6-digit code
+ */
+export function generateLoginCode(): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return String(value % 1_000_000).padStart(6, "0");
+}
+
+/**
+ * Random opaque token for magic links and sessions
+ */
+export function generateToken(): string {
+  return `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, "");
+}
+
+/**
+ * Find the provider an email address or phone number belongs to
+ */
+export async function findProviderByIdentifier(
+  ctx: QueryCtx,
+  identifier: string
+): Promise<{ provider: Doc<"providers">; channel: "email" | "sms" } | null> {
+  const trimmed = identifier.trim();
+
+  if (trimmed.includes("@")) {
+    for (const email of new Set([trimmed, trimmed.toLowerCase()])) {
+      const matches = await ctx.db
+        .query("providers")
+        .withIndex("by_email", (q) => q.eq("email", email))
+        .collect();
+      const provider = matches.find((p) => p.isActive);
+      if (provider) return { provider, channel: "email" };
+    }
+    return null;
+  }
+
+  // Phones are stored as E.164 or as 10 digits on older records
+  const digits = trimmed.replace(/\D/g, "");
+  if (digits.length < 10) return null;
+  const tenDigit = digits.slice(-10);
+
+  for (const phone of [`+1${tenDigit}`, tenDigit, `+${digits}`]) {
+    const matches = await ctx.db
+      .query("providers")
+      .withIndex("by_cell_phone", (q) => q.eq("cellPhone", phone))
+      .collect();
+    const provider = matches.find((p) => p.isActive);
+    if (provider) return { provider, channel: "sms" };
+  }
+  return null;
+}
+
+/**
+ * Provider for a portal session token, or null if missing/expired/revoked
+ */
+export async function getPortalProvider(
+  ctx: QueryCtx,
+  sessionToken: string
+): Promise<Doc<"providers"> | null> {
+  if (!sessionToken) return null;
+
+  const tokenHash = await hashSecret(sessionToken);
+  const session = await ctx.db
+    .query("provider_sessions")
+    .withIndex("by_token", (q) => q.eq("tokenHash", tokenHash))
+    .first();
+
+  if (!session || session.revokedAt || session.expiresAt < Date.now()) return null;
+
+  const provider = await ctx.db.get(session.providerId);
+  if (!provider || !provider.isActive) return null;
+
+  return provider;
+}
+
+/**
+ * Require a valid portal session (for portal mutations)
+ */
+export async function requirePortalProvider(
+  ctx: QueryCtx,
+  sessionToken: string
+): Promise<Doc<"providers">> {
+  const provider = await getPortalProvider(ctx, sessionToken);
+  if (!provider) {
+    throw new Error("Your session has expired. Please sign in again.");
+  }
+  return provider;
+}
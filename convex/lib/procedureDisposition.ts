@@ -1,6 +1,13 @@
+import { v, Infer } from "convex/values";
+
 /**
  * Procedure Disposition Prediction Module
- * Predicts admission status, LOS, and unit assignments for scheduled cath lab and EP lab procedures.
+ * Predicts admission status, LOS, and unit assignments for scheduled procedures.
+ * Rules are grouped into service lines (cath/EP/structural, OR, IR, GI) so each
+ * procedure area has its own category taxonomy.
+ * The patterns and rules below are the built-in defaults (DEFAULT_RULE_SET);
+ * health systems can replace them with versioned rule sets edited in the UI
+ * (disposition_rule_sets, lib/dispositionRules.ts).
  */
 
 // ═══════════════════════════════════════════════════════════════════
@@ -11,11 +18,12 @@ export interface DispositionPrediction {
   willAdmit: boolean;
   totalLOS: number;
   icuDays: number;
-  icuUnit: string | null; // "CCU" or null
+  icuUnit: string | null; // Destination unit name, e.g. "CCU", or null
   floorDays: number;
-  floorUnit: string | null; // "N07E" or null
-  procedureCategory: ProcedureCategory;
-  riskFactors: RiskFactor[];
+  floorUnit: string | null; // Destination unit name, e.g. "N07E", or null
+  procedureCategory: string; // A ProcedureCategory unless a rule set adds its own
+  serviceLine: string; // Service line key, e.g. "EP", "OR"
+  riskFactors: string[]; // Risk factor keys, e.g. RiskFactor
   riskModified: boolean;
   reasoning: string;
 }
@@ -62,10 +70,7 @@ export interface ProcedureSummary {
   willAdmit: number;
   sameDayDischarge: number;
   riskModifiedAdmits: number;
-  bedCountsByUnit: {
-    CCU: number;
-    N07E: number;
-  };
+  bedCountsByUnit: Record<string, number>; // Bed-days by destination unit name
   totalICUDays: number;
   totalFloorDays: number;
   byCategory: Record<string, number>;
@@ -399,29 +404,457 @@ const DISPOSITION_RULES: Record<ProcedureCategory, DispositionRule> = {
   },
 };
 
+// ═══════════════════════════════════════════════════════════════════
+// RULE SETS
+// ═══════════════════════════════════════════════════════════════════
+
+const RISK_FIELDS = ["age", "ef", "creatinine", "hemoglobin"] as const;
+const RISK_OPERATORS = ["gt", "gte", "lt", "lte"] as const;
+
+// Catch-all rule applied when no pattern matches
+export const UNKNOWN_CATEGORY = "UNKNOWN";
+
+export const dispositionRuleSetValidator = v.object({
+  // Procedure areas with their own category taxonomy; sets saved before
+  // service lines existed use DEFAULT_SERVICE_LINES
+  serviceLines: v.optional(
+    v.array(
+      v.object({
+        key: v.string(), // "EP", "OR"
+        label: v.string(), // "EP Lab", "Operating Room"
+        fallbackCategory: v.optional(v.string()), // Used for unmatched procedures from this line only
+      })
+    )
+  ),
+  // Checked in order; the first rule whose CPT code or pattern matches wins
+  procedures: v.array(
+    v.object({
+      category: v.string(), // "TAVR"
+      label: v.string(), // "TAVR"
+      serviceLine: v.optional(v.string()), // Key in serviceLines
+      patterns: v.array(v.string()), // Case-insensitive regex sources
+      cptCodes: v.array(v.string()),
+      icuDays: v.number(),
+      icuUnit: v.optional(v.string()),
+      floorDays: v.number(),
+      floorUnit: v.optional(v.string()),
+      reasoning: v.string(),
+    })
+  ),
+  riskFactors: v.array(
+    v.object({
+      key: v.string(), // "age_gt_85"
+      label: v.string(), // "Age > 85"
+      field: v.string(), // "age" | "ef" | "creatinine" | "hemoglobin"
+      operator: v.string(), // "gt" | "gte" | "lt" | "lte"
+      threshold: v.number(),
+    })
+  ),
+  // Same-day procedures with enough risk factors are admitted instead
+  riskModifier: v.object({
+    minRiskFactors: v.number(),
+    icuDays: v.number(),
+    icuUnit: v.optional(v.string()),
+    floorDays: v.number(),
+    floorUnit: v.optional(v.string()),
+  }),
+});
+
+export type DispositionRuleSet = Infer<typeof dispositionRuleSetValidator>;
+export type ProcedureRule = DispositionRuleSet["procedures"][number];
+export type RiskFactorRule = DispositionRuleSet["riskFactors"][number];
+export type ServiceLine = NonNullable<DispositionRuleSet["serviceLines"]>[number];
+
+export const DEFAULT_SERVICE_LINES: ServiceLine[] = [
+  { key: "EP", label: "EP Lab" },
+  { key: "Cath", label: "Cath Lab" },
+  { key: "Structural", label: "Structural" },
+  { key: "OR", label: "Operating Room", fallbackCategory: "OR_OTHER" },
+  { key: "IR", label: "Interventional Radiology", fallbackCategory: "IR_OTHER" },
+  { key: "GI", label: "Endoscopy", fallbackCategory: "GI_OTHER" },
+];
+
+const EP_CATEGORIES: string[] = [
+  "VT_ABLATION",
+  "AFIB_ABLATION",
+  "FLUTTER_ABLATION",
+  "SVT_ABLATION",
+  "PVC_ABLATION",
+  "PPM_IMPLANT",
+  "ICD_IMPLANT",
+  "GENERATOR_CHANGE",
+  "LOOP_RECORDER",
+  "CARDIOVERSION",
+  "TILT_TABLE",
+];
+
+const STRUCTURAL_CATEGORIES: string[] = ["TAVR"];
+
+// Service lines a schedule covers when its source system doesn't say
+export const CARDIAC_SERVICE_LINES = ["EP", "Cath", "Structural"];
+
+// Service line of a built-in cardiac category; rules saved without a
+// service line fall back to this too
+function cardiacServiceLine(category: string): string {
+  if (EP_CATEGORIES.includes(category)) return "EP";
+  if (STRUCTURAL_CATEGORIES.includes(category)) return "Structural";
+  return "Cath";
+}
+
+const CATEGORY_LABELS: Record<ProcedureCategory, string> = {
+  TAVR: "TAVR",
+  VT_ABLATION: "VT Ablation",
+  PCI_STENT: "PCI/Stent",
+  PERIPHERAL_INTERVENTION: "Peripheral Intervention",
+  AFIB_ABLATION: "AFib Ablation",
+  FLUTTER_ABLATION: "Flutter Ablation",
+  SVT_ABLATION: "SVT Ablation",
+  PVC_ABLATION: "PVC Ablation",
+  PPM_IMPLANT: "PPM Implant",
+  ICD_IMPLANT: "ICD Implant",
+  PFO_CLOSURE: "PFO Closure",
+  BAV: "BAV",
+  DIAGNOSTIC_CATH: "Diagnostic Cath",
+  TEE: "TEE",
+  VENOGRAM: "Venogram",
+  CARDIOVERSION: "Cardioversion",
+  TILT_TABLE: "Tilt Table",
+  LOOP_RECORDER: "Loop Recorder",
+  GENERATOR_CHANGE: "Generator Change",
+  UNKNOWN: "Unknown",
+};
+
+function builtInRule(category: ProcedureCategory, patterns: RegExp[], cptCodes: string[]): ProcedureRule {
+  const rule = DISPOSITION_RULES[category];
+  return {
+    category,
+    label: CATEGORY_LABELS[category],
+    serviceLine: cardiacServiceLine(category),
+    patterns: patterns.map((pattern) => pattern.source),
+    cptCodes,
+    icuDays: rule.icuDays,
+    icuUnit: rule.icuUnit ?? undefined,
+    floorDays: rule.floorDays,
+    floorUnit: rule.floorUnit ?? undefined,
+    reasoning: rule.reasoning,
+  };
+}
+
+function sameDayRule(serviceLine: string, category: string, label: string, patterns: string[], cptCodes: string[]): ProcedureRule {
+  return {
+    category,
+    label,
+    serviceLine,
+    patterns,
+    cptCodes,
+    icuDays: 0,
+    floorDays: 0,
+    reasoning: `${label}: same-day discharge`,
+  };
+}
+
+// Starting taxonomies for general OR, IR and GI schedules. SICU, SURG and MED
+// are placeholder destinations: link them to real units in census unit
+// mappings or change them in the rules editor
+const NON_CARDIAC_RULES: ProcedureRule[] = [
+  // Operating room
+  {
+    category: "CRANIOTOMY",
+    label: "Craniotomy",
+    serviceLine: "OR",
+    patterns: ["\\bCRANIOTOMY\\b", "\\bCRANI\\b"],
+    cptCodes: ["61510", "61512"],
+    icuDays: 1,
+    icuUnit: "SICU",
+    floorDays: 2,
+    floorUnit: "SURG",
+    reasoning: "Craniotomy: 1 day SICU + 2 days SURG",
+  },
+  {
+    category: "SPINE_FUSION",
+    label: "Spine Fusion",
+    serviceLine: "OR",
+    patterns: ["\\bFUSION\\b", "\\bTLIF\\b", "\\bPLIF\\b", "\\bACDF\\b"],
+    cptCodes: ["22630", "22633", "22551"],
+    icuDays: 0,
+    floorDays: 2,
+    floorUnit: "SURG",
+    reasoning: "Spine fusion: 2 days SURG",
+  },
+  {
+    category: "COLECTOMY",
+    label: "Colectomy",
+    serviceLine: "OR",
+    patterns: ["COLECTOMY", "BOWEL\\s*RESECTION"],
+    cptCodes: ["44140", "44204"],
+    icuDays: 0,
+    floorDays: 3,
+    floorUnit: "SURG",
+    reasoning: "Colectomy: 3 days SURG",
+  },
+  {
+    category: "TOTAL_JOINT",
+    label: "Total Joint",
+    serviceLine: "OR",
+    patterns: ["\\bTKA\\b", "\\bTHA\\b", "TOTAL\\s*(KNEE|HIP)", "ARTHROPLASTY"],
+    cptCodes: ["27447", "27130"],
+    icuDays: 0,
+    floorDays: 1,
+    floorUnit: "SURG",
+    reasoning: "Total joint: 1 day SURG",
+  },
+  sameDayRule("OR", "LAP_CHOLE", "Lap Chole", ["CHOLECYSTECTOMY", "\\bLAP\\s*CHOLE\\b"], ["47562"]),
+  sameDayRule("OR", "HERNIA_REPAIR", "Hernia Repair", ["HERNIA"], ["49505", "49650"]),
+  {
+    category: "OR_OTHER",
+    label: "Other OR Case",
+    serviceLine: "OR",
+    patterns: [],
+    cptCodes: [],
+    icuDays: 0,
+    floorDays: 1,
+    floorUnit: "SURG",
+    reasoning: "Unclassified OR case: defaulting to 1 day SURG",
+  },
+
+  // Interventional radiology
+  {
+    category: "TIPS",
+    label: "TIPS",
+    serviceLine: "IR",
+    patterns: ["\\bTIPS\\b", "TRANSJUGULAR\\s*INTRAHEPATIC"],
+    cptCodes: ["37182"],
+    icuDays: 0,
+    floorDays: 1,
+    floorUnit: "MED",
+    reasoning: "TIPS: 1 day MED",
+  },
+  {
+    category: "IR_EMBOLIZATION",
+    label: "Embolization",
+    serviceLine: "IR",
+    patterns: ["EMBOLIZATION", "\\bTACE\\b", "\\bY-?90\\b"],
+    cptCodes: ["37243", "37244"],
+    icuDays: 0,
+    floorDays: 1,
+    floorUnit: "MED",
+    reasoning: "Embolization: 1 day MED",
+  },
+  sameDayRule("IR", "IR_DRAIN", "Drain Placement", ["\\bDRAIN\\b", "NEPHROSTOMY", "PARACENTESIS", "THORACENTESIS"], ["49406", "50432"]),
+  sameDayRule("IR", "IR_ACCESS", "Port / Line Placement", ["\\bPORT\\b", "\\bPICC\\b", "TUNNELED\\s*(LINE|CATHETER)"], ["36561", "36569"]),
+  sameDayRule("IR", "IR_BIOPSY", "Image-Guided Biopsy", ["BIOPSY"], ["10005", "47000"]),
+  sameDayRule("IR", "IR_OTHER", "Other IR Case", [], []),
+
+  // Endoscopy
+  {
+    category: "ERCP",
+    label: "ERCP",
+    serviceLine: "GI",
+    patterns: ["\\bERCP\\b"],
+    cptCodes: ["43260", "43264"],
+    icuDays: 0,
+    floorDays: 1,
+    floorUnit: "MED",
+    reasoning: "ERCP: 1 day MED",
+  },
+  sameDayRule("GI", "EUS", "Endoscopic Ultrasound", ["\\bEUS\\b", "ENDOSCOPIC\\s*ULTRASOUND"], ["43237", "43238"]),
+  sameDayRule("GI", "EGD", "EGD", ["\\bEGD\\b", "ESOPHAGOGASTRODUODENOSCOPY", "UPPER\\s*ENDOSCOPY"], ["43235", "43239"]),
+  sameDayRule("GI", "COLONOSCOPY", "Colonoscopy", ["COLONOSCOPY"], ["45378", "45380", "45385"]),
+  sameDayRule("GI", "GI_OTHER", "Other Endoscopy", [], []),
+];
+
+/**
+ * The built-in rules, used until a health system saves its own
+ */
+export const DEFAULT_RULE_SET: DispositionRuleSet = {
+  serviceLines: DEFAULT_SERVICE_LINES,
+  procedures: [
+    ...PROCEDURE_PATTERNS.map((proc) => builtInRule(proc.category, proc.patterns, proc.cptCodes)),
+    ...NON_CARDIAC_RULES,
+    builtInRule("UNKNOWN", [], []),
+  ],
+  riskFactors: [
+    { key: "age_gt_85", label: "Age > 85", field: "age", operator: "gt", threshold: 85 },
+    { key: "ef_lt_30", label: "EF < 30%", field: "ef", operator: "lt", threshold: 30 },
+    { key: "cr_gt_1.5", label: "Cr > 1.5", field: "creatinine", operator: "gt", threshold: 1.5 },
+    { key: "hgb_lt_10", label: "Hgb < 10", field: "hemoglobin", operator: "lt", threshold: 10 },
+  ],
+  riskModifier: { minRiskFactors: 2, icuDays: 0, floorDays: 1, floorUnit: "N07E" },
+};
+
+/**
+ * Service lines of a rule set
+ */
+export function serviceLinesOf(rules: DispositionRuleSet): ServiceLine[] {
+  return rules.serviceLines ?? DEFAULT_SERVICE_LINES;
+}
+
+/**
+ * Service line a procedure rule belongs to
+ */
+export function serviceLineOf(rule: ProcedureRule): string {
+  return rule.serviceLine || cardiacServiceLine(rule.category);
+}
+
+/**
+ * Service line of a category under a rule set; categories no longer in the
+ * rules keep their built-in line
+ */
+export function serviceLineForCategory(category: string, rules: DispositionRuleSet): string {
+  const rule = rules.procedures.find((proc) => proc.category === category);
+  return rule ? serviceLineOf(rule) : cardiacServiceLine(category);
+}
+
+/**
+ * Tidy rules entered in the editor: upper-case categories and CPT codes,
+ * drop blank patterns and codes
+ */
+export function normalizeRuleSet(rules: DispositionRuleSet): DispositionRuleSet {
+  return {
+    ...rules,
+    serviceLines: rules.serviceLines?.map((line) => ({
+      ...line,
+      key: line.key.trim(),
+      fallbackCategory: line.fallbackCategory?.trim().toUpperCase() || undefined,
+    })),
+    procedures: rules.procedures.map((rule) => ({
+      ...rule,
+      serviceLine: rule.serviceLine?.trim() || undefined,
+      category: rule.category.trim().toUpperCase(),
+      patterns: rule.patterns.map((p) => p.trim()).filter(Boolean),
+      cptCodes: rule.cptCodes.map((c) => c.trim().toUpperCase()).filter(Boolean),
+    })),
+  };
+}
+
+/**
+ * Check a rule set before it is saved; throws with the first problem found
+ */
+export function validateRuleSet(rules: DispositionRuleSet) {
+  const categories = new Set<string>();
+  const checkDays = (days: number, unit: string | undefined, what: string) => {
+    if (!Number.isInteger(days) || days < 0 || days > 30) {
+      throw new Error(`${what}: days must be a whole number from 0 to 30`);
+    }
+    if (days > 0 && !unit?.trim()) {
+      throw new Error(`${what}: a unit is required when days are set`);
+    }
+  };
+
+  for (const rule of rules.procedures) {
+    if (!/^[A-Z0-9_]+$/.test(rule.category)) {
+      throw new Error(`Category "${rule.category}" must use A-Z, 0-9 and _ only`);
+    }
+    if (categories.has(rule.category)) {
+      throw new Error(`Duplicate category ${rule.category}`);
+    }
+    categories.add(rule.category);
+
+    for (const pattern of rule.patterns) {
+      try {
+        new RegExp(pattern, "i");
+      } catch (error) {
+        throw new Error(`${rule.category}: invalid pattern /${pattern}/ - ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    checkDays(rule.icuDays, rule.icuUnit, `${rule.category} ICU`);
+    checkDays(rule.floorDays, rule.floorUnit, `${rule.category} floor`);
+  }
+  if (!categories.has(UNKNOWN_CATEGORY)) {
+    throw new Error(`Rule set needs an ${UNKNOWN_CATEGORY} rule for unmatched procedures`);
+  }
+
+  const lineKeys = new Set<string>();
+  for (const line of serviceLinesOf(rules)) {
+    if (!/^[A-Za-z0-9_]+$/.test(line.key) || lineKeys.has(line.key)) {
+      throw new Error(`Service line keys must be unique and use letters, digits and _ only ("${line.key}")`);
+    }
+    lineKeys.add(line.key);
+    if (line.fallbackCategory && !categories.has(line.fallbackCategory)) {
+      throw new Error(`Service line ${line.key}: fallback category ${line.fallbackCategory} has no rule`);
+    }
+  }
+  for (const rule of rules.procedures) {
+    if (rule.serviceLine && !lineKeys.has(rule.serviceLine)) {
+      throw new Error(`${rule.category}: unknown service line ${rule.serviceLine}`);
+    }
+  }
+
+  const keys = new Set<string>();
+  for (const factor of rules.riskFactors) {
+    if (!factor.key.trim() || keys.has(factor.key)) {
+      throw new Error(`Risk factor keys must be unique and not empty ("${factor.key}")`);
+    }
+    keys.add(factor.key);
+    if (!(RISK_FIELDS as readonly string[]).includes(factor.field)) {
+      throw new Error(`Risk factor ${factor.key}: unknown field ${factor.field}`);
+    }
+    if (!(RISK_OPERATORS as readonly string[]).includes(factor.operator)) {
+      throw new Error(`Risk factor ${factor.key}: unknown operator ${factor.operator}`);
+    }
+    if (!Number.isFinite(factor.threshold)) {
+      throw new Error(`Risk factor ${factor.key}: threshold must be a number`);
+    }
+  }
+
+  const modifier = rules.riskModifier;
+  if (!Number.isInteger(modifier.minRiskFactors) || modifier.minRiskFactors < 1) {
+    throw new Error("Risk modifier needs at least 1 risk factor");
+  }
+  checkDays(modifier.icuDays, modifier.icuUnit, "Risk modifier ICU");
+  checkDays(modifier.floorDays, modifier.floorUnit, "Risk modifier floor");
+  if (modifier.icuDays + modifier.floorDays === 0) {
+    throw new Error("Risk modifier must admit for at least one day");
+  }
+}
+
+// Compiled regexes per rule set, so a batch compiles each pattern once
+const compiledPatterns = new WeakMap<DispositionRuleSet, RegExp[][]>();
+
+function patternsFor(rules: DispositionRuleSet) {
+  let compiled = compiledPatterns.get(rules);
+  if (!compiled) {
+    compiled = rules.procedures.map((rule) => rule.patterns.map((pattern) => new RegExp(pattern, "i")));
+    compiledPatterns.set(rules, compiled);
+  }
+  return compiled;
+}
+
 // ═══════════════════════════════════════════════════════════════════
 // CORE FUNCTIONS
 // ═══════════════════════════════════════════════════════════════════
 
 /**
  * Classify procedure from text (procedure name + CPT code)
+ * With serviceLines, only those lines' taxonomies are considered and an
+ * unmatched procedure from a single line gets that line's fallback category
  */
-export function classifyProcedure(procedureText: string): ProcedureCategory {
+export function classifyProcedure(
+  procedureText: string,
+  rules: DispositionRuleSet = DEFAULT_RULE_SET,
+  serviceLines?: string[]
+): string {
   const text = procedureText.toUpperCase();
 
   // Extract CPT code from brackets if present
   const cptMatch = text.match(/\[([A-Z0-9]+)\]/);
   const cptCode = cptMatch ? cptMatch[1] : null;
 
+  const compiled = patternsFor(rules);
+
   // Check each pattern
-  for (const proc of PROCEDURE_PATTERNS) {
+  const inScope = (proc: ProcedureRule) => !serviceLines || serviceLines.includes(serviceLineOf(proc));
+
+  for (const [index, proc] of rules.procedures.entries()) {
+    if (proc.category === UNKNOWN_CATEGORY || !inScope(proc)) continue;
+
     // Check CPT codes first (most specific)
     if (cptCode && proc.cptCodes.includes(cptCode)) {
       return proc.category;
     }
 
     // Check text patterns
-    for (const pattern of proc.patterns) {
+    for (const pattern of compiled[index]) {
       if (pattern.test(procedureText)) {
         return proc.category;
       }
@@ -429,11 +862,20 @@ export function classifyProcedure(procedureText: string): ProcedureCategory {
   }
 
   // Special case: PVC ablation that's actually part of VT ablation
-  if (/\bPVC\b/i.test(text) && /\bVT\b/i.test(text)) {
+  if (
+    /\bPVC\b/i.test(text) &&
+    /\bVT\b/i.test(text) &&
+    rules.procedures.some((proc) => proc.category === "VT_ABLATION" && inScope(proc))
+  ) {
     return "VT_ABLATION";
   }
 
-  return "UNKNOWN";
+  if (serviceLines?.length === 1) {
+    const fallback = serviceLinesOf(rules).find((line) => line.key === serviceLines[0])?.fallbackCategory;
+    if (fallback && rules.procedures.some((proc) => proc.category === fallback)) return fallback;
+  }
+
+  return UNKNOWN_CATEGORY;
 }
 
 /**
@@ -457,7 +899,7 @@ export function parseNumericValue(value: string | number | undefined): number |
 
 /**
  * Count risk factors and return list
- * Risk factors:
+ * Default risk factors:
  * - Age > 85
  * - EF < 30%
  * - Creatinine > 1.5 mg/dL
@@ -467,21 +909,25 @@ export function countRiskFactors(
   age?: number,
   ef?: number,
   creatinine?: number,
-  hemoglobin?: number
-): { count: number; factors: RiskFactor[] } {
-  const factors: RiskFactor[] = [];
+  hemoglobin?: number,
+  riskFactors: RiskFactorRule[] = DEFAULT_RULE_SET.riskFactors
+): { count: number; factors: string[] } {
+  const values: Record<string, number | undefined> = { age, ef, creatinine, hemoglobin };
+  const factors: string[] = [];
 
-  if (age !== undefined && age > 85) {
-    factors.push("age_gt_85");
-  }
-  if (ef !== undefined && ef < 30) {
-    factors.push("ef_lt_30");
-  }
-  if (creatinine !== undefined && creatinine > 1.5) {
-    factors.push("cr_gt_1.5");
-  }
-  if (hemoglobin !== undefined && hemoglobin < 10) {
-    factors.push("hgb_lt_10");
+  for (const factor of riskFactors) {
+    const value = values[factor.field];
+    if (value === undefined) continue;
+
+    const matches =
+      factor.operator === "gt"
+        ? value > factor.threshold
+        : factor.operator === "gte"
+          ? value >= factor.threshold
+          : factor.operator === "lt"
+            ? value < factor.threshold
+            : value <= factor.threshold;
+    if (matches) factors.push(factor.key);
   }
 
   return { count: factors.length, factors };
@@ -490,7 +936,11 @@ export function countRiskFactors(
 /**
  * Main prediction function
  */
-export function predictDisposition(patient: ProcedurePatientInput): DispositionPrediction {
+export function predictDisposition(
+  patient: ProcedurePatientInput,
+  rules: DispositionRuleSet = DEFAULT_RULE_SET,
+  serviceLines?: string[]
+): DispositionPrediction {
   // Parse age from name if not provided
   const age = patient.age ?? parseAgeFromName(patient.patientName);
 
@@ -500,21 +950,26 @@ export function predictDisposition(patient: ProcedurePatientInput): DispositionP
   const hemoglobin = parseNumericValue(patient.hemoglobin);
 
   // Classify procedure
-  const procedureCategory = classifyProcedure(patient.procedureText);
+  const procedureCategory = classifyProcedure(patient.procedureText, rules, serviceLines);
 
   // Count risk factors
   const { count: riskCount, factors: riskFactors } = countRiskFactors(
     age,
     ef,
     creatinine,
-    hemoglobin
+    hemoglobin,
+    rules.riskFactors
   );
 
   // Get base disposition rule
-  const rule = DISPOSITION_RULES[procedureCategory];
+  const rule = rules.procedures.find((proc) => proc.category === procedureCategory)!;
+  const baseSameDay = rule.icuDays === 0 && rule.floorDays === 0;
+  const serviceLine =
+    procedureCategory === UNKNOWN_CATEGORY && serviceLines?.length === 1 ? serviceLines[0] : serviceLineOf(rule);
 
-  // Check if risk modification applies (same-day procedures with >= 2 risk factors)
-  const riskModified = rule.baseSameDay && riskCount >= 2;
+  // Check if risk modification applies (same-day procedures with enough risk factors)
+  const modifier = rules.riskModifier;
+  const riskModified = baseSameDay && riskCount >= modifier.minRiskFactors;
 
   // Calculate final disposition
   let willAdmit: boolean;
@@ -526,20 +981,20 @@ export function predictDisposition(patient: ProcedurePatientInput): DispositionP
   let reasoning: string;
 
   if (riskModified) {
-    // Convert same-day to 1-day floor admit
+    // Convert same-day to an admit
     willAdmit = true;
-    icuDays = 0;
-    icuUnit = null;
-    floorDays = 1;
-    floorUnit = "N07E";
-    totalLOS = 1;
-    reasoning = `${rule.reasoning.split(":")[0]}: normally same-day, converted to 1-day admit due to ${riskCount} risk factors (>= 2)`;
+    icuDays = modifier.icuDays;
+    icuUnit = modifier.icuDays > 0 ? (modifier.icuUnit ?? null) : null;
+    floorDays = modifier.floorDays;
+    floorUnit = modifier.floorDays > 0 ? (modifier.floorUnit ?? null) : null;
+    totalLOS = icuDays + floorDays;
+    reasoning = `${rule.reasoning.split(":")[0]}: normally same-day, converted to ${totalLOS}-day admit due to ${riskCount} risk factors (>= ${modifier.minRiskFactors})`;
   } else {
-    willAdmit = rule.icuDays > 0 || rule.floorDays > 0;
+    willAdmit = !baseSameDay;
     icuDays = rule.icuDays;
-    icuUnit = rule.icuUnit;
+    icuUnit = rule.icuUnit ?? null;
     floorDays = rule.floorDays;
-    floorUnit = rule.floorUnit;
+    floorUnit = rule.floorUnit ?? null;
     totalLOS = icuDays + floorDays;
     reasoning = rule.reasoning;
   }
@@ -552,6 +1007,7 @@ export function predictDisposition(patient: ProcedurePatientInput): DispositionP
     floorDays,
     floorUnit,
     procedureCategory,
+    serviceLine,
     riskFactors,
     riskModified,
     reasoning,
@@ -562,14 +1018,16 @@ export function predictDisposition(patient: ProcedurePatientInput): DispositionP
  * Process multiple patients and generate summary
  */
 export function processProcedurePatients(
-  patients: ProcedurePatientInput[]
+  patients: ProcedurePatientInput[],
+  rules: DispositionRuleSet = DEFAULT_RULE_SET,
+  serviceLines?: string[]
 ): {
   predictions: Array<ProcedurePatientInput & { prediction: DispositionPrediction }>;
   summary: ProcedureSummary;
 } {
   const predictions = patients.map((patient) => ({
     ...patient,
-    prediction: predictDisposition(patient),
+    prediction: predictDisposition(patient, rules, serviceLines),
   }));
 
   // Calculate summary
@@ -578,10 +1036,7 @@ export function processProcedurePatients(
     willAdmit: 0,
     sameDayDischarge: 0,
     riskModifiedAdmits: 0,
-    bedCountsByUnit: {
-      CCU: 0,
-      N07E: 0,
-    },
+    bedCountsByUnit: {},
     totalICUDays: 0,
     totalFloorDays: 0,
     byCategory: {},
@@ -601,11 +1056,13 @@ export function processProcedurePatients(
     }
 
     // Count bed days by unit
-    if (prediction.icuUnit === "CCU") {
-      summary.bedCountsByUnit.CCU += prediction.icuDays;
+    if (prediction.icuUnit) {
+      summary.bedCountsByUnit[prediction.icuUnit] =
+        (summary.bedCountsByUnit[prediction.icuUnit] || 0) + prediction.icuDays;
     }
-    if (prediction.floorUnit === "N07E") {
-      summary.bedCountsByUnit.N07E += prediction.floorDays;
+    if (prediction.floorUnit) {
+      summary.bedCountsByUnit[prediction.floorUnit] =
+        (summary.bedCountsByUnit[prediction.floorUnit] || 0) + prediction.floorDays;
     }
 
     // Total days
@@ -623,41 +1080,13 @@ export function processProcedurePatients(
 /**
  * Format risk factor for display
  */
-export function formatRiskFactor(factor: RiskFactor): string {
-  const labels: Record<RiskFactor, string> = {
-    age_gt_85: "Age > 85",
-    ef_lt_30: "EF < 30%",
-    "cr_gt_1.5": "Cr > 1.5",
-    hgb_lt_10: "Hgb < 10",
-  };
-  return labels[factor] || factor;
+export function formatRiskFactor(factor: string, rules: DispositionRuleSet = DEFAULT_RULE_SET): string {
+  return rules.riskFactors.find((f) => f.key === factor)?.label || factor;
 }
 
 /**
  * Format procedure category for display
  */
-export function formatProcedureCategory(category: ProcedureCategory): string {
-  const labels: Record<ProcedureCategory, string> = {
-    TAVR: "TAVR",
-    VT_ABLATION: "VT Ablation",
-    PCI_STENT: "PCI/Stent",
-    PERIPHERAL_INTERVENTION: "Peripheral Intervention",
-    AFIB_ABLATION: "AFib Ablation",
-    FLUTTER_ABLATION: "Flutter Ablation",
-    SVT_ABLATION: "SVT Ablation",
-    PVC_ABLATION: "PVC Ablation",
-    PPM_IMPLANT: "PPM Implant",
-    ICD_IMPLANT: "ICD Implant",
-    PFO_CLOSURE: "PFO Closure",
-    BAV: "BAV",
-    DIAGNOSTIC_CATH: "Diagnostic Cath",
-    TEE: "TEE",
-    VENOGRAM: "Venogram",
-    CARDIOVERSION: "Cardioversion",
-    TILT_TABLE: "Tilt Table",
-    LOOP_RECORDER: "Loop Recorder",
-    GENERATOR_CHANGE: "Generator Change",
-    UNKNOWN: "Unknown",
-  };
-  return labels[category] || category;
+export function formatProcedureCategory(category: string, rules: DispositionRuleSet = DEFAULT_RULE_SET): string {
+  return rules.procedures.find((proc) => proc.category === category)?.label || category;
 }
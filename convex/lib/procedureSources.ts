@@ -0,0 +1,117 @@
+import { v, Infer } from "convex/values";
+
+/**
+ * Procedure source systems
+ * Each scheduling system (Epic cath/EP, OR, IR, GI) exports its own CSV
+ * layout. A source maps CSV headers to procedure fields and names the
+ * service lines its procedures are classified against.
+ */
+
+// ═══════════════════════════════════════════════════════════════════
+// FIELDS
+// ═══════════════════════════════════════════════════════════════════
+
+export const procedureColumnsValidator = v.object({
+  mrn: v.optional(v.string()),
+  patientName: v.optional(v.string()),
+  procedureText: v.optional(v.string()),
+  visitDate: v.optional(v.string()),
+  provider: v.optional(v.string()),
+  reasonForExam: v.optional(v.string()),
+  age: v.optional(v.string()),
+  sex: v.optional(v.string()),
+  ef: v.optional(v.string()),
+  creatinine: v.optional(v.string()),
+  hemoglobin: v.optional(v.string()),
+  csn: v.optional(v.string()),
+});
+
+export type ProcedureColumns = Infer<typeof procedureColumnsValidator>;
+export type ProcedureField = keyof ProcedureColumns;
+
+/**
+ * Procedure fields with the headers recognized when a source doesn't map
+ * them (the cath/EP lab export layout)
+ */
+export const PROCEDURE_FIELDS: { key: ProcedureField; label: string; required: boolean; aliases: string[] }[] = [
+  { key: "mrn", label: "MRN", required: true, aliases: ["MRN", "mrn", "Medical Record Number"] },
+  {
+    key: "patientName",
+    label: "Patient Name",
+    required: false,
+    aliases: ["Patient Name/Age/Gender", "Patient", "patient_name", "PATIENT"],
+  },
+  { key: "procedureText", label: "Procedure", required: true, aliases: ["Procedure", "procedure", "PROCEDURE"] },
+  { key: "visitDate", label: "Visit Date", required: false, aliases: ["Visit Date", "visit_date", "Date"] },
+  {
+    key: "provider",
+    label: "Provider",
+    required: false,
+    aliases: ["Provider/Resource", "Provider", "provider", "PROVIDER"],
+  },
+  {
+    key: "reasonForExam",
+    label: "Reason for Exam",
+    required: false,
+    aliases: ["Reason for Exam", "Reason", "reason_for_exam", "REASON"],
+  },
+  { key: "age", label: "Age", required: false, aliases: ["Age", "age", "AGE"] },
+  { key: "sex", label: "Sex", required: false, aliases: ["Sex", "sex", "Gender", "SEX"] },
+  {
+    key: "ef",
+    label: "Ejection Fraction",
+    required: false,
+    aliases: ["Last Ejection Fraction Value", "EF", "ef", "Ejection Fraction"],
+  },
+  { key: "creatinine", label: "Creatinine", required: false, aliases: ["Creatinine", "creatinine", "Cr", "CR"] },
+  {
+    key: "hemoglobin",
+    label: "Hemoglobin",
+    required: false,
+    aliases: ["HEMOGLOBIN", "Hemoglobin", "hemoglobin", "Hgb", "HGB"],
+  },
+  { key: "csn", label: "CSN", required: false, aliases: ["CSN", "csn", "Contact Serial Number"] },
+];
+
+// ═══════════════════════════════════════════════════════════════════
+// ROW READING
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Headers to try for a field: the source's mapped header, or the defaults
+ */
+export function headersFor(field: ProcedureField, columns?: ProcedureColumns): string[] {
+  const mapped = columns?.[field]?.trim();
+  if (mapped) return [mapped];
+  return PROCEDURE_FIELDS.find((f) => f.key === field)!.aliases;
+}
+
+/**
+ * Read every procedure field from a parsed CSV row ("" when missing)
+ */
+export function readProcedureRow(
+  row: Record<string, string>,
+  columns?: ProcedureColumns
+): Record<ProcedureField, string> {
+  const values = {} as Record<ProcedureField, string>;
+  for (const field of PROCEDURE_FIELDS) {
+    const header = headersFor(field.key, columns).find((h) => row[h]);
+    values[field.key] = header ? row[header].trim() : "";
+  }
+  return values;
+}
+
+/**
+ * Check a source's column mapping; throws with the first problem found
+ */
+export function validateColumns(columns: ProcedureColumns) {
+  const used = new Map<string, string>();
+  for (const field of PROCEDURE_FIELDS) {
+    const header = columns[field.key]?.trim();
+    if (!header) continue;
+    if (used.has(header)) {
+      throw new Error(`Column "${header}" is mapped to both ${used.get(header)} and ${field.label}`);
+    }
+    used.set(header, field.label);
+  }
+}
@@ -0,0 +1,339 @@
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import {
+  DutyHourRules,
+  DutyHourViolation,
+  getDutyHourRules,
+  loadProviderShifts,
+  toShiftInterval,
+  evaluateShift,
+  isTraineeJobType,
+  formatViolations,
+} from "./dutyHours";
+import { agencyIneligibility } from "./agency";
+import {
+  CredentialMatch,
+  describeBlockedCredentials,
+  getCredentialMatch,
+  loadProviderCredentials,
+} from "./credentials";
+
+/**
+ * Shared eligibility rules for scenario matching
+ * Used by manual matching (scenarioMatching.ts) and the auto-fill solver so both
+ * apply the same job-type hierarchy, hospital access, visa and skill rules
+ */
+
+// ═══════════════════════════════════════════════════════════════════
+// JOB TYPE HIERARCHY FOR CROSS-COVERAGE
+// Higher level providers can cover lower level positions
+// ═══════════════════════════════════════════════════════════════════
+
+export const JOB_TYPE_HIERARCHY: Record<string, number> = {
+  "MD": 4,    // Doctors
+  "FEL": 4,   // Fellows = MD level
+  "RES": 4,   // Residents = MD level
+  "NP": 3,    // Nurse Practitioners
+  "PA": 3,    // Physician Assistants
+  "RN": 2,    // Registered Nurses
+};
+
+/**
+ * Check if a provider's job type can cover a position's job type
+ * Based on hierarchy: MD/FEL/RES → NP/PA → RN
+ */
+export function canCoverJobType(providerCode: string, positionCode: string): boolean {
+  const providerLevel = JOB_TYPE_HIERARCHY[providerCode] ?? 1;
+  const positionLevel = JOB_TYPE_HIERARCHY[positionCode] ?? 1;
+  return providerLevel >= positionLevel;
+}
+
+/**
+ * Fellows with visas can ONLY work at their home hospital
+ */
+export function violatesVisaRestriction(
+  provider: Pick<Doc<"providers">, "hasVisa" | "hospitalId">,
+  providerJobTypeCode: string,
+  targetHospitalId: Id<"hospitals">
+): boolean {
+  return (
+    !!provider.hasVisa &&
+    providerJobTypeCode === "FEL" &&
+    provider.hospitalId !== targetHospitalId
+  );
+}
+
+/**
+ * Check whether a provider can work at a hospital (home hospital or explicit access)
+ */
+export async function checkHospitalAccess(
+  ctx: QueryCtx,
+  providerId: Id<"providers">,
+  homeHospitalId: Id<"hospitals">,
+  targetHospitalId: Id<"hospitals">
+): Promise<boolean> {
+  // Home hospital is always accessible
+  if (homeHospitalId === targetHospitalId) return true;
+
+  // Check explicit access
+  const access = await ctx.db
+    .query("provider_hospital_access")
+    .withIndex("by_provider", (q) => q.eq("providerId", providerId))
+    .filter((q) => q.eq(q.field("hospitalId"), targetHospitalId))
+    .first();
+
+  return !!access;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// AVAILABILITY & SKILLS
+// ═══════════════════════════════════════════════════════════════════
+
+export type AvailabilityStatus = "available" | "preferred" | "unavailable" | "unknown";
+
+/**
+ * Resolve a provider_availability record to a status for one shift
+ * No record = "unknown" (availability is optional)
+ */
+export function getShiftAvailability(
+  availability: Doc<"provider_availability"> | null | undefined,
+  shiftType: string
+): AvailabilityStatus {
+  if (!availability) return "unknown";
+  if (availability.availabilityType === "unavailable") return "unavailable";
+
+  const isAvailableForShift =
+    shiftType === "AM" ? availability.amAvailable : availability.pmAvailable;
+  const isPreferredForShift =
+    shiftType === "AM"
+      ? availability.amPreferred ?? false
+      : availability.pmPreferred ?? false;
+
+  if (isPreferredForShift) return "preferred";
+  if (isAvailableForShift) return "available";
+  return "unavailable";
+}
+
+export type MatchQuality = "Perfect" | "Good" | "Partial";
+
+/**
+ * Compare required skills against a provider's skills
+ */
+export function getSkillMatch(
+  requiredSkillIds: Id<"skills">[],
+  providerSkillIds: Set<string>
+) {
+  const matchedSkills: Id<"skills">[] = [];
+  const missingSkills: Id<"skills">[] = [];
+
+  for (const skillId of requiredSkillIds) {
+    if (providerSkillIds.has(skillId.toString())) {
+      matchedSkills.push(skillId);
+    } else {
+      missingSkills.push(skillId);
+    }
+  }
+
+  let matchQuality: MatchQuality = "Partial";
+  if (missingSkills.length === 0) {
+    matchQuality = "Perfect";
+  } else if (matchedSkills.length > missingSkills.length) {
+    matchQuality = "Good";
+  }
+
+  return { matchedSkills, missingSkills, matchQuality };
+}
+
+/**
+ * Base match score, before workload balancing
+ * Priority: Availability > Preferred shift > skill match > home department
+ */
+export function scoreMatch(args: {
+  matchedSkillCount: number;
+  missingSkillCount: number;
+  availabilityStatus: AvailabilityStatus;
+  isHomeDepartment: boolean;
+  isHomeHospital: boolean;
+}): number {
+  let score = 0;
+
+  // Skill matching
+  score += args.matchedSkillCount * 10;
+  score -= args.missingSkillCount * 15;
+
+  // Availability scoring (optional - boosts or penalizes)
+  if (args.availabilityStatus === "preferred") {
+    score += 50;
+  } else if (args.availabilityStatus === "available") {
+    score += 20;
+  } else if (args.availabilityStatus === "unavailable") {
+    score -= 30; // Penalize but still show
+  }
+  // "unknown" = 0 (neutral)
+
+  // Location preferences
+  if (args.isHomeDepartment) score += 20;
+  if (args.isHomeHospital) score += 10;
+
+  return score;
+}
+
+/**
+ * Required skill IDs for a service job type
+ */
+export async function getRequiredSkillIds(
+  ctx: QueryCtx,
+  serviceJobTypeId: Id<"service_job_types">
+): Promise<Id<"skills">[]> {
+  const skillLinks = await ctx.db
+    .query("service_job_type_skills")
+    .withIndex("by_service_job_type", (q) => q.eq("serviceJobTypeId", serviceJobTypeId))
+    .filter((q) => q.eq(q.field("isRequired"), true))
+    .collect();
+
+  return skillLinks.map((sl) => sl.skillId);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// COVERAGE ELIGIBILITY
+// Whether one provider may work one position - the filter behind
+// findMatchesForPosition, reused for peer shift trades
+// ═══════════════════════════════════════════════════════════════════
+
+export interface CoverageTarget {
+  position: Doc<"scenario_positions">;
+  positionJobType: Doc<"job_types">;
+  strikingJobTypeIds: Set<string>;
+  dutyHourRules: DutyHourRules | null;
+  requiredSkillIds: Id<"skills">[];
+  hospitalState?: string; // For credentials issued per state
+}
+
+export type CoverageCheck =
+  | {
+      eligible: true;
+      scenarioAssignments: Doc<"scenario_assignments">[];
+      dutyHourViolations: DutyHourViolation[];
+      credentialMatch: CredentialMatch;
+    }
+  | { eligible: false; reason: string };
+
+/**
+ * Load what checkCoverageEligibility needs about a position, once per position
+ */
+export async function loadCoverageTarget(
+  ctx: QueryCtx,
+  position: Doc<"scenario_positions">
+): Promise<CoverageTarget | null> {
+  const [positionJobType, scenario, hospital, requiredSkillIds] = await Promise.all([
+    ctx.db.get(position.jobTypeId),
+    ctx.db.get(position.scenarioId),
+    ctx.db.get(position.hospitalId),
+    getRequiredSkillIds(ctx, position.serviceJobTypeId),
+  ]);
+  if (!positionJobType || !scenario) return null;
+
+  return {
+    position,
+    positionJobType,
+    strikingJobTypeIds: new Set(scenario.affectedJobTypes.map((ajt) => ajt.jobTypeId.toString())),
+    dutyHourRules: await getDutyHourRules(ctx, scenario.healthSystemId),
+    requiredSkillIds,
+    hospitalState: hospital?.state,
+  };
+}
+
+/**
+ * Check a provider against a position: not striking, agency onboarding
+ * and credentials, no expired or rejected required skill credentials, job
+ * type hierarchy, hospital access, visa restriction, no same date/shift conflict, duty hours
+ * (blocked only in "block" mode). Missing skills affect ranking, not eligibility.
+ * releasingAssignmentIds are shifts the provider gives up in the same
+ * transaction (a trade) and are ignored for conflicts and duty hours.
+ */
+export async function checkCoverageEligibility(
+  ctx: QueryCtx,
+  provider: Doc<"providers">,
+  providerJobType: Doc<"job_types">,
+  target: CoverageTarget,
+  releasingAssignmentIds: Id<"scenario_assignments">[] = []
+): Promise<CoverageCheck> {
+  const { position, positionJobType, dutyHourRules } = target;
+  const releasing = new Set(releasingAssignmentIds.map((id) => id.toString()));
+
+  // Striking providers aren't available to cover
+  if (target.strikingJobTypeIds.has(provider.jobTypeId.toString())) {
+    return { eligible: false, reason: `${providerJobType.name} is on strike in this scenario` };
+  }
+
+  const agencyReason = agencyIneligibility(provider, position.date);
+  if (agencyReason) return { eligible: false, reason: agencyReason };
+
+  const credentialMatch = getCredentialMatch(
+    target.requiredSkillIds,
+    await loadProviderCredentials(ctx, provider._id),
+    position.date,
+    target.hospitalState
+  );
+  if (credentialMatch.blockedSkills.length > 0) {
+    return { eligible: false, reason: await describeBlockedCredentials(ctx, credentialMatch.blockedSkills) };
+  }
+
+  if (!canCoverJobType(providerJobType.code, positionJobType.code)) {
+    return { eligible: false, reason: `${providerJobType.name} can't cover a ${positionJobType.name} shift` };
+  }
+
+  if (!(await checkHospitalAccess(ctx, provider._id, provider.hospitalId, position.hospitalId))) {
+    return { eligible: false, reason: "No access to this hospital" };
+  }
+
+  if (violatesVisaRestriction(provider, providerJobType.code, position.hospitalId)) {
+    return { eligible: false, reason: "Visa restricts this fellow to their home hospital" };
+  }
+
+  // Same date/shift already assigned in this scenario
+  const scenarioAssignments = (
+    await ctx.db
+      .query("scenario_assignments")
+      .withIndex("by_provider_scenario", (q) =>
+        q.eq("providerId", provider._id).eq("scenarioId", position.scenarioId)
+      )
+      .filter((q) => q.neq(q.field("status"), "Cancelled"))
+      .collect()
+  ).filter((a) => !releasing.has(a._id.toString()));
+
+  for (const assignment of scenarioAssignments) {
+    const assignedPos = await ctx.db.get(assignment.scenarioPositionId);
+    if (
+      assignedPos &&
+      assignedPos.date === position.date &&
+      assignedPos.shiftType === position.shiftType
+    ) {
+      return { eligible: false, reason: `Already working ${position.date} ${position.shiftType}` };
+    }
+  }
+
+  // Duty-hour rules across all of the provider's shifts
+  let dutyHourViolations: DutyHourViolation[] = [];
+  if (dutyHourRules) {
+    const releasingPositionIds = new Set<string>();
+    for (const id of releasing) {
+      const assignment = await ctx.db.get(id as Id<"scenario_assignments">);
+      if (assignment) releasingPositionIds.add(assignment.scenarioPositionId.toString());
+    }
+    const shifts = (await loadProviderShifts(ctx, provider._id)).filter(
+      (s) => !releasingPositionIds.has(s.positionId.toString())
+    );
+    dutyHourViolations = evaluateShift(
+      shifts,
+      toShiftInterval(position),
+      dutyHourRules,
+      isTraineeJobType(providerJobType.code, dutyHourRules)
+    );
+    if (dutyHourViolations.length > 0 && dutyHourRules.enforcement === "block") {
+      return { eligible: false, reason: formatViolations(dutyHourViolations) };
+    }
+  }
+
+  return { eligible: true, scenarioAssignments, dutyHourViolations, credentialMatch };
+}
@@ -0,0 +1,255 @@
+import { Id } from "../_generated/dataModel";
+import { loadCensusHeadcounts } from "./censusPositions";
+
+/**
+ * Scenario Planning
+ * Works out which date/shift slots a strike affects and how many positions
+ * each needs, without writing anything. Shared by scenario position
+ * generation, amendments and what-if comparisons.
+ */
+
+/**
+ * Rounding rules for partial strikes (configured per service via services.strikeRounding)
+ * - "up": round vacated positions up so partial walkouts are never under-covered (default)
+ * - "down": round down
+ * - "nearest": round half up to the nearest whole position
+ */
+export type StrikeRoundingRule = "up" | "down" | "nearest";
+
+/**
+ * Where a scenario's normal headcounts come from
+ * - "static": service_job_types headcounts (default)
+ * - "census": predicted census for the service's unit (lib/censusPositions.ts)
+ */
+export const POSITION_SOURCES = ["static", "census"];
+
+/**
+ * Calculate how many positions a strike vacates for a given headcount
+ * e.g. 5 RNs at 50% reduction = 3 positions (up), 2 (down), 3 (nearest)
+ */
+function calculateVacatedHeadcount(
+  headcount: number,
+  reductionPercent: number,
+  rounding: string | undefined
+): number {
+  // Trim floating point noise (e.g. 10 * 70 / 100 = 7.000000000000001)
+  const raw = Math.round(headcount * reductionPercent * 10) / 1000;
+
+  let vacated: number;
+  if (rounding === "down") {
+    vacated = Math.floor(raw);
+  } else if (rounding === "nearest") {
+    vacated = Math.round(raw);
+  } else {
+    vacated = Math.ceil(raw);
+  }
+
+  return Math.min(headcount, Math.max(0, vacated));
+}
+
+/**
+ * Generate all dates between start and end (inclusive)
+ */
+export function getDateRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+
+  for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
+    dates.push(d.toISOString().split("T")[0]);
+  }
+
+  return dates;
+}
+
+/**
+ * Determine if a date is a weekend (Saturday=6, Sunday=0)
+ */
+export function isWeekend(dateStr: string): boolean {
+  const d = new Date(dateStr);
+  const day = d.getDay();
+  return day === 0 || day === 6;
+}
+
+export type AffectedJobTypeInput = { jobTypeId: Id<"job_types">; reductionPercent: number };
+
+/**
+ * A single date/shift slot for one service job type, with the headcount a strike vacates
+ */
+export interface PlannedShift {
+  service: any;
+  serviceJobTypeId: Id<"service_job_types">;
+  jobTypeId: Id<"job_types">;
+  jobTypeName: string;
+  jobTypeCode: string;
+  departmentName: string;
+  hospitalCode: string;
+  date: string;
+  shiftType: "AM" | "PM";
+  shiftStart: string;
+  shiftEnd: string;
+  originalHeadcount: number;
+  scenarioHeadcount: number;
+  standbyHeadcount: number;
+  reductionPercent: number;
+  projectedCensus?: number; // Set when the headcount came from the census forecast
+}
+
+/**
+ * Work out every date/shift slot a scenario affects and how many positions each needs
+ * ONLY covers STRIKING job types (these are the shifts that need to be filled)
+ * scenarioHeadcount = originalHeadcount reduced by the job type's reductionPercent,
+ * rounded per the service's strikeRounding rule
+ * In census mode originalHeadcount comes from the predicted census where
+ * available (lib/censusPositions.ts)
+ */
+export async function planScenarioPositions(
+  ctx: any,
+  healthSystemId: Id<"health_systems">,
+  hospitalId: Id<"hospitals"> | undefined,
+  startDate: string,
+  endDate: string,
+  affectedJobTypes: AffectedJobTypeInput[],
+  positionSource?: string
+) {
+  // Get all services in scope
+  let services;
+  if (hospitalId) {
+    services = await ctx.db
+      .query("services")
+      .withIndex("by_hospital", (q: any) => q.eq("hospitalId", hospitalId))
+      .filter((q: any) => q.eq(q.field("isActive"), true))
+      .collect();
+  } else {
+    services = await ctx.db
+      .query("services")
+      .withIndex("by_health_system", (q: any) => q.eq("healthSystemId", healthSystemId))
+      .filter((q: any) => q.eq(q.field("isActive"), true))
+      .collect();
+  }
+
+  // Map striking job type IDs to their reduction percent for quick lookup
+  const reductionByJobType = new Map<string, number>(
+    affectedJobTypes.map((ajt) => [ajt.jobTypeId.toString(), ajt.reductionPercent])
+  );
+
+  const dates = getDateRange(startDate, endDate);
+  const shifts: PlannedShift[] = [];
+  let affectedServices = 0;
+
+  const census = positionSource === "census" ? await loadCensusHeadcounts(ctx) : null;
+
+  for (const service of services) {
+    // Get service job types
+    const serviceJobTypes = await ctx.db
+      .query("service_job_types")
+      .withIndex("by_service", (q: any) => q.eq("serviceId", service._id))
+      .collect();
+
+    // Filter to only striking job types for this service
+    const strikingServiceJobTypes = serviceJobTypes.filter((sjt: any) =>
+      reductionByJobType.has(sjt.jobTypeId.toString())
+    );
+
+    if (strikingServiceJobTypes.length === 0) {
+      // Service has no striking job types, skip
+      continue;
+    }
+
+    affectedServices++;
+
+    // Get department and hospital info for job code
+    const department = await ctx.db.get(service.departmentId);
+    const hospital = await ctx.db.get(service.hospitalId);
+
+    // Only iterate over STRIKING job types
+    for (const sjt of strikingServiceJobTypes) {
+      const jobType = await ctx.db.get(sjt.jobTypeId);
+      if (!jobType) continue;
+
+      const reductionPercent = reductionByJobType.get(sjt.jobTypeId.toString()) ?? 100;
+
+      // Get the normal (non-strike) headcounts
+      const weekdayAmHeadcount = sjt.weekdayAmHeadcount ?? sjt.headcount ?? 1;
+      const weekdayPmHeadcount = sjt.weekdayPmHeadcount ?? sjt.headcount ?? 1;
+      const weekendAmHeadcount = sjt.weekendAmHeadcount ?? sjt.headcount ?? 1;
+      const weekendPmHeadcount = sjt.weekendPmHeadcount ?? sjt.headcount ?? 1;
+
+      // Determine shift times
+      const dayStart = sjt.dayShiftStart ?? service.dayShiftStart;
+      const dayEnd = sjt.dayShiftEnd ?? service.dayShiftEnd;
+      const nightStart = sjt.nightShiftStart ?? service.nightShiftStart;
+      const nightEnd = sjt.nightShiftEnd ?? service.nightShiftEnd;
+
+      // Operating flags
+      const operatesDays = sjt.operatesDays ?? service.operatesDays;
+      const operatesNights = sjt.operatesNights ?? service.operatesNights;
+
+      const base = {
+        service,
+        serviceJobTypeId: sjt._id,
+        jobTypeId: sjt.jobTypeId,
+        jobTypeName: jobType.name,
+        jobTypeCode: jobType.code,
+        departmentName: department?.name || "DEPT",
+        hospitalCode: hospital?.shortCode || "HOSP",
+        reductionPercent,
+      };
+
+      // Standby buffer only where the strike actually vacates positions
+      const plannedHeadcounts = (headcount: number) => {
+        const scenarioHeadcount = calculateVacatedHeadcount(
+          headcount,
+          reductionPercent,
+          service.strikeRounding
+        );
+        return {
+          originalHeadcount: headcount,
+          scenarioHeadcount,
+          standbyHeadcount: scenarioHeadcount > 0 ? service.backupHeadcount ?? 0 : 0,
+        };
+      };
+
+      for (const date of dates) {
+        const weekend = isWeekend(date);
+
+        // Skip if service doesn't operate weekends and this is a weekend
+        if (weekend && !service.operatesWeekends) continue;
+
+        if (operatesDays) {
+          const fromCensus = census
+            ? await census.headcountFor(service, sjt, jobType.code, date, "AM")
+            : null;
+          const headcount = fromCensus?.headcount ?? (weekend ? weekendAmHeadcount : weekdayAmHeadcount);
+          shifts.push({
+            ...base,
+            date,
+            shiftType: "AM",
+            shiftStart: dayStart,
+            shiftEnd: dayEnd,
+            ...plannedHeadcounts(headcount),
+            projectedCensus: fromCensus?.projectedCensus,
+          });
+        }
+
+        if (operatesNights) {
+          const fromCensus = census
+            ? await census.headcountFor(service, sjt, jobType.code, date, "PM")
+            : null;
+          const headcount = fromCensus?.headcount ?? (weekend ? weekendPmHeadcount : weekdayPmHeadcount);
+          shifts.push({
+            ...base,
+            date,
+            shiftType: "PM",
+            shiftStart: nightStart,
+            shiftEnd: nightEnd,
+            ...plannedHeadcounts(headcount),
+            projectedCensus: fromCensus?.projectedCensus,
+          });
+        }
+      }
+    }
+  }
+
+  return { shifts, affectedServices, dates, censusImportIds: census?.importIds() ?? [] };
+}
@@ -0,0 +1,53 @@
+/**
+ * SendGrid helpers for one-off transactional emails
+ * (bulk availability emails live in email.ts)
+ */
+
+/**
+ * Base URL for links in emails
+ */
+export function getAppUrl(): string {
+  if (process.env.NEXT_PUBLIC_APP_URL) return process.env.NEXT_PUBLIC_APP_URL.replace(/\/$/, "");
+  if (process.env.VERCEL_URL) return `https://${process.env.VERCEL_URL}`;
+  return "http://localhost:3000";
+}
+
+/**
+ * Send one email. Never throws - errors are returned for logging
+ */
+export async function sendEmail(args: {
+  to: string;
+  toName?: string;
+  subject: string;
+  text: string;
+  senderName?: string;
+}): Promise<{ success: true } | { success: false; error: string }> {
+  const apiKey = process.env.SENDGRID_API_KEY;
+  if (!apiKey) return { success: false, error: "SENDGRID_API_KEY not configured" };
+
+  try {
+    const response = await fetch("https://api.sendgrid.com/v3/mail/send", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: args.to, name: args.toName }] }],
+        from: {
+          email: process.env.SENDGRID_FROM_EMAIL || "noreply@providerloop.com",
+          name: args.senderName || "Strike Prep Team",
+        },
+        subject: args.subject,
+        content: [{ type: "text/plain", value: args.text }],
+      }),
+    });
+
+    if (!response.ok) {
+      return { success: false, error: `SendGrid error (${response.status})` };
+    }
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
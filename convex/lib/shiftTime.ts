@@ -0,0 +1,52 @@
+/**
+ * Wall-clock shift times → timestamps
+ * Positions store "2025-01-03" + "07:00" in the hospital's local time
+ */
+
+/**
+ * Offset of a time zone from UTC at a given instant, in ms
+ */
+function timeZoneOffsetMs(timestamp: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(timestamp));
+
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Timestamp of a local date + "HH:MM" in a time zone
+ * Unknown time zones fall back to UTC
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes || 0);
+
+  try {
+    // Second pass corrects for a DST change between the guess and the answer
+    const guess = wallClock - timeZoneOffsetMs(wallClock, timeZone);
+    return wallClock - timeZoneOffsetMs(guess, timeZone);
+  } catch {
+    return wallClock;
+  }
+}
+
+/**
+ * When a position's shift starts, in the hospital's time zone
+ */
+export function shiftStartMs(
+  position: { date: string; shiftStart: string },
+  hospital: { timezone: string } | null
+): number {
+  return zonedTimeToUtc(position.date, position.shiftStart, hospital?.timezone || "UTC");
+}
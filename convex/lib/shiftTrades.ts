@@ -0,0 +1,162 @@
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { loadCoverageTarget, checkCoverageEligibility } from "./scenarioEligibility";
+
+/**
+ * Peer shift trades from the shift marketplace (portal.ts), approved by
+ * a department admin (shiftRequests.ts)
+ * giveaway: the accepting peer takes the posted shift
+ * trade: the peer takes the posted shift and the poster takes one of theirs
+ */
+
+export const MARKETPLACE_TYPES = ["giveaway", "trade"];
+
+export function isMarketplaceRequest(request: Pick<Doc<"shift_change_requests">, "type">) {
+  return MARKETPLACE_TYPES.includes(request.type);
+}
+
+/**
+ * Whether a provider may take a shift someone else currently holds
+ * Same rules as findMatchesForPosition; releasing is the provider's own
+ * assignment given up in the same trade
+ */
+export async function checkTakeover(
+  ctx: QueryCtx,
+  provider: Doc<"providers">,
+  assignment: Doc<"scenario_assignments">,
+  releasing?: Doc<"scenario_assignments">
+): Promise<{ eligible: true } | { eligible: false; reason: string }> {
+  if (assignment.providerId === provider._id) {
+    return { eligible: false, reason: "That's already your shift" };
+  }
+  if (assignment.status === "Cancelled") {
+    return { eligible: false, reason: "That shift is no longer assigned" };
+  }
+
+  const [position, providerJobType] = await Promise.all([
+    ctx.db.get(assignment.scenarioPositionId),
+    ctx.db.get(provider.jobTypeId),
+  ]);
+  if (!position || !position.isActive || !providerJobType) {
+    return { eligible: false, reason: "Position not found" };
+  }
+
+  const target = await loadCoverageTarget(ctx, position);
+  if (!target) return { eligible: false, reason: "Scenario not found" };
+
+  const check = await checkCoverageEligibility(
+    ctx,
+    provider,
+    providerJobType,
+    target,
+    releasing ? [releasing._id] : []
+  );
+  return check.eligible ? { eligible: true } : check;
+}
+
+/**
+ * Check both sides of an accepted request
+ */
+export async function checkTrade(
+  ctx: QueryCtx,
+  request: Doc<"shift_change_requests">
+): Promise<
+  | {
+      eligible: true;
+      postedAssignment: Doc<"scenario_assignments">;
+      poster: Doc<"providers">;
+      acceptor: Doc<"providers">;
+      offeredAssignment: Doc<"scenario_assignments"> | null;
+    }
+  | { eligible: false; reason: string }
+> {
+  if (!request.acceptedByProviderId) {
+    return { eligible: false, reason: "No one has accepted this shift yet" };
+  }
+
+  const [postedAssignment, poster, acceptor] = await Promise.all([
+    ctx.db.get(request.assignmentId),
+    ctx.db.get(request.providerId),
+    ctx.db.get(request.acceptedByProviderId),
+  ]);
+  if (!postedAssignment || !poster || !acceptor || !acceptor.isActive) {
+    return { eligible: false, reason: "Provider or assignment not found" };
+  }
+  if (postedAssignment.providerId !== poster._id) {
+    return { eligible: false, reason: "The posted shift has changed hands" };
+  }
+
+  let offeredAssignment: Doc<"scenario_assignments"> | null = null;
+  if (request.type === "trade") {
+    if (!request.offeredAssignmentId) {
+      return { eligible: false, reason: "No shift was offered in return" };
+    }
+    offeredAssignment = await ctx.db.get(request.offeredAssignmentId);
+    if (!offeredAssignment || offeredAssignment.providerId !== acceptor._id) {
+      return { eligible: false, reason: "The offered shift has changed hands" };
+    }
+  }
+
+  const acceptorCheck = await checkTakeover(ctx, acceptor, postedAssignment, offeredAssignment ?? undefined);
+  if (!acceptorCheck.eligible) {
+    return { eligible: false, reason: `${acceptor.firstName} ${acceptor.lastName}: ${acceptorCheck.reason}` };
+  }
+
+  if (offeredAssignment) {
+    const posterCheck = await checkTakeover(ctx, poster, offeredAssignment, postedAssignment);
+    if (!posterCheck.eligible) {
+      return { eligible: false, reason: `${poster.firstName} ${poster.lastName}: ${posterCheck.reason}` };
+    }
+  }
+
+  return { eligible: true, postedAssignment, poster, acceptor, offeredAssignment };
+}
+
+export interface ShiftTransfer {
+  positionId: Id<"scenario_positions">;
+  fromProviderId: Id<"providers">;
+  toProviderId: Id<"providers">;
+  fromAssignmentId: Id<"scenario_assignments">;
+  toAssignmentId: Id<"scenario_assignments">;
+}
+
+/**
+ * Hand an assignment to another provider
+ * The old assignment is cancelled and linked from the new one, so the
+ * position's chain of custody can be followed through assignments
+ */
+export async function transferAssignment(
+  ctx: MutationCtx,
+  from: Doc<"scenario_assignments">,
+  to: Doc<"providers">,
+  args: { transferredBy: Id<"users">; reason: string }
+): Promise<ShiftTransfer> {
+  await ctx.db.patch(from._id, {
+    status: "Cancelled",
+    cancelledAt: Date.now(),
+    cancelledBy: args.transferredBy,
+    cancelReason: args.reason,
+  });
+
+  const toAssignmentId = await ctx.db.insert("scenario_assignments", {
+    scenarioPositionId: from.scenarioPositionId,
+    providerId: to._id,
+    scenarioId: from.scenarioId,
+    status: "Active",
+    assignedAt: Date.now(),
+    assignedBy: args.transferredBy,
+    transferredFromAssignmentId: from._id,
+    notes: args.reason,
+  });
+
+  // A traded shift needs confirming again by its new holder
+  await ctx.db.patch(from.scenarioPositionId, { status: "Assigned" });
+
+  return {
+    positionId: from.scenarioPositionId,
+    fromProviderId: from.providerId,
+    toProviderId: to._id,
+    fromAssignmentId: from._id,
+    toAssignmentId,
+  };
+}
@@ -0,0 +1,212 @@
+import { MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+import { loadCoverageTarget, checkCoverageEligibility } from "./scenarioEligibility";
+
+/**
+ * Campaign state transitions shared by the campaign module (smsCampaigns.ts)
+ * and inbound SMS processing (sms.ts)
+ */
+
+// Offers still waiting on the provider (or on Twilio)
+const OUTSTANDING_OFFER_STATUSES = ["Sending", "Pending"];
+
+// Offers that closed without the provider answering
+const CLOSED_OFFER_STATUSES = ["Withdrawn", "TimedOut", "Failed"];
+
+/**
+ * End a campaign and withdraw any offers still outstanding
+ */
+export async function closeCampaign(
+  ctx: MutationCtx,
+  campaignId: Id<"sms_campaigns">,
+  status: "Filled" | "Exhausted" | "Cancelled",
+  fields: {
+    endReason?: string;
+    filledByProviderId?: Id<"providers">;
+    assignmentId?: Id<"scenario_assignments">;
+  } = {}
+) {
+  await ctx.db.patch(campaignId, {
+    status,
+    ...fields,
+    completedAt: Date.now(),
+  });
+
+  const offers = await ctx.db
+    .query("sms_campaign_offers")
+    .withIndex("by_campaign", (q) => q.eq("campaignId", campaignId))
+    .collect();
+
+  for (const offer of offers) {
+    if (OUTSTANDING_OFFER_STATUSES.includes(offer.status)) {
+      await ctx.db.patch(offer._id, { status: "Withdrawn" });
+    }
+  }
+}
+
+/**
+ * Send the next wave right away once every offer in the current wave
+ * has been declined, failed or timed out
+ */
+export async function advanceIfWaveClosed(ctx: MutationCtx, campaignId: Id<"sms_campaigns">) {
+  const campaign = await ctx.db.get(campaignId);
+  if (!campaign || campaign.status !== "Active") return;
+
+  const offers = await ctx.db
+    .query("sms_campaign_offers")
+    .withIndex("by_campaign", (q) => q.eq("campaignId", campaignId))
+    .filter((q) => q.eq(q.field("wave"), campaign.currentWave))
+    .collect();
+
+  if (offers.some((o) => OUTSTANDING_OFFER_STATUSES.includes(o.status))) return;
+
+  await ctx.scheduler.runAfter(0, internal.smsCampaigns.sendNextWave, { campaignId });
+}
+
+/**
+ * Why a provider can no longer take a position, or null if they can
+ * Candidates were screened when the campaign started, but a reply can come
+ * days later - re-checks coverage eligibility (credentials, agency
+ * clearance, shift conflicts, duty hours) at reply time
+ */
+async function getAcceptBlocker(
+  ctx: MutationCtx,
+  provider: Doc<"providers">,
+  position: Doc<"scenario_positions">
+): Promise<string | null> {
+  const [target, jobType] = await Promise.all([
+    loadCoverageTarget(ctx, position),
+    ctx.db.get(provider.jobTypeId),
+  ]);
+  if (!target || !jobType) return "scenario or job type no longer exists";
+
+  const check = await checkCoverageEligibility(ctx, provider, jobType, target);
+  return check.eligible ? null : check.reason;
+}
+
+/**
+ * Apply a YES / NO reply to the campaign offer the provider was answering
+ * The reply belongs to a campaign only when the last text they were sent
+ * was that campaign's offer; otherwise returns null so the reply threads
+ * onto the texted position instead (shift reminders, standby promotions).
+ * A reply to an offer that has already closed gets told so rather than
+ * falling through to the generic confirmation.
+ */
+export async function handleCampaignReply(
+  ctx: MutationCtx,
+  provider: Doc<"providers">,
+  accept: boolean,
+  recentCampaignId?: Id<"sms_campaigns">
+): Promise<{ autoReply: string } | null> {
+  if (!recentCampaignId) return null;
+
+  const offer = await ctx.db
+    .query("sms_campaign_offers")
+    .withIndex("by_campaign", (q) => q.eq("campaignId", recentCampaignId))
+    .filter((q) => q.eq(q.field("providerId"), provider._id))
+    .order("desc")
+    .first();
+  if (!offer) return null;
+
+  if (CLOSED_OFFER_STATUSES.includes(offer.status)) {
+    return {
+      autoReply: accept
+        ? "Thanks for replying. That shift has already been filled or the offer expired, so you haven't been booked."
+        : "Thanks for letting us know. That offer had already closed.",
+    };
+  }
+  // Already answered - an accepted offer's assignment confirms like any other
+  if (offer.status !== "Pending") return null;
+
+  const campaign = await ctx.db.get(offer.campaignId);
+  const position = await ctx.db.get(offer.scenarioPositionId);
+
+  if (!campaign || campaign.status !== "Active" || !position) {
+    await ctx.db.patch(offer._id, { status: "Withdrawn", respondedAt: Date.now() });
+    return { autoReply: "Thanks for replying. That shift is no longer available." };
+  }
+
+  if (!accept) {
+    await ctx.db.patch(offer._id, { status: "Declined", respondedAt: Date.now() });
+    await advanceIfWaveClosed(ctx, campaign._id);
+    return { autoReply: "No problem, thanks for letting us know." };
+  }
+
+  // Filled some other way since the offer went out
+  if (position.status !== "Open" || !position.isActive) {
+    await ctx.db.patch(offer._id, { status: "Withdrawn", respondedAt: Date.now() });
+    await closeCampaign(ctx, campaign._id, "Cancelled", {
+      endReason: "Position filled outside the campaign",
+    });
+    return { autoReply: "Thanks! That shift has already been filled." };
+  }
+
+  const blocker = await getAcceptBlocker(ctx, provider, position);
+  if (blocker) {
+    await ctx.db.patch(offer._id, {
+      status: "Declined",
+      respondedAt: Date.now(),
+      errorMessage: `Ineligible: ${blocker}`,
+    });
+    await advanceIfWaveClosed(ctx, campaign._id);
+    return {
+      autoReply: "Thanks! We can't book you for that shift (schedule conflict, duty-hour limit or credentials). A scheduler will follow up.",
+    };
+  }
+
+  // Provider said YES - book them straight into a confirmed assignment
+  const assignmentId = await ctx.db.insert("scenario_assignments", {
+    scenarioPositionId: position._id,
+    providerId: provider._id,
+    scenarioId: position.scenarioId,
+    status: "Confirmed",
+    assignedAt: Date.now(),
+    assignedBy: campaign.createdBy,
+    notes: "Accepted via SMS campaign",
+  });
+  await ctx.db.patch(position._id, { status: "Confirmed" });
+
+  await ctx.db.patch(offer._id, { status: "Accepted", respondedAt: Date.now() });
+  await closeCampaign(ctx, campaign._id, "Filled", {
+    filledByProviderId: provider._id,
+    assignmentId,
+  });
+
+  // Log the assignment (no auth context on inbound SMS)
+  await ctx.db.insert("audit_logs", {
+    userId: campaign.createdBy,
+    action: "ASSIGN",
+    resourceType: "SCENARIO_ASSIGNMENT",
+    resourceId: assignmentId,
+    changes: {
+      providerId: provider._id,
+      positionId: position._id,
+      campaignId: campaign._id,
+      date: position.date,
+      shiftType: position.shiftType,
+      source: "sms_campaign",
+    },
+    timestamp: Date.now(),
+  });
+
+  return {
+    autoReply: `You're booked for the ${position.shiftType} shift on ${position.date} (${position.shiftStart}-${position.shiftEnd}). Thank you!`,
+  };
+}
+
+/**
+ * Pass on every offer still waiting on a provider who opted out (STOP),
+ * so their campaigns move on
+ */
+export async function declinePendingOffers(ctx: MutationCtx, providerId: Id<"providers">) {
+  const offers = await ctx.db
+    .query("sms_campaign_offers")
+    .withIndex("by_provider_status", (q) => q.eq("providerId", providerId).eq("status", "Pending"))
+    .collect();
+
+  for (const offer of offers) {
+    await ctx.db.patch(offer._id, { status: "Declined", respondedAt: Date.now() });
+    await advanceIfWaveClosed(ctx, offer.campaignId);
+  }
+}
@@ -0,0 +1,108 @@
+import { MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { toSmsLogStatus, describeTwilioError } from "./twilio";
+import { advanceIfWaveClosed } from "./smsCampaigns";
+
+/**
+ * Twilio delivery status callbacks, shared by the callback handler and
+ * every mutation that writes an outbound log (sms.ts, smsCampaigns.ts).
+ * The send happens in an action and the log is written afterwards, so a
+ * callback can beat its log; those are held in sms_status_callbacks and
+ * applied once the log exists.
+ */
+
+// Held callbacks whose log never appeared (e.g. testSMS, which isn't logged)
+const HELD_CALLBACK_TTL_MS = 24 * 60 * 60 * 1000;
+const HELD_CALLBACK_PRUNE_BATCH = 20;
+
+/**
+ * Apply one delivery status to an outbound log
+ * Callbacks can arrive out of order, so a log never moves back from
+ * "delivered"/"failed" to "sent". Returns whether the log changed.
+ */
+export async function applyDeliveryStatus(
+  ctx: MutationCtx,
+  log: Doc<"sms_logs">,
+  messageStatus: string,
+  errorCode?: string
+): Promise<boolean> {
+  const status = toSmsLogStatus(messageStatus);
+  if (status === "sent" || log.status === "delivered" || log.status === "failed") {
+    return false;
+  }
+
+  await ctx.db.patch(log._id, {
+    status,
+    errorCode,
+    errorMessage: errorCode ? describeTwilioError(errorCode) : undefined,
+    statusUpdatedAt: Date.now(),
+  });
+
+  // A campaign offer that never reached the phone can't be answered - move on
+  if (status === "failed" && log.campaignId) {
+    const offer = await ctx.db
+      .query("sms_campaign_offers")
+      .withIndex("by_campaign", (q) => q.eq("campaignId", log.campaignId!))
+      .filter((q) => q.eq(q.field("smsLogId"), log._id))
+      .first();
+
+    if (offer && offer.status === "Pending") {
+      await ctx.db.patch(offer._id, {
+        status: "Failed",
+        errorMessage: errorCode ? describeTwilioError(errorCode) : "Undelivered",
+      });
+      await advanceIfWaveClosed(ctx, log.campaignId);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Keep a callback that arrived before its log, pruning stale ones
+ */
+export async function holdDeliveryStatus(
+  ctx: MutationCtx,
+  twilioSid: string,
+  messageStatus: string,
+  errorCode?: string
+) {
+  const stale = await ctx.db
+    .query("sms_status_callbacks")
+    .withIndex("by_received_at", (q) => q.lt("receivedAt", Date.now() - HELD_CALLBACK_TTL_MS))
+    .take(HELD_CALLBACK_PRUNE_BATCH);
+  for (const callback of stale) {
+    await ctx.db.delete(callback._id);
+  }
+
+  // Intermediate statuses never change a log
+  if (toSmsLogStatus(messageStatus) === "sent") return;
+
+  await ctx.db.insert("sms_status_callbacks", {
+    twilioSid,
+    messageStatus,
+    errorCode,
+    receivedAt: Date.now(),
+  });
+}
+
+/**
+ * Apply any callbacks held for a newly written outbound log, oldest first
+ * Call after anything that links to the log (e.g. an offer's smsLogId) is saved
+ */
+export async function applyHeldDeliveryStatuses(ctx: MutationCtx, logId: Id<"sms_logs">) {
+  const log = await ctx.db.get(logId);
+  if (!log?.twilioSid) return;
+  const twilioSid = log.twilioSid;
+
+  const held = await ctx.db
+    .query("sms_status_callbacks")
+    .withIndex("by_twilio_sid", (q) => q.eq("twilioSid", twilioSid))
+    .collect();
+
+  for (const callback of held.sort((a, b) => a.receivedAt - b.receivedAt)) {
+    const current = await ctx.db.get(logId);
+    if (current) await applyDeliveryStatus(ctx, current, callback.messageStatus, callback.errorCode);
+    await ctx.db.delete(callback._id);
+  }
+}
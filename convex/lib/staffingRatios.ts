@@ -0,0 +1,125 @@
+import { QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { loadUnitResolver } from "./unitMapping";
+
+/**
+ * Nurse-to-patient ratios
+ * Each hospital unit keeps a history of ratio tables (unit_staffing_ratios),
+ * one per effective date. A table lists patients-per-RN by shift and acuity
+ * tier; the unit's base tier covers its regular patients and 1:1 patients
+ * (ECMO/CVVH/Impella/IABP) use the one_to_one tier. Units without a table
+ * fall back to the defaults below.
+ */
+
+export const ACUITY_TIERS = [
+  { value: "floor", label: "Med/Surg Floor" },
+  { value: "telemetry", label: "Telemetry" },
+  { value: "step_down", label: "Step-Down" },
+  { value: "icu", label: "ICU" },
+  { value: "one_to_one", label: "1:1 Devices" },
+] as const;
+
+export type AcuityTier = (typeof ACUITY_TIERS)[number]["value"];
+
+export const STAFFING_SHIFTS = ["AM", "PM"] as const;
+
+// Patients per RN when a unit has no ratio table (or the table skips a tier)
+export const DEFAULT_RATIOS: Record<AcuityTier, number> = {
+  floor: 5,
+  telemetry: 4,
+  step_down: 3,
+  icu: 2,
+  one_to_one: 1,
+};
+
+export function isAcuityTier(value: string): value is AcuityTier {
+  return ACUITY_TIERS.some((tier) => tier.value === value);
+}
+
+/**
+ * Ratios in effect for one unit on one date
+ */
+export interface UnitRatios {
+  unitId: Id<"units"> | null;
+  versionId: Id<"unit_staffing_ratios"> | null;
+  effectiveDate: string | null;
+  baseTier: AcuityTier;
+  ratioFor: (shiftType: string, tier: AcuityTier) => number;
+}
+
+/**
+ * Patients per RN for a shift/tier, falling back to the tier's other
+ * shift and then the default
+ */
+function lookupRatio(version: Doc<"unit_staffing_ratios"> | null, shiftType: string, tier: AcuityTier) {
+  const rows = version?.ratios.filter((r) => r.acuityTier === tier) ?? [];
+  const row = rows.find((r) => r.shiftType === shiftType) ?? rows[0];
+  return row?.patientsPerNurse ?? DEFAULT_RATIOS[tier];
+}
+
+/**
+ * RNs needed for a shift: regular patients at the base tier ratio plus
+ * 1:1 patients at the one_to_one ratio
+ */
+export function rnNeeded(ratios: UnitRatios, shiftType: string, regularPatients: number, oneToOnePatients: number) {
+  const regularRn = Math.ceil(Math.max(0, regularPatients) / ratios.ratioFor(shiftType, ratios.baseTier));
+  const oneToOneRn = Math.ceil(Math.max(0, oneToOnePatients) / ratios.ratioFor(shiftType, "one_to_one"));
+  return { regularRn, oneToOneRn, totalRn: regularRn + oneToOneRn };
+}
+
+/**
+ * The version of a unit's ratio table in effect on a date
+ * (latest effectiveDate on or before it)
+ */
+export function versionOn(versions: Doc<"unit_staffing_ratios">[], date: string) {
+  return versions
+    .filter((v) => v.effectiveDate <= date)
+    .reduce<Doc<"unit_staffing_ratios"> | null>(
+      (latest, v) => (!latest || v.effectiveDate > latest.effectiveDate ? v : latest),
+      null
+    );
+}
+
+/**
+ * Load a hospital's units and census mappings and return a matcher from
+ * census unit name (raw sheet name or mapped name) to hospital unit:
+ * census_unit_mappings rules first, then by unit name
+ */
+export async function loadCensusUnitMatcher(ctx: QueryCtx, hospitalId: Id<"hospitals">) {
+  const resolve = await loadUnitResolver(ctx, hospitalId);
+  return (censusUnitName: string): Id<"units"> | null => resolve(censusUnitName).unitId;
+}
+
+/**
+ * Load every ratio table for a hospital and return a resolver from census
+ * unit name to the ratios in effect on a date
+ */
+export async function loadRatioResolver(ctx: QueryCtx, hospitalId: Id<"hospitals">) {
+  const [findUnitId, versions] = await Promise.all([
+    loadCensusUnitMatcher(ctx, hospitalId),
+    ctx.db
+      .query("unit_staffing_ratios")
+      .withIndex("by_hospital", (q) => q.eq("hospitalId", hospitalId))
+      .collect(),
+  ]);
+
+  return (censusUnitName: string, unitType: string, date: string): UnitRatios => {
+    const unitId = findUnitId(censusUnitName);
+    const version = unitId
+      ? versionOn(
+          versions.filter((v) => v.unitId === unitId),
+          date
+        )
+      : null;
+    const baseTier: AcuityTier =
+      version && isAcuityTier(version.baseTier) ? version.baseTier : unitType === "icu" ? "icu" : "floor";
+
+    return {
+      unitId,
+      versionId: version?._id ?? null,
+      effectiveDate: version?.effectiveDate ?? null,
+      baseTier,
+      ratioFor: (shiftType, tier) => lookupRatio(version, shiftType, tier),
+    };
+  };
+}
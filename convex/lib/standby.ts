@@ -0,0 +1,141 @@
+import { MutationCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+import { loadCoverageTarget, checkCoverageEligibility } from "./scenarioEligibility";
+
+/**
+ * Standby lists and backup positions
+ * Admins rank standby providers against one position or a whole
+ * service/date/shift bucket (standby.ts). When an assignment is cancelled
+ * the position is reopened through reopenPosition, which promotes the
+ * first eligible standby. Backup positions (isStandby) are generated from
+ * services.backupHeadcount and never count towards coverage.
+ */
+
+/**
+ * Whether a position counts towards filled/total coverage
+ */
+export function isCoveragePosition(position: Pick<Doc<"scenario_positions">, "isActive" | "isStandby">) {
+  return position.isActive && !position.isStandby;
+}
+
+/**
+ * Waiting standby entries for a position: its own list first, then its bucket
+ */
+export async function getStandbyCandidates(
+  ctx: MutationCtx,
+  position: Doc<"scenario_positions">
+): Promise<Doc<"scenario_standby">[]> {
+  const positionEntries = await ctx.db
+    .query("scenario_standby")
+    .withIndex("by_position", (q) => q.eq("scenarioPositionId", position._id))
+    .filter((q) => q.eq(q.field("status"), "Waiting"))
+    .collect();
+
+  const bucketEntries = await ctx.db
+    .query("scenario_standby")
+    .withIndex("by_bucket", (q) =>
+      q
+        .eq("scenarioId", position.scenarioId)
+        .eq("serviceId", position.serviceId)
+        .eq("date", position.date)
+        .eq("shiftType", position.shiftType)
+    )
+    .filter((q) =>
+      q.and(q.eq(q.field("status"), "Waiting"), q.eq(q.field("scenarioPositionId"), undefined))
+    )
+    .collect();
+
+  const byRank = (a: Doc<"scenario_standby">, b: Doc<"scenario_standby">) => a.rank - b.rank;
+  return [...positionEntries.sort(byRank), ...bucketEntries.sort(byRank)];
+}
+
+/**
+ * Move the first eligible standby onto an Open position and notify them
+ * Providers who can't take it (conflict, duty hours, ...) stay on the list
+ */
+export async function promoteStandby(
+  ctx: MutationCtx,
+  position: Doc<"scenario_positions">,
+  promotedBy: Id<"users">
+): Promise<{ standbyId: Id<"scenario_standby">; assignmentId: Id<"scenario_assignments">; providerId: Id<"providers"> } | null> {
+  if (position.status !== "Open" || !position.isActive) return null;
+
+  const scenario = await ctx.db.get(position.scenarioId);
+  if (!scenario || scenario.status !== "Active") return null;
+
+  const target = await loadCoverageTarget(ctx, position);
+  if (!target) return null;
+
+  for (const entry of await getStandbyCandidates(ctx, position)) {
+    const provider = await ctx.db.get(entry.providerId);
+    if (!provider || !provider.isActive) continue;
+    const providerJobType = await ctx.db.get(provider.jobTypeId);
+    if (!providerJobType) continue;
+
+    const check = await checkCoverageEligibility(ctx, provider, providerJobType, target);
+    if (!check.eligible) continue;
+
+    const assignmentId = await ctx.db.insert("scenario_assignments", {
+      scenarioPositionId: position._id,
+      providerId: provider._id,
+      scenarioId: position.scenarioId,
+      status: "Active",
+      assignedAt: Date.now(),
+      assignedBy: promotedBy,
+      notes: "Promoted from standby",
+    });
+    await ctx.db.patch(position._id, { status: "Assigned" });
+    await ctx.db.patch(entry._id, {
+      status: "Promoted",
+      promotedAt: Date.now(),
+      promotedAssignmentId: assignmentId,
+      promotedPositionId: position._id,
+    });
+
+    await ctx.db.insert("audit_logs", {
+      userId: promotedBy,
+      action: "ASSIGN",
+      resourceType: "SCENARIO_ASSIGNMENT",
+      resourceId: assignmentId,
+      changes: {
+        providerId: provider._id,
+        positionId: position._id,
+        date: position.date,
+        shiftType: position.shiftType,
+        standbyId: entry._id,
+        source: "standby_promotion",
+        ...(check.dutyHourViolations.length > 0 && {
+          dutyHourWarnings: check.dutyHourViolations.map((v) => v.message),
+        }),
+      },
+      timestamp: Date.now(),
+    });
+
+    await ctx.scheduler.runAfter(0, internal.shiftReminders.sendReminder, {
+      assignmentId,
+      kind: "promoted",
+    });
+
+    return { standbyId: entry._id, assignmentId, providerId: provider._id };
+  }
+
+  return null;
+}
+
+/**
+ * Put a position back to Open after its assignment is cancelled,
+ * promoting the top eligible standby if there is one
+ */
+export async function reopenPosition(
+  ctx: MutationCtx,
+  positionId: Id<"scenario_positions">,
+  promotedBy: Id<"users">
+) {
+  await ctx.db.patch(positionId, { status: "Open" });
+
+  const position = await ctx.db.get(positionId);
+  if (!position) return null;
+
+  return await promoteStandby(ctx, position, promotedBy);
+}
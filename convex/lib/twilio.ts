@@ -0,0 +1,182 @@
+/**
+ * Twilio REST helpers
+ * Set TWILIO_API_BASE_URL to point at a local fake (see scripts/fake-twilio.mjs)
+ * instead of https://api.twilio.com when testing
+ */
+
+export interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  fromPhone: string;
+}
+
+/**
+ * Read Twilio credentials from the Convex environment
+ * Returns null when any of them is missing
+ */
+export function getTwilioConfig(): TwilioConfig | null {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const fromPhone = process.env.TWILIO_PHONE_NUMBER;
+
+  if (!accountSid || !authToken || !fromPhone) return null;
+  return { accountSid, authToken, fromPhone };
+}
+
+/**
+ * Messages endpoint for an account
+ */
+export function twilioMessagesUrl(accountSid: string): string {
+  const baseUrl = (process.env.TWILIO_API_BASE_URL || "https://api.twilio.com").replace(/\/$/, "");
+  return `${baseUrl}/2010-04-01/Accounts/${accountSid}/Messages.json`;
+}
+
+/**
+ * Delivery status webhook for outbound messages (see http.ts)
+ * Undefined outside a deployment, in which case Twilio sends no callbacks
+ */
+export function twilioStatusCallbackUrl(): string | undefined {
+  const siteUrl = process.env.TWILIO_WEBHOOK_BASE_URL || process.env.CONVEX_SITE_URL;
+  return siteUrl ? `${siteUrl.replace(/\/$/, "")}/twilio/status` : undefined;
+}
+
+/**
+ * Form body for the Messages API, with the delivery status callback attached
+ */
+export function twilioMessageParams(to: string, from: string, body: string): URLSearchParams {
+  const params = new URLSearchParams({ To: to, From: from, Body: body });
+  const statusCallback = twilioStatusCallbackUrl();
+  if (statusCallback) params.set("StatusCallback", statusCallback);
+  return params;
+}
+
+/**
+ * Format a stored phone number as E.164 for sending
+ */
+export function toE164(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  if (digits.length === 10) return "+1" + digits;
+  return "+" + digits;
+}
+
+/**
+ * Send one message. Never throws - errors are returned for logging
+ */
+export async function sendTwilioMessage(
+  config: TwilioConfig,
+  to: string,
+  body: string
+): Promise<{ success: true; sid?: string } | { success: false; error: string }> {
+  try {
+    const response = await fetch(twilioMessagesUrl(config.accountSid), {
+      method: "POST",
+      headers: {
+        "Authorization": `Basic ${btoa(`${config.accountSid}:${config.authToken}`)}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: twilioMessageParams(to, config.fromPhone, body),
+    });
+
+    const result: { sid?: string; message?: string } = await response.json();
+
+    if (!response.ok) {
+      return { success: false, error: result.message || "Twilio API error" };
+    }
+
+    return { success: true, sid: result.sid };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// WEBHOOKS
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * URL Twilio signed a webhook request with
+ * Set TWILIO_WEBHOOK_BASE_URL when Twilio is pointed at a custom domain or proxy,
+ * since the signature covers the exact URL configured in the Twilio console
+ */
+export function twilioWebhookUrl(request: Request): string {
+  const baseUrl = process.env.TWILIO_WEBHOOK_BASE_URL;
+  if (!baseUrl) return request.url;
+
+  const url = new URL(request.url);
+  return `${baseUrl.replace(/\/$/, "")}${url.pathname}${url.search}`;
+}
+
+/**
+ * Check the X-Twilio-Signature header of a form-encoded webhook
+ * Signature = base64(HMAC-SHA1(authToken, url + each POST param name + value, sorted by name))
+ */
+export async function verifyTwilioSignature(
+  authToken: string,
+  url: string,
+  params: URLSearchParams,
+  signature: string | null
+): Promise<boolean> {
+  if (!signature) return false;
+
+  const payload =
+    url +
+    Array.from(params.entries())
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, value]) => key + value)
+      .join("");
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(authToken),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"]
+  );
+  const digest = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(payload));
+  const expected = btoa(String.fromCharCode(...new Uint8Array(digest)));
+
+  // Constant-time comparison
+  if (expected.length !== signature.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Map a Twilio MessageStatus onto sms_logs.status
+ * Intermediate states (queued, sending, ...) stay "sent"
+ */
+export function toSmsLogStatus(messageStatus: string): "sent" | "delivered" | "failed" {
+  switch (messageStatus) {
+    case "delivered":
+    case "read":
+      return "delivered";
+    case "undelivered":
+    case "failed":
+    case "canceled":
+      return "failed";
+    default:
+      return "sent";
+  }
+}
+
+// Common carrier errors reported on status callbacks
+// https://www.twilio.com/docs/api/errors
+const CARRIER_ERRORS: Record<string, string> = {
+  "21610": "Recipient has unsubscribed (replied STOP)",
+  "30003": "Unreachable destination handset",
+  "30004": "Message blocked",
+  "30005": "Unknown destination handset",
+  "30006": "Landline or unreachable carrier",
+  "30007": "Carrier filtered message",
+  "30008": "Unknown carrier error",
+};
+
+/**
+ * Readable description of a Twilio error code
+ */
+export function describeTwilioError(errorCode: string): string {
+  return CARRIER_ERRORS[errorCode] ?? `Twilio error ${errorCode}`;
+}
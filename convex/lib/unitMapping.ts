@@ -1,89 +1,185 @@
+import { MutationCtx, QueryCtx } from "../_generated/server";
+import { Doc, Id } from "../_generated/dataModel";
+
 /**
  * Unit Mapping Utility
- * Normalizes unit names between census data and procedure predictions.
+ * Resolves census sheet names and procedure destination names to a
+ * hospital's units using its census_unit_mappings rules, so census,
+ * services and staffing agree on the unit. A rule matches a raw name
+ * exactly, by prefix, by substring or by regular expression (always
+ * case-insensitive). Reviewed exact rules win, then pattern rules by
+ * priority. Names no rule covers are recorded as pending mappings at
+ * import time for review.
  */
 
-// ICU unit aliases - map various names to canonical "CCU"
-const ICU_ALIASES: string[] = [
-  "CCU",
-  "CSIU",
-  "CVU",
-  "CICU",
-  "ICU",
-  "MSM",
-];
-
-// Floor unit aliases - map various names to canonical "N07E"
-const FLOOR_ALIASES: string[] = [
-  "N07E",
-  "7E",
-  "N7E",
-];
+export const UNIT_MATCH_TYPES = ["exact", "prefix", "contains", "regex"] as const;
+export type UnitMatchType = (typeof UNIT_MATCH_TYPES)[number];
+
+export interface ResolvedUnit {
+  rawName: string;
+  unitName: string; // Linked unit's name, else the rule's canonical name, else the raw name
+  unitType: "icu" | "floor";
+  unitId: Id<"units"> | null;
+  mappingId: Id<"census_unit_mappings"> | null;
+  mapped: boolean; // A reviewed rule (or a unit with the same name) matched
+}
+
+type MappingRule = Doc<"census_unit_mappings">;
+
+export function matchTypeOf(mapping: MappingRule): UnitMatchType {
+  return (UNIT_MATCH_TYPES as readonly string[]).includes(mapping.matchType ?? "")
+    ? (mapping.matchType as UnitMatchType)
+    : "exact";
+}
 
 /**
- * Normalize a unit name to a canonical form.
- * - ICU units (CCU, CSIU, CVU, etc.) → "CCU"
- * - Floor units (N07E, 7E, etc.) → "N07E"
- * - Unknown units → returned as-is
+ * Whether a mapping still awaits review. Rows from before review existed
+ * count as reviewed once linked to a unit.
  */
-export function normalizeUnitName(rawName: string): string {
-  if (!rawName) return rawName;
-
-  const upper = rawName.toUpperCase().trim();
+export function needsReview(mapping: MappingRule): boolean {
+  return mapping.reviewStatus ? mapping.reviewStatus === "pending" : !mapping.unitId;
+}
 
-  // Check ICU aliases
-  for (const alias of ICU_ALIASES) {
-    if (upper.includes(alias)) {
-      return "CCU";
-    }
+/**
+ * Check a rule's pattern; throws with the problem found
+ */
+export function validatePattern(matchType: string, pattern: string) {
+  if (!(UNIT_MATCH_TYPES as readonly string[]).includes(matchType)) {
+    throw new Error(`Unknown match type: ${matchType}`);
   }
-
-  // Check floor aliases
-  for (const alias of FLOOR_ALIASES) {
-    if (upper.includes(alias)) {
-      return "N07E";
+  if (!pattern.trim()) throw new Error("Pattern is required");
+  if (matchType === "regex") {
+    try {
+      new RegExp(pattern, "i");
+    } catch {
+      throw new Error(`Invalid regular expression: ${pattern}`);
     }
   }
+}
 
-  // Return original if no mapping found
-  return rawName;
+export function ruleMatches(mapping: MappingRule, rawName: string): boolean {
+  const name = rawName.trim().toUpperCase();
+  const pattern = mapping.rawUnitName.trim().toUpperCase();
+  switch (matchTypeOf(mapping)) {
+    case "exact":
+      return name === pattern;
+    case "prefix":
+      return name.startsWith(pattern);
+    case "contains":
+      return name.includes(pattern);
+    case "regex":
+      try {
+        return new RegExp(mapping.rawUnitName, "i").test(rawName.trim());
+      } catch {
+        return false;
+      }
+  }
 }
 
 /**
- * Determine unit type based on name.
+ * First guess at a new name's unit type, until someone reviews it
  */
-export function getUnitType(unitName: string): "icu" | "floor" {
-  const normalized = normalizeUnitName(unitName);
+export function guessUnitType(rawName: string): "icu" | "floor" {
+  return /ICU|CCU/i.test(rawName) ? "icu" : "floor";
+}
 
-  // Known ICU canonical names
-  if (normalized === "CCU") {
-    return "icu";
-  }
+/**
+ * Build a resolver from a hospital's mappings and units:
+ * reviewed exact rules, then pattern rules (lowest priority first), then
+ * a pending row for the name, then a unit with the same name
+ */
+export function buildUnitResolver(mappings: MappingRule[], units: Doc<"units">[]) {
+  const unitsById = new Map(units.map((u) => [u._id.toString(), u]));
+  const reviewed = mappings.filter((m) => !needsReview(m));
+  const exactRules = reviewed.filter((m) => matchTypeOf(m) === "exact");
+  const patternRules = reviewed
+    .filter((m) => matchTypeOf(m) !== "exact")
+    .sort((a, b) => (a.priority ?? 100) - (b.priority ?? 100) || a.createdAt - b.createdAt);
+  const pending = mappings.filter(needsReview);
 
-  // Check if original contains ICU patterns
-  const upper = unitName.toUpperCase();
-  for (const alias of ICU_ALIASES) {
-    if (upper.includes(alias)) {
-      return "icu";
+  return (rawName: string): ResolvedUnit => {
+    const rule = exactRules.find((m) => ruleMatches(m, rawName)) ?? patternRules.find((m) => ruleMatches(m, rawName));
+    if (rule) {
+      const unit = rule.unitId ? unitsById.get(rule.unitId.toString()) : undefined;
+      return {
+        rawName,
+        unitName: unit?.name ?? (rule.canonicalName || rawName),
+        unitType: rule.unitType === "icu" ? "icu" : "floor",
+        unitId: unit?._id ?? null,
+        mappingId: rule._id,
+        mapped: true,
+      };
     }
-  }
 
-  return "floor";
+    const upper = rawName.trim().toUpperCase();
+    const unit = units.find((u) => u.name.toUpperCase() === upper);
+    const stub = pending.find((m) => ruleMatches(m, rawName));
+    return {
+      rawName,
+      unitName: unit?.name ?? rawName,
+      unitType: stub ? (stub.unitType === "icu" ? "icu" : "floor") : guessUnitType(rawName),
+      unitId: unit?._id ?? null,
+      mappingId: stub?._id ?? null,
+      mapped: !!unit,
+    };
+  };
 }
 
 /**
- * Get list of canonical unit names for display.
+ * Load a hospital's mappings and units and return its resolver
  */
-export function getCanonicalUnits(): { name: string; type: "icu" | "floor" }[] {
-  return [
-    { name: "CCU", type: "icu" },
-    { name: "N07E", type: "floor" },
-  ];
+export async function loadUnitResolver(ctx: QueryCtx, hospitalId: Id<"hospitals">) {
+  const [units, mappings] = await Promise.all([
+    ctx.db
+      .query("units")
+      .withIndex("by_hospital", (q) => q.eq("hospitalId", hospitalId))
+      .collect(),
+    ctx.db
+      .query("census_unit_mappings")
+      .withIndex("by_hospital", (q) => q.eq("hospitalId", hospitalId))
+      .collect(),
+  ]);
+  return buildUnitResolver(mappings, units);
 }
 
 /**
- * Check if a unit name represents an ICU.
+ * Record unit names seen at import time, with their expected unit type.
+ * Names no rule covers get a pending mapping for review; pending names
+ * seen again are touched.
+ * Returns the names still awaiting review.
  */
-export function isICUUnit(unitName: string): boolean {
-  return getUnitType(unitName) === "icu";
+export async function recordUnitNames(
+  ctx: MutationCtx,
+  hospitalId: Id<"hospitals">,
+  userId: Id<"users">,
+  names: Map<string, "icu" | "floor">
+) {
+  const resolve = await loadUnitResolver(ctx, hospitalId);
+  const now = Date.now();
+  const unmapped: string[] = [];
+
+  for (const [rawUnitName, unitType] of names) {
+    const resolved = resolve(rawUnitName);
+    if (resolved.mapped) continue;
+    unmapped.push(rawUnitName);
+
+    if (resolved.mappingId) {
+      await ctx.db.patch(resolved.mappingId, { lastSeenAt: now });
+      continue;
+    }
+
+    await ctx.db.insert("census_unit_mappings", {
+      hospitalId,
+      rawUnitName,
+      matchType: "exact",
+      unitType,
+      isICU: unitType === "icu",
+      reviewStatus: "pending",
+      lastSeenAt: now,
+      createdBy: userId,
+      createdAt: now,
+    });
+  }
+
+  return unmapped;
 }
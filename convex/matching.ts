@@ -1,6 +1,7 @@
 import { query, mutation } from "./_generated/server";
 import { v } from "convex/values";
 import { Id } from "./_generated/dataModel";
+import { getCredentialMatch } from "./lib/credentials";
 
 /**
  * Get open job positions for matching
@@ -109,6 +110,10 @@ export const findMatchesForPosition = query({
     const requiredSkillIds = new Set(requiredSkillLinks.map((s) => s.skillId.toString()));
     const requiredSkills = await Promise.all(requiredSkillLinks.map((s) => ctx.db.get(s.skillId)));
 
+    // Positions here have no date; credentials must be good today
+    const today = new Date().toISOString().split("T")[0];
+    const hospitalState = (await ctx.db.get(job.hospitalId))?.state;
+
     // Get all active providers with matching job type
     const providers = await ctx.db
       .query("providers")
@@ -145,7 +150,17 @@ export const findMatchesForPosition = query({
         .withIndex("by_provider", (q) => q.eq("providerId", provider._id))
         .collect();
 
-      const providerSkillIds = new Set(providerSkillLinks.map((s) => s.skillId.toString()));
+      // Expired or rejected required credentials exclude; unverified ones
+      // count but can't make a Perfect match
+      const credentials = getCredentialMatch(
+        requiredSkillLinks.map((s) => s.skillId),
+        providerSkillLinks,
+        today,
+        hospitalState
+      );
+      if (credentials.blockedSkills.length > 0) continue;
+
+      const providerSkillIds = new Set(credentials.matchedSkills.map((id) => id.toString()));
 
       // Calculate matches
       const matchedSkills: string[] = [];
@@ -173,7 +188,7 @@ export const findMatchesForPosition = query({
       let matchQuality: "Perfect" | "Good" | "Partial";
       if (missingSkills.length > 0) {
         matchQuality = "Partial";
-      } else if (extraSkills.length === 0) {
+      } else if (extraSkills.length === 0 && credentials.pendingSkills.length === 0) {
         matchQuality = "Perfect";
       } else {
         matchQuality = "Good";
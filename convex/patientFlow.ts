@@ -0,0 +1,47 @@
+import { query } from "./_generated/server";
+import { v } from "convex/values";
+import { requireAuth, requireHospitalAccess } from "./lib/auth";
+import { loadFlowModel, runFlowSimulation } from "./lib/patientFlow";
+
+/**
+ * Patient flow projections
+ * Day-by-day occupancy, overflow and boarding per unit from the current
+ * census, scheduled procedure admits and ER feeders (lib/patientFlow.ts).
+ */
+
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 14;
+const DEFAULT_RUNS = 200;
+const MAX_RUNS = 500;
+const DEFAULT_SEED = 20240101;
+
+export const simulate = query({
+  args: {
+    hospitalId: v.id("hospitals"),
+    days: v.optional(v.number()),
+    runs: v.optional(v.number()),
+    seed: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx);
+    await requireHospitalAccess(ctx, args.hospitalId);
+
+    const days = Math.min(MAX_DAYS, Math.max(1, Math.round(args.days ?? DEFAULT_DAYS)));
+    const runs = Math.min(MAX_RUNS, Math.max(1, Math.round(args.runs ?? DEFAULT_RUNS)));
+
+    const model = await loadFlowModel(ctx, args.hospitalId, days);
+    const units = runFlowSimulation(model, runs, args.seed ?? DEFAULT_SEED);
+
+    return {
+      dates: model.dates,
+      censusDate: model.censusDate,
+      runs,
+      patientsModeled: {
+        census: model.patients.filter((p) => p.source === "census").length,
+        procedureAdmits: model.patients.filter((p) => p.source === "procedure").length,
+      },
+      unmodeled: model.unmodeled,
+      units,
+    };
+  },
+});
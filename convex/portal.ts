@@ -0,0 +1,903 @@
+import { v } from "convex/values";
+import { action, internalMutation, mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  LOGIN_CODE_TTL_MS,
+  MAX_CODE_ATTEMPTS,
+  MAX_CODES_PER_WINDOW,
+  SESSION_TTL_MS,
+  hashSecret,
+  generateLoginCode,
+  generateToken,
+  findProviderByIdentifier,
+  getPortalProvider,
+  requirePortalProvider,
+} from "./lib/portalAuth";
+import { claimPositionsForProvider, listClaimablePositions } from "./lib/claims";
+import { upsertAvailability } from "./lib/availability";
+import { loadCoverageTarget, checkCoverageEligibility } from "./lib/scenarioEligibility";
+import { MARKETPLACE_TYPES, isMarketplaceRequest, checkTakeover, checkTrade } from "./lib/shiftTrades";
+import { getAppUrl, sendEmail } from "./lib/sendgrid";
+import { getTwilioConfig, sendTwilioMessage, toE164 } from "./lib/twilio";
+
+// ═══════════════════════════════════════════════════════════════════
+// PROVIDER PORTAL
+// Provider self-service: open shifts across active scenarios, own
+// availability, upcoming assignments and drop/swap requests.
+// Every function takes a portal session token (see lib/portalAuth.ts)
+// and writes through the same helpers as the admin mutations.
+// ═══════════════════════════════════════════════════════════════════
+
+const MAX_AVAILABILITY_RANGE_DAYS = 90;
+
+const today = () => new Date().toISOString().split("T")[0];
+
+/**
+ * Posted or pending request an assignment is part of, either as the
+ * shift being given up or as the shift offered in a trade
+ */
+async function findOpenRequest(ctx: QueryCtx, assignmentId: Id<"scenario_assignments">) {
+  const isOpen = (r: Doc<"shift_change_requests">) => r.status === "Posted" || r.status === "Pending";
+
+  const own = await ctx.db
+    .query("shift_change_requests")
+    .withIndex("by_assignment", (q) => q.eq("assignmentId", assignmentId))
+    .collect();
+  const offered = await ctx.db
+    .query("shift_change_requests")
+    .withIndex("by_offered_assignment", (q) => q.eq("offeredAssignmentId", assignmentId))
+    .collect();
+
+  return own.find(isOpen) ?? offered.find(isOpen) ?? null;
+}
+
+/**
+ * Portal actions have no Clerk user - attribute audit entries to
+ * whoever created the provider record, tagged with source "portal"
+ */
+async function portalAudit(
+  ctx: MutationCtx,
+  provider: Doc<"providers">,
+  action: string,
+  resourceType: string,
+  resourceId: string,
+  changes: Record<string, unknown>
+) {
+  await ctx.db.insert("audit_logs", {
+    userId: provider.createdBy,
+    action,
+    resourceType,
+    resourceId,
+    changes: {
+      ...changes,
+      providerId: provider._id,
+      providerName: `${provider.firstName} ${provider.lastName}`,
+      source: "portal",
+    },
+    timestamp: Date.now(),
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// SIGN-IN
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Send a sign-in code and magic link to a provider's email or phone
+ * Responds the same way whether or not the identifier matched a provider
+ */
+export const requestLogin = action({
+  args: { identifier: v.string() },
+  handler: async (ctx, args): Promise<{ sent: true }> => {
+    const login = await ctx.runMutation(internal.portal.createLoginCode, {
+      identifier: args.identifier,
+    });
+    if (!login) return { sent: true };
+
+    const link = `${getAppUrl()}/portal/login?token=${login.linkToken}`;
+    const minutes = LOGIN_CODE_TTL_MS / 60000;
+
+    if (login.channel === "email") {
+      const result = await sendEmail({
+        to: login.to,
+        toName: login.providerName,
+        subject: "Your Strike Prep sign-in code",
+        text: `Hi ${login.firstName},\n\nYour sign-in code is ${login.code}. It expires in ${minutes} minutes.\n\nOr sign in with this link: ${link}\n\nIf you didn't ask to sign in, you can ignore this email.`,
+      });
+      if (!result.success) console.error(`Portal sign-in email failed: ${result.error}`);
+    } else {
+      const config = getTwilioConfig();
+      if (!config) {
+        console.error("Portal sign-in SMS failed: Twilio not configured");
+        return { sent: true };
+      }
+      const result = await sendTwilioMessage(
+        config,
+        toE164(login.to),
+        `Your Strike Prep sign-in code is ${login.code} (expires in ${minutes} min). Or sign in: ${link}`
+      );
+      if (!result.success) console.error(`Portal sign-in SMS failed: ${result.error}`);
+    }
+
+    return { sent: true };
+  },
+});
+
+export const createLoginCode = internalMutation({
+  args: { identifier: v.string() },
+  handler: async (ctx, args) => {
+    const match = await findProviderByIdentifier(ctx, args.identifier);
+    if (!match) return null;
+
+    const { provider, channel } = match;
+    const to = channel === "email" ? provider.email : provider.cellPhone;
+    if (!to || (channel === "sms" && provider.smsOptOut)) return null;
+
+    // Rate limit code requests per provider
+    const now = Date.now();
+    const recentCodes = await ctx.db
+      .query("provider_login_codes")
+      .withIndex("by_provider", (q) => q.eq("providerId", provider._id))
+      .filter((q) => q.gt(q.field("createdAt"), now - LOGIN_CODE_TTL_MS))
+      .collect();
+    if (recentCodes.length >= MAX_CODES_PER_WINDOW) return null;
+
+    const code = generateLoginCode();
+    const linkToken = generateToken();
+
+    await ctx.db.insert("provider_login_codes", {
+      providerId: provider._id,
+      channel,
+      codeHash: await hashSecret(code),
+      linkTokenHash: await hashSecret(linkToken),
+      attempts: 0,
+      expiresAt: now + LOGIN_CODE_TTL_MS,
+      createdAt: now,
+    });
+
+    return {
+      channel,
+      to,
+      code,
+      linkToken,
+      firstName: provider.firstName,
+      providerName: `${provider.firstName} ${provider.lastName}`,
+    };
+  },
+});
+
+/**
+ * Start a session for a provider and retire the code used to get it
+ */
+async function startSession(ctx: MutationCtx, loginCode: Doc<"provider_login_codes">) {
+  const sessionToken = generateToken();
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+
+  await ctx.db.patch(loginCode._id, { usedAt: Date.now() });
+  await ctx.db.insert("provider_sessions", {
+    providerId: loginCode.providerId,
+    tokenHash: await hashSecret(sessionToken),
+    createdAt: Date.now(),
+    expiresAt,
+  });
+
+  return { sessionToken, expiresAt };
+}
+
+/**
+ * Exchange a sign-in code for a session
+ * Returns errors instead of throwing so failed attempts are still counted
+ */
+export const verifyCode = mutation({
+  args: {
+    identifier: v.string(),
+    code: v.string(),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ sessionToken: string; expiresAt: number } | { error: string }> => {
+    const match = await findProviderByIdentifier(ctx, args.identifier);
+    if (!match) return { error: "Incorrect or expired code" };
+
+    const loginCode = await ctx.db
+      .query("provider_login_codes")
+      .withIndex("by_provider", (q) => q.eq("providerId", match.provider._id))
+      .order("desc")
+      .first();
+
+    if (!loginCode || loginCode.usedAt || loginCode.expiresAt < Date.now()) {
+      return { error: "Incorrect or expired code" };
+    }
+
+    if (loginCode.attempts >= MAX_CODE_ATTEMPTS) {
+      return { error: "Too many attempts. Please request a new code." };
+    }
+
+    if ((await hashSecret(args.code.trim())) !== loginCode.codeHash) {
+      await ctx.db.patch(loginCode._id, { attempts: loginCode.attempts + 1 });
+      return { error: "Incorrect or expired code" };
+    }
+
+    return await startSession(ctx, loginCode);
+  },
+});
+
+/**
+ * Exchange a magic link token for a session
+ */
+export const verifyLink = mutation({
+  args: { token: v.string() },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ sessionToken: string; expiresAt: number } | { error: string }> => {
+    const linkTokenHash = await hashSecret(args.token);
+    const loginCode = await ctx.db
+      .query("provider_login_codes")
+      .withIndex("by_link_token", (q) => q.eq("linkTokenHash", linkTokenHash))
+      .first();
+
+    if (!loginCode || loginCode.usedAt || loginCode.expiresAt < Date.now()) {
+      return { error: "This sign-in link has expired. Please request a new one." };
+    }
+
+    return await startSession(ctx, loginCode);
+  },
+});
+
+export const signOut = mutation({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const tokenHash = await hashSecret(args.sessionToken);
+    const session = await ctx.db
+      .query("provider_sessions")
+      .withIndex("by_token", (q) => q.eq("tokenHash", tokenHash))
+      .first();
+
+    if (session && !session.revokedAt) {
+      await ctx.db.patch(session._id, { revokedAt: Date.now() });
+    }
+    return { success: true };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// QUERIES
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Everything on the portal home page
+ * Returns null when the session is missing or expired
+ */
+export const getHome = query({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const provider = await getPortalProvider(ctx, args.sessionToken);
+    if (!provider) return null;
+
+    const [jobType, homeHospital] = await Promise.all([
+      ctx.db.get(provider.jobTypeId),
+      ctx.db.get(provider.hospitalId),
+    ]);
+    const fromDate = today();
+
+    // Active scenarios in the provider's health system with shifts they can claim
+    const activeScenarios = await ctx.db
+      .query("strike_scenarios")
+      .withIndex("by_health_system", (q) => q.eq("healthSystemId", provider.healthSystemId))
+      .filter((q) => q.and(q.eq(q.field("status"), "Active"), q.eq(q.field("isActive"), true)))
+      .collect();
+
+    const scenarios = [];
+    for (const scenario of activeScenarios) {
+      const affectsJobType = scenario.affectedJobTypes.some((a) => a.jobTypeId === provider.jobTypeId);
+      const { availablePositions } = await listClaimablePositions(ctx, provider, scenario._id);
+      if (!affectsJobType && availablePositions.length === 0) continue;
+
+      scenarios.push({
+        scenarioId: scenario._id,
+        name: scenario.name,
+        startDate: scenario.startDate,
+        endDate: scenario.endDate,
+        openShiftCount: availablePositions.length,
+      });
+    }
+
+    // Upcoming assignments with any outstanding drop/swap request
+    const assignments = await ctx.db
+      .query("scenario_assignments")
+      .withIndex("by_provider", (q) => q.eq("providerId", provider._id))
+      .filter((q) => q.neq(q.field("status"), "Cancelled"))
+      .collect();
+
+    const upcoming = [];
+    for (const assignment of assignments) {
+      const position = await ctx.db.get(assignment.scenarioPositionId);
+      if (!position || position.date < fromDate) continue;
+
+      const [service, hospital, scenario] = await Promise.all([
+        ctx.db.get(position.serviceId),
+        ctx.db.get(position.hospitalId),
+        ctx.db.get(assignment.scenarioId),
+      ]);
+      const pendingRequest = await findOpenRequest(ctx, assignment._id);
+
+      upcoming.push({
+        assignmentId: assignment._id,
+        scenarioId: assignment.scenarioId,
+        scenarioName: scenario?.name ?? "",
+        date: position.date,
+        shiftType: position.shiftType,
+        shiftStart: position.shiftStart,
+        shiftEnd: position.shiftEnd,
+        serviceName: service?.name ?? "",
+        hospitalName: hospital?.name ?? "",
+        status: assignment.status,
+        pendingRequest: pendingRequest
+          ? {
+              requestId: pendingRequest._id,
+              type: pendingRequest.type,
+              status: pendingRequest.status,
+              requestedAt: pendingRequest.requestedAt,
+              isOffered: pendingRequest.assignmentId !== assignment._id,
+            }
+          : null,
+      });
+    }
+    upcoming.sort((a, b) => a.date.localeCompare(b.date) || a.shiftStart.localeCompare(b.shiftStart));
+
+    const availability = await ctx.db
+      .query("provider_availability")
+      .withIndex("by_provider_date", (q) => q.eq("providerId", provider._id).gte("date", fromDate))
+      .collect();
+
+    return {
+      provider: {
+        firstName: provider.firstName,
+        lastName: provider.lastName,
+        email: provider.email,
+        cellPhone: provider.cellPhone,
+        jobTypeName: jobType?.name ?? "",
+        homeHospitalName: homeHospital?.name ?? "",
+      },
+      scenarios,
+      upcoming,
+      availability: availability.map((a) => ({
+        date: a.date,
+        availabilityType: a.availabilityType,
+        amAvailable: a.amAvailable,
+        pmAvailable: a.pmAvailable,
+        amPreferred: a.amPreferred ?? false,
+        pmPreferred: a.pmPreferred ?? false,
+        notes: a.notes,
+        source: a.source,
+      })),
+    };
+  },
+});
+
+/**
+ * Open shifts the provider can claim in one scenario
+ */
+export const getScenarioShifts = query({
+  args: {
+    sessionToken: v.string(),
+    scenarioId: v.id("strike_scenarios"),
+  },
+  handler: async (ctx, args) => {
+    const provider = await getPortalProvider(ctx, args.sessionToken);
+    if (!provider) return null;
+
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario || scenario.healthSystemId !== provider.healthSystemId || scenario.status !== "Active") {
+      return null;
+    }
+
+    const { availablePositions } = await listClaimablePositions(ctx, provider, args.scenarioId);
+    return { scenarioName: scenario.name, positions: availablePositions };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// SHIFTS
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Claim open shifts - same checks as claim links (lib/claims.ts)
+ */
+export const claimShifts = mutation({
+  args: {
+    sessionToken: v.string(),
+    scenarioId: v.id("strike_scenarios"),
+    positionIds: v.array(v.id("scenario_positions")),
+  },
+  handler: async (ctx, args) => {
+    const provider = await requirePortalProvider(ctx, args.sessionToken);
+
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (
+      !scenario ||
+      !scenario.isActive ||
+      scenario.status !== "Active" ||
+      scenario.healthSystemId !== provider.healthSystemId
+    ) {
+      throw new Error("Scenario is no longer active");
+    }
+
+    const { claimed, rejected, dutyHourWarnings } = await claimPositionsForProvider(ctx, {
+      provider,
+      scenario,
+      positionIds: args.positionIds,
+      assignedBy: provider.createdBy,
+      notes: "Self-claimed via provider portal",
+    });
+
+    if (claimed.length > 0) {
+      await portalAudit(ctx, provider, "SELF_CLAIM", "SCENARIO_ASSIGNMENT", args.scenarioId, {
+        claimedCount: claimed.length,
+        positionIds: claimed.map((c) => c.positionId),
+        ...(dutyHourWarnings.length > 0 && { dutyHourWarnings }),
+      });
+    }
+
+    return {
+      claimed: claimed.length,
+      errors: rejected.map((r) => r.reason),
+      dutyHourWarnings,
+    };
+  },
+});
+
+/**
+ * Confirm an assigned shift
+ */
+export const confirmAssignment = mutation({
+  args: {
+    sessionToken: v.string(),
+    assignmentId: v.id("scenario_assignments"),
+  },
+  handler: async (ctx, args) => {
+    const provider = await requirePortalProvider(ctx, args.sessionToken);
+
+    const assignment = await ctx.db.get(args.assignmentId);
+    if (!assignment || assignment.providerId !== provider._id) {
+      throw new Error("Assignment not found");
+    }
+    if (assignment.status !== "Active") {
+      throw new Error("Can only confirm active assignments");
+    }
+
+    await ctx.db.patch(args.assignmentId, { status: "Confirmed" });
+    await ctx.db.patch(assignment.scenarioPositionId, { status: "Confirmed" });
+
+    await portalAudit(ctx, provider, "UPDATE", "SCENARIO_ASSIGNMENT", args.assignmentId, {
+      action: "confirm",
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Ask to drop an assignment or swap it for an open shift (straight to a
+ * department admin, shiftRequests.ts), or post it to the shift
+ * marketplace as a giveaway or trade for a peer to accept
+ */
+export const requestShiftChange = mutation({
+  args: {
+    sessionToken: v.string(),
+    assignmentId: v.id("scenario_assignments"),
+    type: v.string(), // "drop" | "swap" | "giveaway" | "trade"
+    targetPositionId: v.optional(v.id("scenario_positions")),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const provider = await requirePortalProvider(ctx, args.sessionToken);
+
+    if (!["drop", "swap", ...MARKETPLACE_TYPES].includes(args.type)) {
+      throw new Error("Request type must be drop, swap, giveaway or trade");
+    }
+
+    const assignment = await ctx.db.get(args.assignmentId);
+    if (!assignment || assignment.providerId !== provider._id) {
+      throw new Error("Assignment not found");
+    }
+    if (assignment.status === "Cancelled") {
+      throw new Error("This shift is no longer assigned to you");
+    }
+
+    const position = await ctx.db.get(assignment.scenarioPositionId);
+    if (!position) throw new Error("Position not found");
+    if (position.date < today()) {
+      throw new Error("Past shifts can't be changed");
+    }
+
+    if (await findOpenRequest(ctx, args.assignmentId)) {
+      throw new Error("You already have a pending request for this shift");
+    }
+
+    let targetPositionId: Id<"scenario_positions"> | undefined;
+    if (args.type === "swap") {
+      if (!args.targetPositionId) throw new Error("Choose the open shift to swap into");
+
+      const target = await ctx.db.get(args.targetPositionId);
+      if (
+        !target ||
+        target.scenarioId !== assignment.scenarioId ||
+        target.status !== "Open" ||
+        !target.isActive
+      ) {
+        throw new Error("That shift is no longer open");
+      }
+      // Same coverage rules as matching, giving up the shift being swapped out
+      const [coverage, providerJobType] = await Promise.all([
+        loadCoverageTarget(ctx, target),
+        ctx.db.get(provider.jobTypeId),
+      ]);
+      if (!coverage || !providerJobType) throw new Error("That shift is no longer open");
+      const check = await checkCoverageEligibility(ctx, provider, providerJobType, coverage, [assignment._id]);
+      if (!check.eligible) {
+        throw new Error(`You are not eligible for that shift: ${check.reason}`);
+      }
+      targetPositionId = target._id;
+    }
+
+    const requestId = await ctx.db.insert("shift_change_requests", {
+      assignmentId: assignment._id,
+      scenarioId: assignment.scenarioId,
+      scenarioPositionId: position._id,
+      departmentId: position.departmentId,
+      providerId: provider._id,
+      type: args.type,
+      targetPositionId,
+      reason: args.reason?.trim() || undefined,
+      status: MARKETPLACE_TYPES.includes(args.type) ? "Posted" : "Pending",
+      requestedAt: Date.now(),
+    });
+
+    await portalAudit(ctx, provider, "REQUEST", "SHIFT_CHANGE_REQUEST", requestId, {
+      type: args.type,
+      assignmentId: assignment._id,
+      positionId: position._id,
+      targetPositionId,
+    });
+
+    return { requestId };
+  },
+});
+
+export const withdrawShiftChange = mutation({
+  args: {
+    sessionToken: v.string(),
+    requestId: v.id("shift_change_requests"),
+  },
+  handler: async (ctx, args) => {
+    const provider = await requirePortalProvider(ctx, args.sessionToken);
+
+    const request = await ctx.db.get(args.requestId);
+    if (!request) throw new Error("Request not found");
+
+    // A peer backing out of a shift they accepted puts it back on the marketplace
+    if (request.acceptedByProviderId === provider._id && request.status === "Pending") {
+      await ctx.db.patch(args.requestId, {
+        status: "Posted",
+        acceptedByProviderId: undefined,
+        acceptedAt: undefined,
+        offeredAssignmentId: undefined,
+      });
+      await portalAudit(ctx, provider, "CANCEL", "SHIFT_CHANGE_REQUEST", args.requestId, {
+        type: request.type,
+        action: "unaccept",
+      });
+      return { success: true };
+    }
+
+    if (request.providerId !== provider._id) {
+      throw new Error("Request not found");
+    }
+    if (request.status !== "Pending" && request.status !== "Posted") {
+      throw new Error("This request has already been reviewed");
+    }
+
+    await ctx.db.patch(args.requestId, { status: "Withdrawn" });
+    await portalAudit(ctx, provider, "CANCEL", "SHIFT_CHANGE_REQUEST", args.requestId, {
+      type: request.type,
+    });
+
+    return { success: true };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// SHIFT MARKETPLACE
+// Shifts other providers posted as giveaways or trades. A peer who
+// accepts sends the trade to the department admin for approval.
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Posted shifts in the provider's health system they are eligible to take
+ * For trades, also the provider's own shifts the poster could take in return
+ */
+export const getMarketplace = query({
+  args: { sessionToken: v.string() },
+  handler: async (ctx, args) => {
+    const provider = await getPortalProvider(ctx, args.sessionToken);
+    if (!provider) return null;
+
+    const fromDate = today();
+    const posted = await ctx.db
+      .query("shift_change_requests")
+      .withIndex("by_status", (q) => q.eq("status", "Posted"))
+      .collect();
+
+    // Own upcoming shifts without an open request, candidates to offer in a trade
+    const myAssignments = [];
+    for (const assignment of await ctx.db
+      .query("scenario_assignments")
+      .withIndex("by_provider", (q) => q.eq("providerId", provider._id))
+      .filter((q) => q.neq(q.field("status"), "Cancelled"))
+      .collect()) {
+      const position = await ctx.db.get(assignment.scenarioPositionId);
+      if (!position || position.date < fromDate) continue;
+      if (await findOpenRequest(ctx, assignment._id)) continue;
+      myAssignments.push({ assignment, position });
+    }
+
+    const listings = [];
+    for (const request of posted) {
+      if (request.providerId === provider._id) continue;
+
+      const [scenario, assignment, position, poster] = await Promise.all([
+        ctx.db.get(request.scenarioId),
+        ctx.db.get(request.assignmentId),
+        ctx.db.get(request.scenarioPositionId),
+        ctx.db.get(request.providerId),
+      ]);
+      if (!scenario || scenario.healthSystemId !== provider.healthSystemId) continue;
+      if (!assignment || !position || !poster || position.date < fromDate) continue;
+
+      const check = await checkTakeover(ctx, provider, assignment);
+      if (!check.eligible) continue;
+
+      // Trades: shifts of mine in the same scenario the poster could take
+      const tradeOptions = [];
+      if (request.type === "trade") {
+        for (const mine of myAssignments) {
+          if (mine.assignment.scenarioId !== request.scenarioId) continue;
+          const [mineCheck, theirsCheck] = await Promise.all([
+            checkTakeover(ctx, poster, mine.assignment, assignment),
+            checkTakeover(ctx, provider, assignment, mine.assignment),
+          ]);
+          if (!mineCheck.eligible || !theirsCheck.eligible) continue;
+          tradeOptions.push({
+            assignmentId: mine.assignment._id,
+            date: mine.position.date,
+            shiftType: mine.position.shiftType,
+            shiftStart: mine.position.shiftStart,
+          });
+        }
+        if (tradeOptions.length === 0) continue;
+      }
+
+      const [service, hospital] = await Promise.all([
+        ctx.db.get(position.serviceId),
+        ctx.db.get(position.hospitalId),
+      ]);
+
+      listings.push({
+        requestId: request._id,
+        type: request.type,
+        reason: request.reason,
+        postedAt: request.requestedAt,
+        posterName: `${poster.firstName} ${poster.lastName}`,
+        scenarioName: scenario.name,
+        date: position.date,
+        shiftType: position.shiftType,
+        shiftStart: position.shiftStart,
+        shiftEnd: position.shiftEnd,
+        serviceName: service?.name ?? "",
+        hospitalName: hospital?.name ?? "",
+        tradeOptions,
+      });
+    }
+
+    // Shifts this provider accepted that are waiting on an admin
+    const accepted = await ctx.db
+      .query("shift_change_requests")
+      .withIndex("by_status", (q) => q.eq("status", "Pending"))
+      .filter((q) => q.eq(q.field("acceptedByProviderId"), provider._id))
+      .collect();
+
+    const awaitingApproval = [];
+    for (const request of accepted) {
+      const position = await ctx.db.get(request.scenarioPositionId);
+      if (!position) continue;
+      awaitingApproval.push({
+        requestId: request._id,
+        type: request.type,
+        date: position.date,
+        shiftType: position.shiftType,
+        shiftStart: position.shiftStart,
+      });
+    }
+
+    return {
+      listings: listings.sort((a, b) => a.date.localeCompare(b.date) || a.shiftStart.localeCompare(b.shiftStart)),
+      awaitingApproval,
+    };
+  },
+});
+
+/**
+ * Accept a posted shift - for a trade, offering one of your own in return
+ * Eligibility is re-checked here and again when the admin approves
+ */
+export const acceptPostedShift = mutation({
+  args: {
+    sessionToken: v.string(),
+    requestId: v.id("shift_change_requests"),
+    offeredAssignmentId: v.optional(v.id("scenario_assignments")),
+  },
+  handler: async (ctx, args) => {
+    const provider = await requirePortalProvider(ctx, args.sessionToken);
+
+    const request = await ctx.db.get(args.requestId);
+    if (!request || !isMarketplaceRequest(request)) {
+      throw new Error("Posting not found");
+    }
+    if (request.status !== "Posted") {
+      throw new Error("This shift has already been taken or withdrawn");
+    }
+
+    const scenario = await ctx.db.get(request.scenarioId);
+    if (!scenario || scenario.healthSystemId !== provider.healthSystemId) {
+      throw new Error("Posting not found");
+    }
+
+    let offeredAssignmentId: Id<"scenario_assignments"> | undefined;
+    if (request.type === "trade") {
+      if (!args.offeredAssignmentId) throw new Error("Choose one of your shifts to trade");
+
+      const offered = await ctx.db.get(args.offeredAssignmentId);
+      if (!offered || offered.providerId !== provider._id || offered.status === "Cancelled") {
+        throw new Error("Assignment not found");
+      }
+      if (offered.scenarioId !== request.scenarioId) {
+        throw new Error("Trades must be within the same scenario");
+      }
+      if (await findOpenRequest(ctx, offered._id)) {
+        throw new Error("That shift already has a pending request");
+      }
+      offeredAssignmentId = offered._id;
+    }
+
+    const accepted = { ...request, acceptedByProviderId: provider._id, offeredAssignmentId };
+    const check = await checkTrade(ctx, accepted);
+    if (!check.eligible) throw new Error(check.reason);
+
+    await ctx.db.patch(args.requestId, {
+      acceptedByProviderId: provider._id,
+      acceptedAt: Date.now(),
+      offeredAssignmentId,
+      status: "Pending",
+    });
+
+    await portalAudit(ctx, provider, "ACCEPT", "SHIFT_CHANGE_REQUEST", args.requestId, {
+      type: request.type,
+      postedAssignmentId: request.assignmentId,
+      postedByProviderId: request.providerId,
+      offeredAssignmentId,
+    });
+
+    return { success: true };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// AVAILABILITY
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Set own availability for a date range (source "provider")
+ */
+export const setAvailability = mutation({
+  args: {
+    sessionToken: v.string(),
+    startDate: v.string(),
+    endDate: v.string(),
+    availabilityType: v.union(v.literal("available"), v.literal("unavailable")),
+    amAvailable: v.boolean(),
+    pmAvailable: v.boolean(),
+    amPreferred: v.optional(v.boolean()),
+    pmPreferred: v.optional(v.boolean()),
+    notes: v.optional(v.string()),
+    skipWeekends: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const provider = await requirePortalProvider(ctx, args.sessionToken);
+
+    if (args.startDate < today()) {
+      throw new Error("Availability can only be entered for today or later");
+    }
+    if (args.endDate < args.startDate) {
+      throw new Error("End date must be on or after start date");
+    }
+
+    // Check the span before building the range, so a far-off end date can't run away
+    const start = new Date(args.startDate);
+    const end = new Date(args.endDate);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new Error("Invalid date");
+    }
+    const spanDays = Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+    if (spanDays > MAX_AVAILABILITY_RANGE_DAYS) {
+      throw new Error(`Enter at most ${MAX_AVAILABILITY_RANGE_DAYS} days at a time`);
+    }
+
+    const dates: string[] = [];
+    for (let d = new Date(start); d <= end; d.setUTCDate(d.getUTCDate() + 1)) {
+      const day = d.getUTCDay();
+      if (args.skipWeekends && (day === 0 || day === 6)) continue;
+      dates.push(d.toISOString().split("T")[0]);
+    }
+
+    const fields = {
+      availabilityType: args.availabilityType,
+      amAvailable: args.amAvailable,
+      pmAvailable: args.pmAvailable,
+      amPreferred: args.amPreferred,
+      pmPreferred: args.pmPreferred,
+      notes: args.notes,
+    };
+
+    let created = 0;
+    let updated = 0;
+    for (const date of dates) {
+      const result = await upsertAvailability(ctx, provider._id, date, fields, {
+        enteredBy: provider.createdBy,
+        source: "provider",
+      });
+      if (result.created) created++;
+      else updated++;
+    }
+
+    await portalAudit(ctx, provider, "BULK_UPDATE", "PROVIDER_AVAILABILITY", provider._id, {
+      startDate: args.startDate,
+      endDate: args.endDate,
+      created,
+      updated,
+    });
+
+    return { created, updated };
+  },
+});
+
+export const clearAvailability = mutation({
+  args: {
+    sessionToken: v.string(),
+    date: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const provider = await requirePortalProvider(ctx, args.sessionToken);
+
+    const existing = await ctx.db
+      .query("provider_availability")
+      .withIndex("by_provider_date", (q) => q.eq("providerId", provider._id).eq("date", args.date))
+      .first();
+    if (!existing) return { success: true };
+
+    // Availability a scheduler entered stays until they change it
+    if (existing.source !== "provider") {
+      throw new Error("Your scheduler entered availability for this date - contact them to change it");
+    }
+
+    await ctx.db.delete(existing._id);
+    await portalAudit(ctx, provider, "DELETE", "PROVIDER_AVAILABILITY", existing._id, {
+      date: args.date,
+    });
+
+    return { success: true };
+  },
+});
@@ -0,0 +1,204 @@
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { requireHealthSystemAccess, requireHospitalAccess, auditLog } from "./lib/auth";
+import { PROCEDURE_FIELDS, procedureColumnsValidator, ProcedureColumns, validateColumns } from "./lib/procedureSources";
+import { serviceLinesOf } from "./lib/procedureDisposition";
+import { loadDispositionRules } from "./lib/dispositionRules";
+
+// ═══════════════════════════════════════════════════════════════════
+// QUERIES
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Source systems for a health system, with the fields they can map and
+ * the service lines defined by its disposition rules
+ */
+export const list = query({
+  args: { healthSystemId: v.id("health_systems") },
+  handler: async (ctx, args) => {
+    await requireHealthSystemAccess(ctx, args.healthSystemId);
+
+    const [sources, { rules }] = await Promise.all([
+      ctx.db
+        .query("procedure_sources")
+        .withIndex("by_health_system", (q) => q.eq("healthSystemId", args.healthSystemId))
+        .collect(),
+      loadDispositionRules(ctx, args.healthSystemId),
+    ]);
+
+    return {
+      sources: sources.sort((a, b) => a.name.localeCompare(b.name)),
+      fields: PROCEDURE_FIELDS,
+      serviceLines: serviceLinesOf(rules),
+    };
+  },
+});
+
+/**
+ * Active source systems available when importing for a hospital
+ */
+export const listForHospital = query({
+  args: { hospitalId: v.id("hospitals") },
+  handler: async (ctx, args) => {
+    await requireHospitalAccess(ctx, args.hospitalId);
+
+    const hospital = await ctx.db.get(args.hospitalId);
+    if (!hospital) throw new Error("Hospital not found");
+
+    const sources = await ctx.db
+      .query("procedure_sources")
+      .withIndex("by_health_system", (q) => q.eq("healthSystemId", hospital.healthSystemId))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+
+    return {
+      sources: sources.sort((a, b) => a.name.localeCompare(b.name)),
+      fields: PROCEDURE_FIELDS,
+    };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// MUTATIONS
+// ═══════════════════════════════════════════════════════════════════
+
+async function requireSourceAdmin(ctx: MutationCtx, healthSystemId: Id<"health_systems">) {
+  const user = await requireHealthSystemAccess(ctx, healthSystemId);
+  if (user.role !== "super_admin" && user.role !== "health_system_admin") {
+    throw new Error("Unauthorized: Only health system admins can manage procedure sources");
+  }
+  return user;
+}
+
+async function checkSource(
+  ctx: MutationCtx,
+  healthSystemId: Id<"health_systems">,
+  name: string,
+  serviceLines: string[],
+  columns: ProcedureColumns,
+  sourceId?: Id<"procedure_sources">
+) {
+  if (!name.trim()) throw new Error("Source name is required");
+  if (serviceLines.length === 0) throw new Error("Select at least one service line");
+
+  const { rules } = await loadDispositionRules(ctx, healthSystemId);
+  const known = new Set(serviceLinesOf(rules).map((line) => line.key));
+  const unknown = serviceLines.filter((line) => !known.has(line));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown service line: ${unknown.join(", ")}`);
+  }
+
+  validateColumns(columns);
+
+  const duplicate = await ctx.db
+    .query("procedure_sources")
+    .withIndex("by_health_system", (q) => q.eq("healthSystemId", healthSystemId))
+    .filter((q) => q.eq(q.field("name"), name.trim()))
+    .first();
+  if (duplicate && duplicate._id !== sourceId) {
+    throw new Error("A source with this name already exists");
+  }
+}
+
+// Blank headers mean "use the default headers"
+function cleanColumns(columns: ProcedureColumns): ProcedureColumns {
+  return Object.fromEntries(
+    Object.entries(columns)
+      .map(([field, header]) => [field, header?.trim()])
+      .filter(([, header]) => header)
+  );
+}
+
+/**
+ * Create a source system
+ */
+export const create = mutation({
+  args: {
+    healthSystemId: v.id("health_systems"),
+    name: v.string(),
+    serviceLines: v.array(v.string()),
+    columns: procedureColumnsValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireSourceAdmin(ctx, args.healthSystemId);
+    const columns = cleanColumns(args.columns);
+    await checkSource(ctx, args.healthSystemId, args.name, args.serviceLines, columns);
+
+    const now = Date.now();
+    const sourceId = await ctx.db.insert("procedure_sources", {
+      healthSystemId: args.healthSystemId,
+      name: args.name.trim(),
+      serviceLines: args.serviceLines,
+      columns,
+      isActive: true,
+      createdBy: user._id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await auditLog(ctx, user, "CREATE", "PROCEDURE_SOURCE", sourceId, {
+      name: args.name,
+      serviceLines: args.serviceLines,
+      columns,
+    });
+
+    return { sourceId };
+  },
+});
+
+/**
+ * Update a source system; applies to imports from now on
+ */
+export const update = mutation({
+  args: {
+    sourceId: v.id("procedure_sources"),
+    name: v.string(),
+    serviceLines: v.array(v.string()),
+    columns: procedureColumnsValidator,
+  },
+  handler: async (ctx, args) => {
+    const source = await ctx.db.get(args.sourceId);
+    if (!source) throw new Error("Procedure source not found");
+
+    const user = await requireSourceAdmin(ctx, source.healthSystemId);
+    const columns = cleanColumns(args.columns);
+    await checkSource(ctx, source.healthSystemId, args.name, args.serviceLines, columns, args.sourceId);
+
+    await ctx.db.patch(args.sourceId, {
+      name: args.name.trim(),
+      serviceLines: args.serviceLines,
+      columns,
+      updatedAt: Date.now(),
+    });
+
+    await auditLog(ctx, user, "UPDATE", "PROCEDURE_SOURCE", args.sourceId, {
+      before: { name: source.name, serviceLines: source.serviceLines, columns: source.columns },
+      after: { name: args.name, serviceLines: args.serviceLines, columns },
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Toggle source active status
+ */
+export const toggleActive = mutation({
+  args: { sourceId: v.id("procedure_sources") },
+  handler: async (ctx, args) => {
+    const source = await ctx.db.get(args.sourceId);
+    if (!source) throw new Error("Procedure source not found");
+
+    const user = await requireSourceAdmin(ctx, source.healthSystemId);
+
+    const newStatus = !source.isActive;
+    await ctx.db.patch(args.sourceId, { isActive: newStatus, updatedAt: Date.now() });
+
+    await auditLog(ctx, user, newStatus ? "ACTIVATE" : "DEACTIVATE", "PROCEDURE_SOURCE", args.sourceId, {
+      name: source.name,
+    });
+
+    return { isActive: newStatus };
+  },
+});
@@ -1,4 +1,4 @@
-import { mutation, query, action, internalMutation, internalQuery } from "./_generated/server";
+import { mutation, query, action, internalMutation, internalQuery, MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
 import { requireAuth, requireHospitalAccess, auditLog } from "./lib/auth";
 import { internal } from "./_generated/api";
@@ -9,7 +9,14 @@ import {
   parseNumericValue,
   processProcedurePatients,
   ProcedurePatientInput,
+  DispositionPrediction,
+  CARDIAC_SERVICE_LINES,
+  serviceLinesOf,
+  serviceLineForCategory,
 } from "./lib/procedureDisposition";
+import { loadDispositionRules } from "./lib/dispositionRules";
+import { ProcedureColumns, readProcedureRow } from "./lib/procedureSources";
+import { recordUnitNames } from "./lib/unitMapping";
 
 // ═══════════════════════════════════════════════════════════════════
 // HELPERS
@@ -46,64 +53,52 @@ function parseSexFromName(patientName: string): string | undefined {
 
 /**
  * Parse CSV row into patient input
+ * Headers come from the source system's column mapping, or the cath/EP
+ * export headers when there is none
  */
-function parseCSVRow(row: Record<string, string>): ProcedurePatientInput {
-  // Handle various column name formats
-  const procedureText =
-    row["Procedure"] || row["procedure"] || row["PROCEDURE"] || "";
-  const patientName =
-    row["Patient Name/Age/Gender"] ||
-    row["Patient"] ||
-    row["patient_name"] ||
-    row["PATIENT"] ||
-    "";
-  const mrn = row["MRN"] || row["mrn"] || row["Medical Record Number"] || "";
-  const visitDate =
-    row["Visit Date"] || row["visit_date"] || row["Date"] || "";
-  const provider =
-    row["Provider/Resource"] ||
-    row["Provider"] ||
-    row["provider"] ||
-    row["PROVIDER"] ||
-    "";
-  const reasonForExam =
-    row["Reason for Exam"] ||
-    row["Reason"] ||
-    row["reason_for_exam"] ||
-    row["REASON"] ||
-    "";
-
-  // Clinical values
-  const efRaw =
-    row["Last Ejection Fraction Value"] ||
-    row["EF"] ||
-    row["ef"] ||
-    row["Ejection Fraction"] ||
-    "";
-  const creatinineRaw =
-    row["Creatinine"] || row["creatinine"] || row["Cr"] || row["CR"] || "";
-  const hemoglobinRaw =
-    row["HEMOGLOBIN"] ||
-    row["Hemoglobin"] ||
-    row["hemoglobin"] ||
-    row["Hgb"] ||
-    row["HGB"] ||
-    "";
+function parseCSVRow(
+  row: Record<string, string>,
+  columns?: ProcedureColumns
+): ProcedurePatientInput & { sex?: string; csn?: string } {
+  const fields = readProcedureRow(row, columns);
+  const sex = fields.sex.charAt(0).toUpperCase();
 
   return {
-    procedureText,
-    patientName,
-    mrn,
-    visitDate,
-    provider: provider || undefined,
-    reasonForExam: reasonForExam || undefined,
-    age: parseAgeFromName(patientName),
-    ef: parseNumericValue(efRaw),
-    creatinine: parseNumericValue(creatinineRaw),
-    hemoglobin: parseNumericValue(hemoglobinRaw),
+    procedureText: fields.procedureText,
+    patientName: fields.patientName,
+    mrn: fields.mrn,
+    visitDate: fields.visitDate,
+    provider: fields.provider || undefined,
+    reasonForExam: fields.reasonForExam || undefined,
+    age: parseNumericValue(fields.age || undefined) ?? parseAgeFromName(fields.patientName),
+    sex: sex === "M" || sex === "F" ? sex : parseSexFromName(fields.patientName),
+    ef: parseNumericValue(fields.ef || undefined),
+    creatinine: parseNumericValue(fields.creatinine || undefined),
+    hemoglobin: parseNumericValue(fields.hemoglobin || undefined),
+    csn: fields.csn || undefined,
   };
 }
 
+/**
+ * Queue destination units named by the disposition rules for review when
+ * no census unit mapping covers them, so admins can link them to units
+ */
+async function registerDestinationUnits(
+  ctx: MutationCtx,
+  hospitalId: Id<"hospitals">,
+  userId: Id<"users">,
+  predictions: DispositionPrediction[]
+) {
+  const destinations = new Map<string, "icu" | "floor">();
+  for (const prediction of predictions) {
+    if (prediction.icuUnit && prediction.icuDays > 0) destinations.set(prediction.icuUnit, "icu");
+    if (prediction.floorUnit && prediction.floorDays > 0 && !destinations.has(prediction.floorUnit)) {
+      destinations.set(prediction.floorUnit, "floor");
+    }
+  }
+  await recordUnitNames(ctx, hospitalId, userId, destinations);
+}
+
 /**
  * Parse CSV content into rows
  */
@@ -165,37 +160,6 @@ function parseCSVLine(line: string): string[] {
   return result;
 }
 
-// ═══════════════════════════════════════════════════════════════════
-// SERVICE TYPE CLASSIFICATION
-// ═══════════════════════════════════════════════════════════════════
-
-type ServiceType = "EP" | "Cath" | "Structural";
-
-const EP_PROCEDURES = [
-  "VT_ABLATION",
-  "AFIB_ABLATION",
-  "FLUTTER_ABLATION",
-  "SVT_ABLATION",
-  "PVC_ABLATION",
-  "PPM_IMPLANT",
-  "ICD_IMPLANT",
-  "GENERATOR_CHANGE",
-  "LOOP_RECORDER",
-  "CARDIOVERSION",
-  "TILT_TABLE",
-];
-
-const STRUCTURAL_PROCEDURES = ["TAVR"];
-
-/**
- * Categorize procedure into EP, Cath, or Structural service
- */
-function getServiceType(category: string): ServiceType {
-  if (EP_PROCEDURES.includes(category)) return "EP";
-  if (STRUCTURAL_PROCEDURES.includes(category)) return "Structural";
-  return "Cath";
-}
-
 // ═══════════════════════════════════════════════════════════════════
 // QUERIES
 // ═══════════════════════════════════════════════════════════════════
@@ -356,7 +320,7 @@ export const getProcedureSummary = query({
           willAdmit: 0,
           sameDayDischarge: 0,
           riskModifiedAdmits: 0,
-          bedCountsByUnit: { CCU: 0, N07E: 0 },
+          bedCountsByUnit: {} as Record<string, number>,
           byCategory: {},
           visitDate: null,
         };
@@ -375,18 +339,22 @@ export const getProcedureSummary = query({
       willAdmit: patients.filter((p) => p.willAdmit).length,
       sameDayDischarge: patients.filter((p) => !p.willAdmit).length,
       riskModifiedAdmits: patients.filter((p) => p.riskModified).length,
-      bedCountsByUnit: {
-        CCU: patients.reduce((sum, p) => sum + (p.icuUnit === "CCU" ? p.icuDays : 0), 0),
-        N07E: patients.reduce((sum, p) => sum + (p.floorUnit === "N07E" ? p.floorDays : 0), 0),
-      },
+      bedCountsByUnit: {} as Record<string, number>,
       byCategory: {} as Record<string, number>,
       visitDate: args.visitDate || patients[0]?.visitDate || null,
     };
 
-    // Count by category
+    // Count by category and bed-days by destination unit
     for (const patient of patients) {
       summary.byCategory[patient.procedureCategory] =
         (summary.byCategory[patient.procedureCategory] || 0) + 1;
+      if (patient.icuUnit && patient.icuDays > 0) {
+        summary.bedCountsByUnit[patient.icuUnit] = (summary.bedCountsByUnit[patient.icuUnit] || 0) + patient.icuDays;
+      }
+      if (patient.floorUnit && patient.floorDays > 0) {
+        summary.bedCountsByUnit[patient.floorUnit] =
+          (summary.bedCountsByUnit[patient.floorUnit] || 0) + patient.floorDays;
+      }
     }
 
     return summary;
@@ -394,7 +362,7 @@ export const getProcedureSummary = query({
 });
 
 /**
- * Get procedure dashboard data grouped by service type
+ * Get procedure dashboard data grouped by service line
  */
 export const getProcedureDashboard = query({
   args: {
@@ -408,6 +376,10 @@ export const getProcedureDashboard = query({
 
     const endDate = args.endDate || args.startDate;
 
+    const hospital = await ctx.db.get(args.hospitalId);
+    if (!hospital) throw new Error("Hospital not found");
+    const { rules } = await loadDispositionRules(ctx, hospital.healthSystemId);
+
     // Get all active procedure patients for hospital
     const allPatients = await ctx.db
       .query("procedure_patients")
@@ -420,19 +392,15 @@ export const getProcedureDashboard = query({
       (p) => p.visitDate >= args.startDate && p.visitDate <= endDate
     );
 
-    // Initialize service stats
-    const byService: Record<ServiceType, {
+    // Service stats, created as service lines appear
+    const byService: Record<string, {
       count: number;
       willAdmit: number;
       sameDayDischarge: number;
-      ccuDays: number;
+      icuDays: number;
       floorDays: number;
       riskModified: number;
-    }> = {
-      EP: { count: 0, willAdmit: 0, sameDayDischarge: 0, ccuDays: 0, floorDays: 0, riskModified: 0 },
-      Cath: { count: 0, willAdmit: 0, sameDayDischarge: 0, ccuDays: 0, floorDays: 0, riskModified: 0 },
-      Structural: { count: 0, willAdmit: 0, sameDayDischarge: 0, ccuDays: 0, floorDays: 0, riskModified: 0 },
-    };
+    }> = {};
 
     // Summary totals
     const summary = {
@@ -440,13 +408,15 @@ export const getProcedureDashboard = query({
       willAdmit: 0,
       sameDayDischarge: 0,
       riskModified: 0,
-      ccuBedDays: 0,
+      icuBedDays: 0,
       floorBedDays: 0,
     };
+    const bedDaysByUnit: Record<string, number> = {};
 
     // Process each patient
     const processedPatients = patients.map((p) => {
-      const serviceType = getServiceType(p.procedureCategory);
+      const serviceType = p.serviceLine ?? serviceLineForCategory(p.procedureCategory, rules);
+      byService[serviceType] ??= { count: 0, willAdmit: 0, sameDayDischarge: 0, icuDays: 0, floorDays: 0, riskModified: 0 };
 
       // Update service stats
       byService[serviceType].count++;
@@ -461,10 +431,14 @@ export const getProcedureDashboard = query({
         byService[serviceType].riskModified++;
         summary.riskModified++;
       }
-      byService[serviceType].ccuDays += p.icuDays || 0;
+      byService[serviceType].icuDays += p.icuDays || 0;
       byService[serviceType].floorDays += p.floorDays || 0;
-      summary.ccuBedDays += p.icuDays || 0;
+      summary.icuBedDays += p.icuDays || 0;
       summary.floorBedDays += p.floorDays || 0;
+      if (p.icuUnit && p.icuDays > 0) bedDaysByUnit[p.icuUnit] = (bedDaysByUnit[p.icuUnit] || 0) + p.icuDays;
+      if (p.floorUnit && p.floorDays > 0) {
+        bedDaysByUnit[p.floorUnit] = (bedDaysByUnit[p.floorUnit] || 0) + p.floorDays;
+      }
 
       return {
         _id: p._id,
@@ -476,7 +450,9 @@ export const getProcedureDashboard = query({
         serviceType,
         willAdmit: p.willAdmit,
         icuDays: p.icuDays || 0,
+        icuUnit: p.icuUnit,
         floorDays: p.floorDays || 0,
+        floorUnit: p.floorUnit,
         totalLOS: p.totalLOS || 0,
         riskFactors: p.riskFactors || [],
         riskModified: p.riskModified || false,
@@ -497,10 +473,24 @@ export const getProcedureDashboard = query({
       return a.serviceType.localeCompare(b.serviceType);
     });
 
+    // Service lines with procedures, in rule-set order; lines no longer
+    // in the rules keep their key as the label
+    const definedLines = serviceLinesOf(rules);
+    const serviceLines = [
+      ...definedLines.filter((line) => byService[line.key]).map(({ key, label }) => ({ key, label })),
+      ...Object.keys(byService)
+        .filter((key) => !definedLines.some((line) => line.key === key))
+        .map((key) => ({ key, label: key })),
+    ];
+
     return {
       dateRange: { start: args.startDate, end: endDate },
       summary,
+      serviceLines,
       byService,
+      bedDaysByUnit,
+      categoryLabels: Object.fromEntries(rules.procedures.map((proc) => [proc.category, proc.label])),
+      riskFactorLabels: Object.fromEntries(rules.riskFactors.map((factor) => [factor.key, factor.label])),
       patients: processedPatients,
     };
   },
@@ -512,12 +502,14 @@ export const getProcedureDashboard = query({
 
 /**
  * Create a new procedure import record
+ * Without a source, procedures are classified as cath/EP/structural
  */
 export const createImport = mutation({
   args: {
     hospitalId: v.id("hospitals"),
     fileName: v.string(),
     procedureDate: v.string(),
+    sourceId: v.optional(v.id("procedure_sources")),
   },
   handler: async (ctx, args) => {
     const user = await requireAuth(ctx);
@@ -526,6 +518,11 @@ export const createImport = mutation({
     const hospital = await ctx.db.get(args.hospitalId);
     if (!hospital) throw new Error("Hospital not found");
 
+    const source = args.sourceId ? await ctx.db.get(args.sourceId) : null;
+    if (args.sourceId && (!source || source.healthSystemId !== hospital.healthSystemId || !source.isActive)) {
+      throw new Error("Procedure source not found");
+    }
+
     const importId = await ctx.db.insert("procedure_imports", {
       hospitalId: args.hospitalId,
       healthSystemId: hospital.healthSystemId,
@@ -537,6 +534,8 @@ export const createImport = mutation({
       riskModifiedAdmits: 0,
       ccuBedDays: 0,
       floorBedDays: 0,
+      sourceId: args.sourceId,
+      serviceLines: source?.serviceLines ?? CARDIAC_SERVICE_LINES,
       status: "pending",
       importedAt: Date.now(),
       importedBy: user._id,
@@ -546,6 +545,7 @@ export const createImport = mutation({
     await auditLog(ctx, user, "CREATE", "PROCEDURE_IMPORT", importId, {
       fileName: args.fileName,
       procedureDate: args.procedureDate,
+      source: source?.name,
     });
 
     return importId;
@@ -585,6 +585,9 @@ export const processProcedures = mutation({
 
     const now = Date.now();
     const hospitalId = importRecord.hospitalId;
+    const { rules, ruleSetId, version: ruleVersion } = await loadDispositionRules(ctx, importRecord.healthSystemId);
+    const serviceLines = importRecord.serviceLines ?? CARDIAC_SERVICE_LINES;
+    const predictions: DispositionPrediction[] = [];
 
     let created = 0;
     let updated = 0;
@@ -605,7 +608,8 @@ export const processProcedures = mutation({
           ef: patient.ef,
           creatinine: patient.creatinine,
           hemoglobin: patient.hemoglobin,
-        });
+        }, rules, serviceLines);
+        predictions.push(prediction);
 
         // Convert name to initials
         const initials = nameToInitials(patient.patientName);
@@ -630,6 +634,7 @@ export const processProcedures = mutation({
             sex,
             procedureText: patient.procedureText,
             procedureCategory: prediction.procedureCategory,
+            serviceLine: prediction.serviceLine,
             provider: patient.provider,
             reasonForExam: patient.reasonForExam,
             ef: patient.ef,
@@ -645,6 +650,7 @@ export const processProcedures = mutation({
             riskFactors: prediction.riskFactors,
             riskModified: prediction.riskModified,
             reasoning: prediction.reasoning,
+            ruleVersion,
             isActive: true,
             updatedAt: now,
           });
@@ -661,6 +667,7 @@ export const processProcedures = mutation({
             sex,
             procedureText: patient.procedureText,
             procedureCategory: prediction.procedureCategory,
+            serviceLine: prediction.serviceLine,
             visitDate: patient.visitDate,
             provider: patient.provider,
             reasonForExam: patient.reasonForExam,
@@ -677,6 +684,7 @@ export const processProcedures = mutation({
             riskFactors: prediction.riskFactors,
             riskModified: prediction.riskModified,
             reasoning: prediction.reasoning,
+            ruleVersion,
             isActive: true,
             createdAt: now,
             updatedAt: now,
@@ -693,12 +701,8 @@ export const processProcedures = mutation({
         if (prediction.riskModified) {
           riskModifiedCount++;
         }
-        if (prediction.icuUnit === "CCU") {
-          ccuDays += prediction.icuDays;
-        }
-        if (prediction.floorUnit === "N07E") {
-          floorDays += prediction.floorDays;
-        }
+        ccuDays += prediction.icuDays;
+        floorDays += prediction.floorDays;
       } catch (error) {
         errors.push(
           `MRN ${patient.mrn}: ${error instanceof Error ? error.message : "Unknown error"}`
@@ -706,6 +710,8 @@ export const processProcedures = mutation({
       }
     }
 
+    await registerDestinationUnits(ctx, hospitalId, user._id, predictions);
+
     // Update import statistics
     await ctx.db.patch(args.importId, {
       patientsProcessed: created + updated,
@@ -714,6 +720,8 @@ export const processProcedures = mutation({
       riskModifiedAdmits: riskModifiedCount,
       ccuBedDays: ccuDays,
       floorBedDays: floorDays,
+      ruleSetId: ruleSetId ?? undefined,
+      ruleVersion,
       status: "completed",
       errors: errors.length > 0 ? errors : undefined,
     });
@@ -726,6 +734,7 @@ export const processProcedures = mutation({
       riskModifiedAdmits: riskModifiedCount,
       ccuBedDays: ccuDays,
       floorBedDays: floorDays,
+      ruleVersion,
       errors,
     };
   },
@@ -893,6 +902,8 @@ export const internalCreateImport = internalMutation({
     fileName: v.string(),
     procedureDate: v.string(),
     importedBy: v.id("users"),
+    sourceId: v.optional(v.id("procedure_sources")),
+    serviceLines: v.array(v.string()),
   },
   handler: async (ctx, args): Promise<Id<"procedure_imports">> => {
     const importId = await ctx.db.insert("procedure_imports", {
@@ -906,6 +917,8 @@ export const internalCreateImport = internalMutation({
       riskModifiedAdmits: 0,
       ccuBedDays: 0,
       floorBedDays: 0,
+      sourceId: args.sourceId,
+      serviceLines: args.serviceLines,
       status: "pending",
       importedAt: Date.now(),
       importedBy: args.importedBy,
@@ -944,6 +957,12 @@ export const internalProcessProcedures = internalMutation({
     const now = Date.now();
     const hospitalId = args.hospitalId;
 
+    const importRecord = await ctx.db.get(args.importId);
+    if (!importRecord) throw new Error("Import not found");
+    const { rules, ruleSetId, version: ruleVersion } = await loadDispositionRules(ctx, importRecord.healthSystemId);
+    const serviceLines = importRecord.serviceLines ?? CARDIAC_SERVICE_LINES;
+    const predictions: DispositionPrediction[] = [];
+
     let created = 0;
     let willAdmitCount = 0;
     let sameDayCount = 0;
@@ -962,7 +981,8 @@ export const internalProcessProcedures = internalMutation({
           ef: patient.ef,
           creatinine: patient.creatinine,
           hemoglobin: patient.hemoglobin,
-        });
+        }, rules, serviceLines);
+        predictions.push(prediction);
 
         // Convert name to initials
         const initials = nameToInitials(patient.patientName);
@@ -981,6 +1001,7 @@ export const internalProcessProcedures = internalMutation({
           sex,
           procedureText: patient.procedureText,
           procedureCategory: prediction.procedureCategory,
+          serviceLine: prediction.serviceLine,
           visitDate: patient.visitDate,
           provider: patient.provider,
           reasonForExam: patient.reasonForExam,
@@ -997,6 +1018,7 @@ export const internalProcessProcedures = internalMutation({
           riskFactors: prediction.riskFactors,
           riskModified: prediction.riskModified,
           reasoning: prediction.reasoning,
+          ruleVersion,
           isActive: true,
           createdAt: now,
           updatedAt: now,
@@ -1013,12 +1035,8 @@ export const internalProcessProcedures = internalMutation({
         if (prediction.riskModified) {
           riskModifiedCount++;
         }
-        if (prediction.icuUnit === "CCU") {
-          ccuDays += prediction.icuDays;
-        }
-        if (prediction.floorUnit === "N07E") {
-          floorDays += prediction.floorDays;
-        }
+        ccuDays += prediction.icuDays;
+        floorDays += prediction.floorDays;
       } catch (error) {
         errors.push(
           `MRN ${patient.mrn}: ${error instanceof Error ? error.message : "Unknown error"}`
@@ -1026,6 +1044,8 @@ export const internalProcessProcedures = internalMutation({
       }
     }
 
+    await registerDestinationUnits(ctx, hospitalId, importRecord.importedBy, predictions);
+
     // Update import statistics
     await ctx.db.patch(args.importId, {
       patientsProcessed: created,
@@ -1034,6 +1054,8 @@ export const internalProcessProcedures = internalMutation({
       riskModifiedAdmits: riskModifiedCount,
       ccuBedDays: ccuDays,
       floorBedDays: floorDays,
+      ruleSetId: ruleSetId ?? undefined,
+      ruleVersion,
       status: "completed",
       errors: errors.length > 0 ? errors : undefined,
     });
@@ -1045,6 +1067,7 @@ export const internalProcessProcedures = internalMutation({
       riskModifiedAdmits: riskModifiedCount,
       ccuBedDays: ccuDays,
       floorBedDays: floorDays,
+      ruleVersion,
       errors,
     };
   },
@@ -1064,6 +1087,7 @@ export const processProcedureCSV = action({
     fileName: v.string(),
     procedureDate: v.string(),
     csvContent: v.string(),
+    sourceId: v.optional(v.id("procedure_sources")),
   },
   handler: async (ctx, args): Promise<{
     importId: Id<"procedure_imports">;
@@ -1073,6 +1097,7 @@ export const processProcedureCSV = action({
     riskModifiedAdmits: number;
     ccuBedDays: number;
     floorBedDays: number;
+    ruleVersion: number;
     errors: string[];
   }> => {
     // Parse CSV
@@ -1081,6 +1106,22 @@ export const processProcedureCSV = action({
       throw new Error("No valid data rows found in CSV");
     }
 
+    // Get hospital to get health system ID and verify access
+    const hospital = await ctx.runQuery(internal.procedures.internalGetHospital, {
+      hospitalId: args.hospitalId,
+    });
+
+    if (!hospital) {
+      throw new Error("Hospital not found");
+    }
+
+    const source = args.sourceId
+      ? await ctx.runQuery(internal.procedures.internalGetSource, { sourceId: args.sourceId })
+      : null;
+    if (args.sourceId && (!source || source.healthSystemId !== hospital.healthSystemId || !source.isActive)) {
+      throw new Error("Procedure source not found");
+    }
+
     // Parse patients from CSV
     const patients: Array<{
       mrn: string;
@@ -1098,7 +1139,7 @@ export const processProcedureCSV = action({
     }> = [];
 
     for (const row of rows) {
-      const input = parseCSVRow(row);
+      const input = parseCSVRow(row, source?.columns);
 
       // Skip rows without MRN or procedure
       if (!input.mrn || !input.procedureText) continue;
@@ -1111,10 +1152,11 @@ export const processProcedureCSV = action({
         provider: input.provider,
         reasonForExam: input.reasonForExam,
         age: input.age,
-        sex: parseSexFromName(input.patientName),
+        sex: input.sex,
         ef: input.ef,
         creatinine: input.creatinine,
         hemoglobin: input.hemoglobin,
+        csn: input.csn,
       });
     }
 
@@ -1122,15 +1164,6 @@ export const processProcedureCSV = action({
       throw new Error("No valid patient records found in CSV");
     }
 
-    // Get hospital to get health system ID and verify access
-    const hospital = await ctx.runQuery(internal.procedures.internalGetHospital, {
-      hospitalId: args.hospitalId,
-    });
-
-    if (!hospital) {
-      throw new Error("Hospital not found");
-    }
-
     // Get current user
     const user = await ctx.runQuery(internal.procedures.internalGetCurrentUser, {});
 
@@ -1145,6 +1178,8 @@ export const processProcedureCSV = action({
       fileName: args.fileName,
       procedureDate: args.procedureDate,
       importedBy: user._id,
+      sourceId: args.sourceId,
+      serviceLines: source?.serviceLines ?? CARDIAC_SERVICE_LINES,
     });
 
     // Process patients and store predictions
@@ -1177,6 +1212,18 @@ export const internalGetHospital = internalQuery({
   },
 });
 
+/**
+ * Internal: Get procedure source (for action use)
+ */
+export const internalGetSource = internalQuery({
+  args: {
+    sourceId: v.id("procedure_sources"),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.sourceId);
+  },
+});
+
 /**
  * Internal: Get current user (for action use)
  */
@@ -1,6 +1,7 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
 import { requireAuth, requireDepartmentAccess, auditLog } from "./lib/auth";
+import { upsertAvailability } from "./lib/availability";
 
 // ═══════════════════════════════════════════════════════════════════
 // QUERIES
@@ -324,48 +325,13 @@ export const setAvailability = mutation({
 
     const user = await requireDepartmentAccess(ctx, provider.departmentId);
 
-    // Check if availability already exists for this date
-    const existing = await ctx.db
-      .query("provider_availability")
-      .withIndex("by_provider_date", (q) =>
-        q.eq("providerId", args.providerId).eq("date", args.date)
-      )
-      .first();
-
-    if (existing) {
-      // Update existing
-      await ctx.db.patch(existing._id, {
-        availabilityType: args.availabilityType,
-        amAvailable: args.amAvailable,
-        pmAvailable: args.pmAvailable,
-        amPreferred: args.amPreferred,
-        pmPreferred: args.pmPreferred,
-        notes: args.notes,
-        scenarioId: args.scenarioId,
-        enteredBy: user._id,
-        enteredAt: Date.now(),
-      });
-
-      return { updated: true, availabilityId: existing._id };
-    } else {
-      // Create new
-      const availabilityId = await ctx.db.insert("provider_availability", {
-        providerId: args.providerId,
-        date: args.date,
-        availabilityType: args.availabilityType,
-        amAvailable: args.amAvailable,
-        pmAvailable: args.pmAvailable,
-        amPreferred: args.amPreferred,
-        pmPreferred: args.pmPreferred,
-        notes: args.notes,
-        scenarioId: args.scenarioId,
-        enteredBy: user._id,
-        enteredAt: Date.now(),
-        source: "admin",
-      });
+    const { providerId, date, ...fields } = args;
+    const { created, availabilityId } = await upsertAvailability(ctx, providerId, date, fields, {
+      enteredBy: user._id,
+      source: "admin",
+    });
 
-      return { created: true, availabilityId };
-    }
+    return created ? { created: true, availabilityId } : { updated: true, availabilityId };
   },
 });
 
@@ -412,44 +378,22 @@ export const setAvailabilityRange = mutation({
     let created = 0;
     let updated = 0;
 
+    const fields = {
+      availabilityType: args.availabilityType,
+      amAvailable: args.amAvailable,
+      pmAvailable: args.pmAvailable,
+      amPreferred: args.amPreferred,
+      pmPreferred: args.pmPreferred,
+      notes: args.notes,
+      scenarioId: args.scenarioId,
+    };
     for (const date of dates) {
-      const existing = await ctx.db
-        .query("provider_availability")
-        .withIndex("by_provider_date", (q) =>
-          q.eq("providerId", args.providerId).eq("date", date)
-        )
-        .first();
-
-      if (existing) {
-        await ctx.db.patch(existing._id, {
-          availabilityType: args.availabilityType,
-          amAvailable: args.amAvailable,
-          pmAvailable: args.pmAvailable,
-          amPreferred: args.amPreferred,
-          pmPreferred: args.pmPreferred,
-          notes: args.notes,
-          scenarioId: args.scenarioId,
-          enteredBy: user._id,
-          enteredAt: Date.now(),
-        });
-        updated++;
-      } else {
-        await ctx.db.insert("provider_availability", {
-          providerId: args.providerId,
-          date,
-          availabilityType: args.availabilityType,
-          amAvailable: args.amAvailable,
-          pmAvailable: args.pmAvailable,
-          amPreferred: args.amPreferred,
-          pmPreferred: args.pmPreferred,
-          notes: args.notes,
-          scenarioId: args.scenarioId,
-          enteredBy: user._id,
-          enteredAt: Date.now(),
-          source: "admin",
-        });
-        created++;
-      }
+      const result = await upsertAvailability(ctx, args.providerId, date, fields, {
+        enteredBy: user._id,
+        source: "admin",
+      });
+      if (result.created) created++;
+      else updated++;
     }
 
     await auditLog(ctx, user, "BULK_UPDATE", "PROVIDER_AVAILABILITY", args.providerId, {
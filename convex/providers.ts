@@ -9,6 +9,8 @@ import {
   optionalLongTextSchema,
   validateField,
 } from "./lib/validation";
+import { requireHealthSystemAccess, auditLog } from "./lib/auth";
+import { CREDENTIAL_VERIFICATION_STATUSES } from "./lib/credentials";
 
 /**
  * Create a single provider
@@ -446,6 +448,13 @@ export const list = query({
           ...p,
           jobType,
           skills: skillIds,
+          credentials: skillLinks.map((s) => ({
+            skillId: s.skillId,
+            issuedDate: s.issuedDate,
+            expiresDate: s.expiresDate,
+            issuingState: s.issuingState,
+            verificationStatus: s.verificationStatus ?? "verified",
+          })),
           hospitalAccess: hospitalAccessIds,
           // Alias for frontend compatibility
           homeHospitalId: p.hospitalId,
@@ -546,6 +555,68 @@ export const removeSkill = mutation({
   },
 });
 
+/**
+ * Record credential details for a provider's skill (license, certification)
+ * Expired, rejected and pending credentials gate matching and claims
+ */
+export const updateCredential = mutation({
+  args: {
+    providerId: v.id("providers"),
+    skillId: v.id("skills"),
+    issuedDate: v.optional(v.string()),
+    expiresDate: v.optional(v.string()),
+    issuingState: v.optional(v.string()),
+    verificationStatus: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const provider = await ctx.db.get(args.providerId);
+    if (!provider) throw new Error("Provider not found");
+
+    const user = await requireHealthSystemAccess(ctx, provider.healthSystemId);
+
+    const link = await ctx.db
+      .query("provider_skills")
+      .withIndex("by_provider", (q) => q.eq("providerId", args.providerId))
+      .filter((q) => q.eq(q.field("skillId"), args.skillId))
+      .first();
+    if (!link) throw new Error("Provider doesn't have this skill");
+
+    if (!(CREDENTIAL_VERIFICATION_STATUSES as readonly string[]).includes(args.verificationStatus)) {
+      throw new Error(`Unknown verification status "${args.verificationStatus}"`);
+    }
+    if (args.issuedDate && args.expiresDate && args.expiresDate < args.issuedDate) {
+      throw new Error("Expiry date must be after the issue date");
+    }
+    const issuingState = args.issuingState?.trim().toUpperCase() || undefined;
+    if (issuingState && !/^[A-Z]{2}$/.test(issuingState)) {
+      throw new Error("Issuing state must be a two-letter code");
+    }
+
+    const statusChanged = (link.verificationStatus ?? "verified") !== args.verificationStatus;
+    await ctx.db.patch(link._id, {
+      issuedDate: args.issuedDate || undefined,
+      expiresDate: args.expiresDate || undefined,
+      issuingState,
+      verificationStatus: args.verificationStatus,
+      verifiedBy: statusChanged ? user._id : link.verifiedBy,
+      verifiedAt: statusChanged ? Date.now() : link.verifiedAt,
+    });
+
+    const skill = await ctx.db.get(args.skillId);
+    await auditLog(ctx, user, "UPDATE", "PROVIDER", args.providerId, {
+      credential: skill?.name,
+      before: {
+        expiresDate: link.expiresDate,
+        issuingState: link.issuingState,
+        verificationStatus: link.verificationStatus,
+      },
+      after: { expiresDate: args.expiresDate, issuingState, verificationStatus: args.verificationStatus },
+    });
+
+    return { success: true };
+  },
+});
+
 /**
  * Add hospital access to provider
  */
@@ -621,6 +692,7 @@ export const update = mutation({
     specialtyCertification: v.optional(v.string()),
     previousExperience: v.optional(v.string()),
     hasVisa: v.optional(v.boolean()),
+    reminderChannel: v.optional(v.string()), // "sms" | "email" | "both" | "none"
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -629,6 +701,10 @@ export const update = mutation({
     const provider = await ctx.db.get(args.providerId);
     if (!provider) throw new Error("Provider not found");
 
+    if (args.reminderChannel !== undefined && !["sms", "email", "both", "none"].includes(args.reminderChannel)) {
+      throw new Error("Reminder channel must be sms, email, both or none");
+    }
+
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const updates: Record<string, any> = {};
     if (args.firstName !== undefined) updates.firstName = args.firstName;
@@ -642,6 +718,7 @@ export const update = mutation({
     if (args.specialtyCertification !== undefined) updates.specialtyCertification = args.specialtyCertification;
     if (args.previousExperience !== undefined) updates.previousExperience = args.previousExperience;
     if (args.hasVisa !== undefined) updates.hasVisa = args.hasVisa;
+    if (args.reminderChannel !== undefined) updates.reminderChannel = args.reminderChannel;
 
     // Handle jobTypeId separately since it's an Id type
     if (args.jobTypeId !== undefined) {
@@ -0,0 +1,627 @@
+import { mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireHealthSystemAccess, auditLog } from "./lib/auth";
+import {
+  canCoverJobType,
+  violatesVisaRestriction,
+  getShiftAvailability,
+  scoreMatch,
+  getRequiredSkillIds,
+  AvailabilityStatus,
+  MatchQuality,
+  loadCoverageTarget,
+  checkCoverageEligibility,
+} from "./lib/scenarioEligibility";
+import {
+  DutyHourRules,
+  ShiftInterval,
+  getDutyHourRules,
+  loadProviderShifts,
+  toShiftInterval,
+  evaluateShift,
+  isTraineeJobType,
+} from "./lib/dutyHours";
+import { agencyIneligibility, createAgencyPriority } from "./lib/agency";
+import { createHospitalStateLookup, getCredentialMatch } from "./lib/credentials";
+
+// ═══════════════════════════════════════════════════════════════════
+// AUTO-FILL SOLVER
+// Computes a whole-scenario assignment for every Open position.
+// Results are stored as a Draft run that an admin accepts or rejects as a whole.
+// Duty-hour rules are always hard constraints here, even in "warn" mode -
+// warnings are for people overriding them deliberately, not for the solver.
+// ═══════════════════════════════════════════════════════════════════
+
+// Score penalty per shift a provider already holds (existing + proposed)
+// Stronger than manual matching's 5/shift so work is spread evenly
+const FAIRNESS_PENALTY = 15;
+
+// Safety cap on rebalancing moves
+const MAX_REBALANCE_PASSES = 500;
+
+interface Candidate {
+  providerId: Id<"providers">;
+  baseScore: number;
+  matchQuality: MatchQuality;
+  availabilityStatus: AvailabilityStatus;
+}
+
+interface PoolProvider {
+  provider: Doc<"providers">;
+  jobTypeCode: string;
+  accessibleHospitalIds: Set<string>;
+  credentials: Doc<"provider_skills">[];
+  availabilityByDate: Map<string, Doc<"provider_availability">>;
+  // "date-shiftType" slots already held in this scenario (existing + proposed)
+  takenSlots: Set<string>;
+  // Shift count in this scenario (existing + proposed)
+  load: number;
+  // Shifts across all scenarios (existing + proposed), for duty-hour rules
+  shifts: ShiftInterval[];
+  isTrainee: boolean;
+  // Agency vendor's score offset relative to internal staff
+  priorityOffset: number;
+}
+
+const slotKey = (date: string, shiftType: string) => `${date}-${shiftType}`;
+
+/**
+ * Load every non-striking active provider with the data the solver needs
+ */
+async function loadProviderPool(
+  ctx: any,
+  scenario: Doc<"strike_scenarios">,
+  dutyHourRules: DutyHourRules | null
+) {
+  const strikingJobTypeIds = new Set(
+    scenario.affectedJobTypes.map((ajt) => ajt.jobTypeId.toString())
+  );
+
+  const allProviders: Doc<"providers">[] = await ctx.db
+    .query("providers")
+    .filter((q: any) => q.eq(q.field("isActive"), true))
+    .collect();
+
+  const jobTypeCodes = new Map<string, string>();
+  const pool = new Map<string, PoolProvider>();
+  const agencyPriority = createAgencyPriority(ctx);
+
+  for (const provider of allProviders) {
+    // Skip providers whose job type is striking (they're not available to cover)
+    if (strikingJobTypeIds.has(provider.jobTypeId.toString())) continue;
+
+    if (!jobTypeCodes.has(provider.jobTypeId.toString())) {
+      const jobType = await ctx.db.get(provider.jobTypeId);
+      jobTypeCodes.set(provider.jobTypeId.toString(), jobType?.code ?? "");
+    }
+    const jobTypeCode = jobTypeCodes.get(provider.jobTypeId.toString())!;
+    if (!jobTypeCode) continue;
+
+    const hospitalAccess = await ctx.db
+      .query("provider_hospital_access")
+      .withIndex("by_provider", (q: any) => q.eq("providerId", provider._id))
+      .collect();
+
+    const providerSkills = await ctx.db
+      .query("provider_skills")
+      .withIndex("by_provider", (q: any) => q.eq("providerId", provider._id))
+      .collect();
+
+    const availability: Doc<"provider_availability">[] = await ctx.db
+      .query("provider_availability")
+      .withIndex("by_provider", (q: any) => q.eq("providerId", provider._id))
+      .collect();
+
+    const availabilityByDate = new Map<string, Doc<"provider_availability">>();
+    for (const record of availability) {
+      if (record.date >= scenario.startDate && record.date <= scenario.endDate) {
+        availabilityByDate.set(record.date, record);
+      }
+    }
+
+    const existingAssignments = await ctx.db
+      .query("scenario_assignments")
+      .withIndex("by_provider_scenario", (q: any) =>
+        q.eq("providerId", provider._id).eq("scenarioId", scenario._id)
+      )
+      .filter((q: any) => q.neq(q.field("status"), "Cancelled"))
+      .collect();
+
+    const takenSlots = new Set<string>();
+    for (const assignment of existingAssignments) {
+      const pos = await ctx.db.get(assignment.scenarioPositionId);
+      if (pos) takenSlots.add(slotKey(pos.date, pos.shiftType));
+    }
+
+    pool.set(provider._id.toString(), {
+      provider,
+      jobTypeCode,
+      accessibleHospitalIds: new Set([
+        provider.hospitalId.toString(),
+        ...hospitalAccess.map((ha: any) => ha.hospitalId.toString()),
+      ]),
+      credentials: providerSkills,
+      availabilityByDate,
+      takenSlots,
+      load: existingAssignments.length,
+      shifts: dutyHourRules ? await loadProviderShifts(ctx, provider._id) : [],
+      isTrainee: dutyHourRules ? isTraineeJobType(jobTypeCode, dutyHourRules) : false,
+      priorityOffset: await agencyPriority(provider),
+    });
+  }
+
+  return pool;
+}
+
+/**
+ * Solve the assignment problem for a set of open positions
+ * 1. Most-constrained-first greedy: positions with the fewest candidates are filled first,
+ *    each taking the best candidate after a fairness penalty on current load
+ *    A candidate is only free if the shift keeps them within the duty-hour rules
+ * 2. Repair: unfilled positions try a one-step swap (steal a candidate whose
+ *    conflicting proposal can be handed to someone else)
+ * 3. Rebalance: move shifts from the busiest providers to candidates at least
+ *    two shifts lighter when the match is no worse than one fairness step
+ */
+function solve(
+  positions: Doc<"scenario_positions">[],
+  candidatesByPosition: Map<string, Candidate[]>,
+  pool: Map<string, PoolProvider>,
+  dutyHourRules: DutyHourRules | null
+) {
+  const proposals = new Map<string, Candidate>();
+  const shiftByPosition = new Map(positions.map((p) => [p._id.toString(), toShiftInterval(p)]));
+
+  const isFree = (p: PoolProvider, pos: Doc<"scenario_positions">) => {
+    if (p.takenSlots.has(slotKey(pos.date, pos.shiftType))) return false;
+    if (!dutyHourRules) return true;
+    const shift = shiftByPosition.get(pos._id.toString())!;
+    return evaluateShift(p.shifts, shift, dutyHourRules, p.isTrainee).length === 0;
+  };
+
+  const take = (pos: Doc<"scenario_positions">, candidate: Candidate) => {
+    const p = pool.get(candidate.providerId.toString())!;
+    p.takenSlots.add(slotKey(pos.date, pos.shiftType));
+    p.shifts.push(shiftByPosition.get(pos._id.toString())!);
+    p.load++;
+    proposals.set(pos._id.toString(), candidate);
+  };
+
+  const release = (pos: Doc<"scenario_positions">) => {
+    const candidate = proposals.get(pos._id.toString());
+    if (!candidate) return;
+    const p = pool.get(candidate.providerId.toString())!;
+    p.takenSlots.delete(slotKey(pos.date, pos.shiftType));
+    p.shifts = p.shifts.filter((s) => s.positionId !== pos._id);
+    p.load--;
+    proposals.delete(pos._id.toString());
+  };
+
+  const effectiveScore = (candidate: Candidate) =>
+    candidate.baseScore - pool.get(candidate.providerId.toString())!.load * FAIRNESS_PENALTY;
+
+  // 1. Greedy, most constrained first
+  const ordered = [...positions].sort((a, b) => {
+    const countA = candidatesByPosition.get(a._id.toString())?.length ?? 0;
+    const countB = candidatesByPosition.get(b._id.toString())?.length ?? 0;
+    if (countA !== countB) return countA - countB;
+    if (a.date !== b.date) return a.date.localeCompare(b.date);
+    return a.shiftType.localeCompare(b.shiftType);
+  });
+
+  for (const pos of ordered) {
+    const candidates = candidatesByPosition.get(pos._id.toString()) ?? [];
+    let best: Candidate | null = null;
+    for (const candidate of candidates) {
+      const p = pool.get(candidate.providerId.toString())!;
+      if (!isFree(p, pos)) continue;
+      if (!best || effectiveScore(candidate) > effectiveScore(best)) {
+        best = candidate;
+      }
+    }
+    if (best) take(pos, best);
+  }
+
+  // 2. Repair unfilled positions with one-step swaps
+  const positionById = new Map(positions.map((p) => [p._id.toString(), p]));
+  const proposalsBySlot = (providerId: string, date: string, shiftType: string) => {
+    for (const [positionId, candidate] of proposals) {
+      const pos = positionById.get(positionId)!;
+      if (
+        candidate.providerId.toString() === providerId &&
+        pos.date === date &&
+        pos.shiftType === shiftType
+      ) {
+        return pos;
+      }
+    }
+    return null;
+  };
+
+  for (const pos of ordered) {
+    if (proposals.has(pos._id.toString())) continue;
+
+    const candidates = candidatesByPosition.get(pos._id.toString()) ?? [];
+    for (const candidate of candidates) {
+      // Only providers blocked by one of OUR proposals can be freed up
+      const blocking = proposalsBySlot(candidate.providerId.toString(), pos.date, pos.shiftType);
+      if (!blocking) continue;
+
+      const replacement = (candidatesByPosition.get(blocking._id.toString()) ?? []).find(
+        (c) =>
+          c.providerId !== candidate.providerId &&
+          isFree(pool.get(c.providerId.toString())!, blocking)
+      );
+      if (!replacement) continue;
+
+      release(blocking);
+
+      // Shift times can differ between services, so re-check duty hours once freed
+      if (!isFree(pool.get(candidate.providerId.toString())!, pos)) {
+        take(blocking, candidate);
+        continue;
+      }
+
+      take(blocking, replacement);
+      take(pos, candidate);
+      break;
+    }
+  }
+
+  // 3. Rebalance shift counts
+  for (let pass = 0; pass < MAX_REBALANCE_PASSES; pass++) {
+    let moved = false;
+
+    for (const [positionId, current] of proposals) {
+      const pos = positionById.get(positionId)!;
+      const currentLoad = pool.get(current.providerId.toString())!.load;
+
+      const better = (candidatesByPosition.get(positionId) ?? []).find((c) => {
+        if (c.providerId === current.providerId) return false;
+        const p = pool.get(c.providerId.toString())!;
+        return (
+          isFree(p, pos) &&
+          p.load + 1 < currentLoad &&
+          c.baseScore >= current.baseScore - FAIRNESS_PENALTY
+        );
+      });
+
+      if (better) {
+        release(pos);
+        take(pos, better);
+        moved = true;
+        break;
+      }
+    }
+
+    if (!moved) break;
+  }
+
+  return proposals;
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// QUERIES
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Get the current Draft auto-fill run for a scenario, keyed by position for the grid
+ */
+export const getDraft = query({
+  args: { scenarioId: v.id("strike_scenarios") },
+  handler: async (ctx, args) => {
+    const run = await ctx.db
+      .query("scenario_autofill_runs")
+      .withIndex("by_scenario_status", (q) =>
+        q.eq("scenarioId", args.scenarioId).eq("status", "Draft")
+      )
+      .order("desc")
+      .first();
+
+    if (!run) return null;
+
+    const proposals = await ctx.db
+      .query("scenario_autofill_proposals")
+      .withIndex("by_run", (q) => q.eq("runId", run._id))
+      .collect();
+
+    const providerCache = new Map<string, Doc<"providers"> | null>();
+    const byPosition: Record<
+      string,
+      {
+        providerId: Id<"providers">;
+        providerName: string;
+        providerInitials: string;
+        matchQuality: string;
+        availabilityStatus: string;
+      }
+    > = {};
+
+    for (const proposal of proposals) {
+      const key = proposal.providerId.toString();
+      if (!providerCache.has(key)) {
+        providerCache.set(key, await ctx.db.get(proposal.providerId));
+      }
+      const provider = providerCache.get(key);
+
+      byPosition[proposal.scenarioPositionId.toString()] = {
+        providerId: proposal.providerId,
+        providerName: provider ? `${provider.firstName} ${provider.lastName}` : "Unknown",
+        providerInitials: provider
+          ? `${provider.firstName[0]}${provider.lastName[0]}`
+          : "??",
+        matchQuality: proposal.matchQuality,
+        availabilityStatus: proposal.availabilityStatus,
+      };
+    }
+
+    return { ...run, byPosition };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// MUTATIONS
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Generate a Draft auto-fill run for every Open position in a scenario
+ * Supersedes any earlier Draft run. Nothing is assigned until the run is accepted.
+ */
+export const generate = mutation({
+  args: { scenarioId: v.id("strike_scenarios") },
+  handler: async (ctx, args) => {
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario) throw new Error("Scenario not found");
+
+    if (scenario.status === "Completed" || scenario.status === "Cancelled") {
+      throw new Error("Cannot auto-fill a completed or cancelled scenario");
+    }
+
+    const user = await requireHealthSystemAccess(ctx, scenario.healthSystemId);
+
+    // Supersede earlier drafts
+    const earlierDrafts = await ctx.db
+      .query("scenario_autofill_runs")
+      .withIndex("by_scenario_status", (q) =>
+        q.eq("scenarioId", args.scenarioId).eq("status", "Draft")
+      )
+      .collect();
+    for (const draft of earlierDrafts) {
+      await ctx.db.patch(draft._id, { status: "Superseded", resolvedAt: Date.now() });
+    }
+
+    const positions = await ctx.db
+      .query("scenario_positions")
+      .withIndex("by_scenario", (q) => q.eq("scenarioId", args.scenarioId))
+      .filter((q) =>
+        q.and(q.eq(q.field("isActive"), true), q.eq(q.field("status"), "Open"))
+      )
+      .collect();
+
+    const dutyHourRules = await getDutyHourRules(ctx, scenario.healthSystemId);
+    const pool = await loadProviderPool(ctx, scenario, dutyHourRules);
+
+    // Build candidate lists per position using the same rules as findMatchesForPosition
+    // Providers who marked themselves unavailable are never auto-assigned
+    const jobTypeCodes = new Map<string, string>();
+    const requiredSkillsBySjt = new Map<string, Id<"skills">[]>();
+    const candidatesByPosition = new Map<string, Candidate[]>();
+    const hospitalStateOf = createHospitalStateLookup(ctx);
+
+    for (const pos of positions) {
+      if (!jobTypeCodes.has(pos.jobTypeId.toString())) {
+        const jobType = await ctx.db.get(pos.jobTypeId);
+        jobTypeCodes.set(pos.jobTypeId.toString(), jobType?.code ?? "");
+      }
+      if (!requiredSkillsBySjt.has(pos.serviceJobTypeId.toString())) {
+        requiredSkillsBySjt.set(
+          pos.serviceJobTypeId.toString(),
+          await getRequiredSkillIds(ctx, pos.serviceJobTypeId)
+        );
+      }
+      const positionJobTypeCode = jobTypeCodes.get(pos.jobTypeId.toString())!;
+      const requiredSkillIds = requiredSkillsBySjt.get(pos.serviceJobTypeId.toString())!;
+      const hospitalState = await hospitalStateOf(pos.hospitalId);
+
+      const candidates: Candidate[] = [];
+      for (const p of pool.values()) {
+        if (!canCoverJobType(p.jobTypeCode, positionJobTypeCode)) continue;
+        if (!p.accessibleHospitalIds.has(pos.hospitalId.toString())) continue;
+        if (violatesVisaRestriction(p.provider, p.jobTypeCode, pos.hospitalId)) continue;
+        if (agencyIneligibility(p.provider, pos.date)) continue;
+        if (p.takenSlots.has(slotKey(pos.date, pos.shiftType))) continue;
+
+        const availabilityStatus = getShiftAvailability(
+          p.availabilityByDate.get(pos.date),
+          pos.shiftType
+        );
+        if (availabilityStatus === "unavailable") continue;
+
+        const { matchedSkills, missingSkills, matchQuality, blockedSkills } = getCredentialMatch(
+          requiredSkillIds,
+          p.credentials,
+          pos.date,
+          hospitalState
+        );
+        if (blockedSkills.length > 0) continue;
+
+        candidates.push({
+          providerId: p.provider._id,
+          matchQuality,
+          availabilityStatus,
+          baseScore: scoreMatch({
+            matchedSkillCount: matchedSkills.length,
+            missingSkillCount: missingSkills.length,
+            availabilityStatus,
+            isHomeDepartment: p.provider.departmentId === pos.departmentId,
+            isHomeHospital: p.provider.hospitalId === pos.hospitalId,
+          }) + p.priorityOffset,
+        });
+      }
+
+      candidates.sort((a, b) => b.baseScore - a.baseScore);
+      candidatesByPosition.set(pos._id.toString(), candidates);
+    }
+
+    const proposals = solve(positions, candidatesByPosition, pool, dutyHourRules);
+
+    // Fairness stats across providers holding at least one shift
+    const loads = [...pool.values()].map((p) => p.load).filter((load) => load > 0);
+
+    const runId = await ctx.db.insert("scenario_autofill_runs", {
+      scenarioId: args.scenarioId,
+      status: "Draft",
+      openPositions: positions.length,
+      proposedCount: proposals.size,
+      unfilledCount: positions.length - proposals.size,
+      providerCount: new Set([...proposals.values()].map((c) => c.providerId.toString())).size,
+      minShiftsPerProvider: loads.length > 0 ? Math.min(...loads) : 0,
+      maxShiftsPerProvider: loads.length > 0 ? Math.max(...loads) : 0,
+      createdBy: user._id,
+      createdAt: Date.now(),
+    });
+
+    for (const [positionId, candidate] of proposals) {
+      await ctx.db.insert("scenario_autofill_proposals", {
+        runId,
+        scenarioId: args.scenarioId,
+        scenarioPositionId: positionId as Id<"scenario_positions">,
+        providerId: candidate.providerId,
+        score: candidate.baseScore,
+        matchQuality: candidate.matchQuality,
+        availabilityStatus: candidate.availabilityStatus,
+      });
+    }
+
+    await auditLog(ctx, user, "CREATE", "AUTO_FILL_RUN", runId, {
+      scenarioId: args.scenarioId,
+      openPositions: positions.length,
+      proposedCount: proposals.size,
+    });
+
+    return {
+      runId,
+      openPositions: positions.length,
+      proposedCount: proposals.size,
+      unfilledCount: positions.length - proposals.size,
+    };
+  },
+});
+
+/**
+ * Accept a Draft run - creates assignments for every proposal still valid
+ * Proposals whose position was filled, or whose provider is no longer eligible
+ * (checkCoverageEligibility) since the run was generated, are skipped
+ */
+export const accept = mutation({
+  args: { runId: v.id("scenario_autofill_runs") },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run) throw new Error("Auto-fill run not found");
+
+    if (run.status !== "Draft") {
+      throw new Error("Can only accept Draft auto-fill runs");
+    }
+
+    const scenario = await ctx.db.get(run.scenarioId);
+    if (!scenario) throw new Error("Scenario not found");
+
+    const user = await requireHealthSystemAccess(ctx, scenario.healthSystemId);
+
+    const proposals = await ctx.db
+      .query("scenario_autofill_proposals")
+      .withIndex("by_run", (q) => q.eq("runId", args.runId))
+      .collect();
+
+    // A draft can be accepted days later - re-check each proposal against the
+    // same coverage rules as matching (credentials, agency clearance, conflicts,
+    // duty hours in "block" mode). Assignments made earlier in this loop count.
+    let acceptedCount = 0;
+    let skippedCount = 0;
+
+    for (const proposal of proposals) {
+      const position = await ctx.db.get(proposal.scenarioPositionId);
+      if (!position || !position.isActive || position.status !== "Open") {
+        skippedCount++;
+        continue;
+      }
+
+      const provider = await ctx.db.get(proposal.providerId);
+      const providerJobType = provider ? await ctx.db.get(provider.jobTypeId) : null;
+      const target = await loadCoverageTarget(ctx, position);
+      if (!provider || !provider.isActive || !providerJobType || !target) {
+        skippedCount++;
+        continue;
+      }
+
+      const check = await checkCoverageEligibility(ctx, provider, providerJobType, target);
+      if (!check.eligible) {
+        skippedCount++;
+        continue;
+      }
+
+      await ctx.db.insert("scenario_assignments", {
+        scenarioPositionId: position._id,
+        providerId: proposal.providerId,
+        scenarioId: run.scenarioId,
+        status: "Active",
+        assignedAt: Date.now(),
+        assignedBy: user._id,
+        notes: "Auto-filled",
+      });
+
+      await ctx.db.patch(position._id, { status: "Assigned" });
+      acceptedCount++;
+    }
+
+    await ctx.db.patch(args.runId, {
+      status: "Accepted",
+      acceptedCount,
+      skippedCount,
+      resolvedBy: user._id,
+      resolvedAt: Date.now(),
+    });
+
+    await auditLog(ctx, user, "ASSIGN", "AUTO_FILL_RUN", args.runId, {
+      scenarioId: run.scenarioId,
+      acceptedCount,
+      skippedCount,
+    });
+
+    return { acceptedCount, skippedCount };
+  },
+});
+
+/**
+ * Reject a Draft run - discards all proposals
+ */
+export const reject = mutation({
+  args: { runId: v.id("scenario_autofill_runs") },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run) throw new Error("Auto-fill run not found");
+
+    if (run.status !== "Draft") {
+      throw new Error("Can only reject Draft auto-fill runs");
+    }
+
+    const scenario = await ctx.db.get(run.scenarioId);
+    if (!scenario) throw new Error("Scenario not found");
+
+    const user = await requireHealthSystemAccess(ctx, scenario.healthSystemId);
+
+    await ctx.db.patch(args.runId, {
+      status: "Rejected",
+      resolvedBy: user._id,
+      resolvedAt: Date.now(),
+    });
+
+    await auditLog(ctx, user, "CANCEL", "AUTO_FILL_RUN", args.runId, {
+      scenarioId: run.scenarioId,
+      proposedCount: run.proposedCount,
+    });
+
+    return { success: true };
+  },
+});
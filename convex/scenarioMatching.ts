@@ -1,31 +1,36 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
-import { Id } from "./_generated/dataModel";
+import { Doc, Id } from "./_generated/dataModel";
 import { requireAuth, requireDepartmentAccess, auditLog } from "./lib/auth";
-
-// ═══════════════════════════════════════════════════════════════════
-// JOB TYPE HIERARCHY FOR CROSS-COVERAGE
-// Higher level providers can cover lower level positions
-// ═══════════════════════════════════════════════════════════════════
-
-const JOB_TYPE_HIERARCHY: Record<string, number> = {
-  "MD": 4,    // Doctors
-  "FEL": 4,   // Fellows = MD level
-  "RES": 4,   // Residents = MD level
-  "NP": 3,    // Nurse Practitioners
-  "PA": 3,    // Physician Assistants
-  "RN": 2,    // Registered Nurses
-};
-
-/**
- * Check if a provider's job type can cover a position's job type
- * Based on hierarchy: MD/FEL/RES → NP/PA → RN
- */
-function canCoverJobType(providerCode: string, positionCode: string): boolean {
-  const providerLevel = JOB_TYPE_HIERARCHY[providerCode] ?? 1;
-  const positionLevel = JOB_TYPE_HIERARCHY[positionCode] ?? 1;
-  return providerLevel >= positionLevel;
-}
+import {
+  canCoverJobType,
+  getShiftAvailability,
+  scoreMatch,
+  getRequiredSkillIds,
+  loadCoverageTarget,
+  checkCoverageEligibility,
+} from "./lib/scenarioEligibility";
+import {
+  getDutyHourRules,
+  loadProviderShifts,
+  toShiftInterval,
+  evaluateShift,
+  isTraineeJobType,
+  getDutyHourHeadroom,
+  formatViolations,
+} from "./lib/dutyHours";
+import { isCoveragePosition, reopenPosition } from "./lib/standby";
+import { agencyIneligibility, createAgencyPriority, isAgencyWorker } from "./lib/agency";
+import {
+  createHospitalStateLookup,
+  describeBlockedCredentials,
+  getCredentialMatch,
+  loadProviderCredentials,
+} from "./lib/credentials";
+import { canSupply, credentialFit, loadAvailabilityByDate, loadSupplyPool } from "./lib/coverageSupply";
+
+// Score penalty per duty-hour rule a match would break (warn mode only)
+const DUTY_HOUR_WARNING_PENALTY = 40;
 
 // ═══════════════════════════════════════════════════════════════════
 // QUERIES
@@ -55,24 +60,10 @@ export const findMatchesForPosition = query({
       return { error: "Position data incomplete", matches: [] };
     }
 
-    // Get the scenario to know which job types are striking
-    const scenario = await ctx.db.get(position.scenarioId);
-    if (!scenario) return { error: "Scenario not found", matches: [] };
-
-    const strikingJobTypeIds = new Set(
-      scenario.affectedJobTypes.map((ajt) => ajt.jobTypeId.toString())
-    );
-
-    // Get required skills for this position
-    const skillLinks = await ctx.db
-      .query("service_job_type_skills")
-      .withIndex("by_service_job_type", (q) =>
-        q.eq("serviceJobTypeId", position.serviceJobTypeId)
-      )
-      .filter((q) => q.eq(q.field("isRequired"), true))
-      .collect();
-
-    const requiredSkillIds = skillLinks.map((sl) => sl.skillId);
+    // Striking job types, duty-hour rules, required skills - shared with peer shift trades
+    const coverage = await loadCoverageTarget(ctx, position);
+    if (!coverage) return { error: "Scenario not found", matches: [] };
+    const { requiredSkillIds } = coverage;
 
     // Get ALL active providers (not filtered by job type)
     // We'll filter by hierarchy and striking status
@@ -82,62 +73,18 @@ export const findMatchesForPosition = query({
       .collect();
 
     const matches: any[] = [];
+    const agencyPriority = createAgencyPriority(ctx);
 
     for (const provider of allProviders) {
       // Get provider's job type
       const providerJobType = await ctx.db.get(provider.jobTypeId);
       if (!providerJobType) continue;
 
-      // Skip providers whose job type is striking (they're not available to cover)
-      if (strikingJobTypeIds.has(provider.jobTypeId.toString())) {
-        continue;
-      }
-
-      // Check if provider's job type can cover the position's job type (hierarchy)
-      if (!canCoverJobType(providerJobType.code, positionJobType.code)) {
-        continue;
-      }
-
-      // Check hospital access
-      const canWorkAtHospital = await checkHospitalAccess(
-        ctx,
-        provider._id,
-        provider.hospitalId,
-        position.hospitalId
-      );
-      if (!canWorkAtHospital) continue;
-
-      // Check visa restriction for fellows
-      // Fellows with visas can ONLY work at their home hospital
-      if (provider.hasVisa && providerJobType.code === "FEL") {
-        if (provider.hospitalId !== position.hospitalId) {
-          continue; // Skip: Fellow with visa cannot moonlight outside home hospital
-        }
-      }
-
-      // Check for shift conflicts (already assigned to same date/shift)
-      const existingAssignments = await ctx.db
-        .query("scenario_assignments")
-        .withIndex("by_provider_scenario", (q) =>
-          q.eq("providerId", provider._id).eq("scenarioId", position.scenarioId)
-        )
-        .filter((q) => q.neq(q.field("status"), "Cancelled"))
-        .collect();
-
-      // Check if any assignment is for the same date/shift
-      let hasConflict = false;
-      for (const assignment of existingAssignments) {
-        const assignedPos = await ctx.db.get(assignment.scenarioPositionId);
-        if (
-          assignedPos &&
-          assignedPos.date === position.date &&
-          assignedPos.shiftType === position.shiftType
-        ) {
-          hasConflict = true;
-          break;
-        }
-      }
-      if (hasConflict) continue;
+      // Striking status, credentials, hierarchy, hospital access, visa, same-shift conflicts
+      // and duty-hour rules ("block" hides violators, "warn" keeps them with a penalty)
+      const eligibility = await checkCoverageEligibility(ctx, provider, providerJobType, coverage);
+      if (!eligibility.eligible) continue;
+      const { scenarioAssignments: existingAssignments, dutyHourViolations, credentialMatch } = eligibility;
 
       // Check availability (OPTIONAL - affects score, not eligibility)
       const availability = await ctx.db
@@ -147,86 +94,28 @@ export const findMatchesForPosition = query({
         )
         .first();
 
-      let availabilityStatus: "available" | "preferred" | "unavailable" | "unknown" = "unknown";
-      let isPreferred = false;
-
-      if (availability) {
-        if (availability.availabilityType === "unavailable") {
-          availabilityStatus = "unavailable";
-        } else {
-          const isAvailableForShift =
-            position.shiftType === "AM"
-              ? availability.amAvailable
-              : availability.pmAvailable;
-          const isPreferredForShift =
-            position.shiftType === "AM"
-              ? availability.amPreferred ?? false
-              : availability.pmPreferred ?? false;
-
-          if (isPreferredForShift) {
-            availabilityStatus = "preferred";
-            isPreferred = true;
-          } else if (isAvailableForShift) {
-            availabilityStatus = "available";
-          } else {
-            availabilityStatus = "unavailable";
-          }
-        }
-      }
-
-      // Calculate skill match
-      const providerSkills = await ctx.db
-        .query("provider_skills")
-        .withIndex("by_provider", (q) => q.eq("providerId", provider._id))
-        .collect();
-
-      const providerSkillIds = new Set(providerSkills.map((ps) => ps.skillId.toString()));
-      const matchedSkills: Id<"skills">[] = [];
-      const missingSkills: Id<"skills">[] = [];
-
-      for (const skillId of requiredSkillIds) {
-        if (providerSkillIds.has(skillId.toString())) {
-          matchedSkills.push(skillId);
-        } else {
-          missingSkills.push(skillId);
-        }
-      }
+      const availabilityStatus = getShiftAvailability(availability, position.shiftType);
+      const isPreferred = availabilityStatus === "preferred";
 
-      // Calculate match quality
-      let matchQuality: "Perfect" | "Good" | "Partial" = "Partial";
-      if (missingSkills.length === 0) {
-        matchQuality = "Perfect";
-      } else if (matchedSkills.length > missingSkills.length) {
-        matchQuality = "Good";
-      }
+      // Skill match for ranking - unverified credentials cap it at "Good"
+      const { matchedSkills, missingSkills, matchQuality, pendingSkills } = credentialMatch;
 
       // Calculate workload in this scenario
       const currentAssignmentCount = existingAssignments.length;
 
       // Calculate score
-      // Priority: Availability > Preferred shift > skill match > home department > fewer assignments
-      let score = 0;
-
-      // Skill matching
-      score += matchedSkills.length * 10;
-      score -= missingSkills.length * 15;
-
-      // Availability scoring (optional - boosts or penalizes)
-      if (availabilityStatus === "preferred") {
-        score += 50;
-      } else if (availabilityStatus === "available") {
-        score += 20;
-      } else if (availabilityStatus === "unavailable") {
-        score -= 30; // Penalize but still show
-      }
-      // "unknown" = 0 (neutral)
-
-      // Location preferences
-      if (provider.departmentId === position.departmentId) score += 20;
-      if (provider.hospitalId === position.hospitalId) score += 10;
+      let score = scoreMatch({
+        matchedSkillCount: matchedSkills.length,
+        missingSkillCount: missingSkills.length,
+        availabilityStatus,
+        isHomeDepartment: provider.departmentId === position.departmentId,
+        isHomeHospital: provider.hospitalId === position.hospitalId,
+      });
 
       // Workload balance
       score -= currentAssignmentCount * 5; // Prefer less-busy providers
+      score -= dutyHourViolations.length * DUTY_HOUR_WARNING_PENALTY;
+      score += await agencyPriority(provider); // Vendor's priority relative to internal staff
 
       // Get skill names for display
       const matchedSkillDetails = await Promise.all(
@@ -243,6 +132,13 @@ export const findMatchesForPosition = query({
         })
       );
 
+      const unverifiedSkillDetails = await Promise.all(
+        pendingSkills.map(async (sid) => {
+          const skill = await ctx.db.get(sid);
+          return skill?.name;
+        })
+      );
+
       matches.push({
         providerId: provider._id,
         providerName: `${provider.firstName} ${provider.lastName}`,
@@ -254,12 +150,15 @@ export const findMatchesForPosition = query({
         isPreferred,
         matchedSkills: matchedSkillDetails.filter(Boolean),
         missingSkills: missingSkillDetails.filter(Boolean),
+        unverifiedSkills: unverifiedSkillDetails.filter(Boolean),
         currentAssignmentCount,
         score,
         isHomeDepartment: provider.departmentId === position.departmentId,
         isHomeHospital: provider.hospitalId === position.hospitalId,
         availabilityNotes: availability?.notes,
         hasVisa: provider.hasVisa ?? false,
+        isAgency: isAgencyWorker(provider),
+        dutyHourViolations: dutyHourViolations.map((v) => v.message),
       });
     }
 
@@ -286,27 +185,9 @@ export const findMatchesForPosition = query({
   },
 });
 
-async function checkHospitalAccess(
-  ctx: any,
-  providerId: Id<"providers">,
-  homeHospitalId: Id<"hospitals">,
-  targetHospitalId: Id<"hospitals">
-): Promise<boolean> {
-  // Home hospital is always accessible
-  if (homeHospitalId === targetHospitalId) return true;
-
-  // Check explicit access
-  const access = await ctx.db
-    .query("provider_hospital_access")
-    .withIndex("by_provider", (q: any) => q.eq("providerId", providerId))
-    .filter((q: any) => q.eq(q.field("hospitalId"), targetHospitalId))
-    .first();
-
-  return !!access;
-}
-
 /**
  * Get provider's current workload in a scenario
+ * Includes duty-hour headroom across all scenarios when rules are configured
  */
 export const getProviderWorkload = query({
   args: {
@@ -345,10 +226,27 @@ export const getProviderWorkload = query({
       }
     }
 
+    // Duty-hour headroom
+    let headroom: ReturnType<typeof getDutyHourHeadroom> | null = null;
+    const scenario = await ctx.db.get(args.scenarioId);
+    const provider = await ctx.db.get(args.providerId);
+    const dutyHourRules = scenario
+      ? await getDutyHourRules(ctx, scenario.healthSystemId)
+      : null;
+    if (dutyHourRules && provider) {
+      const providerJobType = await ctx.db.get(provider.jobTypeId);
+      headroom = getDutyHourHeadroom(
+        await loadProviderShifts(ctx, args.providerId),
+        dutyHourRules,
+        isTraineeJobType(providerJobType?.code ?? "", dutyHourRules)
+      );
+    }
+
     return {
       totalAssignments: assignments.length,
       assignments: enrichedAssignments,
       byDate,
+      headroom,
     };
   },
 });
@@ -394,6 +292,191 @@ export const getCoverageGaps = query({
   },
 });
 
+interface SupplyCell {
+  date: string;
+  shiftType: string;
+  total: number;
+  open: number;
+  available: Set<string>;
+  skilled: Set<string>;
+  noResponse: Set<string>;
+}
+
+/**
+ * Supply versus demand before matching starts: for every date × shift ×
+ * service (or job type), open positions against the distinct providers
+ * who may cover them under the matching rules (striking, hierarchy,
+ * hospital access, visa) and have said they're available. "skilled"
+ * also requires every required skill; "noResponse" is eligible providers
+ * with no availability entered. Providers already working that
+ * date/shift in this scenario aren't counted.
+ */
+export const getSupplyDemand = query({
+  args: {
+    scenarioId: v.id("strike_scenarios"),
+    groupBy: v.optional(v.string()), // "service" (default) | "jobType"
+  },
+  handler: async (ctx, args) => {
+    await requireAuth(ctx);
+
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario) return null;
+    const groupBy = args.groupBy === "jobType" ? "jobType" : "service";
+
+    const positions = (
+      await ctx.db
+        .query("scenario_positions")
+        .withIndex("by_scenario", (q) => q.eq("scenarioId", args.scenarioId))
+        .collect()
+    ).filter(isCoveragePosition);
+
+    const dates = Array.from(new Set(positions.map((p) => p.date))).sort();
+    const [pool, availabilityOf, assignments] = await Promise.all([
+      loadSupplyPool(ctx, scenario.healthSystemId),
+      loadAvailabilityByDate(ctx, dates),
+      ctx.db
+        .query("scenario_assignments")
+        .withIndex("by_scenario", (q) => q.eq("scenarioId", args.scenarioId))
+        .filter((q) => q.neq(q.field("status"), "Cancelled"))
+        .collect(),
+    ]);
+    const striking = new Set(scenario.affectedJobTypes.map((ajt) => ajt.jobTypeId.toString()));
+
+    // Providers already working each date/shift in this scenario
+    const positionsById = new Map(positions.map((p) => [p._id.toString(), p]));
+    const busy = new Map<string, Set<string>>();
+    for (const assignment of assignments) {
+      const position = positionsById.get(assignment.scenarioPositionId.toString());
+      if (!position) continue;
+      const key = `${position.date}|${position.shiftType}`;
+      if (!busy.has(key)) busy.set(key, new Set());
+      busy.get(key)!.add(assignment.providerId.toString());
+    }
+
+    // Supply depends only on hospital, job type, required skills, date and shift
+    const jobTypes = new Map<string, Doc<"job_types"> | null>();
+    const requiredSkills = new Map<string, Id<"skills">[]>();
+    const supplyCache = new Map<string, { available: string[]; skilled: string[]; noResponse: string[] }>();
+    const hospitalStateOf = createHospitalStateLookup(ctx);
+
+    const supplyFor = async (position: Doc<"scenario_positions">) => {
+      const key = `${position.hospitalId}|${position.serviceJobTypeId}|${position.date}|${position.shiftType}`;
+      if (supplyCache.has(key)) return supplyCache.get(key)!;
+
+      const jobTypeKey = position.jobTypeId.toString();
+      if (!jobTypes.has(jobTypeKey)) jobTypes.set(jobTypeKey, await ctx.db.get(position.jobTypeId));
+      const skillsKey = position.serviceJobTypeId.toString();
+      if (!requiredSkills.has(skillsKey)) {
+        requiredSkills.set(skillsKey, await getRequiredSkillIds(ctx, position.serviceJobTypeId));
+      }
+
+      const working = busy.get(`${position.date}|${position.shiftType}`);
+      const hospitalState = await hospitalStateOf(position.hospitalId);
+      const supply = { available: [] as string[], skilled: [] as string[], noResponse: [] as string[] };
+      for (const entry of pool) {
+        const providerId = entry.provider._id.toString();
+        if (working?.has(providerId)) continue;
+        const slot = {
+          hospitalId: position.hospitalId,
+          jobTypeCode: jobTypes.get(jobTypeKey)?.code ?? "",
+          date: position.date,
+        };
+        if (!canSupply(entry, slot, striking)) continue;
+        const fit = credentialFit(entry, requiredSkills.get(skillsKey)!, position.date, hospitalState);
+        if (fit === "blocked") continue;
+
+        const status = availabilityOf(entry.provider._id, position.date, position.shiftType);
+        if (status === "unknown") {
+          supply.noResponse.push(providerId);
+        } else if (status !== "unavailable") {
+          supply.available.push(providerId);
+          if (fit === "skilled") supply.skilled.push(providerId);
+        }
+      }
+      supplyCache.set(key, supply);
+      return supply;
+    };
+
+    const newCell = (date: string, shiftType: string): SupplyCell => ({
+      date,
+      shiftType,
+      total: 0,
+      open: 0,
+      available: new Set(),
+      skilled: new Set(),
+      noResponse: new Set(),
+    });
+    type Supply = Awaited<ReturnType<typeof supplyFor>>;
+    const addTo = (cell: SupplyCell, position: Doc<"scenario_positions">, supply: Supply) => {
+      cell.total++;
+      if (position.status !== "Open") return;
+      cell.open++;
+      supply.available.forEach((id) => cell.available.add(id));
+      supply.skilled.forEach((id) => cell.skilled.add(id));
+      supply.noResponse.forEach((id) => cell.noResponse.add(id));
+    };
+
+    const rows = new Map<string, { key: string; label: string; sublabel: string; cells: Map<string, SupplyCell> }>();
+    const totals = new Map<string, SupplyCell>();
+
+    for (const position of positions) {
+      const rowKey = groupBy === "jobType" ? position.jobTypeId.toString() : position.serviceId.toString();
+      if (!rows.has(rowKey)) {
+        if (groupBy === "jobType") {
+          const jobType = await ctx.db.get(position.jobTypeId);
+          rows.set(rowKey, {
+            key: rowKey,
+            label: jobType?.name ?? "Unknown",
+            sublabel: jobType?.code ?? "",
+            cells: new Map(),
+          });
+        } else {
+          const service = await ctx.db.get(position.serviceId);
+          const hospital = await ctx.db.get(position.hospitalId);
+          rows.set(rowKey, {
+            key: rowKey,
+            label: service?.name ?? "Unknown",
+            sublabel: [service?.shortCode, hospital?.shortCode].filter(Boolean).join(" · "),
+            cells: new Map(),
+          });
+        }
+      }
+
+      const cellKey = `${position.date}|${position.shiftType}`;
+      const row = rows.get(rowKey)!;
+      if (!row.cells.has(cellKey)) row.cells.set(cellKey, newCell(position.date, position.shiftType));
+      if (!totals.has(cellKey)) totals.set(cellKey, newCell(position.date, position.shiftType));
+
+      const supply = await supplyFor(position);
+      addTo(row.cells.get(cellKey)!, position, supply);
+      addTo(totals.get(cellKey)!, position, supply);
+    }
+
+    const finish = ({ available, skilled, noResponse, ...cell }: SupplyCell) => ({
+      ...cell,
+      available: available.size,
+      skilled: skilled.size,
+      noResponse: noResponse.size,
+    });
+
+    const totalCells = Array.from(totals.values()).map(finish);
+
+    return {
+      groupBy,
+      dates,
+      shiftTypes: ["AM", "PM"].filter((shiftType) => positions.some((p) => p.shiftType === shiftType)),
+      rows: Array.from(rows.values())
+        .map((row) => ({ ...row, cells: Array.from(row.cells.values()).map(finish) }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+      totals: totalCells,
+      // Date/shifts where open positions outnumber every available provider
+      shortfalls: totalCells
+        .filter((cell) => cell.open > cell.available)
+        .sort((a, b) => a.date.localeCompare(b.date) || a.shiftType.localeCompare(b.shiftType)),
+    };
+  },
+});
+
 // ═══════════════════════════════════════════════════════════════════
 // MUTATIONS
 // ═══════════════════════════════════════════════════════════════════
@@ -420,6 +503,19 @@ export const createAssignment = mutation({
 
     const user = await requireDepartmentAccess(ctx, position.departmentId);
 
+    const agencyReason = agencyIneligibility(provider, position.date);
+    if (agencyReason) throw new Error(agencyReason);
+
+    const { blockedSkills } = getCredentialMatch(
+      await getRequiredSkillIds(ctx, position.serviceJobTypeId),
+      await loadProviderCredentials(ctx, provider._id),
+      position.date,
+      (await ctx.db.get(position.hospitalId))?.state
+    );
+    if (blockedSkills.length > 0) {
+      throw new Error(`Can't assign: ${await describeBlockedCredentials(ctx, blockedSkills)}`);
+    }
+
     // Check for conflicts
     const existingAssignments = await ctx.db
       .query("scenario_assignments")
@@ -442,6 +538,26 @@ export const createAssignment = mutation({
       }
     }
 
+    // Check duty-hour rules
+    const scenario = await ctx.db.get(position.scenarioId);
+    const dutyHourRules = scenario
+      ? await getDutyHourRules(ctx, scenario.healthSystemId)
+      : null;
+    let dutyHourWarnings: string[] = [];
+    if (dutyHourRules) {
+      const providerJobType = await ctx.db.get(provider.jobTypeId);
+      const violations = evaluateShift(
+        await loadProviderShifts(ctx, args.providerId),
+        toShiftInterval(position),
+        dutyHourRules,
+        isTraineeJobType(providerJobType?.code ?? "", dutyHourRules)
+      );
+      if (violations.length > 0 && dutyHourRules.enforcement === "block") {
+        throw new Error(`Duty-hour rules violated: ${formatViolations(violations)}`);
+      }
+      dutyHourWarnings = violations.map((v) => v.message);
+    }
+
     // Create assignment
     const assignmentId = await ctx.db.insert("scenario_assignments", {
       scenarioPositionId: args.scenarioPositionId,
@@ -461,9 +577,10 @@ export const createAssignment = mutation({
       positionId: args.scenarioPositionId,
       date: position.date,
       shiftType: position.shiftType,
+      ...(dutyHourWarnings.length > 0 && { dutyHourWarnings }),
     });
 
-    return { assignmentId };
+    return { assignmentId, dutyHourWarnings };
   },
 });
 
@@ -524,14 +641,15 @@ export const cancelAssignment = mutation({
       cancelReason: args.reason,
     });
 
-    // Reopen position
-    await ctx.db.patch(assignment.scenarioPositionId, { status: "Open" });
+    // Reopen position, promoting the top eligible standby
+    const promoted = await reopenPosition(ctx, assignment.scenarioPositionId, user._id);
 
     await auditLog(ctx, user, "CANCEL", "SCENARIO_ASSIGNMENT", args.assignmentId, {
       reason: args.reason,
+      ...(promoted && { promotedProviderId: promoted.providerId, promotedAssignmentId: promoted.assignmentId }),
     });
 
-    return { success: true };
+    return { success: true, promotedProviderId: promoted?.providerId };
   },
 });
 
@@ -814,30 +932,8 @@ export const getAvailableProviders = query({
         )
         .first();
 
-      let availabilityStatus: "available" | "preferred" | "unavailable" | "unknown" = "unknown";
-      let isPreferred = false;
-
-      if (availability) {
-        if (availability.availabilityType === "unavailable") {
-          availabilityStatus = "unavailable";
-        } else {
-          const isAvailableForShift =
-            args.shiftType === "AM" ? availability.amAvailable : availability.pmAvailable;
-          const isPreferredForShift =
-            args.shiftType === "AM"
-              ? availability.amPreferred ?? false
-              : availability.pmPreferred ?? false;
-
-          if (isPreferredForShift) {
-            availabilityStatus = "preferred";
-            isPreferred = true;
-          } else if (isAvailableForShift) {
-            availabilityStatus = "available";
-          } else {
-            availabilityStatus = "unavailable";
-          }
-        }
-      }
+      const availabilityStatus = getShiftAvailability(availability, args.shiftType);
+      const isPreferred = availabilityStatus === "preferred";
 
       availableProviders.push({
         id: provider._id,
@@ -1,39 +1,23 @@
-import { mutation, query } from "./_generated/server";
+import { mutation, query, QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
-import { Id } from "./_generated/dataModel";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
 import { requireAuth, requireHealthSystemAccess, auditLog } from "./lib/auth";
+import { isCoveragePosition } from "./lib/standby";
+import {
+  AffectedJobTypeInput,
+  POSITION_SOURCES,
+  PlannedShift,
+  StrikeRoundingRule,
+  getDateRange,
+  isWeekend,
+  planScenarioPositions,
+} from "./lib/scenarioPlanning";
 
 // ═══════════════════════════════════════════════════════════════════
 // HELPER FUNCTIONS
 // ═══════════════════════════════════════════════════════════════════
 
-// Note: We no longer calculate reduced headcount - strike scenarios are 100% reduction
-// Positions are generated at full headcount for striking job types only
-
-/**
- * Generate all dates between start and end (inclusive)
- */
-function getDateRange(startDate: string, endDate: string): string[] {
-  const dates: string[] = [];
-  const start = new Date(startDate);
-  const end = new Date(endDate);
-
-  for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
-    dates.push(d.toISOString().split("T")[0]);
-  }
-
-  return dates;
-}
-
-/**
- * Determine if a date is a weekend (Saturday=6, Sunday=0)
- */
-function isWeekend(dateStr: string): boolean {
-  const d = new Date(dateStr);
-  const day = d.getDay();
-  return day === 0 || day === 6;
-}
-
 /**
  * Generate job code for scenario position (includes date)
  */
@@ -44,10 +28,12 @@ function generateScenarioJobCode(
   jobTypeCode: string,
   date: string,
   shiftType: string,
-  positionNumber: number
+  positionNumber: number,
+  isStandby = false
 ): string {
   const deptCode = deptName.replace(/[^a-zA-Z]/g, "").substring(0, 6);
-  return `${deptCode}_${hospitalCode}_${serviceCode}_${jobTypeCode}_${date}_${shiftType}_${positionNumber}`;
+  const suffix = isStandby ? `SB${positionNumber}` : `${positionNumber}`;
+  return `${deptCode}_${hospitalCode}_${serviceCode}_${jobTypeCode}_${date}_${shiftType}_${suffix}`;
 }
 
 // ═══════════════════════════════════════════════════════════════════
@@ -122,9 +108,11 @@ export const list = query({
           .withIndex("by_scenario", (q) => q.eq("scenarioId", scenario._id))
           .collect();
 
-        const totalPositions = positions.filter((p) => p.isActive).length;
-        const filledPositions = positions.filter(
-          (p) => p.isActive && (p.status === "Assigned" || p.status === "Confirmed")
+        // Standby positions are a buffer, not coverage
+        const coveragePositions = positions.filter(isCoveragePosition);
+        const totalPositions = coveragePositions.length;
+        const filledPositions = coveragePositions.filter(
+          (p) => p.status === "Assigned" || p.status === "Confirmed"
         ).length;
 
         // Calculate total days in scenario
@@ -179,7 +167,8 @@ export const get = query({
       .withIndex("by_scenario", (q) => q.eq("scenarioId", args.scenarioId))
       .collect();
 
-    const activePositions = positions.filter((p) => p.isActive);
+    // Standby positions are a buffer, not coverage
+    const activePositions = positions.filter(isCoveragePosition);
     const totalPositions = activePositions.length;
     const filledPositions = activePositions.filter(
       (p) => p.status === "Assigned" || p.status === "Confirmed"
@@ -258,7 +247,8 @@ export const getCalendarView = query({
       .query("scenario_positions")
       .withIndex("by_scenario", (q) => q.eq("scenarioId", args.scenarioId))
       .filter((q) => q.eq(q.field("isActive"), true))
-      .collect();
+      .collect()
+      .then((all) => all.filter(isCoveragePosition));
 
     // Get unique services
     const serviceIds = [...new Set(positions.map((p) => p.serviceId))];
@@ -389,6 +379,85 @@ export const getOpenPositions = query({
   },
 });
 
+/**
+ * Preview the positions a scenario would generate without creating it
+ * Used by the scenario wizard to show original vs. vacated counts per service
+ */
+export const previewPositions = query({
+  args: {
+    healthSystemId: v.id("health_systems"),
+    hospitalId: v.optional(v.id("hospitals")),
+    startDate: v.string(),
+    endDate: v.string(),
+    affectedJobTypes: v.array(
+      v.object({
+        jobTypeId: v.id("job_types"),
+        reductionPercent: v.number(),
+      })
+    ),
+    positionSource: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireHealthSystemAccess(ctx, args.healthSystemId);
+
+    if (new Date(args.startDate) > new Date(args.endDate)) {
+      return null;
+    }
+
+    const { shifts, affectedServices, dates } = await planScenarioPositions(
+      ctx,
+      args.healthSystemId,
+      args.hospitalId,
+      args.startDate,
+      args.endDate,
+      args.affectedJobTypes,
+      args.positionSource
+    );
+
+    // Aggregate per service + job type
+    const rows = new Map<string, any>();
+    for (const shift of shifts) {
+      const key = `${shift.service._id}-${shift.jobTypeId}`;
+      if (!rows.has(key)) {
+        rows.set(key, {
+          serviceId: shift.service._id,
+          serviceName: shift.service.name,
+          serviceCode: shift.service.shortCode,
+          strikeRounding: (shift.service.strikeRounding ?? "up") as StrikeRoundingRule,
+          jobTypeId: shift.jobTypeId,
+          jobTypeName: shift.jobTypeName,
+          jobTypeCode: shift.jobTypeCode,
+          reductionPercent: shift.reductionPercent,
+          originalPositions: 0,
+          scenarioPositions: 0,
+          standbyPositions: 0,
+          censusShifts: 0,
+        });
+      }
+      const row = rows.get(key)!;
+      row.originalPositions += shift.originalHeadcount;
+      if (shift.projectedCensus !== undefined) row.censusShifts++;
+      row.scenarioPositions += shift.scenarioHeadcount;
+      row.standbyPositions += shift.standbyHeadcount;
+    }
+
+    const services = Array.from(rows.values()).sort((a, b) => {
+      if (a.serviceName !== b.serviceName) return a.serviceName.localeCompare(b.serviceName);
+      return a.jobTypeCode.localeCompare(b.jobTypeCode);
+    });
+
+    return {
+      totalDays: dates.length,
+      affectedServices,
+      originalPositions: services.reduce((sum, r) => sum + r.originalPositions, 0),
+      totalPositions: services.reduce((sum, r) => sum + r.scenarioPositions, 0),
+      standbyPositions: services.reduce((sum, r) => sum + r.standbyPositions, 0),
+      censusShifts: services.reduce((sum, r) => sum + r.censusShifts, 0),
+      services,
+    };
+  },
+});
+
 // ═══════════════════════════════════════════════════════════════════
 // MUTATIONS
 // ═══════════════════════════════════════════════════════════════════
@@ -410,10 +479,15 @@ export const create = mutation({
         reductionPercent: v.number(),
       })
     ),
+    positionSource: v.optional(v.string()), // "static" (default) | "census"
   },
   handler: async (ctx, args) => {
     const user = await requireHealthSystemAccess(ctx, args.healthSystemId);
 
+    if (args.positionSource && !POSITION_SOURCES.includes(args.positionSource)) {
+      throw new Error(`Unknown position source: ${args.positionSource}`);
+    }
+
     // Validate date range
     if (new Date(args.startDate) > new Date(args.endDate)) {
       throw new Error("Start date must be before or equal to end date");
@@ -435,6 +509,7 @@ export const create = mutation({
       startDate: args.startDate,
       endDate: args.endDate,
       affectedJobTypes: args.affectedJobTypes,
+      positionSource: args.positionSource,
       status: "Draft",
       createdBy: user._id,
       isActive: true,
@@ -450,13 +525,15 @@ export const create = mutation({
       args.hospitalId,
       args.startDate,
       args.endDate,
-      args.affectedJobTypes
+      args.affectedJobTypes,
+      args.positionSource
     );
 
     await auditLog(ctx, user, "CREATE", "STRIKE_SCENARIO", scenarioId, {
       name: args.name,
       startDate: args.startDate,
       endDate: args.endDate,
+      positionSource: args.positionSource,
       ...positionStats,
     });
 
@@ -464,10 +541,52 @@ export const create = mutation({
   },
 });
 
+/**
+ * Insert one position for a planned shift
+ * Standby positions are numbered after the vacated ones and get an SB job code
+ */
+async function insertPlannedPosition(
+  ctx: any,
+  scenarioId: Id<"strike_scenarios">,
+  shift: PlannedShift,
+  positionNumber: number,
+  jobCodeNumber: number,
+  isStandby = false
+) {
+  return await ctx.db.insert("scenario_positions", {
+    scenarioId,
+    serviceId: shift.service._id,
+    serviceJobTypeId: shift.serviceJobTypeId,
+    jobTypeId: shift.jobTypeId,
+    hospitalId: shift.service.hospitalId,
+    departmentId: shift.service.departmentId,
+    date: shift.date,
+    shiftType: shift.shiftType,
+    shiftStart: shift.shiftStart,
+    shiftEnd: shift.shiftEnd,
+    positionNumber,
+    jobCode: generateScenarioJobCode(
+      shift.departmentName,
+      shift.hospitalCode,
+      shift.service.shortCode,
+      shift.jobTypeCode,
+      shift.date,
+      shift.shiftType,
+      jobCodeNumber,
+      isStandby
+    ),
+    originalHeadcount: shift.originalHeadcount,
+    scenarioHeadcount: shift.scenarioHeadcount,
+    status: "Open",
+    isActive: true,
+    ...(isStandby && { isStandby: true }),
+    ...(shift.projectedCensus !== undefined && { projectedCensus: shift.projectedCensus }),
+  });
+}
+
 /**
  * Generate positions for a scenario
- * ONLY generates positions for STRIKING job types (these are the shifts that need to be filled)
- * Positions are created at full headcount (100% strike assumption)
+ * Creates scenarioHeadcount positions per date/shift - only the positions the strike vacates
  */
 async function generatePositionsForScenario(
   ctx: any,
@@ -476,166 +595,51 @@ async function generatePositionsForScenario(
   hospitalId: Id<"hospitals"> | undefined,
   startDate: string,
   endDate: string,
-  affectedJobTypes: { jobTypeId: Id<"job_types">; reductionPercent: number }[]
+  affectedJobTypes: AffectedJobTypeInput[],
+  positionSource?: string
 ) {
-  // Get all services in scope
-  let services;
-  if (hospitalId) {
-    services = await ctx.db
-      .query("services")
-      .withIndex("by_hospital", (q: any) => q.eq("hospitalId", hospitalId))
-      .filter((q: any) => q.eq(q.field("isActive"), true))
-      .collect();
-  } else {
-    services = await ctx.db
-      .query("services")
-      .withIndex("by_health_system", (q: any) => q.eq("healthSystemId", healthSystemId))
-      .filter((q: any) => q.eq(q.field("isActive"), true))
-      .collect();
-  }
-
-  // Create a set of striking job type IDs for quick lookup
-  const strikingJobTypeIds = new Set(
-    affectedJobTypes.map((ajt) => ajt.jobTypeId.toString())
+  const { shifts, affectedServices, dates, censusImportIds } = await planScenarioPositions(
+    ctx,
+    healthSystemId,
+    hospitalId,
+    startDate,
+    endDate,
+    affectedJobTypes,
+    positionSource
   );
 
-  const dates = getDateRange(startDate, endDate);
   let totalPositions = 0;
-  let affectedServices = 0;
+  let originalPositions = 0;
+  let standbyPositions = 0;
+  let censusShifts = 0;
 
-  for (const service of services) {
-    // Get service job types
-    const serviceJobTypes = await ctx.db
-      .query("service_job_types")
-      .withIndex("by_service", (q: any) => q.eq("serviceId", service._id))
-      .collect();
+  for (const shift of shifts) {
+    originalPositions += shift.originalHeadcount;
+    if (shift.projectedCensus !== undefined) censusShifts++;
 
-    // Filter to only striking job types for this service
-    const strikingServiceJobTypes = serviceJobTypes.filter((sjt: any) =>
-      strikingJobTypeIds.has(sjt.jobTypeId.toString())
-    );
-
-    if (strikingServiceJobTypes.length === 0) {
-      // Service has no striking job types, skip
-      continue;
-    }
-
-    affectedServices++;
-
-    // Get department and hospital info for job code
-    const department = await ctx.db.get(service.departmentId);
-    const hospital = await ctx.db.get(service.hospitalId);
-
-    // Only iterate over STRIKING job types
-    for (const sjt of strikingServiceJobTypes) {
-      const jobType = await ctx.db.get(sjt.jobTypeId);
-      if (!jobType) continue;
-
-      // Get the headcounts (full headcount - 100% strike)
-      const weekdayAmHeadcount = sjt.weekdayAmHeadcount ?? sjt.headcount ?? 1;
-      const weekdayPmHeadcount = sjt.weekdayPmHeadcount ?? sjt.headcount ?? 1;
-      const weekendAmHeadcount = sjt.weekendAmHeadcount ?? sjt.headcount ?? 1;
-      const weekendPmHeadcount = sjt.weekendPmHeadcount ?? sjt.headcount ?? 1;
-
-      // Determine shift times
-      const dayStart = sjt.dayShiftStart ?? service.dayShiftStart;
-      const dayEnd = sjt.dayShiftEnd ?? service.dayShiftEnd;
-      const nightStart = sjt.nightShiftStart ?? service.nightShiftStart;
-      const nightEnd = sjt.nightShiftEnd ?? service.nightShiftEnd;
-
-      // Operating flags
-      const operatesDays = sjt.operatesDays ?? service.operatesDays;
-      const operatesNights = sjt.operatesNights ?? service.operatesNights;
-
-      for (const date of dates) {
-        const weekend = isWeekend(date);
-
-        // Skip if service doesn't operate weekends and this is a weekend
-        if (weekend && !service.operatesWeekends) continue;
-
-        // AM shift
-        if (operatesDays) {
-          const headcount = weekend ? weekendAmHeadcount : weekdayAmHeadcount;
-
-          for (let i = 1; i <= headcount; i++) {
-            const jobCode = generateScenarioJobCode(
-              department?.name || "DEPT",
-              hospital?.shortCode || "HOSP",
-              service.shortCode,
-              jobType.code,
-              date,
-              "AM",
-              i
-            );
-
-            await ctx.db.insert("scenario_positions", {
-              scenarioId,
-              serviceId: service._id,
-              serviceJobTypeId: sjt._id,
-              jobTypeId: sjt.jobTypeId,
-              hospitalId: service.hospitalId,
-              departmentId: service.departmentId,
-              date,
-              shiftType: "AM",
-              shiftStart: dayStart,
-              shiftEnd: dayEnd,
-              positionNumber: i,
-              jobCode,
-              originalHeadcount: headcount,
-              scenarioHeadcount: headcount, // Full headcount (100% strike)
-              status: "Open",
-              isActive: true,
-            });
-
-            totalPositions++;
-          }
-        }
+    for (let i = 1; i <= shift.scenarioHeadcount; i++) {
+      await insertPlannedPosition(ctx, scenarioId, shift, i, i);
+      totalPositions++;
+    }
 
-        // PM shift
-        if (operatesNights) {
-          const headcount = weekend ? weekendPmHeadcount : weekdayPmHeadcount;
-
-          for (let i = 1; i <= headcount; i++) {
-            const jobCode = generateScenarioJobCode(
-              department?.name || "DEPT",
-              hospital?.shortCode || "HOSP",
-              service.shortCode,
-              jobType.code,
-              date,
-              "PM",
-              i
-            );
-
-            await ctx.db.insert("scenario_positions", {
-              scenarioId,
-              serviceId: service._id,
-              serviceJobTypeId: sjt._id,
-              jobTypeId: sjt.jobTypeId,
-              hospitalId: service.hospitalId,
-              departmentId: service.departmentId,
-              date,
-              shiftType: "PM",
-              shiftStart: nightStart,
-              shiftEnd: nightEnd,
-              positionNumber: i,
-              jobCode,
-              originalHeadcount: headcount,
-              scenarioHeadcount: headcount, // Full headcount (100% strike)
-              status: "Open",
-              isActive: true,
-            });
-
-            totalPositions++;
-          }
-        }
-      }
+    // Backup positions numbered after the vacated ones
+    for (let i = 1; i <= shift.standbyHeadcount; i++) {
+      await insertPlannedPosition(ctx, scenarioId, shift, shift.scenarioHeadcount + i, i, true);
+      standbyPositions++;
     }
   }
 
+  if (positionSource === "census") {
+    await ctx.db.patch(scenarioId, { censusImportIds, censusSyncedAt: Date.now() });
+  }
+
   return {
     totalPositions,
+    standbyPositions,
+    originalPositions,
     affectedServices,
     totalDays: dates.length,
+    ...(positionSource === "census" && { censusShifts }),
   };
 }
 
@@ -657,13 +661,18 @@ export const update = mutation({
         })
       )
     ),
+    positionSource: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const scenario = await ctx.db.get(args.scenarioId);
     if (!scenario) throw new Error("Scenario not found");
 
     if (scenario.status !== "Draft") {
-      throw new Error("Can only update scenarios in Draft status");
+      throw new Error("Can only update scenarios in Draft status; amend Active scenarios instead");
+    }
+
+    if (args.positionSource && !POSITION_SOURCES.includes(args.positionSource)) {
+      throw new Error(`Unknown position source: ${args.positionSource}`);
     }
 
     const user = await requireHealthSystemAccess(ctx, scenario.healthSystemId);
@@ -671,7 +680,8 @@ export const update = mutation({
     const needsRegeneration =
       args.startDate !== undefined ||
       args.endDate !== undefined ||
-      args.affectedJobTypes !== undefined;
+      args.affectedJobTypes !== undefined ||
+      args.positionSource !== undefined;
 
     // Update the scenario
     await ctx.db.patch(args.scenarioId, {
@@ -680,6 +690,7 @@ export const update = mutation({
       ...(args.startDate !== undefined && { startDate: args.startDate }),
       ...(args.endDate !== undefined && { endDate: args.endDate }),
       ...(args.affectedJobTypes !== undefined && { affectedJobTypes: args.affectedJobTypes }),
+      ...(args.positionSource !== undefined && { positionSource: args.positionSource }),
       updatedAt: Date.now(),
     });
 
@@ -707,7 +718,8 @@ export const update = mutation({
           updatedScenario.hospitalId,
           updatedScenario.startDate,
           updatedScenario.endDate,
-          updatedScenario.affectedJobTypes
+          updatedScenario.affectedJobTypes,
+          updatedScenario.positionSource
         );
       }
     }
@@ -836,6 +848,17 @@ export const regeneratePositions = mutation({
       await ctx.db.delete(pos._id);
     }
 
+    // Position standby lists go with their positions; bucket lists carry over
+    const positionStandby = await ctx.db
+      .query("scenario_standby")
+      .withIndex("by_scenario", (q) => q.eq("scenarioId", args.scenarioId))
+      .filter((q) => q.neq(q.field("scenarioPositionId"), undefined))
+      .collect();
+
+    for (const entry of positionStandby) {
+      await ctx.db.delete(entry._id);
+    }
+
     // Regenerate
     const positionStats = await generatePositionsForScenario(
       ctx,
@@ -844,7 +867,8 @@ export const regeneratePositions = mutation({
       scenario.hospitalId,
       scenario.startDate,
       scenario.endDate,
-      scenario.affectedJobTypes
+      scenario.affectedJobTypes,
+      scenario.positionSource
     );
 
     await auditLog(ctx, user, "REGENERATE", "STRIKE_SCENARIO", args.scenarioId, {
@@ -891,6 +915,16 @@ export const deleteScenario = mutation({
       await ctx.db.delete(pos._id);
     }
 
+    // Delete standby lists
+    const standby = await ctx.db
+      .query("scenario_standby")
+      .withIndex("by_scenario", (q) => q.eq("scenarioId", args.scenarioId))
+      .collect();
+
+    for (const entry of standby) {
+      await ctx.db.delete(entry._id);
+    }
+
     // Delete scenario
     await ctx.db.delete(args.scenarioId);
 
@@ -901,3 +935,553 @@ export const deleteScenario = mutation({
     return { success: true };
   },
 });
+
+// ═══════════════════════════════════════════════════════════════════
+// AMENDMENTS
+// Active scenarios are amended instead of regenerated: the new plan is
+// diffed against scenario_positions so existing assignments survive,
+// providers on cancelled positions are notified, and each amendment is
+// recorded as a version in scenario_amendments
+// ═══════════════════════════════════════════════════════════════════
+
+interface ScenarioPlan {
+  startDate: string;
+  endDate: string;
+  affectedJobTypes: AffectedJobTypeInput[];
+}
+
+const amendmentArgs = {
+  scenarioId: v.id("strike_scenarios"),
+  startDate: v.string(),
+  endDate: v.string(),
+  affectedJobTypes: v.array(
+    v.object({
+      jobTypeId: v.id("job_types"),
+      reductionPercent: v.number(),
+    })
+  ),
+};
+
+function validateScenarioPlan(plan: ScenarioPlan) {
+  if (new Date(plan.startDate) > new Date(plan.endDate)) {
+    throw new Error("Start date must be before or equal to end date");
+  }
+  for (const ajt of plan.affectedJobTypes) {
+    if (ajt.reductionPercent < 0 || ajt.reductionPercent > 100) {
+      throw new Error("Reduction percent must be between 0 and 100");
+    }
+  }
+  const jobTypeIds = plan.affectedJobTypes.map((ajt) => ajt.jobTypeId.toString());
+  if (new Set(jobTypeIds).size !== jobTypeIds.length) {
+    throw new Error("Each job type can only be listed once");
+  }
+}
+
+/**
+ * Diff a scenario's positions against what an amended plan calls for.
+ * Slots the plan no longer covers (dates out of range, job types dropped)
+ * lose all their positions; slots whose headcount drops lose Open
+ * positions first and keep filled ones. Past dates are left alone.
+ */
+async function computeAmendmentDiff(ctx: QueryCtx, scenario: Doc<"strike_scenarios">, plan: ScenarioPlan) {
+  const { shifts } = await planScenarioPositions(
+    ctx,
+    scenario.healthSystemId,
+    scenario.hospitalId,
+    plan.startDate,
+    plan.endDate,
+    plan.affectedJobTypes,
+    scenario.positionSource
+  );
+
+  const positions = await ctx.db
+    .query("scenario_positions")
+    .withIndex("by_scenario", (q) => q.eq("scenarioId", scenario._id))
+    .collect();
+
+  const slotKey = (serviceJobTypeId: string, date: string, shiftType: string) =>
+    `${serviceJobTypeId}|${date}|${shiftType}`;
+  const slots = new Map<string, Doc<"scenario_positions">[]>();
+  for (const position of positions) {
+    const key = slotKey(position.serviceJobTypeId, position.date, position.shiftType);
+    slots.set(key, [...(slots.get(key) ?? []), position]);
+  }
+
+  const today = new Date().toISOString().split("T")[0];
+  const additions: { shift: PlannedShift; slot: Doc<"scenario_positions">[]; count: number; isStandby: boolean }[] = [];
+  const cancellations: Doc<"scenario_positions">[] = [];
+  const kept: { position: Doc<"scenario_positions">; shift: PlannedShift }[] = [];
+  let filledKept = 0;
+  const plannedKeys = new Set<string>();
+
+  for (const shift of shifts) {
+    const key = slotKey(shift.serviceJobTypeId, shift.date, shift.shiftType);
+    plannedKeys.add(key);
+    if (shift.date < today) continue;
+
+    const slot = slots.get(key) ?? [];
+    for (const isStandby of [false, true]) {
+      const active = slot.filter((p) => p.isActive && !!p.isStandby === isStandby);
+      const delta = (isStandby ? shift.standbyHeadcount : shift.scenarioHeadcount) - active.length;
+
+      let cancelled: Doc<"scenario_positions">[] = [];
+      if (delta > 0) {
+        additions.push({ shift, slot, count: delta, isStandby });
+      } else if (delta < 0) {
+        cancelled = active
+          .filter((p) => p.status === "Open")
+          .sort((a, b) => b.positionNumber - a.positionNumber)
+          .slice(0, -delta);
+        cancellations.push(...cancelled);
+        if (!isStandby) filledKept += -delta - cancelled.length;
+      }
+
+      for (const position of active) {
+        if (!cancelled.includes(position)) kept.push({ position, shift });
+      }
+    }
+  }
+
+  for (const [key, slot] of slots) {
+    if (plannedKeys.has(key)) continue;
+    cancellations.push(...slot.filter((p) => p.isActive && p.date >= today));
+  }
+
+  // Assignments on cancelled positions are cancelled with them
+  const affectedAssignments: { assignment: Doc<"scenario_assignments">; position: Doc<"scenario_positions"> }[] = [];
+  for (const position of cancellations) {
+    if (position.status === "Open") continue;
+    const assignments = await ctx.db
+      .query("scenario_assignments")
+      .withIndex("by_position", (q) => q.eq("scenarioPositionId", position._id))
+      .filter((q) => q.neq(q.field("status"), "Cancelled"))
+      .collect();
+    for (const assignment of assignments) affectedAssignments.push({ assignment, position });
+  }
+
+  return { additions, cancellations, kept, filledKept, affectedAssignments };
+}
+
+/**
+ * Preview what amending an Active scenario would change
+ */
+export const previewAmendment = query({
+  args: amendmentArgs,
+  handler: async (ctx, args) => {
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario) throw new Error("Scenario not found");
+
+    await requireHealthSystemAccess(ctx, scenario.healthSystemId);
+
+    try {
+      validateScenarioPlan(args);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : "Invalid amendment", diff: null };
+    }
+
+    const { additions, cancellations, filledKept, affectedAssignments } = await computeAmendmentDiff(
+      ctx,
+      scenario,
+      args
+    );
+
+    const assignments = await Promise.all(
+      affectedAssignments.map(async ({ assignment, position }) => {
+        const [provider, service] = await Promise.all([
+          ctx.db.get(assignment.providerId),
+          ctx.db.get(position.serviceId),
+        ]);
+        return {
+          assignmentId: assignment._id,
+          providerName: provider ? `${provider.firstName} ${provider.lastName}` : "Unknown",
+          serviceName: service?.name ?? "Unknown",
+          date: position.date,
+          shiftType: position.shiftType,
+          status: assignment.status,
+        };
+      })
+    );
+    assignments.sort((a, b) => a.date.localeCompare(b.date) || a.shiftType.localeCompare(b.shiftType));
+
+    return {
+      error: null,
+      diff: {
+        positionsAdded: additions.filter((a) => !a.isStandby).reduce((sum, a) => sum + a.count, 0),
+        standbyAdded: additions.filter((a) => a.isStandby).reduce((sum, a) => sum + a.count, 0),
+        positionsCancelled: cancellations.filter((p) => !p.isStandby).length,
+        standbyCancelled: cancellations.filter((p) => p.isStandby).length,
+        filledPositionsKept: filledKept,
+        assignments,
+      },
+    };
+  },
+});
+
+/**
+ * Amend an Active scenario's dates or job types. New slots get positions,
+ * slots outside the new plan are cancelled along with their assignments
+ * (those providers are notified), and everything else keeps its
+ * positions and assignments.
+ */
+export const amend = mutation({
+  args: {
+    ...amendmentArgs,
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario) throw new Error("Scenario not found");
+
+    if (scenario.status !== "Active") {
+      throw new Error("Can only amend scenarios in Active status");
+    }
+
+    const user = await requireHealthSystemAccess(ctx, scenario.healthSystemId);
+    validateScenarioPlan(args);
+
+    const plan = { startDate: args.startDate, endDate: args.endDate, affectedJobTypes: args.affectedJobTypes };
+    const { additions, cancellations, kept, filledKept, affectedAssignments } = await computeAmendmentDiff(
+      ctx,
+      scenario,
+      plan
+    );
+
+    const version = (scenario.amendmentVersion ?? 0) + 1;
+    const reason = `Scenario amended (v${version})${args.reason?.trim() ? `: ${args.reason.trim()}` : ""}`;
+
+    let positionsAdded = 0;
+    for (const { shift, slot, count, isStandby } of additions) {
+      // Number after every position the slot has had, so job codes stay unique
+      const lastNumber = Math.max(0, ...slot.map((p) => p.positionNumber));
+      const lastStandbyCode = slot.filter((p) => p.isStandby).length;
+      for (let i = 1; i <= count; i++) {
+        await insertPlannedPosition(
+          ctx,
+          args.scenarioId,
+          shift,
+          lastNumber + i,
+          isStandby ? lastStandbyCode + i : lastNumber + i,
+          isStandby
+        );
+        if (!isStandby) positionsAdded++;
+      }
+    }
+
+    for (const position of cancellations) {
+      await ctx.db.patch(position._id, { status: "Cancelled", isActive: false });
+
+      const standby = await ctx.db
+        .query("scenario_standby")
+        .withIndex("by_position", (q) => q.eq("scenarioPositionId", position._id))
+        .filter((q) => q.eq(q.field("status"), "Waiting"))
+        .collect();
+      for (const entry of standby) {
+        await ctx.db.patch(entry._id, { status: "Removed" });
+      }
+    }
+
+    const notifiedProviderIds = new Set<Id<"providers">>();
+    for (const { assignment } of affectedAssignments) {
+      await ctx.db.patch(assignment._id, {
+        status: "Cancelled",
+        cancelledAt: Date.now(),
+        cancelledBy: user._id,
+        cancelReason: reason,
+      });
+      notifiedProviderIds.add(assignment.providerId);
+
+      await ctx.scheduler.runAfter(0, internal.shiftReminders.sendReminder, {
+        assignmentId: assignment._id,
+        kind: "amended",
+      });
+    }
+
+    // Positions that stay carry the new headcounts
+    for (const { position, shift } of kept) {
+      await ctx.db.patch(position._id, {
+        originalHeadcount: shift.originalHeadcount,
+        scenarioHeadcount: shift.scenarioHeadcount,
+        ...(shift.projectedCensus !== undefined && { projectedCensus: shift.projectedCensus }),
+      });
+    }
+
+    const before = {
+      startDate: scenario.startDate,
+      endDate: scenario.endDate,
+      affectedJobTypes: scenario.affectedJobTypes,
+    };
+
+    await ctx.db.patch(args.scenarioId, {
+      ...plan,
+      amendmentVersion: version,
+      updatedAt: Date.now(),
+    });
+
+    const stats = {
+      positionsAdded,
+      positionsCancelled: cancellations.filter((p) => !p.isStandby).length,
+      filledPositionsKept: filledKept,
+      assignmentsCancelled: affectedAssignments.length,
+    };
+
+    const amendmentId = await ctx.db.insert("scenario_amendments", {
+      scenarioId: args.scenarioId,
+      version,
+      reason: args.reason?.trim() || undefined,
+      before,
+      after: plan,
+      ...stats,
+      notifiedProviderIds: Array.from(notifiedProviderIds),
+      createdBy: user._id,
+      createdAt: Date.now(),
+    });
+
+    await auditLog(ctx, user, "UPDATE", "STRIKE_SCENARIO", args.scenarioId, {
+      type: "amendment",
+      amendmentId,
+      version,
+      before,
+      after: plan,
+      reason: args.reason,
+      ...stats,
+    });
+
+    return { version, ...stats, providersNotified: notifiedProviderIds.size };
+  },
+});
+
+/**
+ * Amendment history for a scenario, newest first
+ */
+export const listAmendments = query({
+  args: { scenarioId: v.id("strike_scenarios") },
+  handler: async (ctx, args) => {
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario) return [];
+
+    await requireHealthSystemAccess(ctx, scenario.healthSystemId);
+
+    const amendments = await ctx.db
+      .query("scenario_amendments")
+      .withIndex("by_scenario", (q) => q.eq("scenarioId", args.scenarioId))
+      .order("desc")
+      .collect();
+
+    const jobTypeCodes = new Map<string, string>();
+    for (const amendment of amendments) {
+      for (const ajt of [...amendment.before.affectedJobTypes, ...amendment.after.affectedJobTypes]) {
+        const key = ajt.jobTypeId.toString();
+        if (jobTypeCodes.has(key)) continue;
+        const jobType = await ctx.db.get(ajt.jobTypeId);
+        jobTypeCodes.set(key, jobType?.code ?? "?");
+      }
+    }
+    const describe = (plan: ScenarioPlan) => ({
+      ...plan,
+      jobTypes: plan.affectedJobTypes.map(
+        (ajt) => `${jobTypeCodes.get(ajt.jobTypeId.toString())} ${ajt.reductionPercent}%`
+      ),
+    });
+
+    return await Promise.all(
+      amendments.map(async (amendment) => {
+        const creator = await ctx.db.get(amendment.createdBy);
+        return {
+          ...amendment,
+          before: describe(amendment.before),
+          after: describe(amendment.after),
+          createdByName: creator ? `${creator.firstName} ${creator.lastName}` : "Unknown",
+        };
+      })
+    );
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// CENSUS SYNC
+// Census-mode scenarios compare their positions against the latest
+// census forecast; admins accept the delta to add or cancel positions
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Date/shift slots where a census-mode scenario's positions no longer
+ * match what the current forecast calls for. Past dates are left alone.
+ */
+async function computeCensusDelta(ctx: QueryCtx, scenario: Doc<"strike_scenarios">) {
+  const { shifts, censusImportIds } = await planScenarioPositions(
+    ctx,
+    scenario.healthSystemId,
+    scenario.hospitalId,
+    scenario.startDate,
+    scenario.endDate,
+    scenario.affectedJobTypes,
+    "census"
+  );
+
+  const positions = await ctx.db
+    .query("scenario_positions")
+    .withIndex("by_scenario", (q) => q.eq("scenarioId", scenario._id))
+    .collect();
+
+  const bucketKey = (serviceJobTypeId: string, date: string, shiftType: string) =>
+    `${serviceJobTypeId}|${date}|${shiftType}`;
+  const buckets = new Map<string, Doc<"scenario_positions">[]>();
+  for (const position of positions) {
+    if (position.isStandby) continue;
+    const key = bucketKey(position.serviceJobTypeId, position.date, position.shiftType);
+    buckets.set(key, [...(buckets.get(key) ?? []), position]);
+  }
+
+  const today = new Date().toISOString().split("T")[0];
+  const rows = [];
+  for (const shift of shifts) {
+    if (shift.projectedCensus === undefined || shift.date < today) continue;
+
+    const bucket = buckets.get(bucketKey(shift.serviceJobTypeId, shift.date, shift.shiftType)) ?? [];
+    const active = bucket.filter((p) => p.isActive);
+    const delta = shift.scenarioHeadcount - active.length;
+    if (delta === 0) continue;
+
+    rows.push({ shift, bucket, active, delta });
+  }
+
+  const importsChanged =
+    censusImportIds.length !== (scenario.censusImportIds ?? []).length ||
+    censusImportIds.some((id) => !scenario.censusImportIds?.includes(id));
+
+  return { rows, censusImportIds, importsChanged };
+}
+
+/**
+ * Pending census delta for a census-mode scenario
+ */
+export const getCensusDelta = query({
+  args: { scenarioId: v.id("strike_scenarios") },
+  handler: async (ctx, args) => {
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario || scenario.positionSource !== "census") return null;
+
+    await requireHealthSystemAccess(ctx, scenario.healthSystemId);
+
+    const { rows, importsChanged } = await computeCensusDelta(ctx, scenario);
+
+    const changes = rows.map(({ shift, active, delta }) => ({
+      serviceJobTypeId: shift.serviceJobTypeId,
+      serviceName: shift.service.name as string,
+      jobTypeCode: shift.jobTypeCode,
+      date: shift.date,
+      shiftType: shift.shiftType,
+      projectedCensus: shift.projectedCensus,
+      currentPositions: active.length,
+      plannedPositions: shift.scenarioHeadcount,
+      delta,
+      // Only Open positions are cancelled; filled ones stay
+      cancellable: delta < 0 ? Math.min(-delta, active.filter((p) => p.status === "Open").length) : 0,
+    }));
+
+    changes.sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) ||
+        a.shiftType.localeCompare(b.shiftType) ||
+        a.serviceName.localeCompare(b.serviceName) ||
+        a.jobTypeCode.localeCompare(b.jobTypeCode)
+    );
+
+    return {
+      censusSyncedAt: scenario.censusSyncedAt ?? null,
+      importsChanged,
+      changes,
+      totals: {
+        toAdd: changes.reduce((sum, c) => sum + Math.max(0, c.delta), 0),
+        toCancel: changes.reduce((sum, c) => sum + c.cancellable, 0),
+        blocked: changes.reduce((sum, c) => sum + (c.delta < 0 ? -c.delta - c.cancellable : 0), 0),
+      },
+    };
+  },
+});
+
+/**
+ * Accept the census delta: add positions where the forecast grew and
+ * cancel Open positions where it shrank (filled positions are kept)
+ */
+export const applyCensusDelta = mutation({
+  args: { scenarioId: v.id("strike_scenarios") },
+  handler: async (ctx, args) => {
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario) throw new Error("Scenario not found");
+
+    if (scenario.positionSource !== "census") {
+      throw new Error("Scenario does not derive positions from census");
+    }
+    if (scenario.status !== "Draft" && scenario.status !== "Active") {
+      throw new Error("Can only sync census for Draft or Active scenarios");
+    }
+
+    const user = await requireHealthSystemAccess(ctx, scenario.healthSystemId);
+
+    const { rows, censusImportIds } = await computeCensusDelta(ctx, scenario);
+
+    let added = 0;
+    let cancelled = 0;
+    let blocked = 0;
+
+    for (const { shift, bucket, active, delta } of rows) {
+      if (delta > 0) {
+        // Number after every position the slot has had, so job codes stay unique
+        const lastNumber = Math.max(0, ...bucket.map((p) => p.positionNumber));
+        for (let i = 1; i <= delta; i++) {
+          await insertPlannedPosition(ctx, args.scenarioId, shift, lastNumber + i, lastNumber + i);
+          added++;
+        }
+      } else {
+        const open = active
+          .filter((p) => p.status === "Open")
+          .sort((a, b) => b.positionNumber - a.positionNumber)
+          .slice(0, -delta);
+
+        for (const position of open) {
+          await ctx.db.patch(position._id, { status: "Cancelled", isActive: false });
+
+          const standby = await ctx.db
+            .query("scenario_standby")
+            .withIndex("by_position", (q) => q.eq("scenarioPositionId", position._id))
+            .filter((q) => q.eq(q.field("status"), "Waiting"))
+            .collect();
+          for (const entry of standby) {
+            await ctx.db.patch(entry._id, { status: "Removed" });
+          }
+        }
+
+        cancelled += open.length;
+        blocked += -delta - open.length;
+      }
+
+      // Remaining positions carry the new headcounts
+      for (const position of active) {
+        const current = await ctx.db.get(position._id);
+        if (!current?.isActive) continue;
+        await ctx.db.patch(position._id, {
+          originalHeadcount: shift.originalHeadcount,
+          scenarioHeadcount: shift.scenarioHeadcount,
+          projectedCensus: shift.projectedCensus,
+        });
+      }
+    }
+
+    await ctx.db.patch(args.scenarioId, {
+      censusImportIds,
+      censusSyncedAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    await auditLog(ctx, user, "UPDATE", "STRIKE_SCENARIO", args.scenarioId, {
+      type: "census_sync",
+      positionsAdded: added,
+      positionsCancelled: cancelled,
+      filledPositionsKept: blocked,
+      censusImportIds,
+    });
+
+    return { added, cancelled, blocked };
+  },
+});
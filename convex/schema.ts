@@ -1,5 +1,7 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { dispositionRuleSetValidator } from "./lib/procedureDisposition";
+import { procedureColumnsValidator } from "./lib/procedureSources";
 
 export default defineSchema({
   // ═══════════════════════════════════════════════════════════════════
@@ -95,6 +97,31 @@ export default defineSchema({
     .index("by_hospital", ["hospitalId"])
     .index("by_hospital_active", ["hospitalId", "isActive"]),
 
+  // ═══════════════════════════════════════════════════════════════════
+  // UNIT STAFFING RATIOS (Nurse-to-patient ratio tables)
+  // One row per unit per effective date; the latest version on or before
+  // a date applies (see lib/staffingRatios.ts)
+  // ═══════════════════════════════════════════════════════════════════
+
+  unit_staffing_ratios: defineTable({
+    hospitalId: v.id("hospitals"),
+    unitId: v.id("units"),
+    effectiveDate: v.string(), // YYYY-MM-DD
+    baseTier: v.string(), // Acuity tier of the unit's regular patients
+    ratios: v.array(
+      v.object({
+        shiftType: v.string(), // "AM" | "PM"
+        acuityTier: v.string(), // "floor" | "telemetry" | "step_down" | "icu" | "one_to_one"
+        patientsPerNurse: v.number(), // 2 = 1:2
+      })
+    ),
+    notes: v.optional(v.string()), // e.g. contract or regulation reference
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+  })
+    .index("by_hospital", ["hospitalId"])
+    .index("by_unit", ["unitId", "effectiveDate"]),
+
   // ═══════════════════════════════════════════════════════════════════
   // DEPARTMENTS
   // ═══════════════════════════════════════════════════════════════════
@@ -181,6 +208,14 @@ export default defineSchema({
     operatesDays: v.boolean(),
     operatesNights: v.boolean(),
     operatesWeekends: v.boolean(),
+
+    // How partial strikes round vacated positions (e.g. 50% of 5 RNs)
+    strikeRounding: v.optional(v.string()), // "up" | "down" | "nearest" (default "up")
+
+    // Standby positions per striking job type per shift, on top of the
+    // vacated headcount - an overbooking buffer for call-outs
+    backupHeadcount: v.optional(v.number()),
+
     createdBy: v.id("users"),
     isActive: v.boolean(),
     createdAt: v.number(),
@@ -215,6 +250,9 @@ export default defineSchema({
     weekdayPmHeadcount: v.optional(v.number()),
     weekendAmHeadcount: v.optional(v.number()),
     weekendPmHeadcount: v.optional(v.number()),
+    // Census-mode scenarios: one provider per this many predicted patients
+    // (RNs use the unit's nurse ratio table when unset)
+    censusPatientsPerProvider: v.optional(v.number()),
   })
     .index("by_service", ["serviceId"])
     .index("by_job_type", ["jobTypeId"]),
@@ -292,6 +330,14 @@ export default defineSchema({
     previousExperience: v.optional(v.string()),
     hasVisa: v.optional(v.boolean()), // Fellows with visas can only moonlight at home hospital
     smsOptOut: v.optional(v.boolean()), // Provider opted out of SMS (replied STOP)
+    reminderChannel: v.optional(v.string()), // "sms" | "email" | "both" | "none" - unset = both
+
+    // Agency / contractor workers (agency_vendors); unset = internal staff.
+    // hospitalId/departmentId are the contract placement
+    vendorId: v.optional(v.id("agency_vendors")),
+    onboardingStatus: v.optional(v.string()), // "pending" | "in_progress" | "cleared" | "offboarded"
+    contractRate: v.optional(v.number()), // Hourly rate; overrides the vendor's
+    credentialsValidUntil: v.optional(v.string()), // Earliest expiry of verified documents (lib/agency.ts)
 
     createdBy: v.id("users"),
     isActive: v.boolean(),
@@ -305,18 +351,86 @@ export default defineSchema({
     .index("by_job_type", ["jobTypeId"])
     .index("by_name", ["lastName", "firstName"])
     .index("by_email", ["email"]) // For email-based upsert lookups
-    .index("by_cell_phone", ["cellPhone"]), // For SMS reply lookup
+    .index("by_cell_phone", ["cellPhone"]) // For SMS reply lookup
+    .index("by_vendor", ["vendorId"]),
+
+  // ═══════════════════════════════════════════════════════════════════
+  // AGENCY VENDORS
+  // Staffing agencies supplying external workers, with contract terms
+  // and where their workers rank in matching relative to internal staff
+  // ═══════════════════════════════════════════════════════════════════
+
+  agency_vendors: defineTable({
+    healthSystemId: v.id("health_systems"),
+    name: v.string(),
+    contactName: v.optional(v.string()),
+    contactEmail: v.optional(v.string()),
+    contactPhone: v.optional(v.string()),
+
+    // Contract terms
+    contractRate: v.optional(v.number()), // Default hourly rate for the vendor's workers
+    minimumShiftHours: v.optional(v.number()), // Hours billed per shift at minimum
+    minimumShiftsPerWeek: v.optional(v.number()), // Guaranteed shifts per worker per week
+
+    // "before_internal" | "equal" | "after_internal" (default)
+    matchPriority: v.optional(v.string()),
+
+    // Placement for imported workers without their own
+    defaultHospitalId: v.optional(v.id("hospitals")),
+    defaultDepartmentId: v.optional(v.id("departments")),
+
+    isActive: v.boolean(),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_health_system", ["healthSystemId"]),
+
+  // ═══════════════════════════════════════════════════════════════════
+  // AGENCY CREDENTIAL DOCUMENTS
+  // Licenses and certifications an agency worker submits for onboarding
+  // ═══════════════════════════════════════════════════════════════════
+
+  agency_credential_documents: defineTable({
+    providerId: v.id("providers"),
+    vendorId: v.id("agency_vendors"),
+    documentType: v.string(), // lib/agency.ts CREDENTIAL_DOCUMENT_TYPES
+    documentNumber: v.optional(v.string()),
+    issuingState: v.optional(v.string()),
+    issuedDate: v.optional(v.string()), // ISO date
+    expiresDate: v.optional(v.string()), // ISO date; unset = doesn't expire
+    storageId: v.optional(v.id("_storage")), // Uploaded scan
+    fileName: v.optional(v.string()),
+
+    verificationStatus: v.string(), // "pending" | "verified" | "rejected"
+    verifiedBy: v.optional(v.id("users")),
+    verifiedAt: v.optional(v.number()),
+
+    uploadedBy: v.id("users"),
+    createdAt: v.number(),
+  })
+    .index("by_provider", ["providerId"])
+    .index("by_vendor", ["vendorId"]),
 
   // ═══════════════════════════════════════════════════════════════════
   // PROVIDER SKILLS
+  // Also the provider's credential for the skill (license, certification);
+  // expired, rejected and unverified credentials gate matching (lib/credentials.ts)
   // ═══════════════════════════════════════════════════════════════════
 
   provider_skills: defineTable({
     providerId: v.id("providers"),
     skillId: v.id("skills"),
+
+    issuedDate: v.optional(v.string()), // ISO date
+    expiresDate: v.optional(v.string()), // ISO date; unset = doesn't expire
+    issuingState: v.optional(v.string()), // Two-letter state; only counts at hospitals in that state
+    verificationStatus: v.optional(v.string()), // "pending" | "verified" | "rejected" - unset = verified
+    verifiedBy: v.optional(v.id("users")),
+    verifiedAt: v.optional(v.number()),
   })
     .index("by_provider", ["providerId"])
-    .index("by_skill", ["skillId"]),
+    .index("by_skill", ["skillId"])
+    .index("by_expires", ["expiresDate"]),
 
   // ═══════════════════════════════════════════════════════════════════
   // PROVIDER HOSPITAL ACCESS
@@ -399,6 +513,19 @@ export default defineSchema({
     // Status workflow
     status: v.string(), // "Draft" | "Active" | "Completed" | "Cancelled"
 
+    // Release assignments still unconfirmed at T-12h back to Open
+    autoReleaseUnconfirmed: v.optional(v.boolean()),
+
+    // Where normal headcounts come from: "static" service_job_types
+    // headcounts (default) or "census" predictions (lib/censusPositions.ts)
+    positionSource: v.optional(v.string()),
+    // Census imports the positions were last synced to
+    censusImportIds: v.optional(v.array(v.id("census_imports"))),
+    censusSyncedAt: v.optional(v.number()),
+
+    // Latest amendment (scenario_amendments); absent until first amended
+    amendmentVersion: v.optional(v.number()),
+
     createdBy: v.id("users"),
     isActive: v.boolean(),
     createdAt: v.number(),
@@ -409,6 +536,66 @@ export default defineSchema({
     .index("by_status", ["status"])
     .index("by_date_range", ["startDate", "endDate"]),
 
+  // ═══════════════════════════════════════════════════════════════════
+  // SCENARIO AMENDMENTS
+  // Versioned changes to an Active scenario's dates or job types; each
+  // applies a diff to scenario_positions, keeping existing assignments
+  // ═══════════════════════════════════════════════════════════════════
+
+  scenario_amendments: defineTable({
+    scenarioId: v.id("strike_scenarios"),
+    version: v.number(), // 1, 2, 3...
+    reason: v.optional(v.string()),
+
+    before: v.object({
+      startDate: v.string(),
+      endDate: v.string(),
+      affectedJobTypes: v.array(v.object({ jobTypeId: v.id("job_types"), reductionPercent: v.number() })),
+    }),
+    after: v.object({
+      startDate: v.string(),
+      endDate: v.string(),
+      affectedJobTypes: v.array(v.object({ jobTypeId: v.id("job_types"), reductionPercent: v.number() })),
+    }),
+
+    // Position diff applied
+    positionsAdded: v.number(),
+    positionsCancelled: v.number(),
+    filledPositionsKept: v.number(), // Headcount cuts that would have dropped a filled position
+    assignmentsCancelled: v.number(),
+    notifiedProviderIds: v.array(v.id("providers")),
+
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+  }).index("by_scenario", ["scenarioId", "version"]),
+
+  // ═══════════════════════════════════════════════════════════════════
+  // WHAT-IF SCENARIOS
+  // Lightweight strike definitions for side-by-side comparison; positions,
+  // supply and fill rates are computed on the fly, never written to
+  // scenario_positions
+  // ═══════════════════════════════════════════════════════════════════
+
+  scenario_what_ifs: defineTable({
+    healthSystemId: v.id("health_systems"),
+    hospitalId: v.optional(v.id("hospitals")), // Optional: can be health-system wide
+    name: v.string(),
+    description: v.optional(v.string()),
+    startDate: v.string(),
+    endDate: v.string(),
+    affectedJobTypes: v.array(
+      v.object({
+        jobTypeId: v.id("job_types"),
+        reductionPercent: v.number(),
+      })
+    ),
+    positionSource: v.optional(v.string()), // "static" (default) | "census"
+
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_health_system", ["healthSystemId"]),
+
   // ═══════════════════════════════════════════════════════════════════
   // SCENARIO POSITIONS
   // Date-specific positions generated for a strike scenario
@@ -438,6 +625,13 @@ export default defineSchema({
 
     status: v.string(), // "Open" | "Assigned" | "Confirmed" | "Cancelled"
     isActive: v.boolean(),
+
+    // Backup position from services.backupHeadcount - staffed, but not
+    // counted as filled coverage
+    isStandby: v.optional(v.boolean()),
+
+    // Predicted census the headcount was derived from (census mode only)
+    projectedCensus: v.optional(v.number()),
   })
     .index("by_scenario", ["scenarioId"])
     .index("by_scenario_date", ["scenarioId", "date"])
@@ -499,6 +693,14 @@ export default defineSchema({
     cancelledBy: v.optional(v.id("users")),
     cancelReason: v.optional(v.string()),
 
+    // Shift reminders (see shiftReminders.ts)
+    reminder48hSentAt: v.optional(v.number()),
+    reminder12hSentAt: v.optional(v.number()),
+    confirmationRiskAt: v.optional(v.number()), // Still unconfirmed at T-12h
+
+    // Chain of custody: the assignment this one replaced in a peer trade
+    transferredFromAssignmentId: v.optional(v.id("scenario_assignments")),
+
     notes: v.optional(v.string()),
   })
     .index("by_position", ["scenarioPositionId"])
@@ -507,6 +709,103 @@ export default defineSchema({
     .index("by_scenario", ["scenarioId"])
     .index("by_status", ["status"]),
 
+  // ═══════════════════════════════════════════════════════════════════
+  // SCENARIO STANDBY
+  // Ranked providers waiting for a position (scenarioPositionId set) or
+  // any position in a service/date/shift bucket. The first eligible one
+  // is promoted when an assignment is cancelled (lib/standby.ts)
+  // ═══════════════════════════════════════════════════════════════════
+
+  scenario_standby: defineTable({
+    scenarioId: v.id("strike_scenarios"),
+    departmentId: v.id("departments"),
+    serviceId: v.id("services"),
+    date: v.string(),
+    shiftType: v.string(), // "AM" | "PM"
+    scenarioPositionId: v.optional(v.id("scenario_positions")), // Unset = whole bucket
+
+    providerId: v.id("providers"),
+    rank: v.number(), // 1 = first to be promoted
+
+    status: v.string(), // "Waiting" | "Promoted" | "Removed"
+    addedBy: v.id("users"),
+    addedAt: v.number(),
+    promotedAt: v.optional(v.number()),
+    promotedAssignmentId: v.optional(v.id("scenario_assignments")),
+    promotedPositionId: v.optional(v.id("scenario_positions")),
+    notes: v.optional(v.string()),
+  })
+    .index("by_scenario", ["scenarioId"])
+    .index("by_position", ["scenarioPositionId"])
+    .index("by_bucket", ["scenarioId", "serviceId", "date", "shiftType"])
+    .index("by_provider", ["providerId"]),
+
+  // ═══════════════════════════════════════════════════════════════════
+  // DUTY HOUR RULES
+  // Per-health-system fatigue limits applied to scenario assignments
+  // Unset limits are not enforced
+  // ═══════════════════════════════════════════════════════════════════
+
+  duty_hour_rules: defineTable({
+    healthSystemId: v.id("health_systems"),
+
+    maxConsecutiveShifts: v.optional(v.number()), // Shifts with < 24h off between them
+    minRestHours: v.optional(v.number()), // Between shiftEnd and the next shiftStart
+    maxShiftsPerWeek: v.optional(v.number()), // Any rolling 7 days
+
+    // ACGME-style cap for residents/fellows
+    traineeMaxWeeklyHours: v.optional(v.number()), // e.g. 80, averaged over any rolling 4 weeks
+    traineeJobTypeCodes: v.array(v.string()), // ["RES", "FEL"]
+
+    enforcement: v.string(), // "block" | "warn"
+
+    updatedBy: v.id("users"),
+    updatedAt: v.number(),
+  }).index("by_health_system", ["healthSystemId"]),
+
+  // ═══════════════════════════════════════════════════════════════════
+  // SCENARIO AUTO-FILL RUNS
+  // Draft whole-scenario assignment sets computed by the auto-fill solver
+  // Accepted or rejected as a whole by an admin
+  // ═══════════════════════════════════════════════════════════════════
+
+  scenario_autofill_runs: defineTable({
+    scenarioId: v.id("strike_scenarios"),
+    status: v.string(), // "Draft" | "Accepted" | "Rejected" | "Superseded"
+
+    // Solver results
+    openPositions: v.number(), // Open positions when the run was generated
+    proposedCount: v.number(),
+    unfilledCount: v.number(),
+    providerCount: v.number(), // Distinct providers in the proposal set
+    minShiftsPerProvider: v.number(), // Fairness: includes existing assignments
+    maxShiftsPerProvider: v.number(),
+
+    // Outcome (set on accept)
+    acceptedCount: v.optional(v.number()),
+    skippedCount: v.optional(v.number()), // Proposals no longer valid at accept time
+
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    resolvedBy: v.optional(v.id("users")),
+    resolvedAt: v.optional(v.number()),
+  })
+    .index("by_scenario", ["scenarioId"])
+    .index("by_scenario_status", ["scenarioId", "status"]),
+
+  scenario_autofill_proposals: defineTable({
+    runId: v.id("scenario_autofill_runs"),
+    scenarioId: v.id("strike_scenarios"),
+    scenarioPositionId: v.id("scenario_positions"),
+    providerId: v.id("providers"),
+
+    score: v.number(), // Base match score (before fairness penalty)
+    matchQuality: v.string(), // "Perfect" | "Good" | "Partial"
+    availabilityStatus: v.string(), // "preferred" | "available" | "unknown"
+  })
+    .index("by_run", ["runId"])
+    .index("by_position", ["scenarioPositionId"]),
+
   // ═══════════════════════════════════════════════════════════════════
   // SMS LOGS
   // Track all SMS messages sent for audit and status tracking
@@ -532,16 +831,20 @@ export default defineSchema({
     message: v.string(),
 
     // Reply parsing (for inbound)
-    replyIntent: v.optional(v.string()), // "confirmed" | "declined" | "interested" | "stop" | "help" | "unclear"
+    replyIntent: v.optional(v.string()), // "confirmed" | "declined" | "interested" | "claim_shifts" | "stop" | "help" | "unclear"
+    autoReply: v.optional(v.string()), // Reply sent back, replayed if Twilio retries the webhook
 
     // Optional context
     scenarioId: v.optional(v.id("strike_scenarios")),
     scenarioPositionId: v.optional(v.id("scenario_positions")),
+    campaignId: v.optional(v.id("sms_campaigns")),
 
     // Twilio response
     twilioSid: v.optional(v.string()), // Twilio message SID
     status: v.string(), // "pending" | "sent" | "delivered" | "failed" | "received"
     errorMessage: v.optional(v.string()),
+    errorCode: v.optional(v.string()), // Twilio/carrier error code from the status callback
+    statusUpdatedAt: v.optional(v.number()), // Last delivery status callback
 
     sentAt: v.number(),
   })
@@ -552,9 +855,98 @@ export default defineSchema({
     .index("by_status", ["status"])
     .index("by_sent_at", ["sentAt"])
     .index("by_to_phone", ["toPhone"]) // For finding conversations
+    .index("by_twilio_sid", ["twilioSid"]) // Webhook idempotency and status callbacks
     .index("by_from_phone", ["fromPhone"]) // For matching inbound to provider
     .index("by_direction", ["direction"]),
 
+  // ═══════════════════════════════════════════════════════════════════
+  // SMS STATUS CALLBACKS
+  // Twilio delivery callbacks that arrived before their outbound sms_logs
+  // row was written; applied and removed when the log is inserted
+  // ═══════════════════════════════════════════════════════════════════
+
+  sms_status_callbacks: defineTable({
+    twilioSid: v.string(),
+    messageStatus: v.string(),
+    errorCode: v.optional(v.string()),
+    receivedAt: v.number(),
+  })
+    .index("by_twilio_sid", ["twilioSid"])
+    .index("by_received_at", ["receivedAt"]),
+
+  // ═══════════════════════════════════════════════════════════════════
+  // SMS SHIFT MENUS
+  // Numbered list of open shifts texted to a provider
+  // Replies like "YES 1 3" claim the matching items
+  // ═══════════════════════════════════════════════════════════════════
+
+  sms_shift_menus: defineTable({
+    providerId: v.id("providers"),
+    scenarioId: v.id("strike_scenarios"),
+    sentBy: v.id("users"),
+
+    items: v.array(
+      v.object({
+        number: v.number(), // 1-based, as shown in the text
+        scenarioPositionId: v.id("scenario_positions"),
+        label: v.string(), // "Mon 1/6 AM ICU"
+      })
+    ),
+
+    createdAt: v.number(),
+    expiresAt: v.number(),
+  }).index("by_provider", ["providerId"]),
+
+  // ═══════════════════════════════════════════════════════════════════
+  // SMS COVERAGE CAMPAIGNS
+  // Offer one open position to ranked candidates one at a time (or in waves),
+  // escalating to the next candidates on NO or timeout until someone says YES
+  // ═══════════════════════════════════════════════════════════════════
+
+  sms_campaigns: defineTable({
+    scenarioId: v.id("strike_scenarios"),
+    scenarioPositionId: v.id("scenario_positions"),
+    healthSystemId: v.id("health_systems"),
+
+    mode: v.string(), // "sequential" | "wave"
+    waveSize: v.number(), // Candidates offered at once (1 for sequential)
+    timeoutMinutes: v.number(), // How long to wait before escalating
+
+    // Ranked candidates from findMatchesForPosition at start time
+    candidateProviderIds: v.array(v.id("providers")),
+    nextCandidateIndex: v.number(),
+    currentWave: v.number(), // 0 until the first wave is sent
+
+    status: v.string(), // "Active" | "Filled" | "Exhausted" | "Cancelled"
+    endReason: v.optional(v.string()),
+    filledByProviderId: v.optional(v.id("providers")),
+    assignmentId: v.optional(v.id("scenario_assignments")),
+
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_scenario", ["scenarioId"])
+    .index("by_position", ["scenarioPositionId"])
+    .index("by_status", ["status"]),
+
+  sms_campaign_offers: defineTable({
+    campaignId: v.id("sms_campaigns"),
+    scenarioPositionId: v.id("scenario_positions"),
+    providerId: v.id("providers"),
+    wave: v.number(),
+
+    status: v.string(), // "Sending" | "Pending" | "Accepted" | "Declined" | "TimedOut" | "Failed" | "Withdrawn"
+    smsLogId: v.optional(v.id("sms_logs")),
+    errorMessage: v.optional(v.string()),
+
+    offeredAt: v.number(),
+    expiresAt: v.number(),
+    respondedAt: v.optional(v.number()),
+  })
+    .index("by_campaign", ["campaignId"])
+    .index("by_provider_status", ["providerId", "status"]),
+
   // ═══════════════════════════════════════════════════════════════════
   // CLAIM TOKENS
   // Self-service shift claiming via email link (no auth required)
@@ -573,6 +965,67 @@ export default defineSchema({
     .index("by_provider", ["providerId"])
     .index("by_scenario_provider", ["scenarioId", "providerId"]),
 
+  // ═══════════════════════════════════════════════════════════════════
+  // PROVIDER PORTAL
+  // Persistent provider sign-in by emailed/texted code or magic link
+  // Codes and tokens are stored as SHA-256 hashes
+  // ═══════════════════════════════════════════════════════════════════
+
+  provider_login_codes: defineTable({
+    providerId: v.id("providers"),
+    channel: v.string(), // "email" | "sms"
+    codeHash: v.string(), // 6-digit code
+    linkTokenHash: v.string(), // Magic link token
+    attempts: v.number(), // Wrong code entries
+    expiresAt: v.number(),
+    usedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_provider", ["providerId"])
+    .index("by_link_token", ["linkTokenHash"]),
+
+  provider_sessions: defineTable({
+    providerId: v.id("providers"),
+    tokenHash: v.string(),
+    createdAt: v.number(),
+    expiresAt: v.number(),
+    revokedAt: v.optional(v.number()),
+  })
+    .index("by_token", ["tokenHash"])
+    .index("by_provider", ["providerId"]),
+
+  // Provider requests to drop an assignment or swap it for an open shift
+  // Reviewed by a department admin
+  shift_change_requests: defineTable({
+    assignmentId: v.id("scenario_assignments"),
+    scenarioId: v.id("strike_scenarios"),
+    scenarioPositionId: v.id("scenario_positions"),
+    departmentId: v.id("departments"),
+    providerId: v.id("providers"),
+
+    // "drop" | "swap" go straight to the admin; "giveaway" | "trade" are
+    // posted to the shift marketplace until a peer accepts
+    type: v.string(), // "drop" | "swap" | "giveaway" | "trade"
+    targetPositionId: v.optional(v.id("scenario_positions")), // Swap: open shift to move to
+    reason: v.optional(v.string()),
+
+    // Marketplace: the peer taking the shift, and their shift in return (trade)
+    acceptedByProviderId: v.optional(v.id("providers")),
+    acceptedAt: v.optional(v.number()),
+    offeredAssignmentId: v.optional(v.id("scenario_assignments")),
+
+    status: v.string(), // "Posted" | "Pending" | "Approved" | "Denied" | "Withdrawn"
+    requestedAt: v.number(),
+    reviewedBy: v.optional(v.id("users")),
+    reviewedAt: v.optional(v.number()),
+    reviewNote: v.optional(v.string()),
+  })
+    .index("by_assignment", ["assignmentId"])
+    .index("by_provider", ["providerId"])
+    .index("by_department_status", ["departmentId", "status"])
+    .index("by_status", ["status"])
+    .index("by_offered_assignment", ["offeredAssignmentId"]),
+
   // ═══════════════════════════════════════════════════════════════════
   // ROTATION TYPES
   // Admin-configurable categories for AMion schedule rotations
@@ -686,6 +1139,7 @@ export default defineSchema({
     importedBy: v.id("users"),
 
     isActive: v.boolean(),
+    archivedAt: v.optional(v.number()), // Last daily aggregate snapshot (census_daily_archive)
   })
     .index("by_hospital", ["hospitalId"])
     .index("by_health_system", ["healthSystemId"])
@@ -752,6 +1206,8 @@ export default defineSchema({
     losReasoning: v.optional(v.string()), // AI explanation of LOS prediction
     trajectory: v.optional(v.string()), // "Improving", "Stable", "Critical", etc.
     trend: v.optional(v.string()), // "Progressing", "No Change", "Regressed", "New"
+    predictionEngine: v.optional(v.string()), // "anthropic:<model>", "openai_compatible:<model>", "recorded", "rules", "rules:fallback"
+    predictionInputHash: v.optional(v.string()), // Hash of rawGeneralComments the predictions were made from
 
     // Import tracking
     lastSeenImportId: v.optional(v.id("census_imports")),
@@ -773,6 +1229,52 @@ export default defineSchema({
     .index("by_patient_status", ["hospitalId", "patientStatus"])
     .index("by_requires_one_to_one", ["hospitalId", "requiresOneToOne"]),
 
+  // ═══════════════════════════════════════════════════════════════════
+  // CENSUS AI JOBS
+  // Queued, resumable prediction runs over an import's patients.
+  // Patients are processed in chunks with per-patient state; rate-limited
+  // chunks back off and retry (censusAIJobs.ts)
+  // ═══════════════════════════════════════════════════════════════════
+
+  census_ai_jobs: defineTable({
+    hospitalId: v.id("hospitals"),
+    importId: v.id("census_imports"),
+
+    mode: v.string(), // "all" | "changed" (only patients whose comments changed)
+    unitType: v.optional(v.string()), // "icu" | "floor" | undefined (all)
+    rawClinicalNotes: v.optional(v.string()),
+
+    status: v.string(), // "queued" | "running" | "backoff" | "completed" | "cancelled"
+    total: v.number(),
+    done: v.number(),
+    failed: v.number(),
+    skipped: v.number(), // Unchanged patients left out in "changed" mode
+    engines: v.array(v.string()), // Engines that produced this job's predictions
+
+    // Rate-limit backoff
+    rateLimitRetries: v.number(), // Consecutive rate-limited chunks
+    nextRunAt: v.optional(v.number()),
+    lastError: v.optional(v.string()),
+
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    updatedAt: v.number(), // Heartbeat - stalled "running" jobs are resumed
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_import", ["importId"])
+    .index("by_status", ["status"]),
+
+  census_ai_job_items: defineTable({
+    jobId: v.id("census_ai_jobs"),
+    patientId: v.id("census_patients"),
+    status: v.string(), // "pending" | "done" | "failed"
+    attempts: v.number(),
+    claimedAt: v.optional(v.number()), // Held by a chunk action; cleared when the chunk is recorded
+    engine: v.optional(v.string()),
+    error: v.optional(v.string()),
+    updatedAt: v.number(),
+  }).index("by_job_status", ["jobId", "status"]),
+
   // ═══════════════════════════════════════════════════════════════════
   // CENSUS PATIENT HISTORY
   // Tracks unit transfers over time (ICU → Floor, etc.)
@@ -800,23 +1302,68 @@ export default defineSchema({
     .index("by_date", ["transferDate"])
     .index("by_expires_at", ["expiresAt"]),
 
+  // ═══════════════════════════════════════════════════════════════════
+  // CENSUS DAILY ARCHIVE
+  // De-identified per-unit daily aggregates, kept after patient-level
+  // census data expires. Each row also stores the forecast made that
+  // day so forecast accuracy can be measured against later actuals.
+  // ═══════════════════════════════════════════════════════════════════
+
+  census_daily_archive: defineTable({
+    hospitalId: v.id("hospitals"),
+    importId: v.id("census_imports"),
+    date: v.string(), // Census date (census_imports.uploadDate)
+    unitName: v.string(), // Census sheet name
+    unitType: v.string(), // "icu" | "floor"
+
+    // Actuals
+    census: v.number(),
+    admits: v.number(), // New to the census in this import
+    transfersIn: v.number(),
+    discharges: v.number(),
+    downgrades: v.number(), // ICU -> floor moves out of this unit
+    oneToOne: v.number(),
+
+    // Forecast made from this census (horizonDay 1..5)
+    forecast: v.array(
+      v.object({
+        horizonDay: v.number(),
+        date: v.string(),
+        projectedCensus: v.number(),
+      })
+    ),
+
+    archivedAt: v.number(),
+  })
+    .index("by_hospital_date", ["hospitalId", "date"])
+    .index("by_unit", ["hospitalId", "unitName", "date"]),
+
   // ═══════════════════════════════════════════════════════════════════
   // CENSUS UNIT MAPPINGS
-  // Maps raw unit names from Excel sheets to system units
+  // Per-hospital rules mapping raw unit names from Excel sheets and
+  // procedure destinations to system units (see lib/unitMapping.ts)
   // Also classifies unit type (ICU vs Floor)
   // ═══════════════════════════════════════════════════════════════════
 
   census_unit_mappings: defineTable({
     hospitalId: v.id("hospitals"),
-    rawUnitName: v.string(), // "MSH - CSIU", "MSH-N07E"
+    rawUnitName: v.string(), // "MSH - CSIU", "MSH-N07E"; the pattern for pattern rules
+    matchType: v.optional(v.string()), // "exact" (default) | "prefix" | "contains" | "regex"
+    priority: v.optional(v.number()), // Pattern rules are tried lowest first (default 100)
     unitId: v.optional(v.id("units")), // Matched unit in units table (optional)
+    canonicalName: v.optional(v.string()), // Census unit name when not linked to a unit
 
     // Unit classification for prompt selection
     unitType: v.string(), // "icu" | "floor"
     isICU: v.boolean(),
 
+    // Review of sheet names seen at import without a rule
+    reviewStatus: v.optional(v.string()), // "pending" | "reviewed"
+    lastSeenAt: v.optional(v.number()),
+
     createdBy: v.id("users"),
     createdAt: v.number(),
+    updatedAt: v.optional(v.number()),
   })
     .index("by_hospital", ["hospitalId"])
     .index("by_raw_name", ["hospitalId", "rawUnitName"]),
@@ -920,9 +1467,43 @@ export default defineSchema({
     .index("by_site_code", ["siteCode"])
     .index("by_active", ["isActive"]),
 
+  // ═══════════════════════════════════════════════════════════════════
+  // DISPOSITION RULE SETS
+  // Per-health-system procedure disposition rules (patterns, LOS, units,
+  // risk factors). Each save adds a version; the highest version applies.
+  // Without one, the built-in rules in lib/procedureDisposition.ts apply.
+  // ═══════════════════════════════════════════════════════════════════
+
+  disposition_rule_sets: defineTable({
+    healthSystemId: v.id("health_systems"),
+    version: v.number(), // 1, 2, 3...
+    rules: dispositionRuleSetValidator,
+    notes: v.optional(v.string()), // What changed
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+  }).index("by_health_system", ["healthSystemId", "version"]),
+
+  // ═══════════════════════════════════════════════════════════════════
+  // PROCEDURE SOURCES
+  // Scheduling systems that export procedure CSVs (cath/EP, OR, IR, GI):
+  // which header holds each field and which service lines' categories
+  // its procedures are classified against
+  // ═══════════════════════════════════════════════════════════════════
+
+  procedure_sources: defineTable({
+    healthSystemId: v.id("health_systems"),
+    name: v.string(), // "Epic OR schedule"
+    serviceLines: v.array(v.string()), // Service line keys from the disposition rules, e.g. ["OR"]
+    columns: procedureColumnsValidator, // CSV header per field; unmapped fields use the default headers
+    isActive: v.boolean(),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_health_system", ["healthSystemId"]),
+
   // ═══════════════════════════════════════════════════════════════════
   // PROCEDURE IMPORTS
-  // Metadata for each procedure schedule CSV upload (cath lab, EP lab)
+  // Metadata for each procedure schedule CSV upload (cath/EP lab, OR, IR, GI)
   // ═══════════════════════════════════════════════════════════════════
 
   procedure_imports: defineTable({
@@ -937,9 +1518,17 @@ export default defineSchema({
     willAdmit: v.number(),
     sameDayDischarge: v.number(),
     riskModifiedAdmits: v.number(),
-    ccuBedDays: v.number(),
+    ccuBedDays: v.number(), // ICU bed-days, any ICU destination
     floorBedDays: v.number(),
 
+    // Source system and the service lines classified against
+    sourceId: v.optional(v.id("procedure_sources")),
+    serviceLines: v.optional(v.array(v.string())),
+
+    // Disposition rules applied (version 0 = built-in defaults)
+    ruleSetId: v.optional(v.id("disposition_rule_sets")),
+    ruleVersion: v.optional(v.number()),
+
     // Processing status
     status: v.string(), // "pending" | "processing" | "completed" | "failed"
     errors: v.optional(v.array(v.string())),
@@ -976,6 +1565,7 @@ export default defineSchema({
     // Procedure info
     procedureText: v.string(), // Raw procedure name with CPT code
     procedureCategory: v.string(), // Classified category
+    serviceLine: v.optional(v.string()), // Service line of the category, e.g. "EP", "OR"
     visitDate: v.string(), // Scheduled date
     provider: v.optional(v.string()),
     reasonForExam: v.optional(v.string()),
@@ -990,12 +1580,13 @@ export default defineSchema({
     willAdmit: v.boolean(),
     totalLOS: v.number(),
     icuDays: v.number(),
-    icuUnit: v.optional(v.string()), // "CCU" or null
+    icuUnit: v.optional(v.string()), // Destination unit name, resolved via census_unit_mappings
     floorDays: v.number(),
-    floorUnit: v.optional(v.string()), // "N07E" or null
+    floorUnit: v.optional(v.string()), // Destination unit name, resolved via census_unit_mappings
     riskFactors: v.array(v.string()), // ["age_gt_85", "ef_lt_30", etc.]
     riskModified: v.boolean(),
     reasoning: v.string(),
+    ruleVersion: v.optional(v.number()), // Disposition rule version that produced the prediction
 
     isActive: v.boolean(),
     createdAt: v.number(),
@@ -488,6 +488,10 @@ export const update = mutation({
     operatesDays: v.optional(v.boolean()),
     operatesNights: v.optional(v.boolean()),
     operatesWeekends: v.optional(v.boolean()),
+    // Partial strike rounding
+    strikeRounding: v.optional(v.string()), // "up" | "down" | "nearest"
+    // Standby positions per striking job type per shift
+    backupHeadcount: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const service = await ctx.db.get(args.serviceId);
@@ -495,6 +499,13 @@ export const update = mutation({
 
     const user = await requireDepartmentAccess(ctx, service.departmentId);
 
+    if (
+      args.backupHeadcount !== undefined &&
+      (!Number.isInteger(args.backupHeadcount) || args.backupHeadcount < 0)
+    ) {
+      throw new Error("Backup headcount must be a whole number of 0 or more");
+    }
+
     // Check for operating mode changes to soft-delete/reactivate shifts
     const newOperatesDays = args.operatesDays ?? service.operatesDays;
     const newOperatesNights = args.operatesNights ?? service.operatesNights;
@@ -576,6 +587,8 @@ export const update = mutation({
       ...(args.operatesDays !== undefined && { operatesDays: args.operatesDays }),
       ...(args.operatesNights !== undefined && { operatesNights: args.operatesNights }),
       ...(args.operatesWeekends !== undefined && { operatesWeekends: args.operatesWeekends }),
+      ...(args.strikeRounding !== undefined && { strikeRounding: args.strikeRounding }),
+      ...(args.backupHeadcount !== undefined && { backupHeadcount: args.backupHeadcount }),
     });
 
     await auditLog(ctx, user, "UPDATE", "SERVICE", args.serviceId, {
@@ -769,6 +782,44 @@ export const toggleShiftActive = mutation({
   },
 });
 
+/**
+ * Set patients per provider for census-derived scenario positions
+ * Unset falls back to the unit's nurse ratio table (RNs) or static headcount
+ */
+export const updateCensusPatientsPerProvider = mutation({
+  args: {
+    serviceJobTypeId: v.id("service_job_types"),
+    patientsPerProvider: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const serviceJobType = await ctx.db.get(args.serviceJobTypeId);
+    if (!serviceJobType) throw new Error("Service job type not found");
+
+    const service = await ctx.db.get(serviceJobType.serviceId);
+    if (!service) throw new Error("Service not found");
+
+    const user = await requireDepartmentAccess(ctx, service.departmentId);
+
+    if (args.patientsPerProvider !== undefined && !(args.patientsPerProvider > 0)) {
+      throw new Error("Patients per provider must be greater than 0");
+    }
+
+    await ctx.db.patch(args.serviceJobTypeId, {
+      censusPatientsPerProvider: args.patientsPerProvider,
+    });
+
+    await auditLog(ctx, user, "UPDATE", "SERVICE", service._id, {
+      serviceJobTypeId: args.serviceJobTypeId,
+      censusPatientsPerProvider: {
+        from: serviceJobType.censusPatientsPerProvider,
+        to: args.patientsPerProvider,
+      },
+    });
+
+    return { success: true };
+  },
+});
+
 /**
  * Toggle service active status
  */
@@ -0,0 +1,450 @@
+import { v } from "convex/values";
+import {
+  internalAction,
+  internalMutation,
+  mutation,
+  query,
+  MutationCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireDepartmentAccess, requireHealthSystemAccess, auditLog } from "./lib/auth";
+import { shiftStartMs } from "./lib/shiftTime";
+import { reopenPosition } from "./lib/standby";
+import { getTwilioConfig, sendTwilioMessage, toE164 } from "./lib/twilio";
+import { getAppUrl, sendEmail } from "./lib/sendgrid";
+
+// ═══════════════════════════════════════════════════════════════════
+// SHIFT REMINDERS
+// A cron sends every assigned provider a reminder 48h and 12h before
+// the shift starts (SMS and/or email per provider.reminderChannel).
+// Assignments still unconfirmed at T-12h are flagged as a confirmation
+// risk and, if the scenario opts in, released back to Open.
+// ═══════════════════════════════════════════════════════════════════
+
+const HOUR_MS = 60 * 60 * 1000;
+const FIRST_REMINDER_HOURS = 48;
+const FINAL_REMINDER_HOURS = 12;
+
+type ReminderKind = "48h" | "12h" | "released" | "promoted" | "amended";
+
+/**
+ * Which channels a provider wants reminders on
+ */
+function reminderChannels(provider: Doc<"providers">): { sms: boolean; email: boolean } {
+  switch (provider.reminderChannel) {
+    case "sms":
+      return { sms: true, email: false };
+    case "email":
+      return { sms: false, email: true };
+    case "none":
+      return { sms: false, email: false };
+    default:
+      return { sms: true, email: true };
+  }
+}
+
+/**
+ * Cancel an unconfirmed assignment and reopen its position,
+ * promoting the top eligible standby (auto-release has no user, so
+ * the promotion is attributed to whoever made the original assignment)
+ */
+async function releaseAssignment(
+  ctx: MutationCtx,
+  assignment: Doc<"scenario_assignments">,
+  reason: string,
+  releasedBy?: Id<"users">
+) {
+  await ctx.db.patch(assignment._id, {
+    status: "Cancelled",
+    cancelledAt: Date.now(),
+    cancelledBy: releasedBy,
+    cancelReason: reason,
+  });
+  await reopenPosition(ctx, assignment.scenarioPositionId, releasedBy ?? assignment.assignedBy);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// SCHEDULER
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Find assignments due a reminder, flag/release unconfirmed ones at T-12h
+ * Runs from crons.ts; each reminder is sent by its own action
+ */
+export const processDueReminders = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    // Shifts starting in the next 48h fall on these dates in any time zone
+    const fromDate = new Date(now - 24 * HOUR_MS).toISOString().split("T")[0];
+    const toDate = new Date(now + (FIRST_REMINDER_HOURS + 24) * HOUR_MS).toISOString().split("T")[0];
+
+    const scenarios = await ctx.db
+      .query("strike_scenarios")
+      .withIndex("by_status", (q) => q.eq("status", "Active"))
+      .collect();
+
+    const hospitals = new Map<string, Doc<"hospitals"> | null>();
+    const counts = { reminders: 0, flagged: 0, released: 0 };
+
+    for (const scenario of scenarios) {
+      const positions = await ctx.db
+        .query("scenario_positions")
+        .withIndex("by_scenario_date", (q) =>
+          q.eq("scenarioId", scenario._id).gte("date", fromDate).lte("date", toDate)
+        )
+        .collect();
+
+      for (const position of positions) {
+        if (!position.isActive || position.status === "Open") continue;
+
+        const assignment = await ctx.db
+          .query("scenario_assignments")
+          .withIndex("by_position", (q) => q.eq("scenarioPositionId", position._id))
+          .filter((q) => q.neq(q.field("status"), "Cancelled"))
+          .first();
+        if (!assignment) continue;
+
+        if (!hospitals.has(position.hospitalId)) {
+          hospitals.set(position.hospitalId, await ctx.db.get(position.hospitalId));
+        }
+        const startsAt = shiftStartMs(position, hospitals.get(position.hospitalId) ?? null);
+        const hoursUntilStart = (startsAt - now) / HOUR_MS;
+
+        if (hoursUntilStart <= 0 || hoursUntilStart > FIRST_REMINDER_HOURS) continue;
+
+        if (hoursUntilStart <= FINAL_REMINDER_HOURS) {
+          // Assignments made inside the window haven't had a chance to confirm
+          const assignedBeforeWindow = assignment.assignedAt < startsAt - FINAL_REMINDER_HOURS * HOUR_MS;
+
+          if (assignment.status === "Active" && assignedBeforeWindow && !assignment.confirmationRiskAt) {
+            await ctx.db.patch(assignment._id, { confirmationRiskAt: now });
+            counts.flagged++;
+
+            if (scenario.autoReleaseUnconfirmed) {
+              const reason = `Unconfirmed ${FINAL_REMINDER_HOURS}h before shift (auto-release)`;
+              await releaseAssignment(ctx, assignment, reason);
+              await ctx.db.insert("audit_logs", {
+                userId: scenario.createdBy,
+                action: "RELEASE",
+                resourceType: "SCENARIO_ASSIGNMENT",
+                resourceId: assignment._id,
+                changes: {
+                  providerId: assignment.providerId,
+                  positionId: position._id,
+                  date: position.date,
+                  shiftType: position.shiftType,
+                  reason,
+                  source: "auto_release",
+                },
+                timestamp: now,
+              });
+              await ctx.scheduler.runAfter(0, internal.shiftReminders.sendReminder, {
+                assignmentId: assignment._id,
+                kind: "released",
+              });
+              counts.released++;
+              continue;
+            }
+          }
+
+          if (!assignment.reminder12hSentAt) {
+            await ctx.db.patch(assignment._id, { reminder12hSentAt: now });
+            await ctx.scheduler.runAfter(0, internal.shiftReminders.sendReminder, {
+              assignmentId: assignment._id,
+              kind: "12h",
+            });
+            counts.reminders++;
+          }
+        } else if (!assignment.reminder48hSentAt) {
+          await ctx.db.patch(assignment._id, { reminder48hSentAt: now });
+          await ctx.scheduler.runAfter(0, internal.shiftReminders.sendReminder, {
+            assignmentId: assignment._id,
+            kind: "48h",
+          });
+          counts.reminders++;
+        }
+      }
+    }
+
+    return counts;
+  },
+});
+
+/**
+ * Build the reminder text and recipient details
+ * A mutation because email reminders may need a new claim link token
+ * Returns null if the reminder no longer applies
+ */
+export const prepareReminder = internalMutation({
+  args: {
+    assignmentId: v.id("scenario_assignments"),
+    kind: v.string(), // ReminderKind
+  },
+  handler: async (ctx, args) => {
+    const assignment = await ctx.db.get(args.assignmentId);
+    if (!assignment) return null;
+    // Release and amendment notices go out after the assignment is cancelled
+    if (args.kind !== "released" && args.kind !== "amended" && assignment.status === "Cancelled") return null;
+
+    const [provider, position, scenario] = await Promise.all([
+      ctx.db.get(assignment.providerId),
+      ctx.db.get(assignment.scenarioPositionId),
+      ctx.db.get(assignment.scenarioId),
+    ]);
+    if (!provider || !position || !scenario) return null;
+
+    const [service, hospital] = await Promise.all([
+      ctx.db.get(position.serviceId),
+      ctx.db.get(position.hospitalId),
+    ]);
+
+    const shift = `${service?.name ?? ""} ${position.shiftType} shift on ${position.date} (${position.shiftStart}-${position.shiftEnd})${hospital ? ` at ${hospital.name}` : ""}`.trim();
+    const unconfirmed = assignment.status === "Active";
+
+    let message: string;
+    const kind = args.kind as ReminderKind;
+    if (kind === "released") {
+      message = `Hi ${provider.firstName}, your ${shift} was released because it wasn't confirmed. Contact your scheduler if you can still work it.`;
+    } else if (kind === "amended") {
+      message = `Hi ${provider.firstName}, the strike schedule has changed and your ${shift} is no longer needed. You don't need to work it. Thank you!`;
+    } else if (kind === "promoted") {
+      message = `Hi ${provider.firstName}, a spot opened up and you've been moved from standby onto the ${shift}. Reply CONFIRM to confirm or DECLINE if you can't make it.`;
+    } else if (!unconfirmed) {
+      message = `Hi ${provider.firstName}, reminder: you're confirmed for the ${shift}. Thank you!`;
+    } else if (kind === "12h") {
+      message = `Hi ${provider.firstName}, your ${shift} starts in about ${FINAL_REMINDER_HOURS} hours and isn't confirmed yet. Please reply CONFIRM now, or DECLINE if you can't make it.`;
+    } else {
+      message = `Hi ${provider.firstName}, reminder: you're scheduled for the ${shift}. Reply CONFIRM to confirm or DECLINE if you can't make it.`;
+    }
+
+    // Email can't take a CONFIRM reply - link to the claim page instead
+    let confirmUrl: string | undefined;
+    if (unconfirmed && kind !== "released" && kind !== "amended") {
+      let claimToken = await ctx.db
+        .query("claim_tokens")
+        .withIndex("by_scenario_provider", (q) =>
+          q.eq("scenarioId", scenario._id).eq("providerId", provider._id)
+        )
+        .first();
+
+      if (!claimToken || claimToken.expiresAt < Date.now()) {
+        const token = crypto.randomUUID();
+        const tokenId = await ctx.db.insert("claim_tokens", {
+          scenarioId: scenario._id,
+          providerId: provider._id,
+          token,
+          expiresAt: Date.now() + (FIRST_REMINDER_HOURS + 24) * HOUR_MS,
+          createdAt: Date.now(),
+          createdBy: assignment.assignedBy,
+        });
+        claimToken = await ctx.db.get(tokenId);
+      }
+      if (claimToken) confirmUrl = `${getAppUrl()}/claim/${claimToken.token}`;
+    }
+
+    return {
+      // Standby promotions and amendment cancellations change the provider's
+      // schedule, so they are sent even with reminders off
+      channels:
+        (kind === "promoted" || kind === "amended") && provider.reminderChannel === "none"
+          ? { sms: true, email: true }
+          : reminderChannels(provider),
+      providerId: provider._id,
+      providerName: `${provider.firstName} ${provider.lastName}`,
+      cellPhone: provider.smsOptOut ? undefined : provider.cellPhone,
+      email: provider.email,
+      message,
+      subject:
+        kind === "released"
+          ? `Shift released: ${position.date} ${position.shiftType}`
+          : kind === "amended"
+            ? `Shift cancelled: ${position.date} ${position.shiftType}`
+            : kind === "promoted"
+              ? `Moved from standby: ${position.date} ${position.shiftType}`
+              : `Shift reminder: ${position.date} ${position.shiftType}`,
+      confirmUrl,
+      healthSystemId: scenario.healthSystemId,
+      scenarioId: scenario._id,
+      scenarioPositionId: position._id,
+      sentBy: assignment.assignedBy,
+    };
+  },
+});
+
+/**
+ * Send one reminder over the provider's preferred channels
+ */
+export const sendReminder = internalAction({
+  args: {
+    assignmentId: v.id("scenario_assignments"),
+    kind: v.string(), // ReminderKind
+  },
+  handler: async (ctx, args): Promise<{ sms: boolean; email: boolean }> => {
+    const reminder = await ctx.runMutation(internal.shiftReminders.prepareReminder, args);
+    if (!reminder) return { sms: false, email: false };
+
+    const sent = { sms: false, email: false };
+
+    const twilioConfig = getTwilioConfig();
+    if (reminder.channels.sms && reminder.cellPhone && twilioConfig) {
+      const toPhone = toE164(reminder.cellPhone);
+      const result = await sendTwilioMessage(twilioConfig, toPhone, reminder.message);
+      sent.sms = result.success;
+
+      // Threaded on the position, so a CONFIRM reply confirms this assignment
+      await ctx.runMutation(internal.sms.logSMS, {
+        sentBy: reminder.sentBy,
+        healthSystemId: reminder.healthSystemId,
+        providerId: reminder.providerId,
+        toPhone,
+        providerName: reminder.providerName,
+        messageType: "shift_reminder",
+        message: reminder.message,
+        scenarioId: reminder.scenarioId,
+        scenarioPositionId: reminder.scenarioPositionId,
+        status: result.success ? "sent" : "failed",
+        twilioSid: result.success ? result.sid : undefined,
+        errorMessage: result.success ? undefined : result.error,
+      });
+    }
+
+    if (reminder.channels.email && reminder.email) {
+      const text = reminder.confirmUrl
+        ? `${reminder.message}\n\nConfirm online: ${reminder.confirmUrl}`
+        : reminder.message;
+      const result = await sendEmail({
+        to: reminder.email,
+        toName: reminder.providerName,
+        subject: reminder.subject,
+        text,
+      });
+      sent.email = result.success;
+      if (!result.success) {
+        console.error(`Reminder email to ${reminder.email} failed: ${result.error}`);
+      }
+    }
+
+    return sent;
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// CONFIRMATION RISK
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Assignments still unconfirmed at T-12h for a scenario
+ */
+export const getConfirmationRisk = query({
+  args: { scenarioId: v.id("strike_scenarios") },
+  handler: async (ctx, args) => {
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario) return null;
+
+    await requireHealthSystemAccess(ctx, scenario.healthSystemId);
+
+    const assignments = await ctx.db
+      .query("scenario_assignments")
+      .withIndex("by_scenario", (q) => q.eq("scenarioId", args.scenarioId))
+      .filter((q) =>
+        q.and(q.eq(q.field("status"), "Active"), q.neq(q.field("confirmationRiskAt"), undefined))
+      )
+      .collect();
+
+    const atRisk = await Promise.all(
+      assignments.map(async (assignment) => {
+        const position = await ctx.db.get(assignment.scenarioPositionId);
+        const provider = await ctx.db.get(assignment.providerId);
+        const service = position ? await ctx.db.get(position.serviceId) : null;
+
+        return {
+          assignmentId: assignment._id,
+          providerName: provider ? `${provider.firstName} ${provider.lastName}` : "Unknown",
+          cellPhone: provider?.cellPhone,
+          date: position?.date ?? "",
+          shiftType: position?.shiftType ?? "",
+          shiftStart: position?.shiftStart ?? "",
+          serviceName: service?.name ?? "",
+          reminder48hSentAt: assignment.reminder48hSentAt,
+          reminder12hSentAt: assignment.reminder12hSentAt,
+          flaggedAt: assignment.confirmationRiskAt!,
+        };
+      })
+    );
+
+    return {
+      autoReleaseUnconfirmed: scenario.autoReleaseUnconfirmed ?? false,
+      assignments: atRisk.sort(
+        (a, b) => a.date.localeCompare(b.date) || a.shiftStart.localeCompare(b.shiftStart)
+      ),
+    };
+  },
+});
+
+/**
+ * Release an unconfirmed assignment back to Open
+ */
+export const releaseUnconfirmed = mutation({
+  args: { assignmentId: v.id("scenario_assignments") },
+  handler: async (ctx, args) => {
+    const assignment = await ctx.db.get(args.assignmentId);
+    if (!assignment) throw new Error("Assignment not found");
+
+    if (assignment.status !== "Active") {
+      throw new Error("Only unconfirmed assignments can be released");
+    }
+
+    const position = await ctx.db.get(assignment.scenarioPositionId);
+    if (!position) throw new Error("Position not found");
+
+    const user = await requireDepartmentAccess(ctx, position.departmentId);
+
+    const reason = "Unconfirmed before shift (released by scheduler)";
+    await releaseAssignment(ctx, assignment, reason, user._id);
+
+    await auditLog(ctx, user, "RELEASE", "SCENARIO_ASSIGNMENT", args.assignmentId, {
+      providerId: assignment.providerId,
+      positionId: position._id,
+      date: position.date,
+      shiftType: position.shiftType,
+      reason,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.shiftReminders.sendReminder, {
+      assignmentId: args.assignmentId,
+      kind: "released",
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Turn automatic T-12h release on or off for a scenario
+ */
+export const setAutoRelease = mutation({
+  args: {
+    scenarioId: v.id("strike_scenarios"),
+    enabled: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario) throw new Error("Scenario not found");
+
+    const user = await requireHealthSystemAccess(ctx, scenario.healthSystemId);
+
+    await ctx.db.patch(args.scenarioId, {
+      autoReleaseUnconfirmed: args.enabled,
+      updatedAt: Date.now(),
+    });
+
+    await auditLog(ctx, user, "UPDATE", "STRIKE_SCENARIO", args.scenarioId, {
+      autoReleaseUnconfirmed: args.enabled,
+    });
+
+    return { success: true };
+  },
+});
@@ -0,0 +1,251 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import { requireHealthSystemAccess, requireDepartmentAccess, auditLog } from "./lib/auth";
+import { claimPositionsForProvider } from "./lib/claims";
+import { reopenPosition } from "./lib/standby";
+import { ShiftTransfer, isMarketplaceRequest, checkTrade, transferAssignment } from "./lib/shiftTrades";
+
+// ═══════════════════════════════════════════════════════════════════
+// SHIFT CHANGE REQUESTS
+// Drop/swap requests providers make from the portal (portal.ts) and
+// peer trades accepted on the shift marketplace (lib/shiftTrades.ts),
+// reviewed by an admin with access to the position's department
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Pending requests for a scenario, limited to departments the user can manage
+ */
+export const listPending = query({
+  args: { scenarioId: v.id("strike_scenarios") },
+  handler: async (ctx, args) => {
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario) return [];
+
+    const user = await requireHealthSystemAccess(ctx, scenario.healthSystemId);
+
+    const requests = await ctx.db
+      .query("shift_change_requests")
+      .withIndex("by_status", (q) => q.eq("status", "Pending"))
+      .filter((q) => q.eq(q.field("scenarioId"), args.scenarioId))
+      .collect();
+
+    const enriched = [];
+    for (const request of requests) {
+      const department = await ctx.db.get(request.departmentId);
+      if (!department) continue;
+      if (user.role === "hospital_admin" && department.hospitalId !== user.hospitalId) continue;
+      if (user.role === "departmental_admin" && department._id !== user.departmentId) continue;
+
+      // Swap: the open shift to move to. Trade: the peer's shift in return
+      const offered = request.offeredAssignmentId ? await ctx.db.get(request.offeredAssignmentId) : null;
+      const targetPositionId = request.targetPositionId ?? offered?.scenarioPositionId;
+
+      const [provider, acceptor, position, target] = await Promise.all([
+        ctx.db.get(request.providerId),
+        request.acceptedByProviderId ? ctx.db.get(request.acceptedByProviderId) : null,
+        ctx.db.get(request.scenarioPositionId),
+        targetPositionId ? ctx.db.get(targetPositionId) : null,
+      ]);
+      const service = position ? await ctx.db.get(position.serviceId) : null;
+      const targetService = target ? await ctx.db.get(target.serviceId) : null;
+
+      // Flag trades that no longer pass eligibility before the admin approves
+      const tradeCheck = isMarketplaceRequest(request) ? await checkTrade(ctx, request) : null;
+
+      enriched.push({
+        requestId: request._id,
+        type: request.type,
+        reason: request.reason,
+        requestedAt: request.requestedAt,
+        providerName: provider ? `${provider.firstName} ${provider.lastName}` : "Unknown",
+        acceptorName: acceptor ? `${acceptor.firstName} ${acceptor.lastName}` : null,
+        blockedReason: tradeCheck && !tradeCheck.eligible ? tradeCheck.reason : null,
+        departmentName: department.name,
+        shift: position
+          ? {
+              date: position.date,
+              shiftType: position.shiftType,
+              shiftStart: position.shiftStart,
+              serviceName: service?.name ?? "",
+            }
+          : null,
+        target: target
+          ? {
+              date: target.date,
+              shiftType: target.shiftType,
+              shiftStart: target.shiftStart,
+              serviceName: targetService?.name ?? "",
+              status: target.status,
+            }
+          : null,
+      });
+    }
+
+    return enriched.sort((a, b) => a.requestedAt - b.requestedAt);
+  },
+});
+
+/**
+ * Approve a request
+ * Drop: cancel the assignment and reopen the position
+ * Swap: cancel the assignment, then claim the target shift with the same
+ * checks as a self-claim - any rejection rolls the whole approval back
+ * Giveaway/trade: re-check both providers, then transfer the shift(s)
+ */
+export const approve = mutation({
+  args: {
+    requestId: v.id("shift_change_requests"),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const request = await ctx.db.get(args.requestId);
+    if (!request) throw new Error("Request not found");
+
+    const user = await requireDepartmentAccess(ctx, request.departmentId);
+
+    if (request.status !== "Pending") {
+      throw new Error("This request has already been reviewed");
+    }
+
+    if (isMarketplaceRequest(request)) {
+      const check = await checkTrade(ctx, request);
+      if (!check.eligible) throw new Error(`Can't approve trade: ${check.reason}`);
+
+      const { postedAssignment, poster, acceptor, offeredAssignment } = check;
+      if (offeredAssignment) {
+        const offeredPosition = await ctx.db.get(offeredAssignment.scenarioPositionId);
+        if (offeredPosition) await requireDepartmentAccess(ctx, offeredPosition.departmentId);
+      }
+
+      const transfers: ShiftTransfer[] = [
+        await transferAssignment(ctx, postedAssignment, acceptor, {
+          transferredBy: user._id,
+          reason: `${request.type === "trade" ? "Traded" : "Given"} by ${poster.firstName} ${poster.lastName} via shift marketplace`,
+        }),
+      ];
+      if (offeredAssignment) {
+        transfers.push(
+          await transferAssignment(ctx, offeredAssignment, poster, {
+            transferredBy: user._id,
+            reason: `Traded by ${acceptor.firstName} ${acceptor.lastName} via shift marketplace`,
+          })
+        );
+      }
+
+      await ctx.db.patch(args.requestId, {
+        status: "Approved",
+        reviewedBy: user._id,
+        reviewedAt: Date.now(),
+        reviewNote: args.note,
+      });
+
+      // Chain of custody: one TRANSFER entry per shift that changed hands
+      for (const transfer of transfers) {
+        await auditLog(ctx, user, "TRANSFER", "SCENARIO_ASSIGNMENT", transfer.toAssignmentId, {
+          ...transfer,
+          requestId: args.requestId,
+        });
+      }
+      await auditLog(ctx, user, "APPROVE", "SHIFT_CHANGE_REQUEST", args.requestId, {
+        type: request.type,
+        providerId: request.providerId,
+        acceptedByProviderId: request.acceptedByProviderId,
+        transfers,
+        note: args.note,
+      });
+
+      return { success: true };
+    }
+
+    const assignment = await ctx.db.get(request.assignmentId);
+    if (!assignment || assignment.status === "Cancelled") {
+      throw new Error("The assignment is no longer active");
+    }
+
+    const cancelReason =
+      request.type === "swap" ? "Swapped by provider request" : "Dropped by provider request";
+    await ctx.db.patch(assignment._id, {
+      status: "Cancelled",
+      cancelledAt: Date.now(),
+      cancelledBy: user._id,
+      cancelReason,
+    });
+    await reopenPosition(ctx, assignment.scenarioPositionId, user._id);
+
+    let newAssignmentId;
+    if (request.type === "swap") {
+      if (!request.targetPositionId) throw new Error("Swap request has no target shift");
+
+      const target = await ctx.db.get(request.targetPositionId);
+      if (target) await requireDepartmentAccess(ctx, target.departmentId);
+
+      const [provider, scenario] = await Promise.all([
+        ctx.db.get(request.providerId),
+        ctx.db.get(request.scenarioId),
+      ]);
+      if (!provider || !scenario) throw new Error("Provider or scenario not found");
+
+      const { claimed, rejected } = await claimPositionsForProvider(ctx, {
+        provider,
+        scenario,
+        positionIds: [request.targetPositionId],
+        assignedBy: user._id,
+        notes: "Swapped in via provider portal request",
+      });
+      if (rejected.length > 0) {
+        throw new Error(`Can't complete swap: ${rejected[0].reason}`);
+      }
+      newAssignmentId = claimed[0].assignmentId;
+    }
+
+    await ctx.db.patch(args.requestId, {
+      status: "Approved",
+      reviewedBy: user._id,
+      reviewedAt: Date.now(),
+      reviewNote: args.note,
+    });
+
+    await auditLog(ctx, user, "APPROVE", "SHIFT_CHANGE_REQUEST", args.requestId, {
+      type: request.type,
+      providerId: request.providerId,
+      cancelledAssignmentId: assignment._id,
+      newAssignmentId,
+      note: args.note,
+    });
+
+    return { success: true };
+  },
+});
+
+export const deny = mutation({
+  args: {
+    requestId: v.id("shift_change_requests"),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const request = await ctx.db.get(args.requestId);
+    if (!request) throw new Error("Request not found");
+
+    const user = await requireDepartmentAccess(ctx, request.departmentId);
+
+    if (request.status !== "Pending") {
+      throw new Error("This request has already been reviewed");
+    }
+
+    await ctx.db.patch(args.requestId, {
+      status: "Denied",
+      reviewedBy: user._id,
+      reviewedAt: Date.now(),
+      reviewNote: args.note,
+    });
+
+    await auditLog(ctx, user, "DENY", "SHIFT_CHANGE_REQUEST", args.requestId, {
+      type: request.type,
+      providerId: request.providerId,
+      acceptedByProviderId: request.acceptedByProviderId,
+      note: args.note,
+    });
+
+    return { success: true };
+  },
+});
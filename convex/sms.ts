@@ -1,7 +1,24 @@
 import { v } from "convex/values";
-import { action, internalMutation, internalQuery, query } from "./_generated/server";
+import { action, internalMutation, internalQuery, query, MutationCtx } from "./_generated/server";
 import { internal } from "./_generated/api";
-import { Id } from "./_generated/dataModel";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  getTwilioConfig,
+  sendTwilioMessage,
+  toE164,
+  twilioMessagesUrl,
+  twilioMessageParams,
+} from "./lib/twilio";
+import { handleCampaignReply, declinePendingOffers } from "./lib/smsCampaigns";
+import { applyDeliveryStatus, applyHeldDeliveryStatuses, holdDeliveryStatus } from "./lib/smsDelivery";
+import { claimPositionsForProvider, listClaimablePositions, ClaimRejection } from "./lib/claims";
+import { requireHealthSystemAccess } from "./lib/auth";
+import { reopenPosition } from "./lib/standby";
+
+// Shift menus: how many shifts fit in one text, and how long replies are accepted
+const DEFAULT_MENU_ITEMS = 8;
+const MAX_MENU_ITEMS = 15;
+const MENU_TTL_MS = 24 * 60 * 60 * 1000;
 
 // ═══════════════════════════════════════════════════════════════════
 // INTERNAL QUERIES (to avoid circular type references)
@@ -121,7 +138,7 @@ export const sendSMS = action({
     }
 
     // Send via Twilio API
-    const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`;
+    const twilioUrl = twilioMessagesUrl(accountSid);
     const auth = btoa(`${accountSid}:${authToken}`);
 
     try {
@@ -131,11 +148,7 @@ export const sendSMS = action({
           "Authorization": `Basic ${auth}`,
           "Content-Type": "application/x-www-form-urlencoded",
         },
-        body: new URLSearchParams({
-          To: toPhone,
-          From: fromPhone,
-          Body: message,
-        }),
+        body: twilioMessageParams(toPhone, fromPhone, message),
       });
 
       const result: { sid?: string; message?: string } = await response.json();
@@ -292,7 +305,7 @@ export const sendBulkSMS = action({
         }
 
         // Send via Twilio
-        const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`;
+        const twilioUrl = twilioMessagesUrl(accountSid);
         const auth = btoa(`${accountSid}:${authToken}`);
 
         const response: Response = await fetch(twilioUrl, {
@@ -301,11 +314,7 @@ export const sendBulkSMS = action({
             "Authorization": `Basic ${auth}`,
             "Content-Type": "application/x-www-form-urlencoded",
           },
-          body: new URLSearchParams({
-            To: toPhone,
-            From: fromPhone,
-            Body: message,
-          }),
+          body: twilioMessageParams(toPhone, fromPhone, message),
         });
 
         const twilioResult: { sid?: string; message?: string } = await response.json();
@@ -360,10 +369,161 @@ export const sendBulkSMS = action({
   },
 });
 
+/**
+ * Text each provider a numbered menu of open shifts they can claim
+ * Providers reply with the numbers they want, e.g. "YES 1 3"
+ */
+export const sendShiftMenu = action({
+  args: {
+    scenarioId: v.id("strike_scenarios"),
+    providerIds: v.array(v.id("providers")),
+    maxItems: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<{
+    success: boolean;
+    sent: number;
+    failed: number;
+    errors: string[];
+  }> => {
+    const user = await ctx.runQuery(internal.sms.getCurrentUserForSMS, {});
+    if (!user) {
+      throw new Error("User not found or not authenticated");
+    }
+
+    const config = getTwilioConfig();
+    let sent = 0;
+    const errors: string[] = [];
+
+    for (const providerId of args.providerIds) {
+      const provider = await ctx.runQuery(internal.sms.getProviderForSMS, { providerId });
+      const name = provider ? `${provider.firstName} ${provider.lastName}` : "Unknown provider";
+
+      if (!provider || !provider.cellPhone) {
+        errors.push(`${name}: no phone number`);
+        continue;
+      }
+      if (provider.smsOptOut) {
+        errors.push(`${name}: opted out of SMS`);
+        continue;
+      }
+
+      const menu = await ctx.runMutation(internal.sms.createShiftMenu, {
+        scenarioId: args.scenarioId,
+        providerId,
+        sentBy: user._id,
+        maxItems: args.maxItems,
+      });
+      if (!menu) {
+        errors.push(`${name}: no open shifts to offer`);
+        continue;
+      }
+
+      const toPhone = toE164(provider.cellPhone);
+      const result = config
+        ? await sendTwilioMessage(config, toPhone, menu.message)
+        : { success: false as const, error: "Twilio credentials not configured" };
+
+      await ctx.runMutation(internal.sms.logSMS, {
+        sentBy: user._id,
+        healthSystemId: menu.healthSystemId,
+        providerId,
+        toPhone,
+        providerName: name,
+        messageType: "shift_menu",
+        message: menu.message,
+        scenarioId: args.scenarioId,
+        status: result.success ? "sent" : "failed",
+        twilioSid: result.success ? result.sid : undefined,
+        errorMessage: result.success ? undefined : result.error,
+      });
+
+      if (result.success) {
+        sent++;
+      } else {
+        errors.push(`${name}: ${result.error}`);
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      sent,
+      failed: args.providerIds.length - sent,
+      errors,
+    };
+  },
+});
+
 // ═══════════════════════════════════════════════════════════════════
 // INTERNAL MUTATIONS (for logging)
 // ═══════════════════════════════════════════════════════════════════
 
+/**
+ * Build and store a numbered shift menu for a provider
+ * Lists what the provider could claim through a claim link
+ * (lib/claims.listClaimablePositions), so every item passes the claim step
+ * Returns null when nothing is open for them
+ */
+export const createShiftMenu = internalMutation({
+  args: {
+    scenarioId: v.id("strike_scenarios"),
+    providerId: v.id("providers"),
+    sentBy: v.id("users"),
+    maxItems: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario || !scenario.isActive) throw new Error("Scenario is not active");
+
+    await requireHealthSystemAccess(ctx, scenario.healthSystemId);
+
+    const provider = await ctx.db.get(args.providerId);
+    if (!provider || !provider.isActive) return null;
+
+    const { availablePositions } = await listClaimablePositions(ctx, provider, args.scenarioId);
+
+    // One item per date/shift/service - several open seats read as one shift
+    const seen = new Set<string>();
+    const picks: typeof availablePositions = [];
+    for (const pos of availablePositions) {
+      const key = `${pos.date}-${pos.shiftType}-${pos.serviceId}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      picks.push(pos);
+    }
+
+    const maxItems = Math.min(Math.max(1, args.maxItems ?? DEFAULT_MENU_ITEMS), MAX_MENU_ITEMS);
+    const chosen = picks.slice(0, maxItems);
+    if (chosen.length === 0) return null;
+
+    const items = [];
+    for (const [i, pos] of chosen.entries()) {
+      items.push({
+        number: i + 1,
+        scenarioPositionId: pos.positionId,
+        label: formatMenuLabel(pos.date, pos.shiftType, pos.serviceCode || pos.serviceName),
+      });
+    }
+
+    const now = Date.now();
+    await ctx.db.insert("sms_shift_menus", {
+      providerId: provider._id,
+      scenarioId: args.scenarioId,
+      sentBy: args.sentBy,
+      items,
+      createdAt: now,
+      expiresAt: now + MENU_TTL_MS,
+    });
+
+    const message = [
+      `Hi ${provider.firstName}, open shifts for ${scenario.name}:`,
+      ...items.map((item) => `${item.number}) ${item.label}`),
+      "Reply YES and the numbers you want, e.g. YES 1 3",
+    ].join("\n");
+
+    return { message, healthSystemId: scenario.healthSystemId, itemCount: items.length };
+  },
+});
+
 export const logSMS = internalMutation({
   args: {
     // Direction and threading
@@ -384,13 +544,14 @@ export const logSMS = internalMutation({
     // Context
     scenarioId: v.optional(v.id("strike_scenarios")),
     scenarioPositionId: v.optional(v.id("scenario_positions")),
+    campaignId: v.optional(v.id("sms_campaigns")),
     // Status
     status: v.string(),
     twilioSid: v.optional(v.string()),
     errorMessage: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    await ctx.db.insert("sms_logs", {
+    const logId = await ctx.db.insert("sms_logs", {
       direction: args.direction || "outbound",
       replyToSmsLogId: args.replyToSmsLogId,
       sentBy: args.sentBy,
@@ -404,11 +565,13 @@ export const logSMS = internalMutation({
       replyIntent: args.replyIntent,
       scenarioId: args.scenarioId,
       scenarioPositionId: args.scenarioPositionId,
+      campaignId: args.campaignId,
       status: args.status,
       twilioSid: args.twilioSid,
       errorMessage: args.errorMessage,
       sentAt: Date.now(),
     });
+    await applyHeldDeliveryStatuses(ctx, logId);
   },
 });
 
@@ -476,7 +639,7 @@ export const testSMS = action({
 
     const message = args.message || "Test message from Strike Prep. If you received this, SMS is working!";
 
-    const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`;
+    const twilioUrl = twilioMessagesUrl(accountSid);
     const auth = btoa(`${accountSid}:${authToken}`);
 
     try {
@@ -572,6 +735,38 @@ function normalizePhone(phone: string): string {
   return phone;
 }
 
+/**
+ * Format a menu line: "Mon 1/6 AM ICU"
+ */
+function formatMenuLabel(date: string, shiftType: string, service: string): string {
+  const day = new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "numeric",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+  return `${day.replace(",", "")} ${shiftType} ${service}`.trim();
+}
+
+/**
+ * Parse menu picks from a reply like "YES 1 3", "1, 3" or "take 2 and 4"
+ * Returns null when the message is not a list of numbers
+ */
+function parseShiftPicks(body: string): number[] | null {
+  const text = body
+    .trim()
+    .toUpperCase()
+    .replace(/^(YES|Y|CLAIM|TAKE)\b[\s,:]*/, "")
+    .replace(/\s+AND\s+/g, " ");
+
+  if (!/^\d+([\s,&]+\d+)*$/.test(text)) {
+    return null;
+  }
+
+  const numbers = (text.match(/\d+/g) ?? []).map(Number);
+  return [...new Set(numbers)];
+}
+
 /**
  * Parse reply intent from message body
  */
@@ -620,7 +815,7 @@ function getAutoReplyMessage(intent: string, providerName?: string): string {
     case "stop":
       return "You've been unsubscribed from Strike Prep alerts. Reply START to re-subscribe.";
     case "help":
-      return "Strike Prep SMS alerts. Reply CONFIRM to accept shifts, NO to decline, STOP to unsubscribe. Questions? Contact your supervisor.";
+      return "Strike Prep SMS alerts. Reply shift numbers from a list (e.g. YES 1 3) to claim them, CONFIRM to accept shifts, NO to decline, STOP to unsubscribe. Questions? Contact your supervisor.";
     case "resubscribe":
       return "Welcome back! You've been re-subscribed to Strike Prep SMS alerts.";
     case "confirmed":
@@ -635,6 +830,133 @@ function getAutoReplyMessage(intent: string, providerName?: string): string {
   }
 }
 
+/**
+ * Claim numbered picks from the provider's latest shift menu
+ * Everything runs in the inbound mutation, so the picks are claimed atomically
+ * Returns the auto-reply listing what was booked and what was already taken
+ */
+async function claimFromShiftMenu(
+  ctx: MutationCtx,
+  provider: Doc<"providers">,
+  picks: number[]
+): Promise<string> {
+  const menu = await ctx.db
+    .query("sms_shift_menus")
+    .withIndex("by_provider", (q) => q.eq("providerId", provider._id))
+    .order("desc")
+    .first();
+
+  if (!menu || Date.now() > menu.expiresAt) {
+    return "We couldn't find a current shift list for you. Ask your scheduler to send a new one.";
+  }
+
+  const scenario = await ctx.db.get(menu.scenarioId);
+  if (!scenario || !scenario.isActive) {
+    return "Those shifts are no longer available.";
+  }
+
+  const itemsByNumber = new Map(menu.items.map((item) => [item.number, item]));
+  const unknownNumbers = picks.filter((n) => !itemsByNumber.has(n));
+
+  // A menu line stands for every open seat of that service/date/shift,
+  // so fall back to a sibling seat if the listed one was taken
+  const labelByPositionId = new Map<string, string>();
+  const positionIds: Id<"scenario_positions">[] = [];
+  for (const n of picks) {
+    const item = itemsByNumber.get(n);
+    if (!item) continue;
+
+    let positionId = item.scenarioPositionId;
+    const listed = await ctx.db.get(positionId);
+    if (listed && listed.status !== "Open") {
+      const sibling = await ctx.db
+        .query("scenario_positions")
+        .withIndex("by_service_date", (q) =>
+          q.eq("serviceId", listed.serviceId).eq("date", listed.date)
+        )
+        .filter((q) =>
+          q.and(
+            q.eq(q.field("scenarioId"), listed.scenarioId),
+            q.eq(q.field("jobTypeId"), listed.jobTypeId),
+            q.eq(q.field("shiftType"), listed.shiftType),
+            q.eq(q.field("status"), "Open"),
+            q.eq(q.field("isActive"), true)
+          )
+        )
+        .first();
+      if (sibling) positionId = sibling._id;
+    }
+
+    labelByPositionId.set(positionId.toString(), `${item.number}) ${item.label}`);
+    positionIds.push(positionId);
+  }
+
+  const { claimed, rejected } = await claimPositionsForProvider(ctx, {
+    provider,
+    scenario,
+    positionIds,
+    assignedBy: menu.sentBy,
+    notes: "Self-claimed via SMS",
+  });
+
+  if (claimed.length > 0) {
+    // Log the claim (no auth context on inbound SMS)
+    await ctx.db.insert("audit_logs", {
+      userId: menu.sentBy,
+      action: "SELF_CLAIM",
+      resourceType: "SCENARIO_ASSIGNMENT",
+      resourceId: scenario._id,
+      changes: {
+        providerId: provider._id,
+        providerName: `${provider.firstName} ${provider.lastName}`,
+        claimedCount: claimed.length,
+        positionIds: claimed.map((c) => c.positionId),
+        source: "sms_menu",
+      },
+      timestamp: Date.now(),
+    });
+  }
+
+  const label = (positionId: Id<"scenario_positions">) =>
+    labelByPositionId.get(positionId.toString()) ?? "";
+
+  const taken = rejected.filter((r) => r.code === "taken" || r.code === "not_found");
+  const blocked = rejected.filter(
+    (r) =>
+      r.code === "conflict" ||
+      r.code === "duty_hours" ||
+      r.code === "not_eligible" ||
+      r.code === "credentials"
+  );
+  const blockedReasons: Partial<Record<ClaimRejection, string>> = {
+    conflict: "you already work that shift",
+    duty_hours: "duty-hour limit",
+    not_eligible: "not eligible",
+    credentials: "credential expired or rejected",
+  };
+
+  const lines: string[] = [];
+  if (claimed.length > 0) {
+    lines.push(`Booked: ${claimed.map((c) => label(c.positionId)).join(", ")}`);
+  }
+  if (taken.length > 0) {
+    lines.push(`Already taken: ${taken.map((r) => label(r.positionId)).join(", ")}`);
+  }
+  for (const r of blocked) {
+    lines.push(
+      `Not booked: ${label(r.positionId)} (${blockedReasons[r.code]})`
+    );
+  }
+  if (unknownNumbers.length > 0) {
+    lines.push(`Not on your list: ${unknownNumbers.join(", ")}`);
+  }
+  if (claimed.length > 0) {
+    lines.push("Thank you!");
+  }
+
+  return lines.join("\n");
+}
+
 /**
  * Find provider by phone number
  */
@@ -746,10 +1068,8 @@ export const handleShiftConfirmation = internalMutation({
         cancelReason: "Declined via SMS",
       });
 
-      // Reopen the position
-      await ctx.db.patch(args.scenarioPositionId, {
-        status: "Open",
-      });
+      // Reopen the position, promoting the top eligible standby
+      await reopenPosition(ctx, args.scenarioPositionId, assignment.assignedBy);
 
       return { success: true, action: "declined" };
     }
@@ -766,9 +1086,24 @@ export const processInboundSMS = internalMutation({
     body: v.string(),
     twilioSid: v.string(),
   },
-  handler: async (ctx, args): Promise<{ autoReply: string; intent: string }> => {
+  handler: async (ctx, args): Promise<{ autoReply: string; intent: string; duplicate?: boolean }> => {
+    // Twilio retries webhooks it didn't get a timely response for -
+    // replay the original reply instead of acting on the message twice
+    const alreadyProcessed = await ctx.db
+      .query("sms_logs")
+      .withIndex("by_twilio_sid", (q) => q.eq("twilioSid", args.twilioSid))
+      .first();
+    if (alreadyProcessed) {
+      return {
+        autoReply: alreadyProcessed.autoReply ?? getAutoReplyMessage("unclear"),
+        intent: alreadyProcessed.replyIntent ?? "unclear",
+        duplicate: true,
+      };
+    }
+
     const normalizedFrom = normalizePhone(args.fromPhone);
-    const intent = parseReplyIntent(args.body);
+    const picks = parseShiftPicks(args.body);
+    const intent = picks ? "claim_shifts" : parseReplyIntent(args.body);
 
     // Find the provider by phone number
     const provider = await ctx.db
@@ -804,7 +1139,7 @@ export const processInboundSMS = internalMutation({
     }
 
     // Log the inbound message
-    await ctx.db.insert("sms_logs", {
+    const inboundLogId = await ctx.db.insert("sms_logs", {
       direction: "inbound",
       replyToSmsLogId: recentOutbound?._id,
       providerId: matchedProvider?._id,
@@ -818,16 +1153,44 @@ export const processInboundSMS = internalMutation({
       replyIntent: intent,
       scenarioId: recentOutbound?.scenarioId,
       scenarioPositionId: recentOutbound?.scenarioPositionId,
+      campaignId: recentOutbound?.campaignId,
       status: "received",
       twilioSid: args.twilioSid,
       sentAt: Date.now(),
     });
 
+    // Keep the reply with the log so retries get the same answer
+    const reply = async (autoReply: string) => {
+      await ctx.db.patch(inboundLogId, { autoReply });
+      return { autoReply, intent };
+    };
+
+    // Numbered picks from a shift menu
+    if (intent === "claim_shifts" && picks && matchedProvider) {
+      return await reply(await claimFromShiftMenu(ctx, matchedProvider, picks));
+    }
+
+    // A reply to a campaign offer goes to that campaign; anything else
+    // threads onto the position in the last text (reminders, promotions)
+    let campaignReply: { autoReply: string } | null = null;
+    if ((intent === "confirmed" || intent === "declined") && matchedProvider) {
+      campaignReply = await handleCampaignReply(
+        ctx,
+        matchedProvider,
+        intent === "confirmed",
+        recentOutbound?.campaignId
+      );
+    }
+
     // Handle special intents
     if (intent === "stop" && matchedProvider) {
       await ctx.db.patch(matchedProvider._id, { smsOptOut: true });
+      // Pass on any outstanding offers so their campaigns move on
+      await declinePendingOffers(ctx, matchedProvider._id);
     } else if (intent === "resubscribe" && matchedProvider) {
       await ctx.db.patch(matchedProvider._id, { smsOptOut: false });
+    } else if (campaignReply) {
+      return await reply(campaignReply.autoReply);
     } else if ((intent === "confirmed" || intent === "declined") && matchedProvider && recentOutbound?.scenarioPositionId) {
       // Handle shift confirmation/decline
       const positionId = recentOutbound.scenarioPositionId;
@@ -837,24 +1200,61 @@ export const processInboundSMS = internalMutation({
         .filter((q) => q.eq(q.field("providerId"), matchedProvider._id))
         .first();
 
+      if (intent === "confirmed" && assignment?.status === "Confirmed") {
+        return await reply("Thanks! That shift is already confirmed.");
+      }
       if (assignment && assignment.status === "Active") {
         if (intent === "confirmed") {
           await ctx.db.patch(assignment._id, { status: "Confirmed" });
           await ctx.db.patch(positionId, { status: "Confirmed" });
+          return await reply(getAutoReplyMessage(intent, matchedProvider.firstName));
         } else {
           await ctx.db.patch(assignment._id, {
             status: "Cancelled",
             cancelledAt: Date.now(),
             cancelReason: "Declined via SMS",
           });
-          await ctx.db.patch(positionId, { status: "Open" });
+          await reopenPosition(ctx, positionId, assignment.assignedBy);
         }
       }
     }
 
-    const autoReply = getAutoReplyMessage(intent, matchedProvider?.firstName);
+    // Only an assignment actually moved to Confirmed above gets the confirmation
+    if (intent === "confirmed") {
+      return await reply(
+        "We couldn't find a shift waiting on your confirmation, so nothing has been booked. Contact your supervisor if you have questions."
+      );
+    }
+
+    return await reply(getAutoReplyMessage(intent, matchedProvider?.firstName));
+  },
+});
+
+/**
+ * Apply a Twilio delivery status callback to the outbound log
+ * Callbacks that beat their log are held until it's written (lib/smsDelivery.ts)
+ */
+export const updateDeliveryStatus = internalMutation({
+  args: {
+    twilioSid: v.string(),
+    messageStatus: v.string(),
+    errorCode: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const log = await ctx.db
+      .query("sms_logs")
+      .withIndex("by_twilio_sid", (q) => q.eq("twilioSid", args.twilioSid))
+      .first();
+
+    if (log?.direction === "inbound") return { updated: false };
+
+    // The send's log may not be written yet - apply the status when it is
+    if (!log) {
+      await holdDeliveryStatus(ctx, args.twilioSid, args.messageStatus, args.errorCode);
+      return { updated: false };
+    }
 
-    return { autoReply, intent };
+    return { updated: await applyDeliveryStatus(ctx, log, args.messageStatus, args.errorCode) };
   },
 });
 
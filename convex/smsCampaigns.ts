@@ -0,0 +1,517 @@
+import { v } from "convex/values";
+import {
+  action,
+  internalAction,
+  internalMutation,
+  mutation,
+  query,
+} from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { requireDepartmentAccess, requireHealthSystemAccess, auditLog } from "./lib/auth";
+import { getTwilioConfig, sendTwilioMessage, toE164 } from "./lib/twilio";
+import { advanceIfWaveClosed, closeCampaign } from "./lib/smsCampaigns";
+import { applyHeldDeliveryStatuses } from "./lib/smsDelivery";
+
+// ═══════════════════════════════════════════════════════════════════
+// SMS COVERAGE CAMPAIGNS
+// Offers one open position to ranked candidates, one at a time or in waves.
+// Each wave waits `timeoutMinutes`; NO or silence moves on to the next
+// candidates, the first YES (see sms.processInboundSMS) books the shift.
+// ═══════════════════════════════════════════════════════════════════
+
+const MAX_WAVE_SIZE = 20;
+const MIN_TIMEOUT_MINUTES = 1;
+const MAX_TIMEOUT_MINUTES = 24 * 60;
+
+// ═══════════════════════════════════════════════════════════════════
+// START / CANCEL
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Start a campaign for an open position
+ * Candidates are ranked by findMatchesForPosition at start time
+ */
+export const start = action({
+  args: {
+    scenarioPositionId: v.id("scenario_positions"),
+    mode: v.string(), // "sequential" | "wave"
+    waveSize: v.optional(v.number()),
+    timeoutMinutes: v.number(),
+  },
+  handler: async (ctx, args): Promise<{ campaignId: Id<"sms_campaigns">; candidateCount: number }> => {
+    const result = await ctx.runQuery(api.scenarioMatching.findMatchesForPosition, {
+      scenarioPositionId: args.scenarioPositionId,
+    });
+
+    if ("error" in result && result.error) {
+      throw new Error(result.error);
+    }
+
+    const candidateProviderIds: Id<"providers">[] = result.matches.map(
+      (m: { providerId: Id<"providers"> }) => m.providerId
+    );
+
+    return await ctx.runMutation(internal.smsCampaigns.createCampaign, {
+      scenarioPositionId: args.scenarioPositionId,
+      mode: args.mode,
+      waveSize: args.waveSize,
+      timeoutMinutes: args.timeoutMinutes,
+      candidateProviderIds,
+    });
+  },
+});
+
+export const createCampaign = internalMutation({
+  args: {
+    scenarioPositionId: v.id("scenario_positions"),
+    mode: v.string(),
+    waveSize: v.optional(v.number()),
+    timeoutMinutes: v.number(),
+    candidateProviderIds: v.array(v.id("providers")),
+  },
+  handler: async (ctx, args) => {
+    const position = await ctx.db.get(args.scenarioPositionId);
+    if (!position) throw new Error("Position not found");
+
+    const user = await requireDepartmentAccess(ctx, position.departmentId);
+
+    if (position.status !== "Open") {
+      throw new Error("Position is not open");
+    }
+
+    const scenario = await ctx.db.get(position.scenarioId);
+    if (!scenario) throw new Error("Scenario not found");
+
+    if (scenario.status !== "Active") {
+      throw new Error("Campaigns can only run for active scenarios");
+    }
+
+    if (args.mode !== "sequential" && args.mode !== "wave") {
+      throw new Error("Mode must be 'sequential' or 'wave'");
+    }
+
+    const waveSize = args.mode === "sequential" ? 1 : Math.floor(args.waveSize ?? 3);
+    if (waveSize < 1 || waveSize > MAX_WAVE_SIZE) {
+      throw new Error(`Wave size must be between 1 and ${MAX_WAVE_SIZE}`);
+    }
+
+    if (
+      args.timeoutMinutes < MIN_TIMEOUT_MINUTES ||
+      args.timeoutMinutes > MAX_TIMEOUT_MINUTES
+    ) {
+      throw new Error(
+        `Timeout must be between ${MIN_TIMEOUT_MINUTES} and ${MAX_TIMEOUT_MINUTES} minutes`
+      );
+    }
+
+    const running = await ctx.db
+      .query("sms_campaigns")
+      .withIndex("by_position", (q) => q.eq("scenarioPositionId", args.scenarioPositionId))
+      .filter((q) => q.eq(q.field("status"), "Active"))
+      .first();
+    if (running) {
+      throw new Error("A campaign is already running for this position");
+    }
+
+    // Only candidates we can actually text
+    const candidateProviderIds: Id<"providers">[] = [];
+    for (const providerId of args.candidateProviderIds) {
+      const provider = await ctx.db.get(providerId);
+      if (provider && provider.cellPhone && !provider.smsOptOut) {
+        candidateProviderIds.push(providerId);
+      }
+    }
+
+    if (candidateProviderIds.length === 0) {
+      throw new Error("No matching providers with a phone number to text");
+    }
+
+    const campaignId = await ctx.db.insert("sms_campaigns", {
+      scenarioId: position.scenarioId,
+      scenarioPositionId: args.scenarioPositionId,
+      healthSystemId: scenario.healthSystemId,
+      mode: args.mode,
+      waveSize,
+      timeoutMinutes: args.timeoutMinutes,
+      candidateProviderIds,
+      nextCandidateIndex: 0,
+      currentWave: 0,
+      status: "Active",
+      createdBy: user._id,
+      createdAt: Date.now(),
+    });
+
+    await auditLog(ctx, user, "CREATE", "SMS_CAMPAIGN", campaignId, {
+      scenarioPositionId: args.scenarioPositionId,
+      mode: args.mode,
+      waveSize,
+      timeoutMinutes: args.timeoutMinutes,
+      candidateCount: candidateProviderIds.length,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.smsCampaigns.sendNextWave, { campaignId });
+
+    return { campaignId, candidateCount: candidateProviderIds.length };
+  },
+});
+
+/**
+ * Stop a running campaign - outstanding offers are withdrawn
+ */
+export const cancel = mutation({
+  args: { campaignId: v.id("sms_campaigns") },
+  handler: async (ctx, args) => {
+    const campaign = await ctx.db.get(args.campaignId);
+    if (!campaign) throw new Error("Campaign not found");
+
+    if (campaign.status !== "Active") {
+      throw new Error("Campaign is not running");
+    }
+
+    const position = await ctx.db.get(campaign.scenarioPositionId);
+    if (!position) throw new Error("Position not found");
+
+    const user = await requireDepartmentAccess(ctx, position.departmentId);
+
+    await closeCampaign(ctx, args.campaignId, "Cancelled", {
+      endReason: "Cancelled by scheduler",
+    });
+
+    await auditLog(ctx, user, "CANCEL", "SMS_CAMPAIGN", args.campaignId, {
+      scenarioPositionId: campaign.scenarioPositionId,
+      wavesSent: campaign.currentWave,
+    });
+
+    return { success: true };
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// WAVES
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Reserve the next wave of candidates as "Sending" offers
+ * Returns null when the campaign is over (filled elsewhere or out of candidates)
+ */
+export const prepareNextWave = internalMutation({
+  args: { campaignId: v.id("sms_campaigns") },
+  handler: async (ctx, args) => {
+    const campaign = await ctx.db.get(args.campaignId);
+    if (!campaign || campaign.status !== "Active") return null;
+
+    const position = await ctx.db.get(campaign.scenarioPositionId);
+    if (!position || !position.isActive || position.status !== "Open") {
+      await closeCampaign(ctx, args.campaignId, "Cancelled", {
+        endReason: "Position filled outside the campaign",
+      });
+      return null;
+    }
+
+    const service = await ctx.db.get(position.serviceId);
+    const hospital = await ctx.db.get(position.hospitalId);
+
+    const now = Date.now();
+    const expiresAt = now + campaign.timeoutMinutes * 60 * 1000;
+    const wave = campaign.currentWave + 1;
+    let index = campaign.nextCandidateIndex;
+
+    const offers: {
+      offerId: Id<"sms_campaign_offers">;
+      providerId: Id<"providers">;
+      providerName: string;
+      toPhone: string;
+      message: string;
+    }[] = [];
+
+    while (offers.length < campaign.waveSize && index < campaign.candidateProviderIds.length) {
+      const providerId = campaign.candidateProviderIds[index++];
+      const provider = await ctx.db.get(providerId);
+
+      // Skip anyone who opted out or went inactive since the campaign started
+      if (!provider || !provider.isActive || !provider.cellPhone || provider.smsOptOut) {
+        continue;
+      }
+
+      const offerId = await ctx.db.insert("sms_campaign_offers", {
+        campaignId: args.campaignId,
+        scenarioPositionId: position._id,
+        providerId,
+        wave,
+        status: "Sending",
+        offeredAt: now,
+        expiresAt,
+      });
+
+      offers.push({
+        offerId,
+        providerId,
+        providerName: `${provider.firstName} ${provider.lastName}`,
+        toPhone: toE164(provider.cellPhone),
+        message:
+          `Hi ${provider.firstName}, can you cover ${service?.name ?? "a"} ${position.shiftType} shift ` +
+          `on ${position.date} (${position.shiftStart}-${position.shiftEnd})` +
+          `${hospital ? ` at ${hospital.name}` : ""}? ` +
+          `Reply YES to take it or NO to pass. Offer expires in ${campaign.timeoutMinutes} min.`,
+      });
+    }
+
+    if (offers.length === 0) {
+      await closeCampaign(ctx, args.campaignId, "Exhausted", {
+        endReason: "No candidates left",
+      });
+      return null;
+    }
+
+    await ctx.db.patch(args.campaignId, {
+      currentWave: wave,
+      nextCandidateIndex: index,
+    });
+
+    await ctx.scheduler.runAt(expiresAt, internal.smsCampaigns.expireWave, {
+      campaignId: args.campaignId,
+      wave,
+    });
+
+    return {
+      scenarioId: campaign.scenarioId,
+      scenarioPositionId: campaign.scenarioPositionId,
+      healthSystemId: campaign.healthSystemId,
+      createdBy: campaign.createdBy,
+      offers,
+    };
+  },
+});
+
+/**
+ * Text the next wave of candidates
+ */
+export const sendNextWave = internalAction({
+  args: { campaignId: v.id("sms_campaigns") },
+  handler: async (ctx, args): Promise<void> => {
+    const wave = await ctx.runMutation(internal.smsCampaigns.prepareNextWave, {
+      campaignId: args.campaignId,
+    });
+    if (!wave) return;
+
+    const config = getTwilioConfig();
+
+    for (const offer of wave.offers) {
+      const result = config
+        ? await sendTwilioMessage(config, offer.toPhone, offer.message)
+        : { success: false as const, error: "Twilio credentials not configured" };
+
+      await ctx.runMutation(internal.smsCampaigns.recordOfferSent, {
+        offerId: offer.offerId,
+        providerName: offer.providerName,
+        toPhone: offer.toPhone,
+        message: offer.message,
+        twilioSid: result.success ? result.sid : undefined,
+        errorMessage: result.success ? undefined : result.error,
+      });
+    }
+  },
+});
+
+/**
+ * Log an offer SMS and move the offer to Pending (or Failed)
+ */
+export const recordOfferSent = internalMutation({
+  args: {
+    offerId: v.id("sms_campaign_offers"),
+    providerName: v.string(),
+    toPhone: v.string(),
+    message: v.string(),
+    twilioSid: v.optional(v.string()),
+    errorMessage: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const offer = await ctx.db.get(args.offerId);
+    if (!offer) return;
+
+    const campaign = await ctx.db.get(offer.campaignId);
+    if (!campaign) return;
+
+    const failed = args.errorMessage !== undefined;
+
+    const smsLogId = await ctx.db.insert("sms_logs", {
+      direction: "outbound",
+      sentBy: campaign.createdBy,
+      healthSystemId: campaign.healthSystemId,
+      providerId: offer.providerId,
+      toPhone: args.toPhone,
+      providerName: args.providerName,
+      messageType: "coverage_offer",
+      message: args.message,
+      scenarioId: campaign.scenarioId,
+      scenarioPositionId: offer.scenarioPositionId,
+      campaignId: campaign._id,
+      status: failed ? "failed" : "sent",
+      twilioSid: args.twilioSid,
+      errorMessage: args.errorMessage,
+      sentAt: Date.now(),
+    });
+
+    // The campaign may have been filled or cancelled while we were sending
+    if (offer.status !== "Sending") {
+      await ctx.db.patch(args.offerId, { smsLogId });
+      await applyHeldDeliveryStatuses(ctx, smsLogId);
+      return;
+    }
+
+    await ctx.db.patch(args.offerId, {
+      smsLogId,
+      status: failed ? "Failed" : "Pending",
+      errorMessage: args.errorMessage,
+    });
+
+    if (failed) {
+      await advanceIfWaveClosed(ctx, campaign._id);
+    } else {
+      // A "failed" callback that beat this log fails the offer over now
+      await applyHeldDeliveryStatuses(ctx, smsLogId);
+    }
+  },
+});
+
+/**
+ * Timeout for a wave - unanswered offers time out and the next wave goes out
+ * Ignored if the campaign has already moved past this wave
+ */
+export const expireWave = internalMutation({
+  args: {
+    campaignId: v.id("sms_campaigns"),
+    wave: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const campaign = await ctx.db.get(args.campaignId);
+    if (!campaign || campaign.status !== "Active" || campaign.currentWave !== args.wave) {
+      return;
+    }
+
+    const offers = await ctx.db
+      .query("sms_campaign_offers")
+      .withIndex("by_campaign", (q) => q.eq("campaignId", args.campaignId))
+      .filter((q) => q.eq(q.field("wave"), args.wave))
+      .collect();
+
+    for (const offer of offers) {
+      if (offer.status === "Pending" || offer.status === "Sending") {
+        await ctx.db.patch(offer._id, { status: "TimedOut" });
+      }
+    }
+
+    await advanceIfWaveClosed(ctx, args.campaignId);
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// QUERIES
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Campaigns for a scenario with a merged event timeline, newest first
+ */
+export const getScenarioCampaigns = query({
+  args: { scenarioId: v.id("strike_scenarios") },
+  handler: async (ctx, args) => {
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario) return [];
+
+    await requireHealthSystemAccess(ctx, scenario.healthSystemId);
+
+    const campaigns = await ctx.db
+      .query("sms_campaigns")
+      .withIndex("by_scenario", (q) => q.eq("scenarioId", args.scenarioId))
+      .order("desc")
+      .collect();
+
+    const providerNames = new Map<string, string>();
+    const getProviderName = async (providerId: Id<"providers">) => {
+      const key = providerId.toString();
+      if (!providerNames.has(key)) {
+        const provider = await ctx.db.get(providerId);
+        providerNames.set(key, provider ? `${provider.firstName} ${provider.lastName}` : "Unknown");
+      }
+      return providerNames.get(key)!;
+    };
+
+    return await Promise.all(
+      campaigns.map(async (campaign) => {
+        const position = await ctx.db.get(campaign.scenarioPositionId);
+        const service = position ? await ctx.db.get(position.serviceId) : null;
+        const jobType = position ? await ctx.db.get(position.jobTypeId) : null;
+
+        const offers = await ctx.db
+          .query("sms_campaign_offers")
+          .withIndex("by_campaign", (q) => q.eq("campaignId", campaign._id))
+          .collect();
+
+        const events: {
+          at: number;
+          type: string; // "started" | "offered" | "accepted" | "declined" | "timed_out" | "failed" | "ended"
+          label: string;
+          wave?: number;
+        }[] = [
+          {
+            at: campaign.createdAt,
+            type: "started",
+            label: `Campaign started (${campaign.mode === "wave" ? `waves of ${campaign.waveSize}` : "one at a time"}, ${campaign.timeoutMinutes} min timeout)`,
+          },
+        ];
+
+        for (const offer of offers) {
+          const name = await getProviderName(offer.providerId);
+          events.push({ at: offer.offeredAt, type: "offered", label: `Offered to ${name}`, wave: offer.wave });
+
+          if (offer.status === "Accepted") {
+            events.push({ at: offer.respondedAt ?? offer.offeredAt, type: "accepted", label: `${name} replied YES`, wave: offer.wave });
+          } else if (offer.status === "Declined") {
+            events.push({
+              at: offer.respondedAt ?? offer.offeredAt,
+              type: "declined",
+              label: offer.errorMessage ? `${name} replied YES - ${offer.errorMessage}` : `${name} replied NO`,
+              wave: offer.wave,
+            });
+          } else if (offer.status === "TimedOut") {
+            events.push({ at: offer.expiresAt, type: "timed_out", label: `No reply from ${name}`, wave: offer.wave });
+          } else if (offer.status === "Failed") {
+            events.push({ at: offer.offeredAt, type: "failed", label: `Text to ${name} failed: ${offer.errorMessage ?? "unknown error"}`, wave: offer.wave });
+          }
+        }
+
+        if (campaign.status !== "Active" && campaign.completedAt) {
+          events.push({
+            at: campaign.completedAt,
+            type: "ended",
+            label:
+              campaign.status === "Filled"
+                ? `Filled by ${campaign.filledByProviderId ? await getProviderName(campaign.filledByProviderId) : "provider"}`
+                : `${campaign.status}${campaign.endReason ? `: ${campaign.endReason}` : ""}`,
+          });
+        }
+
+        events.sort((a, b) => a.at - b.at);
+
+        return {
+          ...campaign,
+          position: position
+            ? {
+                date: position.date,
+                shiftType: position.shiftType,
+                shiftStart: position.shiftStart,
+                shiftEnd: position.shiftEnd,
+                serviceName: service?.name,
+                jobTypeCode: jobType?.code,
+              }
+            : null,
+          candidateCount: campaign.candidateProviderIds.length,
+          offeredCount: offers.length,
+          pendingCount: offers.filter((o) => o.status === "Pending" || o.status === "Sending").length,
+          events,
+        };
+      })
+    );
+  },
+});
@@ -0,0 +1,344 @@
+import { v } from "convex/values";
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { requireHealthSystemAccess, requireDepartmentAccess, auditLog } from "./lib/auth";
+import { loadCoverageTarget, checkCoverageEligibility } from "./lib/scenarioEligibility";
+
+// ═══════════════════════════════════════════════════════════════════
+// STANDBY LISTS
+// Ranked providers waiting on one position or a service/date/shift
+// bucket. Promotion happens in lib/standby.ts when a position reopens.
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * The position a standby list is checked against: the position itself,
+ * or the first coverage position in the bucket
+ */
+async function resolveStandbyTarget(
+  ctx: QueryCtx,
+  args: {
+    scenarioId: Id<"strike_scenarios">;
+    serviceId: Id<"services">;
+    date: string;
+    shiftType: string;
+    scenarioPositionId?: Id<"scenario_positions">;
+  }
+): Promise<Doc<"scenario_positions">> {
+  if (args.scenarioPositionId) {
+    const position = await ctx.db.get(args.scenarioPositionId);
+    if (!position || position.scenarioId !== args.scenarioId || !position.isActive) {
+      throw new Error("Position not found");
+    }
+    return position;
+  }
+
+  const bucket = await ctx.db
+    .query("scenario_positions")
+    .withIndex("by_scenario_date", (q) => q.eq("scenarioId", args.scenarioId).eq("date", args.date))
+    .filter((q) =>
+      q.and(
+        q.eq(q.field("serviceId"), args.serviceId),
+        q.eq(q.field("shiftType"), args.shiftType),
+        q.eq(q.field("isActive"), true)
+      )
+    )
+    .collect();
+
+  const position = bucket.find((p) => !p.isStandby) ?? bucket[0];
+  if (!position) throw new Error("No positions for that service, date and shift");
+  return position;
+}
+
+/**
+ * Waiting entries on the same list (position list or bucket list)
+ */
+async function getList(ctx: QueryCtx, entry: Pick<Doc<"scenario_standby">, "scenarioId" | "serviceId" | "date" | "shiftType" | "scenarioPositionId">) {
+  const entries = entry.scenarioPositionId
+    ? await ctx.db
+        .query("scenario_standby")
+        .withIndex("by_position", (q) => q.eq("scenarioPositionId", entry.scenarioPositionId))
+        .collect()
+    : await ctx.db
+        .query("scenario_standby")
+        .withIndex("by_bucket", (q) =>
+          q
+            .eq("scenarioId", entry.scenarioId)
+            .eq("serviceId", entry.serviceId)
+            .eq("date", entry.date)
+            .eq("shiftType", entry.shiftType)
+        )
+        .filter((q) => q.eq(q.field("scenarioPositionId"), undefined))
+        .collect();
+
+  return entries.filter((e) => e.status === "Waiting").sort((a, b) => a.rank - b.rank);
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// QUERIES
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * All standby lists for a scenario, plus recent promotions
+ */
+export const list = query({
+  args: { scenarioId: v.id("strike_scenarios") },
+  handler: async (ctx, args) => {
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario) return null;
+
+    await requireHealthSystemAccess(ctx, scenario.healthSystemId);
+
+    const entries = await ctx.db
+      .query("scenario_standby")
+      .withIndex("by_scenario", (q) => q.eq("scenarioId", args.scenarioId))
+      .filter((q) => q.neq(q.field("status"), "Removed"))
+      .collect();
+
+    const enriched = await Promise.all(
+      entries.map(async (entry) => {
+        const [provider, service, position] = await Promise.all([
+          ctx.db.get(entry.providerId),
+          ctx.db.get(entry.serviceId),
+          entry.scenarioPositionId ? ctx.db.get(entry.scenarioPositionId) : null,
+        ]);
+        return {
+          standbyId: entry._id,
+          status: entry.status,
+          rank: entry.rank,
+          date: entry.date,
+          shiftType: entry.shiftType,
+          serviceId: entry.serviceId,
+          serviceName: service?.name ?? "",
+          scenarioPositionId: entry.scenarioPositionId,
+          jobCode: position?.jobCode,
+          providerName: provider ? `${provider.firstName} ${provider.lastName}` : "Unknown",
+          promotedAt: entry.promotedAt,
+          notes: entry.notes,
+        };
+      })
+    );
+
+    // Services with positions in this scenario, for the add form
+    const positions = await ctx.db
+      .query("scenario_positions")
+      .withIndex("by_scenario", (q) => q.eq("scenarioId", args.scenarioId))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+    const serviceIds = [...new Set(positions.map((p) => p.serviceId))];
+    const services = (await Promise.all(serviceIds.map((id) => ctx.db.get(id))))
+      .filter((s): s is Doc<"services"> => s !== null)
+      .map((s) => ({ serviceId: s._id, name: s.name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return {
+      waiting: enriched
+        .filter((e) => e.status === "Waiting")
+        .sort(
+          (a, b) =>
+            a.date.localeCompare(b.date) ||
+            a.shiftType.localeCompare(b.shiftType) ||
+            a.serviceName.localeCompare(b.serviceName) ||
+            (a.jobCode ?? "").localeCompare(b.jobCode ?? "") ||
+            a.rank - b.rank
+        ),
+      promoted: enriched
+        .filter((e) => e.status === "Promoted")
+        .sort((a, b) => (b.promotedAt ?? 0) - (a.promotedAt ?? 0)),
+      services,
+    };
+  },
+});
+
+/**
+ * Providers who could be added to a standby list
+ * Same eligibility rules as findMatchesForPosition
+ */
+export const getCandidates = query({
+  args: {
+    scenarioId: v.id("strike_scenarios"),
+    serviceId: v.id("services"),
+    date: v.string(),
+    shiftType: v.string(),
+    scenarioPositionId: v.optional(v.id("scenario_positions")),
+  },
+  handler: async (ctx, args) => {
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario) return [];
+
+    await requireHealthSystemAccess(ctx, scenario.healthSystemId);
+
+    let position;
+    try {
+      position = await resolveStandbyTarget(ctx, args);
+    } catch {
+      return [];
+    }
+    const target = await loadCoverageTarget(ctx, position);
+    if (!target) return [];
+
+    const onList = new Set(
+      (
+        await getList(ctx, {
+          scenarioId: args.scenarioId,
+          serviceId: args.serviceId,
+          date: args.date,
+          shiftType: args.shiftType,
+          scenarioPositionId: args.scenarioPositionId,
+        })
+      ).map((e) => e.providerId.toString())
+    );
+
+    const providers = await ctx.db
+      .query("providers")
+      .withIndex("by_health_system", (q) => q.eq("healthSystemId", scenario.healthSystemId))
+      .filter((q) => q.eq(q.field("isActive"), true))
+      .collect();
+
+    const candidates = [];
+    for (const provider of providers) {
+      if (onList.has(provider._id.toString())) continue;
+
+      const providerJobType = await ctx.db.get(provider.jobTypeId);
+      if (!providerJobType) continue;
+
+      const check = await checkCoverageEligibility(ctx, provider, providerJobType, target);
+      if (!check.eligible) continue;
+
+      candidates.push({
+        providerId: provider._id,
+        providerName: `${provider.firstName} ${provider.lastName}`,
+        jobTypeCode: providerJobType.code,
+        dutyHourWarnings: check.dutyHourViolations.map((v) => v.message),
+      });
+    }
+
+    return candidates.sort((a, b) => a.providerName.localeCompare(b.providerName));
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// MUTATIONS
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Add a provider to the bottom of a standby list
+ */
+export const add = mutation({
+  args: {
+    scenarioId: v.id("strike_scenarios"),
+    serviceId: v.id("services"),
+    date: v.string(),
+    shiftType: v.string(),
+    scenarioPositionId: v.optional(v.id("scenario_positions")),
+    providerId: v.id("providers"),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const scenario = await ctx.db.get(args.scenarioId);
+    if (!scenario) throw new Error("Scenario not found");
+    if (scenario.status === "Completed" || scenario.status === "Cancelled") {
+      throw new Error("Scenario is closed");
+    }
+
+    const position = await resolveStandbyTarget(ctx, args);
+    const user = await requireDepartmentAccess(ctx, position.departmentId);
+
+    const provider = await ctx.db.get(args.providerId);
+    if (!provider || !provider.isActive) throw new Error("Provider not found");
+    const providerJobType = await ctx.db.get(provider.jobTypeId);
+    if (!providerJobType) throw new Error("Provider job type not found");
+
+    const target = await loadCoverageTarget(ctx, position);
+    if (!target) throw new Error("Scenario not found");
+    const check = await checkCoverageEligibility(ctx, provider, providerJobType, target);
+    if (!check.eligible) {
+      throw new Error(`${provider.firstName} ${provider.lastName} can't cover this shift: ${check.reason}`);
+    }
+
+    const list = await getList(ctx, {
+      scenarioId: args.scenarioId,
+      serviceId: position.serviceId,
+      date: position.date,
+      shiftType: position.shiftType,
+      scenarioPositionId: args.scenarioPositionId,
+    });
+    if (list.some((e) => e.providerId === args.providerId)) {
+      throw new Error("Provider is already on this standby list");
+    }
+
+    const rank = list.length > 0 ? list[list.length - 1].rank + 1 : 1;
+    const standbyId = await ctx.db.insert("scenario_standby", {
+      scenarioId: args.scenarioId,
+      departmentId: position.departmentId,
+      serviceId: position.serviceId,
+      date: position.date,
+      shiftType: position.shiftType,
+      scenarioPositionId: args.scenarioPositionId,
+      providerId: args.providerId,
+      rank,
+      status: "Waiting",
+      addedBy: user._id,
+      addedAt: Date.now(),
+      notes: args.notes,
+    });
+
+    await auditLog(ctx, user, "CREATE", "SCENARIO_STANDBY", standbyId, {
+      providerId: args.providerId,
+      scenarioPositionId: args.scenarioPositionId,
+      serviceId: position.serviceId,
+      date: position.date,
+      shiftType: position.shiftType,
+      rank,
+    });
+
+    return { standbyId, rank };
+  },
+});
+
+/**
+ * Move a standby entry one place up or down its list
+ */
+export const move = mutation({
+  args: {
+    standbyId: v.id("scenario_standby"),
+    direction: v.string(), // "up" | "down"
+  },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db.get(args.standbyId);
+    if (!entry || entry.status !== "Waiting") throw new Error("Standby entry not found");
+
+    const user = await requireDepartmentAccess(ctx, entry.departmentId);
+
+    const list = await getList(ctx, entry);
+    const index = list.findIndex((e) => e._id === entry._id);
+    const swapWith = list[args.direction === "up" ? index - 1 : index + 1];
+    if (!swapWith) return { success: true };
+
+    await ctx.db.patch(entry._id, { rank: swapWith.rank });
+    await ctx.db.patch(swapWith._id, { rank: entry.rank });
+
+    await auditLog(ctx, user, "UPDATE", "SCENARIO_STANDBY", entry._id, {
+      rank: { from: entry.rank, to: swapWith.rank },
+    });
+
+    return { success: true };
+  },
+});
+
+export const remove = mutation({
+  args: { standbyId: v.id("scenario_standby") },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db.get(args.standbyId);
+    if (!entry || entry.status !== "Waiting") throw new Error("Standby entry not found");
+
+    const user = await requireDepartmentAccess(ctx, entry.departmentId);
+
+    await ctx.db.patch(args.standbyId, { status: "Removed" });
+
+    await auditLog(ctx, user, "DELETE", "SCENARIO_STANDBY", args.standbyId, {
+      providerId: entry.providerId,
+    });
+
+    return { success: true };
+  },
+});
@@ -0,0 +1,269 @@
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { requireHospitalAccess, auditLog } from "./lib/auth";
+import {
+  UNIT_MATCH_TYPES,
+  buildUnitResolver,
+  loadUnitResolver,
+  matchTypeOf,
+  needsReview,
+  ruleMatches,
+  validatePattern,
+} from "./lib/unitMapping";
+
+// ═══════════════════════════════════════════════════════════════════
+// QUERIES
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Mapping rules for a hospital, with every unit name seen in the current
+ * census or procedure destinations and how it resolves today
+ */
+export const list = query({
+  args: { hospitalId: v.id("hospitals") },
+  handler: async (ctx, args) => {
+    await requireHospitalAccess(ctx, args.hospitalId);
+
+    const [mappings, units, latestImport] = await Promise.all([
+      ctx.db
+        .query("census_unit_mappings")
+        .withIndex("by_hospital", (q) => q.eq("hospitalId", args.hospitalId))
+        .collect(),
+      ctx.db
+        .query("units")
+        .withIndex("by_hospital", (q) => q.eq("hospitalId", args.hospitalId))
+        .collect(),
+      ctx.db
+        .query("census_imports")
+        .withIndex("by_hospital", (q) => q.eq("hospitalId", args.hospitalId))
+        .order("desc")
+        .first(),
+    ]);
+
+    const patients = latestImport
+      ? await ctx.db
+          .query("census_patients")
+          .withIndex("by_import", (q) => q.eq("importId", latestImport._id))
+          .filter((q) => q.eq(q.field("isActive"), true))
+          .collect()
+      : [];
+
+    const patientCounts = new Map<string, number>();
+    for (const patient of patients) {
+      patientCounts.set(patient.currentUnitName, (patientCounts.get(patient.currentUnitName) ?? 0) + 1);
+    }
+
+    // Names seen: current census sheets plus exact mappings (pending
+    // names from earlier census and procedure imports)
+    const seenNames = new Set(patientCounts.keys());
+    for (const mapping of mappings) {
+      if (matchTypeOf(mapping) === "exact") seenNames.add(mapping.rawUnitName);
+    }
+
+    const resolve = buildUnitResolver(mappings, units);
+    const names = Array.from(seenNames)
+      .map((rawName) => {
+        const resolved = resolve(rawName);
+        const pending = mappings.find((m) => m._id === resolved.mappingId && needsReview(m));
+        return {
+          ...resolved,
+          patientCount: patientCounts.get(rawName) ?? 0,
+          lastSeenAt: pending?.lastSeenAt ?? pending?.createdAt ?? null,
+        };
+      })
+      .sort((a, b) => Number(a.mapped) - Number(b.mapped) || a.rawName.localeCompare(b.rawName));
+
+    const unitNameById = new Map(units.map((u) => [u._id.toString(), u.name]));
+    const rules = mappings
+      .filter((m) => !needsReview(m))
+      .map((m) => ({
+        ...m,
+        matchType: matchTypeOf(m),
+        linkedUnitName: m.unitId ? (unitNameById.get(m.unitId.toString()) ?? null) : null,
+        matchedNames: Array.from(seenNames).filter((name) => resolve(name).mappingId === m._id),
+      }))
+      .sort(
+        (a, b) =>
+          Number(a.matchType !== "exact") - Number(b.matchType !== "exact") ||
+          (a.priority ?? 100) - (b.priority ?? 100) ||
+          a.rawUnitName.localeCompare(b.rawUnitName)
+      );
+
+    return {
+      rules,
+      names,
+      units: units.filter((u) => u.isActive).sort((a, b) => a.name.localeCompare(b.name)),
+      matchTypes: UNIT_MATCH_TYPES,
+    };
+  },
+});
+
+/**
+ * How unit names from a file about to be imported resolve
+ */
+export const resolveNames = query({
+  args: {
+    hospitalId: v.id("hospitals"),
+    unitNames: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requireHospitalAccess(ctx, args.hospitalId);
+
+    const resolve = await loadUnitResolver(ctx, args.hospitalId);
+    return args.unitNames.map((name) => resolve(name));
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// MUTATIONS
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Keep stored unit types of current census patients in step with the
+ * mappings after a rule changes
+ */
+async function refreshCensusUnitTypes(ctx: MutationCtx, hospitalId: Id<"hospitals">) {
+  const latestImport = await ctx.db
+    .query("census_imports")
+    .withIndex("by_hospital", (q) => q.eq("hospitalId", hospitalId))
+    .order("desc")
+    .first();
+  if (!latestImport) return 0;
+
+  const resolve = await loadUnitResolver(ctx, hospitalId);
+  const patients = await ctx.db
+    .query("census_patients")
+    .withIndex("by_import", (q) => q.eq("importId", latestImport._id))
+    .filter((q) => q.eq(q.field("isActive"), true))
+    .collect();
+
+  let updated = 0;
+  for (const patient of patients) {
+    const { unitType } = resolve(patient.currentUnitName);
+    if (patient.unitType === unitType) continue;
+    await ctx.db.patch(patient._id, { unitType, updatedAt: Date.now() });
+    updated++;
+  }
+  return updated;
+}
+
+/**
+ * Create or update a mapping rule. Saving a pending name reviews it;
+ * pending names a new pattern covers are removed.
+ */
+export const saveRule = mutation({
+  args: {
+    hospitalId: v.id("hospitals"),
+    mappingId: v.optional(v.id("census_unit_mappings")),
+    pattern: v.string(),
+    matchType: v.string(),
+    priority: v.optional(v.number()),
+    unitId: v.optional(v.id("units")),
+    canonicalName: v.optional(v.string()),
+    unitType: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireHospitalAccess(ctx, args.hospitalId);
+
+    const pattern = args.pattern.trim();
+    validatePattern(args.matchType, pattern);
+    if (args.unitType !== "icu" && args.unitType !== "floor") {
+      throw new Error("Unit type must be icu or floor");
+    }
+    if (args.unitId) {
+      const unit = await ctx.db.get(args.unitId);
+      if (!unit || unit.hospitalId !== args.hospitalId) throw new Error("Unit not found");
+    }
+
+    const mappings = await ctx.db
+      .query("census_unit_mappings")
+      .withIndex("by_hospital", (q) => q.eq("hospitalId", args.hospitalId))
+      .collect();
+
+    // One rule per pattern; saving over a pending name reviews it
+    const existing = args.mappingId
+      ? mappings.find((m) => m._id === args.mappingId)
+      : mappings.find(
+          (m) =>
+            matchTypeOf(m) === args.matchType && m.rawUnitName.trim().toUpperCase() === pattern.toUpperCase()
+        );
+    if (args.mappingId && !existing) throw new Error("Unit mapping not found");
+    if (existing && !args.mappingId && !needsReview(existing)) {
+      throw new Error(`A rule for "${pattern}" already exists`);
+    }
+
+    const now = Date.now();
+    const fields = {
+      rawUnitName: pattern,
+      matchType: args.matchType,
+      priority: args.matchType === "exact" ? undefined : args.priority,
+      unitId: args.unitId,
+      canonicalName: args.unitId ? undefined : args.canonicalName?.trim() || undefined,
+      unitType: args.unitType,
+      isICU: args.unitType === "icu",
+      reviewStatus: "reviewed",
+      updatedAt: now,
+    };
+
+    let mappingId: Id<"census_unit_mappings">;
+    if (existing) {
+      mappingId = existing._id;
+      await ctx.db.patch(mappingId, fields);
+    } else {
+      mappingId = await ctx.db.insert("census_unit_mappings", {
+        hospitalId: args.hospitalId,
+        ...fields,
+        createdBy: user._id,
+        createdAt: now,
+      });
+    }
+
+    const saved = (await ctx.db.get(mappingId))!;
+    let removed = 0;
+    if (args.matchType !== "exact") {
+      for (const stub of mappings) {
+        if (stub._id !== mappingId && needsReview(stub) && ruleMatches(saved, stub.rawUnitName)) {
+          await ctx.db.delete(stub._id);
+          removed++;
+        }
+      }
+    }
+
+    const patientsUpdated = await refreshCensusUnitTypes(ctx, args.hospitalId);
+
+    await auditLog(ctx, user, existing ? "UPDATE" : "CREATE", "UNIT_MAPPING", mappingId, {
+      before: existing
+        ? { pattern: existing.rawUnitName, matchType: existing.matchType, unitId: existing.unitId, unitType: existing.unitType }
+        : undefined,
+      after: { pattern, matchType: args.matchType, unitId: args.unitId, unitType: args.unitType },
+      pendingResolved: removed,
+    });
+
+    return { mappingId, pendingResolved: removed, patientsUpdated };
+  },
+});
+
+/**
+ * Delete a mapping rule; names it covered go back to review on the next import
+ */
+export const deleteRule = mutation({
+  args: { mappingId: v.id("census_unit_mappings") },
+  handler: async (ctx, args) => {
+    const mapping = await ctx.db.get(args.mappingId);
+    if (!mapping) throw new Error("Unit mapping not found");
+
+    const user = await requireHospitalAccess(ctx, mapping.hospitalId);
+
+    await ctx.db.delete(args.mappingId);
+    await refreshCensusUnitTypes(ctx, mapping.hospitalId);
+
+    await auditLog(ctx, user, "DELETE", "UNIT_MAPPING", args.mappingId, {
+      pattern: mapping.rawUnitName,
+      matchType: matchTypeOf(mapping),
+      unitId: mapping.unitId,
+    });
+
+    return { success: true };
+  },
+});
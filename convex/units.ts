@@ -1,6 +1,7 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
 import { requireAuth, requireHospitalAccess, auditLog } from "./lib/auth";
+import { ACUITY_TIERS, STAFFING_SHIFTS, DEFAULT_RATIOS, isAcuityTier, versionOn } from "./lib/staffingRatios";
 
 /**
  * List units for a hospital
@@ -171,3 +172,156 @@ export const toggleActive = mutation({
     return { isActive: newStatus };
   },
 });
+
+// ═══════════════════════════════════════════════════════════════════
+// STAFFING RATIOS
+// Versioned nurse-to-patient ratio tables used by census staffing
+// predictions (lib/staffingRatios.ts)
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * Ratio table history for a unit, newest first, with the version in effect today
+ */
+export const getStaffingRatios = query({
+  args: { unitId: v.id("units") },
+  handler: async (ctx, args) => {
+    const unit = await ctx.db.get(args.unitId);
+    if (!unit) return null;
+
+    await requireHospitalAccess(ctx, unit.hospitalId);
+
+    const versions = await ctx.db
+      .query("unit_staffing_ratios")
+      .withIndex("by_unit", (q) => q.eq("unitId", args.unitId))
+      .order("desc")
+      .collect();
+
+    const today = new Date().toISOString().split("T")[0];
+    const current = versionOn(versions, today);
+
+    const history = await Promise.all(
+      versions.map(async (version) => {
+        const creator = await ctx.db.get(version.createdBy);
+        return {
+          ...version,
+          createdByName: creator ? `${creator.firstName} ${creator.lastName}` : "Unknown",
+          isCurrent: version._id === current?._id,
+          isFuture: version.effectiveDate > today,
+        };
+      })
+    );
+
+    return {
+      unitName: unit.name,
+      history,
+      tiers: ACUITY_TIERS,
+      shifts: STAFFING_SHIFTS,
+      defaults: DEFAULT_RATIOS,
+    };
+  },
+});
+
+/**
+ * Save a ratio table effective from a date
+ * Saving again for the same date replaces that version; earlier versions
+ * are kept as history
+ */
+export const saveStaffingRatios = mutation({
+  args: {
+    unitId: v.id("units"),
+    effectiveDate: v.string(),
+    baseTier: v.string(),
+    ratios: v.array(
+      v.object({
+        shiftType: v.string(),
+        acuityTier: v.string(),
+        patientsPerNurse: v.number(),
+      })
+    ),
+    notes: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const unit = await ctx.db.get(args.unitId);
+    if (!unit) throw new Error("Unit not found");
+
+    const user = await requireHospitalAccess(ctx, unit.hospitalId);
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(args.effectiveDate)) {
+      throw new Error("Effective date must be YYYY-MM-DD");
+    }
+    if (!isAcuityTier(args.baseTier) || args.baseTier === "one_to_one") {
+      throw new Error("Invalid base acuity tier");
+    }
+    for (const ratio of args.ratios) {
+      if (!isAcuityTier(ratio.acuityTier)) {
+        throw new Error(`Unknown acuity tier: ${ratio.acuityTier}`);
+      }
+      if (!(STAFFING_SHIFTS as readonly string[]).includes(ratio.shiftType)) {
+        throw new Error(`Unknown shift: ${ratio.shiftType}`);
+      }
+      if (!(ratio.patientsPerNurse > 0) || ratio.patientsPerNurse > 20) {
+        throw new Error("Patients per nurse must be between 0 and 20");
+      }
+    }
+
+    const existing = await ctx.db
+      .query("unit_staffing_ratios")
+      .withIndex("by_unit", (q) => q.eq("unitId", args.unitId).eq("effectiveDate", args.effectiveDate))
+      .first();
+
+    const fields = {
+      baseTier: args.baseTier,
+      ratios: args.ratios,
+      notes: args.notes,
+    };
+
+    let versionId;
+    if (existing) {
+      await ctx.db.patch(existing._id, { ...fields, createdBy: user._id, createdAt: Date.now() });
+      versionId = existing._id;
+    } else {
+      versionId = await ctx.db.insert("unit_staffing_ratios", {
+        hospitalId: unit.hospitalId,
+        unitId: args.unitId,
+        effectiveDate: args.effectiveDate,
+        ...fields,
+        createdBy: user._id,
+        createdAt: Date.now(),
+      });
+    }
+
+    await auditLog(ctx, user, "UPDATE", "UNIT", args.unitId, {
+      type: "staffing_ratios",
+      versionId,
+      effectiveDate: args.effectiveDate,
+      replaced: existing ? { baseTier: existing.baseTier, ratios: existing.ratios } : undefined,
+      ...fields,
+    });
+
+    return { versionId };
+  },
+});
+
+/**
+ * Delete a ratio table version (e.g. one entered with the wrong date)
+ */
+export const deleteStaffingRatios = mutation({
+  args: { versionId: v.id("unit_staffing_ratios") },
+  handler: async (ctx, args) => {
+    const version = await ctx.db.get(args.versionId);
+    if (!version) throw new Error("Ratio table not found");
+
+    const user = await requireHospitalAccess(ctx, version.hospitalId);
+
+    await ctx.db.delete(args.versionId);
+
+    await auditLog(ctx, user, "DELETE", "UNIT", version.unitId, {
+      type: "staffing_ratios",
+      effectiveDate: version.effectiveDate,
+      baseTier: version.baseTier,
+      ratios: version.ratios,
+    });
+
+    return { success: true };
+  },
+});
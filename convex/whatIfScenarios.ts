@@ -0,0 +1,368 @@
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { requireHealthSystemAccess, auditLog } from "./lib/auth";
+import {
+  AffectedJobTypeInput,
+  POSITION_SOURCES,
+  getDateRange,
+  planScenarioPositions,
+} from "./lib/scenarioPlanning";
+import {
+  SupplyProvider,
+  canSupply,
+  loadAvailabilityByDate,
+  loadSupplyPool,
+  projectFill,
+} from "./lib/coverageSupply";
+
+// ═══════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════
+
+interface ScenarioDefinition {
+  healthSystemId: Id<"health_systems">;
+  hospitalId?: Id<"hospitals">;
+  startDate: string;
+  endDate: string;
+  affectedJobTypes: AffectedJobTypeInput[];
+  positionSource?: string;
+}
+
+const affectedJobTypesValidator = v.array(
+  v.object({
+    jobTypeId: v.id("job_types"),
+    reductionPercent: v.number(),
+  })
+);
+
+function validateDefinition(args: Omit<ScenarioDefinition, "healthSystemId"> & { name: string }) {
+  if (!args.name.trim()) throw new Error("Name is required");
+  if (args.positionSource && !POSITION_SOURCES.includes(args.positionSource)) {
+    throw new Error(`Unknown position source: ${args.positionSource}`);
+  }
+  if (new Date(args.startDate) > new Date(args.endDate)) {
+    throw new Error("Start date must be before or equal to end date");
+  }
+  if (args.affectedJobTypes.length === 0) {
+    throw new Error("Select at least one striking job type");
+  }
+  for (const ajt of args.affectedJobTypes) {
+    if (ajt.reductionPercent < 0 || ajt.reductionPercent > 100) {
+      throw new Error("Reduction percent must be between 0 and 100");
+    }
+  }
+}
+
+const rate = (filled: number, total: number) => (total > 0 ? Math.round((filled / total) * 100) : 100);
+
+/**
+ * Plan a scenario definition and project its fill: positions per slot,
+ * providers eligible under the matching rules who haven't marked
+ * themselves unavailable, and how many positions they could fill
+ * (available and preferred providers are placed before unknowns)
+ */
+async function evaluateDefinition(
+  ctx: QueryCtx,
+  definition: ScenarioDefinition,
+  pool: SupplyProvider[],
+  availabilityOf: Awaited<ReturnType<typeof loadAvailabilityByDate>>
+) {
+  const { shifts, affectedServices, dates } = await planScenarioPositions(
+    ctx,
+    definition.healthSystemId,
+    definition.hospitalId,
+    definition.startDate,
+    definition.endDate,
+    definition.affectedJobTypes,
+    definition.positionSource
+  );
+
+  const striking = new Set(definition.affectedJobTypes.map((ajt) => ajt.jobTypeId.toString()));
+  const rank = { preferred: 0, available: 1, unknown: 2, unavailable: 3 };
+
+  // Candidates depend only on hospital, job type, date and shift
+  const candidateCache = new Map<string, string[]>();
+  const candidatesFor = (hospitalId: Id<"hospitals">, jobTypeCode: string, date: string, shiftType: string) => {
+    const key = `${hospitalId}|${jobTypeCode}|${date}|${shiftType}`;
+    if (!candidateCache.has(key)) {
+      const candidates = pool
+        .filter((entry) => canSupply(entry, { hospitalId, jobTypeCode, date }, striking))
+        .map((entry) => ({ id: entry.provider._id, status: availabilityOf(entry.provider._id, date, shiftType) }))
+        .filter((c) => c.status !== "unavailable")
+        .sort((a, b) => rank[a.status] - rank[b.status]);
+      candidateCache.set(key, candidates.map((c) => c.id.toString()));
+    }
+    return candidateCache.get(key)!;
+  };
+
+  const slots = shifts
+    .filter((shift) => shift.scenarioHeadcount > 0)
+    .map((shift, i) => ({
+      key: String(i),
+      shift,
+      date: shift.date,
+      shiftType: shift.shiftType,
+      needed: shift.scenarioHeadcount,
+      candidateIds: candidatesFor(shift.service.hospitalId, shift.jobTypeCode, shift.date, shift.shiftType),
+    }));
+  const filled = projectFill(slots);
+
+  // Per service and date, and per date
+  type Tally = { positions: number; projectedFilled: number; eligible: Set<string> };
+  const rows = new Map<
+    string,
+    Tally & { serviceId: Id<"services">; serviceName: string; serviceCode: string; hospitalCode: string; date: string }
+  >();
+  const byDate = new Map<string, Tally & { date: string }>();
+  const eligible = new Set<string>();
+
+  for (const slot of slots) {
+    const { shift } = slot;
+    const rowKey = `${shift.service._id}|${shift.date}`;
+    if (!rows.has(rowKey)) {
+      rows.set(rowKey, {
+        serviceId: shift.service._id,
+        serviceName: shift.service.name,
+        serviceCode: shift.service.shortCode,
+        hospitalCode: shift.hospitalCode,
+        date: shift.date,
+        positions: 0,
+        projectedFilled: 0,
+        eligible: new Set<string>(),
+      });
+    }
+    if (!byDate.has(shift.date)) {
+      byDate.set(shift.date, { date: shift.date, positions: 0, projectedFilled: 0, eligible: new Set() });
+    }
+
+    const slotFilled = filled.get(slot.key) ?? 0;
+    for (const target of [rows.get(rowKey)!, byDate.get(shift.date)!]) {
+      target.positions += slot.needed;
+      target.projectedFilled += slotFilled;
+      slot.candidateIds.forEach((id) => target.eligible.add(id));
+    }
+    slot.candidateIds.forEach((id) => eligible.add(id));
+  }
+
+  const finish = <T extends Tally>({ eligible, ...row }: T) => ({
+    ...row,
+    eligibleProviders: eligible.size,
+    fillRate: rate(row.projectedFilled, row.positions),
+  });
+
+  const services = Array.from(rows.values())
+    .map(finish)
+    .sort((a, b) => a.serviceName.localeCompare(b.serviceName) || a.date.localeCompare(b.date));
+  const days = dates.map((date) =>
+    finish(byDate.get(date) ?? { date, positions: 0, projectedFilled: 0, eligible: new Set<string>() })
+  );
+
+  const positions = slots.reduce((sum, s) => sum + s.needed, 0);
+  const projectedFilled = Array.from(filled.values()).reduce((sum, n) => sum + n, 0);
+  const worstDay = days
+    .filter((d) => d.positions > 0)
+    .reduce<(typeof days)[number] | null>((worst, d) => (!worst || d.fillRate < worst.fillRate ? d : worst), null);
+
+  return {
+    totals: {
+      totalDays: dates.length,
+      affectedServices,
+      originalPositions: shifts.reduce((sum, s) => sum + s.originalHeadcount, 0),
+      positions,
+      standbyPositions: shifts.reduce((sum, s) => sum + s.standbyHeadcount, 0),
+      eligibleProviders: eligible.size,
+      projectedFilled,
+      fillRate: rate(projectedFilled, positions),
+      worstDay,
+    },
+    days,
+    services,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// QUERIES
+// ═══════════════════════════════════════════════════════════════════
+
+/**
+ * What-if scenarios for a health system, newest first
+ */
+export const list = query({
+  args: { healthSystemId: v.id("health_systems") },
+  handler: async (ctx, args) => {
+    await requireHealthSystemAccess(ctx, args.healthSystemId);
+
+    const whatIfs = await ctx.db
+      .query("scenario_what_ifs")
+      .withIndex("by_health_system", (q) => q.eq("healthSystemId", args.healthSystemId))
+      .collect();
+
+    return await Promise.all(
+      whatIfs
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .map(async (whatIf) => {
+          const hospital = whatIf.hospitalId ? await ctx.db.get(whatIf.hospitalId) : null;
+          const jobTypes = await Promise.all(whatIf.affectedJobTypes.map((ajt) => ctx.db.get(ajt.jobTypeId)));
+          return {
+            ...whatIf,
+            hospitalName: hospital?.name ?? null,
+            jobTypeSummary: whatIf.affectedJobTypes
+              .map((ajt, i) => `${jobTypes[i]?.code ?? "?"} ${ajt.reductionPercent}%`)
+              .join(", "),
+          };
+        })
+    );
+  },
+});
+
+/**
+ * Compare what-if scenarios (and optionally existing strike scenarios,
+ * planned from their current definition) side by side: positions,
+ * eligible supply and projected fill rate per service/date.
+ * Nothing is written to scenario_positions.
+ */
+export const compare = query({
+  args: {
+    whatIfIds: v.array(v.id("scenario_what_ifs")),
+    scenarioIds: v.optional(v.array(v.id("strike_scenarios"))),
+  },
+  handler: async (ctx, args) => {
+    const items: { kind: "whatIf" | "scenario"; id: string; name: string; definition: ScenarioDefinition }[] = [];
+
+    for (const whatIfId of args.whatIfIds) {
+      const whatIf = await ctx.db.get(whatIfId);
+      if (!whatIf) throw new Error("What-if scenario not found");
+      items.push({ kind: "whatIf", id: whatIf._id, name: whatIf.name, definition: whatIf });
+    }
+    for (const scenarioId of args.scenarioIds ?? []) {
+      const scenario = await ctx.db.get(scenarioId);
+      if (!scenario) throw new Error("Scenario not found");
+      items.push({ kind: "scenario", id: scenario._id, name: scenario.name, definition: scenario });
+    }
+
+    // One provider pool per health system, one availability load for every date
+    const pools = new Map<string, SupplyProvider[]>();
+    for (const { definition } of items) {
+      const key = definition.healthSystemId.toString();
+      if (pools.has(key)) continue;
+      await requireHealthSystemAccess(ctx, definition.healthSystemId);
+      pools.set(key, await loadSupplyPool(ctx, definition.healthSystemId));
+    }
+
+    const allDates = new Set<string>();
+    for (const { definition } of items) {
+      getDateRange(definition.startDate, definition.endDate).forEach((date) => allDates.add(date));
+    }
+    const availabilityOf = await loadAvailabilityByDate(ctx, Array.from(allDates));
+
+    return await Promise.all(
+      items.map(async ({ kind, id, name, definition }) => {
+        const [hospital, jobTypes] = await Promise.all([
+          definition.hospitalId ? ctx.db.get(definition.hospitalId) : null,
+          Promise.all(definition.affectedJobTypes.map((ajt) => ctx.db.get(ajt.jobTypeId))),
+        ]);
+
+        return {
+          kind,
+          id,
+          name,
+          startDate: definition.startDate,
+          endDate: definition.endDate,
+          hospitalName: hospital?.name ?? null,
+          jobTypeSummary: definition.affectedJobTypes
+            .map((ajt, i) => `${jobTypes[i]?.code ?? "?"} ${ajt.reductionPercent}%`)
+            .join(", "),
+          ...(await evaluateDefinition(
+            ctx,
+            definition,
+            pools.get(definition.healthSystemId.toString())!,
+            availabilityOf
+          )),
+        };
+      })
+    );
+  },
+});
+
+// ═══════════════════════════════════════════════════════════════════
+// MUTATIONS
+// ═══════════════════════════════════════════════════════════════════
+
+export const create = mutation({
+  args: {
+    healthSystemId: v.id("health_systems"),
+    hospitalId: v.optional(v.id("hospitals")),
+    name: v.string(),
+    description: v.optional(v.string()),
+    startDate: v.string(),
+    endDate: v.string(),
+    affectedJobTypes: affectedJobTypesValidator,
+    positionSource: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireHealthSystemAccess(ctx, args.healthSystemId);
+    validateDefinition(args);
+
+    const whatIfId = await ctx.db.insert("scenario_what_ifs", {
+      ...args,
+      name: args.name.trim(),
+      createdBy: user._id,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    await auditLog(ctx, user, "CREATE", "WHAT_IF_SCENARIO", whatIfId, {
+      name: args.name,
+      startDate: args.startDate,
+      endDate: args.endDate,
+    });
+
+    return whatIfId;
+  },
+});
+
+export const update = mutation({
+  args: {
+    whatIfId: v.id("scenario_what_ifs"),
+    hospitalId: v.optional(v.id("hospitals")),
+    name: v.string(),
+    description: v.optional(v.string()),
+    startDate: v.string(),
+    endDate: v.string(),
+    affectedJobTypes: affectedJobTypesValidator,
+    positionSource: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const whatIf = await ctx.db.get(args.whatIfId);
+    if (!whatIf) throw new Error("What-if scenario not found");
+
+    const user = await requireHealthSystemAccess(ctx, whatIf.healthSystemId);
+    validateDefinition(args);
+
+    const { whatIfId, ...fields } = args;
+    await ctx.db.patch(whatIfId, { ...fields, name: args.name.trim(), updatedAt: Date.now() });
+
+    await auditLog(ctx, user, "UPDATE", "WHAT_IF_SCENARIO", whatIfId, {
+      before: { startDate: whatIf.startDate, endDate: whatIf.endDate, affectedJobTypes: whatIf.affectedJobTypes },
+      after: { startDate: args.startDate, endDate: args.endDate, affectedJobTypes: args.affectedJobTypes },
+    });
+
+    return { success: true };
+  },
+});
+
+export const remove = mutation({
+  args: { whatIfId: v.id("scenario_what_ifs") },
+  handler: async (ctx, args) => {
+    const whatIf = await ctx.db.get(args.whatIfId);
+    if (!whatIf) throw new Error("What-if scenario not found");
+
+    const user = await requireHealthSystemAccess(ctx, whatIf.healthSystemId);
+    await ctx.db.delete(args.whatIfId);
+
+    await auditLog(ctx, user, "DELETE", "WHAT_IF_SCENARIO", args.whatIfId, { name: whatIf.name });
+
+    return { success: true };
+  },
+});
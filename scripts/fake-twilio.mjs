@@ -0,0 +1,169 @@
+#!/usr/bin/env node
+/**
+ * Local fake Twilio endpoint for testing SMS campaigns without sending real texts
+ *
+ * Usage:
+ *   CONVEX_SITE_URL=http://127.0.0.1:3211 TWILIO_AUTH_TOKEN=<same as Convex> node scripts/fake-twilio.mjs
+ *   npx convex env set TWILIO_API_BASE_URL http://127.0.0.1:4010
+ *   (TWILIO_ACCOUNT_SID / TWILIO_AUTH_TOKEN / TWILIO_PHONE_NUMBER can be any values,
+ *   but the auth token must match so webhook signatures verify)
+ *
+ * Endpoints:
+ *   POST   /2010-04-01/Accounts/:sid/Messages.json   Twilio send API (records the message)
+ *   GET    /messages                                  Everything sent so far
+ *   DELETE /messages                                  Clear recorded messages
+ *   POST   /reply  {"from": "+15551234567", "body": "YES", "sid": "SM..."}
+ *          Simulates a provider reply by calling the Convex /twilio/sms webhook
+ *          (pass the same sid twice to simulate a Twilio retry)
+ *   POST   /fail-next  {"count": 1}                   Make the next N sends return a Twilio error
+ *   POST   /undeliver-next  {"count": 1, "errorCode": "30003"}
+ *          Accept the next N sends but report them undelivered on the status callback
+ *
+ * Sends that include a StatusCallback get a signed "delivered" (or "undelivered") callback
+ */
+
+import crypto from "node:crypto";
+import http from "node:http";
+
+const PORT = Number(process.env.FAKE_TWILIO_PORT || 4010);
+const CONVEX_SITE_URL = process.env.CONVEX_SITE_URL || "http://127.0.0.1:3211";
+const OUR_NUMBER = process.env.TWILIO_PHONE_NUMBER || "+15550000000";
+const AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN || "";
+
+let messages = [];
+let failNext = 0;
+let undeliverNext = 0;
+let undeliverErrorCode = "30003";
+let counter = 0;
+
+// Same scheme as Twilio: HMAC-SHA1 over the URL plus sorted POST params
+const sign = (url, params) => {
+  const data =
+    url +
+    [...params.entries()]
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, value]) => key + value)
+      .join("");
+  return crypto.createHmac("sha1", AUTH_TOKEN).update(data).digest("base64");
+};
+
+const postSigned = (url, params) =>
+  fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      "X-Twilio-Signature": sign(url, params),
+    },
+    body: params,
+  });
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => resolve(data));
+    req.on("error", reject);
+  });
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body, null, 2));
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  try {
+    // Twilio send API
+    if (req.method === "POST" && /^\/2010-04-01\/Accounts\/[^/]+\/Messages\.json$/.test(url.pathname)) {
+      const form = new URLSearchParams(await readBody(req));
+
+      if (failNext > 0) {
+        failNext--;
+        return sendJson(res, 400, { code: 21211, message: "Fake Twilio: simulated send failure", status: 400 });
+      }
+
+      const sid = `SM${String(++counter).padStart(32, "0")}`;
+      const message = {
+        sid,
+        to: form.get("To"),
+        from: form.get("From"),
+        body: form.get("Body"),
+        status: "queued",
+        date_created: new Date().toISOString(),
+      };
+      messages.push(message);
+      console.log(`→ ${message.to}: ${message.body}`);
+      sendJson(res, 201, message);
+
+      const statusCallback = form.get("StatusCallback");
+      if (statusCallback) {
+        const params = new URLSearchParams({ MessageSid: sid, MessageStatus: "delivered" });
+        if (undeliverNext > 0) {
+          undeliverNext--;
+          params.set("MessageStatus", "undelivered");
+          params.set("ErrorCode", undeliverErrorCode);
+        }
+        message.status = params.get("MessageStatus");
+        setTimeout(() => {
+          postSigned(statusCallback, params).catch((error) =>
+            console.error(`Status callback failed: ${error.message}`)
+          );
+        }, 500);
+      }
+      return;
+    }
+
+    if (url.pathname === "/messages" && req.method === "GET") {
+      return sendJson(res, 200, messages);
+    }
+
+    if (url.pathname === "/messages" && req.method === "DELETE") {
+      messages = [];
+      return sendJson(res, 200, { cleared: true });
+    }
+
+    if (url.pathname === "/fail-next" && req.method === "POST") {
+      const { count = 1 } = JSON.parse((await readBody(req)) || "{}");
+      failNext = count;
+      return sendJson(res, 200, { failNext });
+    }
+
+    if (url.pathname === "/undeliver-next" && req.method === "POST") {
+      const { count = 1, errorCode = "30003" } = JSON.parse((await readBody(req)) || "{}");
+      undeliverNext = count;
+      undeliverErrorCode = String(errorCode);
+      return sendJson(res, 200, { undeliverNext, errorCode: undeliverErrorCode });
+    }
+
+    // Simulated inbound reply → Convex webhook
+    if (url.pathname === "/reply" && req.method === "POST") {
+      const { from, body, sid } = JSON.parse(await readBody(req));
+      const response = await postSigned(
+        `${CONVEX_SITE_URL}/twilio/sms`,
+        new URLSearchParams({
+          From: from,
+          To: OUR_NUMBER,
+          Body: body,
+          MessageSid: sid || `SM${String(++counter).padStart(32, "0")}`,
+        })
+      );
+      const twiml = await response.text();
+      console.log(`← ${from}: ${body}`);
+      res.writeHead(response.status, { "Content-Type": "text/xml" });
+      return res.end(twiml);
+    }
+
+    sendJson(res, 404, { message: "Not found" });
+  } catch (error) {
+    sendJson(res, 500, { message: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Fake Twilio listening on http://127.0.0.1:${PORT}`);
+  console.log(`Inbound replies are forwarded to ${CONVEX_SITE_URL}/twilio/sms`);
+  if (!AUTH_TOKEN) {
+    console.warn("TWILIO_AUTH_TOKEN is not set - Convex will reject unsigned webhooks");
+  }
+});
@@ -38,6 +38,7 @@ export default function ClaimPage() {
   const myAssignments = useQuery(api.claimTokens.getMyAssignments, { token });
   const claimPositions = useMutation(api.claimTokens.claimPositions);
   const unclaimPosition = useMutation(api.claimTokens.unclaimPosition);
+  const confirmAssignment = useMutation(api.claimTokens.confirmAssignment);
 
   const handleTogglePosition = (positionId: string) => {
     setSelectedPositions((prev) => {
@@ -104,6 +105,14 @@ export default function ClaimPage() {
     }
   };
 
+  const handleConfirm = async (assignmentId: Id<"scenario_assignments">) => {
+    try {
+      await confirmAssignment({ token, assignmentId });
+    } catch (error: any) {
+      alert(error.message || "Failed to confirm shift");
+    }
+  };
+
   // Format date for display
   const formatDate = (dateStr: string) => {
     try {
@@ -175,6 +184,31 @@ export default function ClaimPage() {
           </div>
         </div>
 
+        {/* Credential Notices */}
+        {data.credentialNotices.length > 0 && (
+          <div className="bg-amber-500/10 border border-amber-500/30 rounded-lg p-4 mb-6">
+            <h3 className="font-medium text-amber-300 mb-2">Credentials needing attention</h3>
+            <ul className="text-sm text-amber-200/90 space-y-1">
+              {data.credentialNotices.map((notice, i) => (
+                <li key={i}>
+                  <span className="font-medium">{notice.skillName}</span>
+                  {notice.verificationStatus === "rejected"
+                    ? " was rejected"
+                    : notice.verificationStatus === "pending"
+                    ? " is awaiting verification"
+                    : ""}
+                  {notice.expiresDate &&
+                    `${notice.verificationStatus === "verified" ? "" : " and"} expires ${formatDate(notice.expiresDate)}`}
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-amber-300/70 mt-2">
+              Shifts that require an expired or rejected credential can&apos;t be claimed. Contact your coordinator to
+              update your records.
+            </p>
+          </div>
+        )}
+
         {/* Stats Cards */}
         <div className="grid grid-cols-3 gap-4 mb-6">
           <div className="bg-slate-800 rounded-lg p-4 text-center">
@@ -250,12 +284,26 @@ export default function ClaimPage() {
                       {assignment.serviceName} @ {assignment.hospitalName}
                     </div>
                   </div>
-                  <button
-                    onClick={() => handleUnclaim(assignment.assignmentId)}
-                    className="px-3 py-1 text-sm bg-red-500/20 text-red-400 hover:bg-red-500/30 rounded transition-colors"
-                  >
-                    Cancel
-                  </button>
+                  <div className="flex items-center gap-2">
+                    {assignment.status === "Active" ? (
+                      <button
+                        onClick={() => handleConfirm(assignment.assignmentId)}
+                        className="px-3 py-1 text-sm bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30 rounded transition-colors"
+                      >
+                        Confirm
+                      </button>
+                    ) : (
+                      <span className="px-2 py-0.5 text-xs bg-emerald-500/20 text-emerald-300 rounded">
+                        Confirmed
+                      </span>
+                    )}
+                    <button
+                      onClick={() => handleUnclaim(assignment.assignmentId)}
+                      className="px-3 py-1 text-sm bg-red-500/20 text-red-400 hover:bg-red-500/30 rounded transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
                 </div>
               ))}
             </div>
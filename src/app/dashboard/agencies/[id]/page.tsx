@@ -0,0 +1,407 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../../../convex/_generated/api";
+import { useParams } from "next/navigation";
+import { toast } from "sonner";
+import Link from "next/link";
+import { Id } from "../../../../../convex/_generated/dataModel";
+import RosterImport from "@/components/agencies/RosterImport";
+
+const ONBOARDING_COLORS: Record<string, string> = {
+  pending: "bg-slate-600",
+  in_progress: "bg-blue-600",
+  cleared: "bg-emerald-600",
+  offboarded: "bg-red-600",
+};
+
+const VERIFICATION_COLORS: Record<string, string> = {
+  pending: "text-yellow-400",
+  verified: "text-emerald-400",
+  rejected: "text-red-400",
+};
+
+const emptyDocument = {
+  documentType: "",
+  documentNumber: "",
+  issuingState: "",
+  issuedDate: "",
+  expiresDate: "",
+};
+
+export default function AgencyVendorPage() {
+  const params = useParams();
+  const vendorId = params.id as Id<"agency_vendors">;
+
+  const data = useQuery(api.agencyVendors.get, { vendorId });
+  const setOnboardingStatus = useMutation(api.agencyVendors.setOnboardingStatus);
+  const generateUploadUrl = useMutation(api.agencyVendors.generateUploadUrl);
+  const addDocument = useMutation(api.agencyVendors.addDocument);
+  const verifyDocument = useMutation(api.agencyVendors.verifyDocument);
+  const removeDocument = useMutation(api.agencyVendors.removeDocument);
+
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [expandedWorkerId, setExpandedWorkerId] = useState<Id<"providers"> | null>(null);
+  const [documentForm, setDocumentForm] = useState(emptyDocument);
+  const [documentFile, setDocumentFile] = useState<File | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  if (data === undefined) {
+    return <div className="p-8 text-slate-400">Loading...</div>;
+  }
+  if (data === null) {
+    return <div className="p-8 text-slate-400">Vendor not found</div>;
+  }
+
+  const { vendor, roster } = data;
+
+  const handleOnboardingChange = async (worker: (typeof roster)[number], onboardingStatus: string) => {
+    if (onboardingStatus === "offboarded" && !confirm(`Offboard ${worker.firstName} ${worker.lastName}?`)) return;
+    try {
+      await setOnboardingStatus({
+        providerId: worker._id,
+        onboardingStatus,
+        contractRate: worker.contractRate,
+      });
+      toast.success("Onboarding status updated");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleAddDocument = async (providerId: Id<"providers">) => {
+    if (!documentForm.documentType) {
+      toast.error("Choose a document type");
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      let storageId: Id<"_storage"> | undefined;
+      if (documentFile) {
+        const uploadUrl = await generateUploadUrl({ vendorId });
+        const response = await fetch(uploadUrl, {
+          method: "POST",
+          headers: { "Content-Type": documentFile.type },
+          body: documentFile,
+        });
+        if (!response.ok) throw new Error("Upload failed");
+        storageId = (await response.json()).storageId;
+      }
+
+      await addDocument({
+        providerId,
+        documentType: documentForm.documentType,
+        documentNumber: documentForm.documentNumber || undefined,
+        issuingState: documentForm.issuingState || undefined,
+        issuedDate: documentForm.issuedDate || undefined,
+        expiresDate: documentForm.expiresDate || undefined,
+        storageId,
+        fileName: documentFile?.name,
+      });
+      toast.success("Document added - verify it to count toward clearance");
+      setDocumentForm(emptyDocument);
+      setDocumentFile(null);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleVerify = async (documentId: Id<"agency_credential_documents">, status: "verified" | "rejected") => {
+    try {
+      const result = await verifyDocument({ documentId, verificationStatus: status });
+      toast.success(
+        status === "verified"
+          ? `Document verified${result.credentialsValidUntil ? ` - credentials valid until ${result.credentialsValidUntil}` : ""}`
+          : "Document rejected"
+      );
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleRemove = async (documentId: Id<"agency_credential_documents">) => {
+    if (!confirm("Remove this document?")) return;
+    try {
+      await removeDocument({ documentId });
+      toast.success("Document removed");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-sm focus:outline-none focus:border-emerald-500";
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <Link href="/dashboard/agencies" className="text-slate-400 hover:text-white text-sm mb-2 inline-block">
+              &larr; Back to Agency Staff
+            </Link>
+            <h1 className="text-3xl font-bold">
+              {vendor.name}
+              {!vendor.isActive && <span className="ml-3 text-sm px-2 py-1 rounded bg-red-600 align-middle">Inactive</span>}
+            </h1>
+            <p className="text-slate-400 mt-1">
+              {vendor.contractRate !== undefined ? `$${vendor.contractRate}/hr` : "No contract rate"}
+              {vendor.minimumShiftHours ? ` · ${vendor.minimumShiftHours}h minimum per shift` : ""}
+              {vendor.minimumShiftsPerWeek ? ` · ${vendor.minimumShiftsPerWeek} shifts/week guaranteed` : ""}
+              {data.defaultHospitalName
+                ? ` · default placement ${data.defaultHospitalName}${data.defaultDepartmentName ? ` / ${data.defaultDepartmentName}` : ""}`
+                : ""}
+            </p>
+          </div>
+          <button
+            onClick={() => setIsImportOpen(true)}
+            disabled={!vendor.isActive}
+            className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 rounded-lg transition-colors"
+          >
+            Import Roster
+          </button>
+        </div>
+
+        <div className="bg-slate-800 rounded-lg overflow-hidden">
+          {roster.length === 0 ? (
+            <div className="p-8 text-center text-slate-400">No workers yet - import the vendor&apos;s roster</div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-slate-700/50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-300">Worker</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-300">Placement</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-slate-300">Rate</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-300">Onboarding</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-300">Credentials</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-slate-300">Documents</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700">
+                {roster.map((worker) => (
+                  <Fragment key={worker._id}>
+                    <tr className="hover:bg-slate-700/50">
+                      <td className="px-4 py-3">
+                        <div className="font-medium">
+                          {worker.lastName}, {worker.firstName}
+                          <span className="ml-2 text-xs text-slate-400">{worker.jobTypeCode}</span>
+                        </div>
+                        <div className="text-xs text-slate-500">{worker.email}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-slate-300">
+                        {worker.hospitalShortCode} &middot; {worker.departmentName}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        {worker.effectiveRate !== null ? `$${worker.effectiveRate}` : "-"}
+                        {worker.contractRate !== undefined && (
+                          <div className="text-xs text-slate-500">own rate</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <select
+                          value={worker.onboardingStatus ?? "pending"}
+                          onChange={(e) => handleOnboardingChange(worker, e.target.value)}
+                          className={`px-2 py-1 rounded text-xs border-0 focus:outline-none ${
+                            ONBOARDING_COLORS[worker.onboardingStatus ?? "pending"]
+                          }`}
+                        >
+                          {data.onboardingStatuses.map((status) => (
+                            <option key={status} value={status}>
+                              {status.replace("_", " ")}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {worker.ineligibleReason ? (
+                          <span className="text-red-400">{worker.ineligibleReason}</span>
+                        ) : (
+                          <span className="text-emerald-400">
+                            Matchable
+                            {worker.credentialsValidUntil ? ` until ${worker.credentialsValidUntil}` : ""}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right text-sm">
+                        <button
+                          onClick={() => {
+                            setExpandedWorkerId(expandedWorkerId === worker._id ? null : worker._id);
+                            setDocumentForm(emptyDocument);
+                            setDocumentFile(null);
+                          }}
+                          className="text-blue-400 hover:text-blue-300"
+                        >
+                          {worker.documents.length} document{worker.documents.length === 1 ? "" : "s"}
+                          {worker.documents.some((d) => d.verificationStatus === "pending") && (
+                            <span className="ml-1 text-yellow-400">&bull;</span>
+                          )}
+                        </button>
+                      </td>
+                    </tr>
+                    {expandedWorkerId === worker._id && (
+                      <tr>
+                        <td colSpan={6} className="px-4 py-4 bg-slate-900/40">
+                          {worker.documents.length > 0 && (
+                            <table className="w-full text-sm mb-4">
+                              <thead>
+                                <tr className="text-slate-400">
+                                  <th className="text-left py-1">Document</th>
+                                  <th className="text-left py-1">Number</th>
+                                  <th className="text-left py-1">Issued</th>
+                                  <th className="text-left py-1">Expires</th>
+                                  <th className="text-left py-1">Status</th>
+                                  <th className="text-right py-1"></th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {worker.documents.map((doc) => (
+                                  <tr key={doc._id}>
+                                    <td className="py-1">
+                                      {doc.url ? (
+                                        <a href={doc.url} target="_blank" rel="noreferrer" className="hover:text-emerald-400">
+                                          {doc.documentType}
+                                        </a>
+                                      ) : (
+                                        doc.documentType
+                                      )}
+                                    </td>
+                                    <td className="py-1 text-slate-300">
+                                      {doc.documentNumber ?? "-"}
+                                      {doc.issuingState ? ` (${doc.issuingState})` : ""}
+                                    </td>
+                                    <td className="py-1 text-slate-300">{doc.issuedDate ?? "-"}</td>
+                                    <td className="py-1 text-slate-300">{doc.expiresDate ?? "No expiry"}</td>
+                                    <td className={`py-1 capitalize ${VERIFICATION_COLORS[doc.verificationStatus]}`}>
+                                      {doc.verificationStatus}
+                                    </td>
+                                    <td className="py-1 text-right">
+                                      {doc.verificationStatus !== "verified" && (
+                                        <button
+                                          onClick={() => handleVerify(doc._id, "verified")}
+                                          className="text-emerald-400 hover:text-emerald-300 mr-3"
+                                        >
+                                          Verify
+                                        </button>
+                                      )}
+                                      {doc.verificationStatus !== "rejected" && (
+                                        <button
+                                          onClick={() => handleVerify(doc._id, "rejected")}
+                                          className="text-orange-400 hover:text-orange-300 mr-3"
+                                        >
+                                          Reject
+                                        </button>
+                                      )}
+                                      <button
+                                        onClick={() => handleRemove(doc._id)}
+                                        className="text-red-400 hover:text-red-300"
+                                      >
+                                        Remove
+                                      </button>
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+
+                          <div className="grid grid-cols-7 gap-2 items-end">
+                            <div>
+                              <label className="block text-xs text-slate-400 mb-1">Type</label>
+                              <select
+                                value={documentForm.documentType}
+                                onChange={(e) => setDocumentForm({ ...documentForm, documentType: e.target.value })}
+                                className={inputClass}
+                              >
+                                <option value="">Choose...</option>
+                                {data.documentTypes.map((type) => (
+                                  <option key={type} value={type}>
+                                    {type}
+                                  </option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <label className="block text-xs text-slate-400 mb-1">Number</label>
+                              <input
+                                type="text"
+                                value={documentForm.documentNumber}
+                                onChange={(e) => setDocumentForm({ ...documentForm, documentNumber: e.target.value })}
+                                className={inputClass}
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs text-slate-400 mb-1">State</label>
+                              <input
+                                type="text"
+                                maxLength={2}
+                                value={documentForm.issuingState}
+                                onChange={(e) => setDocumentForm({ ...documentForm, issuingState: e.target.value })}
+                                className={inputClass}
+                                placeholder="NY"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs text-slate-400 mb-1">Issued</label>
+                              <input
+                                type="date"
+                                value={documentForm.issuedDate}
+                                onChange={(e) => setDocumentForm({ ...documentForm, issuedDate: e.target.value })}
+                                className={inputClass}
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs text-slate-400 mb-1">Expires</label>
+                              <input
+                                type="date"
+                                value={documentForm.expiresDate}
+                                onChange={(e) => setDocumentForm({ ...documentForm, expiresDate: e.target.value })}
+                                className={inputClass}
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs text-slate-400 mb-1">Scan</label>
+                              <input
+                                type="file"
+                                accept=".pdf,image/*"
+                                onChange={(e) => setDocumentFile(e.target.files?.[0] ?? null)}
+                                className="w-full text-xs text-slate-400"
+                              />
+                            </div>
+                            <button
+                              onClick={() => handleAddDocument(worker._id)}
+                              disabled={isUploading}
+                              className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 rounded-lg text-sm transition-colors"
+                            >
+                              {isUploading ? "Uploading..." : "Add Document"}
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <p className="text-xs text-slate-500 mt-4">
+          Workers take part in scenario matching once cleared, until their earliest verified credential expires.
+        </p>
+      </div>
+
+      <RosterImport
+        vendorId={vendorId}
+        vendorName={vendor.name}
+        hasDefaultPlacement={!!vendor.defaultDepartmentId}
+        existingEmails={roster.map((w) => w.email ?? "").filter(Boolean)}
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,501 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../../convex/_generated/api";
+import { toast } from "sonner";
+import Link from "next/link";
+import { Id } from "../../../../convex/_generated/dataModel";
+
+const MATCH_PRIORITIES = [
+  { value: "before_internal", label: "Before internal staff" },
+  { value: "equal", label: "Equal to internal staff" },
+  { value: "after_internal", label: "After internal staff" },
+];
+
+const emptyForm = {
+  name: "",
+  contactName: "",
+  contactEmail: "",
+  contactPhone: "",
+  contractRate: "",
+  minimumShiftHours: "",
+  minimumShiftsPerWeek: "",
+  matchPriority: "after_internal",
+  defaultHospitalId: "",
+  defaultDepartmentId: "",
+};
+
+const toNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+
+export default function AgenciesPage() {
+  const currentUser = useQuery(api.users.getCurrentUser);
+  const healthSystems = useQuery(api.healthSystems.list);
+  const [selectedHealthSystemId, setSelectedHealthSystemId] = useState("");
+
+  const healthSystemId = (currentUser?.healthSystemId ??
+    (selectedHealthSystemId ||
+      (healthSystems && healthSystems.length > 0 ? healthSystems[0]._id : undefined))) as
+    | Id<"health_systems">
+    | undefined;
+
+  const today = new Date().toISOString().split("T")[0];
+  const monthAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+  const [range, setRange] = useState({ startDate: monthAgo, endDate: today });
+
+  const vendors = useQuery(api.agencyVendors.list, healthSystemId ? { healthSystemId } : "skip");
+  const report = useQuery(
+    api.agencyVendors.utilization,
+    healthSystemId && range.startDate && range.endDate && range.startDate <= range.endDate
+      ? { healthSystemId, ...range }
+      : "skip"
+  );
+  const hospitals = useQuery(api.hospitals.list, healthSystemId ? { healthSystemId } : "skip");
+
+  const createVendor = useMutation(api.agencyVendors.create);
+  const updateVendor = useMutation(api.agencyVendors.update);
+  const toggleActive = useMutation(api.agencyVendors.toggleActive);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingVendorId, setEditingVendorId] = useState<Id<"agency_vendors"> | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const departments = useQuery(
+    api.departments.list,
+    formData.defaultHospitalId ? { hospitalId: formData.defaultHospitalId as Id<"hospitals"> } : "skip"
+  );
+
+  const openCreate = () => {
+    setFormData(emptyForm);
+    setEditingVendorId(null);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (vendor: NonNullable<typeof vendors>[number]) => {
+    setFormData({
+      name: vendor.name,
+      contactName: vendor.contactName ?? "",
+      contactEmail: vendor.contactEmail ?? "",
+      contactPhone: vendor.contactPhone ?? "",
+      contractRate: vendor.contractRate?.toString() ?? "",
+      minimumShiftHours: vendor.minimumShiftHours?.toString() ?? "",
+      minimumShiftsPerWeek: vendor.minimumShiftsPerWeek?.toString() ?? "",
+      matchPriority: vendor.matchPriority ?? "after_internal",
+      defaultHospitalId: vendor.defaultHospitalId ?? "",
+      defaultDepartmentId: vendor.defaultDepartmentId ?? "",
+    });
+    setEditingVendorId(vendor._id);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!healthSystemId) return;
+
+    const fields = {
+      name: formData.name,
+      contactName: formData.contactName || undefined,
+      contactEmail: formData.contactEmail || undefined,
+      contactPhone: formData.contactPhone || undefined,
+      contractRate: toNumber(formData.contractRate),
+      minimumShiftHours: toNumber(formData.minimumShiftHours),
+      minimumShiftsPerWeek: toNumber(formData.minimumShiftsPerWeek),
+      matchPriority: formData.matchPriority,
+      defaultHospitalId: (formData.defaultHospitalId || undefined) as Id<"hospitals"> | undefined,
+      defaultDepartmentId: (formData.defaultDepartmentId || undefined) as Id<"departments"> | undefined,
+    };
+
+    try {
+      if (editingVendorId) {
+        await updateVendor({ vendorId: editingVendorId, ...fields });
+        toast.success("Vendor updated");
+      } else {
+        await createVendor({ healthSystemId, ...fields });
+        toast.success(`Vendor "${formData.name}" created`);
+      }
+      setIsFormOpen(false);
+      setEditingVendorId(null);
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleToggleActive = async (vendorId: Id<"agency_vendors">, name: string, isActive: boolean) => {
+    if (isActive && !confirm(`Deactivate ${name}? Their workers will be deactivated and drop out of matching.`)) {
+      return;
+    }
+    try {
+      const result = await toggleActive({ vendorId });
+      toast.success(result.isActive ? "Vendor activated" : "Vendor and workers deactivated");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const inputClass =
+    "w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:border-emerald-500";
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <Link href="/dashboard" className="text-slate-400 hover:text-white text-sm mb-2 inline-block">
+              &larr; Back to Dashboard
+            </Link>
+            <h1 className="text-3xl font-bold">Agency Staff</h1>
+            <p className="text-slate-400 mt-1">
+              Staffing vendors, their contract terms and where their workers rank in scenario matching
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {!currentUser?.healthSystemId && healthSystems && healthSystems.length > 1 && (
+              <select
+                value={healthSystemId ?? ""}
+                onChange={(e) => setSelectedHealthSystemId(e.target.value)}
+                className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-emerald-500"
+              >
+                {healthSystems.map((hs) => (
+                  <option key={hs._id} value={hs._id}>
+                    {hs.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={openCreate}
+              disabled={!healthSystemId}
+              className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 rounded-lg transition-colors"
+            >
+              + Add Vendor
+            </button>
+          </div>
+        </div>
+
+        {/* Vendor Form */}
+        {isFormOpen && (
+          <div className="bg-slate-800 rounded-lg p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-4">{editingVendorId ? "Edit Vendor" : "New Vendor"}</h2>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-slate-400 mb-1">Vendor Name</label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className={inputClass}
+                    placeholder="e.g., Cross Country Nurses"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm text-slate-400 mb-1">Matching Priority</label>
+                  <select
+                    value={formData.matchPriority}
+                    onChange={(e) => setFormData({ ...formData, matchPriority: e.target.value })}
+                    className={inputClass}
+                  >
+                    {MATCH_PRIORITIES.map((p) => (
+                      <option key={p.value} value={p.value}>
+                        {p.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-slate-400 mb-1">Contact Name</label>
+                  <input
+                    type="text"
+                    value={formData.contactName}
+                    onChange={(e) => setFormData({ ...formData, contactName: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-sm text-slate-400 mb-1">Contact Email</label>
+                    <input
+                      type="email"
+                      value={formData.contactEmail}
+                      onChange={(e) => setFormData({ ...formData, contactEmail: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm text-slate-400 mb-1">Contact Phone</label>
+                    <input
+                      type="tel"
+                      value={formData.contactPhone}
+                      onChange={(e) => setFormData({ ...formData, contactPhone: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm text-slate-400 mb-1">Contract Rate ($/hr)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={formData.contractRate}
+                    onChange={(e) => setFormData({ ...formData, contractRate: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm text-slate-400 mb-1">Minimum Hours per Shift</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={formData.minimumShiftHours}
+                    onChange={(e) => setFormData({ ...formData, minimumShiftHours: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm text-slate-400 mb-1">Guaranteed Shifts per Week</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={formData.minimumShiftsPerWeek}
+                    onChange={(e) => setFormData({ ...formData, minimumShiftsPerWeek: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-slate-400 mb-1">Default Hospital</label>
+                  <select
+                    value={formData.defaultHospitalId}
+                    onChange={(e) =>
+                      setFormData({ ...formData, defaultHospitalId: e.target.value, defaultDepartmentId: "" })
+                    }
+                    className={inputClass}
+                  >
+                    <option value="">None</option>
+                    {hospitals?.map((h) => (
+                      <option key={h._id} value={h._id}>
+                        {h.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm text-slate-400 mb-1">Default Department</label>
+                  <select
+                    value={formData.defaultDepartmentId}
+                    onChange={(e) => setFormData({ ...formData, defaultDepartmentId: e.target.value })}
+                    disabled={!formData.defaultHospitalId}
+                    className={`${inputClass} disabled:opacity-50`}
+                  >
+                    <option value="">None</option>
+                    {departments?.map((d) => (
+                      <option key={d._id} value={d._id}>
+                        {d.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-slate-500 mt-1">Placement for imported workers without a home site</p>
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors"
+                >
+                  {editingVendorId ? "Save Vendor" : "Create Vendor"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setIsFormOpen(false)}
+                  className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {/* Vendors */}
+        <div className="bg-slate-800 rounded-lg overflow-hidden mb-8">
+          {vendors === undefined ? (
+            <div className="p-6 text-slate-400">Loading...</div>
+          ) : vendors.length === 0 ? (
+            <div className="p-8 text-center text-slate-400">No agency vendors yet</div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-slate-700/50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-300">Vendor</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-300">Contract</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-slate-300">Priority</th>
+                  <th className="px-4 py-3 text-center text-sm font-medium text-slate-300">Cleared / Workers</th>
+                  <th className="px-4 py-3 text-center text-sm font-medium text-slate-300">Status</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-slate-300">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700">
+                {vendors.map((vendor) => (
+                  <tr key={vendor._id} className="hover:bg-slate-700/50">
+                    <td className="px-4 py-3">
+                      <Link href={`/dashboard/agencies/${vendor._id}`} className="font-medium hover:text-emerald-400">
+                        {vendor.name}
+                      </Link>
+                      {vendor.contactName && <div className="text-xs text-slate-500">{vendor.contactName}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-slate-300">
+                      {vendor.contractRate !== undefined ? `$${vendor.contractRate}/hr` : "No rate"}
+                      {vendor.minimumShiftHours ? ` · ${vendor.minimumShiftHours}h min` : ""}
+                      {vendor.minimumShiftsPerWeek ? ` · ${vendor.minimumShiftsPerWeek} shifts/wk guaranteed` : ""}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-slate-300">
+                      {MATCH_PRIORITIES.find((p) => p.value === (vendor.matchPriority ?? "after_internal"))?.label}
+                    </td>
+                    <td className="px-4 py-3 text-center text-sm">
+                      {vendor.clearedCount} / {vendor.workerCount}
+                    </td>
+                    <td className="px-4 py-3 text-center">
+                      <span className={`px-2 py-1 rounded text-xs ${vendor.isActive ? "bg-emerald-600" : "bg-red-600"}`}>
+                        {vendor.isActive ? "Active" : "Inactive"}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm">
+                      <Link href={`/dashboard/agencies/${vendor._id}`} className="text-emerald-400 hover:text-emerald-300 mr-3">
+                        Roster
+                      </Link>
+                      <button onClick={() => openEdit(vendor)} className="text-blue-400 hover:text-blue-300 mr-3">
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleToggleActive(vendor._id, vendor.name, vendor.isActive)}
+                        className={
+                          vendor.isActive ? "text-red-400 hover:text-red-300" : "text-emerald-400 hover:text-emerald-300"
+                        }
+                      >
+                        {vendor.isActive ? "Deactivate" : "Activate"}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Utilisation Report */}
+        <div className="bg-slate-800 rounded-lg p-6">
+          <div className="flex items-end justify-between mb-4">
+            <div>
+              <h2 className="text-xl font-semibold">Vendor Utilisation</h2>
+              <p className="text-sm text-slate-400">
+                Scenario shifts worked by agency staff, billed at contract rates and minimum shift hours
+              </p>
+            </div>
+            <div className="flex gap-2 items-center text-sm">
+              <input
+                type="date"
+                value={range.startDate}
+                onChange={(e) => setRange({ ...range, startDate: e.target.value })}
+                className="px-3 py-1.5 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:border-emerald-500"
+              />
+              <span className="text-slate-400">to</span>
+              <input
+                type="date"
+                value={range.endDate}
+                onChange={(e) => setRange({ ...range, endDate: e.target.value })}
+                className="px-3 py-1.5 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:border-emerald-500"
+              />
+            </div>
+          </div>
+
+          {report === undefined ? (
+            <div className="text-slate-400">Loading...</div>
+          ) : report.rows.length === 0 ? (
+            <div className="text-slate-400">No vendors to report on</div>
+          ) : (
+            <>
+              <div className="grid grid-cols-4 gap-4 mb-4">
+                <div className="bg-slate-700/50 rounded-lg p-4">
+                  <div className="text-sm text-slate-400">Shifts</div>
+                  <div className="text-2xl font-bold">{report.totals.shifts}</div>
+                </div>
+                <div className="bg-slate-700/50 rounded-lg p-4">
+                  <div className="text-sm text-slate-400">Billable Hours</div>
+                  <div className="text-2xl font-bold">{report.totals.hours}</div>
+                </div>
+                <div className="bg-slate-700/50 rounded-lg p-4">
+                  <div className="text-sm text-slate-400">Cost</div>
+                  <div className="text-2xl font-bold">{formatCurrency(report.totals.cost)}</div>
+                </div>
+                <div className="bg-slate-700/50 rounded-lg p-4">
+                  <div className="text-sm text-slate-400">Unused Guaranteed Shifts</div>
+                  <div
+                    className={`text-2xl font-bold ${report.totals.guaranteeShortfall > 0 ? "text-orange-400" : ""}`}
+                  >
+                    {report.totals.guaranteeShortfall}
+                  </div>
+                </div>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-slate-400 border-b border-slate-700">
+                    <th className="text-left py-2">Vendor</th>
+                    <th className="text-right py-2">Workers Used</th>
+                    <th className="text-right py-2">Shifts</th>
+                    <th className="text-right py-2">Hours</th>
+                    <th className="text-right py-2">Cost</th>
+                    <th className="text-right py-2">Scenarios</th>
+                    <th className="text-right py-2">Guarantee ({report.weeks} wk)</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700">
+                  {report.rows.map((row) => (
+                    <tr key={row.vendorId}>
+                      <td className="py-2">
+                        {row.vendorName}
+                        {!row.isActive && <span className="ml-2 text-xs text-slate-500">(inactive)</span>}
+                      </td>
+                      <td className="py-2 text-right">
+                        {row.workersUsed} / {row.clearedCount}
+                      </td>
+                      <td className="py-2 text-right">{row.shifts}</td>
+                      <td className="py-2 text-right">{row.hours}</td>
+                      <td className="py-2 text-right">
+                        {formatCurrency(row.cost)}
+                        {row.unpricedShifts > 0 && (
+                          <div className="text-xs text-yellow-400">{row.unpricedShifts} shifts without a rate</div>
+                        )}
+                      </td>
+                      <td className="py-2 text-right">{row.scenarioCount}</td>
+                      <td className="py-2 text-right">
+                        {row.guaranteedShifts === 0 ? (
+                          <span className="text-slate-500">None</span>
+                        ) : row.guaranteeShortfall > 0 ? (
+                          <span className="text-orange-400">{row.guaranteeShortfall} unused</span>
+                        ) : (
+                          <span className="text-emerald-400">Met</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
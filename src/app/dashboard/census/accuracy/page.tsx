@@ -0,0 +1,236 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../../../../convex/_generated/api";
+import { Id } from "../../../../../convex/_generated/dataModel";
+import Link from "next/link";
+
+// ═══════════════════════════════════════════════════════════════════
+// CENSUS FORECAST ACCURACY
+// Archived daily unit census and how far each day's forecast was
+// from the census actually observed on the forecast date
+// ═══════════════════════════════════════════════════════════════════
+
+const WINDOWS = [14, 30, 90];
+
+const SELECT_CLASS =
+  "px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-emerald-500";
+
+function maeColor(mae: number | null) {
+  if (mae === null) return "text-slate-500";
+  if (mae <= 1) return "text-emerald-400";
+  if (mae <= 3) return "text-amber-400";
+  return "text-red-400";
+}
+
+function formatMae(mae: number | null) {
+  return mae === null ? "—" : mae.toFixed(2);
+}
+
+export default function CensusAccuracyPage() {
+  const currentUser = useQuery(api.users.getCurrentUser);
+  const hospitals = useQuery(api.hospitals.list, {});
+
+  const [selectedHospitalId, setSelectedHospitalId] = useState<string>("");
+  const [days, setDays] = useState(30);
+
+  const isSuperAdmin = currentUser?.role === "super_admin";
+  const needsHospitalSelection = isSuperAdmin || !currentUser?.hospitalId;
+  const effectiveHospitalId = (selectedHospitalId || currentUser?.hospitalId) as Id<"hospitals"> | undefined;
+
+  const accuracy = useQuery(
+    api.censusArchive.getForecastAccuracy,
+    effectiveHospitalId ? { hospitalId: effectiveHospitalId, days } : "skip"
+  );
+  const archive = useQuery(
+    api.censusArchive.getDailyArchive,
+    effectiveHospitalId ? { hospitalId: effectiveHospitalId, days } : "skip"
+  );
+
+  const availableHospitals = hospitals?.filter((h) => {
+    if (isSuperAdmin) return true;
+    if (currentUser?.healthSystemId) {
+      return h.healthSystemId === currentUser.healthSystemId;
+    }
+    return false;
+  });
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white p-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <Link href="/dashboard/census" className="text-slate-400 hover:text-white text-sm mb-2 inline-block">
+              ← Back to Census
+            </Link>
+            <h1 className="text-3xl font-bold">Forecast Accuracy</h1>
+            <p className="text-slate-400 text-sm mt-1">
+              Projected census vs. census observed in later imports (de-identified daily archive)
+            </p>
+          </div>
+          <div className="flex gap-3 items-center">
+            {needsHospitalSelection && (
+              <select
+                value={selectedHospitalId}
+                onChange={(e) => setSelectedHospitalId(e.target.value)}
+                className={SELECT_CLASS}
+              >
+                <option value="">Select Hospital...</option>
+                {availableHospitals?.map((h) => (
+                  <option key={h._id} value={h._id}>
+                    {h.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select value={days} onChange={(e) => setDays(Number(e.target.value))} className={SELECT_CLASS}>
+              {WINDOWS.map((window) => (
+                <option key={window} value={window}>
+                  Last {window} days
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {!effectiveHospitalId ? (
+          <div className="bg-slate-800 rounded-lg p-8 text-center text-slate-400">
+            Select a hospital to view forecast accuracy
+          </div>
+        ) : !accuracy || !archive ? (
+          <div className="bg-slate-800 rounded-lg p-8 text-center text-slate-400">Loading...</div>
+        ) : (
+          <div className="space-y-6">
+            {/* Summary */}
+            <div className="grid md:grid-cols-3 gap-4">
+              <div className="bg-slate-800 rounded-lg p-4">
+                <div className="text-sm text-slate-400">Overall MAE (patients)</div>
+                <div className={`text-3xl font-bold ${maeColor(accuracy.overall.mae)}`}>
+                  {formatMae(accuracy.overall.mae)}
+                </div>
+              </div>
+              <div className="bg-slate-800 rounded-lg p-4">
+                <div className="text-sm text-slate-400">Bias (forecast − actual)</div>
+                <div className="text-3xl font-bold">
+                  {accuracy.overall.bias === null
+                    ? "—"
+                    : `${accuracy.overall.bias > 0 ? "+" : ""}${accuracy.overall.bias.toFixed(2)}`}
+                </div>
+              </div>
+              <div className="bg-slate-800 rounded-lg p-4">
+                <div className="text-sm text-slate-400">Archived census days</div>
+                <div className="text-3xl font-bold">{accuracy.archivedDays}</div>
+                <div className="text-xs text-slate-500">{accuracy.overall.samples} forecast points scored</div>
+              </div>
+            </div>
+
+            {/* By horizon */}
+            <div className="bg-slate-800 rounded-lg p-6">
+              <h3 className="font-medium mb-4">MAE by Horizon</h3>
+              <div className="grid grid-cols-5 gap-3">
+                {accuracy.byHorizon.map((horizon) => (
+                  <div key={horizon.horizonDay} className="bg-slate-700/50 rounded p-3 text-center">
+                    <div className="text-xs text-slate-400">Day +{horizon.horizonDay}</div>
+                    <div className={`text-xl font-semibold ${maeColor(horizon.mae)}`}>{formatMae(horizon.mae)}</div>
+                    <div className="text-xs text-slate-500">n={horizon.samples}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* By unit */}
+            <div className="bg-slate-800 rounded-lg p-6">
+              <h3 className="font-medium mb-4">MAE by Unit</h3>
+              {accuracy.byUnit.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                  Not enough archived days yet &mdash; a forecast is scored once its target date has been imported
+                </p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-slate-400 text-left">
+                      <th className="pb-2 font-normal">Unit</th>
+                      <th className="pb-2 font-normal text-right">MAE</th>
+                      <th className="pb-2 font-normal text-right">Bias</th>
+                      {accuracy.byHorizon.map((horizon) => (
+                        <th key={horizon.horizonDay} className="pb-2 font-normal text-right">
+                          +{horizon.horizonDay}d
+                        </th>
+                      ))}
+                      <th className="pb-2 font-normal text-right">n</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {accuracy.byUnit.map((unit) => (
+                      <tr key={unit.unitName} className="border-t border-slate-700">
+                        <td className="py-1.5">
+                          {unit.unitName}
+                          {unit.unitType === "icu" && <span className="ml-2 text-xs text-red-400">ICU</span>}
+                        </td>
+                        <td className={`py-1.5 text-right font-medium ${maeColor(unit.mae)}`}>
+                          {formatMae(unit.mae)}
+                        </td>
+                        <td className="py-1.5 text-right text-slate-400">
+                          {unit.bias === null ? "—" : `${unit.bias > 0 ? "+" : ""}${unit.bias.toFixed(2)}`}
+                        </td>
+                        {unit.byHorizon.map((mae, index) => (
+                          <td key={index} className={`py-1.5 text-right ${maeColor(mae)}`}>
+                            {formatMae(mae)}
+                          </td>
+                        ))}
+                        <td className="py-1.5 text-right text-slate-500">{unit.samples}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {/* Daily archive */}
+            <div className="bg-slate-800 rounded-lg p-6">
+              <h3 className="font-medium mb-4">Daily Archive</h3>
+              {archive.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                  No archived census yet &mdash; each import is archived when the next one arrives and nightly
+                </p>
+              ) : (
+                <div className="max-h-[480px] overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead className="sticky top-0 bg-slate-800">
+                      <tr className="text-slate-400 text-left">
+                        <th className="pb-2 font-normal">Date</th>
+                        <th className="pb-2 font-normal">Unit</th>
+                        <th className="pb-2 font-normal text-right">Census</th>
+                        <th className="pb-2 font-normal text-right">Admits</th>
+                        <th className="pb-2 font-normal text-right">Transfers In</th>
+                        <th className="pb-2 font-normal text-right">Discharges</th>
+                        <th className="pb-2 font-normal text-right">Downgrades</th>
+                        <th className="pb-2 font-normal text-right">1:1</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {archive.map((row) => (
+                        <tr key={`${row.date}-${row.unitName}`} className="border-t border-slate-700">
+                          <td className="py-1.5">{row.date}</td>
+                          <td className="py-1.5">{row.unitName}</td>
+                          <td className="py-1.5 text-right font-medium">{row.census}</td>
+                          <td className="py-1.5 text-right text-slate-400">{row.admits}</td>
+                          <td className="py-1.5 text-right text-slate-400">{row.transfersIn}</td>
+                          <td className="py-1.5 text-right text-slate-400">{row.discharges}</td>
+                          <td className="py-1.5 text-right text-slate-400">{row.downgrades}</td>
+                          <td className="py-1.5 text-right text-slate-400">{row.oneToOne}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,16 @@
 "use client";
 
 import { useState } from "react";
-import { useQuery, useAction } from "convex/react";
+import { useQuery, useAction, useMutation } from "convex/react";
 import { api } from "../../../../convex/_generated/api";
 import { Id } from "../../../../convex/_generated/dataModel";
 import Link from "next/link";
 import CensusImport from "@/components/census/CensusImport";
 import CensusForecastChart from "@/components/census/CensusForecastChart";
 import ProcedureImport from "@/components/procedures/ProcedureImport";
+import PredictionJobPanel from "@/components/census/PredictionJobPanel";
+import PatientFlowPanel from "@/components/census/PatientFlowPanel";
+import { toast } from "sonner";
 
 export default function CensusPage() {
   const currentUser = useQuery(api.users.getCurrentUser);
@@ -23,7 +26,7 @@ export default function CensusPage() {
   const [isProcedureImportOpen, setIsProcedureImportOpen] = useState(false);
   const [isClearing, setIsClearing] = useState(false);
 
-  const generatePredictions = useAction(api.censusAI.generatePredictions);
+  const startPredictionJob = useMutation(api.censusAIJobs.start);
   const clearAllCensus = useAction(api.census.clearAllCensus);
 
   const isSuperAdmin = currentUser?.role === "super_admin";
@@ -135,24 +138,11 @@ export default function CensusPage() {
 
     setIsRegenerating(true);
     try {
-      const result = await generatePredictions({ importId: latestImport._id });
-      if (result.errors.length > 0) {
-        console.error("Prediction errors:", result.errors);
-        alert(`Processed ${result.processed} patients with ${result.errors.length} errors:\n${result.errors.slice(0, 3).join('\n')}`);
-      } else {
-        alert(`Successfully regenerated predictions for ${result.processed} patients`);
-      }
+      const result = await startPredictionJob({ importId: latestImport._id, mode: "all" });
+      toast.success(`Queued predictions for ${result.total} patients`);
     } catch (error: unknown) {
       console.error("Failed to regenerate predictions:", error);
-      let errorMessage = "Unknown error";
-      if (error instanceof Error) {
-        errorMessage = error.message;
-      } else if (typeof error === "object" && error !== null) {
-        errorMessage = JSON.stringify(error, null, 2);
-      } else {
-        errorMessage = String(error);
-      }
-      alert(`Failed to regenerate predictions:\n${errorMessage}`);
+      toast.error(error instanceof Error ? error.message : "Failed to regenerate predictions");
     } finally {
       setIsRegenerating(false);
     }
@@ -197,6 +187,18 @@ export default function CensusPage() {
                 ))}
               </select>
             )}
+            <Link
+              href="/dashboard/census/units"
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"
+            >
+              Unit Mappings
+            </Link>
+            <Link
+              href="/dashboard/census/accuracy"
+              className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"
+            >
+              Forecast Accuracy
+            </Link>
             {effectiveHospitalId && latestImport && (
               <button
                 onClick={handleRegeneratePredictions}
@@ -272,6 +274,11 @@ export default function CensusPage() {
           </div>
         </div>
 
+        {/* AI Prediction Job Progress */}
+        {effectiveHospitalId && latestImport && (
+          <PredictionJobPanel importId={latestImport._id} className="mb-8" />
+        )}
+
         {/* No Hospital Selected */}
         {!effectiveHospitalId && (
           <div className="bg-slate-800 rounded-lg p-12 text-center">
@@ -461,7 +468,7 @@ export default function CensusPage() {
                     </div>
                     <div>
                       <h2 className="text-lg font-semibold">Staffing Predictions</h2>
-                      <p className="text-sm text-slate-400">RN needs by unit (Floor 1:5, ICU 1:2, 1:1 devices separate)</p>
+                      <p className="text-sm text-slate-400">RN needs by unit from per-unit ratio tables (default Floor 1:5, ICU 1:2, 1:1 devices separate)</p>
                     </div>
                   </div>
                   {staffingPredictions.totals && (
@@ -501,6 +508,7 @@ export default function CensusPage() {
                               {pred.unitType.toUpperCase()}
                             </span>
                             <span className="text-white text-sm">{pred.unitName}</span>
+                            <span className="text-slate-500 text-xs">1:{pred.ratios.am}</span>
                           </div>
                           <div className="text-right flex items-center gap-3">
                             <span className="text-slate-400 text-xs">{pred.currentPatients} pts</span>
@@ -533,6 +541,7 @@ export default function CensusPage() {
                               {pred.unitType.toUpperCase()}
                             </span>
                             <span className="text-white text-sm">{pred.unitName}</span>
+                            <span className="text-slate-500 text-xs">1:{pred.ratios.pm}</span>
                           </div>
                           <div className="text-right flex items-center gap-3">
                             <span className="text-slate-400 text-xs">{pred.pmShift.endOfShiftCensus} pts</span>
@@ -648,6 +657,9 @@ export default function CensusPage() {
               )}
             </div>
 
+            {/* Patient Flow Simulation */}
+            {effectiveHospitalId && <PatientFlowPanel hospitalId={effectiveHospitalId} />}
+
             {/* Patient Table */}
             <div className="bg-slate-800 rounded-lg overflow-hidden">
               <div className="px-6 py-4 border-b border-slate-700 flex items-center justify-between">
@@ -899,6 +911,12 @@ export default function CensusPage() {
                         </div>
                       )}
 
+                      {patient.predictionEngine && (
+                        <p className="text-xs text-slate-500 mb-4">
+                          Prediction engine: {patient.predictionEngine}
+                        </p>
+                      )}
+
                       {/* Transfer History */}
                       {patientHistory && patientHistory.length > 0 && (
                         <div>
@@ -0,0 +1,424 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../../../convex/_generated/api";
+import { Id } from "../../../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import Link from "next/link";
+
+// ═══════════════════════════════════════════════════════════════════
+// CENSUS UNIT MAPPINGS
+// Rules mapping census sheet names and procedure destinations to
+// hospital units, and the names seen at import that still need one
+// ═══════════════════════════════════════════════════════════════════
+
+const SELECT_CLASS =
+  "px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-emerald-500";
+const INPUT_CLASS =
+  "w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:border-emerald-500";
+
+const MATCH_TYPE_LABELS: Record<string, string> = {
+  exact: "Exact name",
+  prefix: "Starts with",
+  contains: "Contains",
+  regex: "Regular expression",
+};
+
+interface RuleForm {
+  mappingId?: Id<"census_unit_mappings">;
+  pattern: string;
+  matchType: string;
+  priority: string;
+  unitId: string;
+  canonicalName: string;
+  unitType: string;
+}
+
+function TypeBadge({ unitType }: { unitType: string }) {
+  return (
+    <span
+      className={`px-2 py-0.5 rounded text-xs font-medium ${
+        unitType === "icu" ? "bg-red-900/50 text-red-300" : "bg-blue-900/50 text-blue-300"
+      }`}
+    >
+      {unitType.toUpperCase()}
+    </span>
+  );
+}
+
+export default function CensusUnitMappingsPage() {
+  const currentUser = useQuery(api.users.getCurrentUser);
+  const hospitals = useQuery(api.hospitals.list, {});
+
+  const [selectedHospitalId, setSelectedHospitalId] = useState<string>("");
+  const [form, setForm] = useState<RuleForm | null>(null);
+
+  const isSuperAdmin = currentUser?.role === "super_admin";
+  const needsHospitalSelection = isSuperAdmin || !currentUser?.hospitalId;
+  const effectiveHospitalId = (selectedHospitalId || currentUser?.hospitalId) as Id<"hospitals"> | undefined;
+
+  const data = useQuery(api.unitMappings.list, effectiveHospitalId ? { hospitalId: effectiveHospitalId } : "skip");
+  const saveRule = useMutation(api.unitMappings.saveRule);
+  const deleteRule = useMutation(api.unitMappings.deleteRule);
+
+  const availableHospitals = hospitals?.filter((h) => {
+    if (isSuperAdmin) return true;
+    if (currentUser?.healthSystemId) {
+      return h.healthSystemId === currentUser.healthSystemId;
+    }
+    return false;
+  });
+
+  const pendingCount = data?.names.filter((name) => !name.mapped).length ?? 0;
+
+  const startRule = (rawName?: string, unitType?: string) => {
+    // Suggest a unit whose name appears in the sheet name
+    const suggested = rawName
+      ? data?.units.find((u) => rawName.toUpperCase().includes(u.name.toUpperCase()))
+      : undefined;
+    setForm({
+      pattern: rawName ?? "",
+      matchType: "exact",
+      priority: "100",
+      unitId: suggested?._id ?? "",
+      canonicalName: "",
+      unitType: unitType ?? "floor",
+    });
+  };
+
+  const editRule = (rule: NonNullable<typeof data>["rules"][number]) => {
+    setForm({
+      mappingId: rule._id,
+      pattern: rule.rawUnitName,
+      matchType: rule.matchType,
+      priority: String(rule.priority ?? 100),
+      unitId: rule.unitId ?? "",
+      canonicalName: rule.canonicalName ?? "",
+      unitType: rule.unitType,
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!effectiveHospitalId || !form) return;
+    try {
+      const result = await saveRule({
+        hospitalId: effectiveHospitalId,
+        mappingId: form.mappingId,
+        pattern: form.pattern,
+        matchType: form.matchType,
+        priority: form.matchType === "exact" ? undefined : Number(form.priority) || 100,
+        unitId: (form.unitId || undefined) as Id<"units"> | undefined,
+        canonicalName: form.canonicalName || undefined,
+        unitType: form.unitType,
+      });
+      const extras = [
+        result.pendingResolved > 0 ? `${result.pendingResolved} pending names resolved` : "",
+        result.patientsUpdated > 0 ? `${result.patientsUpdated} patients reclassified` : "",
+      ].filter(Boolean);
+      toast.success(`Mapping saved${extras.length > 0 ? ` (${extras.join(", ")})` : ""}`);
+      setForm(null);
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleDelete = async (mappingId: Id<"census_unit_mappings">, pattern: string) => {
+    if (!window.confirm(`Delete the mapping for "${pattern}"?`)) return;
+    try {
+      await deleteRule({ mappingId });
+      toast.success("Mapping deleted");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white p-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <Link href="/dashboard/census" className="text-slate-400 hover:text-white text-sm mb-2 inline-block">
+              ← Back to Census
+            </Link>
+            <h1 className="text-3xl font-bold">Unit Mappings</h1>
+            <p className="text-slate-400 text-sm mt-1">
+              How census sheet names and procedure destinations map to hospital units
+            </p>
+          </div>
+          <div className="flex gap-3 items-center">
+            {needsHospitalSelection && (
+              <select
+                value={selectedHospitalId}
+                onChange={(e) => {
+                  setSelectedHospitalId(e.target.value);
+                  setForm(null);
+                }}
+                className={SELECT_CLASS}
+              >
+                <option value="">Select Hospital...</option>
+                {availableHospitals?.map((h) => (
+                  <option key={h._id} value={h._id}>
+                    {h.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {data && !form && (
+              <button
+                onClick={() => startRule()}
+                className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors"
+              >
+                Add Rule
+              </button>
+            )}
+          </div>
+        </div>
+
+        {!effectiveHospitalId ? (
+          <div className="bg-slate-800 rounded-lg p-8 text-center text-slate-400">
+            Select a hospital to manage unit mappings
+          </div>
+        ) : !data ? (
+          <div className="bg-slate-800 rounded-lg p-8 text-center text-slate-400">Loading...</div>
+        ) : (
+          <div className="space-y-6">
+            {/* Rule Form */}
+            {form && (
+              <form onSubmit={handleSave} className="bg-slate-800 rounded-lg p-6 space-y-4">
+                <h2 className="text-lg font-semibold">{form.mappingId ? "Edit Rule" : "New Rule"}</h2>
+                <div className="grid md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm text-slate-400 mb-1">Match</label>
+                    <select
+                      value={form.matchType}
+                      onChange={(e) => setForm({ ...form, matchType: e.target.value })}
+                      className={INPUT_CLASS}
+                    >
+                      {data.matchTypes.map((type) => (
+                        <option key={type} value={type}>
+                          {MATCH_TYPE_LABELS[type] ?? type}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm text-slate-400 mb-1">
+                      {form.matchType === "exact" ? "Sheet name" : "Pattern"}
+                    </label>
+                    <input
+                      value={form.pattern}
+                      onChange={(e) => setForm({ ...form, pattern: e.target.value })}
+                      placeholder={form.matchType === "regex" ? "e.g., ^MSH ?- ?(CCU|CSIU)$" : "e.g., MSH - CSIU"}
+                      className={INPUT_CLASS}
+                      required
+                    />
+                  </div>
+                  {form.matchType !== "exact" && (
+                    <div>
+                      <label className="block text-sm text-slate-400 mb-1">Priority</label>
+                      <input
+                        type="number"
+                        value={form.priority}
+                        onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                        className={INPUT_CLASS}
+                      />
+                      <p className="text-xs text-slate-500 mt-1">Lower numbers are tried first</p>
+                    </div>
+                  )}
+                </div>
+                <div className="grid md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm text-slate-400 mb-1">Hospital unit</label>
+                    <select
+                      value={form.unitId}
+                      onChange={(e) => setForm({ ...form, unitId: e.target.value })}
+                      className={INPUT_CLASS}
+                    >
+                      <option value="">Not linked</option>
+                      {data.units.map((unit) => (
+                        <option key={unit._id} value={unit._id}>
+                          {unit.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  {!form.unitId && (
+                    <div>
+                      <label className="block text-sm text-slate-400 mb-1">Census name</label>
+                      <input
+                        value={form.canonicalName}
+                        onChange={(e) => setForm({ ...form, canonicalName: e.target.value })}
+                        placeholder="Defaults to the sheet name"
+                        className={INPUT_CLASS}
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <label className="block text-sm text-slate-400 mb-1">Unit type</label>
+                    <select
+                      value={form.unitType}
+                      onChange={(e) => setForm({ ...form, unitType: e.target.value })}
+                      className={INPUT_CLASS}
+                    >
+                      <option value="icu">ICU</option>
+                      <option value="floor">Floor</option>
+                    </select>
+                  </div>
+                </div>
+                <div className="flex justify-end gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setForm(null)}
+                    className="px-4 py-2 text-slate-300 hover:text-white transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors"
+                  >
+                    Save Rule
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {/* Unit Names Seen */}
+            <div className="bg-slate-800 rounded-lg overflow-hidden">
+              <div className="px-4 py-3 border-b border-slate-700 flex items-center justify-between">
+                <h2 className="font-semibold">Unit Names Seen</h2>
+                {pendingCount > 0 && (
+                  <span className="px-2 py-0.5 rounded text-xs font-medium bg-amber-900/50 text-amber-300">
+                    {pendingCount} need review
+                  </span>
+                )}
+              </div>
+              {data.names.length === 0 ? (
+                <div className="p-8 text-center text-slate-400">No census or procedure unit names imported yet</div>
+              ) : (
+                <table className="w-full">
+                  <thead className="bg-slate-700">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-300 uppercase">Name</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-300 uppercase">Maps To</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-300 uppercase">Type</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-slate-300 uppercase">
+                        Current Patients
+                      </th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-700">
+                    {data.names.map((name) => (
+                      <tr key={name.rawName}>
+                        <td className="px-4 py-3 font-medium">{name.rawName}</td>
+                        <td className="px-4 py-3 text-sm">
+                          {name.mapped ? (
+                            <span className="text-slate-300">
+                              {name.unitName}
+                              {!name.unitId && <span className="text-slate-500"> (not linked to a unit)</span>}
+                            </span>
+                          ) : (
+                            <span className="text-amber-400">
+                              Needs review
+                              {name.lastSeenAt && (
+                                <span className="text-slate-500">
+                                  {" "}
+                                  · seen {new Date(name.lastSeenAt).toLocaleDateString()}
+                                </span>
+                              )}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <TypeBadge unitType={name.unitType} />
+                        </td>
+                        <td className="px-4 py-3 text-right text-slate-300">{name.patientCount}</td>
+                        <td className="px-4 py-3 text-right text-sm">
+                          {!name.mapped && (
+                            <button
+                              onClick={() => startRule(name.rawName, name.unitType)}
+                              className="text-emerald-400 hover:text-emerald-300"
+                            >
+                              Map
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {/* Rules */}
+            <div className="bg-slate-800 rounded-lg overflow-hidden">
+              <div className="px-4 py-3 border-b border-slate-700">
+                <h2 className="font-semibold">Rules</h2>
+                <p className="text-xs text-slate-500 mt-0.5">
+                  Exact names win; pattern rules are tried by priority. Matching ignores case.
+                </p>
+              </div>
+              {data.rules.length === 0 ? (
+                <div className="p-8 text-center text-slate-400">
+                  No rules yet. Unit names are used as-is and typed by a guess until mapped.
+                </div>
+              ) : (
+                <table className="w-full">
+                  <thead className="bg-slate-700">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-300 uppercase">Pattern</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-300 uppercase">Match</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-300 uppercase">Unit</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-300 uppercase">Type</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-slate-300 uppercase">Matches</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-700">
+                    {data.rules.map((rule) => (
+                      <tr key={rule._id}>
+                        <td className="px-4 py-3 font-mono text-sm">{rule.rawUnitName}</td>
+                        <td className="px-4 py-3 text-sm text-slate-300">
+                          {MATCH_TYPE_LABELS[rule.matchType] ?? rule.matchType}
+                          {rule.matchType !== "exact" && (
+                            <span className="text-slate-500"> · priority {rule.priority ?? 100}</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          {rule.linkedUnitName ?? (
+                            <span className="text-slate-500">{rule.canonicalName || "Not linked"}</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <TypeBadge unitType={rule.unitType} />
+                        </td>
+                        <td className="px-4 py-3 text-sm text-slate-400">
+                          {rule.matchedNames.length > 0 ? rule.matchedNames.join(", ") : "—"}
+                        </td>
+                        <td className="px-4 py-3 text-right whitespace-nowrap text-sm">
+                          <button onClick={() => editRule(rule)} className="text-slate-400 hover:text-white mr-3">
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleDelete(rule._id, rule.rawUnitName)}
+                            className="text-red-400 hover:text-red-300"
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
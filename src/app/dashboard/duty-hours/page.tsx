@@ -0,0 +1,249 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../../convex/_generated/api";
+import { toast } from "sonner";
+import Link from "next/link";
+import { Id } from "../../../../convex/_generated/dataModel";
+
+const EMPTY_FORM = {
+  maxConsecutiveShifts: "",
+  minRestHours: "",
+  maxShiftsPerWeek: "",
+  traineeMaxWeeklyHours: "",
+  traineeJobTypeCodes: "RES, FEL",
+  enforcement: "block" as "block" | "warn",
+};
+
+// Blank inputs mean "no limit"
+const parseLimit = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+export default function DutyHoursPage() {
+  const currentUser = useQuery(api.users.getCurrentUser);
+  const healthSystems = useQuery(api.healthSystems.list);
+  const [selectedHealthSystem, setSelectedHealthSystem] = useState<string>("");
+
+  // Get the health system ID to use for queries
+  const healthSystemId =
+    selectedHealthSystem ||
+    currentUser?.healthSystemId ||
+    (healthSystems && healthSystems.length > 0 ? healthSystems[0]._id : undefined);
+
+  const rules = useQuery(
+    api.dutyHours.getRules,
+    healthSystemId ? { healthSystemId: healthSystemId as Id<"health_systems"> } : "skip"
+  );
+
+  const updateRules = useMutation(api.dutyHours.updateRules);
+
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const canManage =
+    currentUser?.role === "super_admin" || currentUser?.role === "health_system_admin";
+
+  // Load saved rules into the form when the health system changes
+  useEffect(() => {
+    if (rules === undefined) return;
+    if (rules === null) {
+      setFormData(EMPTY_FORM);
+      return;
+    }
+    setFormData({
+      maxConsecutiveShifts: rules.maxConsecutiveShifts?.toString() ?? "",
+      minRestHours: rules.minRestHours?.toString() ?? "",
+      maxShiftsPerWeek: rules.maxShiftsPerWeek?.toString() ?? "",
+      traineeMaxWeeklyHours: rules.traineeMaxWeeklyHours?.toString() ?? "",
+      traineeJobTypeCodes: rules.traineeJobTypeCodes.join(", "),
+      enforcement: rules.enforcement === "warn" ? "warn" : "block",
+    });
+  }, [rules]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!healthSystemId) {
+      toast.error("Please select a health system first");
+      return;
+    }
+    try {
+      await updateRules({
+        healthSystemId: healthSystemId as Id<"health_systems">,
+        maxConsecutiveShifts: parseLimit(formData.maxConsecutiveShifts),
+        minRestHours: parseLimit(formData.minRestHours),
+        maxShiftsPerWeek: parseLimit(formData.maxShiftsPerWeek),
+        traineeMaxWeeklyHours: parseLimit(formData.traineeMaxWeeklyHours),
+        traineeJobTypeCodes: formData.traineeJobTypeCodes
+          .split(",")
+          .map((code) => code.trim())
+          .filter(Boolean),
+        enforcement: formData.enforcement,
+      });
+      toast.success("Duty-hour rules saved");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const currentHealthSystemName = healthSystems?.find(
+    (hs) => hs._id === healthSystemId
+  )?.name;
+
+  const limitFields = [
+    {
+      key: "maxConsecutiveShifts",
+      label: "Max consecutive shifts",
+      hint: "Shifts with less than 24h off between them",
+      placeholder: "e.g., 6",
+    },
+    {
+      key: "minRestHours",
+      label: "Minimum rest (hours)",
+      hint: "Between a shift end and the next shift start",
+      placeholder: "e.g., 10",
+    },
+    {
+      key: "maxShiftsPerWeek",
+      label: "Max shifts per week",
+      hint: "Any rolling 7 days",
+      placeholder: "e.g., 5",
+    },
+    {
+      key: "traineeMaxWeeklyHours",
+      label: "Trainee max hours per week",
+      hint: "ACGME-style cap, averaged over any rolling 4 weeks",
+      placeholder: "e.g., 80",
+    },
+  ] as const;
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white p-8">
+      <div className="max-w-3xl mx-auto">
+        <div className="mb-8">
+          <Link
+            href="/dashboard"
+            className="text-slate-400 hover:text-white text-sm mb-2 inline-block"
+          >
+            &larr; Back to Dashboard
+          </Link>
+          <h1 className="text-3xl font-bold">Duty Hour Rules</h1>
+          <p className="text-slate-400 text-sm mt-1">
+            Fatigue limits applied to scenario matching, self-claiming and auto-fill
+          </p>
+        </div>
+
+        {/* Health System Selector (for super_admin) */}
+        {currentUser?.role === "super_admin" && healthSystems && healthSystems.length > 0 && (
+          <div className="mb-6">
+            <label className="text-sm text-slate-400 mr-2">Health System:</label>
+            <select
+              value={selectedHealthSystem || healthSystemId || ""}
+              onChange={(e) => setSelectedHealthSystem(e.target.value)}
+              className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-emerald-500"
+            >
+              {healthSystems.map((hs) => (
+                <option key={hs._id} value={hs._id}>
+                  {hs.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Current Context */}
+        {currentHealthSystemName && (
+          <div className="mb-4 text-sm text-slate-400">
+            Viewing rules for: <span className="text-white">{currentHealthSystemName}</span>
+            {rules === null && (
+              <span className="ml-2 text-amber-400">(not configured - no limits enforced)</span>
+            )}
+          </div>
+        )}
+
+        <form onSubmit={handleSave} className="bg-slate-800 rounded-lg p-6 space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            {limitFields.map((field) => (
+              <div key={field.key}>
+                <label className="block text-sm text-slate-400 mb-1">{field.label}</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={formData[field.key]}
+                  onChange={(e) => setFormData({ ...formData, [field.key]: e.target.value })}
+                  disabled={!canManage}
+                  className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:border-emerald-500 disabled:opacity-60"
+                  placeholder={field.placeholder}
+                />
+                <p className="text-xs text-slate-500 mt-1">{field.hint}</p>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Trainee job type codes</label>
+            <input
+              type="text"
+              value={formData.traineeJobTypeCodes}
+              onChange={(e) => setFormData({ ...formData, traineeJobTypeCodes: e.target.value })}
+              disabled={!canManage}
+              className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:border-emerald-500 uppercase disabled:opacity-60"
+              placeholder="RES, FEL"
+            />
+            <p className="text-xs text-slate-500 mt-1">
+              Comma-separated. The weekly hours cap applies only to these job types.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm text-slate-400 mb-2">When a rule is broken</label>
+            <div className="grid grid-cols-2 gap-2">
+              {(
+                [
+                  {
+                    value: "block",
+                    label: "Block",
+                    description: "Hide violating matches and reject assignments and claims",
+                  },
+                  {
+                    value: "warn",
+                    label: "Warn",
+                    description: "Allow with a warning; violating matches rank lower",
+                  },
+                ] as const
+              ).map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setFormData({ ...formData, enforcement: option.value })}
+                  disabled={!canManage}
+                  className={`text-left p-3 rounded-lg border transition-colors ${
+                    formData.enforcement === option.value
+                      ? "border-emerald-500 bg-emerald-500/10"
+                      : "border-slate-600 hover:border-slate-500"
+                  }`}
+                >
+                  <div className="font-medium">{option.label}</div>
+                  <div className="text-xs text-slate-400 mt-1">{option.description}</div>
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 mt-2">
+              Auto-fill never proposes shifts that break a rule, in either mode.
+            </p>
+          </div>
+
+          {canManage && (
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors"
+              >
+                Save Rules
+              </button>
+            </div>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+}
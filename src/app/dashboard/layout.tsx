@@ -81,6 +81,12 @@ const BadgeIcon = () => (
   </svg>
 );
 
+const ClockIcon = () => (
+  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+  </svg>
+);
+
 const CensusIcon = () => (
   <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
@@ -106,7 +112,9 @@ const navItems: NavItem[] = [
   { href: "/dashboard/departments", label: "Departments", icon: <ClipboardIcon />, roles: ["super_admin", "health_system_admin", "hospital_admin"] },
   { href: "/dashboard/services", label: "Services", icon: <BriefcaseIcon /> },
   { href: "/dashboard/providers", label: "Providers", icon: <UsersIcon /> },
+  { href: "/dashboard/agencies", label: "Agency Staff", icon: <BriefcaseIcon />, roles: ["super_admin", "health_system_admin"] },
   { href: "/dashboard/job-types", label: "Job Types", icon: <BriefcaseIcon />, roles: ["super_admin", "health_system_admin"] },
+  { href: "/dashboard/duty-hours", label: "Duty Hour Rules", icon: <ClockIcon />, roles: ["super_admin", "health_system_admin"] },
   { href: "/dashboard/skills", label: "Skills", icon: <BadgeIcon />, roles: ["super_admin"] },
   { href: "/dashboard/users", label: "Users", icon: <UsersIcon />, roles: ["super_admin", "health_system_admin", "hospital_admin"] },
   { href: "/dashboard/audit-logs", label: "Audit Logs", icon: <LogIcon />, roles: ["super_admin", "health_system_admin"] },
@@ -120,6 +120,20 @@ export default function ProceduresPage() {
               className="px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-violet-500"
             />
 
+            <Link
+              href="/dashboard/procedures/sources"
+              className="px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors"
+            >
+              Sources
+            </Link>
+
+            <Link
+              href="/dashboard/procedures/rules"
+              className="px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg transition-colors"
+            >
+              Disposition Rules
+            </Link>
+
             {/* Clear All Button */}
             {effectiveHospitalId && (
               <button
@@ -0,0 +1,780 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../../../convex/_generated/api";
+import { Doc, Id } from "../../../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import Link from "next/link";
+
+type RuleSet = Doc<"disposition_rule_sets">["rules"];
+type ProcedureRule = RuleSet["procedures"][number];
+type RiskFactorRule = RuleSet["riskFactors"][number];
+type ServiceLine = NonNullable<RuleSet["serviceLines"]>[number];
+
+const RISK_FIELDS = [
+  { value: "age", label: "Age" },
+  { value: "ef", label: "EF %" },
+  { value: "creatinine", label: "Creatinine" },
+  { value: "hemoglobin", label: "Hemoglobin" },
+];
+
+const RISK_OPERATORS = [
+  { value: "gt", label: ">" },
+  { value: "gte", label: ">=" },
+  { value: "lt", label: "<" },
+  { value: "lte", label: "<=" },
+];
+
+const inputClass =
+  "w-full px-2 py-1 bg-slate-700 border border-slate-600 rounded focus:outline-none focus:border-emerald-500 disabled:opacity-60";
+
+// Blank inputs mean "not provided"
+const parseOptional = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+export default function DispositionRulesPage() {
+  const currentUser = useQuery(api.users.getCurrentUser);
+  const healthSystems = useQuery(api.healthSystems.list);
+  const [selectedHealthSystem, setSelectedHealthSystem] = useState<string>("");
+
+  const healthSystemId = (selectedHealthSystem ||
+    currentUser?.healthSystemId ||
+    (healthSystems && healthSystems.length > 0 ? healthSystems[0]._id : undefined)) as
+    | Id<"health_systems">
+    | undefined;
+
+  const active = useQuery(api.dispositionRules.getActive, healthSystemId ? { healthSystemId } : "skip");
+  const versions = useQuery(api.dispositionRules.listVersions, healthSystemId ? { healthSystemId } : "skip");
+  const saveVersion = useMutation(api.dispositionRules.saveVersion);
+
+  const [draft, setDraft] = useState<RuleSet | null>(null);
+  const [loadedFrom, setLoadedFrom] = useState<string>("");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [testInput, setTestInput] = useState({
+    procedureText: "",
+    serviceLine: "",
+    age: "",
+    ef: "",
+    creatinine: "",
+    hemoglobin: "",
+  });
+
+  const canManage = currentUser?.role === "super_admin" || currentUser?.role === "health_system_admin";
+
+  // Load the active rules into the editor when the health system or version changes
+  useEffect(() => {
+    if (!active) return;
+    setDraft(active.rules);
+    setLoadedFrom(active.version === 0 ? "built-in defaults" : `version ${active.version}`);
+  }, [active]);
+
+  const preview = useQuery(
+    api.dispositionRules.preview,
+    healthSystemId && draft && testInput.procedureText.trim()
+      ? {
+          healthSystemId,
+          rules: draft,
+          procedureText: testInput.procedureText,
+          serviceLine: testInput.serviceLine || undefined,
+          age: parseOptional(testInput.age),
+          ef: parseOptional(testInput.ef),
+          creatinine: parseOptional(testInput.creatinine),
+          hemoglobin: parseOptional(testInput.hemoglobin),
+        }
+      : "skip"
+  );
+
+  const updateProcedure = (index: number, changes: Partial<ProcedureRule>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      procedures: draft.procedures.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    });
+  };
+
+  const addProcedure = () => {
+    if (!draft) return;
+    const rule: ProcedureRule = {
+      category: "NEW_PROCEDURE",
+      label: "New procedure",
+      serviceLine: serviceLines[0]?.key,
+      patterns: [],
+      cptCodes: [],
+      icuDays: 0,
+      floorDays: 1,
+      floorUnit: "N07E",
+      reasoning: "New procedure: 1 day N07E",
+    };
+    // Keep the UNKNOWN catch-all last
+    const unknownIndex = draft.procedures.findIndex((r) => r.category === "UNKNOWN");
+    const procedures = [...draft.procedures];
+    procedures.splice(unknownIndex === -1 ? procedures.length : unknownIndex, 0, rule);
+    setDraft({ ...draft, procedures });
+  };
+
+  // Sets saved before service lines existed use the built-in lines
+  const serviceLines: ServiceLine[] = draft?.serviceLines ?? active?.defaults.serviceLines ?? [];
+
+  const updateServiceLine = (index: number, changes: Partial<ServiceLine>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      serviceLines: serviceLines.map((line, i) => (i === index ? { ...line, ...changes } : line)),
+    });
+  };
+
+  const updateRiskFactor = (index: number, changes: Partial<RiskFactorRule>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      riskFactors: draft.riskFactors.map((factor, i) => (i === index ? { ...factor, ...changes } : factor)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!healthSystemId || !draft) return;
+    setIsSaving(true);
+    try {
+      const result = await saveVersion({ healthSystemId, rules: draft, notes: notes || undefined });
+      toast.success(`Saved disposition rules version ${result.version}`);
+      setNotes("");
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const currentHealthSystemName = healthSystems?.find((hs) => hs._id === healthSystemId)?.name;
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <Link href="/dashboard/procedures" className="text-slate-400 hover:text-white text-sm mb-2 inline-block">
+            &larr; Back to Procedures
+          </Link>
+          <h1 className="text-3xl font-bold">Disposition Rules</h1>
+          <p className="text-slate-400 text-sm mt-1">
+            How scheduled procedures are classified and which admit, for how long, and where
+          </p>
+        </div>
+
+        {/* Health System Selector (for super_admin) */}
+        {currentUser?.role === "super_admin" && healthSystems && healthSystems.length > 0 && (
+          <div className="mb-6">
+            <label className="text-sm text-slate-400 mr-2">Health System:</label>
+            <select
+              value={selectedHealthSystem || healthSystemId || ""}
+              onChange={(e) => setSelectedHealthSystem(e.target.value)}
+              className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-emerald-500"
+            >
+              {healthSystems.map((hs) => (
+                <option key={hs._id} value={hs._id}>
+                  {hs.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {active && currentHealthSystemName && (
+          <div className="mb-4 text-sm text-slate-400">
+            In effect for <span className="text-white">{currentHealthSystemName}</span>:{" "}
+            <span className="text-white">
+              {active.version === 0 ? "built-in defaults" : `version ${active.version}`}
+            </span>
+            <span className="ml-2">&middot; Editing a copy of {loadedFrom}</span>
+          </div>
+        )}
+
+        {!draft ? (
+          <div className="bg-slate-800 rounded-lg p-12 text-center text-slate-400">Loading rules...</div>
+        ) : (
+          <div className="space-y-6">
+            {/* Service lines */}
+            <div className="bg-slate-800 rounded-lg p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h2 className="text-lg font-semibold">Service Lines</h2>
+                  <p className="text-sm text-slate-400">
+                    Procedure areas with their own categories. An import only uses the categories of its source&apos;s
+                    service lines; unmatched procedures from a single line get its fallback category.
+                  </p>
+                </div>
+                {canManage && (
+                  <button
+                    onClick={() =>
+                      setDraft({ ...draft, serviceLines: [...serviceLines, { key: "", label: "" }] })
+                    }
+                    className="px-3 py-1.5 text-sm bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"
+                  >
+                    Add Service Line
+                  </button>
+                )}
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-slate-400 text-left">
+                    <th className="pb-2 pr-2 font-normal">Key</th>
+                    <th className="pb-2 pr-2 font-normal">Label</th>
+                    <th className="pb-2 pr-2 font-normal">Fallback Category</th>
+                    <th className="pb-2 pr-2 font-normal text-right">Categories</th>
+                    <th className="pb-2 font-normal"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {serviceLines.map((line, index) => (
+                    <tr key={index} className="border-t border-slate-700">
+                      <td className="py-2 pr-2 w-40">
+                        <input
+                          value={line.key}
+                          onChange={(e) => updateServiceLine(index, { key: e.target.value })}
+                          disabled={!canManage}
+                          placeholder="OR"
+                          className={`${inputClass} font-mono text-xs`}
+                        />
+                      </td>
+                      <td className="py-2 pr-2">
+                        <input
+                          value={line.label}
+                          onChange={(e) => updateServiceLine(index, { label: e.target.value })}
+                          disabled={!canManage}
+                          placeholder="Operating Room"
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className="py-2 pr-2 w-56">
+                        <select
+                          value={line.fallbackCategory ?? ""}
+                          onChange={(e) => updateServiceLine(index, { fallbackCategory: e.target.value || undefined })}
+                          disabled={!canManage}
+                          className={inputClass}
+                        >
+                          <option value="">UNKNOWN</option>
+                          {draft.procedures
+                            .filter((rule) => rule.serviceLine === line.key)
+                            .map((rule) => (
+                              <option key={rule.category} value={rule.category}>
+                                {rule.category}
+                              </option>
+                            ))}
+                        </select>
+                      </td>
+                      <td className="py-2 pr-2 text-right text-slate-400 w-24">
+                        {draft.procedures.filter((rule) => rule.serviceLine === line.key).length}
+                      </td>
+                      <td className="py-2 w-6">
+                        {canManage && (
+                          <button
+                            onClick={() =>
+                              setDraft({ ...draft, serviceLines: serviceLines.filter((_, i) => i !== index) })
+                            }
+                            className="text-slate-500 hover:text-red-400"
+                            title="Remove service line"
+                          >
+                            &times;
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Procedure rules */}
+            <div className="bg-slate-800 rounded-lg p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h2 className="text-lg font-semibold">Procedures</h2>
+                  <p className="text-sm text-slate-400">
+                    Checked top to bottom: CPT code in brackets first, then patterns (case-insensitive regex, one
+                    per line). UNKNOWN applies when nothing matches.
+                  </p>
+                </div>
+                {canManage && (
+                  <button
+                    onClick={addProcedure}
+                    className="px-3 py-1.5 text-sm bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"
+                  >
+                    Add Procedure
+                  </button>
+                )}
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-slate-400 text-left">
+                      <th className="pb-2 pr-2 font-normal">Category / Label / Line</th>
+                      <th className="pb-2 pr-2 font-normal">Patterns</th>
+                      <th className="pb-2 pr-2 font-normal">CPT Codes</th>
+                      <th className="pb-2 pr-2 font-normal">ICU Days / Unit</th>
+                      <th className="pb-2 pr-2 font-normal">Floor Days / Unit</th>
+                      <th className="pb-2 pr-2 font-normal">Reasoning</th>
+                      <th className="pb-2 font-normal"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {draft.procedures.map((rule, index) => {
+                      const isUnknown = rule.category === "UNKNOWN";
+                      return (
+                        <tr key={index} className="border-t border-slate-700 align-top">
+                          <td className="py-2 pr-2 w-44 space-y-1">
+                            <input
+                              value={rule.category}
+                              onChange={(e) => updateProcedure(index, { category: e.target.value.toUpperCase() })}
+                              disabled={!canManage || isUnknown}
+                              className={`${inputClass} font-mono text-xs`}
+                            />
+                            <input
+                              value={rule.label}
+                              onChange={(e) => updateProcedure(index, { label: e.target.value })}
+                              disabled={!canManage}
+                              className={inputClass}
+                            />
+                            {!isUnknown && (
+                              <select
+                                value={rule.serviceLine ?? ""}
+                                onChange={(e) => updateProcedure(index, { serviceLine: e.target.value || undefined })}
+                                disabled={!canManage}
+                                className={`${inputClass} text-xs`}
+                              >
+                                <option value="">Cath/EP by category</option>
+                                {serviceLines.map((line) => (
+                                  <option key={line.key} value={line.key}>
+                                    {line.label}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                          </td>
+                          <td className="py-2 pr-2 w-72">
+                            <textarea
+                              value={rule.patterns.join("\n")}
+                              onChange={(e) => updateProcedure(index, { patterns: e.target.value.split("\n") })}
+                              disabled={!canManage || isUnknown}
+                              rows={Math.max(2, Math.min(5, rule.patterns.length))}
+                              placeholder={isUnknown ? "Catch-all" : "\\bTAVR\\b"}
+                              className={`${inputClass} font-mono text-xs`}
+                            />
+                          </td>
+                          <td className="py-2 pr-2 w-32">
+                            <input
+                              value={rule.cptCodes.join(",")}
+                              onChange={(e) => updateProcedure(index, { cptCodes: e.target.value.split(",") })}
+                              disabled={!canManage || isUnknown}
+                              placeholder="33361, EP026"
+                              className={`${inputClass} font-mono text-xs`}
+                            />
+                          </td>
+                          <td className="py-2 pr-2 w-32">
+                            <div className="flex gap-1">
+                              <input
+                                type="number"
+                                min={0}
+                                value={rule.icuDays}
+                                onChange={(e) => updateProcedure(index, { icuDays: Number(e.target.value) })}
+                                disabled={!canManage}
+                                className={`${inputClass} w-14`}
+                              />
+                              <input
+                                value={rule.icuUnit ?? ""}
+                                onChange={(e) => updateProcedure(index, { icuUnit: e.target.value || undefined })}
+                                disabled={!canManage}
+                                placeholder="CCU"
+                                className={inputClass}
+                              />
+                            </div>
+                          </td>
+                          <td className="py-2 pr-2 w-32">
+                            <div className="flex gap-1">
+                              <input
+                                type="number"
+                                min={0}
+                                value={rule.floorDays}
+                                onChange={(e) => updateProcedure(index, { floorDays: Number(e.target.value) })}
+                                disabled={!canManage}
+                                className={`${inputClass} w-14`}
+                              />
+                              <input
+                                value={rule.floorUnit ?? ""}
+                                onChange={(e) => updateProcedure(index, { floorUnit: e.target.value || undefined })}
+                                disabled={!canManage}
+                                placeholder="N07E"
+                                className={inputClass}
+                              />
+                            </div>
+                          </td>
+                          <td className="py-2 pr-2">
+                            <input
+                              value={rule.reasoning}
+                              onChange={(e) => updateProcedure(index, { reasoning: e.target.value })}
+                              disabled={!canManage}
+                              className={inputClass}
+                            />
+                          </td>
+                          <td className="py-2">
+                            {canManage && !isUnknown && (
+                              <button
+                                onClick={() =>
+                                  setDraft({ ...draft, procedures: draft.procedures.filter((_, i) => i !== index) })
+                                }
+                                className="text-slate-500 hover:text-red-400"
+                                title="Remove rule"
+                              >
+                                &times;
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-6">
+              {/* Risk factors */}
+              <div className="bg-slate-800 rounded-lg p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-semibold">Risk Factors</h2>
+                  {canManage && (
+                    <button
+                      onClick={() =>
+                        setDraft({
+                          ...draft,
+                          riskFactors: [
+                            ...draft.riskFactors,
+                            { key: "", label: "", field: "age", operator: "gt", threshold: 0 },
+                          ],
+                        })
+                      }
+                      className="px-3 py-1.5 text-sm bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"
+                    >
+                      Add Risk Factor
+                    </button>
+                  )}
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-slate-400 text-left">
+                      <th className="pb-2 pr-2 font-normal">Key</th>
+                      <th className="pb-2 pr-2 font-normal">Label</th>
+                      <th className="pb-2 pr-2 font-normal">Rule</th>
+                      <th className="pb-2 font-normal"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {draft.riskFactors.map((factor, index) => (
+                      <tr key={index} className="border-t border-slate-700">
+                        <td className="py-2 pr-2">
+                          <input
+                            value={factor.key}
+                            onChange={(e) => updateRiskFactor(index, { key: e.target.value })}
+                            disabled={!canManage}
+                            placeholder="age_gt_85"
+                            className={`${inputClass} font-mono text-xs`}
+                          />
+                        </td>
+                        <td className="py-2 pr-2">
+                          <input
+                            value={factor.label}
+                            onChange={(e) => updateRiskFactor(index, { label: e.target.value })}
+                            disabled={!canManage}
+                            className={inputClass}
+                          />
+                        </td>
+                        <td className="py-2 pr-2">
+                          <div className="flex gap-1">
+                            <select
+                              value={factor.field}
+                              onChange={(e) => updateRiskFactor(index, { field: e.target.value })}
+                              disabled={!canManage}
+                              className={inputClass}
+                            >
+                              {RISK_FIELDS.map((f) => (
+                                <option key={f.value} value={f.value}>
+                                  {f.label}
+                                </option>
+                              ))}
+                            </select>
+                            <select
+                              value={factor.operator}
+                              onChange={(e) => updateRiskFactor(index, { operator: e.target.value })}
+                              disabled={!canManage}
+                              className={`${inputClass} w-16`}
+                            >
+                              {RISK_OPERATORS.map((op) => (
+                                <option key={op.value} value={op.value}>
+                                  {op.label}
+                                </option>
+                              ))}
+                            </select>
+                            <input
+                              type="number"
+                              step="any"
+                              value={factor.threshold}
+                              onChange={(e) => updateRiskFactor(index, { threshold: Number(e.target.value) })}
+                              disabled={!canManage}
+                              className={`${inputClass} w-20`}
+                            />
+                          </div>
+                        </td>
+                        <td className="py-2">
+                          {canManage && (
+                            <button
+                              onClick={() =>
+                                setDraft({ ...draft, riskFactors: draft.riskFactors.filter((_, i) => i !== index) })
+                              }
+                              className="text-slate-500 hover:text-red-400"
+                              title="Remove risk factor"
+                            >
+                              &times;
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <h3 className="text-sm font-medium text-slate-300 mt-6 mb-2">Risk Modifier</h3>
+                <p className="text-xs text-slate-500 mb-3">
+                  Same-day procedures with at least this many risk factors are admitted instead
+                </p>
+                <div className="grid grid-cols-3 gap-3 text-sm">
+                  <div>
+                    <label className="block text-slate-400 mb-1">Min risk factors</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={draft.riskModifier.minRiskFactors}
+                      onChange={(e) =>
+                        setDraft({
+                          ...draft,
+                          riskModifier: { ...draft.riskModifier, minRiskFactors: Number(e.target.value) },
+                        })
+                      }
+                      disabled={!canManage}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-slate-400 mb-1">ICU days / unit</label>
+                    <div className="flex gap-1">
+                      <input
+                        type="number"
+                        min={0}
+                        value={draft.riskModifier.icuDays}
+                        onChange={(e) =>
+                          setDraft({ ...draft, riskModifier: { ...draft.riskModifier, icuDays: Number(e.target.value) } })
+                        }
+                        disabled={!canManage}
+                        className={`${inputClass} w-14`}
+                      />
+                      <input
+                        value={draft.riskModifier.icuUnit ?? ""}
+                        onChange={(e) =>
+                          setDraft({
+                            ...draft,
+                            riskModifier: { ...draft.riskModifier, icuUnit: e.target.value || undefined },
+                          })
+                        }
+                        disabled={!canManage}
+                        placeholder="CCU"
+                        className={inputClass}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-slate-400 mb-1">Floor days / unit</label>
+                    <div className="flex gap-1">
+                      <input
+                        type="number"
+                        min={0}
+                        value={draft.riskModifier.floorDays}
+                        onChange={(e) =>
+                          setDraft({
+                            ...draft,
+                            riskModifier: { ...draft.riskModifier, floorDays: Number(e.target.value) },
+                          })
+                        }
+                        disabled={!canManage}
+                        className={`${inputClass} w-14`}
+                      />
+                      <input
+                        value={draft.riskModifier.floorUnit ?? ""}
+                        onChange={(e) =>
+                          setDraft({
+                            ...draft,
+                            riskModifier: { ...draft.riskModifier, floorUnit: e.target.value || undefined },
+                          })
+                        }
+                        disabled={!canManage}
+                        placeholder="N07E"
+                        className={inputClass}
+                      />
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              {/* Try the draft rules */}
+              <div className="bg-slate-800 rounded-lg p-6">
+                <h2 className="text-lg font-semibold mb-1">Test</h2>
+                <p className="text-sm text-slate-400 mb-4">Run a procedure through the rules being edited</p>
+                <div className="space-y-3 text-sm">
+                  <div className="flex gap-2">
+                    <input
+                      value={testInput.procedureText}
+                      onChange={(e) => setTestInput({ ...testInput, procedureText: e.target.value })}
+                      placeholder="Procedure text, e.g. TAVR [33361]"
+                      className={inputClass}
+                    />
+                    <select
+                      value={testInput.serviceLine}
+                      onChange={(e) => setTestInput({ ...testInput, serviceLine: e.target.value })}
+                      className={`${inputClass} w-48`}
+                    >
+                      <option value="">All service lines</option>
+                      {serviceLines.map((line) => (
+                        <option key={line.key} value={line.key}>
+                          {line.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-4 gap-2">
+                    {(
+                      [
+                        ["age", "Age"],
+                        ["ef", "EF %"],
+                        ["creatinine", "Cr"],
+                        ["hemoglobin", "Hgb"],
+                      ] as const
+                    ).map(([key, label]) => (
+                      <input
+                        key={key}
+                        type="number"
+                        step="any"
+                        value={testInput[key]}
+                        onChange={(e) => setTestInput({ ...testInput, [key]: e.target.value })}
+                        placeholder={label}
+                        className={inputClass}
+                      />
+                    ))}
+                  </div>
+                </div>
+                {preview?.error && <p className="text-sm text-red-400 mt-4">{preview.error}</p>}
+                {preview?.prediction && (
+                  <div className="mt-4 bg-slate-700/50 rounded-lg p-4 text-sm space-y-1">
+                    <p>
+                      <span className="text-slate-400">Category:</span>{" "}
+                      <span className="font-mono">{preview.prediction.procedureCategory}</span>
+                      <span className="text-slate-500"> &middot; {preview.prediction.serviceLine}</span>
+                    </p>
+                    <p>
+                      <span className="text-slate-400">Disposition:</span>{" "}
+                      {preview.prediction.willAdmit ? (
+                        <span className="text-violet-400">
+                          Admit{preview.prediction.icuDays > 0 && ` - ${preview.prediction.icuDays}d ${preview.prediction.icuUnit}`}
+                          {preview.prediction.floorDays > 0 &&
+                            ` - ${preview.prediction.floorDays}d ${preview.prediction.floorUnit}`}
+                        </span>
+                      ) : (
+                        <span className="text-emerald-400">Same-day discharge</span>
+                      )}
+                    </p>
+                    {preview.prediction.riskFactors.length > 0 && (
+                      <p>
+                        <span className="text-slate-400">Risk factors:</span> {preview.prediction.riskFactors.join(", ")}
+                      </p>
+                    )}
+                    <p className="text-slate-400">{preview.prediction.reasoning}</p>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Save */}
+            {canManage && (
+              <div className="bg-slate-800 rounded-lg p-6 flex items-end gap-4">
+                <div className="flex-1">
+                  <label className="block text-sm text-slate-400 mb-1">What changed</label>
+                  <input
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="e.g. TAVR floor stay reduced to 1 day"
+                    className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:border-emerald-500"
+                  />
+                </div>
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 rounded-lg transition-colors"
+                >
+                  {isSaving ? "Saving..." : `Save as Version ${(active?.version ?? 0) + 1}`}
+                </button>
+              </div>
+            )}
+
+            {/* Version history */}
+            <div className="bg-slate-800 rounded-lg p-6">
+              <h2 className="text-lg font-semibold mb-4">Versions</h2>
+              <table className="w-full text-sm">
+                <tbody>
+                  {versions?.map((version) => (
+                    <tr key={version._id} className="border-t border-slate-700 first:border-t-0">
+                      <td className="py-2 pr-4 font-medium whitespace-nowrap">
+                        Version {version.version}
+                        {version.version === active?.version && (
+                          <span className="ml-2 text-xs text-emerald-400">In effect</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-slate-400">{version.notes || "-"}</td>
+                      <td className="py-2 pr-4 text-slate-500 whitespace-nowrap">
+                        {version.createdByName} &middot; {new Date(version.createdAt).toLocaleString()}
+                      </td>
+                      <td className="py-2 text-right">
+                        <button
+                          onClick={() => {
+                            setDraft(version.rules);
+                            setLoadedFrom(`version ${version.version}`);
+                          }}
+                          className="text-slate-400 hover:text-white"
+                        >
+                          Load
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="border-t border-slate-700">
+                    <td className="py-2 pr-4 font-medium">Built-in defaults</td>
+                    <td className="py-2 pr-4 text-slate-400" colSpan={2}>
+                      Shipped with the app
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => {
+                          if (!active) return;
+                          setDraft(active.defaults);
+                          setLoadedFrom("built-in defaults");
+                        }}
+                        className="text-slate-400 hover:text-white"
+                      >
+                        Load
+                      </button>
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../../../convex/_generated/api";
+import { Doc, Id } from "../../../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import Link from "next/link";
+
+type Columns = Doc<"procedure_sources">["columns"];
+
+const EMPTY_FORM = {
+  name: "",
+  serviceLines: [] as string[],
+  columns: {} as Columns,
+};
+
+export default function ProcedureSourcesPage() {
+  const currentUser = useQuery(api.users.getCurrentUser);
+  const healthSystems = useQuery(api.healthSystems.list);
+  const [selectedHealthSystem, setSelectedHealthSystem] = useState<string>("");
+
+  const healthSystemId = (selectedHealthSystem ||
+    currentUser?.healthSystemId ||
+    (healthSystems && healthSystems.length > 0 ? healthSystems[0]._id : undefined)) as
+    | Id<"health_systems">
+    | undefined;
+
+  const data = useQuery(api.procedureSources.list, healthSystemId ? { healthSystemId } : "skip");
+  const createSource = useMutation(api.procedureSources.create);
+  const updateSource = useMutation(api.procedureSources.update);
+  const toggleActive = useMutation(api.procedureSources.toggleActive);
+
+  const [editingId, setEditingId] = useState<Id<"procedure_sources"> | "new" | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const canManage = currentUser?.role === "super_admin" || currentUser?.role === "health_system_admin";
+
+  const lineLabel = (key: string) => data?.serviceLines.find((line) => line.key === key)?.label ?? key;
+
+  const startEdit = (source?: Doc<"procedure_sources">) => {
+    setEditingId(source?._id ?? "new");
+    setFormData(
+      source ? { name: source.name, serviceLines: source.serviceLines, columns: source.columns } : EMPTY_FORM
+    );
+  };
+
+  const toggleLine = (key: string) => {
+    setFormData({
+      ...formData,
+      serviceLines: formData.serviceLines.includes(key)
+        ? formData.serviceLines.filter((line) => line !== key)
+        : [...formData.serviceLines, key],
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!healthSystemId || !editingId) return;
+    try {
+      if (editingId === "new") {
+        await createSource({ healthSystemId, ...formData });
+        toast.success("Source created");
+      } else {
+        await updateSource({ sourceId: editingId, ...formData });
+        toast.success("Source updated");
+      }
+      setEditingId(null);
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleToggle = async (sourceId: Id<"procedure_sources">) => {
+    try {
+      const result = await toggleActive({ sourceId });
+      toast.success(result.isActive ? "Source activated" : "Source deactivated");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white p-8">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <Link href="/dashboard/procedures" className="text-slate-400 hover:text-white text-sm mb-2 inline-block">
+              &larr; Back to Procedures
+            </Link>
+            <h1 className="text-3xl font-bold">Procedure Sources</h1>
+            <p className="text-slate-400 text-sm mt-1">
+              Scheduling systems that export procedure CSVs, their column layout and service lines
+            </p>
+          </div>
+          {canManage && editingId === null && (
+            <button
+              onClick={() => startEdit()}
+              className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors"
+            >
+              Add Source
+            </button>
+          )}
+        </div>
+
+        {/* Health System Selector (for super_admin) */}
+        {currentUser?.role === "super_admin" && healthSystems && healthSystems.length > 0 && (
+          <div className="mb-6">
+            <label className="text-sm text-slate-400 mr-2">Health System:</label>
+            <select
+              value={selectedHealthSystem || healthSystemId || ""}
+              onChange={(e) => {
+                setSelectedHealthSystem(e.target.value);
+                setEditingId(null);
+              }}
+              className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-emerald-500"
+            >
+              {healthSystems.map((hs) => (
+                <option key={hs._id} value={hs._id}>
+                  {hs.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Source Form */}
+        {editingId !== null && data && (
+          <form onSubmit={handleSave} className="bg-slate-800 rounded-lg p-6 mb-6 space-y-5">
+            <h2 className="text-lg font-semibold">{editingId === "new" ? "New Source" : "Edit Source"}</h2>
+            <div>
+              <label className="block text-sm text-slate-400 mb-1">Name</label>
+              <input
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g., Epic OR schedule"
+                className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:border-emerald-500"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm text-slate-400 mb-2">Service lines</label>
+              <div className="flex flex-wrap gap-2">
+                {data.serviceLines.map((line) => {
+                  const selected = formData.serviceLines.includes(line.key);
+                  return (
+                    <button
+                      type="button"
+                      key={line.key}
+                      onClick={() => toggleLine(line.key)}
+                      className={`px-3 py-1.5 rounded-lg text-sm border transition-colors ${
+                        selected
+                          ? "bg-emerald-600/20 border-emerald-500 text-emerald-300"
+                          : "bg-slate-700 border-slate-600 text-slate-300 hover:border-slate-500"
+                      }`}
+                    >
+                      {line.label}
+                    </button>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-slate-500 mt-1">
+                Procedures are classified only against these lines&apos; categories (see Disposition Rules)
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm text-slate-400 mb-2">CSV columns</label>
+              <div className="grid grid-cols-2 gap-3">
+                {data.fields.map((field) => (
+                  <div key={field.key}>
+                    <label className="block text-xs text-slate-400 mb-1">
+                      {field.label}
+                      {field.required && <span className="text-red-400"> *</span>}
+                    </label>
+                    <input
+                      value={formData.columns[field.key] ?? ""}
+                      onChange={(e) =>
+                        setFormData({ ...formData, columns: { ...formData.columns, [field.key]: e.target.value } })
+                      }
+                      placeholder={field.aliases[0]}
+                      className="w-full px-3 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-sm focus:outline-none focus:border-emerald-500"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500 mt-1">
+                Leave a column blank to use the cath/EP export headers. Age and sex are read from the patient name
+                (&quot;Last, F (60 y.o. M)&quot;) when their columns are empty.
+              </p>
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setEditingId(null)}
+                className="px-4 py-2 text-slate-300 hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+              <button type="submit" className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors">
+                Save Source
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Source List */}
+        <div className="bg-slate-800 rounded-lg overflow-hidden">
+          {!data ? (
+            <div className="p-12 text-center text-slate-400">Loading...</div>
+          ) : data.sources.length === 0 ? (
+            <div className="p-12 text-center text-slate-400">
+              No sources yet. Imports use the cath/EP lab export layout.
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-slate-700">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-300 uppercase">Name</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-300 uppercase">Service Lines</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-300 uppercase">Mapped Columns</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-300 uppercase">Status</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700">
+                {data.sources.map((source) => (
+                  <tr key={source._id} className={source.isActive ? "" : "opacity-60"}>
+                    <td className="px-4 py-3 font-medium">{source.name}</td>
+                    <td className="px-4 py-3 text-sm text-slate-300">
+                      {source.serviceLines.map(lineLabel).join(", ")}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-slate-400">
+                      {Object.keys(source.columns).length === 0
+                        ? "Default headers"
+                        : data.fields
+                            .filter((field) => source.columns[field.key])
+                            .map((field) => `${field.label} = "${source.columns[field.key]}"`)
+                            .join(", ")}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`px-2 py-0.5 rounded text-xs font-medium ${
+                          source.isActive ? "bg-emerald-900/50 text-emerald-300" : "bg-slate-700 text-slate-400"
+                        }`}
+                      >
+                        {source.isActive ? "Active" : "Inactive"}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap text-sm">
+                      {canManage && (
+                        <>
+                          <button onClick={() => startEdit(source)} className="text-slate-400 hover:text-white mr-3">
+                            Edit
+                          </button>
+                          <button onClick={() => handleToggle(source._id)} className="text-slate-400 hover:text-white">
+                            {source.isActive ? "Deactivate" : "Activate"}
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
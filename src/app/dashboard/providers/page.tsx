@@ -10,6 +10,7 @@ import * as XLSX from "xlsx";
 import ProviderImport from "@/components/providers/ProviderImport";
 import ProviderExport from "@/components/providers/ProviderExport";
 import AmionImport from "@/components/providers/AmionImport";
+import CredentialEditor, { ProviderCredential } from "@/components/providers/CredentialEditor";
 
 export default function ProvidersPage() {
   const currentUser = useQuery(api.users.getCurrentUser);
@@ -45,6 +46,7 @@ export default function ProvidersPage() {
   const [isUploading, setIsUploading] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [selectedProvider, setSelectedProvider] = useState<string | null>(null);
+  const [editingCredentialSkillId, setEditingCredentialSkillId] = useState<string | null>(null);
   const [selectedHospitalFilter, setSelectedHospitalFilter] = useState("");
   const [selectedDepartmentFilter, setSelectedDepartmentFilter] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -82,6 +84,7 @@ export default function ProvidersPage() {
     email: "",
     phone: "",
     jobTypeId: "",
+    reminderChannel: "both",
   });
 
   const handleCreate = async (e: React.FormEvent) => {
@@ -324,6 +327,7 @@ export default function ProvidersPage() {
       email: provider.email || "",
       phone: provider.cellPhone || "",
       jobTypeId: provider.jobTypeId,
+      reminderChannel: provider.reminderChannel || "both",
     });
     setIsEditing(true);
   };
@@ -340,6 +344,7 @@ export default function ProvidersPage() {
         email: editFormData.email || undefined,
         cellPhone: editFormData.phone || undefined,
         jobTypeId: editFormData.jobTypeId as Id<"job_types">,
+        reminderChannel: editFormData.reminderChannel,
       });
       toast.success("Provider updated");
       setIsEditing(false);
@@ -463,6 +468,9 @@ export default function ProvidersPage() {
   const providerSkills = selectedProviderData
     ? skills?.filter((s) => selectedProviderData.skills?.includes(s._id))
     : [];
+  const editingCredential = selectedProviderData?.credentials.find((c: ProviderCredential) => c.skillId === editingCredentialSkillId);
+  const editingCredentialSkill = skills?.find((s) => s._id === editingCredentialSkillId);
+  const today = new Date().toISOString().split("T")[0];
 
   return (
     <div className="min-h-screen bg-slate-900 text-white p-8">
@@ -996,6 +1004,19 @@ export default function ProvidersPage() {
                     ))}
                   </select>
                 </div>
+                <div>
+                  <label className="block text-sm text-slate-400 mb-1">Shift Reminders</label>
+                  <select
+                    value={editFormData.reminderChannel}
+                    onChange={(e) => setEditFormData({ ...editFormData, reminderChannel: e.target.value })}
+                    className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:border-emerald-500"
+                  >
+                    <option value="both">SMS and email</option>
+                    <option value="sms">SMS only</option>
+                    <option value="email">Email only</option>
+                    <option value="none">No reminders</option>
+                  </select>
+                </div>
                 <div className="flex gap-2">
                   <button
                     type="submit"
@@ -1097,14 +1118,35 @@ export default function ProvidersPage() {
 
             {/* Skills Section */}
             <div>
-              <h3 className="font-medium mb-2">Skills</h3>
+              <h3 className="font-medium mb-2">Skills &amp; Credentials</h3>
               <div className="flex flex-wrap gap-2 mb-3">
-                {providerSkills?.map((skill) => (
+                {providerSkills?.map((skill) => {
+                  const credential = selectedProviderData.credentials.find((c: ProviderCredential) => c.skillId === skill._id);
+                  const isExpired = !!credential?.expiresDate && credential.expiresDate < today;
+                  return (
                   <span
                     key={skill._id}
-                    className="px-2 py-1 bg-emerald-600/50 rounded text-sm flex items-center gap-1"
+                    className={`px-2 py-1 rounded text-sm flex items-center gap-1 ${
+                      credential?.verificationStatus === "rejected" || isExpired
+                        ? "bg-red-600/50"
+                        : credential?.verificationStatus === "pending"
+                        ? "bg-yellow-600/50"
+                        : "bg-emerald-600/50"
+                    }`}
                   >
-                    {skill.name}
+                    <button
+                      onClick={() => setEditingCredentialSkillId(skill._id)}
+                      className="hover:underline"
+                      title="Edit credential details"
+                    >
+                      {skill.name}
+                      {credential?.issuingState && ` (${credential.issuingState})`}
+                      {credential?.expiresDate && (
+                        <span className="text-xs opacity-80"> {isExpired ? "expired" : "exp"} {credential.expiresDate}</span>
+                      )}
+                      {credential?.verificationStatus === "pending" && <span className="text-xs opacity-80"> unverified</span>}
+                      {credential?.verificationStatus === "rejected" && <span className="text-xs opacity-80"> rejected</span>}
+                    </button>
                     <button
                       onClick={() => handleRemoveSkill(selectedProviderData._id, skill._id)}
                       className="text-red-400 hover:text-red-300 ml-1"
@@ -1112,11 +1154,21 @@ export default function ProvidersPage() {
                       ×
                     </button>
                   </span>
-                ))}
+                  );
+                })}
                 {providerSkills?.length === 0 && (
                   <span className="text-slate-400 text-sm">No skills assigned</span>
                 )}
               </div>
+              {editingCredential && editingCredentialSkill && (
+                <CredentialEditor
+                  key={editingCredential.skillId}
+                  providerId={selectedProviderData._id}
+                  skillName={editingCredentialSkill.name}
+                  credential={editingCredential}
+                  onClose={() => setEditingCredentialSkillId(null)}
+                />
+              )}
               <div>
                 <label className="text-sm text-slate-400">Add Skill:</label>
                 <select
@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../../../../../convex/_generated/api";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { Id } from "../../../../../../convex/_generated/dataModel";
+
+type StateFilter = "all" | "expired" | "expiring" | "pending" | "rejected";
+
+const stateLabels: Record<Exclude<StateFilter, "all">, { label: string; className: string }> = {
+  expired: { label: "Expired", className: "bg-red-500/20 text-red-300" },
+  rejected: { label: "Rejected", className: "bg-red-500/20 text-red-300" },
+  expiring: { label: "Expires in window", className: "bg-orange-500/20 text-orange-300" },
+  pending: { label: "Unverified", className: "bg-yellow-500/20 text-yellow-300" },
+};
+
+const formatDate = (date: string) =>
+  new Date(date + "T00:00:00").toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+export default function ScenarioCredentialsPage() {
+  const params = useParams();
+  const scenarioId = params.id as Id<"strike_scenarios">;
+
+  const [stateFilter, setStateFilter] = useState<StateFilter>("all");
+  const [atRiskOnly, setAtRiskOnly] = useState(false);
+
+  const data = useQuery(api.credentials.getExpiringForScenario, { scenarioId });
+
+  const rows =
+    data?.credentials.filter(
+      (c) => (stateFilter === "all" || c.state === stateFilter) && (!atRiskOnly || c.atRiskAssignments.length > 0)
+    ) ?? [];
+
+  return (
+    <div className="p-8 text-white">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <Link
+            href={`/dashboard/scenarios/${scenarioId}`}
+            className="text-slate-400 hover:text-white text-sm mb-2 inline-block"
+          >
+            &larr; Back to Scenario
+          </Link>
+          <h1 className="text-3xl font-bold">Expiring Credentials</h1>
+          {data && (
+            <p className="text-slate-400 mt-1">
+              {data.scenario.name} &middot; {formatDate(data.scenario.startDate)} -{" "}
+              {formatDate(data.scenario.endDate)} &middot; credentials for skills this scenario requires, and
+              agency documents
+            </p>
+          )}
+        </div>
+
+        {data === undefined ? (
+          <div className="text-slate-400">Loading...</div>
+        ) : data === null ? (
+          <div className="text-slate-400">Scenario not found</div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-5 gap-4 mb-6">
+              {(
+                [
+                  ["Assignments at risk", data.summary.atRiskAssignments, "text-red-400"],
+                  ["Expired", data.summary.expired, "text-red-400"],
+                  ["Expire in window", data.summary.expiring, "text-orange-400"],
+                  ["Unverified", data.summary.pending, "text-yellow-400"],
+                  ["Rejected", data.summary.rejected, "text-red-400"],
+                ] as const
+              ).map(([label, value, color]) => (
+                <div key={label} className="bg-slate-800 rounded-lg p-4">
+                  <div className={`text-2xl font-bold ${value > 0 ? color : "text-slate-300"}`}>{value}</div>
+                  <div className="text-sm text-slate-400">{label}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Filters */}
+            <div className="flex items-center gap-4 mb-4">
+              <div className="flex bg-slate-800 rounded-lg p-1">
+                {(["all", "expired", "expiring", "pending", "rejected"] as const).map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => setStateFilter(value)}
+                    className={`px-3 py-1.5 rounded text-sm transition-colors ${
+                      stateFilter === value ? "bg-emerald-600 text-white" : "text-slate-300 hover:text-white"
+                    }`}
+                  >
+                    {value === "all" ? "All" : stateLabels[value].label}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <input type="checkbox" checked={atRiskOnly} onChange={(e) => setAtRiskOnly(e.target.checked)} />
+                Only with assignments at risk
+              </label>
+            </div>
+
+            <div className="bg-slate-800 rounded-lg overflow-hidden">
+              {rows.length === 0 ? (
+                <div className="p-6 text-slate-400">
+                  {data.credentials.length === 0
+                    ? "No credentials need attention before this scenario ends"
+                    : "No credentials match these filters"}
+                </div>
+              ) : (
+                <table className="w-full">
+                  <thead className="bg-slate-700/50">
+                    <tr className="text-left text-sm text-slate-400">
+                      <th className="px-4 py-3 font-medium">Provider</th>
+                      <th className="px-4 py-3 font-medium">Credential</th>
+                      <th className="px-4 py-3 font-medium">Status</th>
+                      <th className="px-4 py-3 font-medium">Expires</th>
+                      <th className="px-4 py-3 font-medium">Open Positions Needing</th>
+                      <th className="px-4 py-3 font-medium">Assignments at Risk</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-700">
+                    {rows.map((row, index) => (
+                      <tr key={`${row.providerId}-${row.source}-${row.name}-${index}`} className="text-sm">
+                        <td className="px-4 py-3">
+                          <div className="font-medium">{row.providerName}</div>
+                          {row.vendorName && <div className="text-xs text-slate-500">{row.vendorName}</div>}
+                        </td>
+                        <td className="px-4 py-3">
+                          {row.name}
+                          {row.issuingState && <span className="text-slate-500"> ({row.issuingState})</span>}
+                          <div className="text-xs text-slate-500">
+                            {row.source === "document" ? "Agency document" : "Skill credential"}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className={`px-2 py-0.5 rounded text-xs ${stateLabels[row.state].className}`}>
+                            {stateLabels[row.state].label}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-slate-300">
+                          {row.expiresDate ? formatDate(row.expiresDate) : "-"}
+                        </td>
+                        <td className="px-4 py-3 text-slate-300">
+                          {row.source === "skill" ? row.openPositionsNeeding : "-"}
+                        </td>
+                        <td className="px-4 py-3">
+                          {row.atRiskAssignments.length === 0 ? (
+                            <span className="text-slate-500">None</span>
+                          ) : (
+                            <div className="flex flex-wrap gap-1">
+                              {row.atRiskAssignments.map((a) => (
+                                <span
+                                  key={a.assignmentId}
+                                  className="px-2 py-0.5 bg-red-900/50 rounded text-xs text-red-200"
+                                  title={a.jobCode}
+                                >
+                                  {new Date(a.date + "T00:00:00").toLocaleDateString("en-US", {
+                                    month: "short",
+                                    day: "numeric",
+                                  })}{" "}
+                                  {a.shiftType}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <p className="text-xs text-slate-500 mt-4">
+              Expired and rejected credentials stop a provider being matched to shifts that need the skill; existing
+              assignments after expiry are listed as at risk. Unverified credentials still match, but never as
+              Perfect. Update credentials from the Providers page or the agency worker&apos;s documents.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
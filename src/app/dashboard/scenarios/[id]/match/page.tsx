@@ -57,11 +57,14 @@ export default function ScenarioMatchPage() {
   const confirmPendingAssignment = async () => {
     if (!pendingAssignment) return;
     try {
-      await createAssignment({
+      const result = await createAssignment({
         scenarioPositionId: pendingAssignment.positionId,
         providerId: pendingAssignment.providerId,
       });
       toast.success(`Assigned ${pendingAssignment.providerName}`);
+      if (result.dutyHourWarnings.length > 0) {
+        toast.warning(`Duty-hour warning: ${result.dutyHourWarnings.join("; ")}`);
+      }
       setSelectedPositionId(null);
       setShowConfirmModal(false);
       setPendingAssignment(null);
@@ -353,6 +356,19 @@ export default function ScenarioMatchPage() {
                         </div>
                       )}
 
+                      {match.dutyHourViolations.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mb-2">
+                          {match.dutyHourViolations.map((violation: string) => (
+                            <span
+                              key={violation}
+                              className="px-1.5 py-0.5 bg-amber-500/20 text-amber-400 rounded text-xs"
+                            >
+                              {violation}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+
                       <button
                         onClick={() => handleAssign(match.providerId, match.providerName)}
                         className="w-full mt-2 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 rounded text-sm transition-colors"
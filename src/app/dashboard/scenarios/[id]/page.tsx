@@ -8,6 +8,13 @@ import { toast } from "sonner";
 import Link from "next/link";
 import { Id } from "../../../../../convex/_generated/dataModel";
 import SendAvailabilityDialog from "@/components/scenarios/SendAvailabilityDialog";
+import { CampaignTimeline, StartCampaignDialog } from "@/components/scenarios/CoverageCampaigns";
+import { ConfirmationRiskPanel } from "@/components/scenarios/ConfirmationRiskPanel";
+import { ShiftRequestsPanel } from "@/components/scenarios/ShiftRequestsPanel";
+import { StandbyPanel } from "@/components/scenarios/StandbyPanel";
+import { CensusDeltaPanel } from "@/components/scenarios/CensusDeltaPanel";
+import { ElectiveThrottlingPanel } from "@/components/scenarios/ElectiveThrottlingPanel";
+import { AmendmentPanel } from "@/components/scenarios/AmendmentPanel";
 
 export default function ScenarioDetailPage() {
   const params = useParams();
@@ -24,6 +31,7 @@ export default function ScenarioDetailPage() {
 
   const [viewMode, setViewMode] = useState<"dashboard" | "grid">("dashboard");
   const [showSendAvailability, setShowSendAvailability] = useState(false);
+  const [campaignPosition, setCampaignPosition] = useState<any>(null);
 
   const handleActivate = async () => {
     try {
@@ -123,6 +131,22 @@ export default function ScenarioDetailPage() {
             )}
           </div>
           <div className="flex items-center gap-2">
+            {(scenario.status === "Draft" || scenario.status === "Active") && (
+              <Link
+                href={`/dashboard/scenarios/${scenarioId}/supply`}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"
+              >
+                Supply Heatmap
+              </Link>
+            )}
+            {(scenario.status === "Draft" || scenario.status === "Active") && (
+              <Link
+                href={`/dashboard/scenarios/${scenarioId}/credentials`}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"
+              >
+                Credentials
+              </Link>
+            )}
             {scenario.status === "Draft" && (
               <button
                 onClick={handleActivate}
@@ -305,6 +329,14 @@ export default function ScenarioDetailPage() {
                         <span className="px-2 py-0.5 bg-slate-600 rounded text-xs">
                           {pos.jobTypeCode}
                         </span>
+                        {scenario.status === "Active" && (
+                          <button
+                            onClick={() => setCampaignPosition(pos)}
+                            className="text-xs text-emerald-400 hover:text-emerald-300"
+                          >
+                            Text
+                          </button>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -316,6 +348,35 @@ export default function ScenarioDetailPage() {
                 </div>
               </div>
             )}
+
+            {/* Census-mode scenarios: positions to add/cancel after new imports */}
+            {(scenario.status === "Draft" || scenario.status === "Active") && (
+              <CensusDeltaPanel scenarioId={scenarioId} />
+            )}
+
+            {/* Date and job type changes to an Active scenario, with history */}
+            <AmendmentPanel scenario={scenario} />
+
+            {/* Procedures to postpone so downstream units stay within capacity */}
+            {(scenario.status === "Draft" || scenario.status === "Active") && (
+              <ElectiveThrottlingPanel scenarioId={scenarioId} />
+            )}
+
+            {/* Unconfirmed shifts close to start */}
+            {scenario.status === "Active" && <ConfirmationRiskPanel scenarioId={scenarioId} />}
+
+            {/* Drop/swap requests from the provider portal */}
+            <ShiftRequestsPanel scenarioId={scenarioId} />
+
+            {/* Ranked standby lists, promoted when a shift reopens */}
+            <StandbyPanel
+              scenarioId={scenarioId}
+              startDate={scenario.startDate}
+              endDate={scenario.endDate}
+            />
+
+            {/* SMS Campaign Timeline */}
+            <CampaignTimeline scenarioId={scenarioId} />
           </div>
         )}
 
@@ -411,6 +472,12 @@ export default function ScenarioDetailPage() {
           </div>
         )}
 
+        {/* Start SMS Campaign Dialog */}
+        <StartCampaignDialog
+          position={campaignPosition}
+          onClose={() => setCampaignPosition(null)}
+        />
+
         {/* Send Availability Dialog */}
         <SendAvailabilityDialog
           scenarioId={scenarioId}
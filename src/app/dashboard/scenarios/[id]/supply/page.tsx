@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../../../../../convex/_generated/api";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { Id } from "../../../../../../convex/_generated/dataModel";
+
+type Basis = "available" | "skilled";
+
+// Supply per open position: plenty, tight, short, impossible
+const cellColor = (open: number, supply: number) => {
+  if (open === 0) return "bg-slate-700/40 text-slate-500";
+  const ratio = supply / open;
+  if (ratio >= 1.5) return "bg-emerald-500/25 text-emerald-300";
+  if (ratio >= 1) return "bg-yellow-500/25 text-yellow-300";
+  if (ratio >= 0.5) return "bg-orange-500/25 text-orange-300";
+  return "bg-red-500/30 text-red-300";
+};
+
+export default function ScenarioSupplyPage() {
+  const params = useParams();
+  const scenarioId = params.id as Id<"strike_scenarios">;
+
+  const [groupBy, setGroupBy] = useState<"service" | "jobType">("service");
+  const [basis, setBasis] = useState<Basis>("available");
+
+  const scenario = useQuery(api.scenarios.get, { scenarioId });
+  const data = useQuery(api.scenarioMatching.getSupplyDemand, { scenarioId, groupBy });
+
+  const columns = data ? data.dates.flatMap((date) => data.shiftTypes.map((shiftType) => ({ date, shiftType }))) : [];
+
+  const renderCell = (
+    cell: { open: number; total: number; available: number; skilled: number; noResponse: number } | undefined,
+    key: string
+  ) => {
+    if (!cell) {
+      return (
+        <td key={key} className="px-1 py-1 text-center">
+          <span className="text-slate-600">-</span>
+        </td>
+      );
+    }
+    const supply = cell[basis];
+    return (
+      <td key={key} className="px-1 py-1 text-center">
+        <div
+          className={`rounded px-2 py-1 text-xs font-medium ${cellColor(cell.open, supply)}`}
+          title={`${cell.open} open of ${cell.total} · ${cell.available} available · ${cell.skilled} with all required skills · ${cell.noResponse} no response`}
+        >
+          {cell.open}/{supply}
+        </div>
+      </td>
+    );
+  };
+
+  return (
+    <div className="p-8 text-white">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <Link
+              href={`/dashboard/scenarios/${scenarioId}`}
+              className="text-slate-400 hover:text-white text-sm mb-2 inline-block"
+            >
+              &larr; Back to Scenario
+            </Link>
+            <h1 className="text-3xl font-bold">Supply vs Demand</h1>
+            <p className="text-slate-400 mt-1">
+              {scenario?.name} &middot; open positions against distinct eligible providers who said they&apos;re
+              available
+            </p>
+          </div>
+          <div className="flex gap-4">
+            <div className="flex bg-slate-800 rounded-lg p-1">
+              {(["service", "jobType"] as const).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setGroupBy(value)}
+                  className={`px-3 py-1.5 rounded text-sm transition-colors ${
+                    groupBy === value ? "bg-emerald-600 text-white" : "text-slate-300 hover:text-white"
+                  }`}
+                >
+                  {value === "service" ? "By Service" : "By Job Type"}
+                </button>
+              ))}
+            </div>
+            <div className="flex bg-slate-800 rounded-lg p-1">
+              {(["available", "skilled"] as const).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setBasis(value)}
+                  className={`px-3 py-1.5 rounded text-sm transition-colors ${
+                    basis === value ? "bg-emerald-600 text-white" : "text-slate-300 hover:text-white"
+                  }`}
+                >
+                  {value === "available" ? "Available" : "Available + Skills"}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Shortfalls */}
+        {data && data.shortfalls.length > 0 && (
+          <div className="bg-red-900/30 border border-red-700 rounded-lg p-4 mb-6">
+            <h3 className="font-medium text-red-300 mb-2">
+              {data.shortfalls.length} shift{data.shortfalls.length === 1 ? "" : "s"} with fewer available providers
+              than open positions
+            </h3>
+            <div className="flex flex-wrap gap-2 text-sm">
+              {data.shortfalls.map((cell) => (
+                <span
+                  key={`${cell.date}-${cell.shiftType}`}
+                  className="px-2 py-1 bg-red-900/50 rounded text-red-200"
+                >
+                  {new Date(cell.date).toLocaleDateString("en-US", { month: "short", day: "numeric" })}{" "}
+                  {cell.shiftType}: short {cell.open - cell.available}
+                </span>
+              ))}
+            </div>
+            <p className="text-xs text-red-300/80 mt-2">
+              Consider agency staff or asking providers who haven&apos;t responded to enter availability
+            </p>
+          </div>
+        )}
+
+        {/* Heatmap */}
+        <div className="bg-slate-800 rounded-lg p-6 overflow-x-auto">
+          {data === undefined ? (
+            <div className="text-slate-400">Loading...</div>
+          ) : data === null ? (
+            <div className="text-slate-400">Scenario not found</div>
+          ) : data.rows.length === 0 ? (
+            <div className="text-slate-400">This scenario has no positions</div>
+          ) : (
+            <table className="min-w-max">
+              <thead>
+                <tr>
+                  <th className="text-left text-sm font-medium text-slate-400 pb-2 pr-4 sticky left-0 bg-slate-800">
+                    {data.groupBy === "jobType" ? "Job Type" : "Service"}
+                  </th>
+                  {columns.map(({ date, shiftType }) => (
+                    <th key={`${date}-${shiftType}`} className="text-center text-xs font-medium text-slate-400 pb-2 px-1">
+                      <div>{new Date(date).toLocaleDateString("en-US", { weekday: "short", day: "numeric" })}</div>
+                      <div className="text-slate-500">{shiftType}</div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {data.rows.map((row) => (
+                  <tr key={row.key}>
+                    <td className="text-sm py-1 pr-4 sticky left-0 bg-slate-800">
+                      <div className="font-medium">{row.label}</div>
+                      <div className="text-xs text-slate-500">{row.sublabel}</div>
+                    </td>
+                    {columns.map(({ date, shiftType }) =>
+                      renderCell(
+                        row.cells.find((c) => c.date === date && c.shiftType === shiftType),
+                        `${row.key}-${date}-${shiftType}`
+                      )
+                    )}
+                  </tr>
+                ))}
+                <tr className="border-t border-slate-600">
+                  <td className="text-sm py-2 pr-4 sticky left-0 bg-slate-800 font-medium">All</td>
+                  {columns.map(({ date, shiftType }) =>
+                    renderCell(
+                      data.totals.find((c) => c.date === date && c.shiftType === shiftType),
+                      `total-${date}-${shiftType}`
+                    )
+                  )}
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Legend */}
+        <div className="flex flex-wrap items-center gap-4 mt-4 text-xs text-slate-400">
+          <span>Cells show open positions / providers</span>
+          <span className="px-2 py-0.5 rounded bg-emerald-500/25 text-emerald-300">1.5&times;+ supply</span>
+          <span className="px-2 py-0.5 rounded bg-yellow-500/25 text-yellow-300">Just enough</span>
+          <span className="px-2 py-0.5 rounded bg-orange-500/25 text-orange-300">Short</span>
+          <span className="px-2 py-0.5 rounded bg-red-500/30 text-red-300">Under half covered</span>
+          <span>
+            Providers are counted once per cell; a provider eligible for several services appears in each, so the
+            All row is the true distinct supply.
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,10 +7,12 @@ import { toast } from "sonner";
 import Link from "next/link";
 import { Id } from "../../../../convex/_generated/dataModel";
 import ScenarioWizard from "@/components/scenarios/ScenarioWizard";
+import { WhatIfComparison } from "@/components/scenarios/WhatIfComparison";
 
 function ScenariosPageContent() {
   const scenarios = useQuery(api.scenarios.list, {});
   const currentUser = useQuery(api.users.getCurrentUser);
+  const healthSystems = useQuery(api.healthSystems.list);
   const cancelScenario = useMutation(api.scenarios.cancel);
   const activateScenario = useMutation(api.scenarios.activate);
   const deleteScenario = useMutation(api.scenarios.deleteScenario);
@@ -69,6 +71,12 @@ function ScenariosPageContent() {
     return "bg-red-500";
   };
 
+  // What-ifs belong to one health system; super admins compare within the first
+  const healthSystemId = (currentUser?.healthSystemId ??
+    (healthSystems && healthSystems.length > 0 ? healthSystems[0]._id : undefined)) as
+    | Id<"health_systems">
+    | undefined;
+
   const filteredScenarios = scenarios?.filter((s) => {
     if (filter === "all") return true;
     return s.status === filter;
@@ -94,7 +102,7 @@ function ScenariosPageContent() {
 
         {/* Filter Tabs */}
         <div className="flex gap-2 mb-6">
-          {["all", "Draft", "Active", "Completed", "Cancelled"].map((status) => (
+          {["all", "Draft", "Active", "Completed", "Cancelled", "whatif"].map((status) => (
             <button
               key={status}
               onClick={() => setFilter(status)}
@@ -104,152 +112,162 @@ function ScenariosPageContent() {
                   : "bg-slate-800 text-slate-300 hover:bg-slate-700"
               }`}
             >
-              {status === "all" ? "All" : status}
+              {status === "all" ? "All" : status === "whatif" ? "What-If & Compare" : status}
             </button>
           ))}
         </div>
 
+        {/* What-if scenarios compared side by side */}
+        {filter === "whatif" && (
+          <WhatIfComparison
+            healthSystemId={healthSystemId}
+            scenarios={(scenarios ?? []).filter((s) => s.healthSystemId === healthSystemId)}
+          />
+        )}
+
         {/* Scenarios List */}
-        <div className="space-y-4">
-          {scenarios === undefined ? (
-            <div className="text-slate-400">Loading...</div>
-          ) : filteredScenarios?.length === 0 ? (
-            <div className="bg-slate-800 rounded-lg p-8 text-center">
-              <p className="text-slate-400 mb-4">
-                {filter === "all"
-                  ? "No strike scenarios found"
-                  : `No ${filter.toLowerCase()} scenarios`}
-              </p>
-              {filter === "all" && (
-                <button
-                  onClick={() => setIsWizardOpen(true)}
-                  className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors"
-                >
-                  Create Your First Scenario
-                </button>
-              )}
-            </div>
-          ) : (
-            filteredScenarios?.map((scenario) => (
-              <div key={scenario._id} className="bg-slate-800 rounded-lg p-6">
-                <div className="flex items-start justify-between mb-4">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-3 mb-2">
-                      <h3 className="text-xl font-semibold">{scenario.name}</h3>
-                      <span
-                        className={`px-2 py-1 rounded text-xs font-medium ${getStatusColor(
-                          scenario.status
-                        )}`}
-                      >
-                        {scenario.status}
-                      </span>
-                    </div>
-                    <p className="text-slate-400 text-sm">
-                      {new Date(scenario.startDate).toLocaleDateString()} -{" "}
-                      {new Date(scenario.endDate).toLocaleDateString()}
-                      <span className="mx-2">|</span>
-                      {scenario.stats.totalDays ||
-                        Math.ceil(
-                          (new Date(scenario.endDate).getTime() -
-                            new Date(scenario.startDate).getTime()) /
-                            (1000 * 60 * 60 * 24)
-                        ) + 1}{" "}
-                      days
-                    </p>
-                    {scenario.description && (
-                      <p className="text-slate-500 text-sm mt-1">
-                        {scenario.description}
-                      </p>
-                    )}
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Link
-                      href={`/dashboard/scenarios/${scenario._id}`}
-                      className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded text-sm transition-colors"
-                    >
-                      View Details
-                    </Link>
-                    {scenario.status === "Draft" && (
-                      <>
-                        <button
-                          onClick={() => handleActivate(scenario._id)}
-                          className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 rounded text-sm transition-colors"
+        {filter !== "whatif" && (
+          <div className="space-y-4">
+            {scenarios === undefined ? (
+              <div className="text-slate-400">Loading...</div>
+            ) : filteredScenarios?.length === 0 ? (
+              <div className="bg-slate-800 rounded-lg p-8 text-center">
+                <p className="text-slate-400 mb-4">
+                  {filter === "all"
+                    ? "No strike scenarios found"
+                    : `No ${filter.toLowerCase()} scenarios`}
+                </p>
+                {filter === "all" && (
+                  <button
+                    onClick={() => setIsWizardOpen(true)}
+                    className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors"
+                  >
+                    Create Your First Scenario
+                  </button>
+                )}
+              </div>
+            ) : (
+              filteredScenarios?.map((scenario) => (
+                <div key={scenario._id} className="bg-slate-800 rounded-lg p-6">
+                  <div className="flex items-start justify-between mb-4">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-3 mb-2">
+                        <h3 className="text-xl font-semibold">{scenario.name}</h3>
+                        <span
+                          className={`px-2 py-1 rounded text-xs font-medium ${getStatusColor(
+                            scenario.status
+                          )}`}
                         >
-                          Activate
-                        </button>
+                          {scenario.status}
+                        </span>
+                      </div>
+                      <p className="text-slate-400 text-sm">
+                        {new Date(scenario.startDate).toLocaleDateString()} -{" "}
+                        {new Date(scenario.endDate).toLocaleDateString()}
+                        <span className="mx-2">|</span>
+                        {scenario.stats.totalDays ||
+                          Math.ceil(
+                            (new Date(scenario.endDate).getTime() -
+                              new Date(scenario.startDate).getTime()) /
+                              (1000 * 60 * 60 * 24)
+                          ) + 1}{" "}
+                        days
+                      </p>
+                      {scenario.description && (
+                        <p className="text-slate-500 text-sm mt-1">
+                          {scenario.description}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Link
+                        href={`/dashboard/scenarios/${scenario._id}`}
+                        className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded text-sm transition-colors"
+                      >
+                        View Details
+                      </Link>
+                      {scenario.status === "Draft" && (
+                        <>
+                          <button
+                            onClick={() => handleActivate(scenario._id)}
+                            className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 rounded text-sm transition-colors"
+                          >
+                            Activate
+                          </button>
+                          <button
+                            onClick={() => handleDelete(scenario._id)}
+                            className="px-3 py-1.5 bg-red-600 hover:bg-red-700 rounded text-sm transition-colors"
+                          >
+                            Delete
+                          </button>
+                        </>
+                      )}
+                      {scenario.status === "Active" && (
                         <button
-                          onClick={() => handleDelete(scenario._id)}
-                          className="px-3 py-1.5 bg-red-600 hover:bg-red-700 rounded text-sm transition-colors"
+                          onClick={() => handleCancel(scenario._id)}
+                          className="px-3 py-1.5 bg-amber-600 hover:bg-amber-700 rounded text-sm transition-colors"
                         >
-                          Delete
+                          Cancel
                         </button>
-                      </>
-                    )}
-                    {scenario.status === "Active" && (
-                      <button
-                        onClick={() => handleCancel(scenario._id)}
-                        className="px-3 py-1.5 bg-amber-600 hover:bg-amber-700 rounded text-sm transition-colors"
-                      >
-                        Cancel
-                      </button>
-                    )}
+                      )}
+                    </div>
                   </div>
-                </div>
 
-                {/* Affected Job Types */}
-                <div className="mb-4">
-                  <p className="text-sm text-slate-400 mb-2">Affected Job Types:</p>
-                  <div className="flex flex-wrap gap-2">
-                    {scenario.affectedJobTypeDetails?.map((jt: any) => (
-                      <span
-                        key={jt.code}
-                        className="px-3 py-1 bg-slate-700 rounded-full text-sm"
-                      >
-                        {jt.name} ({jt.code}) - {jt.reductionPercent}% reduction
-                      </span>
-                    ))}
+                  {/* Affected Job Types */}
+                  <div className="mb-4">
+                    <p className="text-sm text-slate-400 mb-2">Affected Job Types:</p>
+                    <div className="flex flex-wrap gap-2">
+                      {scenario.affectedJobTypeDetails?.map((jt: any) => (
+                        <span
+                          key={jt.code}
+                          className="px-3 py-1 bg-slate-700 rounded-full text-sm"
+                        >
+                          {jt.name} ({jt.code}) - {jt.reductionPercent}% reduction
+                        </span>
+                      ))}
+                    </div>
                   </div>
-                </div>
 
-                {/* Coverage Stats */}
-                <div className="grid grid-cols-4 gap-4">
-                  <div className="bg-slate-700/50 rounded-lg p-3">
-                    <p className="text-xs text-slate-400 mb-1">Total Positions</p>
-                    <p className="text-2xl font-bold">{scenario.stats.totalPositions}</p>
-                  </div>
-                  <div className="bg-slate-700/50 rounded-lg p-3">
-                    <p className="text-xs text-slate-400 mb-1">Filled</p>
-                    <p className="text-2xl font-bold text-emerald-400">
-                      {scenario.stats.filledPositions}
-                    </p>
-                  </div>
-                  <div className="bg-slate-700/50 rounded-lg p-3">
-                    <p className="text-xs text-slate-400 mb-1">Open</p>
-                    <p className="text-2xl font-bold text-amber-400">
-                      {scenario.stats.openPositions}
-                    </p>
-                  </div>
-                  <div className="bg-slate-700/50 rounded-lg p-3">
-                    <p className="text-xs text-slate-400 mb-1">Coverage</p>
-                    <div className="flex items-center gap-2">
-                      <p className="text-2xl font-bold">
-                        {scenario.stats.coveragePercent}%
+                  {/* Coverage Stats */}
+                  <div className="grid grid-cols-4 gap-4">
+                    <div className="bg-slate-700/50 rounded-lg p-3">
+                      <p className="text-xs text-slate-400 mb-1">Total Positions</p>
+                      <p className="text-2xl font-bold">{scenario.stats.totalPositions}</p>
+                    </div>
+                    <div className="bg-slate-700/50 rounded-lg p-3">
+                      <p className="text-xs text-slate-400 mb-1">Filled</p>
+                      <p className="text-2xl font-bold text-emerald-400">
+                        {scenario.stats.filledPositions}
+                      </p>
+                    </div>
+                    <div className="bg-slate-700/50 rounded-lg p-3">
+                      <p className="text-xs text-slate-400 mb-1">Open</p>
+                      <p className="text-2xl font-bold text-amber-400">
+                        {scenario.stats.openPositions}
                       </p>
-                      <div className="flex-1 h-2 bg-slate-600 rounded-full overflow-hidden">
-                        <div
-                          className={`h-full ${getCoverageColor(
-                            scenario.stats.coveragePercent
-                          )} transition-all`}
-                          style={{ width: `${scenario.stats.coveragePercent}%` }}
-                        />
+                    </div>
+                    <div className="bg-slate-700/50 rounded-lg p-3">
+                      <p className="text-xs text-slate-400 mb-1">Coverage</p>
+                      <div className="flex items-center gap-2">
+                        <p className="text-2xl font-bold">
+                          {scenario.stats.coveragePercent}%
+                        </p>
+                        <div className="flex-1 h-2 bg-slate-600 rounded-full overflow-hidden">
+                          <div
+                            className={`h-full ${getCoverageColor(
+                              scenario.stats.coveragePercent
+                            )} transition-all`}
+                            style={{ width: `${scenario.stats.coveragePercent}%` }}
+                          />
+                        </div>
                       </div>
                     </div>
                   </div>
                 </div>
-              </div>
-            ))
-          )}
-        </div>
+              ))
+            )}
+          </div>
+        )}
 
         {/* Scenario Creation Wizard */}
         <ScenarioWizard
@@ -6,6 +6,7 @@ import { api } from "../../../../convex/_generated/api";
 import { toast } from "sonner";
 import Link from "next/link";
 import { Id } from "../../../../convex/_generated/dataModel";
+import { StaffingRatiosModal } from "@/components/units/StaffingRatiosModal";
 
 export default function UnitsPage() {
   const currentUser = useQuery(api.users.getCurrentUser);
@@ -30,6 +31,7 @@ export default function UnitsPage() {
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingUnit, setEditingUnit] = useState<any>(null);
+  const [ratiosUnitId, setRatiosUnitId] = useState<Id<"units"> | null>(null);
   const [formData, setFormData] = useState({
     name: "",
     description: "",
@@ -118,7 +120,7 @@ export default function UnitsPage() {
             </Link>
             <h1 className="text-3xl font-bold">Hospital Units</h1>
             <p className="text-slate-400">
-              Manage floor units like ICU, 7E, CCU, etc.
+              Manage floor units like ICU, 7E, CCU, etc. and their nurse-to-patient ratios
             </p>
           </div>
         </div>
@@ -232,6 +234,12 @@ export default function UnitsPage() {
                               >
                                 Edit
                               </button>
+                              <button
+                                onClick={() => setRatiosUnitId(unit._id)}
+                                className="px-3 py-1 bg-slate-600 hover:bg-slate-500 rounded text-sm transition-colors"
+                              >
+                                Ratios
+                              </button>
                               <button
                                 onClick={() => handleToggleActive(unit._id)}
                                 className={`px-3 py-1 rounded text-sm transition-colors ${
@@ -262,6 +270,11 @@ export default function UnitsPage() {
           </div>
         )}
 
+        {/* Staffing Ratios Modal */}
+        {ratiosUnitId && (
+          <StaffingRatiosModal unitId={ratiosUnitId} onClose={() => setRatiosUnitId(null)} />
+        )}
+
         {/* Modal */}
         {isModalOpen && (
           <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
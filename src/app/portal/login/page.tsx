@@ -0,0 +1,66 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../../../convex/_generated/api";
+import { useRouter, useSearchParams } from "next/navigation";
+import { PORTAL_SESSION_KEY } from "@/components/portal/session";
+
+function MagicLinkLogin() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const verifyLink = useMutation(api.portal.verifyLink);
+  const [error, setError] = useState<string | null>(null);
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    if (!token) {
+      setError("This sign-in link is incomplete.");
+      return;
+    }
+
+    verifyLink({ token })
+      .then((result) => {
+        if ("error" in result) {
+          setError(result.error);
+          return;
+        }
+        localStorage.setItem(PORTAL_SESSION_KEY, result.sessionToken);
+        router.replace("/portal");
+      })
+      .catch((err: any) => setError(err.message || "Sign-in failed"));
+  }, [token, verifyLink, router]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-900 to-slate-800 flex items-center justify-center p-4">
+      <div className="bg-slate-800 rounded-xl p-8 max-w-md w-full text-center shadow-2xl">
+        {error ? (
+          <>
+            <h1 className="text-2xl font-bold text-white mb-2">Unable to Sign In</h1>
+            <p className="text-slate-400 mb-6">{error}</p>
+            <a
+              href="/portal"
+              className="px-6 py-2 bg-emerald-600 hover:bg-emerald-700 text-white font-medium rounded-lg transition-colors"
+            >
+              Request a new code
+            </a>
+          </>
+        ) : (
+          <div className="text-white text-xl">Signing you in...</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function PortalLoginPage() {
+  return (
+    <Suspense fallback={null}>
+      <MagicLinkLogin />
+    </Suspense>
+  );
+}
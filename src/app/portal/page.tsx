@@ -0,0 +1,80 @@
+"use client";
+
+import { useEffect } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { usePortalSession } from "@/components/portal/session";
+import { PortalSignIn } from "@/components/portal/PortalSignIn";
+import { UpcomingShifts, OpenShifts, ShiftMarketplace } from "@/components/portal/PortalShifts";
+import { PortalAvailability } from "@/components/portal/PortalAvailability";
+
+export default function ProviderPortalPage() {
+  const { sessionToken, saveSession, clearSession } = usePortalSession();
+
+  if (sessionToken === undefined) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-slate-900 to-slate-800 flex items-center justify-center">
+        <div className="text-white text-xl">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!sessionToken) {
+    return <PortalSignIn onSignedIn={saveSession} />;
+  }
+
+  return <PortalHome sessionToken={sessionToken} onSignedOut={clearSession} />;
+}
+
+function PortalHome({ sessionToken, onSignedOut }: { sessionToken: string; onSignedOut: () => void }) {
+  const home = useQuery(api.portal.getHome, { sessionToken });
+  const signOut = useMutation(api.portal.signOut);
+
+  // Expired or revoked session - back to sign-in
+  useEffect(() => {
+    if (home === null) onSignedOut();
+  }, [home, onSignedOut]);
+
+  if (!home) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-slate-900 to-slate-800 flex items-center justify-center">
+        <div className="text-white text-xl">Loading...</div>
+      </div>
+    );
+  }
+
+  const handleSignOut = async () => {
+    await signOut({ sessionToken });
+    onSignedOut();
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-900 to-slate-800 py-8 px-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="bg-slate-800 rounded-xl p-6 shadow-xl flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-white">
+              {home.provider.firstName} {home.provider.lastName}
+            </h1>
+            <p className="text-slate-400">
+              {home.provider.jobTypeName} &middot; {home.provider.homeHospitalName}
+            </p>
+          </div>
+          <button onClick={handleSignOut} className="text-sm text-slate-400 hover:text-slate-300">
+            Sign out
+          </button>
+        </div>
+
+        <UpcomingShifts sessionToken={sessionToken} />
+
+        <ShiftMarketplace sessionToken={sessionToken} />
+
+        <div className="grid lg:grid-cols-2 gap-6 items-start">
+          <OpenShifts sessionToken={sessionToken} />
+          <PortalAvailability sessionToken={sessionToken} />
+        </div>
+      </div>
+    </div>
+  );
+}
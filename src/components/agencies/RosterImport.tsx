@@ -0,0 +1,364 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import * as XLSX from "xlsx";
+
+interface RosterImportProps {
+  vendorId: Id<"agency_vendors">;
+  vendorName: string;
+  hasDefaultPlacement: boolean;
+  existingEmails: string[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface ParsedRow {
+  role: string;
+  lastName: string;
+  firstName: string;
+  email: string;
+  cellPhone: string;
+  homeSite: string;
+  homeDepartment: string;
+  contractRate?: number;
+  errors: string[];
+  isUpdate: boolean; // True if the worker is already on the roster
+}
+
+export default function RosterImport({
+  vendorId,
+  vendorName,
+  hasDefaultPlacement,
+  existingEmails,
+  isOpen,
+  onClose,
+}: RosterImportProps) {
+  const [parsedRows, setParsedRows] = useState<ParsedRow[]>([]);
+  const [step, setStep] = useState<"upload" | "preview" | "result">("upload");
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<{
+    created: number;
+    updated: number;
+    errors: string[];
+  } | null>(null);
+
+  const importRoster = useMutation(api.agencyVendors.importRoster);
+
+  const parseFile = useCallback(
+    (file: File) => {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        try {
+          const data = new Uint8Array(e.target?.result as ArrayBuffer);
+          const workbook = XLSX.read(data, { type: "array" });
+          const sheet = workbook.Sheets[workbook.SheetNames[0]];
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          const jsonData: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1 });
+
+          if (jsonData.length < 2) {
+            toast.error("File appears to be empty or has no data rows");
+            return;
+          }
+
+          // Flexible header matching (case-insensitive, pattern-based)
+          const headers = (jsonData[0] || []).map((h: unknown) =>
+            String(h || "")
+              .trim()
+              .toLowerCase()
+          );
+          const findCol = (patterns: string[]) => headers.findIndex((h) => patterns.some((p) => h.includes(p)));
+
+          const roleColIdx = findCol(["role"]);
+          const lastNameColIdx = findCol(["last name", "lastname"]);
+          const firstNameColIdx = findCol(["first name", "firstname"]);
+          const emailColIdx = findCol(["email"]);
+          const cellPhoneColIdx = findCol(["cell", "phone"]);
+          const homeSiteColIdx = findCol(["home site", "site"]);
+          const homeDeptColIdx = findCol(["home department", "department"]);
+          const rateColIdx = findCol(["rate"]);
+
+          if (emailColIdx === -1) {
+            toast.error("No Email column found");
+            return;
+          }
+
+          const known = new Set(existingEmails.map((e) => e.toLowerCase()));
+          const cell = (row: unknown[], idx: number) => (idx === -1 ? "" : String(row[idx] ?? "").trim());
+
+          const rows: ParsedRow[] = [];
+          for (let i = 1; i < jsonData.length; i++) {
+            const row = jsonData[i];
+            if (!row || row.length === 0) continue;
+
+            const email = cell(row, emailColIdx).toLowerCase();
+            if (!email) continue; // Email is required, skip empty rows
+
+            const errors: string[] = [];
+            const role = cell(row, roleColIdx).toUpperCase();
+            const lastName = cell(row, lastNameColIdx);
+            const firstName = cell(row, firstNameColIdx);
+            const homeSite = cell(row, homeSiteColIdx).toUpperCase();
+            const rateText = cell(row, rateColIdx).replace(/[$,]/g, "");
+            const contractRate = rateText ? Number(rateText) : undefined;
+
+            if (!role) errors.push("Missing role");
+            if (!lastName) errors.push("Missing last name");
+            if (!firstName) errors.push("Missing first name");
+            if (!homeSite && !hasDefaultPlacement) errors.push("No home site and no vendor default");
+            if (contractRate !== undefined && (isNaN(contractRate) || contractRate < 0)) {
+              errors.push(`Invalid rate "${rateText}"`);
+            }
+
+            rows.push({
+              role,
+              lastName,
+              firstName,
+              email,
+              cellPhone: cell(row, cellPhoneColIdx),
+              homeSite,
+              homeDepartment: cell(row, homeDeptColIdx),
+              contractRate: contractRate !== undefined && !isNaN(contractRate) ? contractRate : undefined,
+              errors,
+              isUpdate: known.has(email),
+            });
+          }
+
+          setParsedRows(rows);
+          setStep("preview");
+        } catch (error) {
+          console.error("Failed to parse file:", error);
+          toast.error("Failed to parse file");
+        }
+      };
+      reader.readAsArrayBuffer(file);
+    },
+    [existingEmails, hasDefaultPlacement]
+  );
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) parseFile(file);
+  };
+
+  const downloadTemplate = () => {
+    const wb = XLSX.utils.book_new();
+    const templateSheet = XLSX.utils.aoa_to_sheet([
+      ["Role", "Last Name", "First Name", "Email", "Cell Phone", "Home Site", "Home Department", "Rate"],
+      ["RN", "Lopez", "Ana", "ana.lopez@agency.com", "555-123-4567", "", "", ""],
+    ]);
+    templateSheet["!cols"] = [
+      { wch: 8 },
+      { wch: 15 },
+      { wch: 15 },
+      { wch: 28 },
+      { wch: 15 },
+      { wch: 10 },
+      { wch: 20 },
+      { wch: 8 },
+    ];
+    XLSX.utils.book_append_sheet(wb, templateSheet, "Roster");
+    XLSX.writeFile(wb, "agency_roster_template.xlsx");
+  };
+
+  const handleImport = async () => {
+    const validRows = parsedRows.filter((r) => r.errors.length === 0);
+    if (validRows.length === 0) {
+      toast.error("No valid rows to import");
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const result = await importRoster({
+        vendorId,
+        rows: validRows.map((r) => ({
+          role: r.role,
+          lastName: r.lastName,
+          firstName: r.firstName,
+          email: r.email,
+          cellPhone: r.cellPhone || undefined,
+          homeSite: r.homeSite || undefined,
+          homeDepartment: r.homeDepartment || undefined,
+          contractRate: r.contractRate,
+        })),
+      });
+      setImportResult(result);
+      setStep("result");
+      toast.success("Import completed");
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Import failed";
+      toast.error(message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleClose = () => {
+    setParsedRows([]);
+    setStep("upload");
+    setImportResult(null);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const validRowCount = parsedRows.filter((r) => r.errors.length === 0).length;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-slate-800 rounded-lg w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <h2 className="text-xl font-semibold">Import Roster &middot; {vendorName}</h2>
+          <button onClick={handleClose} className="text-slate-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4">
+          {step === "upload" && (
+            <div className="space-y-4">
+              <div className="bg-slate-700/50 rounded-lg p-4 text-sm text-slate-300 space-y-2">
+                <p>
+                  <strong>Email is the unique key:</strong> workers already on this roster are UPDATED, new emails are
+                  added with onboarding &quot;pending&quot;.
+                </p>
+                <p>
+                  Home Site and Home Department are optional
+                  {hasDefaultPlacement
+                    ? "; workers without them are placed at the vendor's default."
+                    : ". Set a default placement on the vendor to leave them blank."}{" "}
+                  Rate overrides the vendor&apos;s contract rate.
+                </p>
+                <button
+                  onClick={downloadTemplate}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm transition-colors"
+                >
+                  Download Template
+                </button>
+              </div>
+              <div
+                className="border-2 border-dashed border-slate-600 rounded-lg p-8 text-center hover:border-emerald-500 hover:bg-slate-700/30 transition-colors cursor-pointer"
+                onClick={() => document.getElementById("roster-file-input")?.click()}
+              >
+                <input
+                  id="roster-file-input"
+                  type="file"
+                  accept=".xlsx,.xls,.csv"
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+                <p className="text-lg mb-2">Click to choose the vendor&apos;s roster file</p>
+                <p className="text-sm text-slate-400">Supports .xlsx, .xls, and .csv files</p>
+              </div>
+            </div>
+          )}
+
+          {step === "preview" && (
+            <div>
+              <p className="text-sm text-slate-400 mb-3">
+                {validRowCount} valid of {parsedRows.length} rows &middot;{" "}
+                {parsedRows.filter((r) => r.isUpdate && r.errors.length === 0).length} updates
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-slate-400 border-b border-slate-700">
+                    <th className="text-left py-2">Name</th>
+                    <th className="text-left py-2">Role</th>
+                    <th className="text-left py-2">Email</th>
+                    <th className="text-left py-2">Placement</th>
+                    <th className="text-right py-2">Rate</th>
+                    <th className="text-left py-2 pl-4">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700">
+                  {parsedRows.map((row, i) => (
+                    <tr key={i} className={row.errors.length > 0 ? "bg-red-900/20" : ""}>
+                      <td className="py-2">
+                        {row.lastName}, {row.firstName}
+                      </td>
+                      <td className="py-2">{row.role}</td>
+                      <td className="py-2 text-slate-300">{row.email}</td>
+                      <td className="py-2 text-slate-300">
+                        {row.homeSite ? `${row.homeSite} ${row.homeDepartment}` : "Vendor default"}
+                      </td>
+                      <td className="py-2 text-right">{row.contractRate !== undefined ? `$${row.contractRate}` : "-"}</td>
+                      <td className="py-2 pl-4">
+                        {row.errors.length > 0 ? (
+                          <span className="text-red-400">{row.errors.join(", ")}</span>
+                        ) : row.isUpdate ? (
+                          <span className="text-blue-400">Update</span>
+                        ) : (
+                          <span className="text-emerald-400">New</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {step === "result" && importResult && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="bg-emerald-900/30 rounded-lg p-4 text-center">
+                  <div className="text-2xl font-bold text-emerald-400">{importResult.created}</div>
+                  <div className="text-sm text-slate-400">Added</div>
+                </div>
+                <div className="bg-blue-900/30 rounded-lg p-4 text-center">
+                  <div className="text-2xl font-bold text-blue-400">{importResult.updated}</div>
+                  <div className="text-sm text-slate-400">Updated</div>
+                </div>
+                <div className="bg-red-900/30 rounded-lg p-4 text-center">
+                  <div className="text-2xl font-bold text-red-400">{importResult.errors.length}</div>
+                  <div className="text-sm text-slate-400">Errors</div>
+                </div>
+              </div>
+              {importResult.errors.length > 0 && (
+                <ul className="text-sm text-red-300 space-y-1">
+                  {importResult.errors.map((error, i) => (
+                    <li key={i}>{error}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-700 flex justify-end gap-2">
+          {step === "preview" && (
+            <>
+              <button
+                onClick={() => setStep("upload")}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={isImporting || validRowCount === 0}
+                className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 rounded-lg transition-colors"
+              >
+                {isImporting ? "Importing..." : `Import ${validRowCount} Workers`}
+              </button>
+            </>
+          )}
+          {step === "result" && (
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors"
+            >
+              Done
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -20,6 +20,8 @@ interface ForecastDay {
   predictedDowngrades: number;
   procedureAdmits: number; // Admits from scheduled procedures
   netChange: number;
+  amRnNeeded: number; // From the unit's ratio table for that date
+  pmRnNeeded: number;
 }
 
 interface UnitForecast {
@@ -64,6 +66,8 @@ export default function CensusForecastChart({
           procedureAdmits: number; // New admits from procedures
           discharges: number;
           downgrades: number;
+          amRnNeeded: number;
+          pmRnNeeded: number;
         }
       >();
 
@@ -77,6 +81,8 @@ export default function CensusForecastChart({
             procedureAdmits: 0,
             discharges: 0,
             downgrades: 0,
+            amRnNeeded: 0,
+            pmRnNeeded: 0,
           };
           existing.totalCensus += dayData.projectedCensus;
           // currentPatients = projectedCensus minus procedureAdmits (just the census patients)
@@ -84,6 +90,8 @@ export default function CensusForecastChart({
           existing.procedureAdmits += dayData.procedureAdmits;
           existing.discharges += dayData.predictedDischarges;
           existing.downgrades += dayData.predictedDowngrades;
+          existing.amRnNeeded += dayData.amRnNeeded;
+          existing.pmRnNeeded += dayData.pmRnNeeded;
           dayMap.set(dayData.day, existing);
         }
       }
@@ -103,6 +111,8 @@ export default function CensusForecastChart({
       procedureAdmits: d.procedureAdmits,
       discharges: d.predictedDischarges,
       downgrades: d.predictedDowngrades,
+      amRnNeeded: d.amRnNeeded,
+      pmRnNeeded: d.pmRnNeeded,
     }));
   }, [forecast, selectedUnit]);
 
@@ -143,11 +153,17 @@ export default function CensusForecastChart({
     const currentPatients = payload.find(p => p.dataKey === "currentPatients")?.value || 0;
     const procedureAdmits = payload.find(p => p.dataKey === "procedureAdmits")?.value || 0;
     const totalCensus = currentPatients + procedureAdmits;
+    const day = chartData.find((d) => d.label === label);
 
     return (
       <div className="bg-slate-800 border border-slate-600 rounded-lg p-3 shadow-lg">
         <p className="text-white font-medium mb-2">{label}</p>
         <p className="text-lg font-bold text-white mb-1">Total Census: {totalCensus}</p>
+        {day && (
+          <p className="text-sm text-slate-300">
+            RNs needed: AM {day.amRnNeeded} / PM {day.pmRnNeeded}
+          </p>
+        )}
         <hr className="border-slate-600 my-2" />
         {payload.map((entry, idx) => (
           <p key={idx} className="text-sm" style={{ color: entry.color }}>
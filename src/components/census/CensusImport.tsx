@@ -1,16 +1,18 @@
 "use client";
 
 import { useState, useCallback } from "react";
-import { useMutation } from "convex/react";
+import { useMutation, useQuery } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import { Id } from "../../../convex/_generated/dataModel";
 import { toast } from "sonner";
+import Link from "next/link";
 import {
   parseCensusExcel,
   getParseStats,
   CensusParseResult,
   CensusPatient,
 } from "@/lib/censusParser";
+import PredictionJobPanel from "./PredictionJobPanel";
 
 interface CensusImportProps {
   hospitalId: Id<"hospitals">;
@@ -30,16 +32,27 @@ export default function CensusImport({
   const [step, setStep] = useState<Step>("upload");
   const [parseResult, setParseResult] = useState<CensusParseResult | null>(null);
   const [importResult, setImportResult] = useState<{
+    importId: Id<"census_imports">;
     created: number;
     updated: number;
     discharged: number;
     errors: string[];
+    unmappedUnits: string[];
   } | null>(null);
 
   const createImport = useMutation(api.census.createImport);
   const upsertPatients = useMutation(api.census.upsertPatients);
   const markDischargedPatients = useMutation(api.census.markDischargedPatients);
 
+  // ICU vs floor comes from the hospital's unit mappings
+  const resolvedUnits = useQuery(
+    api.unitMappings.resolveNames,
+    step === "preview" && parseResult
+      ? { hospitalId, unitNames: parseResult.sheets.map((sheet) => sheet.name) }
+      : "skip"
+  );
+  const resolvedBySheet = new Map((resolvedUnits ?? []).map((unit) => [unit.rawName, unit]));
+
   const handleFileSelect = useCallback(async (file: File) => {
     try {
       const data = await file.arrayBuffer();
@@ -167,6 +180,7 @@ export default function CensusImport({
       let totalCreated = 0;
       let totalUpdated = 0;
       const allErrors: string[] = [];
+      const unmappedUnits = new Set<string>();
 
       for (let i = 0; i < allPatients.length; i += batchSize) {
         const batch = allPatients.slice(i, i + batchSize);
@@ -178,6 +192,7 @@ export default function CensusImport({
         totalCreated += result.created;
         totalUpdated += result.updated;
         allErrors.push(...result.errors);
+        result.unmappedUnits.forEach((name) => unmappedUnits.add(name));
       }
 
       // Mark patients not in this import as discharged
@@ -187,10 +202,12 @@ export default function CensusImport({
       });
 
       setImportResult({
+        importId,
         created: totalCreated,
         updated: totalUpdated,
         discharged: dischargeResult.dischargedCount,
         errors: [...parseResult.errors, ...allErrors],
+        unmappedUnits: Array.from(unmappedUnits),
       });
 
       setStep("result");
@@ -218,6 +235,11 @@ export default function CensusImport({
   if (!isOpen) return null;
 
   const stats = parseResult ? getParseStats(parseResult) : null;
+  const patientsOfType = (unitType: "icu" | "floor") =>
+    parseResult?.sheets
+      .filter((sheet) => resolvedBySheet.get(sheet.name)?.unitType === unitType)
+      .reduce((sum, sheet) => sum + sheet.patients.length, 0) ?? 0;
+  const unmappedSheets = parseResult?.sheets.filter((sheet) => resolvedBySheet.get(sheet.name)?.mapped === false) ?? [];
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -283,11 +305,11 @@ export default function CensusImport({
                 </div>
                 <div className="bg-slate-700 rounded-lg p-4">
                   <p className="text-slate-400 text-sm">ICU Patients</p>
-                  <p className="text-2xl font-bold text-red-400">{stats.icuPatients}</p>
+                  <p className="text-2xl font-bold text-red-400">{resolvedUnits ? patientsOfType("icu") : "-"}</p>
                 </div>
                 <div className="bg-slate-700 rounded-lg p-4">
                   <p className="text-slate-400 text-sm">Floor Patients</p>
-                  <p className="text-2xl font-bold text-blue-400">{stats.floorPatients}</p>
+                  <p className="text-2xl font-bold text-blue-400">{resolvedUnits ? patientsOfType("floor") : "-"}</p>
                 </div>
                 <div className="bg-slate-700 rounded-lg p-4">
                   <p className="text-slate-400 text-sm">Units/Sheets</p>
@@ -321,6 +343,22 @@ export default function CensusImport({
                 </div>
               )}
 
+              {/* Unmapped unit names */}
+              {unmappedSheets.length > 0 && (
+                <div className="bg-amber-900/30 border border-amber-700 rounded-lg p-4">
+                  <p className="text-amber-400 font-medium">
+                    {unmappedSheets.length} unit name{unmappedSheets.length === 1 ? "" : "s"} without a mapping
+                  </p>
+                  <p className="text-slate-300 text-sm mt-1">
+                    They import with a guessed ICU/floor type and are queued for review under{" "}
+                    <Link href="/dashboard/census/units" className="text-amber-300 hover:text-amber-200 underline">
+                      Unit Mappings
+                    </Link>
+                    .
+                  </p>
+                </div>
+              )}
+
               {/* Sheet Breakdown */}
               <div>
                 <h3 className="text-white font-medium mb-3">Units Found</h3>
@@ -329,26 +367,41 @@ export default function CensusImport({
                     <thead>
                       <tr className="bg-slate-800">
                         <th className="px-4 py-2 text-left text-xs font-medium text-slate-400 uppercase">Sheet Name</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-slate-400 uppercase">Maps To</th>
                         <th className="px-4 py-2 text-left text-xs font-medium text-slate-400 uppercase">Type</th>
                         <th className="px-4 py-2 text-right text-xs font-medium text-slate-400 uppercase">Patients</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-800">
-                      {parseResult.sheets.map((sheet) => (
-                        <tr key={sheet.name} className="hover:bg-slate-800/50">
-                          <td className="px-4 py-2 text-white">{sheet.name}</td>
-                          <td className="px-4 py-2">
-                            <span className={`px-2 py-0.5 rounded text-xs font-medium ${
-                              sheet.unitType === "icu"
-                                ? "bg-red-900/50 text-red-300"
-                                : "bg-blue-900/50 text-blue-300"
-                            }`}>
-                              {sheet.unitType.toUpperCase()}
-                            </span>
-                          </td>
-                          <td className="px-4 py-2 text-right text-slate-300">{sheet.patients.length}</td>
-                        </tr>
-                      ))}
+                      {parseResult.sheets.map((sheet) => {
+                        const resolved = resolvedBySheet.get(sheet.name);
+                        return (
+                          <tr key={sheet.name} className="hover:bg-slate-800/50">
+                            <td className="px-4 py-2 text-white">{sheet.name}</td>
+                            <td className="px-4 py-2 text-slate-300">
+                              {!resolved ? (
+                                "..."
+                              ) : resolved.mapped ? (
+                                resolved.unitName
+                              ) : (
+                                <span className="text-amber-400">Needs review</span>
+                              )}
+                            </td>
+                            <td className="px-4 py-2">
+                              {resolved && (
+                                <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+                                  resolved.unitType === "icu"
+                                    ? "bg-red-900/50 text-red-300"
+                                    : "bg-blue-900/50 text-blue-300"
+                                }`}>
+                                  {resolved.unitType.toUpperCase()}
+                                </span>
+                              )}
+                            </td>
+                            <td className="px-4 py-2 text-right text-slate-300">{sheet.patients.length}</td>
+                          </tr>
+                        );
+                      })}
                     </tbody>
                   </table>
                 </div>
@@ -417,6 +470,19 @@ export default function CensusImport({
                 </p>
               </div>
 
+              <PredictionJobPanel importId={importResult.importId} showStart />
+
+              {importResult.unmappedUnits.length > 0 && (
+                <div className="bg-amber-900/30 border border-amber-700 rounded-lg p-4">
+                  <p className="text-amber-400 font-medium mb-1">
+                    Unit names awaiting review: {importResult.unmappedUnits.join(", ")}
+                  </p>
+                  <Link href="/dashboard/census/units" className="text-sm text-amber-300 hover:text-amber-200 underline">
+                    Map them to hospital units
+                  </Link>
+                </div>
+              )}
+
               {importResult.errors.length > 0 && (
                 <div className="bg-amber-900/30 border border-amber-700 rounded-lg p-4">
                   <p className="text-amber-400 font-medium mb-2">
@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+
+// ═══════════════════════════════════════════════════════════════════
+// PATIENT FLOW PANEL
+// Simulated occupancy per unit and day (median with p10-p90 band)
+// against bed capacity, with overflow risk and boarding
+// ═══════════════════════════════════════════════════════════════════
+
+interface PatientFlowPanelProps {
+  hospitalId: Id<"hospitals">;
+}
+
+function riskClass(overflowProbability: number) {
+  if (overflowProbability >= 0.5) return "bg-red-500/20 text-red-300";
+  if (overflowProbability >= 0.2) return "bg-amber-500/20 text-amber-300";
+  return "text-slate-300";
+}
+
+function formatDay(date: string) {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { weekday: "short", month: "numeric", day: "numeric" });
+}
+
+export default function PatientFlowPanel({ hospitalId }: PatientFlowPanelProps) {
+  const [days, setDays] = useState(7);
+  const flow = useQuery(api.patientFlow.simulate, { hospitalId, days });
+
+  return (
+    <div className="bg-slate-800 rounded-lg overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Patient Flow Simulation</h2>
+          <p className="text-sm text-slate-400">
+            ICU downgrades, procedure admits and ER feeders against bed capacity
+            {flow && ` (${flow.runs} runs)`}
+          </p>
+        </div>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="px-3 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-sm text-white"
+        >
+          <option value={3}>3 days</option>
+          <option value={7}>7 days</option>
+          <option value={14}>14 days</option>
+        </select>
+      </div>
+
+      {flow === undefined ? (
+        <div className="p-6 text-center text-slate-400">Simulating...</div>
+      ) : flow.units.length === 0 ? (
+        <div className="p-6 text-center text-slate-400">
+          <p>No units to simulate.</p>
+          <p className="text-sm mt-1">Link admit services to units to model their bed capacity.</p>
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-700/50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-slate-400 font-medium">Unit</th>
+                  {flow.dates.map((date) => (
+                    <th key={date} className="px-3 py-2 text-center text-slate-400 font-medium whitespace-nowrap">
+                      {formatDay(date)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700">
+                {flow.units.map((unit) => (
+                  <tr key={unit.unitId}>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      <p className="text-white font-medium">
+                        {unit.unitName}
+                        {unit.isICU && <span className="ml-2 text-xs text-red-400">ICU</span>}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {unit.serviceNames.join(", ")}
+                        {unit.erAdmitsPerDay > 0 && ` · ER ~${unit.erAdmitsPerDay}/day`}
+                      </p>
+                    </td>
+                    {unit.days.map((day) => (
+                      <td
+                        key={day.date}
+                        className={`px-3 py-2 text-center whitespace-nowrap ${riskClass(day.overflowProbability)}`}
+                        title={`Expected ${day.expectedOccupancy}, overflow risk ${Math.round(day.overflowProbability * 100)}%`}
+                      >
+                        <p className="font-medium">
+                          {day.p50}
+                          {day.capacity !== null && <span className="text-slate-500">/{day.capacity}</span>}
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          {day.p10}-{day.p90}
+                        </p>
+                        {day.meanBoarding > 0 && <p className="text-xs text-amber-400">{day.meanBoarding} boarding</p>}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="px-6 py-3 border-t border-slate-700 flex flex-wrap gap-6 text-xs text-slate-500">
+            <span>
+              Modeled: {flow.patientsModeled.census} census patients, {flow.patientsModeled.procedureAdmits} procedure admits
+            </span>
+            {(flow.unmodeled.censusPatients > 0 || flow.unmodeled.procedureAdmits > 0) && (
+              <span>
+                Not modeled (no matching unit): {flow.unmodeled.censusPatients} census, {flow.unmodeled.procedureAdmits} procedure
+              </span>
+            )}
+            <span>
+              <span className="text-amber-300">Amber</span> / <span className="text-red-300">red</span>: 20% / 50% chance of
+              overflow
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+
+// ═══════════════════════════════════════════════════════════════════
+// PREDICTION JOB PANEL
+// Starts queued census AI predictions for an import and shows live
+// progress, backoff and failures, with resume / retry / cancel
+// ═══════════════════════════════════════════════════════════════════
+
+const STATUS_LABELS: Record<string, string> = {
+  queued: "Queued",
+  running: "Running",
+  backoff: "Rate limited - retrying",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+interface PredictionJobPanelProps {
+  importId: Id<"census_imports">;
+  // Offer "predict all" / "changed only" buttons when no job is active
+  showStart?: boolean;
+  className?: string;
+}
+
+export default function PredictionJobPanel({ importId, showStart = false, className = "" }: PredictionJobPanelProps) {
+  const job = useQuery(api.censusAIJobs.getLatestForImport, { importId });
+  const startJob = useMutation(api.censusAIJobs.start);
+  const resumeJob = useMutation(api.censusAIJobs.resume);
+  const cancelJob = useMutation(api.censusAIJobs.cancel);
+  const [busy, setBusy] = useState(false);
+
+  if (job === undefined) return null;
+
+  const isActive = job && ["queued", "running", "backoff"].includes(job.status);
+  const needsAttention = job && (job.stalled || job.failed > 0 || job.status === "cancelled");
+  if (!showStart && !isActive && !needsAttention) return null;
+
+  const run = async (action: () => Promise<string | void>) => {
+    setBusy(true);
+    try {
+      const message = await action();
+      if (message) toast.success(message);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Unknown error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStart = (mode: "all" | "changed") =>
+    run(async () => {
+      const result = await startJob({ importId, mode });
+      return result.total === 0
+        ? "No patients need new predictions"
+        : `Queued predictions for ${result.total} patients` +
+            (result.skipped > 0 ? ` (${result.skipped} unchanged skipped)` : "");
+    });
+
+  const processed = job ? job.done + job.failed : 0;
+  const percent = job && job.total > 0 ? Math.round((processed / job.total) * 100) : 0;
+
+  return (
+    <div className={`bg-slate-800 border border-slate-700 rounded-lg p-4 ${className}`}>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-white font-medium">AI Predictions</p>
+        {job && (
+          <span className={`text-sm ${job.stalled ? "text-amber-400" : "text-slate-400"}`}>
+            {job.stalled ? "Stalled" : STATUS_LABELS[job.status] ?? job.status}
+          </span>
+        )}
+      </div>
+
+      {job && (
+        <>
+          <div className="w-full h-2 bg-slate-700 rounded-full overflow-hidden mb-2">
+            <div
+              className={`h-full transition-all ${job.failed > 0 ? "bg-amber-500" : "bg-purple-500"}`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          <p className="text-sm text-slate-400">
+            {job.done} of {job.total} predicted
+            {job.failed > 0 && <span className="text-red-400">, {job.failed} failed</span>}
+            {job.skipped > 0 && <span>, {job.skipped} unchanged skipped</span>}
+            {job.engines.length > 0 && <span className="text-slate-500"> &middot; {job.engines.join(", ")}</span>}
+          </p>
+          {job.status === "backoff" && job.nextRunAt && (
+            <p className="text-xs text-amber-400 mt-1">
+              Retrying at {new Date(job.nextRunAt).toLocaleTimeString()}
+            </p>
+          )}
+          {job.lastError && <p className="text-xs text-slate-500 mt-1 truncate">{job.lastError}</p>}
+        </>
+      )}
+
+      <div className="flex gap-2 mt-3">
+        {showStart && !isActive && (
+          <>
+            <button
+              onClick={() => handleStart("all")}
+              disabled={busy}
+              className="px-3 py-1.5 text-sm bg-purple-600 hover:bg-purple-700 disabled:opacity-50 rounded-lg transition-colors"
+            >
+              Predict All Patients
+            </button>
+            <button
+              onClick={() => handleStart("changed")}
+              disabled={busy}
+              className="px-3 py-1.5 text-sm bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded-lg transition-colors"
+            >
+              Only Changed Comments
+            </button>
+          </>
+        )}
+        {job && (job.stalled || job.status === "cancelled") && (
+          <button
+            onClick={() =>
+              run(async () => {
+                await resumeJob({ jobId: job.jobId });
+                return "Job resumed";
+              })
+            }
+            disabled={busy}
+            className="px-3 py-1.5 text-sm bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 rounded-lg transition-colors"
+          >
+            Resume
+          </button>
+        )}
+        {job && !isActive && job.failed > 0 && (
+          <button
+            onClick={() =>
+              run(async () => {
+                const result = await resumeJob({ jobId: job.jobId, retryFailed: true });
+                return `Retrying ${result.requeued} patients`;
+              })
+            }
+            disabled={busy}
+            className="px-3 py-1.5 text-sm bg-amber-600 hover:bg-amber-700 disabled:opacity-50 rounded-lg transition-colors"
+          >
+            Retry Failed
+          </button>
+        )}
+        {job && isActive && (
+          <button
+            onClick={() =>
+              run(async () => {
+                await cancelJob({ jobId: job.jobId });
+                return "Job cancelled";
+              })
+            }
+            disabled={busy}
+            className="px-3 py-1.5 text-sm text-slate-400 hover:text-red-400 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+// ═══════════════════════════════════════════════════════════════════
+// MY AVAILABILITY
+// Dates the provider can work, with AM/PM preferences
+// ═══════════════════════════════════════════════════════════════════
+
+export function PortalAvailability({ sessionToken }: { sessionToken: string }) {
+  const home = useQuery(api.portal.getHome, { sessionToken });
+  const setAvailability = useMutation(api.portal.setAvailability);
+  const clearAvailability = useMutation(api.portal.clearAvailability);
+
+  const today = new Date().toISOString().split("T")[0];
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [availabilityType, setAvailabilityType] = useState<"available" | "unavailable">("available");
+  const [amAvailable, setAmAvailable] = useState(true);
+  const [pmAvailable, setPmAvailable] = useState(true);
+  const [amPreferred, setAmPreferred] = useState(false);
+  const [pmPreferred, setPmPreferred] = useState(false);
+  const [skipWeekends, setSkipWeekends] = useState(false);
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  if (!home) return null;
+
+  const isAvailable = availabilityType === "available";
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await setAvailability({
+        sessionToken,
+        startDate,
+        endDate,
+        availabilityType,
+        amAvailable: isAvailable && amAvailable,
+        pmAvailable: isAvailable && pmAvailable,
+        amPreferred: isAvailable && amAvailable && amPreferred,
+        pmPreferred: isAvailable && pmAvailable && pmPreferred,
+        notes: notes || undefined,
+        skipWeekends,
+      });
+      toast.success(`Saved availability for ${result.created + result.updated} day(s)`);
+      setNotes("");
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClear = async (date: string) => {
+    try {
+      await clearAvailability({ sessionToken, date });
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const checkbox = (label: string, checked: boolean, onChange: (value: boolean) => void, disabled = false) => (
+    <label className={`flex items-center gap-2 text-sm ${disabled ? "text-slate-500" : "text-slate-300"}`}>
+      <input
+        type="checkbox"
+        checked={checked && !disabled}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.checked)}
+        className="w-4 h-4 rounded border-slate-500 text-emerald-500 focus:ring-emerald-500"
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-6">
+      <h2 className="text-lg font-semibold text-white mb-4">My Availability</h2>
+
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-sm text-slate-400">From</label>
+            <Input
+              type="date"
+              min={today}
+              value={startDate}
+              onChange={(e) => {
+                setStartDate(e.target.value);
+                if (e.target.value > endDate) setEndDate(e.target.value);
+              }}
+              className="bg-slate-700 border-slate-600"
+            />
+          </div>
+          <div>
+            <label className="text-sm text-slate-400">To</label>
+            <Input
+              type="date"
+              min={startDate}
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="bg-slate-700 border-slate-600"
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          {(["available", "unavailable"] as const).map((type) => (
+            <button
+              key={type}
+              onClick={() => setAvailabilityType(type)}
+              className={`px-3 py-1 text-sm rounded transition-colors ${
+                availabilityType === type
+                  ? "bg-emerald-600 text-white"
+                  : "bg-slate-700 text-slate-300 hover:bg-slate-600"
+              }`}
+            >
+              {type === "available" ? "Available" : "Unavailable"}
+            </button>
+          ))}
+        </div>
+
+        {isAvailable && (
+          <div className="grid grid-cols-2 gap-2">
+            {checkbox("AM available", amAvailable, setAmAvailable)}
+            {checkbox("Prefer AM", amPreferred, setAmPreferred, !amAvailable)}
+            {checkbox("PM available", pmAvailable, setPmAvailable)}
+            {checkbox("Prefer PM", pmPreferred, setPmPreferred, !pmAvailable)}
+          </div>
+        )}
+
+        {checkbox("Skip weekends", skipWeekends, setSkipWeekends)}
+
+        <Input
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Notes (optional)"
+          className="bg-slate-700 border-slate-600"
+        />
+
+        <Button
+          onClick={handleSave}
+          disabled={saving || !startDate || !endDate}
+          className="w-full bg-emerald-600 hover:bg-emerald-700"
+        >
+          {saving ? "Saving..." : "Save Availability"}
+        </Button>
+      </div>
+
+      {home.availability.length > 0 && (
+        <div className="mt-6 space-y-1">
+          <h3 className="text-sm font-medium text-slate-400 mb-2">Entered</h3>
+          {home.availability.map((entry) => (
+            <div
+              key={entry.date}
+              className="flex items-center justify-between text-sm bg-slate-700/50 rounded px-3 py-2"
+            >
+              <span className="text-white">{format(parseISO(entry.date), "EEE, MMM d")}</span>
+              <span className="text-slate-400">
+                {entry.availabilityType === "unavailable"
+                  ? "Unavailable"
+                  : [
+                      entry.amAvailable && `AM${entry.amPreferred ? " (preferred)" : ""}`,
+                      entry.pmAvailable && `PM${entry.pmPreferred ? " (preferred)" : ""}`,
+                    ]
+                      .filter(Boolean)
+                      .join(", ") || "Unavailable"}
+              </span>
+              {entry.source === "provider" ? (
+                <button
+                  onClick={() => handleClear(entry.date)}
+                  className="text-xs text-slate-500 hover:text-red-400"
+                >
+                  Remove
+                </button>
+              ) : (
+                <span className="text-xs text-slate-500">Set by scheduler</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
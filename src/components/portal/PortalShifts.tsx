@@ -0,0 +1,531 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const formatDate = (dateStr: string) => {
+  try {
+    return format(parseISO(dateStr), "EEE, MMM d");
+  } catch {
+    return dateStr;
+  }
+};
+
+const shiftBadgeClass = (shiftType: string) =>
+  shiftType === "AM" ? "bg-amber-500/20 text-amber-300" : "bg-indigo-500/20 text-indigo-300";
+
+type ChangeType = "drop" | "swap" | "giveaway" | "trade";
+
+const CHANGE_OPTIONS: Array<{ type: ChangeType; label: string }> = [
+  { type: "drop", label: "Drop this shift" },
+  { type: "swap", label: "Swap for an open shift" },
+  { type: "giveaway", label: "Give to a colleague" },
+  { type: "trade", label: "Trade with a colleague" },
+];
+
+const describeRequest = (request: { type: string; status: string; isOffered: boolean }) => {
+  if (request.isOffered) return "Offered in a trade";
+  if (request.status === "Posted") return request.type === "trade" ? "Posted for trade" : "Posted for pickup";
+  if (request.type === "giveaway" || request.type === "trade") return "Awaiting approval";
+  return `${request.type === "swap" ? "Swap" : "Drop"} requested`;
+};
+
+// ═══════════════════════════════════════════════════════════════════
+// UPCOMING SHIFTS
+// Confirm, ask a scheduler to drop/swap, or post to the marketplace
+// ═══════════════════════════════════════════════════════════════════
+
+export function UpcomingShifts({ sessionToken }: { sessionToken: string }) {
+  const home = useQuery(api.portal.getHome, { sessionToken });
+  const confirmAssignment = useMutation(api.portal.confirmAssignment);
+  const withdrawShiftChange = useMutation(api.portal.withdrawShiftChange);
+  const [changing, setChanging] = useState<Id<"scenario_assignments"> | null>(null);
+
+  if (!home) return null;
+
+  const handleConfirm = async (assignmentId: Id<"scenario_assignments">) => {
+    try {
+      await confirmAssignment({ sessionToken, assignmentId });
+      toast.success("Shift confirmed");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleWithdraw = async (requestId: Id<"shift_change_requests">) => {
+    try {
+      await withdrawShiftChange({ sessionToken, requestId });
+      toast.success("Request withdrawn");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-6">
+      <h2 className="text-lg font-semibold text-white mb-4">Your Upcoming Shifts</h2>
+
+      {home.upcoming.length === 0 ? (
+        <p className="text-sm text-slate-500">You have no upcoming shifts.</p>
+      ) : (
+        <div className="space-y-2">
+          {home.upcoming.map((shift) => (
+            <div key={shift.assignmentId} className="bg-slate-700/50 rounded-lg p-3">
+              <div className="flex items-center justify-between gap-4">
+                <div className="text-sm">
+                  <span className="text-white font-medium">{formatDate(shift.date)}</span>
+                  <span className={`ml-2 px-2 py-0.5 rounded text-xs ${shiftBadgeClass(shift.shiftType)}`}>
+                    {shift.shiftType}
+                  </span>
+                  <span className="text-slate-400 ml-2">
+                    {shift.shiftStart} - {shift.shiftEnd}
+                  </span>
+                  <div className="text-slate-400 mt-1">
+                    {shift.serviceName} @ {shift.hospitalName}
+                    <span className="text-slate-500"> &middot; {shift.scenarioName}</span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {shift.status === "Active" ? (
+                    <Button
+                      size="sm"
+                      onClick={() => handleConfirm(shift.assignmentId)}
+                      className="h-7 text-xs bg-emerald-600 hover:bg-emerald-700"
+                    >
+                      Confirm
+                    </Button>
+                  ) : (
+                    <Badge className="bg-emerald-500/20 text-emerald-300">Confirmed</Badge>
+                  )}
+                  {shift.pendingRequest ? (
+                    <>
+                      <Badge variant="secondary" className="bg-amber-500/20 text-amber-300">
+                        {describeRequest(shift.pendingRequest)}
+                      </Badge>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleWithdraw(shift.pendingRequest!.requestId)}
+                        className="h-7 text-xs"
+                      >
+                        Withdraw
+                      </Button>
+                    </>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() =>
+                        setChanging(changing === shift.assignmentId ? null : shift.assignmentId)
+                      }
+                      className="h-7 text-xs"
+                    >
+                      Change
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {changing === shift.assignmentId && !shift.pendingRequest && (
+                <ShiftChangeForm
+                  sessionToken={sessionToken}
+                  assignmentId={shift.assignmentId}
+                  scenarioId={shift.scenarioId}
+                  onDone={() => setChanging(null)}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ShiftChangeForm({
+  sessionToken,
+  assignmentId,
+  scenarioId,
+  onDone,
+}: {
+  sessionToken: string;
+  assignmentId: Id<"scenario_assignments">;
+  scenarioId: Id<"strike_scenarios">;
+  onDone: () => void;
+}) {
+  const openShifts = useQuery(api.portal.getScenarioShifts, { sessionToken, scenarioId });
+  const requestShiftChange = useMutation(api.portal.requestShiftChange);
+  const [type, setType] = useState<ChangeType>("drop");
+  const [targetPositionId, setTargetPositionId] = useState("");
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      await requestShiftChange({
+        sessionToken,
+        assignmentId,
+        type,
+        targetPositionId:
+          type === "swap" ? (targetPositionId as Id<"scenario_positions">) : undefined,
+        reason: reason || undefined,
+      });
+      toast.success(
+        type === "giveaway" || type === "trade"
+          ? "Shift posted to the marketplace"
+          : "Request sent to your scheduler"
+      );
+      onDone();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-slate-600 space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {CHANGE_OPTIONS.map((option) => (
+          <button
+            key={option.type}
+            onClick={() => setType(option.type)}
+            className={`px-3 py-1 text-sm rounded transition-colors ${
+              type === option.type
+                ? "bg-emerald-600 text-white"
+                : "bg-slate-700 text-slate-300 hover:bg-slate-600"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {(type === "giveaway" || type === "trade") && (
+        <p className="text-xs text-slate-400">
+          Eligible colleagues will see this shift in the marketplace. You keep it until one
+          accepts and your scheduler approves.
+        </p>
+      )}
+
+      {type === "swap" && (
+        <select
+          value={targetPositionId}
+          onChange={(e) => setTargetPositionId(e.target.value)}
+          className="w-full bg-slate-700 border border-slate-600 rounded-md px-3 py-2 text-sm"
+        >
+          <option value="">Choose an open shift...</option>
+          {openShifts?.positions.map((position) => (
+            <option key={position.positionId} value={position.positionId}>
+              {formatDate(position.date)} {position.shiftType} {position.shiftStart} -{" "}
+              {position.serviceName} @ {position.hospitalName}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <Input
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Reason (optional)"
+        className="bg-slate-700 border-slate-600"
+      />
+
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          onClick={handleSubmit}
+          disabled={submitting || (type === "swap" && !targetPositionId)}
+          className="bg-emerald-600 hover:bg-emerald-700"
+        >
+          {submitting ? "Sending..." : "Send Request"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// OPEN SHIFTS
+// Active scenarios the provider is eligible for, claimable shifts
+// ═══════════════════════════════════════════════════════════════════
+
+export function OpenShifts({ sessionToken }: { sessionToken: string }) {
+  const home = useQuery(api.portal.getHome, { sessionToken });
+  const [expanded, setExpanded] = useState<Id<"strike_scenarios"> | null>(null);
+
+  if (!home) return null;
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-6">
+      <h2 className="text-lg font-semibold text-white mb-4">Open Shifts</h2>
+
+      {home.scenarios.length === 0 ? (
+        <p className="text-sm text-slate-500">There are no active scenarios with shifts for you.</p>
+      ) : (
+        <div className="space-y-2">
+          {home.scenarios.map((scenario) => (
+            <div key={scenario.scenarioId} className="bg-slate-700/50 rounded-lg">
+              <button
+                onClick={() => setExpanded(expanded === scenario.scenarioId ? null : scenario.scenarioId)}
+                className="w-full flex items-center justify-between p-3 text-left hover:bg-slate-700/70 rounded-lg transition-colors"
+              >
+                <div>
+                  <div className="text-white font-medium">{scenario.name}</div>
+                  <div className="text-sm text-slate-400">
+                    {formatDate(scenario.startDate)} - {formatDate(scenario.endDate)}
+                  </div>
+                </div>
+                <Badge
+                  variant="secondary"
+                  className={
+                    scenario.openShiftCount > 0
+                      ? "bg-emerald-500/20 text-emerald-300"
+                      : "bg-slate-600 text-slate-300"
+                  }
+                >
+                  {scenario.openShiftCount} open
+                </Badge>
+              </button>
+
+              {expanded === scenario.scenarioId && (
+                <ScenarioShiftPicker sessionToken={sessionToken} scenarioId={scenario.scenarioId} />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ScenarioShiftPicker({
+  sessionToken,
+  scenarioId,
+}: {
+  sessionToken: string;
+  scenarioId: Id<"strike_scenarios">;
+}) {
+  const shifts = useQuery(api.portal.getScenarioShifts, { sessionToken, scenarioId });
+  const claimShifts = useMutation(api.portal.claimShifts);
+  const [selected, setSelected] = useState<Set<Id<"scenario_positions">>>(new Set());
+  const [claiming, setClaiming] = useState(false);
+
+  if (shifts === undefined) {
+    return <div className="p-3 text-sm text-slate-400">Loading...</div>;
+  }
+  if (!shifts || shifts.positions.length === 0) {
+    return <div className="p-3 text-sm text-slate-500">No open shifts you can claim.</div>;
+  }
+
+  const toggle = (positionId: Id<"scenario_positions">) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(positionId)) next.delete(positionId);
+      else next.add(positionId);
+      return next;
+    });
+  };
+
+  const handleClaim = async () => {
+    setClaiming(true);
+    try {
+      const result = await claimShifts({
+        sessionToken,
+        scenarioId,
+        positionIds: Array.from(selected),
+      });
+      if (result.claimed > 0) {
+        toast.success(`Claimed ${result.claimed} shift${result.claimed > 1 ? "s" : ""}`);
+      }
+      result.errors.forEach((err) => toast.error(err));
+      result.dutyHourWarnings.forEach((warning) => toast.warning(warning));
+      setSelected(new Set());
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  return (
+    <div className="px-3 pb-3">
+      <div className="divide-y divide-slate-600/50 max-h-80 overflow-y-auto">
+        {shifts.positions.map((position) => (
+          <label
+            key={position.positionId}
+            className="flex items-center gap-3 py-2 text-sm cursor-pointer hover:bg-slate-700/30"
+          >
+            <input
+              type="checkbox"
+              checked={selected.has(position.positionId)}
+              onChange={() => toggle(position.positionId)}
+              className="w-4 h-4 rounded border-slate-500 text-emerald-500 focus:ring-emerald-500"
+            />
+            <span className="text-white w-28">{formatDate(position.date)}</span>
+            <span className={`px-2 py-0.5 rounded text-xs ${shiftBadgeClass(position.shiftType)}`}>
+              {position.shiftType}
+            </span>
+            <span className="text-slate-400">
+              {position.shiftStart} - {position.shiftEnd}
+            </span>
+            <span className="text-slate-300">{position.serviceName}</span>
+            <span className="text-slate-500">@ {position.hospitalName}</span>
+          </label>
+        ))}
+      </div>
+      <div className="flex justify-end mt-3">
+        <Button
+          size="sm"
+          onClick={handleClaim}
+          disabled={claiming || selected.size === 0}
+          className="bg-emerald-600 hover:bg-emerald-700"
+        >
+          {claiming ? "Claiming..." : `Claim ${selected.size || ""} Shift${selected.size === 1 ? "" : "s"}`}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// SHIFT MARKETPLACE
+// Shifts colleagues posted that this provider is eligible to take
+// ═══════════════════════════════════════════════════════════════════
+
+export function ShiftMarketplace({ sessionToken }: { sessionToken: string }) {
+  const marketplace = useQuery(api.portal.getMarketplace, { sessionToken });
+  const acceptPostedShift = useMutation(api.portal.acceptPostedShift);
+  const withdrawShiftChange = useMutation(api.portal.withdrawShiftChange);
+  const [offers, setOffers] = useState<Record<string, Id<"scenario_assignments">>>({});
+
+  if (!marketplace) return null;
+  if (marketplace.listings.length === 0 && marketplace.awaitingApproval.length === 0) return null;
+
+  const handleAccept = async (
+    requestId: Id<"shift_change_requests">,
+    offeredAssignmentId?: Id<"scenario_assignments">
+  ) => {
+    try {
+      await acceptPostedShift({ sessionToken, requestId, offeredAssignmentId });
+      toast.success("Accepted - waiting on scheduler approval");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleBackOut = async (requestId: Id<"shift_change_requests">) => {
+    try {
+      await withdrawShiftChange({ sessionToken, requestId });
+      toast.success("Shift returned to the marketplace");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-6">
+      <h2 className="text-lg font-semibold text-white mb-4">Shift Marketplace</h2>
+
+      <div className="space-y-2">
+        {marketplace.awaitingApproval.map((request) => (
+          <div
+            key={request.requestId}
+            className="flex items-center justify-between bg-amber-500/10 border border-amber-500/30 rounded-lg p-3 text-sm"
+          >
+            <div>
+              <span className="text-white font-medium">{formatDate(request.date)}</span>
+              <span className={`ml-2 px-2 py-0.5 rounded text-xs ${shiftBadgeClass(request.shiftType)}`}>
+                {request.shiftType}
+              </span>
+              <span className="text-slate-400 ml-2">Accepted - awaiting scheduler approval</span>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleBackOut(request.requestId)}
+              className="h-7 text-xs"
+            >
+              Back out
+            </Button>
+          </div>
+        ))}
+
+        {marketplace.listings.map((listing) => (
+          <div key={listing.requestId} className="bg-slate-700/50 rounded-lg p-3 text-sm">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <span className="text-white font-medium">{formatDate(listing.date)}</span>
+                <span className={`ml-2 px-2 py-0.5 rounded text-xs ${shiftBadgeClass(listing.shiftType)}`}>
+                  {listing.shiftType}
+                </span>
+                <span className="text-slate-400 ml-2">
+                  {listing.shiftStart} - {listing.shiftEnd}
+                </span>
+                <div className="text-slate-400 mt-1">
+                  {listing.serviceName} @ {listing.hospitalName}
+                  <span className="text-slate-500"> &middot; from {listing.posterName}</span>
+                </div>
+                {listing.reason && <div className="text-slate-500 italic">&ldquo;{listing.reason}&rdquo;</div>}
+              </div>
+              {listing.type === "giveaway" ? (
+                <Button
+                  size="sm"
+                  onClick={() => handleAccept(listing.requestId)}
+                  className="h-7 text-xs bg-emerald-600 hover:bg-emerald-700 shrink-0"
+                >
+                  Take Shift
+                </Button>
+              ) : (
+                <Badge variant="secondary" className="bg-blue-500/20 text-blue-300 shrink-0">
+                  Trade
+                </Badge>
+              )}
+            </div>
+
+            {listing.type === "trade" && (
+              <div className="flex gap-2 mt-2">
+                <select
+                  value={offers[listing.requestId] ?? ""}
+                  onChange={(e) =>
+                    setOffers((prev) => ({
+                      ...prev,
+                      [listing.requestId]: e.target.value as Id<"scenario_assignments">,
+                    }))
+                  }
+                  className="flex-1 bg-slate-700 border border-slate-600 rounded-md px-3 py-1 text-sm"
+                >
+                  <option value="">Offer one of your shifts...</option>
+                  {listing.tradeOptions.map((option) => (
+                    <option key={option.assignmentId} value={option.assignmentId}>
+                      {formatDate(option.date)} {option.shiftType} {option.shiftStart}
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  size="sm"
+                  disabled={!offers[listing.requestId]}
+                  onClick={() => handleAccept(listing.requestId, offers[listing.requestId])}
+                  className="h-7 text-xs bg-emerald-600 hover:bg-emerald-700"
+                >
+                  Trade
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
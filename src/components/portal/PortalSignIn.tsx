@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { useAction, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+// ═══════════════════════════════════════════════════════════════════
+// PORTAL SIGN-IN
+// Email or cell phone -> one-time code (the message also has a magic link)
+// ═══════════════════════════════════════════════════════════════════
+
+export function PortalSignIn({ onSignedIn }: { onSignedIn: (sessionToken: string) => void }) {
+  const requestLogin = useAction(api.portal.requestLogin);
+  const verifyCode = useMutation(api.portal.verifyCode);
+
+  const [identifier, setIdentifier] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!identifier.trim()) return;
+    setLoading(true);
+    setError(null);
+    try {
+      await requestLogin({ identifier: identifier.trim() });
+      setCodeSent(true);
+    } catch (err: any) {
+      setError(err.message || "Failed to send code");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await verifyCode({ identifier: identifier.trim(), code });
+      if ("error" in result) {
+        setError(result.error);
+      } else {
+        onSignedIn(result.sessionToken);
+      }
+    } catch (err: any) {
+      setError(err.message || "Sign-in failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-900 to-slate-800 flex items-center justify-center p-4">
+      <div className="bg-slate-800 rounded-xl p-8 max-w-md w-full shadow-2xl">
+        <h1 className="text-2xl font-bold text-white mb-2">Provider Portal</h1>
+        <p className="text-slate-400 mb-6">
+          {codeSent
+            ? "If we found your account, we sent you a 6-digit code and a sign-in link."
+            : "Sign in with the email or cell phone number on file with your scheduler."}
+        </p>
+
+        {!codeSent ? (
+          <form onSubmit={handleRequest} className="space-y-4">
+            <Input
+              value={identifier}
+              onChange={(e) => setIdentifier(e.target.value)}
+              placeholder="Email or cell phone"
+              className="bg-slate-700 border-slate-600"
+              autoFocus
+            />
+            <Button
+              type="submit"
+              disabled={loading || !identifier.trim()}
+              className="w-full bg-emerald-600 hover:bg-emerald-700"
+            >
+              {loading ? "Sending..." : "Send Code"}
+            </Button>
+          </form>
+        ) : (
+          <form onSubmit={handleVerify} className="space-y-4">
+            <Input
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, "").slice(0, 6))}
+              placeholder="6-digit code"
+              inputMode="numeric"
+              className="bg-slate-700 border-slate-600 text-center text-xl tracking-widest"
+              autoFocus
+            />
+            <Button
+              type="submit"
+              disabled={loading || code.length !== 6}
+              className="w-full bg-emerald-600 hover:bg-emerald-700"
+            >
+              {loading ? "Verifying..." : "Sign In"}
+            </Button>
+            <button
+              type="button"
+              onClick={() => {
+                setCodeSent(false);
+                setCode("");
+                setError(null);
+              }}
+              className="w-full text-sm text-slate-400 hover:text-slate-300"
+            >
+              Use a different email or phone
+            </button>
+          </form>
+        )}
+
+        {error && <p className="mt-4 text-sm text-red-400">{error}</p>}
+      </div>
+    </div>
+  );
+}
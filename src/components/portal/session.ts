@@ -0,0 +1,30 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+/**
+ * Provider portal session token, kept in localStorage
+ * (portal users sign in with a code or magic link, not Clerk)
+ */
+
+export const PORTAL_SESSION_KEY = "portalSessionToken";
+
+export function usePortalSession() {
+  const [sessionToken, setSessionToken] = useState<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    setSessionToken(localStorage.getItem(PORTAL_SESSION_KEY));
+  }, []);
+
+  const saveSession = useCallback((token: string) => {
+    localStorage.setItem(PORTAL_SESSION_KEY, token);
+    setSessionToken(token);
+  }, []);
+
+  const clearSession = useCallback(() => {
+    localStorage.removeItem(PORTAL_SESSION_KEY);
+    setSessionToken(null);
+  }, []);
+
+  return { sessionToken, saveSession, clearSession };
+}
@@ -7,7 +7,7 @@ interface ServiceStats {
   count: number;
   willAdmit: number;
   sameDayDischarge: number;
-  ccuDays: number;
+  icuDays: number;
   floorDays: number;
   riskModified: number;
 }
@@ -19,10 +19,12 @@ interface Patient {
   visitDate: string;
   procedureText: string;
   procedureCategory: string;
-  serviceType: "EP" | "Cath" | "Structural";
+  serviceType: string; // Service line key
   willAdmit: boolean;
   icuDays: number;
+  icuUnit?: string;
   floorDays: number;
+  floorUnit?: string;
   totalLOS: number;
   riskFactors: string[];
   riskModified: boolean;
@@ -41,14 +43,14 @@ interface DashboardData {
     willAdmit: number;
     sameDayDischarge: number;
     riskModified: number;
-    ccuBedDays: number;
+    icuBedDays: number;
     floorBedDays: number;
   };
-  byService: {
-    EP: ServiceStats;
-    Cath: ServiceStats;
-    Structural: ServiceStats;
-  };
+  serviceLines: { key: string; label: string }[];
+  byService: Record<string, ServiceStats>;
+  bedDaysByUnit: Record<string, number>;
+  categoryLabels: Record<string, string>;
+  riskFactorLabels: Record<string, string>;
   patients: Patient[];
 }
 
@@ -57,21 +59,19 @@ interface ProcedureDashboardProps {
   isLoading: boolean;
 }
 
-const SERVICE_COLORS = {
+const SERVICE_COLORS: Record<string, { bg: string; text: string; border: string }> = {
   EP: { bg: "bg-purple-600/20", text: "text-purple-400", border: "border-purple-500" },
   Cath: { bg: "bg-blue-600/20", text: "text-blue-400", border: "border-blue-500" },
   Structural: { bg: "bg-amber-600/20", text: "text-amber-400", border: "border-amber-500" },
+  OR: { bg: "bg-teal-600/20", text: "text-teal-400", border: "border-teal-500" },
+  IR: { bg: "bg-cyan-600/20", text: "text-cyan-400", border: "border-cyan-500" },
+  GI: { bg: "bg-lime-600/20", text: "text-lime-400", border: "border-lime-500" },
 };
 
-const RISK_FACTOR_LABELS: Record<string, string> = {
-  age_gt_85: "Age >85",
-  ef_lt_30: "EF <30%",
-  cr_gt_1_5: "Cr >1.5",
-  hgb_lt_10: "Hgb <10",
-};
+const DEFAULT_SERVICE_COLORS = { bg: "bg-slate-600/20", text: "text-slate-300", border: "border-slate-500" };
 
 export default function ProcedureDashboard({ data, isLoading }: ProcedureDashboardProps) {
-  const [selectedService, setSelectedService] = useState<"all" | "EP" | "Cath" | "Structural">("all");
+  const [selectedService, setSelectedService] = useState<string>("all");
   const [expandedPatient, setExpandedPatient] = useState<string | null>(null);
 
   if (isLoading) {
@@ -94,6 +94,9 @@ export default function ProcedureDashboard({ data, isLoading }: ProcedureDashboa
     );
   }
 
+  const serviceLabel = (key: string) => data.serviceLines.find((line) => line.key === key)?.label ?? key;
+  const unitBedDays = Object.entries(data.bedDaysByUnit).sort(([a], [b]) => a.localeCompare(b));
+
   const filteredPatients = selectedService === "all"
     ? data.patients
     : data.patients.filter((p) => p.serviceType === selectedService);
@@ -139,8 +142,8 @@ export default function ProcedureDashboard({ data, isLoading }: ProcedureDashboa
           <p className="text-xs text-slate-500">Escalated to admit</p>
         </div>
         <div className="bg-slate-800 rounded-lg p-4">
-          <p className="text-slate-400 text-sm">CCU Bed Days</p>
-          <p className="text-3xl font-bold text-red-300">{data.summary.ccuBedDays}</p>
+          <p className="text-slate-400 text-sm">ICU Bed Days</p>
+          <p className="text-3xl font-bold text-red-300">{data.summary.icuBedDays}</p>
         </div>
         <div className="bg-slate-800 rounded-lg p-4">
           <p className="text-slate-400 text-sm">Floor Bed Days</p>
@@ -148,11 +151,23 @@ export default function ProcedureDashboard({ data, isLoading }: ProcedureDashboa
         </div>
       </div>
 
+      {/* Bed-days by destination unit */}
+      {unitBedDays.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-slate-400">Bed days by unit:</span>
+          {unitBedDays.map(([unit, days]) => (
+            <span key={unit} className="px-2 py-0.5 bg-slate-800 rounded text-slate-300">
+              {unit} <span className="font-medium text-white">{days}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Service Breakdown */}
       <div className="grid grid-cols-3 gap-4">
-        {(["EP", "Cath", "Structural"] as const).map((service) => {
+        {data.serviceLines.map(({ key: service, label }) => {
           const stats = data.byService[service];
-          const colors = SERVICE_COLORS[service];
+          const colors = SERVICE_COLORS[service] ?? DEFAULT_SERVICE_COLORS;
           const isSelected = selectedService === service;
 
           return (
@@ -164,9 +179,7 @@ export default function ProcedureDashboard({ data, isLoading }: ProcedureDashboa
               }`}
             >
               <div className="flex items-center justify-between mb-3">
-                <h3 className={`text-lg font-semibold ${colors.text}`}>
-                  {service === "EP" ? "EP Lab" : service === "Cath" ? "Cath Lab" : "Structural"}
-                </h3>
+                <h3 className={`text-lg font-semibold ${colors.text}`}>{label}</h3>
                 <span className="text-2xl font-bold text-white">{stats.count}</span>
               </div>
               <div className="grid grid-cols-2 gap-2 text-sm">
@@ -179,8 +192,8 @@ export default function ProcedureDashboard({ data, isLoading }: ProcedureDashboa
                   <span className="ml-1 text-emerald-400">{stats.sameDayDischarge}</span>
                 </div>
                 <div>
-                  <span className="text-slate-400">CCU Days:</span>
-                  <span className="ml-1 text-red-300">{stats.ccuDays}</span>
+                  <span className="text-slate-400">ICU Days:</span>
+                  <span className="ml-1 text-red-300">{stats.icuDays}</span>
                 </div>
                 <div>
                   <span className="text-slate-400">Floor Days:</span>
@@ -202,7 +215,7 @@ export default function ProcedureDashboard({ data, isLoading }: ProcedureDashboa
         <div className="px-6 py-4 border-b border-slate-700 flex items-center justify-between">
           <div>
             <h2 className="text-lg font-semibold text-white">
-              Procedures {selectedService !== "all" && `- ${selectedService}`}
+              Procedures {selectedService !== "all" && `- ${serviceLabel(selectedService)}`}
             </h2>
             <p className="text-sm text-slate-400">{filteredPatients.length} patients</p>
           </div>
@@ -231,7 +244,7 @@ export default function ProcedureDashboard({ data, isLoading }: ProcedureDashboa
             </thead>
             <tbody className="divide-y divide-slate-700">
               {filteredPatients.map((patient) => {
-                const colors = SERVICE_COLORS[patient.serviceType];
+                const colors = SERVICE_COLORS[patient.serviceType] ?? DEFAULT_SERVICE_COLORS;
                 const isExpanded = expandedPatient === patient._id;
 
                 return (
@@ -274,14 +287,14 @@ export default function ProcedureDashboard({ data, isLoading }: ProcedureDashboa
                       </td>
                       <td className="px-4 py-3 text-center">
                         {patient.icuDays > 0 ? (
-                          <span className="text-red-300 font-medium">{patient.icuDays}</span>
+                          <span className="text-red-300 font-medium" title={patient.icuUnit}>{patient.icuDays}</span>
                         ) : (
                           <span className="text-slate-500">-</span>
                         )}
                       </td>
                       <td className="px-4 py-3 text-center">
                         {patient.floorDays > 0 ? (
-                          <span className="text-blue-300 font-medium">{patient.floorDays}</span>
+                          <span className="text-blue-300 font-medium" title={patient.floorUnit}>{patient.floorDays}</span>
                         ) : (
                           <span className="text-slate-500">-</span>
                         )}
@@ -294,7 +307,7 @@ export default function ProcedureDashboard({ data, isLoading }: ProcedureDashboa
                                 key={rf}
                                 className="px-1.5 py-0.5 bg-red-900/30 text-red-300 rounded text-xs"
                               >
-                                {RISK_FACTOR_LABELS[rf] || rf}
+                                {data.riskFactorLabels[rf] || rf}
                               </span>
                             ))
                           ) : (
@@ -309,8 +322,24 @@ export default function ProcedureDashboard({ data, isLoading }: ProcedureDashboa
                           <div className="grid grid-cols-4 gap-4 text-sm">
                             <div>
                               <p className="text-slate-400">Category</p>
-                              <p className="text-white">{patient.procedureCategory.replace(/_/g, " ")}</p>
+                              <p className="text-white">
+                                {data.categoryLabels[patient.procedureCategory] ??
+                                  patient.procedureCategory.replace(/_/g, " ")}
+                              </p>
                             </div>
+                            {patient.willAdmit && (
+                              <div>
+                                <p className="text-slate-400">Destination</p>
+                                <p className="text-white">
+                                  {[
+                                    patient.icuDays > 0 && `${patient.icuDays}d ${patient.icuUnit ?? "ICU"}`,
+                                    patient.floorDays > 0 && `${patient.floorDays}d ${patient.floorUnit ?? "floor"}`,
+                                  ]
+                                    .filter(Boolean)
+                                    .join(" + ")}
+                                </p>
+                              </div>
+                            )}
                             {patient.provider && (
                               <div>
                                 <p className="text-slate-400">Provider</p>
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useCallback } from "react";
-import { useMutation } from "convex/react";
+import { useMutation, useQuery } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import { Id } from "../../../convex/_generated/dataModel";
 import { toast } from "sonner";
@@ -27,8 +27,12 @@ interface ParsedPatient {
   ef?: number;
   creatinine?: number;
   hemoglobin?: number;
+  csn?: string;
 }
 
+// Headers to try for each procedure field
+type HeaderCandidates = Record<string, string[]>;
+
 interface ParseResult {
   patients: ParsedPatient[];
   errors: string[];
@@ -82,8 +86,8 @@ function parseCSVLine(line: string): string[] {
   return result;
 }
 
-// Parse CSV content
-function parseCSV(content: string): ParseResult {
+// Parse CSV content using the selected source's headers
+function parseCSV(content: string, candidates: HeaderCandidates): ParseResult {
   const lines = content.split(/\r?\n/).filter((line) => line.trim());
   if (lines.length < 2) {
     return { patients: [], errors: ["No data rows found"], visitDates: [] };
@@ -94,6 +98,12 @@ function parseCSV(content: string): ParseResult {
   const errors: string[] = [];
   const visitDates = new Set<string>();
 
+  for (const field of ["mrn", "procedureText"]) {
+    if (!candidates[field].some((h) => headers.includes(h))) {
+      errors.push(`Column not found: ${candidates[field].join(" / ")}`);
+    }
+  }
+
   for (let i = 1; i < lines.length; i++) {
     const values = parseCSVLine(lines[i]);
     if (values.length === 0) continue;
@@ -103,16 +113,18 @@ function parseCSV(content: string): ParseResult {
       row[headers[j]] = values[j] || "";
     }
 
-    // Extract fields with flexible column names
-    const procedureText = row["Procedure"] || row["procedure"] || "";
-    const patientName = row["Patient Name/Age/Gender"] || row["Patient"] || "";
-    const mrn = row["MRN"] || row["mrn"] || "";
-    const visitDate = row["Visit Date"] || row["visit_date"] || row["Date"] || "";
-    const provider = row["Provider/Resource"] || row["Provider"] || "";
-    const reasonForExam = row["Reason for Exam"] || row["Reason"] || "";
-    const efRaw = row["Last Ejection Fraction Value"] || row["EF"] || "";
-    const creatinineRaw = row["Creatinine"] || row["Cr"] || "";
-    const hemoglobinRaw = row["HEMOGLOBIN"] || row["Hemoglobin"] || row["Hgb"] || "";
+    // Extract fields from the first candidate header with a value
+    const read = (field: string) => {
+      const header = candidates[field].find((h) => row[h]);
+      return header ? row[header].trim() : "";
+    };
+    const procedureText = read("procedureText");
+    const patientName = read("patientName");
+    const mrn = read("mrn");
+    const visitDate = read("visitDate");
+    const provider = read("provider");
+    const reasonForExam = read("reasonForExam");
+    const sexRaw = read("sex").charAt(0).toUpperCase();
 
     // Skip rows without procedure or MRN
     if (!procedureText && !mrn) continue;
@@ -132,11 +144,12 @@ function parseCSV(content: string): ParseResult {
       visitDate,
       provider: provider || undefined,
       reasonForExam: reasonForExam || undefined,
-      age: parseAgeFromName(patientName),
-      sex: parseSexFromName(patientName),
-      ef: parseNumericValue(efRaw),
-      creatinine: parseNumericValue(creatinineRaw),
-      hemoglobin: parseNumericValue(hemoglobinRaw),
+      age: parseNumericValue(read("age")) ?? parseAgeFromName(patientName),
+      sex: sexRaw === "M" || sexRaw === "F" ? sexRaw : parseSexFromName(patientName),
+      ef: parseNumericValue(read("ef")),
+      creatinine: parseNumericValue(read("creatinine")),
+      hemoglobin: parseNumericValue(read("hemoglobin")),
+      csn: read("csn") || undefined,
     });
   }
 
@@ -154,21 +167,34 @@ export default function ProcedureImport({
   onImportComplete,
 }: ProcedureImportProps) {
   const [step, setStep] = useState<Step>("upload");
+  const [sourceId, setSourceId] = useState<string>("");
   const [parseResult, setParseResult] = useState<ParseResult | null>(null);
   const [importResult, setImportResult] = useState<{
     total: number;
     willAdmit: number;
     sameDay: number;
+    ruleVersion: number | null;
     errors: string[];
   } | null>(null);
 
   const createImport = useMutation(api.procedures.createImport);
   const processProcedures = useMutation(api.procedures.processProcedures);
+  const sourceData = useQuery(api.procedureSources.listForHospital, isOpen ? { hospitalId } : "skip");
+
+  const selectedSource = sourceData?.sources.find((source) => source._id === sourceId);
 
   const handleFileSelect = useCallback(async (file: File) => {
+    if (!sourceData) return;
     try {
+      // Mapped header for each field, or the default headers
+      const candidates: HeaderCandidates = {};
+      for (const field of sourceData.fields) {
+        const mapped = selectedSource?.columns[field.key]?.trim();
+        candidates[field.key] = mapped ? [mapped] : field.aliases;
+      }
+
       const text = await file.text();
-      const result = parseCSV(text);
+      const result = parseCSV(text, candidates);
 
       if (result.patients.length === 0) {
         toast.error("No procedures found in the file");
@@ -180,7 +206,7 @@ export default function ProcedureImport({
     } catch (error) {
       toast.error(`Failed to parse file: ${error instanceof Error ? error.message : "Unknown error"}`);
     }
-  }, []);
+  }, [sourceData, selectedSource]);
 
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
@@ -211,11 +237,13 @@ export default function ProcedureImport({
         hospitalId,
         fileName: "procedure_import.csv",
         procedureDate,
+        sourceId: selectedSource?._id,
       });
 
       // Process patients in smaller batches with delays to avoid concurrency issues
       const batchSize = 15; // Smaller batches for stability
       let totalProcessed = 0;
+      let ruleVersion: number | null = null;
       const allErrors: string[] = [];
 
       for (let i = 0; i < parseResult.patients.length; i += batchSize) {
@@ -227,10 +255,11 @@ export default function ProcedureImport({
         let retries = 3;
         while (retries > 0) {
           try {
-            await processProcedures({
+            const result = await processProcedures({
               importId,
               patients: batch,
             });
+            ruleVersion = result.ruleVersion;
             totalProcessed += batch.length;
             break; // Success, exit retry loop
           } catch (err) {
@@ -256,6 +285,7 @@ export default function ProcedureImport({
         total: parseResult.patients.length,
         willAdmit: Math.round(parseResult.patients.length * 0.45), // Estimate
         sameDay: Math.round(parseResult.patients.length * 0.55),
+        ruleVersion,
         errors: [...parseResult.errors, ...allErrors],
       });
 
@@ -274,6 +304,7 @@ export default function ProcedureImport({
 
   const handleClose = () => {
     setStep("upload");
+    setSourceId("");
     setParseResult(null);
     setImportResult(null);
     onClose();
@@ -292,7 +323,7 @@ export default function ProcedureImport({
           <div>
             <h2 className="text-xl font-semibold text-white">Import Procedure Schedule</h2>
             <p className="text-sm text-slate-400 mt-1">
-              {step === "upload" && "Upload a CSV file with cath/EP lab procedures"}
+              {step === "upload" && "Upload a procedure schedule CSV"}
               {step === "preview" && "Review parsed data before importing"}
               {step === "importing" && "Processing procedures..."}
               {step === "result" && "Import complete"}
@@ -310,6 +341,25 @@ export default function ProcedureImport({
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-6">
+          {/* Source System */}
+          {step === "upload" && sourceData && sourceData.sources.length > 0 && (
+            <div className="mb-4">
+              <label className="block text-sm text-slate-400 mb-1">Source system</label>
+              <select
+                value={sourceId}
+                onChange={(e) => setSourceId(e.target.value)}
+                className="w-full px-4 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:border-violet-500"
+              >
+                <option value="">Cath / EP lab export (default columns)</option>
+                {sourceData.sources.map((source) => (
+                  <option key={source._id} value={source._id}>
+                    {source.name} ({source.serviceLines.join(", ")})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Upload Step */}
           {step === "upload" && (
             <div
@@ -325,7 +375,9 @@ export default function ProcedureImport({
                 Drag and drop your CSV file here, or click to browse
               </p>
               <p className="text-slate-500 text-sm">
-                Supports .csv files from Cath Lab / EP Lab schedules
+                {selectedSource
+                  ? `Supports .csv files from ${selectedSource.name}`
+                  : "Supports .csv files from Cath Lab / EP Lab schedules"}
               </p>
               <input
                 id="procedure-file-input"
@@ -440,6 +492,12 @@ export default function ProcedureImport({
                 <p className="text-slate-400">
                   {importResult.total} procedures processed
                 </p>
+                {importResult.ruleVersion !== null && (
+                  <p className="text-slate-500 text-sm mt-1">
+                    Disposition rules:{" "}
+                    {importResult.ruleVersion === 0 ? "built-in defaults" : `version ${importResult.ruleVersion}`}
+                  </p>
+                )}
               </div>
 
               <div className="grid grid-cols-2 gap-4">
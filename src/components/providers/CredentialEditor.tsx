@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+
+export interface ProviderCredential {
+  skillId: Id<"skills">;
+  issuedDate?: string;
+  expiresDate?: string;
+  issuingState?: string;
+  verificationStatus: string;
+}
+
+interface CredentialEditorProps {
+  providerId: Id<"providers">;
+  skillName: string;
+  credential: ProviderCredential;
+  onClose: () => void;
+}
+
+/**
+ * Issue/expiry dates, issuing state and verification for one of a
+ * provider's skills
+ */
+export default function CredentialEditor({ providerId, skillName, credential, onClose }: CredentialEditorProps) {
+  const updateCredential = useMutation(api.providers.updateCredential);
+  const [form, setForm] = useState({
+    issuedDate: credential.issuedDate ?? "",
+    expiresDate: credential.expiresDate ?? "",
+    issuingState: credential.issuingState ?? "",
+    verificationStatus: credential.verificationStatus,
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateCredential({
+        providerId,
+        skillId: credential.skillId,
+        issuedDate: form.issuedDate || undefined,
+        expiresDate: form.expiresDate || undefined,
+        issuingState: form.issuingState || undefined,
+        verificationStatus: form.verificationStatus,
+      });
+      toast.success(`${skillName} credential updated`);
+      onClose();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-1 bg-slate-700 border border-slate-600 rounded focus:outline-none focus:border-emerald-500";
+
+  return (
+    <div className="bg-slate-700/50 rounded-lg p-3 mb-3">
+      <div className="text-sm font-medium mb-2">{skillName} credential</div>
+      <div className="grid grid-cols-4 gap-2 items-end">
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Issued</label>
+          <input
+            type="date"
+            value={form.issuedDate}
+            onChange={(e) => setForm({ ...form, issuedDate: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Expires</label>
+          <input
+            type="date"
+            value={form.expiresDate}
+            onChange={(e) => setForm({ ...form, expiresDate: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Issuing State</label>
+          <input
+            type="text"
+            maxLength={2}
+            value={form.issuingState}
+            onChange={(e) => setForm({ ...form, issuingState: e.target.value.toUpperCase() })}
+            className={inputClass}
+            placeholder="Any"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-slate-400 mb-1">Verification</label>
+          <select
+            value={form.verificationStatus}
+            onChange={(e) => setForm({ ...form, verificationStatus: e.target.value })}
+            className={inputClass}
+          >
+            <option value="verified">Verified</option>
+            <option value="pending">Pending</option>
+            <option value="rejected">Rejected</option>
+          </select>
+        </div>
+      </div>
+      <p className="text-xs text-slate-500 mt-2">
+        Expired or rejected credentials stop the provider covering shifts that require this skill; pending ones
+        can&apos;t make a Perfect match. A state limits the credential to hospitals in that state.
+      </p>
+      <div className="flex gap-2 mt-2">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-3 py-1 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 rounded text-sm transition-colors"
+        >
+          Save
+        </button>
+        <button onClick={onClose} className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-sm transition-colors">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
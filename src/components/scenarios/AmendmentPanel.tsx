@@ -0,0 +1,306 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Doc, Id } from "../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { History } from "lucide-react";
+
+// ═══════════════════════════════════════════════════════════════════
+// AMENDMENT PANEL
+// Change an Active scenario's dates or job types without regenerating:
+// preview the position diff and affected assignments, apply it, and
+// browse earlier amendments
+// ═══════════════════════════════════════════════════════════════════
+
+type AffectedJobTypes = Doc<"strike_scenarios">["affectedJobTypes"];
+
+export function AmendmentPanel({ scenario }: { scenario: Doc<"strike_scenarios"> }) {
+  const scenarioId = scenario._id;
+  const amendments = useQuery(api.scenarios.listAmendments, { scenarioId });
+  const jobTypes = useQuery(api.jobTypes.list, { healthSystemId: scenario.healthSystemId });
+  const amendScenario = useMutation(api.scenarios.amend);
+
+  const [editing, setEditing] = useState(false);
+  const [startDate, setStartDate] = useState(scenario.startDate);
+  const [endDate, setEndDate] = useState(scenario.endDate);
+  const [affectedJobTypes, setAffectedJobTypes] = useState<AffectedJobTypes>(scenario.affectedJobTypes);
+  const [reason, setReason] = useState("");
+  const [applying, setApplying] = useState(false);
+
+  const preview = useQuery(
+    api.scenarios.previewAmendment,
+    editing && affectedJobTypes.length > 0 ? { scenarioId, startDate, endDate, affectedJobTypes } : "skip"
+  );
+
+  const startEditing = () => {
+    setStartDate(scenario.startDate);
+    setEndDate(scenario.endDate);
+    setAffectedJobTypes(scenario.affectedJobTypes);
+    setReason("");
+    setEditing(true);
+  };
+
+  const toggleJobType = (jobTypeId: Id<"job_types">) => {
+    setAffectedJobTypes(
+      affectedJobTypes.some((ajt) => ajt.jobTypeId === jobTypeId)
+        ? affectedJobTypes.filter((ajt) => ajt.jobTypeId !== jobTypeId)
+        : [...affectedJobTypes, { jobTypeId, reductionPercent: 100 }]
+    );
+  };
+
+  const setReduction = (jobTypeId: Id<"job_types">, reductionPercent: number) => {
+    setAffectedJobTypes(
+      affectedJobTypes.map((ajt) => (ajt.jobTypeId === jobTypeId ? { ...ajt, reductionPercent } : ajt))
+    );
+  };
+
+  const handleApply = async () => {
+    const affected = preview?.diff?.assignments.length ?? 0;
+    if (affected > 0 && !confirm(`Cancel ${affected} assignment(s) and notify those providers?`)) return;
+
+    setApplying(true);
+    try {
+      const result = await amendScenario({
+        scenarioId,
+        startDate,
+        endDate,
+        affectedJobTypes,
+        reason: reason || undefined,
+      });
+      toast.success(
+        `Amendment v${result.version}: added ${result.positionsAdded} and cancelled ${result.positionsCancelled} positions` +
+          (result.providersNotified > 0 ? `, notified ${result.providersNotified} providers` : "")
+      );
+      setEditing(false);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (scenario.status !== "Active" && (!amendments || amendments.length === 0)) return null;
+
+  const diff = preview?.diff;
+  const unchanged =
+    diff &&
+    diff.positionsAdded + diff.standbyAdded + diff.positionsCancelled + diff.standbyCancelled === 0 &&
+    startDate === scenario.startDate &&
+    endDate === scenario.endDate;
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="font-medium flex items-center gap-2">
+            <History className="h-4 w-4 text-sky-400" />
+            Amendments
+          </h3>
+          <p className="text-sm text-slate-400 mt-1">
+            Change dates or job types while keeping filled positions and their assignments
+          </p>
+        </div>
+        {scenario.status === "Active" && !editing && (
+          <Button onClick={startEditing} className="bg-emerald-600 hover:bg-emerald-700">
+            Amend Scenario
+          </Button>
+        )}
+      </div>
+
+      {editing && (
+        <div className="border border-slate-700 rounded-lg p-4 mb-4 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm text-slate-400 mb-1">Start Date</label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:border-emerald-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-slate-400 mb-1">End Date</label>
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:border-emerald-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm text-slate-400 mb-2">Affected Job Types</label>
+            <div className="space-y-2">
+              {jobTypes?.map((jt) => {
+                const selected = affectedJobTypes.find((ajt) => ajt.jobTypeId === jt._id);
+                return (
+                  <div key={jt._id} className="flex items-center gap-3 text-sm">
+                    <label className="flex items-center gap-2 w-56 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!!selected}
+                        onChange={() => toggleJobType(jt._id)}
+                        className="rounded border-slate-500 text-emerald-500 focus:ring-emerald-500 bg-slate-600"
+                      />
+                      {jt.name} <span className="text-slate-500">({jt.code})</span>
+                    </label>
+                    {selected && (
+                      <div className="flex gap-1">
+                        {[25, 50, 75, 100].map((val) => (
+                          <button
+                            key={val}
+                            type="button"
+                            onClick={() => setReduction(jt._id, val)}
+                            className={`px-2 py-0.5 rounded text-xs ${
+                              selected.reductionPercent === val
+                                ? "bg-emerald-600 text-white"
+                                : "bg-slate-700 text-slate-300 hover:bg-slate-600"
+                            }`}
+                          >
+                            {val}%
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Reason (optional)</label>
+            <input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Union extended the strike by two days"
+              className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:border-emerald-500"
+            />
+          </div>
+
+          {/* Preview */}
+          {affectedJobTypes.length === 0 ? (
+            <p className="text-sm text-amber-400">Select at least one job type</p>
+          ) : preview === undefined ? (
+            <p className="text-sm text-slate-500">Calculating changes...</p>
+          ) : preview.error ? (
+            <p className="text-sm text-red-400">{preview.error}</p>
+          ) : (
+            diff && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap gap-6 text-sm">
+                  <span className="text-slate-400">
+                    Add: <span className="text-emerald-400 font-medium">{diff.positionsAdded}</span>
+                    {diff.standbyAdded > 0 && <span className="text-slate-500"> (+{diff.standbyAdded} standby)</span>}
+                  </span>
+                  <span className="text-slate-400">
+                    Cancel: <span className="text-red-400 font-medium">{diff.positionsCancelled}</span>
+                    {diff.standbyCancelled > 0 && (
+                      <span className="text-slate-500"> (+{diff.standbyCancelled} standby)</span>
+                    )}
+                  </span>
+                  {diff.filledPositionsKept > 0 && (
+                    <span className="text-slate-400">
+                      Filled, kept: <span className="text-amber-400 font-medium">{diff.filledPositionsKept}</span>
+                    </span>
+                  )}
+                </div>
+                {diff.assignments.length > 0 && (
+                  <div>
+                    <p className="text-sm text-red-400 mb-2">
+                      {diff.assignments.length} assignment(s) fall outside the amended scenario and will be
+                      cancelled; those providers are notified.
+                    </p>
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {diff.assignments.map((a) => (
+                          <tr key={a.assignmentId} className="border-t border-slate-700">
+                            <td className="py-1.5">{a.providerName}</td>
+                            <td className="py-1.5 text-slate-400">
+                              {new Date(a.date).toLocaleDateString()} {a.shiftType}
+                            </td>
+                            <td className="py-1.5 text-slate-400">{a.serviceName}</td>
+                            <td className="py-1.5 text-right text-slate-500">{a.status}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              className="px-4 py-2 text-slate-300 hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+            <Button
+              onClick={handleApply}
+              disabled={applying || !diff || !!unchanged}
+              className="bg-emerald-600 hover:bg-emerald-700"
+            >
+              {applying ? "Applying..." : "Apply Amendment"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {amendments === undefined ? null : amendments.length === 0 ? (
+        <p className="text-sm text-slate-500">No amendments yet</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-slate-400 text-left">
+              <th className="pb-2 font-normal">Version</th>
+              <th className="pb-2 font-normal">Change</th>
+              <th className="pb-2 font-normal text-right">Positions</th>
+              <th className="pb-2 font-normal text-right">Notified</th>
+              <th className="pb-2 font-normal">By</th>
+            </tr>
+          </thead>
+          <tbody>
+            {amendments.map((amendment) => (
+              <tr key={amendment._id} className="border-t border-slate-700 align-top">
+                <td className="py-1.5 font-medium">v{amendment.version}</td>
+                <td className="py-1.5">
+                  <div>
+                    {amendment.before.startDate} &ndash; {amendment.before.endDate} &rarr;{" "}
+                    {amendment.after.startDate} &ndash; {amendment.after.endDate}
+                  </div>
+                  {amendment.before.jobTypes.join(", ") !== amendment.after.jobTypes.join(", ") && (
+                    <div className="text-slate-400">
+                      {amendment.before.jobTypes.join(", ")} &rarr; {amendment.after.jobTypes.join(", ")}
+                    </div>
+                  )}
+                  {amendment.reason && <div className="text-slate-500">{amendment.reason}</div>}
+                </td>
+                <td className="py-1.5 text-right">
+                  <span className="text-emerald-400">+{amendment.positionsAdded}</span>{" "}
+                  <span className="text-red-400">-{amendment.positionsCancelled}</span>
+                  {amendment.filledPositionsKept > 0 && (
+                    <div className="text-amber-400 text-xs">{amendment.filledPositionsKept} filled kept</div>
+                  )}
+                </td>
+                <td className="py-1.5 text-right text-slate-400">{amendment.notifiedProviderIds.length}</td>
+                <td className="py-1.5 text-slate-400">
+                  {amendment.createdByName}
+                  <div className="text-xs text-slate-500">{new Date(amendment.createdAt).toLocaleString()}</div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Activity } from "lucide-react";
+
+// ═══════════════════════════════════════════════════════════════════
+// CENSUS DELTA PANEL
+// For census-mode scenarios: positions to add or cancel since the
+// positions were last synced to the census forecast
+// ═══════════════════════════════════════════════════════════════════
+
+export function CensusDeltaPanel({ scenarioId }: { scenarioId: Id<"strike_scenarios"> }) {
+  const delta = useQuery(api.scenarios.getCensusDelta, { scenarioId });
+  const applyDelta = useMutation(api.scenarios.applyCensusDelta);
+  const [applying, setApplying] = useState(false);
+
+  if (!delta) return null;
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      const result = await applyDelta({ scenarioId });
+      toast.success(
+        `Added ${result.added} and cancelled ${result.cancelled} positions` +
+          (result.blocked > 0 ? ` (${result.blocked} filled positions kept)` : "")
+      );
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="font-medium flex items-center gap-2">
+            <Activity className="h-4 w-4 text-sky-400" />
+            Census-Derived Positions
+          </h3>
+          <p className="text-sm text-slate-400 mt-1">
+            {delta.censusSyncedAt
+              ? `Last synced ${new Date(delta.censusSyncedAt).toLocaleString()}`
+              : "Not synced to census yet"}
+            {delta.importsChanged && <span className="text-sky-400 ml-2">New census import available</span>}
+          </p>
+        </div>
+        {delta.changes.length > 0 && (
+          <Button
+            onClick={handleApply}
+            disabled={applying}
+            className="bg-emerald-600 hover:bg-emerald-700"
+          >
+            {applying ? "Applying..." : "Accept Changes"}
+          </Button>
+        )}
+      </div>
+
+      {delta.changes.length === 0 ? (
+        <p className="text-sm text-slate-500">Positions match the current census forecast</p>
+      ) : (
+        <>
+          <div className="flex gap-6 text-sm mb-3">
+            <span className="text-slate-400">
+              Add: <span className="text-emerald-400 font-medium">{delta.totals.toAdd}</span>
+            </span>
+            <span className="text-slate-400">
+              Cancel: <span className="text-red-400 font-medium">{delta.totals.toCancel}</span>
+            </span>
+            {delta.totals.blocked > 0 && (
+              <span className="text-slate-400">
+                Filled, kept: <span className="text-amber-400 font-medium">{delta.totals.blocked}</span>
+              </span>
+            )}
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-slate-400 text-left">
+                <th className="pb-2 font-normal">Date</th>
+                <th className="pb-2 font-normal">Service</th>
+                <th className="pb-2 font-normal text-right">Census</th>
+                <th className="pb-2 font-normal text-right">Positions</th>
+                <th className="pb-2 font-normal text-right">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {delta.changes.map((change) => (
+                <tr
+                  key={`${change.serviceJobTypeId}-${change.date}-${change.shiftType}`}
+                  className="border-t border-slate-700"
+                >
+                  <td className="py-1.5">
+                    {new Date(change.date).toLocaleDateString()} {change.shiftType}
+                  </td>
+                  <td className="py-1.5">
+                    {change.serviceName} <span className="text-slate-500">{change.jobTypeCode}</span>
+                  </td>
+                  <td className="py-1.5 text-right text-slate-400">{change.projectedCensus}</td>
+                  <td className="py-1.5 text-right text-slate-400">
+                    {change.currentPositions} &rarr; {change.plannedPositions}
+                  </td>
+                  <td
+                    className={`py-1.5 text-right font-medium ${
+                      change.delta > 0 ? "text-emerald-400" : "text-red-400"
+                    }`}
+                  >
+                    {change.delta > 0 ? `+${change.delta}` : change.delta}
+                    {change.delta < 0 && change.cancellable < -change.delta && (
+                      <span className="text-amber-400 text-xs ml-1">
+                        ({-change.delta - change.cancellable} filled)
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { AlertTriangle } from "lucide-react";
+
+// ═══════════════════════════════════════════════════════════════════
+// CONFIRMATION RISK PANEL
+// Assignments still unconfirmed 12 hours before the shift
+// ═══════════════════════════════════════════════════════════════════
+
+export function ConfirmationRiskPanel({ scenarioId }: { scenarioId: Id<"strike_scenarios"> }) {
+  const risk = useQuery(api.shiftReminders.getConfirmationRisk, { scenarioId });
+  const releaseUnconfirmed = useMutation(api.shiftReminders.releaseUnconfirmed);
+  const setAutoRelease = useMutation(api.shiftReminders.setAutoRelease);
+
+  if (!risk) return null;
+
+  const handleRelease = async (assignmentId: Id<"scenario_assignments">, providerName: string) => {
+    if (!confirm(`Release ${providerName} from this shift? The position will reopen.`)) return;
+    try {
+      await releaseUnconfirmed({ assignmentId });
+      toast.success("Shift released back to Open");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleAutoRelease = async (enabled: boolean) => {
+    try {
+      await setAutoRelease({ scenarioId, enabled });
+      toast.success(enabled ? "Auto-release enabled" : "Auto-release disabled");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-medium flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4 text-amber-400" />
+          Confirmation Risk ({risk.assignments.length})
+        </h3>
+        <label className="flex items-center gap-2 text-sm text-slate-400">
+          Auto-release at T-12h
+          <Switch checked={risk.autoReleaseUnconfirmed} onCheckedChange={handleAutoRelease} />
+        </label>
+      </div>
+
+      {risk.assignments.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          No unconfirmed shifts within 12 hours of starting.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {risk.assignments.map((assignment) => (
+            <div
+              key={assignment.assignmentId}
+              className="flex items-center justify-between p-3 bg-amber-500/10 border border-amber-500/30 rounded"
+            >
+              <div className="text-sm">
+                <span className="font-medium">{assignment.providerName}</span>
+                <span className="text-slate-400 ml-2">
+                  {assignment.serviceName} &middot;{" "}
+                  {new Date(assignment.date).toLocaleDateString()} {assignment.shiftType}{" "}
+                  {assignment.shiftStart}
+                </span>
+                <div className="flex gap-2 mt-1">
+                  {assignment.reminder48hSentAt && (
+                    <Badge variant="secondary" className="bg-slate-600 text-slate-300 text-xs">
+                      48h reminder sent
+                    </Badge>
+                  )}
+                  {assignment.reminder12hSentAt && (
+                    <Badge variant="secondary" className="bg-slate-600 text-slate-300 text-xs">
+                      12h reminder sent
+                    </Badge>
+                  )}
+                  {!assignment.cellPhone && (
+                    <Badge variant="secondary" className="bg-red-500/20 text-red-400 text-xs">
+                      No phone
+                    </Badge>
+                  )}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleRelease(assignment.assignmentId, assignment.providerName)}
+                className="h-7 text-xs"
+              >
+                Release
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useAction } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MessageSquare } from "lucide-react";
+
+// ═══════════════════════════════════════════════════════════════════
+// START CAMPAIGN DIALOG
+// ═══════════════════════════════════════════════════════════════════
+
+interface StartCampaignDialogProps {
+  position: {
+    _id: Id<"scenario_positions">;
+    date: string;
+    shiftType: string;
+    serviceName?: string;
+    jobTypeCode?: string;
+  } | null;
+  onClose: () => void;
+}
+
+export function StartCampaignDialog({ position, onClose }: StartCampaignDialogProps) {
+  const startCampaign = useAction(api.smsCampaigns.start);
+
+  const [mode, setMode] = useState<"sequential" | "wave">("sequential");
+  const [waveSize, setWaveSize] = useState("3");
+  const [timeoutMinutes, setTimeoutMinutes] = useState("15");
+  const [starting, setStarting] = useState(false);
+
+  const handleStart = async () => {
+    if (!position) return;
+    setStarting(true);
+    try {
+      const result = await startCampaign({
+        scenarioPositionId: position._id,
+        mode,
+        waveSize: mode === "wave" ? Number(waveSize) : undefined,
+        timeoutMinutes: Number(timeoutMinutes),
+      });
+      toast.success(`Campaign started with ${result.candidateCount} ranked candidates`);
+      onClose();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!position} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md bg-slate-800 border-slate-700">
+        <DialogHeader>
+          <DialogTitle className="text-slate-100">Text Candidates</DialogTitle>
+        </DialogHeader>
+
+        {position && (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-400">
+              {position.serviceName} {position.jobTypeCode} &middot;{" "}
+              {new Date(position.date).toLocaleDateString()} {position.shiftType}
+            </p>
+
+            <div className="grid grid-cols-2 gap-2">
+              {(
+                [
+                  { value: "sequential", label: "One at a time", description: "Best match first" },
+                  { value: "wave", label: "In waves", description: "Several at once, first YES wins" },
+                ] as const
+              ).map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setMode(option.value)}
+                  className={`text-left p-3 rounded-lg border transition-colors ${
+                    mode === option.value
+                      ? "border-emerald-500 bg-emerald-500/10"
+                      : "border-slate-600 hover:border-slate-500"
+                  }`}
+                >
+                  <div className="font-medium text-sm text-slate-100">{option.label}</div>
+                  <div className="text-xs text-slate-400 mt-1">{option.description}</div>
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {mode === "wave" && (
+                <div>
+                  <label className="block text-sm text-slate-400 mb-1">Wave size</label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={waveSize}
+                    onChange={(e) => setWaveSize(e.target.value)}
+                    className="bg-slate-700 border-slate-600"
+                  />
+                </div>
+              )}
+              <div>
+                <label className="block text-sm text-slate-400 mb-1">Timeout (minutes)</label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={timeoutMinutes}
+                  onChange={(e) => setTimeoutMinutes(e.target.value)}
+                  className="bg-slate-700 border-slate-600"
+                />
+              </div>
+            </div>
+
+            <p className="text-xs text-slate-500">
+              No reply within the timeout, or a NO, moves on to the next candidates. The first
+              YES books the shift and ends the campaign.
+            </p>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleStart}
+                disabled={starting}
+                className="bg-emerald-600 hover:bg-emerald-700"
+              >
+                {starting ? "Starting..." : "Start Campaign"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════════
+// CAMPAIGN TIMELINE
+// ═══════════════════════════════════════════════════════════════════
+
+const STATUS_STYLES: Record<string, string> = {
+  Active: "bg-blue-500/20 text-blue-400",
+  Filled: "bg-emerald-500/20 text-emerald-400",
+  Exhausted: "bg-red-500/20 text-red-400",
+  Cancelled: "bg-slate-600 text-slate-300",
+};
+
+const EVENT_DOT_STYLES: Record<string, string> = {
+  started: "bg-slate-400",
+  offered: "bg-blue-400",
+  accepted: "bg-emerald-400",
+  declined: "bg-amber-400",
+  timed_out: "bg-slate-500",
+  failed: "bg-red-400",
+  ended: "bg-slate-300",
+};
+
+export function CampaignTimeline({ scenarioId }: { scenarioId: Id<"strike_scenarios"> }) {
+  const campaigns = useQuery(api.smsCampaigns.getScenarioCampaigns, { scenarioId });
+  const cancelCampaign = useMutation(api.smsCampaigns.cancel);
+
+  if (!campaigns || campaigns.length === 0) return null;
+
+  const handleCancel = async (campaignId: Id<"sms_campaigns">) => {
+    if (!confirm("Stop this campaign? Outstanding offers will be withdrawn.")) return;
+    try {
+      await cancelCampaign({ campaignId });
+      toast.success("Campaign stopped");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-6">
+      <h3 className="font-medium mb-4 flex items-center gap-2">
+        <MessageSquare className="h-4 w-4 text-slate-400" />
+        SMS Campaigns ({campaigns.length})
+      </h3>
+      <div className="space-y-4">
+        {campaigns.map((campaign) => (
+          <div key={campaign._id} className="bg-slate-700/50 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <div className="text-sm">
+                <span className="font-medium">{campaign.position?.serviceName}</span>
+                <span className="text-slate-400 ml-2">
+                  {campaign.position?.jobTypeCode} &middot;{" "}
+                  {campaign.position && new Date(campaign.position.date).toLocaleDateString()}{" "}
+                  {campaign.position?.shiftType}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-slate-400">
+                  {campaign.offeredCount}/{campaign.candidateCount} offered
+                  {campaign.pendingCount > 0 && ` · ${campaign.pendingCount} waiting`}
+                </span>
+                <Badge variant="secondary" className={STATUS_STYLES[campaign.status] ?? ""}>
+                  {campaign.status}
+                </Badge>
+                {campaign.status === "Active" && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleCancel(campaign._id)}
+                    className="h-7 text-xs"
+                  >
+                    Stop
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <ol className="relative border-l border-slate-600 ml-1 space-y-2">
+              {campaign.events.map((event, i) => (
+                <li key={i} className="ml-4 text-sm">
+                  <span
+                    className={`absolute -left-1 mt-1.5 h-2 w-2 rounded-full ${
+                      EVENT_DOT_STYLES[event.type] ?? "bg-slate-400"
+                    }`}
+                  />
+                  <span className="text-slate-500 text-xs mr-2">
+                    {new Date(event.at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                  </span>
+                  {event.wave !== undefined && campaign.mode === "wave" && (
+                    <span className="text-slate-500 text-xs mr-2">W{event.wave}</span>
+                  )}
+                  <span className="text-slate-200">{event.label}</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { CalendarClock, Download } from "lucide-react";
+import * as XLSX from "xlsx";
+
+// ═══════════════════════════════════════════════════════════════════
+// ELECTIVE THROTTLING PANEL
+// Procedures to postpone so downstream units stay within bed and
+// staffed capacity, with per-unit overrides and an Excel export for
+// the cath/EP lab schedulers
+// ═══════════════════════════════════════════════════════════════════
+
+interface Override {
+  unitKey: string;
+  beds?: number;
+  staffedRn?: number;
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { month: "numeric", day: "numeric" });
+
+export function ElectiveThrottlingPanel({ scenarioId }: { scenarioId: Id<"strike_scenarios"> }) {
+  const [overrides, setOverrides] = useState<Override[]>([]);
+  const plan = useQuery(api.electiveThrottling.plan, { scenarioId, overrides });
+
+  if (!plan || plan.summary.scheduled === 0) return null;
+
+  const setOverride = (unitKey: string, field: "beds" | "staffedRn", value: string) => {
+    const parsed = value === "" ? undefined : Math.max(0, Number(value));
+    setOverrides((current) => {
+      const existing = current.find((o) => o.unitKey === unitKey) ?? { unitKey };
+      const updated = { ...existing, [field]: parsed };
+      const rest = current.filter((o) => o.unitKey !== unitKey);
+      return updated.beds === undefined && updated.staffedRn === undefined ? rest : [...rest, updated];
+    });
+  };
+
+  const handleExport = () => {
+    const headers = [
+      "Order",
+      "Visit Date",
+      "Hospital",
+      "MRN",
+      "Patient",
+      "Procedure",
+      "Category",
+      "Provider",
+      "ICU Unit",
+      "ICU Days",
+      "Floor Unit",
+      "Floor Days",
+      "Bed-Days",
+      "Bed-Days in Scenario",
+      "Overflow Bed-Days Relieved",
+      "Units Relieved",
+    ];
+    const rows = plan.deferrals.map((d) => [
+      d.order,
+      d.visitDate,
+      d.hospitalName,
+      d.mrn,
+      d.patientName,
+      d.procedureText,
+      d.procedureCategory,
+      d.provider ?? "",
+      d.icuUnit ?? "",
+      d.icuDays,
+      d.floorUnit ?? "",
+      d.floorDays,
+      d.bedDays,
+      d.bedDaysInScenario,
+      d.overflowRelieved,
+      d.unitsRelieved.join(", "),
+    ]);
+
+    const workbook = XLSX.utils.book_new();
+    const sheet = XLSX.utils.aoa_to_sheet([headers, ...rows]);
+    sheet["!cols"] = headers.map((h) => ({ wch: h === "Procedure" ? 40 : Math.max(10, h.length + 2) }));
+    XLSX.utils.book_append_sheet(workbook, sheet, "Deferrals");
+
+    const filename = `${plan.scenarioName.replace(/[^a-zA-Z0-9]/g, "_")}_Deferrals_${new Date().toISOString().split("T")[0]}.xlsx`;
+    XLSX.writeFile(workbook, filename);
+  };
+
+  const { summary } = plan;
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="font-medium flex items-center gap-2">
+            <CalendarClock className="h-4 w-4 text-violet-400" />
+            Elective Throttling
+          </h3>
+          <p className="text-sm text-slate-400 mt-1">
+            {summary.scheduled} scheduled procedures &middot; {summary.sameDayDischarge} same-day discharge go ahead
+          </p>
+        </div>
+        {plan.deferrals.length > 0 && (
+          <Button onClick={handleExport} className="bg-slate-700 hover:bg-slate-600">
+            <Download className="h-4 w-4 mr-2" />
+            Export Deferrals
+          </Button>
+        )}
+      </div>
+
+      <div className="flex gap-6 text-sm mb-4">
+        <span className="text-slate-400">
+          Defer: <span className="text-amber-400 font-medium">{summary.deferred}</span>
+        </span>
+        <span className="text-slate-400">
+          Bed-days freed: <span className="text-emerald-400 font-medium">{summary.bedDaysFreed}</span>
+        </span>
+        <span className="text-slate-400">
+          Overflow bed-days:{" "}
+          <span className="text-white font-medium">
+            {summary.overflowBedDaysBefore} &rarr; {summary.overflowBedDaysAfter}
+          </span>
+        </span>
+      </div>
+
+      {/* Downstream capacity by unit and day */}
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-slate-400 text-left">
+              <th className="pb-2 font-normal">Unit</th>
+              <th className="pb-2 font-normal">Beds</th>
+              <th className="pb-2 font-normal">Staffed RN</th>
+              {plan.dates.map((date) => (
+                <th key={date} className="pb-2 font-normal text-center">
+                  {formatDate(date)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {plan.units.map((unit) => {
+              const override = overrides.find((o) => o.unitKey === unit.unitKey);
+              return (
+                <tr key={unit.unitKey} className="border-t border-slate-700">
+                  <td className="py-1.5 whitespace-nowrap">
+                    {unit.unitName} <span className="text-slate-500 text-xs">{unit.hospitalName}</span>
+                  </td>
+                  <td className="py-1.5">
+                    <input
+                      type="number"
+                      min={0}
+                      value={override?.beds ?? ""}
+                      placeholder={String(unit.days[0]?.bedCapacity ?? "-")}
+                      onChange={(e) => setOverride(unit.unitKey, "beds", e.target.value)}
+                      className="w-16 px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white"
+                    />
+                  </td>
+                  <td className="py-1.5">
+                    <input
+                      type="number"
+                      min={0}
+                      value={override?.staffedRn ?? ""}
+                      placeholder={String(unit.days[0]?.staffedRn ?? "-")}
+                      onChange={(e) => setOverride(unit.unitKey, "staffedRn", e.target.value)}
+                      className="w-16 px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white"
+                    />
+                  </td>
+                  {unit.days.map((day) => {
+                    const over = day.capacity !== null && day.afterDeferrals > day.capacity;
+                    const relieved = day.capacity !== null && day.projected > day.capacity && !over;
+                    return (
+                      <td
+                        key={day.date}
+                        className={`py-1.5 text-center ${over ? "text-red-400" : relieved ? "text-amber-400" : "text-slate-300"}`}
+                        title={`Census ${day.baselineCensus}, with procedures ${day.projected}`}
+                      >
+                        {day.afterDeferrals}
+                        {day.capacity !== null && <span className="text-slate-500">/{day.capacity}</span>}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Recommended deferrals */}
+      {plan.deferrals.length === 0 ? (
+        <p className="text-sm text-slate-500">Downstream units stay within capacity - no deferrals needed</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-slate-400 text-left">
+              <th className="pb-2 font-normal">#</th>
+              <th className="pb-2 font-normal">Date</th>
+              <th className="pb-2 font-normal">Patient</th>
+              <th className="pb-2 font-normal">Procedure</th>
+              <th className="pb-2 font-normal text-right">ICU / Floor Days</th>
+              <th className="pb-2 font-normal text-right">Overflow Relieved</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.deferrals.map((d) => (
+              <tr key={d.procedureId} className="border-t border-slate-700">
+                <td className="py-1.5 text-slate-500">{d.order}</td>
+                <td className="py-1.5">{d.visitDate}</td>
+                <td className="py-1.5">
+                  {d.initials} <span className="text-slate-500">{d.mrn}</span>
+                </td>
+                <td className="py-1.5 truncate max-w-xs" title={d.procedureText}>
+                  {d.procedureCategory}
+                </td>
+                <td className="py-1.5 text-right text-slate-400">
+                  {d.icuDays} / {d.floorDays}
+                </td>
+                <td className="py-1.5 text-right text-emerald-400 font-medium">
+                  {d.overflowRelieved} <span className="text-slate-500 text-xs">{d.unitsRelieved.join(", ")}</span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
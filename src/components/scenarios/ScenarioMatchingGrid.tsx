@@ -10,7 +10,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { ChevronLeft, ChevronRight, Search, X, Check, Clock, Star } from "lucide-react";
+import { ChevronLeft, ChevronRight, Search, X, Check, Clock, Star, Wand2 } from "lucide-react";
 
 type CellStatus = "Open" | "Assigned" | "Confirmed" | "Cancelled";
 
@@ -24,6 +24,14 @@ interface GridCellData {
   assignmentStatus?: string;
 }
 
+interface ProposalData {
+  providerId: Id<"providers">;
+  providerName: string;
+  providerInitials: string;
+  matchQuality: string;
+  availabilityStatus: string;
+}
+
 interface ScenarioMatchingGridProps {
   scenarioId: Id<"strike_scenarios">;
 }
@@ -35,6 +43,13 @@ export function ScenarioMatchingGrid({ scenarioId }: ScenarioMatchingGridProps)
   const confirmAssignment = useMutation(api.scenarioMatching.confirmAssignment);
   const cancelAssignment = useMutation(api.scenarioMatching.cancelAssignment);
 
+  // Auto-fill draft (proposed assignments awaiting review)
+  const autoFillDraft = useQuery(api.scenarioAutoFill.getDraft, { scenarioId });
+  const generateAutoFill = useMutation(api.scenarioAutoFill.generate);
+  const acceptAutoFill = useMutation(api.scenarioAutoFill.accept);
+  const rejectAutoFill = useMutation(api.scenarioAutoFill.reject);
+  const [isAutoFilling, setIsAutoFilling] = useState(false);
+
   const [selectedCell, setSelectedCell] = useState<{
     positionId: Id<"scenario_positions">;
     date: string;
@@ -96,11 +111,14 @@ export function ScenarioMatchingGrid({ scenarioId }: ScenarioMatchingGridProps)
     if (!selectedCell) return;
 
     try {
-      await createAssignment({
+      const result = await createAssignment({
         scenarioPositionId: selectedCell.positionId,
         providerId,
       });
       toast.success("Provider assigned successfully");
+      if (result.dutyHourWarnings.length > 0) {
+        toast.warning(`Duty-hour warning: ${result.dutyHourWarnings.join("; ")}`);
+      }
       setSelectedCell(null);
     } catch (error: any) {
       toast.error(error.message);
@@ -133,6 +151,43 @@ export function ScenarioMatchingGrid({ scenarioId }: ScenarioMatchingGridProps)
     }
   };
 
+  const handleAutoFill = async () => {
+    setIsAutoFilling(true);
+    try {
+      const result = await generateAutoFill({ scenarioId });
+      toast.success(
+        `Proposed ${result.proposedCount} of ${result.openPositions} open positions - review and accept below`
+      );
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setIsAutoFilling(false);
+    }
+  };
+
+  const handleAcceptAutoFill = async () => {
+    if (!autoFillDraft) return;
+    try {
+      const result = await acceptAutoFill({ runId: autoFillDraft._id });
+      toast.success(
+        `Assigned ${result.acceptedCount} positions` +
+          (result.skippedCount > 0 ? ` (${result.skippedCount} skipped - no longer valid)` : "")
+      );
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleRejectAutoFill = async () => {
+    if (!autoFillDraft) return;
+    try {
+      await rejectAutoFill({ runId: autoFillDraft._id });
+      toast.success("Auto-fill proposal discarded");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
   // Filter providers based on search
   const filteredMatches = positionMatches?.matches?.filter(
     (match: any) =>
@@ -182,6 +237,60 @@ export function ScenarioMatchingGrid({ scenarioId }: ScenarioMatchingGridProps)
         </Button>
       </div>
 
+      {/* Auto-fill */}
+      <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-slate-700 bg-slate-800/60">
+        {autoFillDraft ? (
+          <>
+            <div className="text-sm text-slate-300">
+              <span className="font-medium text-violet-300">Auto-fill draft:</span>{" "}
+              {autoFillDraft.proposedCount} of {autoFillDraft.openPositions} open positions proposed
+              {autoFillDraft.unfilledCount > 0 && (
+                <span className="text-amber-400"> · {autoFillDraft.unfilledCount} unfilled</span>
+              )}
+              <span className="text-slate-500">
+                {" "}
+                · {autoFillDraft.providerCount} providers, {autoFillDraft.minShiftsPerProvider}-
+                {autoFillDraft.maxShiftsPerProvider} shifts each
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={handleAcceptAutoFill}
+                className="gap-2 bg-emerald-600 hover:bg-emerald-700"
+              >
+                <Check className="h-4 w-4" />
+                Accept All
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRejectAutoFill}
+                className="gap-2 bg-transparent border-red-500/30 text-red-400 hover:bg-red-500/10"
+              >
+                <X className="h-4 w-4" />
+                Reject
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-slate-400">
+              Auto-assign proposes a provider for every open position using the matching rules
+            </p>
+            <Button
+              size="sm"
+              onClick={handleAutoFill}
+              disabled={isAutoFilling}
+              className="gap-2 bg-violet-600 hover:bg-violet-700"
+            >
+              <Wand2 className="h-4 w-4" />
+              {isAutoFilling ? "Solving..." : "Auto-assign"}
+            </Button>
+          </>
+        )}
+      </div>
+
       {/* Grid */}
       <div className="flex-1 overflow-auto bg-slate-900">
         <div className="inline-block min-w-full">
@@ -261,7 +370,12 @@ export function ScenarioMatchingGrid({ scenarioId }: ScenarioMatchingGridProps)
                               )
                             }
                           >
-                            {shift.am && <GridCellDisplay cell={shift.am} />}
+                            {shift.am && (
+                              <GridCellDisplay
+                                cell={shift.am}
+                                proposal={autoFillDraft?.byPosition[shift.am.positionId]}
+                              />
+                            )}
                           </td>,
                           <td
                             key={`${shift.date}-pm`}
@@ -277,7 +391,12 @@ export function ScenarioMatchingGrid({ scenarioId }: ScenarioMatchingGridProps)
                               )
                             }
                           >
-                            {shift.pm && <GridCellDisplay cell={shift.pm} />}
+                            {shift.pm && (
+                              <GridCellDisplay
+                                cell={shift.pm}
+                                proposal={autoFillDraft?.byPosition[shift.pm.positionId]}
+                              />
+                            )}
                           </td>,
                         ])}
                     </tr>
@@ -389,6 +508,11 @@ export function ScenarioMatchingGrid({ scenarioId }: ScenarioMatchingGridProps)
                           {match.isPreferred && (
                             <Star className="h-4 w-4 text-yellow-400 fill-yellow-400" />
                           )}
+                          {match.isAgency && (
+                            <Badge variant="outline" className="text-xs bg-purple-500/20 text-purple-300 border-purple-500/30">
+                              Agency
+                            </Badge>
+                          )}
                         </div>
                         <Badge
                           variant="outline"
@@ -441,6 +565,32 @@ export function ScenarioMatchingGrid({ scenarioId }: ScenarioMatchingGridProps)
                           ))}
                         </div>
                       )}
+                      {match.unverifiedSkills?.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {match.unverifiedSkills.map((skill: string) => (
+                            <Badge
+                              key={skill}
+                              variant="secondary"
+                              className="text-xs bg-yellow-500/20 text-yellow-400"
+                            >
+                              Unverified: {skill}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                      {match.dutyHourViolations?.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {match.dutyHourViolations.map((violation: string) => (
+                            <Badge
+                              key={violation}
+                              variant="secondary"
+                              className="text-xs bg-amber-500/20 text-amber-400"
+                            >
+                              {violation}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
                     </button>
                   ))
                 )}
@@ -453,7 +603,13 @@ export function ScenarioMatchingGrid({ scenarioId }: ScenarioMatchingGridProps)
   );
 }
 
-function GridCellDisplay({ cell }: { cell: GridCellData }) {
+function GridCellDisplay({
+  cell,
+  proposal,
+}: {
+  cell: GridCellData;
+  proposal?: ProposalData;
+}) {
   if (cell.status === "Cancelled") {
     return (
       <div className="h-12 w-full bg-slate-950 rounded flex items-center justify-center cursor-not-allowed">
@@ -482,6 +638,20 @@ function GridCellDisplay({ cell }: { cell: GridCellData }) {
     );
   }
 
+  // Open with an auto-fill proposal
+  if (proposal) {
+    return (
+      <div
+        title={`Proposed: ${proposal.providerName} (${proposal.matchQuality})`}
+        className="h-12 w-full bg-violet-500/10 border-2 border-dashed border-violet-500/50 rounded flex items-center justify-center hover:bg-violet-500/20 transition-colors group"
+      >
+        <span className="text-sm font-medium text-violet-300 truncate px-2 group-hover:text-violet-200">
+          {proposal.providerInitials}
+        </span>
+      </div>
+    );
+  }
+
   // Open
   return (
     <div className="h-12 w-full bg-slate-800/50 border-2 border-dashed border-slate-600 rounded flex items-center justify-center hover:border-emerald-500/50 hover:bg-slate-800 transition-colors group">
@@ -27,6 +27,8 @@ interface WizardState {
   hospitalId: Id<"hospitals"> | null;
   // Step 2
   affectedJobTypes: AffectedJobType[];
+  // Step 3
+  positionSource: "static" | "census";
 }
 
 const getDefaultState = (): WizardState => ({
@@ -37,6 +39,7 @@ const getDefaultState = (): WizardState => ({
   endDate: "",
   hospitalId: null,
   affectedJobTypes: [],
+  positionSource: "static",
 });
 
 export default function ScenarioWizard({
@@ -73,6 +76,20 @@ export default function ScenarioWizard({
     api.jobTypes.list,
     effectiveHealthSystemId ? { healthSystemId: effectiveHealthSystemId } : "skip"
   );
+  // Preview vacated position counts on the review step
+  const positionPreview = useQuery(
+    api.scenarios.previewPositions,
+    currentStep === 3 && effectiveHealthSystemId
+      ? {
+          healthSystemId: effectiveHealthSystemId,
+          hospitalId: state.hospitalId || undefined,
+          startDate: state.startDate,
+          endDate: state.endDate,
+          affectedJobTypes: state.affectedJobTypes,
+          positionSource: state.positionSource,
+        }
+      : "skip"
+  );
 
   const handleClose = () => {
     setCurrentStep(1);
@@ -161,6 +178,7 @@ export default function ScenarioWizard({
         startDate: state.startDate,
         endDate: state.endDate,
         affectedJobTypes: state.affectedJobTypes,
+        positionSource: state.positionSource,
       });
 
       toast.success(
@@ -501,11 +519,103 @@ export default function ScenarioWizard({
                 </div>
               </div>
 
+              <div className="bg-slate-700/50 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="font-medium">Position Preview</h3>
+                  <div className="flex gap-1">
+                    {(["static", "census"] as const).map((source) => (
+                      <button
+                        key={source}
+                        type="button"
+                        onClick={() => setState({ ...state, positionSource: source })}
+                        className={`px-3 py-1 text-xs rounded transition-colors ${
+                          state.positionSource === source
+                            ? "bg-emerald-600 text-white"
+                            : "bg-slate-600 text-slate-300 hover:bg-slate-500"
+                        }`}
+                      >
+                        {source === "static" ? "Service headcounts" : "Predicted census"}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {positionPreview === undefined ? (
+                  <p className="text-sm text-slate-400">Calculating positions...</p>
+                ) : !positionPreview || positionPreview.services.length === 0 ? (
+                  <p className="text-sm text-slate-400">
+                    No services in scope staff the selected job types.
+                  </p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-slate-400 text-left">
+                        <th className="pb-2 font-normal">Service</th>
+                        <th className="pb-2 font-normal">Job Type</th>
+                        <th className="pb-2 font-normal text-right">Normal</th>
+                        <th className="pb-2 font-normal text-right">To Fill</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {positionPreview.services.map((row) => (
+                        <tr
+                          key={`${row.serviceId}-${row.jobTypeId}`}
+                          className="border-t border-slate-600"
+                        >
+                          <td className="py-1.5">
+                            {row.serviceName}
+                            <span className="ml-1 text-xs text-slate-500">
+                              (round {row.strikeRounding})
+                            </span>
+                          </td>
+                          <td className="py-1.5">
+                            {row.jobTypeCode}{" "}
+                            <span className="text-xs text-slate-500">
+                              {row.reductionPercent}%
+                            </span>
+                          </td>
+                          <td className="py-1.5 text-right text-slate-400">
+                            {row.originalPositions}
+                          </td>
+                          <td className="py-1.5 text-right font-medium text-amber-400">
+                            {row.scenarioPositions}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot>
+                      <tr className="border-t border-slate-500 font-medium">
+                        <td className="pt-2" colSpan={2}>
+                          Total
+                        </td>
+                        <td className="pt-2 text-right text-slate-400">
+                          {positionPreview.originalPositions}
+                        </td>
+                        <td className="pt-2 text-right text-amber-400">
+                          {positionPreview.totalPositions}
+                        </td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                )}
+                {state.positionSource === "census" && positionPreview && (
+                  <p className="mt-2 text-xs text-slate-400">
+                    {positionPreview.censusShifts} shifts sized from the census forecast; the rest use
+                    service headcounts (no linked unit, no census ratio, or beyond the forecast window)
+                  </p>
+                )}
+                {positionPreview && positionPreview.standbyPositions > 0 && (
+                  <p className="mt-2 text-xs text-slate-400">
+                    + {positionPreview.standbyPositions} standby positions (not counted as coverage)
+                  </p>
+                )}
+              </div>
+
               <div className="bg-amber-500/10 border border-amber-500/50 rounded-lg p-4">
                 <p className="text-sm text-amber-200">
                   <strong>Note:</strong> Creating this scenario will generate positions
-                  for all affected services across {getDaysInRange()} days. You can
-                  then manage provider availability and start matching.
+                  for the share of each affected service vacated by the strike across{" "}
+                  {getDaysInRange()} days. You can then manage provider availability
+                  and start matching.
                 </p>
               </div>
             </div>
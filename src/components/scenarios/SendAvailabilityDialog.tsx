@@ -19,6 +19,7 @@ export default function SendAvailabilityDialog({
 }: SendAvailabilityDialogProps) {
   const [selectedProviders, setSelectedProviders] = useState<Set<string>>(new Set());
   const [jobTypeFilter, setJobTypeFilter] = useState<string>("");
+  const [channel, setChannel] = useState<"email" | "sms">("email");
   const [customMessage, setCustomMessage] = useState("");
   const [sending, setSending] = useState(false);
   const [result, setResult] = useState<{
@@ -40,6 +41,9 @@ export default function SendAvailabilityDialog({
   // Send emails action
   const sendEmails = useAction(api.email.sendShiftAvailabilityEmails);
 
+  // Send numbered SMS shift menus action
+  const sendShiftMenus = useAction(api.sms.sendShiftMenu);
+
   // Filter providers by job type and active status
   const filteredProviders = useMemo(() => {
     if (!providers || !scenario) return [];
@@ -53,8 +57,9 @@ export default function SendAvailabilityDialog({
       // Must be active
       if (!p.isActive) return false;
 
-      // Must have email
-      if (!p.email) return false;
+      // Must be reachable on the chosen channel
+      if (channel === "email" && !p.email) return false;
+      if (channel === "sms" && (!p.cellPhone || p.smsOptOut)) return false;
 
       // Must have an affected job type
       if (!affectedJobTypeIds.has(p.jobTypeId)) return false;
@@ -64,7 +69,7 @@ export default function SendAvailabilityDialog({
 
       return true;
     });
-  }, [providers, scenario, jobTypeFilter]);
+  }, [providers, scenario, jobTypeFilter, channel]);
 
   // Get affected job types for filter dropdown
   const affectedJobTypes = useMemo(() => {
@@ -105,23 +110,28 @@ export default function SendAvailabilityDialog({
     setResult(null);
 
     try {
-      const sendResult = await sendEmails({
-        scenarioId,
-        providerIds: Array.from(selectedProviders) as Id<"providers">[],
-        customMessage: customMessage.trim() || undefined,
-      });
+      const providerIds = Array.from(selectedProviders) as Id<"providers">[];
+      const sendResult =
+        channel === "sms"
+          ? await sendShiftMenus({ scenarioId, providerIds })
+          : await sendEmails({
+              scenarioId,
+              providerIds,
+              customMessage: customMessage.trim() || undefined,
+            });
+      const noun = channel === "sms" ? "text" : "email";
 
       setResult(sendResult);
 
       if (sendResult.success) {
-        toast.success(`Sent ${sendResult.sent} email${sendResult.sent > 1 ? "s" : ""}`);
+        toast.success(`Sent ${sendResult.sent} ${noun}${sendResult.sent > 1 ? "s" : ""}`);
       } else if (sendResult.sent > 0) {
-        toast.warning(`Sent ${sendResult.sent} emails, ${sendResult.failed} failed`);
+        toast.warning(`Sent ${sendResult.sent} ${noun}s, ${sendResult.failed} failed`);
       } else {
-        toast.error("Failed to send emails");
+        toast.error(`Failed to send ${noun}s`);
       }
     } catch (error: any) {
-      toast.error(error.message || "Failed to send emails");
+      toast.error(error.message || "Failed to send");
       setResult({
         success: false,
         sent: 0,
@@ -143,7 +153,9 @@ export default function SendAvailabilityDialog({
           <div>
             <h2 className="text-xl font-semibold text-white">Send Availability Request</h2>
             <p className="text-sm text-slate-400 mt-1">
-              Send shift availability emails to selected providers
+              {channel === "sms"
+                ? "Text selected providers a numbered menu of open shifts"
+                : "Send shift availability emails to selected providers"}
             </p>
           </div>
           <button
@@ -188,6 +200,34 @@ export default function SendAvailabilityDialog({
             </div>
           )}
 
+          {/* Channel */}
+          <div className="grid grid-cols-2 gap-2">
+            {(
+              [
+                { value: "email", label: "Email link", description: "Claim shifts on the web" },
+                { value: "sms", label: "SMS shift menu", description: 'Reply "YES 1 3" to claim' },
+              ] as const
+            ).map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => {
+                  setChannel(option.value);
+                  setSelectedProviders(new Set());
+                  setResult(null);
+                }}
+                className={`text-left p-3 rounded-lg border transition-colors ${
+                  channel === option.value
+                    ? "border-emerald-500 bg-emerald-500/10"
+                    : "border-slate-600 hover:border-slate-500"
+                }`}
+              >
+                <div className="font-medium text-sm text-white">{option.label}</div>
+                <div className="text-xs text-slate-400 mt-1">{option.description}</div>
+              </button>
+            ))}
+          </div>
+
           {/* Job Type Filter */}
           <div>
             <label className="block text-sm font-medium text-slate-400 mb-2">
@@ -247,7 +287,7 @@ export default function SendAvailabilityDialog({
                           {provider.firstName} {provider.lastName}
                         </div>
                         <div className="text-sm text-slate-400">
-                          {provider.email}
+                          {channel === "sms" ? provider.cellPhone : provider.email}
                         </div>
                       </div>
                       <span className="px-2 py-1 bg-slate-600 rounded text-xs text-slate-300">
@@ -261,37 +301,52 @@ export default function SendAvailabilityDialog({
           </div>
 
           {/* Custom Message */}
-          <div>
-            <label className="block text-sm font-medium text-slate-400 mb-2">
-              Custom Message (Optional)
-            </label>
-            <textarea
-              value={customMessage}
-              onChange={(e) => setCustomMessage(e.target.value)}
-              placeholder="Add a personal note to include in the email..."
-              rows={3}
-              className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500 resize-none"
-            />
-          </div>
+          {channel === "email" && (
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-2">
+                Custom Message (Optional)
+              </label>
+              <textarea
+                value={customMessage}
+                onChange={(e) => setCustomMessage(e.target.value)}
+                placeholder="Add a personal note to include in the email..."
+                rows={3}
+                className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500 resize-none"
+              />
+            </div>
+          )}
 
           {/* Preview */}
-          <div className="bg-slate-700/30 rounded-lg p-4 border border-slate-700">
-            <div className="text-sm text-slate-400 mb-2">Email Preview</div>
-            <div className="text-white text-sm space-y-2">
-              <p><strong>Subject:</strong> Available Shifts for {scenario?.name}</p>
-              <p><strong>Content:</strong></p>
-              <div className="pl-4 border-l-2 border-slate-600 text-slate-300">
-                <p>Hello [Provider Name],</p>
-                <p className="mt-2">
-                  Shifts are available for <strong>{scenario?.name}</strong>. You can view and claim available shifts that match your skills and schedule.
-                </p>
-                {customMessage && (
-                  <p className="mt-2 italic text-slate-400">"{customMessage}"</p>
-                )}
-                <p className="mt-2 text-emerald-400">[View & Claim Available Shifts Button]</p>
+          {channel === "sms" ? (
+            <div className="bg-slate-700/30 rounded-lg p-4 border border-slate-700">
+              <div className="text-sm text-slate-400 mb-2">SMS Preview</div>
+              <div className="pl-4 border-l-2 border-slate-600 text-slate-300 text-sm whitespace-pre-line">
+                {`Hi [Provider Name], open shifts for ${scenario?.name ?? ""}:\n1) Mon 1/6 AM ICU\n2) Tue 1/7 PM ICU\nReply YES and the numbers you want, e.g. YES 1 3`}
               </div>
+              <p className="mt-2 text-xs text-slate-500">
+                Each provider gets only the open shifts they are eligible for. Numbers stay valid
+                for 24 hours; shifts already taken are reported back in the reply.
+              </p>
             </div>
-          </div>
+          ) : (
+            <div className="bg-slate-700/30 rounded-lg p-4 border border-slate-700">
+              <div className="text-sm text-slate-400 mb-2">Email Preview</div>
+              <div className="text-white text-sm space-y-2">
+                <p><strong>Subject:</strong> Available Shifts for {scenario?.name}</p>
+                <p><strong>Content:</strong></p>
+                <div className="pl-4 border-l-2 border-slate-600 text-slate-300">
+                  <p>Hello [Provider Name],</p>
+                  <p className="mt-2">
+                    Shifts are available for <strong>{scenario?.name}</strong>. You can view and claim available shifts that match your skills and schedule.
+                  </p>
+                  {customMessage && (
+                    <p className="mt-2 italic text-slate-400">"{customMessage}"</p>
+                  )}
+                  <p className="mt-2 text-emerald-400">[View & Claim Available Shifts Button]</p>
+                </div>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -324,7 +379,7 @@ export default function SendAvailabilityDialog({
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
                   </svg>
-                  Send Emails
+                  {channel === "sms" ? "Send Texts" : "Send Emails"}
                 </>
               )}
             </button>
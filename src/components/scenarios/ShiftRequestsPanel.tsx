@@ -0,0 +1,113 @@
+"use client";
+
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowRightLeft } from "lucide-react";
+
+// ═══════════════════════════════════════════════════════════════════
+// SHIFT REQUESTS PANEL
+// Drop/swap requests and accepted peer trades from the provider portal
+// ═══════════════════════════════════════════════════════════════════
+
+const TYPE_BADGES: Record<string, { label: string; className: string }> = {
+  drop: { label: "Drop", className: "bg-red-500/20 text-red-300" },
+  swap: { label: "Swap", className: "bg-blue-500/20 text-blue-300" },
+  giveaway: { label: "Giveaway", className: "bg-purple-500/20 text-purple-300" },
+  trade: { label: "Trade", className: "bg-indigo-500/20 text-indigo-300" },
+};
+
+export function ShiftRequestsPanel({ scenarioId }: { scenarioId: Id<"strike_scenarios"> }) {
+  const requests = useQuery(api.shiftRequests.listPending, { scenarioId });
+  const approve = useMutation(api.shiftRequests.approve);
+  const deny = useMutation(api.shiftRequests.deny);
+
+  if (!requests || requests.length === 0) return null;
+
+  const handleApprove = async (requestId: Id<"shift_change_requests">) => {
+    try {
+      await approve({ requestId });
+      toast.success("Request approved");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleDeny = async (requestId: Id<"shift_change_requests">) => {
+    const note = prompt("Reason for denying (optional)");
+    if (note === null) return;
+    try {
+      await deny({ requestId, note: note || undefined });
+      toast.success("Request denied");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const describe = (shift: { date: string; shiftType: string; shiftStart: string; serviceName: string }) =>
+    `${shift.serviceName} · ${new Date(shift.date).toLocaleDateString()} ${shift.shiftType} ${shift.shiftStart}`;
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-6">
+      <h3 className="font-medium flex items-center gap-2 mb-4">
+        <ArrowRightLeft className="h-4 w-4 text-blue-400" />
+        Shift Change Requests ({requests.length})
+      </h3>
+
+      <div className="space-y-2">
+        {requests.map((request) => (
+          <div
+            key={request.requestId}
+            className="flex items-center justify-between p-3 bg-slate-700/50 rounded"
+          >
+            <div className="text-sm">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{request.providerName}</span>
+                <Badge variant="secondary" className={`${TYPE_BADGES[request.type]?.className} text-xs`}>
+                  {TYPE_BADGES[request.type]?.label ?? request.type}
+                </Badge>
+                {request.acceptorName && (
+                  <span className="text-slate-300">&rarr; {request.acceptorName}</span>
+                )}
+                <span className="text-slate-500">{request.departmentName}</span>
+              </div>
+              {request.shift && <div className="text-slate-400 mt-1">{describe(request.shift)}</div>}
+              {request.target && (
+                <div className="text-slate-400">
+                  &rarr; {describe(request.target)}
+                  {request.type === "swap" && request.target.status !== "Open" && (
+                    <span className="text-red-400 ml-2">(no longer open)</span>
+                  )}
+                </div>
+              )}
+              {request.blockedReason && (
+                <div className="text-red-400 mt-1">No longer eligible: {request.blockedReason}</div>
+              )}
+              {request.reason && <div className="text-slate-500 italic mt-1">&ldquo;{request.reason}&rdquo;</div>}
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button
+                size="sm"
+                onClick={() => handleApprove(request.requestId)}
+                className="h-7 text-xs bg-emerald-600 hover:bg-emerald-700"
+              >
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleDeny(request.requestId)}
+                className="h-7 text-xs"
+              >
+                Deny
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ListOrdered, ChevronUp, ChevronDown } from "lucide-react";
+
+// ═══════════════════════════════════════════════════════════════════
+// STANDBY PANEL
+// Ranked waitlists per service/date/shift - the top eligible provider
+// is promoted automatically when an assignment is cancelled
+// ═══════════════════════════════════════════════════════════════════
+
+const SELECT_CLASS =
+  "w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500";
+
+export function StandbyPanel({
+  scenarioId,
+  startDate,
+  endDate,
+}: {
+  scenarioId: Id<"strike_scenarios">;
+  startDate: string;
+  endDate: string;
+}) {
+  const standby = useQuery(api.standby.list, { scenarioId });
+  const addStandby = useMutation(api.standby.add);
+  const moveStandby = useMutation(api.standby.move);
+  const removeStandby = useMutation(api.standby.remove);
+
+  const [serviceId, setServiceId] = useState("");
+  const [date, setDate] = useState(startDate);
+  const [shiftType, setShiftType] = useState("AM");
+  const [providerId, setProviderId] = useState("");
+  const [adding, setAdding] = useState(false);
+
+  const candidates = useQuery(
+    api.standby.getCandidates,
+    serviceId
+      ? { scenarioId, serviceId: serviceId as Id<"services">, date, shiftType }
+      : "skip"
+  );
+
+  if (!standby) return null;
+
+  const handleAdd = async () => {
+    if (!serviceId || !providerId) return;
+    setAdding(true);
+    try {
+      const result = await addStandby({
+        scenarioId,
+        serviceId: serviceId as Id<"services">,
+        date,
+        shiftType,
+        providerId: providerId as Id<"providers">,
+      });
+      toast.success(`Added to standby at #${result.rank}`);
+      setProviderId("");
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleMove = async (standbyId: Id<"scenario_standby">, direction: "up" | "down") => {
+    try {
+      await moveStandby({ standbyId, direction });
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleRemove = async (standbyId: Id<"scenario_standby">) => {
+    try {
+      await removeStandby({ standbyId });
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  // Group waiting entries into lists: one per position, or per bucket
+  const lists = new Map<string, typeof standby.waiting>();
+  for (const entry of standby.waiting) {
+    const key = entry.scenarioPositionId ?? `${entry.serviceId}|${entry.date}|${entry.shiftType}`;
+    lists.set(key, [...(lists.get(key) ?? []), entry]);
+  }
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-6">
+      <h3 className="font-medium flex items-center gap-2 mb-4">
+        <ListOrdered className="h-4 w-4 text-amber-400" />
+        Standby Lists ({standby.waiting.length} waiting)
+      </h3>
+
+      {/* Add to standby */}
+      <div className="grid md:grid-cols-5 gap-2 mb-4">
+        <select
+          value={serviceId}
+          onChange={(e) => {
+            setServiceId(e.target.value);
+            setProviderId("");
+          }}
+          className={SELECT_CLASS}
+        >
+          <option value="">Service...</option>
+          {standby.services.map((service) => (
+            <option key={service.serviceId} value={service.serviceId}>
+              {service.name}
+            </option>
+          ))}
+        </select>
+        <Input
+          type="date"
+          min={startDate}
+          max={endDate}
+          value={date}
+          onChange={(e) => {
+            setDate(e.target.value);
+            setProviderId("");
+          }}
+          className="bg-slate-700 border-slate-600"
+        />
+        <select
+          value={shiftType}
+          onChange={(e) => {
+            setShiftType(e.target.value);
+            setProviderId("");
+          }}
+          className={SELECT_CLASS}
+        >
+          <option value="AM">AM</option>
+          <option value="PM">PM</option>
+        </select>
+        <select
+          value={providerId}
+          onChange={(e) => setProviderId(e.target.value)}
+          disabled={!candidates || candidates.length === 0}
+          className={SELECT_CLASS}
+        >
+          <option value="">
+            {candidates && candidates.length === 0 ? "No eligible providers" : "Provider..."}
+          </option>
+          {candidates?.map((candidate) => (
+            <option key={candidate.providerId} value={candidate.providerId}>
+              {candidate.providerName} ({candidate.jobTypeCode})
+              {candidate.dutyHourWarnings.length > 0 ? " ⚠" : ""}
+            </option>
+          ))}
+        </select>
+        <Button
+          onClick={handleAdd}
+          disabled={adding || !serviceId || !providerId}
+          className="bg-emerald-600 hover:bg-emerald-700"
+        >
+          {adding ? "Adding..." : "Add to Standby"}
+        </Button>
+      </div>
+
+      {lists.size === 0 ? (
+        <p className="text-sm text-slate-500">No providers on standby</p>
+      ) : (
+        <div className="space-y-3">
+          {[...lists.entries()].map(([key, entries]) => {
+            const first = entries[0];
+            return (
+              <div key={key} className="p-3 bg-slate-700/50 rounded">
+                <div className="text-sm text-slate-300 mb-2">
+                  {first.serviceName} &middot; {new Date(first.date).toLocaleDateString()} {first.shiftType}
+                  {first.jobCode && <span className="text-slate-500 ml-2">{first.jobCode}</span>}
+                </div>
+                <div className="space-y-1">
+                  {entries.map((entry, index) => (
+                    <div key={entry.standbyId} className="flex items-center justify-between text-sm">
+                      <span>
+                        <span className="text-slate-500 mr-2">#{index + 1}</span>
+                        {entry.providerName}
+                      </span>
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => handleMove(entry.standbyId, "up")}
+                          disabled={index === 0}
+                          className="p-1 text-slate-400 hover:text-white disabled:opacity-30"
+                        >
+                          <ChevronUp className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleMove(entry.standbyId, "down")}
+                          disabled={index === entries.length - 1}
+                          className="p-1 text-slate-400 hover:text-white disabled:opacity-30"
+                        >
+                          <ChevronDown className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleRemove(entry.standbyId)}
+                          className="text-xs text-slate-500 hover:text-red-400 ml-2"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {standby.promoted.length > 0 && (
+        <div className="mt-4 space-y-1">
+          <h4 className="text-sm font-medium text-slate-400">Promoted</h4>
+          {standby.promoted.slice(0, 10).map((entry) => (
+            <div key={entry.standbyId} className="text-sm text-slate-400">
+              {entry.providerName} &rarr; {entry.serviceName} &middot;{" "}
+              {new Date(entry.date).toLocaleDateString()} {entry.shiftType}
+              {entry.promotedAt && (
+                <span className="text-slate-500 ml-2">{new Date(entry.promotedAt).toLocaleString()}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,495 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Doc, Id } from "../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+
+// ═══════════════════════════════════════════════════════════════════
+// WHAT-IF COMPARISON
+// Lightweight strike definitions compared side by side with existing
+// scenarios: positions, eligible supply and projected fill rate, all
+// computed without generating positions
+// ═══════════════════════════════════════════════════════════════════
+
+type AffectedJobTypes = Doc<"scenario_what_ifs">["affectedJobTypes"];
+
+const EMPTY_FORM = {
+  name: "",
+  hospitalId: "",
+  startDate: "",
+  endDate: "",
+  affectedJobTypes: [] as AffectedJobTypes,
+  positionSource: "static",
+};
+
+const fillColor = (percent: number) => {
+  if (percent >= 90) return "text-emerald-400";
+  if (percent >= 70) return "text-yellow-400";
+  if (percent >= 50) return "text-orange-400";
+  return "text-red-400";
+};
+
+interface WhatIfComparisonProps {
+  healthSystemId: Id<"health_systems"> | undefined;
+  scenarios: { _id: Id<"strike_scenarios">; name: string; status: string }[];
+}
+
+export function WhatIfComparison({ healthSystemId, scenarios }: WhatIfComparisonProps) {
+  const whatIfs = useQuery(api.whatIfScenarios.list, healthSystemId ? { healthSystemId } : "skip");
+  const hospitals = useQuery(api.hospitals.list, healthSystemId ? { healthSystemId } : "skip");
+  const jobTypes = useQuery(api.jobTypes.list, healthSystemId ? { healthSystemId } : "skip");
+  const createWhatIf = useMutation(api.whatIfScenarios.create);
+  const updateWhatIf = useMutation(api.whatIfScenarios.update);
+  const removeWhatIf = useMutation(api.whatIfScenarios.remove);
+
+  const [editingId, setEditingId] = useState<Id<"scenario_what_ifs"> | "new" | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [selectedWhatIfs, setSelectedWhatIfs] = useState<Id<"scenario_what_ifs">[]>([]);
+  const [selectedScenarios, setSelectedScenarios] = useState<Id<"strike_scenarios">[]>([]);
+
+  const comparison = useQuery(
+    api.whatIfScenarios.compare,
+    selectedWhatIfs.length + selectedScenarios.length > 0
+      ? { whatIfIds: selectedWhatIfs, scenarioIds: selectedScenarios }
+      : "skip"
+  );
+
+  const comparableScenarios = scenarios.filter((s) => s.status === "Draft" || s.status === "Active");
+
+  const startEdit = (whatIf?: Doc<"scenario_what_ifs">) => {
+    setEditingId(whatIf?._id ?? "new");
+    setFormData(
+      whatIf
+        ? {
+            name: whatIf.name,
+            hospitalId: whatIf.hospitalId ?? "",
+            startDate: whatIf.startDate,
+            endDate: whatIf.endDate,
+            affectedJobTypes: whatIf.affectedJobTypes,
+            positionSource: whatIf.positionSource ?? "static",
+          }
+        : EMPTY_FORM
+    );
+  };
+
+  const toggleJobType = (jobTypeId: Id<"job_types">) => {
+    setFormData({
+      ...formData,
+      affectedJobTypes: formData.affectedJobTypes.some((ajt) => ajt.jobTypeId === jobTypeId)
+        ? formData.affectedJobTypes.filter((ajt) => ajt.jobTypeId !== jobTypeId)
+        : [...formData.affectedJobTypes, { jobTypeId, reductionPercent: 100 }],
+    });
+  };
+
+  const setReduction = (jobTypeId: Id<"job_types">, reductionPercent: number) => {
+    setFormData({
+      ...formData,
+      affectedJobTypes: formData.affectedJobTypes.map((ajt) =>
+        ajt.jobTypeId === jobTypeId ? { ...ajt, reductionPercent } : ajt
+      ),
+    });
+  };
+
+  const toggle = <T,>(list: T[], id: T) => (list.includes(id) ? list.filter((x) => x !== id) : [...list, id]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!healthSystemId || !editingId) return;
+    const fields = {
+      name: formData.name,
+      hospitalId: (formData.hospitalId || undefined) as Id<"hospitals"> | undefined,
+      startDate: formData.startDate,
+      endDate: formData.endDate,
+      affectedJobTypes: formData.affectedJobTypes,
+      positionSource: formData.positionSource,
+    };
+    try {
+      if (editingId === "new") {
+        const whatIfId = await createWhatIf({ healthSystemId, ...fields });
+        setSelectedWhatIfs([...selectedWhatIfs, whatIfId]);
+        toast.success("What-if scenario created");
+      } else {
+        await updateWhatIf({ whatIfId: editingId, ...fields });
+        toast.success("What-if scenario updated");
+      }
+      setEditingId(null);
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleRemove = async (whatIfId: Id<"scenario_what_ifs">) => {
+    if (!confirm("Delete this what-if scenario?")) return;
+    try {
+      await removeWhatIf({ whatIfId });
+      setSelectedWhatIfs(selectedWhatIfs.filter((id) => id !== whatIfId));
+      toast.success("What-if scenario deleted");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  if (!healthSystemId) {
+    return (
+      <div className="bg-slate-800 rounded-lg p-8 text-center text-slate-400">
+        Select a health system to plan what-if scenarios
+      </div>
+    );
+  }
+
+  const allDates = comparison
+    ? Array.from(new Set(comparison.flatMap((item) => item.days.map((d) => d.date)))).sort()
+    : [];
+
+  // Service totals across the whole window, per compared item
+  const serviceTotals = comparison
+    ? comparison.map((item) => {
+        const totals = new Map<string, { positions: number; projectedFilled: number }>();
+        for (const row of item.services) {
+          const key = `${row.serviceName} (${row.hospitalCode})`;
+          const current = totals.get(key) ?? { positions: 0, projectedFilled: 0 };
+          totals.set(key, {
+            positions: current.positions + row.positions,
+            projectedFilled: current.projectedFilled + row.projectedFilled,
+          });
+        }
+        return totals;
+      })
+    : [];
+  type Totals = NonNullable<typeof comparison>[number]["totals"];
+  const metrics: { label: string; value: (t: Totals) => number }[] = [
+    { label: "Days", value: (t) => t.totalDays },
+    { label: "Affected services", value: (t) => t.affectedServices },
+    { label: "Positions to cover", value: (t) => t.positions },
+    { label: "Standby positions", value: (t) => t.standbyPositions },
+    { label: "Eligible providers", value: (t) => t.eligibleProviders },
+    { label: "Projected filled", value: (t) => t.projectedFilled },
+  ];
+
+  const serviceNames = Array.from(new Set(serviceTotals.flatMap((totals) => Array.from(totals.keys())))).sort();
+
+  return (
+    <div className="space-y-6">
+      {/* What-If List */}
+      <div className="bg-slate-800 rounded-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="font-medium">What-If Scenarios</h3>
+            <p className="text-sm text-slate-400 mt-1">
+              Select what-ifs and existing scenarios to compare. Nothing is generated until you create a real
+              scenario.
+            </p>
+          </div>
+          {editingId === null && (
+            <button
+              onClick={() => startEdit()}
+              className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors"
+            >
+              + New What-If
+            </button>
+          )}
+        </div>
+
+        {editingId !== null && (
+          <form onSubmit={handleSave} className="border border-slate-700 rounded-lg p-4 mb-4 space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm text-slate-400 mb-1">Name</label>
+                <input
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., 5-day RN+NP strike system-wide"
+                  className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:border-emerald-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-slate-400 mb-1">Hospital</label>
+                <select
+                  value={formData.hospitalId}
+                  onChange={(e) => setFormData({ ...formData, hospitalId: e.target.value })}
+                  className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:border-emerald-500"
+                >
+                  <option value="">All hospitals (system-wide)</option>
+                  {hospitals?.map((h) => (
+                    <option key={h._id} value={h._id}>
+                      {h.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm text-slate-400 mb-1">Start Date</label>
+                <input
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                  className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:border-emerald-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-slate-400 mb-1">End Date</label>
+                <input
+                  type="date"
+                  value={formData.endDate}
+                  onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                  className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:border-emerald-500"
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm text-slate-400 mb-2">Striking Job Types</label>
+              <div className="space-y-2">
+                {jobTypes?.map((jt) => {
+                  const selected = formData.affectedJobTypes.find((ajt) => ajt.jobTypeId === jt._id);
+                  return (
+                    <div key={jt._id} className="flex items-center gap-3 text-sm">
+                      <label className="flex items-center gap-2 w-56 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={!!selected}
+                          onChange={() => toggleJobType(jt._id)}
+                          className="rounded border-slate-500 text-emerald-500 focus:ring-emerald-500 bg-slate-600"
+                        />
+                        {jt.name} <span className="text-slate-500">({jt.code})</span>
+                      </label>
+                      {selected && (
+                        <div className="flex gap-1">
+                          {[25, 50, 75, 100].map((val) => (
+                            <button
+                              key={val}
+                              type="button"
+                              onClick={() => setReduction(jt._id, val)}
+                              className={`px-2 py-0.5 rounded text-xs ${
+                                selected.reductionPercent === val
+                                  ? "bg-emerald-600 text-white"
+                                  : "bg-slate-700 text-slate-300 hover:bg-slate-600"
+                              }`}
+                            >
+                              {val}%
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm text-slate-400 mb-1">Headcounts From</label>
+              <select
+                value={formData.positionSource}
+                onChange={(e) => setFormData({ ...formData, positionSource: e.target.value })}
+                className="px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:border-emerald-500"
+              >
+                <option value="static">Service staffing levels</option>
+                <option value="census">Census forecast</option>
+              </select>
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setEditingId(null)}
+                className="px-4 py-2 text-slate-300 hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+              <button type="submit" className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors">
+                Save What-If
+              </button>
+            </div>
+          </form>
+        )}
+
+        {whatIfs === undefined ? (
+          <div className="text-slate-400 text-sm">Loading...</div>
+        ) : whatIfs.length === 0 && comparableScenarios.length === 0 ? (
+          <p className="text-sm text-slate-500">No what-if scenarios yet</p>
+        ) : (
+          <div className="divide-y divide-slate-700">
+            {whatIfs.map((whatIf) => (
+              <div key={whatIf._id} className="flex items-center justify-between py-2 text-sm">
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selectedWhatIfs.includes(whatIf._id)}
+                    onChange={() => setSelectedWhatIfs(toggle(selectedWhatIfs, whatIf._id))}
+                    className="rounded border-slate-500 text-emerald-500 focus:ring-emerald-500 bg-slate-600"
+                  />
+                  <span className="font-medium">{whatIf.name}</span>
+                  <span className="text-slate-400">
+                    {whatIf.startDate} &ndash; {whatIf.endDate} &middot; {whatIf.hospitalName ?? "System-wide"} &middot;{" "}
+                    {whatIf.jobTypeSummary}
+                  </span>
+                </label>
+                <div className="whitespace-nowrap">
+                  <button onClick={() => startEdit(whatIf)} className="text-slate-400 hover:text-white mr-3">
+                    Edit
+                  </button>
+                  <button onClick={() => handleRemove(whatIf._id)} className="text-slate-400 hover:text-red-400">
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+            {comparableScenarios.map((scenario) => (
+              <div key={scenario._id} className="flex items-center py-2 text-sm">
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selectedScenarios.includes(scenario._id)}
+                    onChange={() => setSelectedScenarios(toggle(selectedScenarios, scenario._id))}
+                    className="rounded border-slate-500 text-emerald-500 focus:ring-emerald-500 bg-slate-600"
+                  />
+                  <span className="font-medium">{scenario.name}</span>
+                  <span className="px-2 py-0.5 rounded text-xs bg-slate-700 text-slate-300">{scenario.status}</span>
+                </label>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Comparison */}
+      {selectedWhatIfs.length + selectedScenarios.length > 0 && (
+        <div className="bg-slate-800 rounded-lg p-6 overflow-x-auto">
+          <h3 className="font-medium mb-4">Comparison</h3>
+          {comparison === undefined ? (
+            <div className="text-slate-400 text-sm">Projecting coverage...</div>
+          ) : (
+            <table className="w-full text-sm min-w-max">
+              <thead>
+                <tr className="text-left">
+                  <th className="pb-3 pr-4 font-normal text-slate-400"></th>
+                  {comparison.map((item) => (
+                    <th key={item.id} className="pb-3 px-3 align-top">
+                      <div className="font-medium">{item.name}</div>
+                      <div className="text-xs text-slate-400 font-normal">
+                        {item.kind === "scenario" ? "Existing scenario" : "What-if"} &middot;{" "}
+                        {item.hospitalName ?? "System-wide"}
+                      </div>
+                      <div className="text-xs text-slate-500 font-normal">
+                        {item.startDate} &ndash; {item.endDate} &middot; {item.jobTypeSummary}
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700">
+                {metrics.map((metric) => (
+                  <tr key={metric.label}>
+                    <td className="py-2 pr-4 text-slate-400">{metric.label}</td>
+                    {comparison.map((item) => (
+                      <td key={item.id} className="py-2 px-3">
+                        {metric.value(item.totals)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                <tr>
+                  <td className="py-2 pr-4 text-slate-400">Projected fill rate</td>
+                  {comparison.map((item) => (
+                    <td key={item.id} className={`py-2 px-3 text-lg font-bold ${fillColor(item.totals.fillRate)}`}>
+                      {item.totals.fillRate}%
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td className="py-2 pr-4 text-slate-400">Worst day</td>
+                  {comparison.map((item) => (
+                    <td key={item.id} className="py-2 px-3">
+                      {item.totals.worstDay ? (
+                        <>
+                          {new Date(item.totals.worstDay.date).toLocaleDateString()}{" "}
+                          <span className={fillColor(item.totals.worstDay.fillRate)}>
+                            {item.totals.worstDay.fillRate}%
+                          </span>
+                        </>
+                      ) : (
+                        <span className="text-slate-500">-</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+
+                {/* Fill rate by date */}
+                <tr>
+                  <td colSpan={comparison.length + 1} className="pt-6 pb-2 text-xs font-medium text-slate-300 uppercase">
+                    By Date
+                  </td>
+                </tr>
+                {allDates.map((date) => (
+                  <tr key={date}>
+                    <td className="py-1.5 pr-4 text-slate-400">
+                      {new Date(date).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" })}
+                    </td>
+                    {comparison.map((item) => {
+                      const day = item.days.find((d) => d.date === date);
+                      return (
+                        <td key={item.id} className="py-1.5 px-3">
+                          {day && day.positions > 0 ? (
+                            <>
+                              <span className={fillColor(day.fillRate)}>{day.fillRate}%</span>
+                              <span className="text-slate-500 text-xs ml-2">
+                                {day.projectedFilled}/{day.positions} &middot; {day.eligibleProviders} eligible
+                              </span>
+                            </>
+                          ) : (
+                            <span className="text-slate-600">-</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+
+                {/* Fill rate by service */}
+                <tr>
+                  <td colSpan={comparison.length + 1} className="pt-6 pb-2 text-xs font-medium text-slate-300 uppercase">
+                    By Service
+                  </td>
+                </tr>
+                {serviceNames.map((name) => (
+                  <tr key={name}>
+                    <td className="py-1.5 pr-4 text-slate-400">{name}</td>
+                    {serviceTotals.map((totals, i) => {
+                      const row = totals.get(name);
+                      const percent = row && row.positions > 0 ? Math.round((row.projectedFilled / row.positions) * 100) : null;
+                      return (
+                        <td key={comparison[i].id} className="py-1.5 px-3">
+                          {row && percent !== null ? (
+                            <>
+                              <span className={fillColor(percent)}>{percent}%</span>
+                              <span className="text-slate-500 text-xs ml-2">
+                                {row.projectedFilled}/{row.positions}
+                              </span>
+                            </>
+                          ) : (
+                            <span className="text-slate-600">-</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="text-xs text-slate-500 mt-4">
+            Supply counts active providers who may cover each shift under the matching rules (job type hierarchy,
+            hospital access, visa) and haven&apos;t marked themselves unavailable. Each provider fills at most one
+            position per shift; duty hours and existing assignments aren&apos;t considered.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,8 +10,10 @@ import {
   ShiftType,
   SERVICE_TYPES,
   FEEDER_SOURCES,
+  STRIKE_ROUNDING_RULES,
   ServiceType,
   FeederSource,
+  StrikeRounding,
 } from "./types";
 
 interface ServiceEditModalProps {
@@ -49,6 +51,7 @@ interface JobTypeData {
   dayShiftEnd?: string;
   nightShiftStart?: string;
   nightShiftEnd?: string;
+  censusPatientsPerProvider?: number;
 }
 
 export default function ServiceEditModal({
@@ -60,6 +63,7 @@ export default function ServiceEditModal({
   const updateService = useMutation(api.services.update);
   const updateShift = useMutation(api.services.updateShift);
   const toggleShiftActive = useMutation(api.services.toggleShiftActive);
+  const updateCensusPatientsPerProvider = useMutation(api.services.updateCensusPatientsPerProvider);
 
   const [isSaving, setIsSaving] = useState(false);
 
@@ -84,6 +88,8 @@ export default function ServiceEditModal({
   const [dayShiftEnd, setDayShiftEnd] = useState("19:00");
   const [nightShiftStart, setNightShiftStart] = useState("19:00");
   const [nightShiftEnd, setNightShiftEnd] = useState("07:00");
+  const [strikeRounding, setStrikeRounding] = useState<StrikeRounding>("up");
+  const [backupHeadcount, setBackupHeadcount] = useState(0);
 
   // Get admit services for linking when editing procedure type
   const admitServices = useQuery(
@@ -118,6 +124,8 @@ export default function ServiceEditModal({
       setDayShiftEnd(serviceDetails.dayShiftEnd);
       setNightShiftStart(serviceDetails.nightShiftStart);
       setNightShiftEnd(serviceDetails.nightShiftEnd);
+      setStrikeRounding((serviceDetails.strikeRounding as StrikeRounding) ?? "up");
+      setBackupHeadcount(serviceDetails.backupHeadcount ?? 0);
     }
   }, [serviceDetails]);
 
@@ -146,6 +154,8 @@ export default function ServiceEditModal({
         operatesDays,
         operatesNights,
         operatesWeekends,
+        strikeRounding,
+        backupHeadcount,
       });
       toast.success("Service updated successfully");
     } catch (error: any) {
@@ -180,6 +190,18 @@ export default function ServiceEditModal({
     }
   };
 
+  const handleUpdateCensusRatio = async (serviceJobTypeId: Id<"service_job_types">, value: string) => {
+    try {
+      await updateCensusPatientsPerProvider({
+        serviceJobTypeId,
+        patientsPerProvider: value ? parseFloat(value) : undefined,
+      });
+      toast.success("Census ratio updated");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
   const handleUpdateShiftTime = async (
     shiftId: Id<"shifts">,
     startTime: string,
@@ -480,6 +502,58 @@ export default function ServiceEditModal({
               </div>
             </div>
 
+            {/* Partial Strike Rounding */}
+            <div className="pt-4 border-t border-slate-600">
+              <h4 className="text-sm font-medium text-slate-300 mb-3">
+                Partial Strike Rounding
+              </h4>
+              <div className="grid grid-cols-3 gap-3">
+                {(
+                  Object.entries(STRIKE_ROUNDING_RULES) as [
+                    StrikeRounding,
+                    (typeof STRIKE_ROUNDING_RULES)[StrikeRounding]
+                  ][]
+                ).map(([rule, config]) => (
+                  <button
+                    key={rule}
+                    type="button"
+                    onClick={() => setStrikeRounding(rule)}
+                    className={`p-3 rounded-lg border-2 transition-all text-left ${
+                      strikeRounding === rule
+                        ? "border-emerald-500 bg-emerald-500/10"
+                        : "border-slate-500 hover:border-slate-400"
+                    }`}
+                  >
+                    <span className="font-medium text-white text-sm">
+                      {config.label}
+                    </span>
+                    <p className="text-xs text-slate-400">{config.description}</p>
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500 mt-2">
+                How scenario positions are counted when only part of a job type strikes
+              </p>
+            </div>
+
+            {/* Standby Buffer */}
+            <div className="pt-4 border-t border-slate-600">
+              <h4 className="text-sm font-medium text-slate-300 mb-3">
+                Standby Positions
+              </h4>
+              <input
+                type="number"
+                min={0}
+                value={backupHeadcount}
+                onChange={(e) => setBackupHeadcount(Math.max(0, parseInt(e.target.value) || 0))}
+                className="w-24 px-3 py-2 bg-slate-600 border border-slate-500 rounded-lg focus:outline-none focus:border-emerald-500 text-white"
+              />
+              <p className="text-xs text-slate-500 mt-2">
+                Backup positions per striking job type per shift. Staffed like any other
+                position but not counted as filled coverage.
+              </p>
+            </div>
+
             {/* Shift Times */}
             <div className="pt-4 border-t border-slate-600">
               <h4 className="text-sm font-medium text-slate-300 mb-3">
@@ -610,6 +684,26 @@ export default function ServiceEditModal({
                       {jobTypeData.jobType?.code}
                     </p>
                   </div>
+                  {/* Census-derived scenario positions need a unit to read census from */}
+                  {serviceDetails.unitId && (
+                    <div className="flex items-center gap-2">
+                      <label className="text-xs text-slate-400">Census: patients per provider</label>
+                      <input
+                        type="number"
+                        min={0.5}
+                        step={0.5}
+                        defaultValue={jobTypeData.censusPatientsPerProvider ?? ""}
+                        placeholder={jobTypeData.jobType?.code === "RN" ? "Unit ratio" : "Static"}
+                        onBlur={(e) => {
+                          const value = e.target.value;
+                          if (value !== String(jobTypeData.censusPatientsPerProvider ?? "")) {
+                            handleUpdateCensusRatio(jobTypeData._id, value);
+                          }
+                        }}
+                        className="w-24 px-2 py-1 bg-slate-500 border border-slate-400 rounded text-sm text-white focus:outline-none focus:border-emerald-500"
+                      />
+                    </div>
+                  )}
                 </div>
 
                 {/* Skills for this role */}
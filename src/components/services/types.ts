@@ -62,6 +62,35 @@ export const FEEDER_SOURCES: Record<
   },
 };
 
+/**
+ * Rounding rule for partial strikes
+ * - "up": Round vacated positions up (never under-cover)
+ * - "down": Round vacated positions down
+ * - "nearest": Round to the nearest whole position
+ */
+export type StrikeRounding = "up" | "down" | "nearest";
+
+/**
+ * Strike rounding display configuration
+ */
+export const STRIKE_ROUNDING_RULES: Record<
+  StrikeRounding,
+  { label: string; description: string }
+> = {
+  up: {
+    label: "Round Up",
+    description: "50% of 5 = 3 positions (default)",
+  },
+  down: {
+    label: "Round Down",
+    description: "50% of 5 = 2 positions",
+  },
+  nearest: {
+    label: "Nearest",
+    description: "Round to the nearest whole position",
+  },
+};
+
 /**
  * Configuration for a single shift within a job type
  */
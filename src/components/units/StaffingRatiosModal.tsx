@@ -0,0 +1,256 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+
+// ═══════════════════════════════════════════════════════════════════
+// STAFFING RATIOS MODAL
+// Edit a unit's nurse-to-patient ratio table by shift and acuity tier.
+// Each save is a new version effective from the chosen date.
+// ═══════════════════════════════════════════════════════════════════
+
+type RatioGrid = Record<string, Record<string, string>>; // tier -> shift -> patients per RN
+
+const INPUT_CLASS =
+  "w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg focus:outline-none focus:border-emerald-500";
+
+export function StaffingRatiosModal({
+  unitId,
+  onClose,
+}: {
+  unitId: Id<"units">;
+  onClose: () => void;
+}) {
+  const data = useQuery(api.units.getStaffingRatios, { unitId });
+  const saveRatios = useMutation(api.units.saveStaffingRatios);
+  const deleteRatios = useMutation(api.units.deleteStaffingRatios);
+
+  const today = new Date().toISOString().split("T")[0];
+  const [effectiveDate, setEffectiveDate] = useState(today);
+  const [baseTier, setBaseTier] = useState("floor");
+  const [grid, setGrid] = useState<RatioGrid>({});
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+
+  // Start the form from the version in effect today, or the defaults
+  useEffect(() => {
+    if (!data || loaded) return;
+    const current = data.history.find((version) => version.isCurrent);
+    const initial: RatioGrid = {};
+    for (const tier of data.tiers) {
+      initial[tier.value] = {};
+      for (const shift of data.shifts) {
+        const row = current?.ratios.find((r) => r.acuityTier === tier.value && r.shiftType === shift);
+        initial[tier.value][shift] = row ? String(row.patientsPerNurse) : "";
+      }
+    }
+    setGrid(initial);
+    if (current) setBaseTier(current.baseTier);
+    setLoaded(true);
+  }, [data, loaded]);
+
+  if (!data) return null;
+
+  const handleSave = async () => {
+    const ratios = [];
+    for (const tier of data.tiers) {
+      for (const shift of data.shifts) {
+        const value = grid[tier.value]?.[shift];
+        if (!value) continue;
+        const patientsPerNurse = Number(value);
+        if (!(patientsPerNurse > 0)) {
+          toast.error(`${tier.label} ${shift}: enter patients per RN`);
+          return;
+        }
+        ratios.push({ shiftType: shift, acuityTier: tier.value, patientsPerNurse });
+      }
+    }
+
+    setSaving(true);
+    try {
+      await saveRatios({
+        unitId,
+        effectiveDate,
+        baseTier,
+        ratios,
+        notes: notes || undefined,
+      });
+      toast.success(`Ratios saved, effective ${effectiveDate}`);
+      setNotes("");
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (versionId: Id<"unit_staffing_ratios">) => {
+    if (!confirm("Delete this ratio table version?")) return;
+    try {
+      await deleteRatios({ versionId });
+      toast.success("Version deleted");
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const tierLabel = (value: string) => data.tiers.find((t) => t.value === value)?.label ?? value;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-slate-800 rounded-lg p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-semibold mb-1">Staffing Ratios &mdash; {data.unitName}</h2>
+        <p className="text-sm text-slate-400 mb-4">
+          Patients per RN by shift and acuity. Blank cells use the default shown.
+        </p>
+
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Effective From</label>
+            <input
+              type="date"
+              value={effectiveDate}
+              onChange={(e) => setEffectiveDate(e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Regular Patients Are</label>
+            <select value={baseTier} onChange={(e) => setBaseTier(e.target.value)} className={INPUT_CLASS}>
+              {data.tiers
+                .filter((tier) => tier.value !== "one_to_one")
+                .map((tier) => (
+                  <option key={tier.value} value={tier.value}>
+                    {tier.label}
+                  </option>
+                ))}
+            </select>
+          </div>
+        </div>
+
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr className="text-left text-slate-400">
+              <th className="pb-2 font-normal">Acuity Tier</th>
+              {data.shifts.map((shift) => (
+                <th key={shift} className="pb-2 font-normal">
+                  {shift} (patients per RN)
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {data.tiers.map((tier) => (
+              <tr key={tier.value} className="border-t border-slate-700">
+                <td className="py-2">
+                  {tier.label}
+                  {tier.value === baseTier && (
+                    <span className="ml-2 text-xs text-emerald-400">base</span>
+                  )}
+                </td>
+                {data.shifts.map((shift) => (
+                  <td key={shift} className="py-2 pr-2">
+                    <input
+                      type="number"
+                      min={0.5}
+                      step={0.5}
+                      value={grid[tier.value]?.[shift] ?? ""}
+                      onChange={(e) =>
+                        setGrid({
+                          ...grid,
+                          [tier.value]: { ...grid[tier.value], [shift]: e.target.value },
+                        })
+                      }
+                      placeholder={`1:${data.defaults[tier.value]}`}
+                      className={INPUT_CLASS}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <input
+          type="text"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="Notes, e.g. contract article or regulation (optional)"
+          className={`${INPUT_CLASS} mb-4`}
+        />
+
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-slate-600 hover:bg-slate-500 rounded-lg transition-colors"
+          >
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || !effectiveDate}
+            className="flex-1 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 rounded-lg transition-colors"
+          >
+            {saving ? "Saving..." : "Save Version"}
+          </button>
+        </div>
+
+        {/* History */}
+        <div className="mt-6">
+          <h3 className="text-sm font-medium text-slate-400 mb-2">History</h3>
+          {data.history.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              No ratio tables yet &mdash; defaults apply (Floor 1:5, ICU 1:2, 1:1 devices 1:1)
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {data.history.map((version) => (
+                <div key={version._id} className="bg-slate-700/50 rounded p-3 text-sm">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">From {version.effectiveDate}</span>
+                      {version.isCurrent && (
+                        <span className="px-2 py-0.5 rounded text-xs bg-emerald-600/50 text-emerald-300">
+                          Current
+                        </span>
+                      )}
+                      {version.isFuture && (
+                        <span className="px-2 py-0.5 rounded text-xs bg-blue-600/50 text-blue-300">
+                          Scheduled
+                        </span>
+                      )}
+                      <span className="text-slate-400">base: {tierLabel(version.baseTier)}</span>
+                    </div>
+                    <button
+                      onClick={() => handleDelete(version._id)}
+                      className="text-xs text-slate-500 hover:text-red-400"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                  <div className="text-slate-400 mt-1">
+                    {version.ratios.length === 0
+                      ? "Defaults"
+                      : version.ratios
+                          .map((r) => `${tierLabel(r.acuityTier)} ${r.shiftType} 1:${r.patientsPerNurse}`)
+                          .join(" · ")}
+                  </div>
+                  <div className="text-xs text-slate-500 mt-1">
+                    {version.createdByName} &middot; {new Date(version.createdAt).toLocaleDateString()}
+                    {version.notes && <> &middot; {version.notes}</>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
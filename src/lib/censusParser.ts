@@ -2,6 +2,8 @@
  * Census Excel Parser
  * Parses single-sheet or multi-sheet Excel files with patient census data
  * Supports the Cardiology Service Line format with Unit column
+ * Unit names are kept as found; the hospital's unit mappings decide ICU
+ * vs floor (convex/lib/unitMapping.ts)
  */
 
 import * as XLSX from "xlsx";
@@ -15,7 +17,6 @@ export interface CensusPatient {
   patientName: string; // Full name "Last, First"
   initials: string; // Derived "LF"
   unitName: string; // From Unit column or sheet name
-  unitType: "icu" | "floor";
   service?: string;
   admissionDate: string;
   losDays?: number;
@@ -45,7 +46,6 @@ export interface CensusPatient {
 
 export interface CensusSheet {
   name: string;
-  unitType: "icu" | "floor";
   patients: CensusPatient[];
   date?: string;
 }
@@ -53,8 +53,6 @@ export interface CensusSheet {
 export interface CensusParseResult {
   sheets: CensusSheet[];
   totalPatients: number;
-  icuPatients: number;
-  floorPatients: number;
   censusDate: string;
   errors: string[];
 }
@@ -63,8 +61,6 @@ export interface CensusParseResult {
 // CONSTANTS
 // ═══════════════════════════════════════════════════════════════════
 
-// Unit type detection patterns (ICU units)
-const ICU_PATTERNS = ["CCU", "CSIU", "CVU", "ICU", "CICU", "MSM", "SICU", "MICU", "NICU"];
 const SKIP_SHEETS = ["Summary", "Template", "Instructions"];
 
 // Column name patterns for flexible matching
@@ -106,14 +102,6 @@ const DISCHARGE_STATUS_TO_DAYS: Record<string, number> = {
 // HELPER FUNCTIONS
 // ═══════════════════════════════════════════════════════════════════
 
-/**
- * Detect if a unit name is ICU or floor based on patterns
- */
-export function detectUnitType(unitName: string): "icu" | "floor" {
-  const upperName = unitName.toUpperCase();
-  return ICU_PATTERNS.some((pattern) => upperName.includes(pattern)) ? "icu" : "floor";
-}
-
 /**
  * Detect 1:1 nursing devices in clinical text
  * Returns array of detected device names (ECMO, CVVH, Impella, IABP)
@@ -273,8 +261,6 @@ export function parseCensusExcel(data: ArrayBuffer): CensusParseResult {
   const result: CensusParseResult = {
     sheets: [],
     totalPatients: 0,
-    icuPatients: 0,
-    floorPatients: 0,
     censusDate: new Date().toISOString().split("T")[0],
     errors: [],
   };
@@ -366,8 +352,6 @@ export function parseCensusExcel(data: ArrayBuffer): CensusParseResult {
           ? String(row[columns.unit] || "").trim() || sheetName
           : sheetName;
 
-        const unitType = detectUnitType(unitName);
-
         // Get admission date
         const admissionDate = columns.admissionDate
           ? normalizeDate(row[columns.admissionDate])
@@ -424,7 +408,6 @@ export function parseCensusExcel(data: ArrayBuffer): CensusParseResult {
           patientName,
           initials: nameToInitials(patientName),
           unitName,
-          unitType,
           admissionDate,
           losDays,
           service: columns.service
@@ -472,21 +455,13 @@ export function parseCensusExcel(data: ArrayBuffer): CensusParseResult {
     // Create sheets from grouped patients
     for (const [unitName, patients] of patientsByUnit) {
       if (patients.length > 0) {
-        const unitType = patients[0].unitType;
-
         result.sheets.push({
           name: unitName,
-          unitType,
           patients,
           date: sheetDate,
         });
 
         result.totalPatients += patients.length;
-        if (unitType === "icu") {
-          result.icuPatients += patients.length;
-        } else {
-          result.floorPatients += patients.length;
-        }
       }
     }
   }
@@ -499,21 +474,13 @@ export function parseCensusExcel(data: ArrayBuffer): CensusParseResult {
  */
 export function getParseStats(result: CensusParseResult): {
   totalSheets: number;
-  icuSheets: number;
-  floorSheets: number;
   totalPatients: number;
-  icuPatients: number;
-  floorPatients: number;
   hasStructuredData: boolean;
   errorCount: number;
 } {
   return {
     totalSheets: result.sheets.length,
-    icuSheets: result.sheets.filter((s) => s.unitType === "icu").length,
-    floorSheets: result.sheets.filter((s) => s.unitType === "floor").length,
     totalPatients: result.totalPatients,
-    icuPatients: result.icuPatients,
-    floorPatients: result.floorPatients,
     hasStructuredData: hasStructuredData(result),
     errorCount: result.errors.length,
   };